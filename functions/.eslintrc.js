@@ -1,17 +1,33 @@
 module.exports = {
+  'root': true,
   'env': {
     es6: true,
     node: true,
   },
-  'parserOptions': {
-    'ecmaVersion': 2018,
-  },
   'extends': [
     'eslint:recommended',
+    'plugin:import/errors',
+    'plugin:import/warnings',
+    'plugin:import/typescript',
     'google',
+    'plugin:@typescript-eslint/recommended',
+  ],
+  'parser': '@typescript-eslint/parser',
+  'parserOptions': {
+    project: ['tsconfig.json', 'tsconfig.dev.json'],
+    tsconfigRootDir: __dirname,
+    sourceType: 'module',
+  },
+  'ignorePatterns': [
+    '/lib/**/*',
+  ],
+  'plugins': [
+    '@typescript-eslint',
+    'import',
   ],
   'rules': {
     'max-len': ['off'],
+    'import/no-unresolved': 0,
   },
   'overrides': [
     {
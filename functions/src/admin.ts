@@ -0,0 +1,15 @@
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+
+// Initialize Firebase Admin SDK
+try {
+  admin.initializeApp();
+} catch (e) {
+  logger.warn(
+      'Firebase Admin SDK already initialized or initialization failed:',
+      e,
+  );
+}
+
+export const db = admin.firestore();
+export {admin};
@@ -0,0 +1,203 @@
+import {DocumentReference, FieldValue, Transaction as FirestoreTransaction} from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {confirm, reject} from './ledger';
+import type {
+  AdvertiserStatusMap,
+  CashbackStatus,
+  Conversion,
+  Store,
+  Transaction,
+  TransactionAuditEntry,
+} from './types';
+
+/**
+ * Status table used when a store does not define its own
+ * `advertiserStatusMap`. Keys are lower-cased advertiser statuses.
+ */
+export const DEFAULT_ADVERTISER_STATUS_MAP: AdvertiserStatusMap = {
+  'pending': 'pending',
+  'open': 'pending',
+  'approved': 'confirmed',
+  'confirmed': 'confirmed',
+  'validated': 'confirmed',
+  'declined': 'rejected',
+  'rejected': 'rejected',
+  'cancelled': 'cancelled',
+  'canceled': 'cancelled',
+  'reversed': 'cancelled',
+  'returned': 'cancelled',
+};
+
+export interface AdvertiserStatusResult {
+  status: 'applied' | 'unchanged' | 'ignored';
+  transactionId?: string | null;
+  fromStatus?: CashbackStatus;
+  toStatus?: CashbackStatus;
+  reason?: string;
+}
+
+/**
+ * Maps a raw advertiser status to a `CashbackStatus` using the store's table,
+ * falling back to the default table for statuses the store does not list.
+ *
+ * @param {string} advertiserStatus The status reported by the network.
+ * @param {AdvertiserStatusMap | null} storeMap The store's status table.
+ * @return {CashbackStatus | null} The mapped status, or null if unknown.
+ */
+export function mapAdvertiserStatus(
+    advertiserStatus: string,
+    storeMap?: AdvertiserStatusMap | null,
+): CashbackStatus | null {
+  const key = advertiserStatus.trim().toLowerCase();
+  if (!key) return null;
+  return storeMap?.[key] ?? DEFAULT_ADVERTISER_STATUS_MAP[key] ?? null;
+}
+
+export type PendingTransitionStatus = 'confirmed' | 'cancelled' | 'rejected';
+
+export interface PendingTransitionInput {
+  toStatus: PendingTransitionStatus;
+  source: TransactionAuditEntry['source'];
+  advertiserStatus: string | null;
+  conversionId: string | null;
+  actorId: string | null;
+  description: string;
+  rejectionReason: string;
+}
+
+/**
+ * Moves a `pending` transaction to `confirmed`, `cancelled` or `rejected`,
+ * rebalancing through the ledger and writing an audit entry. Confirmation
+ * credits `finalCashbackAmount` when one has been recorded.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {DocumentReference} transactionRef The transaction document.
+ * @param {Transaction} transaction The transaction's current data.
+ * @param {PendingTransitionInput} input The target status and audit details.
+ */
+export function transitionPendingTransaction(
+    firestoreTransaction: FirestoreTransaction,
+    transactionRef: DocumentReference,
+    transaction: Transaction,
+    input: PendingTransitionInput,
+): void {
+  const pendingAmount = transaction.initialCashbackAmount || 0;
+  const ledgerInput = {
+    userId: transaction.userId,
+    transactionId: transactionRef.id,
+    actorId: input.actorId,
+    description: input.description,
+  };
+
+  if (input.toStatus === 'confirmed') {
+    const finalCashbackToCredit = transaction.finalCashbackAmount ?? pendingAmount;
+    firestoreTransaction.update(transactionRef, {
+      status: input.toStatus,
+      confirmationDate: FieldValue.serverTimestamp(),
+      finalSaleAmount: transaction.finalSaleAmount ?? transaction.saleAmount,
+      finalCashbackAmount: finalCashbackToCredit,
+      rejectionReason: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    confirm(firestoreTransaction, {...ledgerInput, pendingAmount, confirmedAmount: finalCashbackToCredit});
+  } else {
+    firestoreTransaction.update(transactionRef, {
+      status: input.toStatus,
+      rejectionReason: input.rejectionReason,
+      confirmationDate: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    reject(firestoreTransaction, {...ledgerInput, pendingAmount});
+  }
+
+  const auditEntry: TransactionAuditEntry = {
+    fromStatus: transaction.status,
+    toStatus: input.toStatus,
+    source: input.source,
+    advertiserStatus: input.advertiserStatus,
+    conversionId: input.conversionId,
+    actorId: input.actorId,
+    createdAt: FieldValue.serverTimestamp(),
+  };
+  firestoreTransaction.create(transactionRef.collection('auditLog').doc(), auditEntry);
+}
+
+/**
+ * Applies an advertiser status update to the transaction created from a
+ * conversion. Only `pending` transactions move, to `confirmed`, `cancelled`
+ * or `rejected`; balances are rebalanced through the ledger the same way the
+ * admin edit dialog does and an audit entry is written under the transaction.
+ *
+ * Replaying the same status is a no-op, so repeated postbacks are safe.
+ *
+ * @param {string} conversionId The conversion the update refers to.
+ * @param {string} advertiserStatus The raw status reported by the network.
+ * @return {Promise<AdvertiserStatusResult>} What happened to the transaction.
+ */
+export async function applyAdvertiserStatus(
+    conversionId: string,
+    advertiserStatus: string,
+): Promise<AdvertiserStatusResult> {
+  const conversionRef = db.collection('conversions').doc(conversionId);
+
+  return db.runTransaction(async (firestoreTransaction): Promise<AdvertiserStatusResult> => {
+    const conversionSnap = await firestoreTransaction.get(conversionRef);
+    if (!conversionSnap.exists) {
+      return {status: 'ignored', reason: `Conversion ${conversionId} not found.`};
+    }
+    const conversion = conversionSnap.data() as Conversion;
+    if (!conversion.storeId || !conversion.transactionId) {
+      return {status: 'ignored', reason: 'Conversion has not been processed into a transaction yet.'};
+    }
+
+    const storeRef = db.collection('stores').doc(conversion.storeId);
+    const transactionRef = db.collection('transactions').doc(conversion.transactionId);
+    const [storeSnap, transactionSnap] = await Promise.all([
+      firestoreTransaction.get(storeRef),
+      firestoreTransaction.get(transactionRef),
+    ]);
+    if (!transactionSnap.exists) {
+      return {status: 'ignored', reason: `Transaction ${conversion.transactionId} not found.`};
+    }
+
+    const store = storeSnap.exists ? storeSnap.data() as Store : null;
+    const transaction = transactionSnap.data() as Transaction;
+    const fromStatus = transaction.status;
+    const toStatus = mapAdvertiserStatus(advertiserStatus, store?.advertiserStatusMap);
+
+    firestoreTransaction.update(conversionRef, {advertiserStatus});
+
+    if (!toStatus) {
+      return {status: 'ignored', transactionId: conversion.transactionId, reason: `Unmapped advertiser status "${advertiserStatus}".`};
+    }
+    if (toStatus === fromStatus) {
+      return {status: 'unchanged', transactionId: conversion.transactionId, fromStatus, toStatus};
+    }
+    if (fromStatus !== 'pending' || !['confirmed', 'cancelled', 'rejected'].includes(toStatus)) {
+      return {
+        status: 'ignored',
+        transactionId: conversion.transactionId,
+        fromStatus,
+        toStatus,
+        reason: `Transition ${fromStatus} -> ${toStatus} is not allowed from a postback.`,
+      };
+    }
+
+    transitionPendingTransaction(firestoreTransaction, transactionRef, transaction, {
+      toStatus: toStatus as PendingTransitionStatus,
+      source: 'postback',
+      advertiserStatus,
+      conversionId,
+      actorId: null,
+      description: `Advertiser reported order ${conversion.orderId} as "${advertiserStatus}".`,
+      rejectionReason: `Marked "${advertiserStatus}" by the advertiser.`,
+    });
+
+    logger.info(
+        `Transaction ${conversion.transactionId} moved ${fromStatus} -> ${toStatus} ` +
+      `(advertiser status "${advertiserStatus}").`,
+    );
+    return {status: 'applied', transactionId: conversion.transactionId, fromStatus, toStatus};
+  });
+}
@@ -0,0 +1,33 @@
+import {CallableRequest, HttpsError} from 'firebase-functions/v2/https';
+import {db} from './admin';
+import type {UserProfile} from './types';
+
+/**
+ * Returns the caller's UID, rejecting unauthenticated calls.
+ *
+ * @param {CallableRequest} request The callable request.
+ * @return {string} The caller's UID.
+ */
+export function assertAuthenticated(request: CallableRequest): string {
+  if (!request.auth?.uid) {
+    throw new HttpsError('unauthenticated', 'You must be logged in.');
+  }
+  return request.auth.uid;
+}
+
+/**
+ * Returns the caller's UID, rejecting callers whose profile is not an
+ * enabled admin.
+ *
+ * @param {CallableRequest} request The callable request.
+ * @return {Promise<string>} The admin's UID.
+ */
+export async function assertAdmin(request: CallableRequest): Promise<string> {
+  const uid = assertAuthenticated(request);
+  const userSnap = await db.collection('users').doc(uid).get();
+  const profile = userSnap.data() as UserProfile | undefined;
+  if (!profile || profile.role !== 'admin' || profile.isDisabled) {
+    throw new HttpsError('permission-denied', 'Admin access required.');
+  }
+  return uid;
+}
@@ -0,0 +1,100 @@
+import {Transaction as FirestoreTransaction} from 'firebase-admin/firestore';
+import {db} from './admin';
+import type {Campaign} from './types';
+
+export type CampaignWithId = Campaign & {id: string};
+
+/** What is known about a purchase when picking a boost campaign. */
+export interface CampaignContext {
+  userId: string;
+  // The product clicked, if the click was for one.
+  productId?: string | null;
+  // When the user clicked; campaigns apply to clicks inside their window.
+  at: Date;
+  // Null when not known; campaigns for new users then never match.
+  isNewUser?: boolean | null;
+}
+
+/**
+ * Loads a store's active campaigns. Windows and eligibility are checked by
+ * `selectCampaign`, so the query needs no composite index.
+ *
+ * @param {string} storeId The store.
+ * @param {FirestoreTransaction} firestoreTransaction Optional transaction
+ *     to read in.
+ * @return {Promise<CampaignWithId[]>} The store's campaigns.
+ */
+export async function getStoreCampaigns(
+    storeId: string,
+    firestoreTransaction?: FirestoreTransaction,
+): Promise<CampaignWithId[]> {
+  const campaignsQuery = db.collection('campaigns')
+      .where('storeId', '==', storeId)
+      .where('isActive', '==', true);
+  const snap = firestoreTransaction ? await firestoreTransaction.get(campaignsQuery) : await campaignsQuery.get();
+  return snap.docs.map((doc) => ({id: doc.id, ...doc.data() as Campaign}));
+}
+
+/**
+ * Whether any of the campaigns is limited to new users, so callers only look
+ * up the user's order history when it matters.
+ *
+ * @param {Campaign[]} campaigns The store's campaigns.
+ * @return {boolean} True if a new-user campaign exists.
+ */
+export function needsNewUserCheck(campaigns: Campaign[]): boolean {
+  return campaigns.some((campaign) => campaign.eligibility === 'new');
+}
+
+/**
+ * Picks the campaign boosting a purchase: among active campaigns whose
+ * window contains the click, that cover the clicked product (or the whole
+ * store) and that the user is eligible for, the highest multiplier wins.
+ *
+ * Must stay in step with `liveCampaignsFor` in src/lib/campaigns.ts.
+ *
+ * @param {CampaignWithId[]} campaigns The store's campaigns.
+ * @param {CampaignContext} context What is known about the purchase.
+ * @return {CampaignWithId | null} The campaign to apply, if any.
+ */
+export function selectCampaign(campaigns: CampaignWithId[], context: CampaignContext): CampaignWithId | null {
+  const atMillis = context.at.getTime();
+  let best: CampaignWithId | null = null;
+  for (const campaign of campaigns) {
+    if (!campaign.isActive || campaign.multiplier <= 1) continue;
+    if (campaign.startsAt.toMillis() > atMillis || campaign.endsAt.toMillis() < atMillis) continue;
+    if (campaign.productId && campaign.productId !== context.productId) continue;
+    if (campaign.eligibility === 'new' && context.isNewUser !== true) continue;
+    if (campaign.eligibility === 'specific' && !(campaign.eligibleUserIds || []).includes(context.userId)) continue;
+    if (!best || campaign.multiplier > best.multiplier) {
+      best = campaign;
+    }
+  }
+  return best;
+}
+
+/**
+ * Applies a campaign's multiplier to a cashback amount, capping the extra
+ * cashback at the campaign's `maxBonusAmount`.
+ *
+ * @param {{amount: number, rateApplied: string}} cashback The unboosted
+ *     cashback.
+ * @param {Campaign} campaign The campaign to apply.
+ * @return {{amount: number, rateApplied: string, bonus: number}} The boosted
+ *     cashback and the bonus it includes.
+ */
+export function applyCampaignBoost(
+    cashback: {amount: number; rateApplied: string},
+    campaign: Campaign,
+): {amount: number; rateApplied: string; bonus: number} {
+  let bonus = cashback.amount * (campaign.multiplier - 1);
+  if (campaign.maxBonusAmount != null && campaign.maxBonusAmount >= 0) {
+    bonus = Math.min(bonus, campaign.maxBonusAmount);
+  }
+  bonus = parseFloat(Math.max(bonus, 0).toFixed(2));
+  return {
+    amount: parseFloat((cashback.amount + bonus).toFixed(2)),
+    rateApplied: `${cashback.rateApplied} + ${campaign.name} (${campaign.multiplier}x)`,
+    bonus,
+  };
+}
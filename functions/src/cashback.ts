@@ -0,0 +1,123 @@
+import type {CashbackRateTier, CashbackType, Click, Store} from './types';
+
+/** What is known about a sale when picking a store rate tier. */
+export interface RateContext {
+  category?: string | null;
+  // Unknown platforms are treated as web, where our clicks come from.
+  platform?: 'app' | 'web' | null;
+  // Null when not known; tiers for new or existing users then never match.
+  isNewUser?: boolean | null;
+  at?: Date;
+}
+
+/**
+ * Calculates the cashback owed on a sale for a given rate.
+ *
+ * @param {number} saleAmount The sale amount reported by the advertiser.
+ * @param {number} rateValue The rate value (a percentage or a fixed amount).
+ * @param {CashbackType} type Whether `rateValue` is a percentage or fixed.
+ * @param {number | null} maxCashback Optional cap on the amount.
+ * @return {number} The cashback amount, rounded to two decimals.
+ */
+export function calculateCashback(
+    saleAmount: number,
+    rateValue: number,
+    type: CashbackType,
+    maxCashback?: number | null,
+): number {
+  let amount = type === 'fixed' ?
+    rateValue :
+    (saleAmount * rateValue) / 100;
+  if (maxCashback != null && maxCashback >= 0) {
+    amount = Math.min(amount, maxCashback);
+  }
+  return parseFloat(Math.max(amount, 0).toFixed(2));
+}
+
+/**
+ * Picks the store rate tier for a sale: among tiers that are in their
+ * validity window and match the category, user segment and platform, the
+ * most specific wins (category, then segment, then platform); ties go to
+ * the tier listed first.
+ *
+ * Must stay in step with `selectRateTier` in src/lib/cashback-rates.ts.
+ *
+ * @param {CashbackRateTier[] | null | undefined} tiers The store's tiers.
+ * @param {RateContext} context What is known about the sale.
+ * @return {CashbackRateTier | null} The tier to apply, if any.
+ */
+export function selectRateTier(
+    tiers: CashbackRateTier[] | null | undefined,
+    context: RateContext,
+): CashbackRateTier | null {
+  const atMillis = (context.at || new Date()).getTime();
+  const category = context.category?.trim().toLowerCase() || null;
+  const platform = context.platform || 'web';
+  let best: CashbackRateTier | null = null;
+  let bestScore = -1;
+
+  for (const tier of tiers || []) {
+    if (tier.validFrom && tier.validFrom.toMillis() > atMillis) continue;
+    if (tier.validUntil && tier.validUntil.toMillis() < atMillis) continue;
+
+    let score = 0;
+    if (tier.category) {
+      if (tier.category.trim().toLowerCase() !== category) continue;
+      score += 4;
+    }
+    if (tier.userSegment !== 'all') {
+      if (context.isNewUser == null || (tier.userSegment === 'new') !== context.isNewUser) continue;
+      score += 2;
+    }
+    if (tier.platform !== 'all') {
+      if (tier.platform !== platform) continue;
+      score += 1;
+    }
+    if (score > bestScore) {
+      best = tier;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Works out the cashback for a sale the way conversions are credited:
+ * the rate snapshot taken at click time wins, then the store's matching rate
+ * tier, then the store's base rate.
+ *
+ * @param {number} saleAmount The sale amount.
+ * @param {Click | null} click The click the sale is attributed to, if any.
+ * @param {Store | null} store The store's rates: the version locked at click
+ *     time if there is one, else the store itself.
+ * @param {RateContext} context What is known about the sale, for tiers.
+ * @return {{amount: number, rateApplied: string} | null} The cashback and
+ *     the rate label, or null if no rate is available.
+ */
+export function cashbackForSale(
+    saleAmount: number,
+    click: Click | null,
+    store: Pick<Store, 'cashbackRate' | 'cashbackRateValue' | 'cashbackType' | 'cashbackRates'> | null,
+    context: RateContext = {},
+): {amount: number; rateApplied: string} | null {
+  if (click?.clickedCashbackRateValue != null && click.clickedCashbackType) {
+    return {
+      amount: calculateCashback(saleAmount, click.clickedCashbackRateValue, click.clickedCashbackType),
+      rateApplied: click.clickedCashbackDisplay || 'Product Specific',
+    };
+  }
+  const tier = store ? selectRateTier(store.cashbackRates, context) : null;
+  if (tier) {
+    return {
+      amount: calculateCashback(saleAmount, tier.value, tier.type, tier.maxCashback),
+      rateApplied: `${tier.name} (${tier.type === 'fixed' ? `₹${tier.value}` : `${tier.value}%`})`,
+    };
+  }
+  if (store) {
+    return {
+      amount: calculateCashback(saleAmount, store.cashbackRateValue, store.cashbackType),
+      rateApplied: store.cashbackRate,
+    };
+  }
+  return null;
+}
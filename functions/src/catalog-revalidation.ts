@@ -0,0 +1,65 @@
+import {onDocumentWritten} from 'firebase-functions/v2/firestore';
+import {defineSecret, defineString} from 'firebase-functions/params';
+import * as logger from 'firebase-functions/logger';
+
+// The public catalogue pages are server-rendered and cached by the Next.js
+// app, tagged by collection. These triggers ask the app to drop a
+// collection's cached pages whenever a document in it changes, so admin
+// edits show up without waiting for the hourly refresh. Set SITE_URL to the
+// app's public origin and REVALIDATE_SECRET to the app's REVALIDATE_SECRET.
+
+const SITE_URL = defineString('SITE_URL', {default: ''});
+const REVALIDATE_SECRET = defineSecret('REVALIDATE_SECRET');
+const REVALIDATE_TIMEOUT_MS = 10000;
+
+type CatalogCollection = 'stores' | 'coupons' | 'categories' | 'products' | 'banners';
+
+/**
+ * Calls the app's /api/revalidate for a collection. Failures are logged and
+ * not retried: the cached pages still refresh on their own within the hour.
+ *
+ * @param {CatalogCollection} collectionName The collection that changed.
+ * @return {Promise<void>} Resolves once the app has answered.
+ */
+async function revalidateCatalog(collectionName: CatalogCollection): Promise<void> {
+  const siteUrl = SITE_URL.value().replace(/\/+$/, '');
+  if (!siteUrl) {
+    logger.debug(`SITE_URL is not set; skipping revalidation of ${collectionName}.`);
+    return;
+  }
+  try {
+    const response = await fetch(`${siteUrl}/api/revalidate`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${REVALIDATE_SECRET.value()}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({collection: collectionName}),
+      signal: AbortSignal.timeout(REVALIDATE_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      logger.warn(`Revalidating ${collectionName} failed with HTTP ${response.status}.`);
+    }
+  } catch (error) {
+    logger.warn(`Revalidating ${collectionName} failed.`, error);
+  }
+}
+
+/**
+ * A trigger that revalidates a collection's cached pages on every write.
+ *
+ * @param {CatalogCollection} collectionName The collection to watch.
+ * @return {CloudFunction} The Firestore trigger.
+ */
+function revalidateOnWrite(collectionName: CatalogCollection) {
+  return onDocumentWritten(
+      {document: `${collectionName}/{docId}`, secrets: [REVALIDATE_SECRET]},
+      () => revalidateCatalog(collectionName),
+  );
+}
+
+export const revalidateStoresOnWrite = revalidateOnWrite('stores');
+export const revalidateCouponsOnWrite = revalidateOnWrite('coupons');
+export const revalidateCategoriesOnWrite = revalidateOnWrite('categories');
+export const revalidateProductsOnWrite = revalidateOnWrite('products');
+export const revalidateBannersOnWrite = revalidateOnWrite('banners');
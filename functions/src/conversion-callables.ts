@@ -0,0 +1,137 @@
+import {FieldValue} from 'firebase-admin/firestore';
+import {HttpsError, onCall} from 'firebase-functions/v2/https';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {applyAdvertiserStatus} from './advertiser-status';
+import {assertAdmin} from './auth';
+import {processConversion} from './conversions';
+import type {Click, Conversion, ConversionManualMatch, Store, UserProfile} from './types';
+
+export interface AdminMatchConversionData {
+  conversionId: string;
+  // Firestore ID of the click to attach to.
+  clickDocId?: string | null;
+  // Required when attaching to a user directly, or to a guest click.
+  userId?: string | null;
+  // Required when attaching to a user directly.
+  storeId?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Attaches an `unmatched_click` conversion to a click, or directly to a user
+ * and store, then runs it through `processConversion` like a matched
+ * postback. The admin who made the match is recorded on the conversion and
+ * in the transaction notes.
+ */
+export const adminMatchConversion = onCall<AdminMatchConversionData>(async (request) => {
+  const adminId = await assertAdmin(request);
+  const data = request.data;
+  if (!data?.conversionId) {
+    throw new HttpsError('invalid-argument', 'conversionId is required.');
+  }
+  if (!data.clickDocId && (!data.userId || !data.storeId)) {
+    throw new HttpsError('invalid-argument', 'Provide a clickDocId, or a userId and storeId.');
+  }
+
+  const conversionRef = db.collection('conversions').doc(data.conversionId);
+
+  await db.runTransaction(async (firestoreTransaction) => {
+    const conversionSnap = await firestoreTransaction.get(conversionRef);
+    if (!conversionSnap.exists) {
+      throw new HttpsError('not-found', 'Conversion not found.');
+    }
+    const conversion = conversionSnap.data() as Conversion;
+    if (conversion.status !== 'unmatched_click') {
+      throw new HttpsError('failed-precondition', `Only unmatched conversions can be matched (status is ${conversion.status}).`);
+    }
+
+    let click: Click | null = null;
+    const clickRef = data.clickDocId ? db.collection('clicks').doc(data.clickDocId) : null;
+    if (clickRef) {
+      const clickSnap = await firestoreTransaction.get(clickRef);
+      if (!clickSnap.exists) {
+        throw new HttpsError('not-found', 'Click not found.');
+      }
+      click = clickSnap.data() as Click;
+    }
+
+    const userId = data.userId || click?.userId;
+    const storeId = click?.storeId || data.storeId;
+    if (!userId) {
+      throw new HttpsError('invalid-argument', 'This is a guest click; choose the user to credit.');
+    }
+    if (!storeId) {
+      throw new HttpsError('invalid-argument', 'storeId is required.');
+    }
+
+    const [userSnap, storeSnap, duplicateSnap] = await Promise.all([
+      firestoreTransaction.get(db.collection('users').doc(userId)),
+      firestoreTransaction.get(db.collection('stores').doc(storeId)),
+      firestoreTransaction.get(db.collection('conversions')
+          .where('orderId', '==', conversion.orderId)
+          .where('storeId', '==', storeId)
+          .limit(1)),
+    ]);
+    const user = userSnap.data() as UserProfile | undefined;
+    if (!user) {
+      throw new HttpsError('not-found', `User ${userId} not found.`);
+    }
+    if (user.isDisabled) {
+      throw new HttpsError('failed-precondition', `User ${userId} is disabled.`);
+    }
+    if (!storeSnap.exists) {
+      throw new HttpsError('not-found', `Store ${storeId} not found.`);
+    }
+    if (!duplicateSnap.empty) {
+      throw new HttpsError('already-exists', `Order ${conversion.orderId} is already recorded for this store (conversion ${duplicateSnap.docs[0].id}).`);
+    }
+
+    const manualMatch: ConversionManualMatch = {
+      type: click ? 'click' : 'user',
+      matchedBy: adminId,
+      matchedAt: FieldValue.serverTimestamp(),
+      reportedClickId: conversion.clickId,
+      note: data.note?.trim() || null,
+    };
+    firestoreTransaction.update(conversionRef, {
+      clickId: click?.clickId || conversion.clickId,
+      originalClickFirebaseId: data.clickDocId || null,
+      userId,
+      storeId,
+      storeName: click?.storeName || (storeSnap.data() as Store).name || null,
+      status: 'received',
+      manualMatch,
+    });
+    if (clickRef) {
+      firestoreTransaction.update(clickRef, {
+        hasConversion: true,
+        conversionId: data.conversionId,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+  });
+
+  logger.info(`Admin ${adminId} matched conversion ${data.conversionId}.`, {
+    clickDocId: data.clickDocId || null,
+    userId: data.userId || null,
+  });
+
+  const result = await processConversion(data.conversionId);
+  if (result.status === 'error') {
+    return {conversionId: data.conversionId, status: result.status, transactionId: null, error: result.error || null};
+  }
+
+  const conversion = (await conversionRef.get()).data() as Conversion;
+  if (conversion.advertiserStatus) {
+    const statusResult = await applyAdvertiserStatus(data.conversionId, conversion.advertiserStatus);
+    if (statusResult.status === 'ignored') {
+      logger.warn(
+          `Advertiser status "${conversion.advertiserStatus}" not applied to conversion ${data.conversionId}:`,
+          statusResult.reason,
+      );
+    }
+  }
+
+  return {conversionId: data.conversionId, status: result.status, transactionId: result.transactionId || null, error: null};
+});
@@ -0,0 +1,235 @@
+import {FieldValue, Timestamp} from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {applyCampaignBoost, getStoreCampaigns, needsNewUserCheck, selectCampaign} from './campaigns';
+import {cashbackForSale} from './cashback';
+import {creditPending} from './ledger';
+import {getLockedRateVersion} from './rate-history';
+import type {Click, Conversion, Store, Transaction, UserProfile} from './types';
+
+export interface ProcessConversionResult {
+  status: 'processed' | 'skipped' | 'error';
+  transactionId?: string | null;
+  error?: string;
+}
+
+/**
+ * Transactions created from a conversion use a deterministic document ID so
+ * that a retried or duplicated run can never create a second transaction.
+ *
+ * @param {string} conversionId The conversion document ID.
+ * @return {string} The transaction document ID for that conversion.
+ */
+export function transactionIdForConversion(conversionId: string): string {
+  return `txn_${conversionId}`;
+}
+
+/**
+ * Matched conversions use a deterministic document ID per store and order,
+ * written with `create()`, so two postbacks for the same order arriving at
+ * once can never record it twice. Order IDs are encoded because document IDs
+ * cannot contain "/".
+ *
+ * @param {string} storeId The store the order was placed with.
+ * @param {string} orderId The advertiser's order ID.
+ * @return {string} The conversion document ID for that order.
+ */
+export function conversionIdForOrder(storeId: string, orderId: string): string {
+  return `${storeId}_${encodeURIComponent(orderId)}`;
+}
+
+/**
+ * Postbacks whose click is unknown are logged once per network and order
+ * under this ID, so retries and status updates do not list the order for
+ * review again.
+ *
+ * @param {string} network The network that sent the postback.
+ * @param {string} orderId The advertiser's order ID.
+ * @return {string} The unmatched conversion document ID for that order.
+ */
+export function unmatchedConversionIdForOrder(network: string, orderId: string): string {
+  return `unmatched_${network}_${encodeURIComponent(orderId)}`;
+}
+
+/**
+ * Turns a matched conversion into a `pending` transaction, credits the
+ * user's pending cashback and marks the conversion `processed`.
+ *
+ * Every step is idempotent: a conversion that is already `processed` is left
+ * untouched, and if the transaction already exists (e.g. a previous run
+ * failed after the write) only the conversion status is repaired. Failures
+ * flip the conversion to `error` with `processingError` filled in so it can
+ * be retried.
+ *
+ * @param {string} conversionId The conversion document ID.
+ * @return {Promise<ProcessConversionResult>} The outcome of the run.
+ */
+export async function processConversion(
+    conversionId: string,
+): Promise<ProcessConversionResult> {
+  const conversionRef = db.collection('conversions').doc(conversionId);
+  const transactionId = transactionIdForConversion(conversionId);
+  const transactionRef = db.collection('transactions').doc(transactionId);
+
+  try {
+    return await db.runTransaction(async (firestoreTransaction): Promise<ProcessConversionResult> => {
+      const conversionSnap = await firestoreTransaction.get(conversionRef);
+      if (!conversionSnap.exists) {
+        throw new Error(`Conversion ${conversionId} not found.`);
+      }
+      const conversion = conversionSnap.data() as Conversion;
+
+      if (conversion.status === 'processed') {
+        return {status: 'skipped', transactionId: conversion.transactionId};
+      }
+      if (conversion.status === 'unmatched_click') {
+        return {status: 'skipped', transactionId: null};
+      }
+      // Conversions an admin attached straight to a user have no click.
+      const isUserMatch = conversion.manualMatch?.type === 'user';
+      if (!conversion.userId || !conversion.storeId || (!conversion.originalClickFirebaseId && !isUserMatch)) {
+        throw new Error('Conversion is missing userId, storeId or originalClickFirebaseId.');
+      }
+
+      const clickRef = conversion.originalClickFirebaseId ?
+        db.collection('clicks').doc(conversion.originalClickFirebaseId) :
+        null;
+      const userRef = db.collection('users').doc(conversion.userId);
+      const storeRef = db.collection('stores').doc(conversion.storeId);
+      const [clickSnap, userSnap, storeSnap, existingTransactionSnap] = await Promise.all([
+        clickRef ? firestoreTransaction.get(clickRef) : Promise.resolve(null),
+        firestoreTransaction.get(userRef),
+        firestoreTransaction.get(storeRef),
+        firestoreTransaction.get(transactionRef),
+      ]);
+
+      const conversionUpdates = {
+        status: 'processed',
+        transactionId,
+        processingError: null,
+        processedAt: FieldValue.serverTimestamp(),
+      };
+
+      if (existingTransactionSnap.exists) {
+        logger.info(
+            `Transaction ${transactionId} already exists for conversion ${conversionId}; marking processed.`,
+        );
+        firestoreTransaction.update(conversionRef, conversionUpdates);
+        return {status: 'processed', transactionId};
+      }
+
+      if (clickSnap && !clickSnap.exists) {
+        throw new Error(`Click ${conversion.originalClickFirebaseId} not found.`);
+      }
+      if (!userSnap.exists) {
+        throw new Error(`User ${conversion.userId} not found.`);
+      }
+      const click = clickSnap ? clickSnap.data() as Click : null;
+      const user = userSnap.data() as UserProfile;
+      const store = storeSnap.exists ? storeSnap.data() as Store : null;
+
+      if (user.isDisabled) {
+        throw new Error(`User ${conversion.userId} is disabled.`);
+      }
+
+      // Rates are honoured as they were when the user clicked.
+      const lockedRates = await getLockedRateVersion(conversion.storeId, click, firestoreTransaction);
+      const rates = lockedRates || store;
+
+      const campaigns = await getStoreCampaigns(conversion.storeId, firestoreTransaction);
+
+      // Only user-segment tiers and new-user campaigns need to know whether
+      // this is the user's first order at the store.
+      const needsOrderHistory = rates?.cashbackRates?.some((tier) => tier.userSegment !== 'all') ||
+        needsNewUserCheck(campaigns);
+      const earlierTransactionsSnap = needsOrderHistory ?
+        await firestoreTransaction.get(db.collection('transactions')
+            .where('userId', '==', conversion.userId)
+            .where('storeId', '==', conversion.storeId)
+            .limit(1)) :
+        null;
+
+      const isNewUser = earlierTransactionsSnap ? earlierTransactionsSnap.empty : null;
+      // Prefer the rate snapshot taken at click time; fall back to the
+      // matching rate tier, then the base rate.
+      const baseCashback = cashbackForSale(conversion.saleAmount, click, rates, {
+        category: conversion.productCategory,
+        platform: conversion.platform,
+        isNewUser,
+        at: conversion.timestamp instanceof Timestamp ? conversion.timestamp.toDate() : new Date(),
+      });
+      if (!baseCashback) {
+        throw new Error(`No cashback rate available: no click rate snapshot and store ${conversion.storeId} not found.`);
+      }
+
+      // Campaigns boost purchases whose click fell inside their window;
+      // conversions without a click go by the purchase time.
+      const clickedAt = click?.timestamp instanceof Timestamp ? click.timestamp : conversion.timestamp;
+      const campaign = selectCampaign(campaigns, {
+        userId: conversion.userId,
+        productId: click?.productId,
+        at: clickedAt instanceof Timestamp ? clickedAt.toDate() : new Date(),
+        isNewUser,
+      });
+      const cashback = campaign ? applyCampaignBoost(baseCashback, campaign) : {...baseCashback, bonus: null};
+      const initialCashbackAmount = cashback.amount;
+      const cashbackRateApplied = cashback.rateApplied;
+
+      const transactionData: Transaction = {
+        userId: conversion.userId,
+        storeId: conversion.storeId,
+        storeName: conversion.storeName || store?.name || null,
+        orderId: conversion.orderId,
+        clickId: conversion.clickId,
+        conversionId,
+        productDetails: click?.productName || 'Purchase',
+        transactionDate: conversion.timestamp,
+        reportedDate: FieldValue.serverTimestamp(),
+        saleAmount: conversion.saleAmount,
+        cashbackRateApplied,
+        cashbackRateVersionId: lockedRates ? click?.clickedRateVersionId || null : store?.rateVersionId || null,
+        campaignId: campaign?.id || null,
+        campaignBonusAmount: cashback.bonus,
+        initialCashbackAmount,
+        finalSaleAmount: null,
+        finalCashbackAmount: null,
+        currency: conversion.currency || 'INR',
+        status: 'pending',
+        confirmationDate: null,
+        rejectionReason: null,
+        paidDate: null,
+        payoutId: null,
+        adminNotes: conversion.manualMatch ?
+          `Created from postback conversion matched to ${conversion.manualMatch.type} by admin ${conversion.manualMatch.matchedBy}.` :
+          'Created automatically from postback conversion.',
+        notesToUser: null,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      };
+
+      firestoreTransaction.create(transactionRef, transactionData);
+      creditPending(firestoreTransaction, {
+        userId: conversion.userId,
+        transactionId,
+        amount: initialCashbackAmount,
+        description: `Cashback tracked for order ${conversion.orderId} (pending).`,
+      });
+      firestoreTransaction.update(conversionRef, conversionUpdates);
+
+      return {status: 'processed', transactionId};
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown processing error.';
+    logger.error(`Error processing conversion ${conversionId}:`, error);
+    try {
+      await conversionRef.update({
+        status: 'error',
+        processingError: message,
+        processedAt: FieldValue.serverTimestamp(),
+      });
+    } catch (updateError) {
+      logger.error(`Could not flag conversion ${conversionId} as errored:`, updateError);
+    }
+    return {status: 'error', error: message};
+  }
+}
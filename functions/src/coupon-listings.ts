@@ -0,0 +1,196 @@
+import {Timestamp} from 'firebase-admin/firestore';
+import {onDocumentWritten} from 'firebase-functions/v2/firestore';
+import {onCall} from 'firebase-functions/v2/https';
+import {onSchedule} from 'firebase-functions/v2/scheduler';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {assertAdmin} from './auth';
+import type {Coupon, CouponListingStatus, CouponOfferType, Store} from './types';
+
+// The coupon listing filters by store category and offer type, hides expired
+// coupons and sorts by expiry or store cashback. Firestore can't join coupons
+// to stores or compare a field with "now", so those are kept on each coupon as
+// listing fields: written when the coupon or its store changes, and moved
+// from 'live' to 'expired' by a scheduled sweep.
+
+// Stands in for "no expiry" so open-ended coupons sort after dated ones.
+export const NO_EXPIRY = Timestamp.fromMillis(Date.UTC(9999, 11, 31));
+const EXPIRY_BATCH_SIZE = 400;
+const REBUILD_PAGE_SIZE = 300;
+
+type ListingFields = Required<Pick<Coupon,
+  'offerType' | 'listingStatus' | 'expiresAt' | 'storeCategories' | 'storeCashbackRateValue'>>;
+
+/**
+ * Listing fields for a coupon as of `now`.
+ *
+ * @param {Coupon} coupon The coupon.
+ * @param {Store | undefined} store The coupon's store, if it exists.
+ * @param {number} now The current time in milliseconds.
+ * @return {ListingFields} The fields to store on the coupon.
+ */
+function listingFields(coupon: Coupon, store: Store | undefined, now: number): ListingFields {
+  const expiresAt = coupon.expiryDate ?? NO_EXPIRY;
+  let listingStatus: CouponListingStatus = 'live';
+  if (!coupon.isActive) {
+    listingStatus = 'inactive';
+  } else if (expiresAt.toMillis() <= now) {
+    listingStatus = 'expired';
+  }
+  const offerType: CouponOfferType = coupon.code ? 'code' : 'deal';
+  return {
+    offerType,
+    listingStatus,
+    expiresAt,
+    storeCategories: store?.categories || [],
+    storeCashbackRateValue: store?.cashbackRateValue ?? 0,
+  };
+}
+
+/**
+ * The listing fields that differ from what the coupon has stored.
+ *
+ * @param {Coupon} coupon The stored coupon.
+ * @param {ListingFields} fields The fields it should have.
+ * @return {Partial<ListingFields> | null} The changes, or null if none.
+ */
+function listingChanges(coupon: Coupon, fields: ListingFields): Partial<ListingFields> | null {
+  const changes: Partial<ListingFields> = {};
+  if (coupon.offerType !== fields.offerType) {
+    changes.offerType = fields.offerType;
+  }
+  if (coupon.listingStatus !== fields.listingStatus) {
+    changes.listingStatus = fields.listingStatus;
+  }
+  if (!coupon.expiresAt?.isEqual(fields.expiresAt)) {
+    changes.expiresAt = fields.expiresAt;
+  }
+  if ((coupon.storeCategories || []).join('|') !== fields.storeCategories.join('|') || !coupon.storeCategories) {
+    changes.storeCategories = fields.storeCategories;
+  }
+  if (coupon.storeCashbackRateValue !== fields.storeCashbackRateValue) {
+    changes.storeCashbackRateValue = fields.storeCashbackRateValue;
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Keeps a coupon's listing fields in step with the coupon itself. Skips the
+ * write when nothing changed, so its own update doesn't trigger it again.
+ */
+export const onCouponListingWritten = onDocumentWritten('coupons/{couponId}', async (event) => {
+  const after = event.data?.after;
+  if (!after?.exists) {
+    return;
+  }
+  const coupon = after.data() as Coupon;
+  const storeSnap = coupon.storeId ? await db.collection('stores').doc(coupon.storeId).get() : null;
+  const changes = listingChanges(coupon, listingFields(coupon, storeSnap?.data() as Store | undefined, Date.now()));
+  if (changes) {
+    await after.ref.update(changes);
+  }
+});
+
+/**
+ * Copies a store's categories and cashback rate onto its coupons when they
+ * change.
+ */
+export const onStoreListingFieldsWritten = onDocumentWritten('stores/{storeId}', async (event) => {
+  const before = event.data?.before?.data() as Store | undefined;
+  const after = event.data?.after?.data() as Store | undefined;
+  if (
+    (before?.categories || []).join('|') === (after?.categories || []).join('|') &&
+    before?.cashbackRateValue === after?.cashbackRateValue
+  ) {
+    return;
+  }
+
+  const couponsSnap = await db.collection('coupons').where('storeId', '==', event.params.storeId).get();
+  const now = Date.now();
+  let batch = db.batch();
+  let pending = 0;
+  for (const couponDoc of couponsSnap.docs) {
+    const coupon = couponDoc.data() as Coupon;
+    const changes = listingChanges(coupon, listingFields(coupon, after, now));
+    if (!changes) {
+      continue;
+    }
+    batch.update(couponDoc.ref, changes);
+    if (++pending === 500) {
+      await batch.commit();
+      batch = db.batch();
+      pending = 0;
+    }
+  }
+  if (pending > 0) {
+    await batch.commit();
+  }
+  logger.info(`Updated listing fields on coupons of store ${event.params.storeId}.`);
+});
+
+/**
+ * Moves live coupons past their expiry date to 'expired', so the listing can
+ * hide them.
+ */
+export const expireCouponListings = onSchedule('every 15 minutes', async () => {
+  const dueSnap = await db.collection('coupons')
+      .where('listingStatus', '==', 'live')
+      .where('expiresAt', '<=', Timestamp.now())
+      .orderBy('expiresAt', 'asc')
+      .limit(EXPIRY_BATCH_SIZE)
+      .get();
+  if (dueSnap.empty) {
+    return;
+  }
+  const batch = db.batch();
+  dueSnap.docs.forEach((couponDoc) => batch.update(couponDoc.ref, {listingStatus: 'expired'}));
+  await batch.commit();
+  logger.info(`Marked ${dueSnap.size} coupons as expired.`);
+});
+
+/**
+ * Recomputes the listing fields of every coupon, e.g. for coupons created
+ * before the listing fields existed.
+ */
+export const adminRebuildCouponListings = onCall(async (request) => {
+  await assertAdmin(request);
+  const storeCache = new Map<string, Store | undefined>();
+  const now = Date.now();
+  let scanned = 0;
+  let updated = 0;
+  let lastDoc: FirebaseFirestore.QueryDocumentSnapshot | null = null;
+
+  for (;;) {
+    let pageQuery = db.collection('coupons').orderBy('__name__').limit(REBUILD_PAGE_SIZE);
+    if (lastDoc) {
+      pageQuery = pageQuery.startAfter(lastDoc);
+    }
+    const pageSnap = await pageQuery.get();
+    if (pageSnap.empty) {
+      break;
+    }
+    const batch = db.batch();
+    let pending = 0;
+    for (const couponDoc of pageSnap.docs) {
+      const coupon = couponDoc.data() as Coupon;
+      if (coupon.storeId && !storeCache.has(coupon.storeId)) {
+        const storeSnap = await db.collection('stores').doc(coupon.storeId).get();
+        storeCache.set(coupon.storeId, storeSnap.data() as Store | undefined);
+      }
+      const changes = listingChanges(coupon, listingFields(coupon, storeCache.get(coupon.storeId), now));
+      if (changes) {
+        batch.update(couponDoc.ref, changes);
+        pending++;
+      }
+    }
+    if (pending > 0) {
+      await batch.commit();
+    }
+    scanned += pageSnap.size;
+    updated += pending;
+    lastDoc = pageSnap.docs[pageSnap.docs.length - 1];
+  }
+
+  logger.info(`Rebuilt coupon listing fields: ${updated} of ${scanned} coupons updated.`);
+  return {scanned, updated};
+});
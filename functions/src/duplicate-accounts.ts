@@ -0,0 +1,418 @@
+import {createHash} from 'crypto';
+import {FieldValue, Timestamp, Transaction as FirestoreTransaction} from 'firebase-admin/firestore';
+import {HttpsError, onCall} from 'firebase-functions/v2/https';
+import {onDocumentWritten} from 'firebase-functions/v2/firestore';
+import {defineString} from 'firebase-functions/params';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {assertAdmin, assertAuthenticated} from './auth';
+import {getCallerIp} from './postback-auth';
+import {voidReferralBonus} from './referral-bonuses';
+import type {
+  AccountCluster,
+  AccountLink,
+  AccountLinkSignal,
+  AccountSignals,
+  ReferralBonus,
+  UserProfile,
+} from './types';
+
+// Salt for the hashes stored in accountSignals. Changing it stops new
+// signals matching old ones.
+const ACCOUNT_SIGNAL_SALT = defineString('ACCOUNT_SIGNAL_SALT', {default: ''});
+
+const MAX_DEVICE_KEYS = 20;
+// Firestore's limit for array-contains-any and `in` values.
+const MAX_QUERY_VALUES = 30;
+const MAX_MATCHES_PER_SIGNAL = 50;
+// Sign-ups from one IP hash within this window form a cluster...
+const SIGNUP_CLUSTER_WINDOW_MS = 24 * 60 * 60 * 1000;
+// ...once there are this many of them.
+const MIN_SIGNUP_CLUSTER_SIZE = 3;
+// The sign-up IP is only recorded if signals arrive this soon after sign-up.
+const SIGNUP_SIGNAL_MAX_AGE_MS = 60 * 60 * 1000;
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const FINGERPRINT_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface RecordAccountSignalsData {
+  // Random ID the browser keeps in local storage.
+  deviceId?: string | null;
+  // SHA-256 of browser properties (src/lib/device-fingerprint.ts).
+  fingerprint?: string | null;
+}
+
+export interface AdminResolveAccountClusterData {
+  clusterId: string;
+  resolution: 'actioned' | 'dismissed';
+  // Referred members whose referrer's bonus should be voided.
+  voidReferralUserIds?: string[];
+  disableUserIds?: string[];
+  notes?: string | null;
+}
+
+/**
+ * Hashes a signal value with the configured salt.
+ *
+ * @param {string} value The raw value.
+ * @return {string} The hex SHA-256 hash.
+ */
+function saltedHash(value: string): string {
+  return createHash('sha256').update(`${ACCOUNT_SIGNAL_SALT.value()}:${value}`).digest('hex');
+}
+
+/**
+ * Reduces an email address to the mailbox it delivers to: plus-aliases are
+ * dropped everywhere, and Gmail addresses also lose their dots.
+ *
+ * @param {string} email The email address.
+ * @return {string | null} The normalised address, or null if it is not one.
+ */
+export function normalizeEmail(email: string): string | null {
+  const [local, domain] = email.trim().toLowerCase().split('@');
+  if (!local || !domain) {
+    return null;
+  }
+  const mailboxDomain = domain === 'googlemail.com' ? 'gmail.com' : domain;
+  let mailbox = local.split('+')[0];
+  if (mailboxDomain === 'gmail.com') {
+    mailbox = mailbox.replace(/\./g, '');
+  }
+  return mailbox ? `${mailbox}@${mailboxDomain}` : null;
+}
+
+/**
+ * The key payout details are matched on, ignoring case and spacing.
+ *
+ * @param {string} detail The payout details.
+ * @return {string} The hashed key.
+ */
+function payoutDetailKey(detail: string): string {
+  return saltedHash(`payout:${detail.toLowerCase().replace(/\s+/g, '')}`);
+}
+
+/**
+ * Records the payout details a user asked to be paid to, so accounts sharing
+ * them are linked. Call inside the transaction that creates the payout.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The transaction.
+ * @param {string} userId The user requesting the payout.
+ * @param {string} detail The payout details.
+ */
+export function recordPayoutDetailSignal(firestoreTransaction: FirestoreTransaction, userId: string, detail: string): void {
+  firestoreTransaction.set(db.collection('accountSignals').doc(userId), {
+    userId,
+    payoutDetailKeys: FieldValue.arrayUnion(payoutDetailKey(detail)),
+    updatedAt: FieldValue.serverTimestamp(),
+  }, {merge: true});
+}
+
+/**
+ * Reads a Firestore timestamp as epoch millis.
+ *
+ * @param {unknown} value A stored timestamp.
+ * @return {number | null} The millis, or null if it is not a timestamp.
+ */
+function toMillis(value: unknown): number | null {
+  return value instanceof Timestamp ? value.toMillis() : null;
+}
+
+/**
+ * Records the caller's device, normalised email and (right after sign-up)
+ * sign-up IP. The app calls this once per session; `onAccountSignalsWritten`
+ * links the account to others that share any of them.
+ */
+export const recordAccountSignals = onCall<RecordAccountSignalsData>(async (request) => {
+  const uid = assertAuthenticated(request);
+  const deviceId = typeof request.data?.deviceId === 'string' && DEVICE_ID_PATTERN.test(request.data.deviceId) ?
+    request.data.deviceId : null;
+  const fingerprint = typeof request.data?.fingerprint === 'string' && FINGERPRINT_PATTERN.test(request.data.fingerprint) ?
+    request.data.fingerprint : null;
+  const ip = getCallerIp(request.rawRequest);
+  const ipHash = ip ? saltedHash(`ip:${ip}`) : null;
+  const email = request.auth?.token.email;
+  const normalizedEmail = email ? normalizeEmail(email) : null;
+
+  // A browser fingerprint alone is shared by every identical phone, so it
+  // only links accounts when it is also seen from the same IP.
+  const newDeviceKeys = [
+    ...(deviceId ? [saltedHash(`device:${deviceId}`)] : []),
+    ...(fingerprint && ipHash ? [saltedHash(`fingerprint:${fingerprint}:${ipHash}`)] : []),
+  ];
+
+  const signalsRef = db.collection('accountSignals').doc(uid);
+  const userRef = db.collection('users').doc(uid);
+  await db.runTransaction(async (firestoreTransaction) => {
+    const [signalsSnap, userSnap] = await Promise.all([
+      firestoreTransaction.get(signalsRef),
+      firestoreTransaction.get(userRef),
+    ]);
+    const existing = signalsSnap.data() as AccountSignals | undefined;
+    const profile = userSnap.data() as UserProfile | undefined;
+    if (!profile) {
+      return;
+    }
+
+    const deviceKeys = Array.from(new Set([...(existing?.deviceKeys || []), ...newDeviceKeys])).slice(-MAX_DEVICE_KEYS);
+    const createdAt = toMillis(profile.createdAt);
+    const recordSignup = !existing?.signupAt && createdAt !== null && Date.now() - createdAt <= SIGNUP_SIGNAL_MAX_AGE_MS;
+    const unchanged = existing &&
+      existing.normalizedEmail === normalizedEmail &&
+      deviceKeys.join() === (existing.deviceKeys || []).join() &&
+      !recordSignup;
+    if (unchanged) {
+      return;
+    }
+    firestoreTransaction.set(signalsRef, {
+      userId: uid,
+      normalizedEmail,
+      deviceKeys,
+      ...(recordSignup ? {signupIpHash: ipHash, signupAt: profile.createdAt} : {}),
+      ...(existing ? {} : {payoutDetailKeys: [], ...(recordSignup ? {} : {signupIpHash: null, signupAt: null})}),
+      updatedAt: FieldValue.serverTimestamp(),
+    }, {merge: true});
+  });
+  return {recorded: true};
+});
+
+/**
+ * A link between two accounts, with the user IDs in a fixed order so the
+ * same link is never stored twice.
+ *
+ * @param {string} a One user.
+ * @param {string} b The other user.
+ * @param {AccountLinkSignal} signal What they share.
+ * @return {AccountLink} The link.
+ */
+function accountLink(a: string, b: string, signal: AccountLinkSignal): AccountLink {
+  return {userIds: a < b ? [a, b] : [b, a], signal};
+}
+
+/**
+ * Finds other accounts sharing a device, normalised email or payout details
+ * with a user, or that signed up from the same IP around the same time.
+ *
+ * @param {string} userId The user.
+ * @param {AccountSignals} signals Their signals.
+ * @return {Promise<AccountLink[]>} Links to the other accounts.
+ */
+async function findAccountLinks(userId: string, signals: AccountSignals): Promise<AccountLink[]> {
+  const signalsCollection = db.collection('accountSignals');
+  const lookups: {signal: AccountLinkSignal; query: FirebaseFirestore.Query}[] = [];
+  if (signals.deviceKeys?.length) {
+    lookups.push({
+      signal: 'device',
+      query: signalsCollection.where('deviceKeys', 'array-contains-any', signals.deviceKeys.slice(-MAX_QUERY_VALUES)),
+    });
+  }
+  if (signals.normalizedEmail) {
+    lookups.push({signal: 'email', query: signalsCollection.where('normalizedEmail', '==', signals.normalizedEmail)});
+  }
+  if (signals.payoutDetailKeys?.length) {
+    lookups.push({
+      signal: 'payout_detail',
+      query: signalsCollection.where('payoutDetailKeys', 'array-contains-any', signals.payoutDetailKeys.slice(-MAX_QUERY_VALUES)),
+    });
+  }
+  const snaps = await Promise.all(lookups.map((lookup) => lookup.query.limit(MAX_MATCHES_PER_SIGNAL).get()));
+  const links: AccountLink[] = [];
+  lookups.forEach((lookup, index) => {
+    for (const docSnap of snaps[index].docs) {
+      if (docSnap.id !== userId) {
+        links.push(accountLink(userId, docSnap.id, lookup.signal));
+      }
+    }
+  });
+
+  const signupAt = toMillis(signals.signupAt);
+  if (signals.signupIpHash && signupAt !== null) {
+    const sameIpSnap = await signalsCollection
+        .where('signupIpHash', '==', signals.signupIpHash)
+        .limit(MAX_MATCHES_PER_SIGNAL)
+        .get();
+    const nearby = sameIpSnap.docs.filter((docSnap) => {
+      const otherSignupAt = toMillis((docSnap.data() as AccountSignals).signupAt);
+      return otherSignupAt !== null && Math.abs(otherSignupAt - signupAt) <= SIGNUP_CLUSTER_WINDOW_MS;
+    });
+    // `nearby` includes the user themselves.
+    if (nearby.length >= MIN_SIGNUP_CLUSTER_SIZE) {
+      for (const docSnap of nearby) {
+        if (docSnap.id !== userId) {
+          links.push(accountLink(userId, docSnap.id, 'signup_ip'));
+        }
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * Adds links to the review queue: the linked accounts join the cluster any
+ * of them is already in (merging clusters they bridge), or start a new one.
+ * Clusters that gain accounts or links are reopened for review.
+ *
+ * @param {AccountLink[]} links The new links.
+ * @return {Promise<void>}
+ */
+async function addLinksToClusters(links: AccountLink[]): Promise<void> {
+  const linkedIds = Array.from(new Set(links.flatMap((link) => link.userIds)));
+  const linkKey = (link: AccountLink) => `${link.signal}:${link.userIds[0]}:${link.userIds[1]}`;
+
+  await db.runTransaction(async (firestoreTransaction) => {
+    const clustersSnap = await firestoreTransaction.get(
+        db.collection('accountClusters').where('userIds', 'array-contains-any', linkedIds.slice(0, MAX_QUERY_VALUES)),
+    );
+    const clusters = clustersSnap.docs
+        .filter((docSnap) => (docSnap.data() as AccountCluster).status !== 'merged')
+        .sort((a, b) => (toMillis(a.data().createdAt) ?? 0) - (toMillis(b.data().createdAt) ?? 0));
+    const existingLinks = clusters.flatMap((docSnap) => (docSnap.data() as AccountCluster).links);
+    const allLinks = Array.from(new Map([...existingLinks, ...links].map((link) => [linkKey(link), link])).values());
+    if (clusters.length === 1 && allLinks.length === existingLinks.length) {
+      return;
+    }
+    const userIds = Array.from(new Set([
+      ...clusters.flatMap((docSnap) => (docSnap.data() as AccountCluster).userIds),
+      ...linkedIds,
+    ]));
+
+    const profileSnaps = await firestoreTransaction.getAll(...userIds.map((id) => db.collection('users').doc(id)));
+    const hasReferralLink = profileSnaps.some((snap) => {
+      const referredBy = (snap.data() as UserProfile | undefined)?.referredBy;
+      return !!referredBy && userIds.includes(referredBy);
+    });
+
+    const primaryRef = clusters[0]?.ref ?? db.collection('accountClusters').doc();
+    firestoreTransaction.set(primaryRef, {
+      userIds,
+      links: allLinks,
+      signals: Array.from(new Set(allLinks.map((link) => link.signal))),
+      hasReferralLink,
+      status: 'open',
+      ...(clusters[0] ? {} : {createdAt: FieldValue.serverTimestamp(), mergedInto: null}),
+      updatedAt: FieldValue.serverTimestamp(),
+    }, {merge: true});
+    for (const merged of clusters.slice(1)) {
+      firestoreTransaction.update(merged.ref, {
+        status: 'merged',
+        mergedInto: primaryRef.id,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    logger.info(`Account cluster ${primaryRef.id} now links ${userIds.length} accounts.`);
+  });
+}
+
+/**
+ * Links an account to others whenever its device, email, payout detail or
+ * sign-up signals change.
+ */
+export const onAccountSignalsWritten = onDocumentWritten('accountSignals/{userId}', async (event) => {
+  const after = event.data?.after.data() as AccountSignals | undefined;
+  if (!after) {
+    return;
+  }
+  const before = event.data?.before.data() as AccountSignals | undefined;
+  const signalKey = (signals: AccountSignals) => JSON.stringify([
+    signals.normalizedEmail,
+    signals.signupIpHash,
+    [...(signals.deviceKeys || [])].sort(),
+    [...(signals.payoutDetailKeys || [])].sort(),
+  ]);
+  if (before && signalKey(before) === signalKey(after)) {
+    return;
+  }
+
+  const links = await findAccountLinks(event.params.userId, after);
+  if (links.length > 0) {
+    await addLinksToClusters(links);
+  }
+});
+
+/**
+ * Closes a cluster from the admin review queue, optionally voiding the
+ * referral bonuses earned through its members and disabling accounts.
+ * Voiding reverses the bonus in the referrer's ledger and takes it off their
+ * referral stats (see `voidReferralBonus`).
+ */
+export const adminResolveAccountCluster = onCall<AdminResolveAccountClusterData>(async (request) => {
+  const adminId = await assertAdmin(request);
+  const data = request.data;
+  if (!data?.clusterId || (data.resolution !== 'actioned' && data.resolution !== 'dismissed')) {
+    throw new HttpsError('invalid-argument', 'clusterId and a resolution of actioned or dismissed are required.');
+  }
+  const voidReferralUserIds = Array.from(new Set(data.voidReferralUserIds || []));
+  const disableUserIds = Array.from(new Set(data.disableUserIds || []));
+  if (data.resolution === 'dismissed' && (voidReferralUserIds.length > 0 || disableUserIds.length > 0)) {
+    throw new HttpsError('invalid-argument', 'A dismissed cluster cannot void bonuses or disable accounts.');
+  }
+  if (disableUserIds.includes(adminId)) {
+    throw new HttpsError('invalid-argument', 'You cannot disable your own account.');
+  }
+
+  const clusterRef = db.collection('accountClusters').doc(data.clusterId);
+  return db.runTransaction(async (firestoreTransaction) => {
+    const clusterSnap = await firestoreTransaction.get(clusterRef);
+    const cluster = clusterSnap.data() as AccountCluster | undefined;
+    if (!cluster) {
+      throw new HttpsError('not-found', 'Account cluster not found.');
+    }
+    if (cluster.status === 'merged') {
+      throw new HttpsError('failed-precondition', `This cluster was merged into ${cluster.mergedInto}.`);
+    }
+    const outsiders = [...voidReferralUserIds, ...disableUserIds].filter((id) => !cluster.userIds.includes(id));
+    if (outsiders.length > 0) {
+      throw new HttpsError('invalid-argument', `Not in this cluster: ${outsiders.join(', ')}.`);
+    }
+
+    const [bonusSnaps, disableSnaps] = await Promise.all([
+      voidReferralUserIds.length ?
+        firestoreTransaction.getAll(...voidReferralUserIds.map((id) => db.collection('referralBonuses').doc(id))) :
+        Promise.resolve([]),
+      disableUserIds.length ?
+        firestoreTransaction.getAll(...disableUserIds.map((id) => db.collection('users').doc(id))) :
+        Promise.resolve([]),
+    ]);
+    const admins = disableSnaps.filter((snap) => (snap.data() as UserProfile | undefined)?.role === 'admin');
+    if (admins.length > 0) {
+      throw new HttpsError('failed-precondition', `Admin accounts cannot be disabled here: ${admins.map((snap) => snap.id).join(', ')}.`);
+    }
+
+    const voided: string[] = [];
+    const skipped: {userId: string; reason: string}[] = [];
+    for (const bonusSnap of bonusSnaps) {
+      const bonus = bonusSnap.data() as ReferralBonus | undefined;
+      if (!bonus) {
+        skipped.push({userId: bonusSnap.id, reason: 'No referral bonus was recorded for this account.'});
+        continue;
+      }
+      const skipReason = voidReferralBonus(firestoreTransaction, bonusSnap.id, bonus, adminId);
+      if (skipReason) {
+        skipped.push({userId: bonusSnap.id, reason: skipReason});
+      } else {
+        voided.push(bonusSnap.id);
+      }
+    }
+    for (const userSnap of disableSnaps) {
+      if (userSnap.exists) {
+        firestoreTransaction.update(userSnap.ref, {isDisabled: true, updatedAt: FieldValue.serverTimestamp()});
+      }
+    }
+    firestoreTransaction.update(clusterRef, {
+      status: data.resolution,
+      reviewedBy: adminId,
+      reviewedAt: FieldValue.serverTimestamp(),
+      reviewNotes: data.notes?.trim() || null,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    logger.info(
+        `Admin ${adminId} ${data.resolution} account cluster ${data.clusterId}: ` +
+        `voided ${voided.length} referral bonuses, disabled ${disableUserIds.length} accounts.`,
+    );
+    return {
+      clusterId: data.clusterId,
+      voided,
+      skipped,
+      disabled: disableSnaps.filter((snap) => snap.exists).map((snap) => snap.id),
+    };
+  });
+});
@@ -0,0 +1,366 @@
+import {createCipheriv, createDecipheriv, randomBytes} from 'crypto';
+import {FieldValue, Timestamp} from 'firebase-admin/firestore';
+import {HttpsError, onCall} from 'firebase-functions/v2/https';
+import {defineSecret} from 'firebase-functions/params';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {assertAdmin, assertAuthenticated} from './auth';
+import {returnPayoutRemainder} from './ledger';
+import type {PayoutProvider} from './payout-providers';
+import {applyPayoutStatus} from './payouts';
+import type {
+  GiftCardBrand,
+  GiftCardStock,
+  GiftCardVoucher,
+  PayoutDetails,
+  PayoutGiftCard,
+  PayoutRequest,
+} from './types';
+
+// Base64-encoded 32-byte AES-256 key for voucher codes. Rotating it makes
+// existing codes unreadable, so re-encrypt the inventory first.
+export const GIFT_CARD_CODE_KEY = defineSecret('GIFT_CARD_CODE_KEY');
+
+// Mirrors GIFT_CARD_BRANDS in src/lib/gift-cards.ts.
+export const GIFT_CARD_BRANDS: Record<GiftCardBrand, string> = {
+  amazon: 'Amazon',
+  flipkart: 'Flipkart',
+  myntra: 'Myntra',
+};
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+const MAX_CODES_PER_CALL = 200;
+// Available vouchers considered per allocation, oldest first.
+const MAX_VOUCHERS_PER_ALLOCATION = 300;
+
+export interface AdminAddGiftCardVouchersData {
+  brand: GiftCardBrand;
+  denomination: number;
+  codes: string[];
+  expiresAtMillis?: number | null;
+}
+
+export interface RevealedGiftCard {
+  voucherId: string;
+  brand: GiftCardBrand;
+  denomination: number;
+  code: string;
+  expiresAtMillis: number | null;
+}
+
+/**
+ * Reads the voucher encryption key.
+ *
+ * @return {Buffer} The 32-byte key.
+ */
+function codeKey(): Buffer {
+  const key = Buffer.from(GIFT_CARD_CODE_KEY.value(), 'base64');
+  if (key.length !== 32) {
+    throw new HttpsError('failed-precondition', 'GIFT_CARD_CODE_KEY must be a base64-encoded 32-byte key.');
+  }
+  return key;
+}
+
+/**
+ * Encrypts a voucher code with AES-256-GCM.
+ *
+ * @param {string} code The plain code.
+ * @param {Buffer} key The encryption key.
+ * @return {string} `iv.tag.ciphertext`, each base64-encoded.
+ */
+function encryptCode(code: string, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(code, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join('.');
+}
+
+/**
+ * Decrypts a code written by `encryptCode`.
+ *
+ * @param {string} encrypted The stored code.
+ * @param {Buffer} key The encryption key.
+ * @return {string} The plain code.
+ */
+function decryptCode(encrypted: string, key: Buffer): string {
+  const [iv, tag, ciphertext] = encrypted.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * The gift card brand named in a user's payout details.
+ *
+ * @param {string} detail The payout details, e.g. "Amazon to me@example.com".
+ * @return {GiftCardBrand | null} The brand, or null if none is named.
+ */
+export function detectGiftCardBrand(detail: string): GiftCardBrand | null {
+  const text = detail.toLowerCase();
+  return (Object.keys(GIFT_CARD_BRANDS) as GiftCardBrand[]).find((brand) => text.includes(brand)) ?? null;
+}
+
+/**
+ * The stock counter document for a brand and denomination.
+ *
+ * @param {GiftCardBrand} brand The brand.
+ * @param {number} denomination The face value.
+ * @return {FirebaseFirestore.DocumentReference} The giftCardStock document.
+ */
+function stockRef(brand: GiftCardBrand, denomination: number) {
+  return db.collection('giftCardStock').doc(`${brand}_${denomination}`);
+}
+
+/**
+ * Picks the vouchers whose face values add up to as much of `amount` as
+ * possible without going over. Vouchers are considered in the order given,
+ * so older stock is used first among equal denominations.
+ *
+ * @param {Array<{id: string, denomination: number}>} vouchers Available vouchers.
+ * @param {number} amount The amount to fill, in whole rupees.
+ * @return {string[]} The chosen voucher IDs.
+ */
+export function planVoucherAllocation(vouchers: {id: string; denomination: number}[], amount: number): string[] {
+  const target = Math.floor(amount);
+  // lastVoucher[v] is the index of the voucher that first reached value v.
+  const lastVoucher = new Array<number>(target + 1).fill(-1);
+  const reachable = new Array<boolean>(target + 1).fill(false);
+  reachable[0] = true;
+  vouchers.forEach((voucher, index) => {
+    const value = Math.round(voucher.denomination);
+    for (let v = target; v >= value; v--) {
+      if (!reachable[v] && reachable[v - value]) {
+        reachable[v] = true;
+        lastVoucher[v] = index;
+      }
+    }
+  });
+
+  let best = target;
+  while (best > 0 && !reachable[best]) best--;
+  const chosen: string[] = [];
+  while (best > 0) {
+    const voucher = vouchers[lastVoucher[best]];
+    chosen.push(voucher.id);
+    best -= Math.round(voucher.denomination);
+  }
+  return chosen;
+}
+
+/**
+ * Pays gift card payouts from the voucher inventory. Vouchers are allocated
+ * and the payout marked paid in one transaction; value no denomination
+ * covers (less than the brand's smallest denomination) is returned to the
+ * user's balance. If the vouchers in stock cannot fill the payout, it fails
+ * with an "insufficient voucher stock" reason and the amount goes back to the
+ * user's balance, so they can request it again after a restock.
+ */
+export const voucherPayoutProvider: PayoutProvider = {
+  id: 'voucher',
+  validateDetails(details: PayoutDetails) {
+    return detectGiftCardBrand(details.detail) ?
+      null :
+      `Gift card payouts need the brand you want: ${Object.values(GIFT_CARD_BRANDS).join(', ')}.`;
+  },
+  async initiate(payoutId) {
+    const reference = `voucher_${payoutId}`;
+    const payoutRef = db.collection('payoutRequests').doc(payoutId);
+    // Why the payout cannot be filled from stock, if it cannot.
+    const stockShortfall = await db.runTransaction(async (firestoreTransaction): Promise<string | null> => {
+      const payoutSnap = await firestoreTransaction.get(payoutRef);
+      const payout = payoutSnap.data() as PayoutRequest | undefined;
+      if (!payout || payout.status !== 'processing') {
+        return null;
+      }
+      const brand = detectGiftCardBrand(payout.paymentDetails.detail);
+      if (!brand) {
+        throw new Error('Payout details do not name a gift card brand.');
+      }
+      const [stockSnap, vouchersSnap] = await Promise.all([
+        firestoreTransaction.get(db.collection('giftCardStock').where('brand', '==', brand)),
+        firestoreTransaction.get(
+            db.collection('giftCardVouchers')
+                .where('brand', '==', brand)
+                .where('status', '==', 'available')
+                .orderBy('createdAt', 'asc')
+                .limit(MAX_VOUCHERS_PER_ALLOCATION),
+        ),
+      ]);
+      const now = Date.now();
+      const usable = vouchersSnap.docs
+          .filter((voucherDoc) => {
+            const expiresAt = (voucherDoc.data() as GiftCardVoucher).expiresAt;
+            return !expiresAt || expiresAt.toMillis() > now;
+          })
+          .map((voucherDoc) => ({id: voucherDoc.id, denomination: (voucherDoc.data() as GiftCardVoucher).denomination}));
+      const chosenIds = planVoucherAllocation(usable, payout.amount);
+      const giftCards: PayoutGiftCard[] = chosenIds.map((voucherId) => ({
+        voucherId,
+        brand,
+        denomination: usable.find((voucher) => voucher.id === voucherId)?.denomination ?? 0,
+      }));
+      const filled = giftCards.reduce((sum, card) => sum + card.denomination, 0);
+      const remainder = parseFloat((payout.amount - filled).toFixed(2));
+      // Only denominations in stock could have covered the remainder.
+      const smallestDenomination = Math.min(
+          ...stockSnap.docs
+              .map((stockDoc) => stockDoc.data() as GiftCardStock)
+              .filter((stock) => stock.available > 0)
+              .map((stock) => stock.denomination),
+      );
+      if (giftCards.length === 0 || remainder >= smallestDenomination) {
+        logger.warn(`Payout ${payoutId}: not enough ${brand} vouchers in stock to fill ${payout.amount}.`);
+        return `Insufficient voucher stock: not enough ${GIFT_CARD_BRANDS[brand]} gift cards to fill this payout. ` +
+          'The amount has been returned to your balance.';
+      }
+
+      await applyPayoutStatus(firestoreTransaction, payoutId, payout, 'paid', {
+        actorId: null,
+        extraFields: {providerReference: reference, providerError: null, giftCards, giftCardRemainder: remainder || null},
+      });
+      const stockChanges = new Map<number, number>();
+      for (const card of giftCards) {
+        firestoreTransaction.update(db.collection('giftCardVouchers').doc(card.voucherId), {
+          status: 'allocated',
+          payoutId,
+          userId: payout.userId,
+          allocatedAt: FieldValue.serverTimestamp(),
+        });
+        stockChanges.set(card.denomination, (stockChanges.get(card.denomination) || 0) + 1);
+      }
+      stockChanges.forEach((count, denomination) => {
+        firestoreTransaction.update(stockRef(brand, denomination), {
+          available: FieldValue.increment(-count),
+          allocated: FieldValue.increment(count),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      });
+      if (remainder > 0) {
+        returnPayoutRemainder(firestoreTransaction, {userId: payout.userId, payoutId, amount: remainder});
+      }
+      logger.info(`Payout ${payoutId} filled with ${giftCards.length} ${brand} vouchers (${filled}); returned ${remainder}.`);
+      return null;
+    });
+    return stockShortfall ?
+      {status: 'failed', reference, failureReason: stockShortfall} :
+      {status: 'paid', reference};
+  },
+  async pollStatus(reference) {
+    // Vouchers are issued synchronously, so a payout still processing was
+    // never filled; `initiate` is retried by the poller instead.
+    return {status: 'processing', reference};
+  },
+  async handleWebhook() {
+    return null;
+  },
+};
+
+/**
+ * Adds gift card vouchers of one brand and denomination to the inventory.
+ * Codes are encrypted before they are stored and duplicates within the call
+ * are dropped.
+ */
+export const adminAddGiftCardVouchers = onCall<AdminAddGiftCardVouchersData>(
+    {secrets: [GIFT_CARD_CODE_KEY]},
+    async (request) => {
+      const adminId = await assertAdmin(request);
+      const data = request.data;
+      if (!data?.brand || !GIFT_CARD_BRANDS[data.brand]) {
+        throw new HttpsError('invalid-argument', 'A valid brand is required.');
+      }
+      if (!Number.isInteger(data.denomination) || data.denomination <= 0) {
+        throw new HttpsError('invalid-argument', 'Denomination must be a positive whole number.');
+      }
+      const codes = Array.from(new Set((Array.isArray(data.codes) ? data.codes : [])
+          .map((code) => String(code).trim())
+          .filter(Boolean)));
+      if (codes.length === 0 || codes.length > MAX_CODES_PER_CALL) {
+        throw new HttpsError('invalid-argument', `Send between 1 and ${MAX_CODES_PER_CALL} codes.`);
+      }
+      const expiresAt = data.expiresAtMillis ? Timestamp.fromMillis(data.expiresAtMillis) : null;
+      if (expiresAt && expiresAt.toMillis() <= Date.now()) {
+        throw new HttpsError('invalid-argument', 'Expiry date must be in the future.');
+      }
+
+      const key = codeKey();
+      const batch = db.batch();
+      for (const code of codes) {
+        const voucher: GiftCardVoucher = {
+          brand: data.brand,
+          denomination: data.denomination,
+          encryptedCode: encryptCode(code, key),
+          codeLast4: code.slice(-4),
+          status: 'available',
+          expiresAt,
+          payoutId: null,
+          userId: null,
+          addedBy: adminId,
+          createdAt: FieldValue.serverTimestamp(),
+        };
+        batch.create(db.collection('giftCardVouchers').doc(), voucher);
+      }
+      const stockSnap = await stockRef(data.brand, data.denomination).get();
+      batch.set(stockRef(data.brand, data.denomination), {
+        brand: data.brand,
+        denomination: data.denomination,
+        available: FieldValue.increment(codes.length),
+        allocated: FieldValue.increment(0),
+        ...(stockSnap.exists ? {} : {lowStockThreshold: DEFAULT_LOW_STOCK_THRESHOLD}),
+        updatedAt: FieldValue.serverTimestamp(),
+      }, {merge: true});
+      await batch.commit();
+
+      logger.info(`Admin ${adminId} added ${codes.length} ${data.brand} ${data.denomination} vouchers.`);
+      return {added: codes.length};
+    },
+);
+
+/**
+ * Returns the decrypted voucher codes of a paid gift card payout to the user
+ * it belongs to (or an admin), and records when they were first revealed.
+ */
+export const revealPayoutGiftCards = onCall<{payoutId: string}>(
+    {secrets: [GIFT_CARD_CODE_KEY]},
+    async (request) => {
+      const uid = assertAuthenticated(request);
+      const payoutId = request.data?.payoutId;
+      if (!payoutId) {
+        throw new HttpsError('invalid-argument', 'payoutId is required.');
+      }
+      const payoutSnap = await db.collection('payoutRequests').doc(payoutId).get();
+      const payout = payoutSnap.data() as PayoutRequest | undefined;
+      if (!payout) {
+        throw new HttpsError('not-found', 'Payout not found.');
+      }
+      if (payout.userId !== uid) {
+        await assertAdmin(request);
+      }
+      if (payout.status !== 'paid' || !payout.giftCards?.length) {
+        throw new HttpsError('failed-precondition', 'This payout has no issued gift cards.');
+      }
+
+      const key = codeKey();
+      const voucherRefs = payout.giftCards.map((card) => db.collection('giftCardVouchers').doc(card.voucherId));
+      const voucherSnaps = await db.getAll(...voucherRefs);
+      const cards: RevealedGiftCard[] = [];
+      const batch = db.batch();
+      for (const voucherSnap of voucherSnaps) {
+        const voucher = voucherSnap.data() as GiftCardVoucher | undefined;
+        if (!voucher || voucher.payoutId !== payoutId) {
+          throw new HttpsError('internal', `Voucher ${voucherSnap.id} is not issued to this payout.`);
+        }
+        cards.push({
+          voucherId: voucherSnap.id,
+          brand: voucher.brand,
+          denomination: voucher.denomination,
+          code: decryptCode(voucher.encryptedCode, key),
+          expiresAtMillis: voucher.expiresAt ? voucher.expiresAt.toMillis() : null,
+        });
+        if (!voucher.revealedAt && uid === payout.userId) {
+          batch.update(voucherSnap.ref, {revealedAt: FieldValue.serverTimestamp()});
+        }
+      }
+      await batch.commit();
+      return {payoutId, cards};
+    },
+);
@@ -0,0 +1,371 @@
+import * as functions from 'firebase-functions';
+import * as logger from 'firebase-functions/logger';
+import {FieldValue, type DocumentSnapshot} from 'firebase-admin/firestore';
+import {db} from './admin';
+import {applyAdvertiserStatus} from './advertiser-status';
+import {conversionIdForOrder, processConversion, unmatchedConversionIdForOrder} from './conversions';
+import {POSTBACK_NETWORKS, getPostbackParams, releasePostbackNonce, verifyPostback} from './postback-auth';
+import type {Click, Conversion} from './types';
+
+/**
+ * Handles a postback for an order that already has a conversion: finishes
+ * processing it if an earlier attempt failed, then applies the advertiser
+ * status it carries, if any.
+ *
+ * @param {string} conversionId The existing conversion.
+ * @param {Conversion} conversion The existing conversion's data.
+ * @param {string} clickId The click ID the postback carries.
+ * @param {string | undefined} advertiserStatus The status the postback carries.
+ * @return {Promise<string>} The response message.
+ */
+async function handleFollowUpPostback(
+    conversionId: string,
+    conversion: Conversion,
+    clickId: string,
+    advertiserStatus: string | undefined,
+): Promise<string> {
+  logger.info(
+      `Follow-up postback for orderId: ${conversion.orderId}, storeId: ` +
+    `${conversion.storeId}. Existing Conv ID: ${conversionId}. ` +
+    `Postback clickId: ${clickId}. Existing clickId in conversion: ` +
+    `${conversion.clickId}`,
+  );
+
+  // A previous attempt may have failed before the transaction was
+  // created; processing is idempotent so it is safe to retry here.
+  if (conversion.status !== 'processed') {
+    await processConversion(conversionId);
+  }
+
+  if (!advertiserStatus) {
+    return `Postback received (conversion for order ${conversion.orderId} already exists: ${conversionId}).`;
+  }
+
+  const statusResult = await applyAdvertiserStatus(conversionId, advertiserStatus);
+  if (statusResult.status === 'ignored') {
+    logger.warn(
+        `Advertiser status "${advertiserStatus}" not applied to conversion ${conversionId}:`,
+        statusResult.reason,
+    );
+  }
+  return `Postback received (status update for order ${conversion.orderId}: ${statusResult.status}).`;
+}
+
+/**
+ * Handles incoming affiliate postbacks to record conversions.
+ *
+ * Every postback must be signed; see `verifyPostback` for the `network`,
+ * `ts`, `nonce` and `signature` parameters. Rejected calls are logged to
+ * `postbackRejections` and never reach the conversion logic.
+ *
+ * Expected query parameters:
+ * - sub_id (string): The unique click ID generated by our system.
+ * - transaction_id (string): The order ID from the advertiser.
+ * - amount (number): The sale amount.
+ * - currency (string, optional): Currency code (e.g., "INR").
+ * - status (string, optional): Transaction status from the advertiser.
+ * - commission (number, optional): Commission amount.
+ * - category (string, optional): Product category, for category rate tiers.
+ * - platform ("app" | "web", optional): Where the order was placed.
+ *
+ * Matched conversions are stored once per order (see `conversionIdForOrder`)
+ * and handed to `processConversion`, which creates the pending transaction
+ * and credits the user's pending cashback. Follow-up postbacks for an
+ * existing orderId/storeId carry advertiser status updates, which
+ * `applyAdvertiserStatus` maps onto the transaction's CashbackStatus.
+ */
+export const handlePostback = functions.https.onRequest(
+    {secrets: [POSTBACK_NETWORKS]},
+    async (request, response) => {
+      logger.info(
+          'Postback received. Query:',
+          request.query,
+          'Body:',
+          request.body,
+      );
+
+      // Set once the nonce is claimed, so a failure on our side can free it
+      // for the network's retry.
+      let nonceId: string | null = null;
+      try {
+        const verification = await verifyPostback(request);
+        if (!verification.ok) {
+          response
+              .status(verification.httpStatus)
+              .send(`Error: Postback rejected (${verification.reason}).`);
+          return;
+        }
+        const network = verification.network;
+        nonceId = verification.nonceId;
+
+        const params = getPostbackParams(request);
+        const clickId = params.sub_id;
+        const orderId = params.transaction_id;
+        const saleAmountStr = params.amount;
+        const currency = params.currency || 'INR';
+        const advertiserStatus = params.status;
+        const commissionAmountStr = params.commission;
+        const productCategory = params.category || null;
+        const platform = params.platform === 'app' || params.platform === 'web' ? params.platform : null;
+
+        if (!clickId || !orderId || !saleAmountStr) {
+          logger.error(
+              'Missing required parameters: sub_id, transaction_id, or amount.',
+              {clickId, orderId, saleAmountStr},
+          );
+          response
+              .status(400)
+              .send('Error: Missing required params (sub_id, transaction_id, amount).');
+          return;
+        }
+
+        const saleAmount = parseFloat(saleAmountStr);
+        if (isNaN(saleAmount)) {
+          logger.error('Invalid sale amount:', saleAmountStr);
+          response.status(400).send('Error: Invalid sale amount.');
+          return;
+        }
+
+        let commissionAmount: number | null = null;
+        if (commissionAmountStr) {
+          commissionAmount = parseFloat(commissionAmountStr);
+          if (isNaN(commissionAmount)) {
+            logger.warn(
+                'Invalid commission amount provided:',
+                commissionAmountStr,
+            );
+            commissionAmount = null; // Reset if invalid
+          }
+        }
+
+        const postbackData = Object.keys(request.query).length > 0 ?
+          request.query as Record<string, unknown> :
+          (request.body || {});
+
+        const clicksRef = db.collection('clicks');
+        const clickQuery = clicksRef.where('clickId', '==', clickId).limit(1);
+        const clickQuerySnapshot = await clickQuery.get();
+
+        if (clickQuerySnapshot.empty) {
+          logger.warn(
+              'No matching click found for clickId (sub_id):',
+              clickId,
+          );
+
+          const unmatchedConversionData: Conversion = {
+            clickId: clickId,
+            originalClickFirebaseId: null,
+            userId: null,
+            storeId: null,
+            storeName: null,
+            orderId: orderId,
+            saleAmount: saleAmount,
+            currency: currency,
+            commissionAmount: commissionAmount || null,
+            status: 'unmatched_click',
+            advertiserStatus: advertiserStatus || null,
+            network,
+            productCategory,
+            platform,
+            timestamp: FieldValue.serverTimestamp(),
+            postbackData,
+          };
+
+          // The order may already be logged by an earlier postback, or
+          // matched by an admin since, possibly under an auto-generated ID.
+          const conversionsRef = db.collection('conversions');
+          const loggedSnapshot = await conversionsRef
+              .where('orderId', '==', orderId)
+              .where('network', '==', network)
+              .limit(1)
+              .get();
+          let loggedConvDoc: DocumentSnapshot | null = loggedSnapshot.empty ? null : loggedSnapshot.docs[0];
+          if (!loggedConvDoc) {
+            const unmatchedConvRef = conversionsRef.doc(unmatchedConversionIdForOrder(network, orderId));
+            try {
+              await unmatchedConvRef.create(unmatchedConversionData);
+              logger.info(
+                  'Logged conversion as \'unmatched_click\'. Conv ID:',
+                  unmatchedConvRef.id,
+              );
+              response
+                  .status(200)
+                  .send('Postback received (unmatched click, logged for review).');
+              return;
+            } catch (error) {
+              // ALREADY_EXISTS: a concurrent postback for the same order won.
+              if ((error as {code?: number}).code !== 6) throw error;
+              loggedConvDoc = await unmatchedConvRef.get();
+            }
+          }
+
+          const loggedConv = loggedConvDoc.data() as Conversion;
+          if (loggedConv.status !== 'unmatched_click') {
+            response.status(200).send(await handleFollowUpPostback(
+                loggedConvDoc.id,
+                loggedConv,
+                clickId,
+                advertiserStatus,
+            ));
+            return;
+          }
+          // Still awaiting review: keep the latest status for when it is matched.
+          if (advertiserStatus && advertiserStatus !== loggedConv.advertiserStatus) {
+            await loggedConvDoc.ref.update({advertiserStatus});
+          }
+          response.status(200).send(
+              `Postback received (unmatched click for order ${orderId} already logged: ${loggedConvDoc.id}).`,
+          );
+          return;
+        }
+
+        const clickDoc = clickQuerySnapshot.docs[0];
+        const clickData = clickDoc.data() as Click;
+
+        // Queried rather than read by conversionIdForOrder, as conversions
+        // recorded before those IDs existed have auto-generated ones.
+        const conversionsRef = db.collection('conversions');
+        const existingConversionQuery = conversionsRef
+            .where('orderId', '==', orderId)
+            .where('storeId', '==', clickData.storeId)
+            .limit(1);
+
+        const existingConversionSnapshot = await existingConversionQuery.get();
+
+        if (!existingConversionSnapshot.empty) {
+          const existingConvDoc = existingConversionSnapshot.docs[0];
+          response.status(200).send(await handleFollowUpPostback(
+              existingConvDoc.id,
+              existingConvDoc.data() as Conversion,
+              clickId,
+              advertiserStatus,
+          ));
+          return;
+        }
+
+        const conversionData: Conversion = {
+          clickId: clickData.clickId,
+          originalClickFirebaseId: clickDoc.id,
+          userId: clickData.userId,
+          storeId: clickData.storeId,
+          storeName: clickData.storeName || null,
+          orderId: orderId,
+          saleAmount: saleAmount,
+          currency: currency,
+          commissionAmount: commissionAmount || null,
+          status: 'received',
+          advertiserStatus: advertiserStatus || null,
+          network,
+          productCategory,
+          platform,
+          timestamp: FieldValue.serverTimestamp(),
+          postbackData,
+          processingError: null,
+          transactionId: null,
+        };
+
+        const conversionRef = conversionsRef.doc(conversionIdForOrder(clickData.storeId, orderId));
+        try {
+          await conversionRef.create(conversionData);
+        } catch (error) {
+          // ALREADY_EXISTS: a concurrent postback for the same order won.
+          if ((error as {code?: number}).code !== 6) throw error;
+          const existingConvSnap = await conversionRef.get();
+          response.status(200).send(await handleFollowUpPostback(
+              conversionRef.id,
+              existingConvSnap.data() as Conversion,
+              clickId,
+              advertiserStatus,
+          ));
+          return;
+        }
+
+        logger.info(
+            'Conversion document created. Conversion ID:',
+            conversionRef.id,
+        );
+
+        await clickDoc.ref.update({
+          hasConversion: true,
+          conversionId: conversionRef.id,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+
+        logger.info(
+            'Click document updated. Click Firestore ID:',
+            clickDoc.id,
+        );
+
+        const result = await processConversion(conversionRef.id);
+        if (result.status === 'error') {
+          // The conversion is recorded with status 'error' and can be
+          // reprocessed; the network should not retry the postback.
+          logger.warn(
+              `Conversion ${conversionRef.id} recorded but not processed:`,
+              result.error,
+          );
+          response.status(200).send('Postback received (conversion logged, processing failed).');
+          return;
+        }
+
+        logger.info(
+            `Conversion ${conversionRef.id} processed into transaction ${result.transactionId}.`,
+        );
+
+        // Some networks report an order as already approved or cancelled on
+        // the first postback.
+        if (advertiserStatus) {
+          const statusResult = await applyAdvertiserStatus(conversionRef.id, advertiserStatus);
+          if (statusResult.status === 'ignored') {
+            logger.warn(
+                `Advertiser status "${advertiserStatus}" not applied to conversion ${conversionRef.id}:`,
+                statusResult.reason,
+            );
+          }
+        }
+        response.status(200).send('Postback processed successfully.');
+      } catch (error) {
+        logger.error(
+            'Error processing postback:',
+            error,
+            {query: request.query},
+        );
+        if (nonceId) {
+          await releasePostbackNonce(nonceId);
+        }
+        response.status(500).send('Error processing postback.');
+      }
+    },
+);
+
+export {
+  adminCreateTransaction,
+  adminApproveTransaction,
+  adminRejectTransaction,
+} from './transactions';
+export {requestPayout, adminUpdatePayoutStatus} from './payouts';
+export {onPayoutApproved, pollProcessingPayouts, payoutProviderWebhook} from './payout-dispatch';
+export {onPayoutRequested, adminAssessPayoutRisk} from './payout-risk';
+export {adminCreatePayoutBatch, adminImportPayoutBatchResults} from './payout-batches';
+export {adminAddGiftCardVouchers, revealPayoutGiftCards} from './gift-cards';
+export {adminReconcileUserBalance} from './ledger-callables';
+export {onUserProfileWritten} from './referrals';
+export {onReferredTransactionConfirmed, expireReferralBonuses} from './referral-bonuses';
+export {onRevenueShareTransactionWritten, getMyReferrals} from './referral-program';
+export {recordAccountSignals, onAccountSignalsWritten, adminResolveAccountCluster} from './duplicate-accounts';
+export {adminMatchConversion} from './conversion-callables';
+export {adminImportTransactions} from './report-import';
+export {onStoreRatesWritten} from './rate-history';
+export {
+  onCouponListingWritten,
+  onStoreListingFieldsWritten,
+  expireCouponListings,
+  adminRebuildCouponListings,
+} from './coupon-listings';
+export {
+  revalidateStoresOnWrite,
+  revalidateCouponsOnWrite,
+  revalidateCategoriesOnWrite,
+  revalidateProductsOnWrite,
+  revalidateBannersOnWrite,
+} from './catalog-revalidation';
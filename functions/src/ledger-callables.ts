@@ -0,0 +1,24 @@
+import {HttpsError, onCall} from 'firebase-functions/v2/https';
+import {assertAdmin} from './auth';
+import {reconcileUserBalances} from './ledger';
+
+export interface AdminReconcileUserBalanceData {
+  userId: string;
+  apply?: boolean;
+}
+
+/**
+ * Compares a user's profile balances with the sum of their ledger entries,
+ * optionally correcting the profile to match the ledger.
+ */
+export const adminReconcileUserBalance = onCall<AdminReconcileUserBalanceData>(async (request) => {
+  await assertAdmin(request);
+  if (!request.data?.userId) {
+    throw new HttpsError('invalid-argument', 'userId is required.');
+  }
+  try {
+    return await reconcileUserBalances(request.data.userId, request.data.apply === true);
+  } catch (error) {
+    throw new HttpsError('not-found', error instanceof Error ? error.message : 'Reconciliation failed.');
+  }
+});
@@ -0,0 +1,530 @@
+import {FieldValue, Transaction as FirestoreTransaction} from 'firebase-admin/firestore';
+import {db} from './admin';
+import type {LedgerEntry, LedgerEntryType, UserProfile} from './types';
+
+// The ledger is the only code allowed to move user balances. Each operation
+// appends an immutable entry to `ledgerEntries` and applies the same deltas
+// to the user's profile inside the caller's Firestore transaction, so the
+// profile balances are always a projection of the entries.
+//
+// Entry IDs are derived from the operation and the transaction/payout they
+// refer to, and entries are written with `create()`: replaying an operation
+// fails the Firestore transaction instead of moving money twice.
+
+interface TransactionLedgerInput {
+  userId: string;
+  transactionId: string;
+  actorId?: string | null;
+  description?: string;
+}
+
+interface PayoutLedgerInput {
+  userId: string;
+  payoutId: string;
+  amount: number;
+  actorId?: string | null;
+  description?: string;
+}
+
+interface ReferralBonusLedgerInput {
+  // The referrer, whose balances the bonus moves.
+  userId: string;
+  referralBonusId: string;
+  // The referee transaction that qualified the bonus, for the confirmation
+  // and its reversal: a bonus can qualify again after a qualifying
+  // transaction is reversed, so those entries are keyed by both.
+  transactionId?: string | null;
+  amount: number;
+  actorId?: string | null;
+  description?: string;
+}
+
+interface ReferralEarningLedgerInput {
+  // The referrer earning the share.
+  userId: string;
+  referralEarningId: string;
+  amount: number;
+  description?: string;
+}
+
+interface Deltas {
+  pendingDelta?: number;
+  balanceDelta?: number;
+  lifetimeDelta?: number;
+}
+
+/**
+ * Rounds an amount to two decimals so floating point noise never reaches
+ * the ledger.
+ *
+ * @param {number} amount The amount to round.
+ * @return {number} The rounded amount.
+ */
+function roundAmount(amount: number): number {
+  return parseFloat((amount || 0).toFixed(2));
+}
+
+/**
+ * Builds the deterministic ledger entry ID for an operation.
+ *
+ * @param {LedgerEntryType} type The ledger operation.
+ * @param {string} referenceId The transaction, payout or referral bonus or
+ *     earning ID (a referral bonus and its qualifying transaction are joined
+ *     with "_"), or the user ID for an opening balance.
+ * @return {string} The entry document ID.
+ */
+export function ledgerEntryId(type: LedgerEntryType, referenceId: string): string {
+  return `${type}_${referenceId}`;
+}
+
+/**
+ * Appends a ledger entry and applies its deltas to the user's profile.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {LedgerEntryType} type The ledger operation.
+ * @param {object} refs The user and the transaction, payout or referral bonus
+ *     or earning the entry is for.
+ * @param {Deltas} deltas The balance movements.
+ * @param {string} description Human readable description of the movement.
+ * @param {string | null} actorId The user who triggered the movement, if any.
+ * @return {string} The ledger entry ID.
+ */
+function appendEntry(
+    firestoreTransaction: FirestoreTransaction,
+    type: LedgerEntryType,
+    refs: {
+      userId: string;
+      transactionId?: string | null;
+      payoutId?: string | null;
+      referralBonusId?: string | null;
+      referralEarningId?: string | null;
+    },
+    deltas: Deltas,
+    description: string,
+    actorId: string | null,
+): string {
+  const referenceId = refs.referralBonusId && refs.transactionId ?
+    `${refs.referralBonusId}_${refs.transactionId}` :
+    refs.transactionId || refs.payoutId || refs.referralBonusId || refs.referralEarningId;
+  if (!referenceId) {
+    throw new Error(`Ledger entry ${type} needs a transaction, payout or referral reference.`);
+  }
+  const entryId = ledgerEntryId(type, referenceId);
+  const entry: LedgerEntry = {
+    userId: refs.userId,
+    type,
+    transactionId: refs.transactionId || null,
+    payoutId: refs.payoutId || null,
+    referralBonusId: refs.referralBonusId || null,
+    referralEarningId: refs.referralEarningId || null,
+    pendingDelta: roundAmount(deltas.pendingDelta || 0),
+    balanceDelta: roundAmount(deltas.balanceDelta || 0),
+    lifetimeDelta: roundAmount(deltas.lifetimeDelta || 0),
+    description,
+    actorId,
+    createdAt: FieldValue.serverTimestamp(),
+  };
+  firestoreTransaction.create(db.collection('ledgerEntries').doc(entryId), entry);
+
+  const userUpdates: Record<string, FieldValue> = {updatedAt: FieldValue.serverTimestamp()};
+  if (entry.pendingDelta) userUpdates.pendingCashback = FieldValue.increment(entry.pendingDelta);
+  if (entry.balanceDelta) userUpdates.cashbackBalance = FieldValue.increment(entry.balanceDelta);
+  if (entry.lifetimeDelta) userUpdates.lifetimeCashback = FieldValue.increment(entry.lifetimeDelta);
+  firestoreTransaction.update(db.collection('users').doc(refs.userId), userUpdates);
+
+  return entryId;
+}
+
+/**
+ * Credits cashback for a new transaction to the user's pending balance.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {object} input The transaction and the amount to hold as pending.
+ * @return {string} The ledger entry ID.
+ */
+export function creditPending(
+    firestoreTransaction: FirestoreTransaction,
+    input: TransactionLedgerInput & {amount: number},
+): string {
+  return appendEntry(
+      firestoreTransaction,
+      'credit_pending',
+      input,
+      {pendingDelta: input.amount},
+      input.description || 'Cashback tracked (pending).',
+      input.actorId ?? null,
+  );
+}
+
+/**
+ * Moves a transaction's cashback from pending to the available balance.
+ * `pendingAmount` is what was credited as pending (0 if the transaction was
+ * created directly as confirmed) and `confirmedAmount` the final cashback.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {object} input The transaction and the amounts to move.
+ * @return {string} The ledger entry ID.
+ */
+export function confirm(
+    firestoreTransaction: FirestoreTransaction,
+    input: TransactionLedgerInput & {pendingAmount: number; confirmedAmount: number},
+): string {
+  return appendEntry(
+      firestoreTransaction,
+      'confirm',
+      input,
+      {
+        pendingDelta: -input.pendingAmount,
+        balanceDelta: input.confirmedAmount,
+        lifetimeDelta: input.confirmedAmount,
+      },
+      input.description || 'Cashback confirmed.',
+      input.actorId ?? null,
+  );
+}
+
+/**
+ * Reverses a transaction's cashback. `pendingAmount` is removed from the
+ * pending balance for transactions that were still pending;
+ * `confirmedAmount` is clawed back from the available and lifetime balances
+ * for transactions that had already been confirmed.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {object} input The transaction and the amounts to reverse.
+ * @return {string} The ledger entry ID.
+ */
+export function reject(
+    firestoreTransaction: FirestoreTransaction,
+    input: TransactionLedgerInput & {pendingAmount: number; confirmedAmount?: number},
+): string {
+  const confirmedAmount = input.confirmedAmount || 0;
+  return appendEntry(
+      firestoreTransaction,
+      'reject',
+      input,
+      {
+        pendingDelta: -input.pendingAmount,
+        balanceDelta: -confirmedAmount,
+        lifetimeDelta: -confirmedAmount,
+      },
+      input.description || 'Cashback rejected.',
+      input.actorId ?? null,
+  );
+}
+
+/**
+ * Takes a payout amount out of the available balance while the payout
+ * request is being handled.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {PayoutLedgerInput} input The payout and its amount.
+ * @return {string} The ledger entry ID.
+ */
+export function reservePayout(
+    firestoreTransaction: FirestoreTransaction,
+    input: PayoutLedgerInput,
+): string {
+  return appendEntry(
+      firestoreTransaction,
+      'reserve_payout',
+      input,
+      {balanceDelta: -input.amount},
+      input.description || 'Payout requested.',
+      input.actorId ?? null,
+  );
+}
+
+/**
+ * Returns a reserved payout amount to the available balance when the payout
+ * is rejected or fails.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {PayoutLedgerInput} input The payout and its amount.
+ * @return {string} The ledger entry ID.
+ */
+export function releasePayout(
+    firestoreTransaction: FirestoreTransaction,
+    input: PayoutLedgerInput,
+): string {
+  return appendEntry(
+      firestoreTransaction,
+      'release_payout',
+      input,
+      {balanceDelta: input.amount},
+      input.description || 'Payout returned to balance.',
+      input.actorId ?? null,
+  );
+}
+
+/**
+ * Records that a reserved payout has been paid out. The balance was already
+ * debited by `reservePayout`, so this entry carries no deltas; it closes the
+ * reservation in the ledger.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {PayoutLedgerInput} input The payout and its amount.
+ * @return {string} The ledger entry ID.
+ */
+export function settlePayout(
+    firestoreTransaction: FirestoreTransaction,
+    input: PayoutLedgerInput,
+): string {
+  return appendEntry(
+      firestoreTransaction,
+      'settle_payout',
+      input,
+      {},
+      input.description || `Payout of ${roundAmount(input.amount)} paid.`,
+      input.actorId ?? null,
+  );
+}
+
+/**
+ * Returns the part of a paid payout that could not be paid out (e.g. gift
+ * card value no voucher denomination covers) to the available balance.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {PayoutLedgerInput} input The payout and the amount to return.
+ * @return {string} The ledger entry ID.
+ */
+export function returnPayoutRemainder(
+    firestoreTransaction: FirestoreTransaction,
+    input: PayoutLedgerInput,
+): string {
+  return appendEntry(
+      firestoreTransaction,
+      'return_payout_remainder',
+      input,
+      {balanceDelta: input.amount},
+      input.description || `Unpaid ${roundAmount(input.amount)} of payout returned to balance.`,
+      input.actorId ?? null,
+  );
+}
+
+/**
+ * Holds a new referral bonus as pending cashback for the referrer until the
+ * referee's first qualifying purchase is confirmed.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {ReferralBonusLedgerInput} input The referrer, bonus and amount.
+ * @return {string} The ledger entry ID.
+ */
+export function creditReferralPending(
+    firestoreTransaction: FirestoreTransaction,
+    input: ReferralBonusLedgerInput,
+): string {
+  return appendEntry(
+      firestoreTransaction,
+      'referral_pending',
+      input,
+      {pendingDelta: input.amount},
+      input.description || 'Referral bonus (pending the referred friend\'s first purchase).',
+      input.actorId ?? null,
+  );
+}
+
+/**
+ * Moves a referral bonus from pending to the referrer's available balance.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {ReferralBonusLedgerInput} input The referrer, bonus and amount.
+ * @return {string} The ledger entry ID.
+ */
+export function confirmReferral(
+    firestoreTransaction: FirestoreTransaction,
+    input: ReferralBonusLedgerInput,
+): string {
+  return appendEntry(
+      firestoreTransaction,
+      'referral_confirm',
+      input,
+      {pendingDelta: -input.amount, balanceDelta: input.amount, lifetimeDelta: input.amount},
+      input.description || 'Referral bonus confirmed.',
+      input.actorId ?? null,
+  );
+}
+
+/**
+ * Takes back a referral bonus that expired or was voided: from pending if it
+ * was never confirmed, otherwise from the available and lifetime balances.
+ * With `returnToPending`, a confirmed bonus whose qualifying transaction was
+ * reversed goes back to pending instead, to wait for another purchase.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {object} input The referrer, bonus, amount and whether it had been
+ *     confirmed.
+ * @return {string} The ledger entry ID.
+ */
+export function reverseReferral(
+    firestoreTransaction: FirestoreTransaction,
+    input: ReferralBonusLedgerInput & {wasConfirmed: boolean; returnToPending?: boolean},
+): string {
+  const confirmedDeltas = {balanceDelta: -input.amount, lifetimeDelta: -input.amount};
+  return appendEntry(
+      firestoreTransaction,
+      'referral_reverse',
+      input,
+      input.wasConfirmed ?
+        {...confirmedDeltas, pendingDelta: input.returnToPending ? input.amount : 0} :
+        {pendingDelta: -input.amount},
+      input.description || 'Referral bonus reversed.',
+      input.actorId ?? null,
+  );
+}
+
+/**
+ * Credits a referrer's revenue share of a referee's confirmed cashback
+ * straight to their available balance.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {ReferralEarningLedgerInput} input The referrer, earning and amount.
+ * @return {string} The ledger entry ID.
+ */
+export function creditReferralShare(
+    firestoreTransaction: FirestoreTransaction,
+    input: ReferralEarningLedgerInput,
+): string {
+  return appendEntry(
+      firestoreTransaction,
+      'referral_share',
+      input,
+      {balanceDelta: input.amount, lifetimeDelta: input.amount},
+      input.description || 'Referral revenue share.',
+      null,
+  );
+}
+
+/**
+ * Takes back a revenue share whose underlying cashback was reversed.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {ReferralEarningLedgerInput} input The referrer, earning and amount.
+ * @return {string} The ledger entry ID.
+ */
+export function reverseReferralShare(
+    firestoreTransaction: FirestoreTransaction,
+    input: ReferralEarningLedgerInput,
+): string {
+  return appendEntry(
+      firestoreTransaction,
+      'referral_share_reverse',
+      input,
+      {balanceDelta: -input.amount, lifetimeDelta: -input.amount},
+      input.description || 'Referral revenue share reversed.',
+      null,
+  );
+}
+
+export interface LedgerBalances {
+  pendingCashback: number;
+  cashbackBalance: number;
+  lifetimeCashback: number;
+}
+
+export interface ReconciliationResult {
+  userId: string;
+  entryCount: number;
+  ledger: LedgerBalances;
+  profile: LedgerBalances;
+  drift: LedgerBalances;
+  inSync: boolean;
+  corrected: boolean;
+  // Whether the user has an opening_balance entry carrying over the balances
+  // they had before the ledger existed.
+  hasOpeningBalance: boolean;
+  // The balances carried over, when this call recorded the opening entry.
+  openingBalance: LedgerBalances | null;
+}
+
+/**
+ * Sums a user's ledger entries and compares them with the balances on their
+ * profile. With `apply`, the profile is overwritten with the ledger totals.
+ *
+ * Balances earned before the ledger existed have no entries. Until a user has
+ * an opening_balance entry, `apply` instead records one carrying over the
+ * difference, leaving the profile as it is; later calls reset the profile.
+ *
+ * @param {string} userId The user to reconcile.
+ * @param {boolean} apply Whether to correct the profile balances.
+ * @return {Promise<ReconciliationResult>} The ledger and profile balances.
+ */
+export async function reconcileUserBalances(
+    userId: string,
+    apply = false,
+): Promise<ReconciliationResult> {
+  const userRef = db.collection('users').doc(userId);
+  const entriesQuery = db.collection('ledgerEntries').where('userId', '==', userId);
+
+  return db.runTransaction(async (firestoreTransaction): Promise<ReconciliationResult> => {
+    const [userSnap, entriesSnap] = await Promise.all([
+      firestoreTransaction.get(userRef),
+      firestoreTransaction.get(entriesQuery),
+    ]);
+    if (!userSnap.exists) {
+      throw new Error(`User ${userId} not found.`);
+    }
+    const user = userSnap.data() as UserProfile;
+
+    const ledger: LedgerBalances = {pendingCashback: 0, cashbackBalance: 0, lifetimeCashback: 0};
+    entriesSnap.forEach((entrySnap) => {
+      const entry = entrySnap.data() as LedgerEntry;
+      ledger.pendingCashback += entry.pendingDelta || 0;
+      ledger.cashbackBalance += entry.balanceDelta || 0;
+      ledger.lifetimeCashback += entry.lifetimeDelta || 0;
+    });
+    ledger.pendingCashback = roundAmount(ledger.pendingCashback);
+    ledger.cashbackBalance = roundAmount(ledger.cashbackBalance);
+    ledger.lifetimeCashback = roundAmount(ledger.lifetimeCashback);
+
+    const profile: LedgerBalances = {
+      pendingCashback: roundAmount(user.pendingCashback),
+      cashbackBalance: roundAmount(user.cashbackBalance),
+      lifetimeCashback: roundAmount(user.lifetimeCashback),
+    };
+    const drift: LedgerBalances = {
+      pendingCashback: roundAmount(profile.pendingCashback - ledger.pendingCashback),
+      cashbackBalance: roundAmount(profile.cashbackBalance - ledger.cashbackBalance),
+      lifetimeCashback: roundAmount(profile.lifetimeCashback - ledger.lifetimeCashback),
+    };
+    const inSync = !drift.pendingCashback && !drift.cashbackBalance && !drift.lifetimeCashback;
+    const openingEntryId = ledgerEntryId('opening_balance', userId);
+    const hasOpeningBalance = entriesSnap.docs.some((entrySnap) => entrySnap.id === openingEntryId);
+    const recordsOpeningBalance = apply && !inSync && !hasOpeningBalance;
+
+    if (recordsOpeningBalance) {
+      // The profile already holds these balances, so only the entry is written.
+      const entry: LedgerEntry = {
+        userId,
+        type: 'opening_balance',
+        transactionId: null,
+        payoutId: null,
+        referralBonusId: null,
+        referralEarningId: null,
+        pendingDelta: drift.pendingCashback,
+        balanceDelta: drift.cashbackBalance,
+        lifetimeDelta: drift.lifetimeCashback,
+        description: 'Balance carried over from before the ledger.',
+        actorId: null,
+        createdAt: FieldValue.serverTimestamp(),
+      };
+      firestoreTransaction.create(db.collection('ledgerEntries').doc(openingEntryId), entry);
+    } else if (apply && !inSync) {
+      firestoreTransaction.update(userRef, {
+        ...ledger,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    return {
+      userId,
+      entryCount: entriesSnap.size,
+      ledger,
+      profile,
+      drift,
+      inSync,
+      corrected: apply && !inSync,
+      hasOpeningBalance: hasOpeningBalance || recordsOpeningBalance,
+      openingBalance: recordsOpeningBalance ? drift : null,
+    };
+  });
+}
@@ -0,0 +1,236 @@
+import {FieldValue} from 'firebase-admin/firestore';
+import {HttpsError, onCall} from 'firebase-functions/v2/https';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {assertAdmin} from './auth';
+import {
+  getPayoutProviderForMethod,
+  parseBankDetails,
+  validatePayoutDetails,
+  type BankAccountDetails,
+} from './payout-providers';
+import {applyPayoutStatus} from './payouts';
+import type {PayoutBatch, PayoutMethod, PayoutRequest} from './types';
+
+// Firestore transactions are limited to 500 writes; one goes to the batch.
+const MAX_BATCH_PAYOUTS = 400;
+// Response rows per callable invocation; the admin page sends larger files in chunks.
+const MAX_RESULTS_PER_CALL = 100;
+
+export interface AdminCreatePayoutBatchData {
+  method: PayoutMethod;
+  // Bank file layout the admin page will write (src/lib/payout-batch-files.ts).
+  layoutId: string;
+  payoutIds: string[];
+}
+
+export interface PayoutBatchRow {
+  payoutId: string;
+  userId: string;
+  amount: number;
+  detail: string;
+  // Parsed from the details for bank transfer payouts.
+  bankAccount: BankAccountDetails | null;
+}
+
+/** One row of the bank's response file, as read by the admin page. */
+export interface PayoutBatchResultInput {
+  rowNumber: number;
+  payoutId: string;
+  outcome: 'paid' | 'failed';
+  utr?: string | null;
+  failureReason?: string | null;
+}
+
+export interface AdminImportPayoutBatchResultsData {
+  batchId: string;
+  results: PayoutBatchResultInput[];
+}
+
+export interface PayoutBatchResultRow {
+  rowNumber: number;
+  payoutId: string;
+  action: 'paid' | 'failed' | 'skipped';
+  reason: string | null;
+}
+
+/**
+ * Exports approved payouts of a batch-paid method (one without a payout
+ * provider, e.g. bank transfer or UPI) for an admin to pay outside the app.
+ * The payouts move to `processing` with the new batch's ID, so they cannot
+ * be exported twice. Returns the rows for the admin page to write the bank's
+ * bulk-upload file; the file itself is never stored.
+ */
+export const adminCreatePayoutBatch = onCall<AdminCreatePayoutBatchData>(async (request) => {
+  const adminId = await assertAdmin(request);
+  const data = request.data;
+  const payoutIds = Array.isArray(data?.payoutIds) ?
+    Array.from(new Set(data.payoutIds.filter((id) => typeof id === 'string' && id))) :
+    [];
+  if (!data?.method || !data.layoutId || payoutIds.length === 0) {
+    throw new HttpsError('invalid-argument', 'method, layoutId and at least one payoutId are required.');
+  }
+  if (payoutIds.length > MAX_BATCH_PAYOUTS) {
+    throw new HttpsError('invalid-argument', `A batch can hold at most ${MAX_BATCH_PAYOUTS} payouts.`);
+  }
+  if (getPayoutProviderForMethod(data.method)) {
+    throw new HttpsError('failed-precondition', `${data.method} payouts are sent through their payout provider.`);
+  }
+
+  const batchRef = db.collection('payoutBatches').doc();
+  const rows = await db.runTransaction(async (firestoreTransaction) => {
+    const payoutRefs = payoutIds.map((id) => db.collection('payoutRequests').doc(id));
+    const payoutSnaps = await firestoreTransaction.getAll(...payoutRefs);
+
+    const batchRows: PayoutBatchRow[] = [];
+    for (const payoutSnap of payoutSnaps) {
+      if (!payoutSnap.exists) {
+        throw new HttpsError('not-found', `Payout ${payoutSnap.id} not found.`);
+      }
+      const payout = payoutSnap.data() as PayoutRequest;
+      if (payout.status !== 'approved' || payout.paymentMethod !== data.method) {
+        throw new HttpsError(
+            'failed-precondition',
+            `Payout ${payoutSnap.id} is not an approved ${data.method} payout (it is ${payout.status}).`,
+        );
+      }
+      const detailsError = validatePayoutDetails(payout.paymentDetails);
+      if (detailsError) {
+        throw new HttpsError('failed-precondition', `Payout ${payoutSnap.id}: ${detailsError}`);
+      }
+      const detail = payout.paymentDetails.detail.trim();
+      batchRows.push({
+        payoutId: payoutSnap.id,
+        userId: payout.userId,
+        amount: payout.amount,
+        detail,
+        bankAccount: data.method === 'bank_transfer' ? parseBankDetails(detail) : null,
+      });
+    }
+
+    for (const payoutRef of payoutRefs) {
+      firestoreTransaction.update(payoutRef, {
+        status: 'processing',
+        batchId: batchRef.id,
+        dispatchedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    const batch: PayoutBatch = {
+      method: data.method,
+      layoutId: data.layoutId,
+      status: 'exported',
+      payoutIds,
+      payoutCount: batchRows.length,
+      totalAmount: batchRows.reduce((sum, row) => sum + row.amount, 0),
+      paidCount: 0,
+      failedCount: 0,
+      createdBy: adminId,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+    firestoreTransaction.set(batchRef, batch);
+    return batchRows;
+  });
+
+  logger.info(`Admin ${adminId} exported ${rows.length} ${data.method} payouts as batch ${batchRef.id}.`);
+  return {batchId: batchRef.id, rows};
+});
+
+/**
+ * Settles one payout of a batch from a row of the bank's response file.
+ *
+ * @param {string} batchId The batch the response file belongs to.
+ * @param {PayoutBatchResultInput} result The response row.
+ * @param {string} adminId The admin importing the file.
+ * @return {Promise<PayoutBatchResultRow>} What happened to the payout.
+ */
+async function applyBatchResult(
+    batchId: string,
+    result: PayoutBatchResultInput,
+    adminId: string,
+): Promise<PayoutBatchResultRow> {
+  const row = {rowNumber: result.rowNumber, payoutId: result.payoutId};
+  const utr = result.utr?.trim() || null;
+  if (result.outcome === 'paid' && !utr) {
+    return {...row, action: 'skipped', reason: 'Paid rows need a UTR reference.'};
+  }
+  const payoutRef = db.collection('payoutRequests').doc(result.payoutId);
+  return db.runTransaction(async (firestoreTransaction): Promise<PayoutBatchResultRow> => {
+    const payoutSnap = await firestoreTransaction.get(payoutRef);
+    const payout = payoutSnap.data() as PayoutRequest | undefined;
+    if (!payout || payout.batchId !== batchId) {
+      return {...row, action: 'skipped', reason: 'Payout is not in this batch.'};
+    }
+    if (payout.status !== 'processing') {
+      // e.g. the same response file imported twice.
+      return {...row, action: 'skipped', reason: `Payout is already ${payout.status}.`};
+    }
+    await applyPayoutStatus(firestoreTransaction, result.payoutId, payout, result.outcome, {
+      actorId: adminId,
+      failureReason: result.outcome === 'failed' ? result.failureReason?.trim() || 'Rejected by the bank.' : null,
+      extraFields: {utr},
+    });
+    return {...row, action: result.outcome, reason: null};
+  });
+}
+
+/**
+ * Applies the bank's response file for a payout batch: each row marks its
+ * payout `paid` with the bank's UTR reference, or `failed` (returning the
+ * amount to the user's balance). Rows for payouts that are no longer
+ * processing are skipped, so importing a file twice changes nothing.
+ */
+export const adminImportPayoutBatchResults = onCall<AdminImportPayoutBatchResultsData>(async (request) => {
+  const adminId = await assertAdmin(request);
+  const data = request.data;
+  if (!data?.batchId || !Array.isArray(data.results)) {
+    throw new HttpsError('invalid-argument', 'batchId and results are required.');
+  }
+  if (data.results.length > MAX_RESULTS_PER_CALL) {
+    throw new HttpsError('invalid-argument', `At most ${MAX_RESULTS_PER_CALL} rows can be sent per call.`);
+  }
+  const batchRef = db.collection('payoutBatches').doc(data.batchId);
+  const batchSnap = await batchRef.get();
+  if (!batchSnap.exists) {
+    throw new HttpsError('not-found', 'Payout batch not found.');
+  }
+  const batchPayoutIds = new Set((batchSnap.data() as PayoutBatch).payoutIds);
+
+  const results: PayoutBatchResultRow[] = [];
+  for (const result of data.results) {
+    const row = {rowNumber: result.rowNumber, payoutId: result.payoutId};
+    if (!batchPayoutIds.has(result.payoutId)) {
+      results.push({...row, action: 'skipped', reason: 'Payout is not in this batch.'});
+      continue;
+    }
+    if (result.outcome !== 'paid' && result.outcome !== 'failed') {
+      results.push({...row, action: 'skipped', reason: 'Outcome must be paid or failed.'});
+      continue;
+    }
+    try {
+      results.push(await applyBatchResult(data.batchId, result, adminId));
+    } catch (error) {
+      logger.error(`Batch ${data.batchId}: failed to apply row ${result.rowNumber}:`, error);
+      results.push({...row, action: 'skipped', reason: error instanceof Error ? error.message : 'Could not apply this row.'});
+    }
+  }
+
+  const paid = results.filter((result) => result.action === 'paid').length;
+  const failed = results.filter((result) => result.action === 'failed').length;
+  await db.runTransaction(async (firestoreTransaction) => {
+    const batch = (await firestoreTransaction.get(batchRef)).data() as PayoutBatch;
+    const paidCount = (batch.paidCount || 0) + paid;
+    const failedCount = (batch.failedCount || 0) + failed;
+    firestoreTransaction.update(batchRef, {
+      paidCount,
+      failedCount,
+      status: paidCount + failedCount >= batch.payoutCount ? 'completed' : batch.status,
+      responseImportedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+  logger.info(`Admin ${adminId} imported ${results.length} response rows for batch ${data.batchId}: ${paid} paid, ${failed} failed.`);
+  return {batchId: data.batchId, results};
+});
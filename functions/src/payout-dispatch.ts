@@ -0,0 +1,200 @@
+import {FieldValue} from 'firebase-admin/firestore';
+import {onDocumentWritten} from 'firebase-functions/v2/firestore';
+import {onRequest} from 'firebase-functions/v2/https';
+import {onSchedule} from 'firebase-functions/v2/scheduler';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {
+  getPayoutProvider,
+  getPayoutProviderForMethod,
+  validatePayoutDetails,
+  type PayoutProvider,
+  type ProviderPayoutStatus,
+} from './payout-providers';
+import {applyPayoutStatus} from './payouts';
+import type {PayoutRequest} from './types';
+
+// Processing payouts checked per scheduled run.
+const POLL_BATCH_SIZE = 50;
+
+/**
+ * Records what a provider reported for a processing payout: the reference
+ * while it is still processing, or the final `paid`/`failed` status with
+ * the matching ledger movements. Reports for payouts that are no longer
+ * processing (e.g. settled by an admin, or a repeated webhook) are ignored.
+ *
+ * @param {string} payoutId The payout request ID.
+ * @param {ProviderPayoutStatus} report What the provider reported.
+ * @return {Promise<void>}
+ */
+async function recordProviderStatus(payoutId: string, report: ProviderPayoutStatus): Promise<void> {
+  const payoutRef = db.collection('payoutRequests').doc(payoutId);
+  await db.runTransaction(async (firestoreTransaction) => {
+    const payoutSnap = await firestoreTransaction.get(payoutRef);
+    if (!payoutSnap.exists) {
+      return;
+    }
+    const payout = payoutSnap.data() as PayoutRequest;
+    if (payout.status !== 'processing') {
+      logger.info(`Ignoring provider report "${report.status}" for payout ${payoutId}, which is ${payout.status}.`);
+      return;
+    }
+    const providerFields = {providerReference: report.reference, providerError: null};
+    if (report.status === 'processing') {
+      firestoreTransaction.update(payoutRef, {...providerFields, updatedAt: FieldValue.serverTimestamp()});
+      return;
+    }
+    await applyPayoutStatus(firestoreTransaction, payoutId, payout, report.status, {
+      actorId: null,
+      failureReason: report.status === 'failed' ? report.failureReason || 'Payout failed at the provider.' : null,
+      extraFields: providerFields,
+    });
+    logger.info(`Payout ${payoutId} ${report.status} at provider ${payout.providerId} (${report.reference}).`);
+  });
+}
+
+/**
+ * Asks the provider to pay a processing payout and records the outcome.
+ * Provider errors are kept on the payout and retried by the next poll; the
+ * payout ID is the provider's idempotency key, so retries never pay twice.
+ *
+ * @param {string} payoutId The payout request ID.
+ * @param {PayoutRequest} payout The payout.
+ * @param {PayoutProvider} provider Its provider.
+ * @return {Promise<void>}
+ */
+async function initiateWithProvider(payoutId: string, payout: PayoutRequest, provider: PayoutProvider): Promise<void> {
+  let report: ProviderPayoutStatus;
+  try {
+    report = await provider.initiate(payoutId, payout);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown provider error.';
+    logger.error(`Provider ${provider.id} could not initiate payout ${payoutId}:`, error);
+    await db.collection('payoutRequests').doc(payoutId).update({
+      providerError: message,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return;
+  }
+  await recordProviderStatus(payoutId, report);
+}
+
+/**
+ * Hands a payout to its provider once an admin approves it (payouts of
+ * batch-paid methods such as UPI are left for export). The payout is
+ * claimed by moving it to `processing` first, so a repeated event cannot
+ * dispatch it twice; details the provider rejects fail the payout and
+ * return the amount to the user's balance.
+ */
+export const onPayoutApproved = onDocumentWritten('payoutRequests/{payoutId}', async (event) => {
+  const after = event.data?.after;
+  if (!after?.exists || (after.data() as PayoutRequest).status !== 'approved') {
+    return;
+  }
+  const payoutId = event.params.payoutId;
+  const payoutRef = db.collection('payoutRequests').doc(payoutId);
+
+  const claimed = await db.runTransaction(async (firestoreTransaction) => {
+    const payoutSnap = await firestoreTransaction.get(payoutRef);
+    const payout = payoutSnap.data() as PayoutRequest | undefined;
+    if (!payout || payout.status !== 'approved') {
+      return null;
+    }
+    const provider = getPayoutProviderForMethod(payout.paymentMethod);
+    if (!provider) {
+      // Paid from an exported payout batch.
+      return null;
+    }
+    const detailsError = validatePayoutDetails(payout.paymentDetails);
+    if (detailsError) {
+      await applyPayoutStatus(firestoreTransaction, payoutId, payout, 'failed', {
+        actorId: null,
+        failureReason: detailsError,
+        extraFields: {providerId: provider.id},
+      });
+      return null;
+    }
+    firestoreTransaction.update(payoutRef, {
+      status: 'processing',
+      providerId: provider.id,
+      providerReference: null,
+      providerError: null,
+      dispatchedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return {payout: {...payout, status: 'processing'} as PayoutRequest, provider};
+  });
+  if (!claimed) {
+    return;
+  }
+
+  logger.info(`Dispatching payout ${payoutId} to provider ${claimed.provider.id}.`);
+  await initiateWithProvider(payoutId, claimed.payout, claimed.provider);
+});
+
+/**
+ * Checks dispatched payouts that are still processing with their provider,
+ * and retries payouts whose dispatch failed before the provider accepted it.
+ */
+export const pollProcessingPayouts = onSchedule('every 15 minutes', async () => {
+  const processingSnap = await db.collection('payoutRequests')
+      .where('status', '==', 'processing')
+      .orderBy('dispatchedAt', 'asc')
+      .limit(POLL_BATCH_SIZE)
+      .get();
+
+  for (const payoutDoc of processingSnap.docs) {
+    const payout = payoutDoc.data() as PayoutRequest;
+    const provider = payout.providerId ? getPayoutProvider(payout.providerId) : null;
+    if (!provider) {
+      // Moved to processing by hand; an admin settles it.
+      continue;
+    }
+    try {
+      if (payout.providerReference) {
+        await recordProviderStatus(payoutDoc.id, await provider.pollStatus(payout.providerReference));
+      } else {
+        await initiateWithProvider(payoutDoc.id, payout, provider);
+      }
+    } catch (error) {
+      logger.error(`Could not poll payout ${payoutDoc.id} with provider ${provider.id}:`, error);
+    }
+  }
+});
+
+/**
+ * Receives status callbacks from payout providers at
+ * `/payoutProviderWebhook?provider=<providerId>`. Each provider
+ * authenticates its own calls in `handleWebhook`.
+ */
+export const payoutProviderWebhook = onRequest(async (request, response) => {
+  if (request.method !== 'POST') {
+    response.status(405).send('Method not allowed.');
+    return;
+  }
+  const provider = getPayoutProvider(String(request.query.provider || ''));
+  if (!provider) {
+    response.status(404).send('Unknown payout provider.');
+    return;
+  }
+  const report = await provider.handleWebhook(request);
+  if (!report) {
+    logger.warn(`Rejected payout webhook for provider ${provider.id}.`);
+    response.status(401).send('Webhook rejected.');
+    return;
+  }
+
+  const payoutSnap = await db.collection('payoutRequests')
+      .where('providerId', '==', provider.id)
+      .where('providerReference', '==', report.reference)
+      .limit(1)
+      .get();
+  if (payoutSnap.empty) {
+    logger.warn(`Payout webhook from ${provider.id} for unknown reference ${report.reference}.`);
+    // Acknowledge so the provider stops retrying a reference we never issued.
+    response.status(200).send('Unknown reference.');
+    return;
+  }
+  await recordProviderStatus(payoutSnap.docs[0].id, report);
+  response.status(200).send('OK');
+});
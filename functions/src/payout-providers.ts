@@ -0,0 +1,184 @@
+import {timingSafeEqual} from 'crypto';
+import type {Request} from 'firebase-functions/v2/https';
+import {defineString} from 'firebase-functions/params';
+import {voucherPayoutProvider} from './gift-cards';
+import type {PayoutDetails, PayoutMethod, PayoutProviderId, PayoutRequest} from './types';
+
+// Shared token the mock provider's webhook calls must carry. Leave empty to
+// refuse all mock webhooks (e.g. in production).
+const MOCK_PAYOUT_WEBHOOK_TOKEN = defineString('MOCK_PAYOUT_WEBHOOK_TOKEN', {default: ''});
+
+/** Where a disbursement stands at the provider. */
+export interface ProviderPayoutStatus {
+  status: 'processing' | 'paid' | 'failed';
+  // The provider's ID for the disbursement.
+  reference: string;
+  failureReason?: string | null;
+}
+
+/**
+ * A service that actually moves money for a payout. Providers must treat the
+ * payout ID as an idempotency key: `initiate` may be retried for the same
+ * payout and must never pay twice.
+ */
+export interface PayoutProvider {
+  id: PayoutProviderId;
+  /** Returns an error message if the provider cannot pay to these details. */
+  validateDetails(details: PayoutDetails): string | null;
+  initiate(payoutId: string, payout: PayoutRequest): Promise<ProviderPayoutStatus>;
+  pollStatus(reference: string): Promise<ProviderPayoutStatus>;
+  /** Returns the reported status, or null if the call is not authentic. */
+  handleWebhook(request: Request): Promise<ProviderPayoutStatus | null>;
+}
+
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[^\s@]+/;
+// handle@psp, as issued by UPI apps. Mirrors VPA_PATTERN in src/lib/payout-methods.ts.
+const VPA_PATTERN = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9]{2,64}$/;
+// Mirror IFSC_PATTERN and ACCOUNT_NUMBER_PATTERN in src/lib/payout-methods.ts.
+const IFSC_PATTERN = /\b[A-Z]{4}0[A-Z0-9]{6}\b/i;
+const ACCOUNT_NUMBER_PATTERN = /\b\d{9,18}\b/;
+
+/** Bank account fields read from free-text bank transfer details. */
+export interface BankAccountDetails {
+  accountNumber: string;
+  ifsc: string;
+  accountHolderName: string;
+}
+
+/**
+ * Reads the account number, IFSC and account holder name from bank transfer
+ * details written as "Account No, IFSC, Name" (in any order).
+ *
+ * @param {string} detail The user's bank transfer details.
+ * @return {BankAccountDetails | null} The account, or null if the account
+ *     number or IFSC is missing.
+ */
+export function parseBankDetails(detail: string): BankAccountDetails | null {
+  const accountNumber = detail.match(ACCOUNT_NUMBER_PATTERN)?.[0];
+  const ifsc = detail.match(IFSC_PATTERN)?.[0];
+  if (!accountNumber || !ifsc) {
+    return null;
+  }
+  const accountHolderName = detail
+      .replace(accountNumber, ' ')
+      .replace(ifsc, ' ')
+      .split(/[,;\n]+/)
+      .map((part) => part.replace(/\b(a\/?c|account|no|ifsc|name)\b[.:]?/gi, '').trim())
+      .filter(Boolean)
+      .join(' ');
+  return {accountNumber, ifsc: ifsc.toUpperCase(), accountHolderName};
+}
+
+/**
+ * Checks payout details every provider needs, whatever the method.
+ *
+ * @param {PayoutDetails} details The user's payout details.
+ * @return {string | null} An error message, or null if they look usable.
+ */
+function validateCommonDetails(details: PayoutDetails): string | null {
+  const detail = details.detail.trim();
+  if (details.method === 'upi' && !VPA_PATTERN.test(detail)) {
+    return 'Enter a valid UPI ID, e.g. yourname@okaxis.';
+  }
+  if (details.method === 'bank_transfer' && !parseBankDetails(detail)) {
+    return 'Bank transfer details need the account number and IFSC code, e.g. "1234567890, HDFC0001234, Asha Rao".';
+  }
+  if (details.method === 'paypal' && !new RegExp(`^${EMAIL_PATTERN.source}$`).test(detail)) {
+    return 'PayPal payouts need the email address of your PayPal account.';
+  }
+  if (details.method === 'gift_card' && !EMAIL_PATTERN.test(detail)) {
+    return 'Gift card payouts need an email address to send the card to, e.g. "Amazon to me@example.com".';
+  }
+  return null;
+}
+
+const MOCK_FAIL_PREFIX = 'mock_fail_';
+
+/**
+ * A provider that pays nothing, for local development, the emulator and
+ * tests. Payouts go to `processing` and are reported `paid` on the next
+ * poll, unless the payout details contain "fail", in which case they are
+ * reported `failed`.
+ */
+export const mockPayoutProvider: PayoutProvider = {
+  id: 'mock',
+  validateDetails: validateCommonDetails,
+  async initiate(payoutId, payout) {
+    const willFail = /fail/i.test(payout.paymentDetails.detail);
+    return {status: 'processing', reference: `${willFail ? MOCK_FAIL_PREFIX : 'mock_'}${payoutId}`};
+  },
+  async pollStatus(reference) {
+    return reference.startsWith(MOCK_FAIL_PREFIX) ?
+      {status: 'failed', reference, failureReason: 'Declined by the mock payout provider.'} :
+      {status: 'paid', reference};
+  },
+  async handleWebhook(request) {
+    const expected = MOCK_PAYOUT_WEBHOOK_TOKEN.value();
+    const token = String(request.get('x-mock-token') || '');
+    if (!expected || token.length !== expected.length ||
+        !timingSafeEqual(Buffer.from(token), Buffer.from(expected))) {
+      return null;
+    }
+    const body = (request.body || {}) as Record<string, unknown>;
+    const status = body.status;
+    if (typeof body.reference !== 'string' || (status !== 'processing' && status !== 'paid' && status !== 'failed')) {
+      return null;
+    }
+    return {
+      status,
+      reference: body.reference,
+      failureReason: typeof body.failureReason === 'string' ? body.failureReason : null,
+    };
+  },
+};
+
+const PAYOUT_PROVIDERS: Record<PayoutProviderId, PayoutProvider> = {
+  mock: mockPayoutProvider,
+  voucher: voucherPayoutProvider,
+};
+
+// Which provider disburses each payout method. Null methods are paid by an
+// admin, from exported payout batch files (see payout-batches.ts) or, for
+// PayPal, by hand until a real provider is integrated. Gift cards are issued
+// from the voucher inventory (gift-cards.ts). The mock provider only stands in
+// for PayPal under the emulator, as it reports payouts paid without paying.
+const PROVIDER_FOR_METHOD: Record<PayoutMethod, PayoutProviderId | null> = {
+  bank_transfer: null,
+  paypal: process.env.FUNCTIONS_EMULATOR === 'true' ? 'mock' : null,
+  gift_card: 'voucher',
+  upi: null,
+};
+
+/**
+ * The provider that disburses payouts of a method.
+ *
+ * @param {PayoutMethod} method The payout method.
+ * @return {PayoutProvider | null} The provider, or null for batch-paid
+ *     methods.
+ */
+export function getPayoutProviderForMethod(method: PayoutMethod): PayoutProvider | null {
+  const providerId = PROVIDER_FOR_METHOD[method];
+  return providerId ? PAYOUT_PROVIDERS[providerId] : null;
+}
+
+/**
+ * Checks payout details before a payout is requested or dispatched.
+ *
+ * @param {PayoutDetails} details The user's payout details.
+ * @return {string | null} An error message, or null if they look usable.
+ */
+export function validatePayoutDetails(details: PayoutDetails): string | null {
+  return validateCommonDetails(details) ?? getPayoutProviderForMethod(details.method)?.validateDetails(details) ?? null;
+}
+
+/**
+ * Looks up a provider by ID, e.g. from a webhook URL or a stored payout.
+ *
+ * @param {string} providerId The provider ID.
+ * @return {PayoutProvider | null} The provider, or null if unknown.
+ */
+export function getPayoutProvider(providerId: string): PayoutProvider | null {
+  return Object.prototype.hasOwnProperty.call(PAYOUT_PROVIDERS, providerId) ?
+    PAYOUT_PROVIDERS[providerId as PayoutProviderId] :
+    null;
+}
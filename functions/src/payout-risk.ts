@@ -0,0 +1,363 @@
+import {FieldValue, Timestamp} from 'firebase-admin/firestore';
+import {HttpsError, onCall} from 'firebase-functions/v2/https';
+import {onDocumentCreated} from 'firebase-functions/v2/firestore';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {assertAdmin} from './auth';
+import {applyPayoutStatus} from './payouts';
+import type {
+  Click,
+  PayoutRequest,
+  PayoutRiskAssessment,
+  PayoutRiskDecision,
+  PayoutRiskReason,
+  PayoutSettings,
+  Transaction,
+  UserProfile,
+} from './types';
+
+// Mirror DEFAULT_RISK_HOLD_SCORE and DEFAULT_RISK_AUTO_APPROVE_SCORE in
+// src/lib/payout-risk.ts. Auto-approval is off until an admin sets a score.
+export const DEFAULT_RISK_HOLD_SCORE = 60;
+export const DEFAULT_RISK_AUTO_APPROVE_SCORE: number | null = null;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Orders placed this soon after their click suggest scripted clicks.
+const FAST_CONVERSION_MS = 60 * 1000;
+// Referrers are followed this many levels up.
+const MAX_REFERRAL_DEPTH = 5;
+// Consecutive accounts in a referral chain created this close together.
+const REFERRAL_CHAIN_WINDOW_MS = 14 * DAY_MS;
+const MIN_REFERRAL_CHAIN_LENGTH = 3;
+const MAX_SHARED_DETAIL_MATCHES = 25;
+// Conversion rates are only judged once a user has this many orders.
+const MIN_ORDERS_FOR_CONVERSION_RATE = 5;
+const ANOMALOUS_CONVERSION_RATE = 0.5;
+
+export interface PayoutRiskThresholds {
+  holdScore: number;
+  autoApproveScore: number | null;
+}
+
+interface SharedDetailsResult {
+  reason: PayoutRiskReason | null;
+  sharedUserIds: string[];
+}
+
+/**
+ * The hold and auto-approve scores, using the admin overrides from
+ * `settings/payouts` when there are any.
+ *
+ * @return {Promise<PayoutRiskThresholds>} The thresholds.
+ */
+export async function getRiskThresholds(): Promise<PayoutRiskThresholds> {
+  const settingsSnap = await db.collection('settings').doc('payouts').get();
+  const settings = settingsSnap.exists ? settingsSnap.data() as PayoutSettings : {};
+  const holdScore = settings.riskHoldScore;
+  const autoApproveScore = settings.riskAutoApproveScore;
+  return {
+    holdScore: typeof holdScore === 'number' ? holdScore : DEFAULT_RISK_HOLD_SCORE,
+    autoApproveScore: autoApproveScore === undefined ? DEFAULT_RISK_AUTO_APPROVE_SCORE :
+      typeof autoApproveScore === 'number' ? autoApproveScore : null,
+  };
+}
+
+/**
+ * What to do with a payout of a given score.
+ *
+ * @param {number} score The risk score.
+ * @param {PayoutRiskThresholds} thresholds The hold and auto-approve scores.
+ * @return {PayoutRiskDecision} Hold, auto-approve, or leave for review.
+ */
+export function decideRisk(score: number, thresholds: PayoutRiskThresholds): PayoutRiskDecision {
+  if (score >= thresholds.holdScore) {
+    return 'hold';
+  }
+  if (thresholds.autoApproveScore !== null && score <= thresholds.autoApproveScore) {
+    return 'auto_approve';
+  }
+  return 'review';
+}
+
+/**
+ * Reads a Firestore timestamp as epoch millis.
+ *
+ * @param {unknown} value A stored timestamp.
+ * @return {number | null} The millis, or null if it is not a timestamp.
+ */
+function toMillis(value: unknown): number | null {
+  return value instanceof Timestamp ? value.toMillis() : null;
+}
+
+/**
+ * Scores how new the account is.
+ *
+ * @param {UserProfile} user The user requesting the payout.
+ * @param {number} now The assessment time in millis.
+ * @return {PayoutRiskReason | null} The reason, or null if the account is established.
+ */
+function newAccountReason(user: UserProfile, now: number): PayoutRiskReason | null {
+  const createdAt = toMillis(user.createdAt);
+  if (createdAt === null) {
+    return null;
+  }
+  const ageDays = Math.floor((now - createdAt) / DAY_MS);
+  if (ageDays < 7) {
+    return {signal: 'new_account', points: 30, detail: `Account is ${ageDays} day${ageDays === 1 ? '' : 's'} old.`};
+  }
+  if (ageDays < 30) {
+    return {signal: 'new_account', points: 15, detail: `Account is ${ageDays} days old.`};
+  }
+  return null;
+}
+
+/**
+ * Scores the payout's orders that were placed almost immediately after
+ * their click, or dated before it.
+ *
+ * @param {PayoutRequest} payout The payout.
+ * @return {Promise<PayoutRiskReason | null>} The reason, or null if none are suspicious.
+ */
+async function fastConversionReason(payout: PayoutRequest): Promise<PayoutRiskReason | null> {
+  const transactionIds = payout.transactionIds || [];
+  if (transactionIds.length === 0) {
+    return null;
+  }
+  const transactionSnaps = await db.getAll(...transactionIds.map((id) => db.collection('transactions').doc(id)));
+  const transactions = transactionSnaps
+      .map((snap) => snap.data() as Transaction | undefined)
+      .filter((transaction): transaction is Transaction & {clickId: string} => !!transaction?.clickId);
+  if (transactions.length === 0) {
+    return null;
+  }
+  const clickSnaps = await db.getAll(...transactions.map((transaction) => db.collection('clicks').doc(transaction.clickId)));
+
+  let fastCount = 0;
+  transactions.forEach((transaction, index) => {
+    const clickedAt = toMillis((clickSnaps[index].data() as Click | undefined)?.timestamp);
+    const orderedAt = toMillis(transaction.transactionDate);
+    if (clickedAt !== null && orderedAt !== null && orderedAt - clickedAt < FAST_CONVERSION_MS) {
+      fastCount++;
+    }
+  });
+  if (fastCount === 0) {
+    return null;
+  }
+  return {
+    signal: 'fast_conversion',
+    points: Math.min(30, fastCount * 15),
+    detail: `${fastCount} of ${transactions.length} orders placed within a minute of their click.`,
+  };
+}
+
+/**
+ * Follows `referredBy` up from the user, and scores chains of accounts
+ * created in quick succession and referrals from disabled accounts.
+ *
+ * @param {string} userId The user requesting the payout.
+ * @param {UserProfile} user Their profile.
+ * @return {Promise<{reasons: PayoutRiskReason[], chainUserIds: string[]}>}
+ *     The reasons, and the referrers found.
+ */
+async function referralChainReasons(
+    userId: string,
+    user: UserProfile,
+): Promise<{reasons: PayoutRiskReason[]; chainUserIds: string[]}> {
+  const chain: {id: string; profile: UserProfile}[] = [{id: userId, profile: user}];
+  let referrerId = user.referredBy;
+  while (referrerId && chain.length <= MAX_REFERRAL_DEPTH && !chain.some((link) => link.id === referrerId)) {
+    const referrerSnap = await db.collection('users').doc(referrerId).get();
+    if (!referrerSnap.exists) {
+      break;
+    }
+    const profile = referrerSnap.data() as UserProfile;
+    chain.push({id: referrerId, profile});
+    referrerId = profile.referredBy;
+  }
+
+  const reasons: PayoutRiskReason[] = [];
+  if (chain[1]?.profile.isDisabled) {
+    reasons.push({signal: 'referral_chain', points: 25, detail: `Referred by disabled account ${chain[1].id}.`});
+  }
+  // Count how far up the chain each account was created soon after the one above it.
+  let rapidLength = 1;
+  for (let i = 1; i < chain.length; i++) {
+    const below = toMillis(chain[i - 1].profile.createdAt);
+    const above = toMillis(chain[i].profile.createdAt);
+    if (below === null || above === null || below - above > REFERRAL_CHAIN_WINDOW_MS) {
+      break;
+    }
+    rapidLength++;
+  }
+  if (rapidLength >= MIN_REFERRAL_CHAIN_LENGTH) {
+    reasons.push({
+      signal: 'referral_chain',
+      points: 20,
+      detail: `Part of a referral chain of ${rapidLength} accounts each created within 14 days of its referrer.`,
+    });
+  }
+  return {reasons, chainUserIds: chain.slice(1).map((link) => link.id)};
+}
+
+/**
+ * Scores other users who have requested payouts to the same details.
+ *
+ * @param {string} userId The user requesting the payout.
+ * @param {PayoutRequest} payout The payout.
+ * @param {string[]} chainUserIds The user's referrers.
+ * @return {Promise<SharedDetailsResult>} The reason (null if nobody
+ *     shares the details), and the users sharing them.
+ */
+async function sharedDetailsReason(
+    userId: string,
+    payout: PayoutRequest,
+    chainUserIds: string[],
+): Promise<SharedDetailsResult> {
+  const matchesSnap = await db.collection('payoutRequests')
+      .where('paymentDetails.detail', '==', payout.paymentDetails.detail)
+      .limit(MAX_SHARED_DETAIL_MATCHES)
+      .get();
+  const sharedUserIds = Array.from(new Set(
+      matchesSnap.docs.map((docSnap) => (docSnap.data() as PayoutRequest).userId).filter((id) => id !== userId),
+  ));
+  if (sharedUserIds.length === 0) {
+    return {reason: null, sharedUserIds};
+  }
+  const sharedWithReferrer = sharedUserIds.some((id) => chainUserIds.includes(id));
+  return {
+    reason: {
+      signal: 'shared_payout_details',
+      points: sharedWithReferrer ? 50 : 35,
+      detail: `Payout details also used by ${sharedUserIds.length} other account${sharedUserIds.length === 1 ? '' : 's'}` +
+        (sharedWithReferrer ? ', including someone in their referral chain.' : '.'),
+    },
+    sharedUserIds,
+  };
+}
+
+/**
+ * Scores a user whose clicks turn into orders far more often than usual.
+ *
+ * @param {string} userId The user requesting the payout.
+ * @return {Promise<PayoutRiskReason | null>} The reason, or null if the rate looks normal.
+ */
+async function conversionRateReason(userId: string): Promise<PayoutRiskReason | null> {
+  const [clickCount, orderCount] = await Promise.all([
+    db.collection('clicks').where('userId', '==', userId).count().get(),
+    db.collection('transactions').where('userId', '==', userId).count().get(),
+  ]).then((snaps) => snaps.map((snap) => snap.data().count));
+  if (orderCount < MIN_ORDERS_FOR_CONVERSION_RATE) {
+    return null;
+  }
+  if (clickCount === 0 || orderCount / clickCount >= ANOMALOUS_CONVERSION_RATE) {
+    const rate = clickCount === 0 ? 'no tracked clicks' : `${Math.round((orderCount / clickCount) * 100)}%`;
+    return {signal: 'conversion_rate', points: 20, detail: `${orderCount} orders from ${clickCount} clicks (${rate}).`};
+  }
+  return null;
+}
+
+/**
+ * Scores a payout request from 0 (no concerns) to 100 on signals already in
+ * Firestore: account age, click-to-order time, referral chains, payout
+ * details shared with other users and conversion rate.
+ *
+ * @param {string} payoutId The payout request ID.
+ * @param {PayoutRequest} payout The payout.
+ * @return {Promise<PayoutRiskAssessment>} The score, reasons and decision.
+ */
+export async function assessPayoutRisk(payoutId: string, payout: PayoutRequest): Promise<PayoutRiskAssessment> {
+  const userSnap = await db.collection('users').doc(payout.userId).get();
+  if (!userSnap.exists) {
+    throw new Error(`User ${payout.userId} not found.`);
+  }
+  const user = userSnap.data() as UserProfile;
+
+  const [thresholds, fastConversion, referral, conversionRate] = await Promise.all([
+    getRiskThresholds(),
+    fastConversionReason(payout),
+    referralChainReasons(payout.userId, user),
+    conversionRateReason(payout.userId),
+  ]);
+  const shared = await sharedDetailsReason(payout.userId, payout, referral.chainUserIds);
+
+  const reasons = [
+    newAccountReason(user, Date.now()),
+    fastConversion,
+    ...referral.reasons,
+    shared.reason,
+    conversionRate,
+  ].filter((reason): reason is PayoutRiskReason => reason !== null);
+  const score = Math.min(100, reasons.reduce((sum, reason) => sum + reason.points, 0));
+
+  return {
+    payoutId,
+    userId: payout.userId,
+    score,
+    decision: decideRisk(score, thresholds),
+    reasons,
+    holdScore: thresholds.holdScore,
+    autoApproveScore: thresholds.autoApproveScore,
+    relatedUserIds: Array.from(new Set([...shared.sharedUserIds, ...referral.chainUserIds])),
+    overriddenBy: null,
+    overriddenAt: null,
+    assessedAt: FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Scores each new payout request. Payouts at or under the auto-approve score
+ * are approved (and so dispatched) straight away; payouts at or over the
+ * hold score can only be approved by an admin who overrides the hold.
+ */
+export const onPayoutRequested = onDocumentCreated('payoutRequests/{payoutId}', async (event) => {
+  const payoutId = event.params.payoutId;
+  const payout = event.data?.data() as PayoutRequest | undefined;
+  if (!payout || payout.status !== 'pending') {
+    return;
+  }
+
+  const assessment = await assessPayoutRisk(payoutId, payout);
+  await db.collection('payoutRiskAssessments').doc(payoutId).set(assessment);
+  logger.info(`Payout ${payoutId} risk score ${assessment.score} (${assessment.decision}).`);
+  if (assessment.decision !== 'auto_approve') {
+    return;
+  }
+
+  const payoutRef = db.collection('payoutRequests').doc(payoutId);
+  await db.runTransaction(async (firestoreTransaction) => {
+    const current = (await firestoreTransaction.get(payoutRef)).data() as PayoutRequest | undefined;
+    if (current?.status !== 'pending') {
+      return;
+    }
+    await applyPayoutStatus(firestoreTransaction, payoutId, current, 'approved', {
+      actorId: null,
+      adminNotes: `Auto-approved with risk score ${assessment.score}.`,
+    });
+  });
+});
+
+/**
+ * Re-scores a payout, e.g. one requested before risk scoring existed or
+ * after the thresholds change. Only pending payouts are re-scored, and
+ * nothing is approved automatically.
+ */
+export const adminAssessPayoutRisk = onCall<{payoutId: string}>(async (request) => {
+  const adminId = await assertAdmin(request);
+  const payoutId = request.data?.payoutId;
+  if (!payoutId) {
+    throw new HttpsError('invalid-argument', 'payoutId is required.');
+  }
+  const payoutSnap = await db.collection('payoutRequests').doc(payoutId).get();
+  const payout = payoutSnap.data() as PayoutRequest | undefined;
+  if (!payout) {
+    throw new HttpsError('not-found', 'Payout request not found.');
+  }
+  if (payout.status !== 'pending') {
+    throw new HttpsError('failed-precondition', `Only pending payouts can be re-scored (this one is ${payout.status}).`);
+  }
+
+  const assessment = await assessPayoutRisk(payoutId, payout);
+  await db.collection('payoutRiskAssessments').doc(payoutId).set(assessment);
+  logger.info(`Admin ${adminId} re-scored payout ${payoutId}: ${assessment.score} (${assessment.decision}).`);
+  return {payoutId, score: assessment.score, decision: assessment.decision};
+});
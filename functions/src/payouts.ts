@@ -0,0 +1,426 @@
+import {FieldValue, Transaction as FirestoreTransaction} from 'firebase-admin/firestore';
+import {HttpsError, onCall} from 'firebase-functions/v2/https';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {assertAdmin, assertAuthenticated} from './auth';
+import {recordPayoutDetailSignal} from './duplicate-accounts';
+import {releasePayout, reservePayout, settlePayout} from './ledger';
+import {validatePayoutDetails} from './payout-providers';
+import {requireAmount} from './transactions';
+import type {
+  PayoutDetails,
+  PayoutMethod,
+  PayoutRequest,
+  PayoutRiskAssessment,
+  PayoutSettings,
+  PayoutStatus,
+  Transaction,
+  UserProfile,
+} from './types';
+
+// Used for any method the settings/payouts document does not override.
+// Mirrors DEFAULT_MIN_PAYOUT_AMOUNTS in src/lib/payout-methods.ts.
+export const DEFAULT_MIN_PAYOUT_AMOUNTS: Record<PayoutMethod, number> = {
+  upi: 100,
+  bank_transfer: 250,
+  paypal: 250,
+  gift_card: 250,
+};
+
+const PAYOUT_METHODS: PayoutMethod[] = ['upi', 'bank_transfer', 'paypal', 'gift_card'];
+const PAYOUT_STATUSES: PayoutStatus[] = ['pending', 'approved', 'processing', 'paid', 'rejected', 'failed'];
+// Statuses in which the payout amount is still reserved from the user's balance.
+const OPEN_PAYOUT_STATUSES: PayoutStatus[] = ['pending', 'approved', 'processing', 'awaiting_payout'];
+
+export interface RequestPayoutData {
+  requestedAmount: number;
+  payoutMethod: PayoutMethod;
+  payoutDetail: string;
+}
+
+export interface AdminUpdatePayoutStatusData {
+  payoutId: string;
+  status: PayoutStatus;
+  adminNotes?: string | null;
+  failureReason?: string | null;
+  // Required to approve a payout its risk assessment put on hold.
+  overrideRiskHold?: boolean;
+}
+
+// Referral rewards paid out alongside the referrer's transactions: where
+// they are stored and the payout field that lists them. Both hold `amount`,
+// `status` ('confirmed' until paid) and the `payoutId` they are reserved by.
+const REFERRAL_PAYOUT_SOURCES = [
+  {kind: 'referral_bonus', collection: 'referralBonuses', idsField: 'referralBonusIds'},
+  {kind: 'referral_earning', collection: 'referralEarnings', idsField: 'referralEarningIds'},
+] as const;
+
+// Something a payout can be made up of: a confirmed transaction's cashback
+// or a confirmed referral reward.
+interface PayoutCandidate {
+  kind: 'transaction' | typeof REFERRAL_PAYOUT_SOURCES[number]['kind'];
+  id: string;
+  amount: number;
+}
+
+/**
+ * Picks the candidates, in the order given, whose amounts fit inside the
+ * requested amount.
+ *
+ * @param {PayoutCandidate[]} candidates Candidates, oldest first.
+ * @param {number} requestedAmount The amount to cover.
+ * @return {{selected: PayoutCandidate[], total: number}} The selection and
+ *     its total.
+ */
+function selectForPayout(
+    candidates: PayoutCandidate[],
+    requestedAmount: number,
+): {selected: PayoutCandidate[]; total: number} {
+  let total = 0;
+  const selected: PayoutCandidate[] = [];
+  for (const candidate of candidates) {
+    if (candidate.amount > 0 && total + candidate.amount <= requestedAmount) {
+      total += candidate.amount;
+      selected.push(candidate);
+    }
+    if (total >= requestedAmount) break;
+  }
+  return {selected, total: parseFloat(total.toFixed(2))};
+}
+
+/**
+ * Turns confirmed, unpaid transactions into payout candidates.
+ *
+ * @param {FirebaseFirestore.QuerySnapshot} snapshot The transactions.
+ * @return {PayoutCandidate[]} The candidates.
+ */
+function transactionCandidates(snapshot: FirebaseFirestore.QuerySnapshot): PayoutCandidate[] {
+  return snapshot.docs.map((docSnap) => {
+    const data = docSnap.data() as Transaction;
+    return {kind: 'transaction', id: docSnap.id, amount: data.finalCashbackAmount ?? data.initialCashbackAmount ?? 0};
+  });
+}
+
+/**
+ * The IDs of the selected candidates of one kind.
+ *
+ * @param {PayoutCandidate[]} selected The selection.
+ * @param {string} kind The kind of candidate.
+ * @return {string[]} Their IDs.
+ */
+function idsOfKind(selected: PayoutCandidate[], kind: PayoutCandidate['kind']): string[] {
+  return selected.filter((candidate) => candidate.kind === kind).map((candidate) => candidate.id);
+}
+
+/**
+ * The minimum payout for a method, using the admin override from
+ * `settings/payouts` when there is one.
+ *
+ * @param {PayoutMethod} method The payout method.
+ * @return {Promise<number>} The minimum amount.
+ */
+export async function getMinPayoutAmount(method: PayoutMethod): Promise<number> {
+  const settingsSnap = await db.collection('settings').doc('payouts').get();
+  const override = settingsSnap.exists ? (settingsSnap.data() as PayoutSettings).minPayoutAmounts?.[method] : null;
+  return typeof override === 'number' && override >= 0 ? override : DEFAULT_MIN_PAYOUT_AMOUNTS[method];
+}
+
+/**
+ * Creates a payout request for the caller from their confirmed, unpaid
+ * transactions and referral rewards, and reserves the amount from their
+ * available balance.
+ */
+export const requestPayout = onCall<RequestPayoutData>(async (request) => {
+  const uid = assertAuthenticated(request);
+  const data = request.data;
+
+  const requestedAmount = requireAmount(data?.requestedAmount, 'requestedAmount');
+  if (!PAYOUT_METHODS.includes(data.payoutMethod)) {
+    throw new HttpsError('invalid-argument', 'Please select a payout method.');
+  }
+  const minPayoutAmount = await getMinPayoutAmount(data.payoutMethod);
+  if (requestedAmount < minPayoutAmount) {
+    throw new HttpsError('invalid-argument', `Minimum payout amount is ${minPayoutAmount}.`);
+  }
+  const payoutDetail = (data.payoutDetail || '').trim();
+  if (payoutDetail.length < 5 || payoutDetail.length > 200) {
+    throw new HttpsError('invalid-argument', 'Payout details must be between 5 and 200 characters.');
+  }
+  const payoutDetails: PayoutDetails = {method: data.payoutMethod, detail: payoutDetail};
+  const detailsError = validatePayoutDetails(payoutDetails);
+  if (detailsError) {
+    throw new HttpsError('invalid-argument', detailsError);
+  }
+
+  const userRef = db.collection('users').doc(uid);
+  const payoutRef = db.collection('payoutRequests').doc();
+  const confirmedUnpaidQuery = db.collection('transactions')
+      .where('userId', '==', uid)
+      .where('status', '==', 'confirmed')
+      .where('payoutId', '==', null)
+      .orderBy('transactionDate', 'asc');
+  const confirmedRewardQueries = REFERRAL_PAYOUT_SOURCES.map((source) => db.collection(source.collection)
+      .where('referrerId', '==', uid)
+      .where('status', '==', 'confirmed')
+      .where('payoutId', '==', null));
+
+  const result = await db.runTransaction(async (firestoreTransaction) => {
+    const [userSnap, transactionsSnap, ...rewardSnaps] = await Promise.all([
+      firestoreTransaction.get(userRef),
+      firestoreTransaction.get(confirmedUnpaidQuery),
+      ...confirmedRewardQueries.map((rewardQuery) => firestoreTransaction.get(rewardQuery)),
+    ]);
+    if (!userSnap.exists) {
+      throw new HttpsError('not-found', 'User profile not found. Cannot process payout.');
+    }
+    const user = userSnap.data() as UserProfile;
+    if (user.isDisabled) {
+      throw new HttpsError('permission-denied', 'Your account is disabled.');
+    }
+
+    const {selected, total} = selectForPayout([
+      ...transactionCandidates(transactionsSnap),
+      ...REFERRAL_PAYOUT_SOURCES.flatMap((source, index) => rewardSnaps[index].docs.map((docSnap): PayoutCandidate => ({
+        kind: source.kind,
+        id: docSnap.id,
+        amount: Number(docSnap.data().amount) || 0,
+      }))),
+    ], requestedAmount);
+    const ids = idsOfKind(selected, 'transaction');
+    if (total < minPayoutAmount) {
+      throw new HttpsError(
+          'failed-precondition',
+          selected.length === 0 ?
+            'No confirmed transactions or referral rewards found to fulfill any payout request.' :
+            `Could not gather enough confirmed transaction value (found ${total.toFixed(2)}) to meet the minimum payout of ${minPayoutAmount}.`,
+      );
+    }
+    const availableBalance = parseFloat((user.cashbackBalance || 0).toFixed(2));
+    if (total > availableBalance) {
+      throw new HttpsError(
+          'failed-precondition',
+          `Your available balance (now ₹${availableBalance.toFixed(2)}) is less than the amount being processed for payout (₹${total.toFixed(2)}). Please refresh and try again.`,
+      );
+    }
+
+    const payoutData: PayoutRequest = {
+      userId: uid,
+      amount: total,
+      requestedAmount,
+      status: 'pending',
+      requestedAt: FieldValue.serverTimestamp(),
+      processedAt: null,
+      paymentMethod: payoutDetails.method,
+      paymentDetails: payoutDetails,
+      transactionIds: ids,
+      ...Object.fromEntries(REFERRAL_PAYOUT_SOURCES.map((source) => [source.idsField, idsOfKind(selected, source.kind)])),
+      adminNotes: null,
+      failureReason: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+    firestoreTransaction.set(payoutRef, payoutData);
+
+    for (const transactionId of ids) {
+      firestoreTransaction.update(db.collection('transactions').doc(transactionId), {
+        status: 'awaiting_payout',
+        payoutId: payoutRef.id,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    for (const source of REFERRAL_PAYOUT_SOURCES) {
+      for (const rewardId of idsOfKind(selected, source.kind)) {
+        firestoreTransaction.update(db.collection(source.collection).doc(rewardId), {
+          payoutId: payoutRef.id,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+    }
+
+    reservePayout(firestoreTransaction, {userId: uid, payoutId: payoutRef.id, amount: total, actorId: uid});
+    firestoreTransaction.update(userRef, {
+      lastPayoutRequestAt: FieldValue.serverTimestamp(),
+      payoutDetails,
+    });
+    recordPayoutDetailSignal(firestoreTransaction, uid, payoutDetails.detail);
+
+    return {payoutId: payoutRef.id, amount: total, requestedAmount};
+  });
+
+  logger.info(`User ${uid} requested payout ${result.payoutId} for ${result.amount}.`);
+  return result;
+});
+
+/** Options for `applyPayoutStatus`. */
+export interface ApplyPayoutStatusOptions {
+  // Admin making the change; null for changes made by a payout provider.
+  actorId: string | null;
+  adminNotes?: string | null;
+  failureReason?: string | null;
+  // Extra payout fields to write with the status, e.g. provider references.
+  extraFields?: Record<string, unknown>;
+}
+
+/**
+ * Moves a payout request to a new status inside a Firestore transaction.
+ * `paid` settles the reserved amount and marks its transactions and referral
+ * rewards paid; `rejected`/`failed` return the amount to the user's balance
+ * and put the transactions and rewards back to confirmed and unpaid. Paid, rejected and failed payouts are
+ * final.
+ *
+ * Performs reads, so it must be called before any writes in the transaction.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The transaction.
+ * @param {string} payoutId The payout request ID.
+ * @param {PayoutRequest} payout The payout as read in the transaction.
+ * @param {PayoutStatus} newStatus The status to move to.
+ * @param {ApplyPayoutStatusOptions} options Actor, notes and extra fields.
+ * @return {Promise<string[]>} The payout's transaction IDs after the change.
+ */
+export async function applyPayoutStatus(
+    firestoreTransaction: FirestoreTransaction,
+    payoutId: string,
+    payout: PayoutRequest,
+    newStatus: PayoutStatus,
+    options: ApplyPayoutStatusOptions,
+): Promise<string[]> {
+  const originalStatus = payout.status;
+  const statusChanged = newStatus !== originalStatus;
+  if (statusChanged && !OPEN_PAYOUT_STATUSES.includes(originalStatus)) {
+    throw new HttpsError('failed-precondition', `Payout is already ${originalStatus} and can no longer change status.`);
+  }
+  const failureReason = options.failureReason?.trim() || null;
+
+  let transactionIds = payout.transactionIds || [];
+  if (statusChanged && newStatus === 'paid' && transactionIds.length === 0) {
+    // Payouts requested before transactions were linked at request time.
+    const confirmedUnpaidSnap = await firestoreTransaction.get(
+        db.collection('transactions')
+            .where('userId', '==', payout.userId)
+            .where('status', '==', 'confirmed')
+            .where('payoutId', '==', null)
+            .orderBy('transactionDate', 'asc'),
+    );
+    transactionIds = idsOfKind(selectForPayout(transactionCandidates(confirmedUnpaidSnap), payout.amount).selected, 'transaction');
+  }
+  const rewards = REFERRAL_PAYOUT_SOURCES.map((source) => ({source, ids: payout[source.idsField] || []}));
+
+  const ledgerInput = {
+    userId: payout.userId,
+    payoutId,
+    amount: payout.amount,
+    actorId: options.actorId,
+  };
+
+  if (statusChanged && newStatus === 'paid') {
+    for (const transactionId of transactionIds) {
+      firestoreTransaction.update(db.collection('transactions').doc(transactionId), {
+        status: 'paid',
+        payoutId,
+        paidDate: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    for (const {source, ids} of rewards) {
+      for (const rewardId of ids) {
+        firestoreTransaction.update(db.collection(source.collection).doc(rewardId), {
+          status: 'paid',
+          paidAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+    }
+    settlePayout(firestoreTransaction, ledgerInput);
+  } else if (statusChanged && (newStatus === 'rejected' || newStatus === 'failed')) {
+    for (const transactionId of transactionIds) {
+      firestoreTransaction.update(db.collection('transactions').doc(transactionId), {
+        status: 'confirmed',
+        payoutId: null,
+        paidDate: null,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    for (const {source, ids} of rewards) {
+      for (const rewardId of ids) {
+        firestoreTransaction.update(db.collection(source.collection).doc(rewardId), {
+          payoutId: null,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+    }
+    releasePayout(firestoreTransaction, {...ledgerInput, description: `Payout ${newStatus}: ${failureReason}`});
+    transactionIds = [];
+    rewards.forEach((reward) => {
+      reward.ids = [];
+    });
+  }
+
+  firestoreTransaction.update(db.collection('payoutRequests').doc(payoutId), {
+    ...options.extraFields,
+    status: newStatus,
+    ...(options.adminNotes !== undefined ? {adminNotes: options.adminNotes?.trim() || null} : {}),
+    processedAt: FieldValue.serverTimestamp(),
+    failureReason: (newStatus === 'failed' || newStatus === 'rejected') ? failureReason : null,
+    transactionIds,
+    ...Object.fromEntries(rewards.map(({source, ids}) => [source.idsField, ids])),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  return transactionIds;
+}
+
+/**
+ * Moves a payout request through its lifecycle; see `applyPayoutStatus`.
+ * Approving a payout hands it to its payout provider (`onPayoutApproved`),
+ * which then moves it through processing to paid or failed by itself.
+ */
+export const adminUpdatePayoutStatus = onCall<AdminUpdatePayoutStatusData>(async (request) => {
+  const adminId = await assertAdmin(request);
+  const data = request.data;
+  if (!data?.payoutId || !PAYOUT_STATUSES.includes(data.status)) {
+    throw new HttpsError('invalid-argument', 'payoutId and a valid status are required.');
+  }
+  const newStatus = data.status;
+  const failureReason = data.failureReason?.trim() || null;
+  if ((newStatus === 'rejected' || newStatus === 'failed') && !failureReason) {
+    throw new HttpsError('invalid-argument', 'Reason is required for rejection or failure.');
+  }
+
+  const payoutRef = db.collection('payoutRequests').doc(data.payoutId);
+  const riskRef = db.collection('payoutRiskAssessments').doc(data.payoutId);
+
+  return db.runTransaction(async (firestoreTransaction) => {
+    const [payoutSnap, riskSnap] = await Promise.all([
+      firestoreTransaction.get(payoutRef),
+      firestoreTransaction.get(riskRef),
+    ]);
+    if (!payoutSnap.exists) {
+      throw new HttpsError('not-found', 'Payout request document not found.');
+    }
+    const risk = riskSnap.data() as PayoutRiskAssessment | undefined;
+    // A payout onPayoutRequested has not scored (yet, or because it failed)
+    // is treated like one on hold, so approving it early cannot skip the check.
+    const overridesHold = newStatus === 'approved' && (payoutSnap.data() as PayoutRequest).status === 'pending' &&
+      (!risk || risk.decision === 'hold');
+    if (overridesHold && !data.overrideRiskHold) {
+      throw new HttpsError(
+          'failed-precondition',
+          risk ?
+            `This payout is on risk hold (score ${risk.score}). Confirm the override to approve it.` :
+            'This payout has not been risk scored. Score it, or confirm the override to approve it unscored.',
+      );
+    }
+    const transactionIds = await applyPayoutStatus(
+        firestoreTransaction,
+        data.payoutId,
+        payoutSnap.data() as PayoutRequest,
+        newStatus,
+        {actorId: adminId, adminNotes: data.adminNotes ?? null, failureReason},
+    );
+    if (overridesHold && risk) {
+      firestoreTransaction.update(riskRef, {overriddenBy: adminId, overriddenAt: FieldValue.serverTimestamp()});
+    } else if (overridesHold) {
+      logger.warn(`Admin ${adminId} approved payout ${data.payoutId} without a risk assessment.`);
+    }
+    return {payoutId: data.payoutId, status: newStatus, transactionIds};
+  });
+});
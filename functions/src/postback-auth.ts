@@ -0,0 +1,230 @@
+import {createHash, createHmac, timingSafeEqual} from 'crypto';
+import * as functions from 'firebase-functions';
+import * as logger from 'firebase-functions/logger';
+import {defineInt, defineSecret} from 'firebase-functions/params';
+import {FieldValue, Timestamp} from 'firebase-admin/firestore';
+import {db} from './admin';
+import type {PostbackRejection, PostbackRejectionReason} from './types';
+
+/**
+ * JSON map of network ID to its postback settings, e.g.
+ * `{"cuelinks": {"secret": "...", "allowedIps": ["203.0.113.7"]}}`.
+ */
+export const POSTBACK_NETWORKS = defineSecret('POSTBACK_NETWORKS');
+const POSTBACK_MAX_AGE_SECONDS = defineInt('POSTBACK_MAX_AGE_SECONDS', {default: 900});
+
+export const SIGNATURE_HEADER = 'x-postback-signature';
+
+interface PostbackNetworkConfig {
+  secret: string;
+  allowedIps?: string[];
+}
+
+export type PostbackVerification =
+  | {ok: true; network: string; nonceId: string}
+  | {ok: false; httpStatus: number; reason: PostbackRejectionReason};
+
+/**
+ * Merges query and body parameters into flat strings; query values win.
+ *
+ * @param {functions.https.Request} request The incoming request.
+ * @return {Record<string, string>} The postback parameters.
+ */
+export function getPostbackParams(
+    request: functions.https.Request,
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  const body = request.body && typeof request.body === 'object' ? request.body : {};
+  for (const source of [body, request.query]) {
+    for (const [key, value] of Object.entries(source as Record<string, unknown>)) {
+      if (value !== undefined && value !== null) params[key] = String(value);
+    }
+  }
+  return params;
+}
+
+/**
+ * Builds the string networks sign: every parameter except `signature`,
+ * sorted by name and joined as `key=value` pairs with `&`, both URI-encoded.
+ *
+ * @param {Record<string, string>} params The postback parameters.
+ * @return {string} The canonical string.
+ */
+export function canonicalPostbackString(params: Record<string, string>): string {
+  return Object.keys(params)
+      .filter((key) => key !== 'signature')
+      .sort()
+      .map((key) => `${encodeURIComponent(key)}=${encodeURIComponent(params[key])}`)
+      .join('&');
+}
+
+/**
+ * Compares the hex HMAC-SHA256 of the canonical string in constant time.
+ *
+ * @param {string} secret The network's shared secret.
+ * @param {Record<string, string>} params The postback parameters.
+ * @param {string} signature The signature supplied by the caller.
+ * @return {boolean} Whether the signature matches.
+ */
+function isValidSignature(
+    secret: string,
+    params: Record<string, string>,
+    signature: string,
+): boolean {
+  const expected = createHmac('sha256', secret)
+      .update(canonicalPostbackString(params))
+      .digest();
+  const supplied = Buffer.from(signature.trim().toLowerCase(), 'hex');
+  return supplied.length === expected.length && timingSafeEqual(supplied, expected);
+}
+
+/**
+ * Reads the network settings from the POSTBACK_NETWORKS secret.
+ *
+ * @param {string} network The network ID from the postback.
+ * @return {PostbackNetworkConfig | null} The settings, if configured.
+ */
+function getNetworkConfig(network: string): PostbackNetworkConfig | null {
+  try {
+    const networks = JSON.parse(POSTBACK_NETWORKS.value() || '{}') as
+      Record<string, PostbackNetworkConfig>;
+    const config = Object.prototype.hasOwnProperty.call(networks, network) ?
+      networks[network] :
+      null;
+    return config?.secret ? config : null;
+  } catch (error) {
+    logger.error('POSTBACK_NETWORKS is not valid JSON:', error);
+    return null;
+  }
+}
+
+/**
+ * Returns the caller's IP. Google's front end appends the address it saw to
+ * X-Forwarded-For, so the last entry is the one the caller cannot forge.
+ *
+ * @param {functions.https.Request} request The incoming request.
+ * @return {string | null} The caller's IP.
+ */
+export function getCallerIp(request: functions.https.Request): string | null {
+  const forwardedFor = request.get('x-forwarded-for');
+  const lastHop = forwardedFor?.split(',').map((ip) => ip.trim()).filter(Boolean).pop();
+  return lastHop || request.ip || null;
+}
+
+/**
+ * Records a rejected postback for the admin spoof-attempt log.
+ *
+ * @param {functions.https.Request} request The incoming request.
+ * @param {string | null} network The network the caller claimed to be.
+ * @param {PostbackRejectionReason} reason Why the postback was rejected.
+ * @return {Promise<void>}
+ */
+async function recordRejection(
+    request: functions.https.Request,
+    network: string | null,
+    reason: PostbackRejectionReason,
+): Promise<void> {
+  const rejection: PostbackRejection = {
+    network,
+    reason,
+    ip: getCallerIp(request),
+    userAgent: request.get('user-agent') || null,
+    method: request.method,
+    query: request.query as Record<string, unknown>,
+    body: request.body && typeof request.body === 'object' ? request.body : null,
+    receivedAt: FieldValue.serverTimestamp(),
+  };
+  try {
+    await db.collection('postbackRejections').add(rejection);
+  } catch (error) {
+    logger.error('Failed to record postback rejection:', error, {network, reason});
+  }
+}
+
+/**
+ * Authenticates a postback before any conversion is written.
+ *
+ * The caller names itself with `network` and must sign the request with
+ * that network's secret (`signature` param or X-Postback-Signature header),
+ * include a unix `ts` within POSTBACK_MAX_AGE_SECONDS and a `nonce` that has
+ * not been seen before. Networks with `allowedIps` are also checked by
+ * caller IP. Every failure is logged to `postbackRejections`, including
+ * errors on our side (`verification_error`, HTTP 500).
+ *
+ * @param {functions.https.Request} request The incoming request.
+ * @return {Promise<PostbackVerification>} The verification result.
+ */
+export async function verifyPostback(
+    request: functions.https.Request,
+): Promise<PostbackVerification> {
+  const params = getPostbackParams(request);
+  const network = params.network || null;
+
+  const reject = async (
+      reason: PostbackRejectionReason,
+      httpStatus: number,
+  ): Promise<PostbackVerification> => {
+    logger.warn(`Postback rejected (${reason}).`, {network, ip: getCallerIp(request)});
+    await recordRejection(request, network, reason);
+    return {ok: false, httpStatus, reason};
+  };
+
+  try {
+    const config = network ? getNetworkConfig(network) : null;
+    if (!network || !config) return reject('unknown_network', 401);
+
+    if (config.allowedIps && config.allowedIps.length > 0) {
+      const ip = getCallerIp(request);
+      if (!ip || !config.allowedIps.includes(ip)) return reject('ip_not_allowed', 403);
+    }
+
+    const signature = params.signature || request.get(SIGNATURE_HEADER);
+    if (!signature) return reject('missing_signature', 401);
+    if (!isValidSignature(config.secret, params, signature)) return reject('invalid_signature', 401);
+
+    // Only checked once the signature holds, so forged calls cannot burn nonces.
+    const timestampSeconds = Number(params.ts);
+    const maxAgeSeconds = POSTBACK_MAX_AGE_SECONDS.value();
+    if (!params.ts || !Number.isFinite(timestampSeconds) ||
+        Math.abs(Date.now() / 1000 - timestampSeconds) > maxAgeSeconds) {
+      return reject('stale_timestamp', 401);
+    }
+    if (!params.nonce) return reject('missing_nonce', 401);
+
+    // create() fails if the document exists, which makes the nonce single-use.
+    // expiresAt lets a Firestore TTL policy clear nonces once ts would be stale anyway.
+    const nonceId = createHash('sha256').update(`${network}:${params.nonce}`).digest('hex');
+    try {
+      await db.collection('postbackNonces').doc(nonceId).create({
+        network,
+        nonce: params.nonce,
+        receivedAt: FieldValue.serverTimestamp(),
+        expiresAt: Timestamp.fromMillis((timestampSeconds + 2 * maxAgeSeconds) * 1000),
+      });
+    } catch (error) {
+      if ((error as {code?: number}).code === 6) return reject('replayed_nonce', 409);
+      throw error;
+    }
+
+    return {ok: true, network, nonceId};
+  } catch (error) {
+    // e.g. Firestore unavailable: a 5xx makes the network retry later.
+    logger.error('Could not verify postback:', error, {network});
+    return reject('verification_error', 500);
+  }
+}
+
+/**
+ * Frees a verified postback's nonce so the network can retry it, for when
+ * the postback failed on our side after verification.
+ *
+ * @param {string} nonceId The nonce document ID from `verifyPostback`.
+ * @return {Promise<void>}
+ */
+export async function releasePostbackNonce(nonceId: string): Promise<void> {
+  try {
+    await db.collection('postbackNonces').doc(nonceId).delete();
+  } catch (error) {
+    logger.error(`Could not release postback nonce ${nonceId}:`, error);
+  }
+}
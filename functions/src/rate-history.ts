@@ -0,0 +1,120 @@
+import {FieldValue, Transaction as FirestoreTransaction} from 'firebase-admin/firestore';
+import {onDocumentWritten} from 'firebase-functions/v2/firestore';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import type {Click, Store, StoreRateVersion} from './types';
+
+type RateFields = Pick<Store, 'cashbackRate' | 'cashbackRateValue' | 'cashbackType' | 'cashbackRates'>;
+
+/**
+ * The store fields a rate version captures, normalised so that equal rates
+ * compare equal.
+ *
+ * @param {RateFields} source A store or rate version.
+ * @return {string} A stable JSON form of the rate fields.
+ */
+function rateFingerprint(source: RateFields): string {
+  return JSON.stringify({
+    cashbackRate: source.cashbackRate || '',
+    cashbackRateValue: source.cashbackRateValue ?? 0,
+    cashbackType: source.cashbackType || 'percentage',
+    cashbackRates: (source.cashbackRates || []).map((tier) => ({
+      ...tier,
+      validFrom: tier.validFrom?.toMillis() ?? null,
+      validUntil: tier.validUntil?.toMillis() ?? null,
+    })),
+  });
+}
+
+/**
+ * Version document ID for a store's nth rate version.
+ *
+ * @param {number} version The version number.
+ * @return {string} The storeRateHistory document ID.
+ */
+export function rateVersionId(version: number): string {
+  return `v${version}`;
+}
+
+/**
+ * Records a `storeRateHistory` version whenever a store's rates change (and
+ * for the store's first write), closes the previous version and points the
+ * store at the new one. Clicks copy the store's `rateVersionId`, so the rate
+ * a user was shown can always be looked up later.
+ */
+export const onStoreRatesWritten = onDocumentWritten('stores/{storeId}', async (event) => {
+  const after = event.data?.after;
+  if (!after?.exists) {
+    return;
+  }
+  const before = event.data?.before;
+  const store = after.data() as Store;
+  if (store.rateVersionId && before?.exists && rateFingerprint(before.data() as Store) === rateFingerprint(store)) {
+    return;
+  }
+
+  const storeId = event.params.storeId;
+  const storeRef = db.collection('stores').doc(storeId);
+
+  await db.runTransaction(async (firestoreTransaction) => {
+    const storeSnap = await firestoreTransaction.get(storeRef);
+    if (!storeSnap.exists) {
+      return;
+    }
+    const current = storeSnap.data() as Store;
+    const historyRef = storeRef.collection('storeRateHistory');
+    const previousRef = current.rateVersionId ? historyRef.doc(current.rateVersionId) : null;
+    const previousSnap = previousRef ? await firestoreTransaction.get(previousRef) : null;
+    // A retried or out-of-order event may find the version already recorded.
+    if (previousSnap?.exists && rateFingerprint(previousSnap.data() as StoreRateVersion) === rateFingerprint(current)) {
+      return;
+    }
+
+    const version = (current.rateVersion || 0) + 1;
+    const versionData: StoreRateVersion = {
+      storeId,
+      version,
+      cashbackRate: current.cashbackRate || '',
+      cashbackRateValue: current.cashbackRateValue ?? 0,
+      cashbackType: current.cashbackType || 'percentage',
+      cashbackRates: current.cashbackRates || [],
+      effectiveFrom: FieldValue.serverTimestamp(),
+      effectiveUntil: null,
+      changedBy: current.updatedBy || null,
+    };
+    firestoreTransaction.create(historyRef.doc(rateVersionId(version)), versionData);
+    if (previousSnap?.exists) {
+      firestoreTransaction.update(previousSnap.ref, {effectiveUntil: FieldValue.serverTimestamp()});
+    }
+    firestoreTransaction.update(storeRef, {rateVersion: version, rateVersionId: rateVersionId(version)});
+    logger.info(`Store ${storeId} rates changed; recorded version ${version}.`);
+  });
+});
+
+/**
+ * Loads the store rates a click was locked to, for use in place of the
+ * store's current rates. Returns null for clicks without a version (made
+ * before rate history existed) or if the version is missing.
+ *
+ * @param {string} storeId The store the click was for.
+ * @param {Click | null} click The click, if any.
+ * @param {FirestoreTransaction} firestoreTransaction Optional transaction
+ *     to read in.
+ * @return {Promise<StoreRateVersion | null>} The locked rate version.
+ */
+export async function getLockedRateVersion(
+    storeId: string,
+    click: Click | null,
+    firestoreTransaction?: FirestoreTransaction,
+): Promise<StoreRateVersion | null> {
+  if (!click?.clickedRateVersionId) {
+    return null;
+  }
+  const versionRef = db.collection('stores').doc(storeId).collection('storeRateHistory').doc(click.clickedRateVersionId);
+  const versionSnap = firestoreTransaction ? await firestoreTransaction.get(versionRef) : await versionRef.get();
+  if (!versionSnap.exists) {
+    logger.warn(`Rate version ${click.clickedRateVersionId} for store ${storeId} not found; using current rates.`);
+    return null;
+  }
+  return versionSnap.data() as StoreRateVersion;
+}
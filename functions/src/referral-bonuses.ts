@@ -0,0 +1,264 @@
+import {FieldValue, Timestamp, Transaction as FirestoreTransaction} from 'firebase-admin/firestore';
+import {onDocumentWritten} from 'firebase-functions/v2/firestore';
+import {onSchedule} from 'firebase-functions/v2/scheduler';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {confirmReferral, creditReferralPending, reverseReferral} from './ledger';
+import type {ReferralRules} from './referral-program';
+import type {CashbackStatus, ReferralBonus, Transaction} from './types';
+
+// Referral bonuses are pending ledger items for the referrer. They are
+// created when a referred user signs up, confirmed into the referrer's
+// available balance by the referee's first confirmed purchase of at least the
+// bonus's minimum order amount, and expire if no such purchase is confirmed
+// in time (see ReferralRules in referral-program.ts). Confirmed bonuses are
+// paid out with the referrer's transactions (see payouts.ts). If the
+// qualifying purchase is rejected or cancelled before then, the bonus goes
+// back to pending for another purchase to qualify it, or is reversed if its
+// expiry has passed.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPIRY_BATCH_SIZE = 200;
+const CONFIRMED_STATUSES: CashbackStatus[] = ['confirmed', 'awaiting_payout', 'paid'];
+
+/**
+ * Creates the pending bonus for a referred sign-up and holds it as pending
+ * cashback for the referrer.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The transaction.
+ * @param {string} referrerId The referrer.
+ * @param {string} refereeId The referred user; also the bonus ID.
+ * @param {ReferralRules} rules The programme rules at sign-up.
+ */
+export function createReferralBonus(
+    firestoreTransaction: FirestoreTransaction,
+    referrerId: string,
+    refereeId: string,
+    rules: ReferralRules,
+): void {
+  const amount = rules.signupBonusAmount;
+  if (amount <= 0) {
+    return;
+  }
+  const bonus: ReferralBonus = {
+    referrerId,
+    refereeId,
+    amount,
+    status: 'pending',
+    minOrderAmount: rules.bonusMinOrderAmount,
+    expiresAt: Timestamp.fromMillis(Date.now() + rules.bonusExpiryDays * DAY_MS),
+    qualifyingTransactionId: null,
+    confirmedAt: null,
+    payoutId: null,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+  firestoreTransaction.create(db.collection('referralBonuses').doc(refereeId), bonus);
+  creditReferralPending(firestoreTransaction, {userId: referrerId, referralBonusId: refereeId, amount});
+}
+
+/**
+ * Voids a referral bonus, e.g. because the referee is a duplicate account,
+ * taking it back off the referrer's balances and referral stats. Bonuses
+ * already in a payout, or no longer pending or confirmed, are left alone.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The transaction.
+ * @param {string} bonusId The bonus (referee) ID.
+ * @param {ReferralBonus} bonus The bonus as read in the transaction.
+ * @param {string} actorId The admin voiding it.
+ * @return {string | null} Why the bonus was not voided, or null if it was.
+ */
+export function voidReferralBonus(
+    firestoreTransaction: FirestoreTransaction,
+    bonusId: string,
+    bonus: ReferralBonus,
+    actorId: string,
+): string | null {
+  if (bonus.status === 'confirmed' && bonus.payoutId) {
+    return 'Bonus is already in a payout.';
+  }
+  if (bonus.status !== 'pending' && bonus.status !== 'confirmed') {
+    return `Bonus is already ${bonus.status}.`;
+  }
+  const wasConfirmed = bonus.status === 'confirmed';
+  reverseReferral(firestoreTransaction, {
+    userId: bonus.referrerId,
+    referralBonusId: bonusId,
+    amount: bonus.amount,
+    wasConfirmed,
+    actorId,
+    description: 'Referral bonus voided.',
+  });
+  firestoreTransaction.update(db.collection('referralBonuses').doc(bonusId), {
+    status: 'voided',
+    voidedBy: actorId,
+    voidedAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  firestoreTransaction.update(db.collection('users').doc(bonus.referrerId), {
+    referralCount: FieldValue.increment(-1),
+    ...(wasConfirmed ? {referralBonusEarned: FieldValue.increment(-bonus.amount)} : {}),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return null;
+}
+
+/**
+ * Takes back a confirmed referral bonus whose qualifying transaction was
+ * rejected or cancelled. Before `expiresAt` the bonus returns to pending, so
+ * another purchase by the referee can still qualify it; after, it is
+ * reversed for good. Bonuses already in a payout are left for an admin to
+ * recover.
+ *
+ * @param {string} transactionId The reversed transaction.
+ * @param {string} refereeId The referee who made it; also the bonus ID.
+ * @return {Promise<void>}
+ */
+async function reverseQualifiedBonus(transactionId: string, refereeId: string): Promise<void> {
+  const bonusRef = db.collection('referralBonuses').doc(refereeId);
+  await db.runTransaction(async (firestoreTransaction) => {
+    const bonusSnap = await firestoreTransaction.get(bonusRef);
+    const bonus = bonusSnap.data() as ReferralBonus | undefined;
+    if (!bonus || bonus.qualifyingTransactionId !== transactionId ||
+        (bonus.status !== 'confirmed' && bonus.status !== 'paid')) {
+      return;
+    }
+    if (bonus.status === 'paid' || bonus.payoutId) {
+      logger.warn(`Referral bonus ${bonusSnap.id} is in payout ${bonus.payoutId}; not reversing it.`);
+      return;
+    }
+
+    const returnToPending = bonus.expiresAt.toMillis() > Date.now();
+    reverseReferral(firestoreTransaction, {
+      userId: bonus.referrerId,
+      referralBonusId: bonusSnap.id,
+      transactionId,
+      amount: bonus.amount,
+      wasConfirmed: true,
+      returnToPending,
+      description: returnToPending ?
+        'Referral bonus back to pending: the qualifying purchase was rejected or cancelled.' :
+        'Referral bonus reversed: the qualifying purchase was rejected or cancelled.',
+    });
+    firestoreTransaction.update(bonusRef, returnToPending ? {
+      status: 'pending',
+      qualifyingTransactionId: null,
+      confirmedAt: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    } : {
+      status: 'reversed',
+      reversedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    firestoreTransaction.update(db.collection('users').doc(bonus.referrerId), {
+      referralBonusEarned: FieldValue.increment(-bonus.amount),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    logger.info(
+        `Referral bonus for user ${refereeId} ${returnToPending ? 'back to pending' : 'reversed'} ` +
+        `with transaction ${transactionId}.`,
+    );
+  });
+}
+
+/**
+ * Confirms a referee's pending referral bonus when one of their transactions
+ * is confirmed for at least the bonus's minimum order amount, and takes it
+ * back if that transaction is later rejected or cancelled.
+ */
+export const onReferredTransactionConfirmed = onDocumentWritten('transactions/{transactionId}', async (event) => {
+  const before = event.data?.before.data() as Transaction | undefined;
+  const after = event.data?.after.data() as Transaction | undefined;
+  if (!after) {
+    return;
+  }
+  const transactionId = event.params.transactionId;
+  if ((after.status === 'rejected' || after.status === 'cancelled') &&
+      !!before && CONFIRMED_STATUSES.includes(before.status)) {
+    await reverseQualifiedBonus(transactionId, after.userId);
+    return;
+  }
+  if (after.status !== 'confirmed' || before?.status === 'confirmed') {
+    return;
+  }
+  const bonusRef = db.collection('referralBonuses').doc(after.userId);
+
+  await db.runTransaction(async (firestoreTransaction) => {
+    const bonusSnap = await firestoreTransaction.get(bonusRef);
+    const bonus = bonusSnap.data() as ReferralBonus | undefined;
+    if (!bonus || bonus.status !== 'pending' || bonus.expiresAt.toMillis() <= Date.now()) {
+      return;
+    }
+    const orderAmount = after.finalSaleAmount ?? after.saleAmount ?? 0;
+    if (orderAmount < bonus.minOrderAmount) {
+      logger.info(
+          `Transaction ${transactionId} (${orderAmount}) is below the ${bonus.minOrderAmount} minimum ` +
+          `for the referral bonus of user ${after.userId}.`,
+      );
+      return;
+    }
+
+    confirmReferral(firestoreTransaction, {
+      userId: bonus.referrerId,
+      referralBonusId: bonusSnap.id,
+      transactionId,
+      amount: bonus.amount,
+    });
+    firestoreTransaction.update(bonusRef, {
+      status: 'confirmed',
+      qualifyingTransactionId: transactionId,
+      confirmedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    firestoreTransaction.update(db.collection('users').doc(bonus.referrerId), {
+      referralBonusEarned: FieldValue.increment(bonus.amount),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    logger.info(`Referral bonus for user ${after.userId} confirmed by transaction ${transactionId}.`);
+  });
+});
+
+/**
+ * Expires pending referral bonuses whose referee made no qualifying purchase
+ * in time, removing them from the referrer's pending cashback.
+ */
+export const expireReferralBonuses = onSchedule('every 24 hours', async () => {
+  const dueSnap = await db.collection('referralBonuses')
+      .where('status', '==', 'pending')
+      .where('expiresAt', '<=', Timestamp.now())
+      .orderBy('expiresAt', 'asc')
+      .limit(EXPIRY_BATCH_SIZE)
+      .get();
+
+  let expiredCount = 0;
+  for (const bonusDoc of dueSnap.docs) {
+    try {
+      const expired = await db.runTransaction(async (firestoreTransaction) => {
+        const bonusSnap = await firestoreTransaction.get(bonusDoc.ref);
+        const bonus = bonusSnap.data() as ReferralBonus | undefined;
+        if (!bonus || bonus.status !== 'pending') {
+          return false;
+        }
+        reverseReferral(firestoreTransaction, {
+          userId: bonus.referrerId,
+          referralBonusId: bonusSnap.id,
+          amount: bonus.amount,
+          wasConfirmed: false,
+          description: 'Referral bonus expired: no qualifying purchase in time.',
+        });
+        firestoreTransaction.update(bonusDoc.ref, {
+          status: 'expired',
+          expiredAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        return true;
+      });
+      if (expired) {
+        expiredCount++;
+      }
+    } catch (error) {
+      logger.error(`Could not expire referral bonus ${bonusDoc.id}:`, error);
+    }
+  }
+  logger.info(`Expired ${expiredCount} of ${dueSnap.size} due referral bonuses.`);
+});
@@ -0,0 +1,352 @@
+import {FieldValue, Timestamp} from 'firebase-admin/firestore';
+import {onDocumentWritten} from 'firebase-functions/v2/firestore';
+import {onCall} from 'firebase-functions/v2/https';
+import {defineInt} from 'firebase-functions/params';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {assertAuthenticated} from './auth';
+import {creditReferralShare, reverseReferralShare} from './ledger';
+import type {
+  CashbackStatus,
+  ReferralBonus,
+  ReferralBonusStatus,
+  ReferralEarning,
+  ReferralSettings,
+  Transaction,
+  UserProfile,
+} from './types';
+
+// Defaults for the referral programme. Admins override them in
+// settings/referrals; the signup bonus defaults can also be set per
+// deployment with these params.
+const REFERRAL_BONUS_AMOUNT = defineInt('REFERRAL_BONUS_AMOUNT', {default: 50});
+const REFERRAL_MIN_ORDER_AMOUNT = defineInt('REFERRAL_MIN_ORDER_AMOUNT', {default: 500});
+const REFERRAL_BONUS_EXPIRY_DAYS = defineInt('REFERRAL_BONUS_EXPIRY_DAYS', {default: 60});
+// Mirror the defaults in src/lib/referral-program.ts.
+export const DEFAULT_TIER1_PERCENT = 10;
+export const DEFAULT_TIER2_PERCENT = 0;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REFEREES_LISTED = 500;
+// Transaction statuses in which the cashback counts as confirmed.
+const CONFIRMED_STATUSES: CashbackStatus[] = ['confirmed', 'awaiting_payout', 'paid'];
+
+/** The referral programme rules in effect, with defaults applied. */
+export interface ReferralRules {
+  signupBonusAmount: number;
+  bonusMinOrderAmount: number;
+  bonusExpiryDays: number;
+  revenueShareEnabled: boolean;
+  tier1Percent: number;
+  tier2Percent: number;
+  // Null for the referee's lifetime.
+  revenueShareDays: number | null;
+}
+
+export type RefereeStatus = 'joined' | 'qualified' | 'expired' | 'inactive';
+
+/** A referee as shown to their referrer, without identifying details. */
+export interface RefereeSummary {
+  maskedName: string;
+  maskedEmail: string | null;
+  joinedAtMillis: number | null;
+  status: RefereeStatus;
+  bonusStatus: ReferralBonusStatus | null;
+  bonusAmount: number;
+  // Revenue share from the referee's own purchases.
+  shareEarned: number;
+  // Second-tier revenue share from people the referee referred.
+  secondTierEarned: number;
+  // When the referee's purchases stop earning a share; null for lifetime.
+  revenueShareEndsAtMillis: number | null;
+}
+
+/** The caller's referees and the rules they earn under. */
+export interface MyReferralsResult {
+  referees: RefereeSummary[];
+  rules: Pick<ReferralRules, 'revenueShareEnabled' | 'tier1Percent' | 'tier2Percent' | 'revenueShareDays'>;
+}
+
+/**
+ * Reads a whole number setting, falling back when it is unset or invalid.
+ *
+ * @param {unknown} value The stored value.
+ * @param {number} fallback The default.
+ * @param {number} min The smallest allowed value.
+ * @return {number} The setting.
+ */
+function numberSetting(value: unknown, fallback: number, min = 0): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+/**
+ * The referral programme rules, using the admin overrides from
+ * `settings/referrals` when there are any.
+ *
+ * @return {Promise<ReferralRules>} The rules.
+ */
+export async function getReferralRules(): Promise<ReferralRules> {
+  const settingsSnap = await db.collection('settings').doc('referrals').get();
+  const settings = settingsSnap.exists ? settingsSnap.data() as ReferralSettings : {};
+  return {
+    signupBonusAmount: numberSetting(settings.signupBonusAmount, REFERRAL_BONUS_AMOUNT.value()),
+    bonusMinOrderAmount: numberSetting(settings.bonusMinOrderAmount, REFERRAL_MIN_ORDER_AMOUNT.value()),
+    bonusExpiryDays: numberSetting(settings.bonusExpiryDays, REFERRAL_BONUS_EXPIRY_DAYS.value(), 1),
+    revenueShareEnabled: settings.revenueShareEnabled === true,
+    tier1Percent: Math.min(numberSetting(settings.tier1Percent, DEFAULT_TIER1_PERCENT), 100),
+    tier2Percent: Math.min(numberSetting(settings.tier2Percent, DEFAULT_TIER2_PERCENT), 100),
+    revenueShareDays: typeof settings.revenueShareDays === 'number' && settings.revenueShareDays >= 1 ?
+      settings.revenueShareDays : null,
+  };
+}
+
+/**
+ * Reads a Firestore timestamp as epoch millis.
+ *
+ * @param {unknown} value A stored timestamp.
+ * @return {number | null} The millis, or null if it is not a timestamp.
+ */
+function toMillis(value: unknown): number | null {
+  return value instanceof Timestamp ? value.toMillis() : null;
+}
+
+/**
+ * The earning document ID for a transaction and tier.
+ *
+ * @param {string} transactionId The referee's transaction.
+ * @param {number} tier 1 or 2.
+ * @return {string} The document ID.
+ */
+function earningId(transactionId: string, tier: 1 | 2): string {
+  return `${transactionId}_t${tier}`;
+}
+
+/**
+ * Credits the purchaser's referrer (and, with a second tier, the referrer's
+ * referrer) their share of a confirmed transaction's cashback. Each share is
+ * credited at most once per transaction and tier; disabled referrers and
+ * purchases after the revenue-share period earn nothing.
+ *
+ * @param {string} transactionId The confirmed transaction.
+ * @param {Transaction} transaction Its data.
+ * @param {ReferralRules} rules The programme rules.
+ * @return {Promise<void>}
+ */
+async function creditRevenueShares(transactionId: string, transaction: Transaction, rules: ReferralRules): Promise<void> {
+  const cashbackAmount = transaction.finalCashbackAmount ?? transaction.initialCashbackAmount ?? 0;
+  if (cashbackAmount <= 0) {
+    return;
+  }
+  const purchaserId = transaction.userId;
+
+  await db.runTransaction(async (firestoreTransaction) => {
+    const purchaserSnap = await firestoreTransaction.get(db.collection('users').doc(purchaserId));
+    const purchaser = purchaserSnap.data() as UserProfile | undefined;
+    if (!purchaser?.referredBy) {
+      return;
+    }
+    const signupAt = toMillis(purchaser.createdAt);
+    if (rules.revenueShareDays !== null && (signupAt === null || Date.now() - signupAt > rules.revenueShareDays * DAY_MS)) {
+      return;
+    }
+
+    const tier1Snap = await firestoreTransaction.get(db.collection('users').doc(purchaser.referredBy));
+    const tier1 = tier1Snap.data() as UserProfile | undefined;
+    const tiers: {tier: 1 | 2; referrerSnap: FirebaseFirestore.DocumentSnapshot; percent: number; viaUserId: string}[] = [
+      {tier: 1, referrerSnap: tier1Snap, percent: rules.tier1Percent, viaUserId: purchaserId},
+    ];
+    if (rules.tier2Percent > 0 && tier1?.referredBy && tier1.referredBy !== purchaserId) {
+      tiers.push({
+        tier: 2,
+        referrerSnap: await firestoreTransaction.get(db.collection('users').doc(tier1.referredBy)),
+        percent: rules.tier2Percent,
+        viaUserId: tier1Snap.id,
+      });
+    }
+    const earningSnaps = await firestoreTransaction.getAll(
+        ...tiers.map(({tier}) => db.collection('referralEarnings').doc(earningId(transactionId, tier))),
+    );
+
+    tiers.forEach(({tier, referrerSnap, percent, viaUserId}, index) => {
+      const referrer = referrerSnap.data() as UserProfile | undefined;
+      const amount = parseFloat((cashbackAmount * percent / 100).toFixed(2));
+      if (earningSnaps[index].exists || !referrer || referrer.isDisabled || amount <= 0) {
+        return;
+      }
+      const earning: ReferralEarning = {
+        referrerId: referrerSnap.id,
+        tier,
+        viaUserId,
+        purchaserId,
+        transactionId,
+        cashbackAmount,
+        percent,
+        amount,
+        status: 'confirmed',
+        payoutId: null,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      };
+      firestoreTransaction.create(earningSnaps[index].ref, earning);
+      creditReferralShare(firestoreTransaction, {
+        userId: referrerSnap.id,
+        referralEarningId: earningSnaps[index].id,
+        amount,
+        description: `Referral revenue share (tier ${tier}, ${percent}%).`,
+      });
+      logger.info(`Credited tier ${tier} revenue share of ${amount} to ${referrerSnap.id} for transaction ${transactionId}.`);
+    });
+  });
+}
+
+/**
+ * Takes back the revenue shares of a transaction whose cashback was
+ * reversed. Shares already in a payout are left for an admin to recover.
+ *
+ * @param {string} transactionId The reversed transaction.
+ * @return {Promise<void>}
+ */
+async function reverseRevenueShares(transactionId: string): Promise<void> {
+  const earningRefs = ([1, 2] as const).map((tier) => db.collection('referralEarnings').doc(earningId(transactionId, tier)));
+  await db.runTransaction(async (firestoreTransaction) => {
+    const earningSnaps = await firestoreTransaction.getAll(...earningRefs);
+    for (const earningSnap of earningSnaps) {
+      const earning = earningSnap.data() as ReferralEarning | undefined;
+      if (!earning || earning.status !== 'confirmed') {
+        continue;
+      }
+      if (earning.payoutId) {
+        logger.warn(`Revenue share ${earningSnap.id} is in payout ${earning.payoutId}; not reversing it.`);
+        continue;
+      }
+      reverseReferralShare(firestoreTransaction, {
+        userId: earning.referrerId,
+        referralEarningId: earningSnap.id,
+        amount: earning.amount,
+      });
+      firestoreTransaction.update(earningSnap.ref, {
+        status: 'reversed',
+        reversedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+  });
+}
+
+/**
+ * Credits referrers their revenue share when a referee's transaction is
+ * confirmed, and reverses it if the transaction's cashback is later
+ * rejected or cancelled.
+ */
+export const onRevenueShareTransactionWritten = onDocumentWritten('transactions/{transactionId}', async (event) => {
+  const before = event.data?.before.data() as Transaction | undefined;
+  const after = event.data?.after.data() as Transaction | undefined;
+  if (!after) {
+    return;
+  }
+  const transactionId = event.params.transactionId;
+  const wasConfirmed = !!before && CONFIRMED_STATUSES.includes(before.status);
+
+  if (after.status === 'confirmed' && !wasConfirmed) {
+    const rules = await getReferralRules();
+    if (rules.revenueShareEnabled) {
+      await creditRevenueShares(transactionId, after, rules);
+    }
+  } else if ((after.status === 'rejected' || after.status === 'cancelled') && wasConfirmed) {
+    await reverseRevenueShares(transactionId);
+  }
+});
+
+/**
+ * "Asha Rao" to "A*** R***", so referrers can tell referees apart without
+ * seeing who they are.
+ *
+ * @param {string | null} name The display name.
+ * @return {string} The masked name.
+ */
+function maskName(name: string | null): string {
+  const words = (name || '').trim().split(/\s+/).filter(Boolean);
+  return words.length > 0 ? words.map((word) => `${word[0]}***`).join(' ') : 'Friend';
+}
+
+/**
+ * "asha@example.com" to "a***@e***.com".
+ *
+ * @param {string | null} email The email address.
+ * @return {string | null} The masked address.
+ */
+function maskEmail(email: string | null): string | null {
+  const [local, domain] = (email || '').split('@');
+  if (!local || !domain) {
+    return null;
+  }
+  const tld = domain.includes('.') ? domain.slice(domain.lastIndexOf('.')) : '';
+  return `${local[0]}***@${domain[0]}***${tld}`;
+}
+
+/**
+ * Lists the caller's referees with masked identities, their status and what
+ * the caller has earned through each of them.
+ */
+export const getMyReferrals = onCall(async (request): Promise<MyReferralsResult> => {
+  const uid = assertAuthenticated(request);
+  const [rules, refereesSnap, bonusesSnap, earningsSnap] = await Promise.all([
+    getReferralRules(),
+    db.collection('users').where('referredBy', '==', uid).limit(MAX_REFEREES_LISTED).get(),
+    db.collection('referralBonuses').where('referrerId', '==', uid).get(),
+    db.collection('referralEarnings').where('referrerId', '==', uid).get(),
+  ]);
+
+  const bonuses = new Map(bonusesSnap.docs.map((docSnap) => [docSnap.id, docSnap.data() as ReferralBonus]));
+  const earned = new Map<string, {share: number; secondTier: number}>();
+  for (const earningSnap of earningsSnap.docs) {
+    const earning = earningSnap.data() as ReferralEarning;
+    if (earning.status === 'reversed') {
+      continue;
+    }
+    const totals = earned.get(earning.viaUserId) || {share: 0, secondTier: 0};
+    if (earning.tier === 1) {
+      totals.share += earning.amount;
+    } else {
+      totals.secondTier += earning.amount;
+    }
+    earned.set(earning.viaUserId, totals);
+  }
+
+  const referees = refereesSnap.docs.map((docSnap): RefereeSummary => {
+    const referee = docSnap.data() as UserProfile;
+    const bonus = bonuses.get(docSnap.id);
+    const totals = earned.get(docSnap.id) || {share: 0, secondTier: 0};
+    const joinedAtMillis = toMillis(referee.createdAt);
+    let status: RefereeStatus = 'joined';
+    if (referee.isDisabled || bonus?.status === 'voided' || bonus?.status === 'reversed') {
+      status = 'inactive';
+    } else if (bonus?.status === 'confirmed' || bonus?.status === 'paid' || totals.share > 0) {
+      status = 'qualified';
+    } else if (bonus?.status === 'expired') {
+      status = 'expired';
+    }
+    return {
+      maskedName: maskName(referee.displayName),
+      maskedEmail: maskEmail(referee.email),
+      joinedAtMillis,
+      status,
+      bonusStatus: bonus?.status ?? null,
+      bonusAmount: bonus?.amount ?? 0,
+      shareEarned: parseFloat(totals.share.toFixed(2)),
+      secondTierEarned: parseFloat(totals.secondTier.toFixed(2)),
+      revenueShareEndsAtMillis: rules.revenueShareDays !== null && joinedAtMillis !== null ?
+        joinedAtMillis + rules.revenueShareDays * DAY_MS : null,
+    };
+  }).sort((a, b) => (b.joinedAtMillis ?? 0) - (a.joinedAtMillis ?? 0));
+
+  return {
+    referees,
+    rules: {
+      revenueShareEnabled: rules.revenueShareEnabled,
+      tier1Percent: rules.tier1Percent,
+      tier2Percent: rules.tier2Percent,
+      revenueShareDays: rules.revenueShareDays,
+    },
+  };
+});
@@ -0,0 +1,76 @@
+import {FieldValue} from 'firebase-admin/firestore';
+import {onDocumentWritten} from 'firebase-functions/v2/firestore';
+import {defineString} from 'firebase-functions/params';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {createReferralBonus} from './referral-bonuses';
+import {getReferralRules} from './referral-program';
+import type {UserProfile} from './types';
+
+const INITIAL_ADMIN_UID = defineString('INITIAL_ADMIN_UID', {default: ''});
+
+/**
+ * Resolves the referral code a user entered into `referredBy`. Referrers only
+ * get a (pending) referral bonus for new sign-ups; existing users are just
+ * attributed.
+ *
+ * @param {string} userId The referred user.
+ * @param {boolean} isNewProfile Whether the profile was just created.
+ * @return {Promise<void>}
+ */
+async function attributeReferral(userId: string, isNewProfile: boolean): Promise<void> {
+  const userRef = db.collection('users').doc(userId);
+  const rules = isNewProfile ? await getReferralRules() : null;
+
+  await db.runTransaction(async (firestoreTransaction) => {
+    const userSnap = await firestoreTransaction.get(userRef);
+    const profile = userSnap.data() as UserProfile | undefined;
+    const code = profile?.referredByCode?.trim();
+    if (!profile || !code || profile.referredBy) {
+      return;
+    }
+
+    const referrerSnap = await firestoreTransaction.get(
+        db.collection('users').where('referralCode', '==', code).limit(1),
+    );
+    const referrerDoc = referrerSnap.docs[0];
+    if (!referrerDoc || referrerDoc.id === userId) {
+      logger.warn(`Referral code "${code}" for user ${userId} is unknown or a self-referral; clearing it.`);
+      firestoreTransaction.update(userRef, {referredByCode: null, updatedAt: FieldValue.serverTimestamp()});
+      return;
+    }
+
+    firestoreTransaction.update(userRef, {referredBy: referrerDoc.id, updatedAt: FieldValue.serverTimestamp()});
+    if (rules) {
+      firestoreTransaction.update(referrerDoc.ref, {
+        referralCount: FieldValue.increment(1),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      createReferralBonus(firestoreTransaction, referrerDoc.id, userId, rules);
+    }
+    logger.info(`User ${userId} attributed to referrer ${referrerDoc.id} (new sign-up: ${isNewProfile}).`);
+  });
+}
+
+/**
+ * Applies the profile changes clients are not allowed to make themselves:
+ * promoting the configured initial admin and resolving referral codes.
+ */
+export const onUserProfileWritten = onDocumentWritten('users/{userId}', async (event) => {
+  const after = event.data?.after;
+  if (!after?.exists) {
+    return;
+  }
+  const userId = event.params.userId;
+  const isNewProfile = !event.data?.before.exists;
+  const profile = after.data() as UserProfile;
+
+  if (isNewProfile && INITIAL_ADMIN_UID.value() === userId && profile.role !== 'admin') {
+    await after.ref.update({role: 'admin', updatedAt: FieldValue.serverTimestamp()});
+    logger.info(`Promoted initial admin ${userId}.`);
+  }
+
+  if (profile.referredByCode && !profile.referredBy) {
+    await attributeReferral(userId, isNewProfile);
+  }
+});
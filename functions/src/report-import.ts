@@ -0,0 +1,419 @@
+import {FieldValue, QueryDocumentSnapshot, Timestamp} from 'firebase-admin/firestore';
+import {HttpsError, onCall} from 'firebase-functions/v2/https';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {mapAdvertiserStatus, transitionPendingTransaction, type PendingTransitionStatus} from './advertiser-status';
+import {assertAdmin} from './auth';
+import {applyCampaignBoost} from './campaigns';
+import {cashbackForSale} from './cashback';
+import {conversionIdForOrder, processConversion} from './conversions';
+import {getLockedRateVersion} from './rate-history';
+import type {Campaign, CashbackStatus, Click, Conversion, Store, Transaction} from './types';
+
+// Rows per callable invocation; the import wizard sends larger files in chunks.
+const MAX_IMPORT_ROWS_PER_CALL = 100;
+const PENDING_TRANSITIONS: CashbackStatus[] = ['confirmed', 'cancelled', 'rejected'];
+
+/** One report row after the wizard has applied the column mapping. */
+export interface ImportRowInput {
+  rowNumber: number;
+  clickId?: string | null;
+  orderId?: string | null;
+  saleAmount?: number | null;
+  commissionAmount?: number | null;
+  status?: string | null;
+  transactionDateMillis?: number | null;
+  currency?: string | null;
+}
+
+export type ImportRowAction = 'create' | 'update' | 'status_change' | 'unchanged' | 'rejected';
+
+export interface ImportRowResult {
+  rowNumber: number;
+  action: ImportRowAction;
+  reason: string | null;
+  transactionId: string | null;
+  fromStatus: CashbackStatus | null;
+  toStatus: CashbackStatus | null;
+  changes: string[];
+}
+
+export interface AdminImportTransactionsData {
+  importId: string;
+  network: string;
+  fileName?: string | null;
+  rows: ImportRowInput[];
+  commit: boolean;
+}
+
+interface RowPlan extends ImportRowResult {
+  click?: QueryDocumentSnapshot | null;
+  store?: Store | null;
+  finalSaleAmount?: number | null;
+  finalCashbackAmount?: number | null;
+}
+
+/**
+ * Builds the result for a row that cannot be imported.
+ *
+ * @param {ImportRowInput} row The report row.
+ * @param {string} reason Why the row was rejected.
+ * @return {RowPlan} The rejected plan.
+ */
+function rejectedRow(row: ImportRowInput, reason: string): RowPlan {
+  return {
+    rowNumber: row.rowNumber,
+    action: 'rejected',
+    reason,
+    transactionId: null,
+    fromStatus: null,
+    toStatus: null,
+    changes: [],
+  };
+}
+
+/**
+ * Loads a store by ID.
+ *
+ * @param {string} storeId The store ID.
+ * @return {Promise<Store | null>} The store, if found.
+ */
+async function getStore(storeId: string): Promise<Store | null> {
+  const storeSnap = await db.collection('stores').doc(storeId).get();
+  return storeSnap.exists ? storeSnap.data() as Store : null;
+}
+
+/**
+ * Finds a click by the click ID we sent to the network.
+ *
+ * @param {string} clickId The click ID.
+ * @return {Promise<QueryDocumentSnapshot | null>} The click document.
+ */
+async function findClick(clickId: string): Promise<QueryDocumentSnapshot | null> {
+  const clickSnap = await db.collection('clicks').where('clickId', '==', clickId).limit(1).get();
+  return clickSnap.empty ? null : clickSnap.docs[0];
+}
+
+/**
+ * Works out what importing a row would do, without writing anything.
+ * Rows are matched to existing transactions by click ID, then order ID;
+ * rows with no transaction create one from their click.
+ *
+ * @param {ImportRowInput} row The report row.
+ * @return {Promise<RowPlan>} The planned action.
+ */
+async function planRow(row: ImportRowInput): Promise<RowPlan> {
+  const clickId = row.clickId?.trim() || null;
+  const orderId = row.orderId?.trim() || null;
+  if (!clickId && !orderId) {
+    return rejectedRow(row, 'Row has neither a click ID nor an order ID.');
+  }
+  if (row.saleAmount != null && (!isFinite(row.saleAmount) || row.saleAmount < 0)) {
+    return rejectedRow(row, 'Sale amount must be a non-negative number.');
+  }
+
+  const transactionsQuery = clickId ?
+    db.collection('transactions').where('clickId', '==', clickId) :
+    db.collection('transactions').where('orderId', '==', orderId);
+  const transactionDocs = (await transactionsQuery.limit(5).get()).docs
+      .filter((docSnap) => !orderId || !docSnap.data().orderId || docSnap.data().orderId === orderId);
+  if (transactionDocs.length > 1) {
+    return rejectedRow(row, `Matches ${transactionDocs.length} transactions; resolve the duplicates first.`);
+  }
+
+  if (transactionDocs.length === 1) {
+    const transactionDoc = transactionDocs[0];
+    const transaction = transactionDoc.data() as Transaction;
+    const store = await getStore(transaction.storeId);
+    const plan: RowPlan = {
+      rowNumber: row.rowNumber,
+      action: 'unchanged',
+      reason: null,
+      transactionId: transactionDoc.id,
+      fromStatus: transaction.status,
+      toStatus: null,
+      changes: [],
+      store,
+    };
+
+    const toStatus = row.status ? mapAdvertiserStatus(row.status, store?.advertiserStatusMap) : null;
+    if (row.status && !toStatus) {
+      return {...rejectedRow(row, `Unmapped status "${row.status}".`), transactionId: transactionDoc.id};
+    }
+
+    const recordedSale = transaction.finalSaleAmount ?? transaction.saleAmount;
+    if (row.saleAmount != null && Math.abs(row.saleAmount - recordedSale) >= 0.01) {
+      if (transaction.status !== 'pending') {
+        return {
+          ...rejectedRow(row, `Sale amount changed (${recordedSale} -> ${row.saleAmount}) but the transaction is already ${transaction.status}; adjust it by hand.`),
+          transactionId: transactionDoc.id,
+        };
+      }
+      const clickDoc = transaction.clickId ? await findClick(transaction.clickId) : null;
+      const click = clickDoc ? clickDoc.data() as Click : null;
+      const lockedRates = await getLockedRateVersion(transaction.storeId, click);
+      const baseCashback = cashbackForSale(row.saleAmount, click, lockedRates || store);
+      // A campaign the transaction qualified for keeps boosting the new amount.
+      const campaignSnap = transaction.campaignId ?
+        await db.collection('campaigns').doc(transaction.campaignId).get() :
+        null;
+      const cashback = baseCashback && campaignSnap?.exists ?
+        applyCampaignBoost(baseCashback, campaignSnap.data() as Campaign) :
+        baseCashback;
+      plan.finalSaleAmount = row.saleAmount;
+      plan.finalCashbackAmount = cashback?.amount ?? transaction.initialCashbackAmount;
+      plan.changes.push(`Sale ${recordedSale} -> ${row.saleAmount}`);
+      plan.changes.push(`Cashback ${transaction.finalCashbackAmount ?? transaction.initialCashbackAmount} -> ${plan.finalCashbackAmount}`);
+      plan.action = 'update';
+    }
+
+    if (toStatus && toStatus !== transaction.status) {
+      if (transaction.status !== 'pending' || !PENDING_TRANSITIONS.includes(toStatus)) {
+        return {
+          ...rejectedRow(row, `Transition ${transaction.status} -> ${toStatus} is not allowed from an import.`),
+          transactionId: transactionDoc.id,
+        };
+      }
+      plan.toStatus = toStatus;
+      plan.action = 'status_change';
+    }
+    return plan;
+  }
+
+  if (!clickId) {
+    return rejectedRow(row, `No transaction for order ${orderId}, and no click ID to create one from.`);
+  }
+  if (!orderId) {
+    return rejectedRow(row, 'An order ID is required to create a transaction.');
+  }
+  if (row.saleAmount == null) {
+    return rejectedRow(row, 'A sale amount is required to create a transaction.');
+  }
+  const click = await findClick(clickId);
+  if (!click) {
+    return rejectedRow(row, `No click found for click ID ${clickId}.`);
+  }
+  const clickData = click.data() as Click;
+  if (!clickData.userId) {
+    return rejectedRow(row, 'The click was made by a guest; match it from Unmatched Conversions instead.');
+  }
+  const existingConversion = await db.collection('conversions')
+      .where('orderId', '==', orderId)
+      .where('storeId', '==', clickData.storeId)
+      .limit(1)
+      .get();
+  if (!existingConversion.empty) {
+    const conversion = existingConversion.docs[0];
+    return rejectedRow(row, `Order already recorded as conversion ${conversion.id} (${conversion.data().status}).`);
+  }
+
+  const store = await getStore(clickData.storeId);
+  const toStatus = row.status ? mapAdvertiserStatus(row.status, store?.advertiserStatusMap) : null;
+  if (row.status && !toStatus) {
+    return rejectedRow(row, `Unmapped status "${row.status}".`);
+  }
+  if (toStatus && toStatus !== 'pending' && !PENDING_TRANSITIONS.includes(toStatus)) {
+    return rejectedRow(row, `New transactions cannot start as ${toStatus}.`);
+  }
+
+  return {
+    rowNumber: row.rowNumber,
+    action: 'create',
+    reason: null,
+    transactionId: null,
+    fromStatus: null,
+    toStatus: toStatus || 'pending',
+    changes: [`Sale ${row.saleAmount}`],
+    click,
+    store,
+  };
+}
+
+/**
+ * Applies amount corrections and/or a status change to a pending
+ * transaction. Amounts go to `finalSaleAmount`/`finalCashbackAmount`, so
+ * balances only move when the transaction is confirmed or rejected.
+ *
+ * @param {string} transactionId The transaction to update.
+ * @param {RowPlan} plan The planned changes.
+ * @param {ImportRowInput} row The report row.
+ * @param {string} adminId The admin running the import.
+ * @return {Promise<void>}
+ */
+async function applyToTransaction(
+    transactionId: string,
+    plan: RowPlan,
+    row: ImportRowInput,
+    adminId: string,
+): Promise<void> {
+  const transactionRef = db.collection('transactions').doc(transactionId);
+  await db.runTransaction(async (firestoreTransaction) => {
+    const transactionSnap = await firestoreTransaction.get(transactionRef);
+    if (!transactionSnap.exists) {
+      throw new Error(`Transaction ${transactionId} no longer exists.`);
+    }
+    let transaction = transactionSnap.data() as Transaction;
+    if (transaction.status !== 'pending') {
+      throw new Error(`Transaction is now ${transaction.status}; re-run the preview.`);
+    }
+
+    if (plan.finalSaleAmount != null) {
+      transaction = {
+        ...transaction,
+        finalSaleAmount: plan.finalSaleAmount,
+        finalCashbackAmount: plan.finalCashbackAmount ?? null,
+      };
+      firestoreTransaction.update(transactionRef, {
+        finalSaleAmount: transaction.finalSaleAmount,
+        finalCashbackAmount: transaction.finalCashbackAmount,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    if (plan.toStatus && plan.toStatus !== 'pending') {
+      transitionPendingTransaction(firestoreTransaction, transactionRef, transaction, {
+        toStatus: plan.toStatus as PendingTransitionStatus,
+        source: 'import',
+        advertiserStatus: row.status || null,
+        conversionId: transaction.conversionId || null,
+        actorId: adminId,
+        description: `Network report marked order ${transaction.orderId || row.orderId} as "${row.status}".`,
+        rejectionReason: `Marked "${row.status}" in the network report.`,
+      });
+      if (transaction.conversionId) {
+        firestoreTransaction.update(db.collection('conversions').doc(transaction.conversionId), {advertiserStatus: row.status});
+      }
+    }
+  });
+}
+
+/**
+ * Creates a conversion for a report row and processes it into a pending
+ * transaction, then applies the reported status.
+ *
+ * @param {RowPlan} plan The planned create.
+ * @param {ImportRowInput} row The report row.
+ * @param {AdminImportTransactionsData} data The import request.
+ * @param {string} adminId The admin running the import.
+ * @return {Promise<string>} The new transaction ID.
+ */
+async function createFromRow(
+    plan: RowPlan,
+    row: ImportRowInput,
+    data: AdminImportTransactionsData,
+    adminId: string,
+): Promise<string> {
+  const click = plan.click as QueryDocumentSnapshot;
+  const clickData = click.data() as Click;
+  const conversionData: Conversion = {
+    clickId: clickData.clickId,
+    originalClickFirebaseId: click.id,
+    userId: clickData.userId,
+    storeId: clickData.storeId,
+    storeName: clickData.storeName || plan.store?.name || null,
+    orderId: (row.orderId as string).trim(),
+    saleAmount: row.saleAmount as number,
+    currency: row.currency || 'INR',
+    commissionAmount: row.commissionAmount ?? null,
+    status: 'received',
+    advertiserStatus: row.status || null,
+    timestamp: row.transactionDateMillis ? Timestamp.fromMillis(row.transactionDateMillis) : FieldValue.serverTimestamp(),
+    network: data.network,
+    postbackData: {source: 'import', importId: data.importId, rowNumber: row.rowNumber, importedBy: adminId},
+    processingError: null,
+    transactionId: null,
+  };
+  const conversionRef = db.collection('conversions').doc(conversionIdForOrder(clickData.storeId, conversionData.orderId));
+  try {
+    await conversionRef.create(conversionData);
+  } catch (error) {
+    // ALREADY_EXISTS: a postback recorded the order since the preview.
+    if ((error as {code?: number}).code === 6) {
+      throw new Error(`Order already recorded as conversion ${conversionRef.id}.`);
+    }
+    throw error;
+  }
+  await click.ref.update({
+    hasConversion: true,
+    conversionId: conversionRef.id,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  const result = await processConversion(conversionRef.id);
+  if (result.status === 'error' || !result.transactionId) {
+    throw new Error(`Conversion ${conversionRef.id} recorded but not processed: ${result.error || 'unknown error'}`);
+  }
+  if (plan.toStatus && plan.toStatus !== 'pending') {
+    await applyToTransaction(result.transactionId, plan, row, adminId);
+  }
+  return result.transactionId;
+}
+
+/**
+ * Previews or commits a chunk of a network sales report. With
+ * `commit: false` nothing is written and the planned action for each row is
+ * returned; with `commit: true` each row is re-planned and applied on its
+ * own, so one bad row never blocks the rest. Committed chunks are tallied on
+ * `transactionImports/{importId}`.
+ */
+export const adminImportTransactions = onCall<AdminImportTransactionsData>(async (request) => {
+  const adminId = await assertAdmin(request);
+  const data = request.data;
+  if (!data?.importId || !data.network || !Array.isArray(data.rows)) {
+    throw new HttpsError('invalid-argument', 'importId, network and rows are required.');
+  }
+  if (data.rows.length > MAX_IMPORT_ROWS_PER_CALL) {
+    throw new HttpsError('invalid-argument', `At most ${MAX_IMPORT_ROWS_PER_CALL} rows can be sent per call.`);
+  }
+
+  const results: ImportRowResult[] = [];
+  for (const row of data.rows) {
+    let plan: RowPlan;
+    try {
+      plan = await planRow(row);
+    } catch (error) {
+      logger.error(`Import ${data.importId}: failed to plan row ${row.rowNumber}:`, error);
+      plan = rejectedRow(row, error instanceof Error ? error.message : 'Could not read this row.');
+    }
+
+    if (data.commit && plan.action !== 'rejected' && plan.action !== 'unchanged') {
+      try {
+        if (plan.action === 'create') {
+          plan.transactionId = await createFromRow(plan, row, data, adminId);
+        } else {
+          await applyToTransaction(plan.transactionId as string, plan, row, adminId);
+        }
+      } catch (error) {
+        logger.error(`Import ${data.importId}: failed to apply row ${row.rowNumber}:`, error);
+        plan = {...plan, action: 'rejected', reason: error instanceof Error ? error.message : 'Could not apply this row.'};
+      }
+    }
+
+    results.push({
+      rowNumber: plan.rowNumber,
+      action: plan.action,
+      reason: plan.reason,
+      transactionId: plan.transactionId,
+      fromStatus: plan.fromStatus,
+      toStatus: plan.toStatus,
+      changes: plan.changes,
+    });
+  }
+
+  if (data.commit) {
+    const counts: Record<string, FieldValue> = {};
+    for (const result of results) {
+      counts[result.action] = FieldValue.increment(1);
+    }
+    await db.collection('transactionImports').doc(data.importId).set({
+      network: data.network,
+      fileName: data.fileName || null,
+      importedBy: adminId,
+      counts,
+      updatedAt: FieldValue.serverTimestamp(),
+    }, {merge: true});
+    logger.info(`Import ${data.importId}: committed ${results.length} rows by admin ${adminId}.`);
+  }
+
+  return {importId: data.importId, results};
+});
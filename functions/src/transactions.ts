@@ -0,0 +1,273 @@
+import {FieldValue, Timestamp, Transaction as FirestoreTransaction, DocumentReference} from 'firebase-admin/firestore';
+import {HttpsError, onCall} from 'firebase-functions/v2/https';
+import * as logger from 'firebase-functions/logger';
+import {db} from './admin';
+import {assertAdmin} from './auth';
+import {confirm, creditPending, reject} from './ledger';
+import type {CashbackStatus, Transaction, TransactionAuditEntry} from './types';
+
+export interface AdminCreateTransactionData {
+  userId: string;
+  storeId: string;
+  storeName?: string | null;
+  orderId?: string | null;
+  clickId?: string | null;
+  conversionId?: string | null;
+  productDetails?: string | null;
+  transactionDateMillis: number;
+  saleAmount: number;
+  initialCashbackAmount: number;
+  cashbackRateApplied?: string | null;
+  status: 'pending' | 'confirmed' | 'rejected' | 'cancelled';
+  adminNotes?: string | null;
+  notesToUser?: string | null;
+  rejectionReason?: string | null;
+}
+
+export interface AdminApproveTransactionData {
+  transactionId: string;
+  finalSaleAmount?: number | null;
+  finalCashbackAmount?: number | null;
+  adminNotes?: string | null;
+  notesToUser?: string | null;
+}
+
+export interface AdminRejectTransactionData {
+  transactionId: string;
+  rejectionReason: string;
+  adminNotes?: string | null;
+  notesToUser?: string | null;
+}
+
+/**
+ * Writes an admin audit entry under a transaction.
+ *
+ * @param {FirestoreTransaction} firestoreTransaction The enclosing transaction.
+ * @param {DocumentReference} transactionRef The transaction document.
+ * @param {CashbackStatus} fromStatus The status before the change.
+ * @param {CashbackStatus} toStatus The status after the change.
+ * @param {string} actorId The admin making the change.
+ */
+function writeAdminAuditEntry(
+    firestoreTransaction: FirestoreTransaction,
+    transactionRef: DocumentReference,
+    fromStatus: CashbackStatus,
+    toStatus: CashbackStatus,
+    actorId: string,
+): void {
+  const auditEntry: TransactionAuditEntry = {
+    fromStatus,
+    toStatus,
+    source: 'admin',
+    advertiserStatus: null,
+    conversionId: null,
+    actorId,
+    createdAt: FieldValue.serverTimestamp(),
+  };
+  firestoreTransaction.create(transactionRef.collection('auditLog').doc(), auditEntry);
+}
+
+/**
+ * Validates that an amount sent by a client is a finite, non-negative number.
+ *
+ * @param {unknown} value The value to check.
+ * @param {string} field The field name, for the error message.
+ * @return {number} The amount rounded to two decimals.
+ */
+export function requireAmount(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+    throw new HttpsError('invalid-argument', `${field} must be a non-negative number.`);
+  }
+  return parseFloat(value.toFixed(2));
+}
+
+/**
+ * Logs a transaction by hand from the admin Add dialog. Pending
+ * transactions credit pending cashback; confirmed ones credit the available
+ * balance directly.
+ */
+export const adminCreateTransaction = onCall<AdminCreateTransactionData>(async (request) => {
+  const adminId = await assertAdmin(request);
+  const data = request.data;
+
+  if (!data?.userId || !data.storeId) {
+    throw new HttpsError('invalid-argument', 'userId and storeId are required.');
+  }
+  if (!['pending', 'confirmed', 'rejected', 'cancelled'].includes(data.status)) {
+    throw new HttpsError('invalid-argument', `Invalid status "${data.status}".`);
+  }
+  if ((data.status === 'rejected' || data.status === 'cancelled') && !data.rejectionReason?.trim()) {
+    throw new HttpsError('invalid-argument', 'Rejection reason is required if status is \'rejected\' or \'cancelled\'.');
+  }
+  if (typeof data.transactionDateMillis !== 'number' || isNaN(data.transactionDateMillis)) {
+    throw new HttpsError('invalid-argument', 'transactionDateMillis is required.');
+  }
+  const saleAmount = requireAmount(data.saleAmount, 'saleAmount');
+  const cashbackAmount = requireAmount(data.initialCashbackAmount, 'initialCashbackAmount');
+
+  const userRef = db.collection('users').doc(data.userId);
+  const transactionRef = db.collection('transactions').doc();
+
+  await db.runTransaction(async (firestoreTransaction) => {
+    const userSnap = await firestoreTransaction.get(userRef);
+    if (!userSnap.exists) {
+      throw new HttpsError('not-found', `User with ID ${data.userId} not found.`);
+    }
+
+    let storeName = data.storeName;
+    if (!storeName) {
+      const storeSnap = await firestoreTransaction.get(db.collection('stores').doc(data.storeId));
+      storeName = storeSnap.exists ? storeSnap.data()?.name : 'Unknown Store';
+    }
+
+    const transactionData: Transaction = {
+      userId: data.userId,
+      storeId: data.storeId,
+      storeName: storeName || 'Unknown Store',
+      orderId: data.orderId || null,
+      clickId: data.clickId || null,
+      conversionId: data.conversionId || null,
+      productDetails: data.productDetails || null,
+      transactionDate: Timestamp.fromMillis(data.transactionDateMillis),
+      saleAmount,
+      initialCashbackAmount: cashbackAmount,
+      cashbackRateApplied: data.cashbackRateApplied || null,
+      finalSaleAmount: saleAmount,
+      finalCashbackAmount: cashbackAmount,
+      currency: 'INR',
+      status: data.status,
+      confirmationDate: data.status === 'confirmed' ? FieldValue.serverTimestamp() : null,
+      paidDate: null,
+      payoutId: null,
+      reportedDate: FieldValue.serverTimestamp(),
+      rejectionReason: (data.status === 'rejected' || data.status === 'cancelled') ? data.rejectionReason || null : null,
+      adminNotes: data.adminNotes || null,
+      notesToUser: data.notesToUser || null,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+    firestoreTransaction.set(transactionRef, transactionData);
+
+    const ledgerInput = {
+      userId: data.userId,
+      transactionId: transactionRef.id,
+      actorId: adminId,
+    };
+    if (data.status === 'pending') {
+      creditPending(firestoreTransaction, {...ledgerInput, amount: cashbackAmount, description: 'Transaction logged by admin (pending).'});
+    } else if (data.status === 'confirmed') {
+      confirm(firestoreTransaction, {...ledgerInput, pendingAmount: 0, confirmedAmount: cashbackAmount, description: 'Transaction logged by admin (confirmed).'});
+    }
+  });
+
+  logger.info(`Admin ${adminId} logged transaction ${transactionRef.id} for user ${data.userId}.`);
+  return {transactionId: transactionRef.id};
+});
+
+/**
+ * Confirms a pending transaction, optionally with adjusted final amounts,
+ * and moves its cashback from pending to the available balance.
+ */
+export const adminApproveTransaction = onCall<AdminApproveTransactionData>(async (request) => {
+  const adminId = await assertAdmin(request);
+  const data = request.data;
+  if (!data?.transactionId) {
+    throw new HttpsError('invalid-argument', 'transactionId is required.');
+  }
+  const transactionRef = db.collection('transactions').doc(data.transactionId);
+
+  await db.runTransaction(async (firestoreTransaction) => {
+    const transactionSnap = await firestoreTransaction.get(transactionRef);
+    if (!transactionSnap.exists) {
+      throw new HttpsError('not-found', 'Transaction not found.');
+    }
+    const transaction = transactionSnap.data() as Transaction;
+    if (transaction.status !== 'pending') {
+      throw new HttpsError('failed-precondition', `Only pending transactions can be approved (status is ${transaction.status}).`);
+    }
+    const userSnap = await firestoreTransaction.get(db.collection('users').doc(transaction.userId));
+    if (!userSnap.exists) {
+      throw new HttpsError('not-found', 'User profile not found.');
+    }
+
+    const pendingAmount = transaction.initialCashbackAmount || 0;
+    const finalCashbackToCredit = data.finalCashbackAmount != null ?
+      requireAmount(data.finalCashbackAmount, 'finalCashbackAmount') :
+      pendingAmount;
+    const finalSaleToRecord = data.finalSaleAmount != null ?
+      requireAmount(data.finalSaleAmount, 'finalSaleAmount') :
+      transaction.saleAmount;
+
+    firestoreTransaction.update(transactionRef, {
+      status: 'confirmed',
+      confirmationDate: FieldValue.serverTimestamp(),
+      adminNotes: data.adminNotes?.trim() || null,
+      notesToUser: data.notesToUser?.trim() || null,
+      finalSaleAmount: finalSaleToRecord,
+      finalCashbackAmount: finalCashbackToCredit,
+      rejectionReason: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    confirm(firestoreTransaction, {
+      userId: transaction.userId,
+      transactionId: data.transactionId,
+      pendingAmount,
+      confirmedAmount: finalCashbackToCredit,
+      actorId: adminId,
+      description: 'Cashback confirmed by admin.',
+    });
+    writeAdminAuditEntry(firestoreTransaction, transactionRef, transaction.status, 'confirmed', adminId);
+  });
+
+  return {transactionId: data.transactionId};
+});
+
+/**
+ * Rejects a pending or confirmed (not yet paid out) transaction and reverses
+ * the cashback it had credited.
+ */
+export const adminRejectTransaction = onCall<AdminRejectTransactionData>(async (request) => {
+  const adminId = await assertAdmin(request);
+  const data = request.data;
+  if (!data?.transactionId || !data.rejectionReason?.trim()) {
+    throw new HttpsError('invalid-argument', 'transactionId and rejectionReason are required.');
+  }
+  const transactionRef = db.collection('transactions').doc(data.transactionId);
+
+  await db.runTransaction(async (firestoreTransaction) => {
+    const transactionSnap = await firestoreTransaction.get(transactionRef);
+    if (!transactionSnap.exists) {
+      throw new HttpsError('not-found', 'Transaction not found.');
+    }
+    const transaction = transactionSnap.data() as Transaction;
+    const isPending = transaction.status === 'pending';
+    const isUnpaidConfirmed = transaction.status === 'confirmed' && !transaction.payoutId;
+    if (!isPending && !isUnpaidConfirmed) {
+      throw new HttpsError('failed-precondition', `Transactions with status ${transaction.status} cannot be rejected.`);
+    }
+    const userSnap = await firestoreTransaction.get(db.collection('users').doc(transaction.userId));
+    if (!userSnap.exists) {
+      throw new HttpsError('not-found', 'User profile not found.');
+    }
+
+    firestoreTransaction.update(transactionRef, {
+      status: 'rejected',
+      rejectionReason: data.rejectionReason.trim(),
+      adminNotes: data.adminNotes?.trim() || null,
+      notesToUser: data.notesToUser?.trim() || null,
+      confirmationDate: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    reject(firestoreTransaction, {
+      userId: transaction.userId,
+      transactionId: data.transactionId,
+      pendingAmount: isPending ? transaction.initialCashbackAmount || 0 : 0,
+      confirmedAmount: isUnpaidConfirmed ? transaction.finalCashbackAmount ?? transaction.initialCashbackAmount ?? 0 : 0,
+      actorId: adminId,
+      description: `Cashback rejected by admin: ${data.rejectionReason.trim()}`,
+    });
+    writeAdminAuditEntry(firestoreTransaction, transactionRef, transaction.status, 'rejected', adminId);
+  });
+
+  return {transactionId: data.transactionId};
+});
@@ -0,0 +1,488 @@
+// functions/src/types.ts
+// Server-side mirrors of the Firestore document shapes declared in
+// src/lib/types.ts, typed against the Admin SDK.
+import type {Timestamp, FieldValue} from 'firebase-admin/firestore';
+
+export type CashbackType = 'percentage' | 'fixed';
+export type CashbackUserSegment = 'all' | 'new' | 'existing';
+export type CashbackPlatform = 'all' | 'app' | 'web';
+
+export interface CashbackRateTier {
+  id: string;
+  name: string;
+  category?: string | null;
+  userSegment: CashbackUserSegment;
+  platform: CashbackPlatform;
+  value: number;
+  type: CashbackType;
+  maxCashback?: number | null;
+  validFrom?: Timestamp | null;
+  validUntil?: Timestamp | null;
+  notes?: string | null;
+}
+
+export type CashbackStatus = 'pending' | 'confirmed' | 'rejected' | 'cancelled' | 'awaiting_payout' | 'paid';
+
+export type ConversionStatus = 'received' | 'processed' | 'error' | 'unmatched_click';
+
+// Lower-cased advertiser status -> the CashbackStatus it moves a transaction to.
+export type AdvertiserStatusMap = Record<string, CashbackStatus>;
+
+export interface UserProfile {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  role: 'user' | 'admin';
+  cashbackBalance: number;
+  pendingCashback: number;
+  lifetimeCashback: number;
+  referralCode: string | null;
+  referralCount: number;
+  referralBonusEarned: number;
+  referredBy: string | null;
+  referredByCode?: string | null;
+  isDisabled: boolean;
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+}
+
+export type ReferralBonusStatus = 'pending' | 'confirmed' | 'paid' | 'expired' | 'voided' | 'reversed';
+
+// Stored at referralBonuses/{refereeId}: the bonus a referrer earns for one
+// referred sign-up. It is held as pending cashback until the referee's first
+// qualifying purchase is confirmed, then paid out like confirmed cashback.
+export interface ReferralBonus {
+  referrerId: string;
+  refereeId: string;
+  amount: number;
+  status: ReferralBonusStatus;
+  minOrderAmount: number;
+  expiresAt: Timestamp;
+  qualifyingTransactionId?: string | null;
+  confirmedAt?: Timestamp | FieldValue | null;
+  payoutId?: string | null;
+  paidAt?: Timestamp | FieldValue | null;
+  expiredAt?: Timestamp | FieldValue | null;
+  voidedBy?: string | null;
+  voidedAt?: Timestamp | FieldValue | null;
+  reversedAt?: Timestamp | FieldValue | null;
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+}
+
+export type ReferralEarningStatus = 'confirmed' | 'paid' | 'reversed';
+
+// Stored at referralEarnings/{transactionId}_t{tier}: a referrer's revenue
+// share of one confirmed transaction by a referee (tier 1) or by a
+// referee's referee (tier 2).
+export interface ReferralEarning {
+  referrerId: string;
+  tier: 1 | 2;
+  // The referrer's direct referee the earning came through.
+  viaUserId: string;
+  purchaserId: string;
+  transactionId: string;
+  cashbackAmount: number;
+  percent: number;
+  amount: number;
+  status: ReferralEarningStatus;
+  payoutId: string | null;
+  paidAt?: Timestamp | FieldValue | null;
+  reversedAt?: Timestamp | FieldValue | null;
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+}
+
+// Stored at settings/referrals. Unset fields use the defaults in
+// referral-program.ts.
+export interface ReferralSettings {
+  signupBonusAmount?: number | null;
+  bonusMinOrderAmount?: number | null;
+  bonusExpiryDays?: number | null;
+  revenueShareEnabled?: boolean;
+  tier1Percent?: number | null;
+  // 0 turns the second tier off.
+  tier2Percent?: number | null;
+  // How long after a referee signs up their purchases earn a share; null
+  // for their lifetime.
+  revenueShareDays?: number | null;
+  updatedBy?: string | null;
+  updatedAt?: Timestamp | FieldValue | null;
+}
+
+// Stored at accountSignals/{userId}. Raw IPs, device IDs and payout details
+// are never stored, only salted hashes or normalised keys.
+export interface AccountSignals {
+  userId: string;
+  normalizedEmail: string | null;
+  deviceKeys: string[];
+  signupIpHash: string | null;
+  signupAt: Timestamp | FieldValue | null;
+  payoutDetailKeys: string[];
+  updatedAt: Timestamp | FieldValue;
+}
+
+export type AccountLinkSignal = 'device' | 'email' | 'payout_detail' | 'signup_ip';
+
+export interface AccountLink {
+  userIds: [string, string];
+  signal: AccountLinkSignal;
+}
+
+export type AccountClusterStatus = 'open' | 'actioned' | 'dismissed' | 'merged';
+
+// Stored in accountClusters: accounts linked by shared signals, for review.
+export interface AccountCluster {
+  userIds: string[];
+  links: AccountLink[];
+  signals: AccountLinkSignal[];
+  hasReferralLink: boolean;
+  status: AccountClusterStatus;
+  mergedInto?: string | null;
+  reviewedBy?: string | null;
+  reviewedAt?: Timestamp | FieldValue | null;
+  reviewNotes?: string | null;
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+}
+
+export interface Store {
+  name: string;
+  affiliateLink: string;
+  cashbackRate: string;
+  cashbackRateValue: number;
+  cashbackType: CashbackType;
+  cashbackRates?: CashbackRateTier[] | null;
+  rateVersion?: number | null;
+  rateVersionId?: string | null;
+  updatedBy?: string | null;
+  isActive: boolean;
+  categories?: string[] | null; // Category slugs
+  advertiserStatusMap?: AdvertiserStatusMap | null;
+}
+
+export type CouponOfferType = 'code' | 'deal';
+export type CouponListingStatus = 'live' | 'expired' | 'inactive';
+
+// Listing fields are maintained by coupon-listings.ts for the coupon
+// listing's filters and sorts; admins never edit them.
+export interface Coupon {
+  storeId: string;
+  code: string | null;
+  expiryDate: Timestamp | null;
+  isActive: boolean;
+  offerType?: CouponOfferType;
+  listingStatus?: CouponListingStatus;
+  expiresAt?: Timestamp; // expiryDate, or NO_EXPIRY so open-ended coupons sort last
+  storeCategories?: string[];
+  storeCashbackRateValue?: number;
+}
+
+// Stored under stores/{storeId}/storeRateHistory/{versionId}
+export interface StoreRateVersion {
+  storeId: string;
+  version: number;
+  cashbackRate: string;
+  cashbackRateValue: number;
+  cashbackType: CashbackType;
+  cashbackRates: CashbackRateTier[];
+  effectiveFrom: Timestamp | FieldValue;
+  effectiveUntil: Timestamp | FieldValue | null;
+  changedBy: string | null;
+}
+
+export type CampaignEligibility = 'all' | 'new' | 'specific';
+
+export interface Campaign {
+  name: string;
+  description?: string | null;
+  storeId: string;
+  // Null boosts every purchase at the store.
+  productId?: string | null;
+  multiplier: number;
+  maxBonusAmount?: number | null;
+  startsAt: Timestamp;
+  endsAt: Timestamp;
+  eligibility: CampaignEligibility;
+  eligibleUserIds: string[];
+  isActive: boolean;
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+}
+
+export interface Click {
+  clickId: string;
+  userId: string | null;
+  storeId: string;
+  storeName?: string | null;
+  couponId?: string | null;
+  productId?: string | null;
+  productName?: string | null;
+  affiliateLink: string;
+  originalLink?: string | null;
+  timestamp: Timestamp | FieldValue;
+  userAgent?: string | null;
+  ipHash?: string | null;
+  referrer?: string | null;
+  clickedCashbackDisplay?: string | null;
+  clickedCashbackRateValue?: number | null;
+  clickedCashbackType?: CashbackType | null;
+  clickedRateVersionId?: string | null;
+  clickedRateVersion?: number | null;
+  conversionId?: string | null;
+  hasConversion?: boolean;
+}
+
+export type PostbackRejectionReason =
+  | 'unknown_network'
+  | 'ip_not_allowed'
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'stale_timestamp'
+  | 'missing_nonce'
+  | 'replayed_nonce'
+  | 'verification_error';
+
+// A postback that failed authentication, kept so admins can spot spoof attempts.
+export interface PostbackRejection {
+  network: string | null;
+  reason: PostbackRejectionReason;
+  ip: string | null;
+  userAgent: string | null;
+  method: string;
+  query: Record<string, unknown>;
+  body: Record<string, unknown> | null;
+  receivedAt: Timestamp | FieldValue;
+}
+
+// Set when an admin attaches an unmatched conversion to a click or user.
+export interface ConversionManualMatch {
+  type: 'click' | 'user';
+  matchedBy: string;
+  matchedAt: Timestamp | FieldValue;
+  reportedClickId: string;
+  note?: string | null;
+}
+
+export interface Conversion {
+  clickId: string;
+  originalClickFirebaseId?: string | null;
+  userId: string | null;
+  storeId: string | null;
+  storeName?: string | null;
+  orderId: string;
+  saleAmount: number;
+  currency?: string;
+  commissionAmount?: number | null;
+  status: ConversionStatus;
+  advertiserStatus?: string | null;
+  timestamp: Timestamp | FieldValue;
+  network?: string | null;
+  productCategory?: string | null;
+  platform?: 'app' | 'web' | null;
+  postbackData?: Record<string, unknown>;
+  processingError?: string | null;
+  transactionId?: string | null;
+  processedAt?: Timestamp | FieldValue | null;
+  manualMatch?: ConversionManualMatch | null;
+}
+
+export interface Transaction {
+  userId: string;
+  clickId?: string | null;
+  conversionId?: string | null;
+  storeId: string;
+  storeName?: string | null;
+  orderId?: string | null;
+  productDetails?: string | null;
+  transactionDate: Timestamp | FieldValue;
+  reportedDate?: Timestamp | FieldValue | null;
+  saleAmount: number;
+  cashbackRateApplied?: string | null;
+  cashbackRateVersionId?: string | null;
+  campaignId?: string | null;
+  campaignBonusAmount?: number | null;
+  initialCashbackAmount: number;
+  finalSaleAmount?: number | null;
+  finalCashbackAmount?: number | null;
+  currency?: string;
+  status: CashbackStatus;
+  confirmationDate?: Timestamp | FieldValue | null;
+  rejectionReason?: string | null;
+  paidDate?: Timestamp | FieldValue | null;
+  payoutId?: string | null;
+  adminNotes?: string | null;
+  notesToUser?: string | null;
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+}
+
+// Stored under transactions/{transactionId}/auditLog
+export interface TransactionAuditEntry {
+  fromStatus: CashbackStatus;
+  toStatus: CashbackStatus;
+  source: 'postback' | 'admin' | 'import';
+  advertiserStatus?: string | null;
+  conversionId?: string | null;
+  actorId: string | null;
+  createdAt: Timestamp | FieldValue;
+}
+
+export type PayoutMethod = 'paypal' | 'bank_transfer' | 'gift_card' | 'upi';
+export type PayoutStatus = 'pending' | 'approved' | 'processing' | 'paid' | 'rejected' | 'failed' | 'awaiting_payout';
+
+export type PayoutProviderId = 'mock' | 'voucher';
+
+export interface PayoutDetails {
+  method: PayoutMethod;
+  detail: string;
+}
+
+export interface PayoutRequest {
+  userId: string;
+  amount: number;
+  requestedAmount?: number;
+  status: PayoutStatus;
+  requestedAt: Timestamp | FieldValue;
+  processedAt?: Timestamp | FieldValue | null;
+  paymentMethod: PayoutMethod;
+  paymentDetails: PayoutDetails;
+  transactionIds: string[];
+  // Confirmed referral bonuses and revenue-share earnings paid out
+  // alongside the transactions.
+  referralBonusIds?: string[];
+  referralEarningIds?: string[];
+  adminNotes?: string | null;
+  failureReason?: string | null;
+  providerId?: PayoutProviderId | null;
+  providerReference?: string | null;
+  providerError?: string | null;
+  dispatchedAt?: Timestamp | FieldValue | null;
+  batchId?: string | null;
+  utr?: string | null;
+  giftCards?: PayoutGiftCard[];
+  giftCardRemainder?: number | null;
+  updatedAt?: Timestamp | FieldValue | null;
+}
+
+// Stored at settings/payouts
+export interface PayoutSettings {
+  minPayoutAmounts?: Partial<Record<PayoutMethod, number>>;
+  riskHoldScore?: number | null;
+  riskAutoApproveScore?: number | null;
+  updatedBy?: string | null;
+  updatedAt?: Timestamp | FieldValue | null;
+}
+
+export type PayoutRiskSignal =
+  | 'new_account'
+  | 'fast_conversion'
+  | 'referral_chain'
+  | 'shared_payout_details'
+  | 'conversion_rate';
+
+export type PayoutRiskDecision = 'auto_approve' | 'review' | 'hold';
+
+export interface PayoutRiskReason {
+  signal: PayoutRiskSignal;
+  points: number;
+  detail: string;
+}
+
+// Stored at payoutRiskAssessments/{payoutId}
+export interface PayoutRiskAssessment {
+  payoutId: string;
+  userId: string;
+  score: number;
+  decision: PayoutRiskDecision;
+  reasons: PayoutRiskReason[];
+  holdScore: number;
+  autoApproveScore: number | null;
+  relatedUserIds: string[];
+  overriddenBy?: string | null;
+  overriddenAt?: Timestamp | FieldValue | null;
+  assessedAt: Timestamp | FieldValue;
+}
+
+export interface PayoutGiftCard {
+  voucherId: string;
+  brand: GiftCardBrand;
+  denomination: number;
+}
+
+export type GiftCardBrand = 'amazon' | 'flipkart' | 'myntra';
+export type GiftCardVoucherStatus = 'available' | 'allocated' | 'void';
+
+export interface GiftCardVoucher {
+  brand: GiftCardBrand;
+  denomination: number;
+  encryptedCode: string;
+  codeLast4: string;
+  status: GiftCardVoucherStatus;
+  expiresAt?: Timestamp | null;
+  payoutId: string | null;
+  userId: string | null;
+  addedBy: string;
+  createdAt: Timestamp | FieldValue;
+  allocatedAt?: Timestamp | FieldValue | null;
+  revealedAt?: Timestamp | FieldValue | null;
+}
+
+export interface GiftCardStock {
+  brand: GiftCardBrand;
+  denomination: number;
+  available: number;
+  allocated: number;
+  lowStockThreshold: number;
+  updatedAt?: Timestamp | FieldValue | null;
+}
+
+export type PayoutBatchStatus = 'exported' | 'completed';
+
+export interface PayoutBatch {
+  method: PayoutMethod;
+  layoutId: string;
+  status: PayoutBatchStatus;
+  payoutIds: string[];
+  payoutCount: number;
+  totalAmount: number;
+  paidCount: number;
+  failedCount: number;
+  createdBy: string;
+  createdAt: Timestamp | FieldValue;
+  responseImportedAt?: Timestamp | FieldValue | null;
+  updatedAt?: Timestamp | FieldValue | null;
+}
+
+export type LedgerEntryType =
+  'credit_pending' |
+  'confirm' |
+  'reject' |
+  'reserve_payout' |
+  'release_payout' |
+  'settle_payout' |
+  'return_payout_remainder' |
+  'referral_pending' |
+  'referral_confirm' |
+  'referral_reverse' |
+  'referral_share' |
+  'referral_share_reverse' |
+  'opening_balance';
+
+// Immutable balance movement stored in ledgerEntries. A user's
+// pendingCashback, cashbackBalance and lifetimeCashback are the sums of the
+// corresponding deltas over all of their entries.
+export interface LedgerEntry {
+  userId: string;
+  type: LedgerEntryType;
+  transactionId: string | null;
+  payoutId: string | null;
+  referralBonusId?: string | null;
+  referralEarningId?: string | null;
+  pendingDelta: number;
+  balanceDelta: number;
+  lifetimeDelta: number;
+  description: string;
+  actorId: string | null;
+  createdAt: Timestamp | FieldValue;
+}
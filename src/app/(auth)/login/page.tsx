@@ -61,7 +61,11 @@ function LoginCore() {
         console.log("LOGIN CORE: User already logged in, redirecting...");
         const redirectUrl = typeof window !== 'undefined' ? sessionStorage.getItem('loginRedirectUrl') || '/dashboard' : '/dashboard';
         if (redirectUrl.startsWith('/')) {
-          router.push(redirectUrl);
+          if (redirectUrl.startsWith('/go/')) {
+            window.location.assign(redirectUrl); // Outbound click route; leaves the app
+          } else {
+            router.push(redirectUrl);
+          }
           if (typeof window !== 'undefined') {
             sessionStorage.removeItem('loginRedirectUrl');
             sessionStorage.removeItem('loginRedirectSource');
@@ -60,7 +60,11 @@ export default function SignupPage() {
         console.log("SIGNUP PAGE: User already logged in, redirecting...");
         const redirectUrl = sessionStorage.getItem('loginRedirectUrl') || '/dashboard';
         if (redirectUrl.startsWith('/')) {
-          router.push(redirectUrl);
+          if (redirectUrl.startsWith('/go/')) {
+            window.location.assign(redirectUrl); // Outbound click route; leaves the app
+          } else {
+            router.push(redirectUrl);
+          }
           sessionStorage.removeItem('loginRedirectUrl');
           sessionStorage.removeItem('loginRedirectSource');
         } else {
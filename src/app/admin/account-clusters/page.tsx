@@ -0,0 +1,362 @@
+// src/app/admin/account-clusters/page.tsx
+"use client";
+
+import * as React from 'react';
+import {
+  collection,
+  query,
+  orderBy,
+  startAfter,
+  limit,
+  getDocs,
+  where,
+  documentId,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db, firebaseInitializationError } from '@/lib/firebase/config';
+import type { AccountCluster, AccountClusterStatus, AccountLinkSignal, ReferralBonus, UserProfile } from '@/lib/types';
+import { adminResolveAccountCluster } from '@/lib/actions/duplicate-accounts';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Loader2, UsersRound } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import AdminGuard from '@/components/guards/admin-guard';
+import { format } from 'date-fns';
+import { formatCurrency, safeToDate } from '@/lib/utils';
+
+const ITEMS_PER_PAGE = 10;
+const ADMIN_ACCOUNT_CLUSTERS_LOG_PREFIX = "ADMIN_ACCOUNT_CLUSTERS_PAGE:";
+
+const SIGNAL_LABELS: Record<AccountLinkSignal, string> = {
+  device: 'Same device',
+  email: 'Same email (normalised)',
+  payout_detail: 'Same payout details',
+  signup_ip: 'Sign-up IP burst',
+};
+
+const STATUS_LABELS: Record<Exclude<AccountClusterStatus, 'merged'>, string> = {
+  open: 'Open',
+  actioned: 'Actioned',
+  dismissed: 'Dismissed',
+};
+
+type MemberProfile = Pick<UserProfile, 'displayName' | 'email' | 'referredBy' | 'isDisabled' | 'role' | 'createdAt'>;
+
+interface ClusterSelection {
+  voidReferralUserIds: string[];
+  disableUserIds: string[];
+  notes: string;
+}
+
+const emptySelection = (): ClusterSelection => ({ voidReferralUserIds: [], disableUserIds: [], notes: '' });
+
+function toggle(ids: string[], id: string, checked: boolean): string[] {
+  return checked ? [...ids, id] : ids.filter(existing => existing !== id);
+}
+
+function ClustersSkeleton() {
+  return (
+    <div className="space-y-4">
+      {Array.from({ length: 3 }).map((_, index) => (
+        <Skeleton key={index} className="h-48 w-full" />
+      ))}
+    </div>
+  );
+}
+
+export default function AdminAccountClustersPage() {
+  const [clusters, setClusters] = React.useState<AccountCluster[]>([]);
+  const [members, setMembers] = React.useState<Record<string, MemberProfile>>({});
+  const [bonuses, setBonuses] = React.useState<Record<string, ReferralBonus>>({});
+  const [pageLoading, setPageLoading] = React.useState(true);
+  const [pageError, setPageError] = React.useState<string | null>(null);
+  const [lastVisible, setLastVisible] = React.useState<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const [hasMore, setHasMore] = React.useState(true);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const [statusFilter, setStatusFilter] = React.useState<Exclude<AccountClusterStatus, 'merged'>>('open');
+  const [selections, setSelections] = React.useState<Record<string, ClusterSelection>>({});
+  const [resolvingId, setResolvingId] = React.useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Member profiles and their referral bonuses (keyed by referee), for every cluster shown.
+  const fetchMemberDetails = React.useCallback(async (userIds: string[]) => {
+    if (!db || userIds.length === 0) return;
+    const newMembers: Record<string, MemberProfile> = {};
+    const newBonuses: Record<string, ReferralBonus> = {};
+    try {
+      for (let i = 0; i < userIds.length; i += 30) {
+        const chunk = userIds.slice(i, i + 30);
+        const [userSnaps, bonusSnaps] = await Promise.all([
+          getDocs(query(collection(db, 'users'), where(documentId(), 'in', chunk))),
+          getDocs(query(collection(db, 'referralBonuses'), where(documentId(), 'in', chunk))),
+        ]);
+        userSnaps.forEach(docSnap => { newMembers[docSnap.id] = docSnap.data() as MemberProfile; });
+        bonusSnaps.forEach(docSnap => { newBonuses[docSnap.id] = { ...(docSnap.data() as Omit<ReferralBonus, 'id'>), id: docSnap.id }; });
+      }
+      setMembers(prev => ({ ...prev, ...newMembers }));
+      setBonuses(prev => ({ ...prev, ...newBonuses }));
+    } catch (memberFetchError) {
+      console.error(`${ADMIN_ACCOUNT_CLUSTERS_LOG_PREFIX} Error fetching cluster members:`, memberFetchError);
+      setPageError(prev => (prev ? prev + "; " : "") + "Error fetching details for some linked accounts.");
+    }
+  }, []);
+
+  const fetchClusters = React.useCallback(async (
+    loadMoreOperation = false,
+    docToStartAfter: QueryDocumentSnapshot<DocumentData> | null = null
+  ) => {
+    if (!db || firebaseInitializationError) {
+      setPageError(firebaseInitializationError || "Database not available.");
+      setPageLoading(false); setHasMore(false);
+      return;
+    }
+    if (loadMoreOperation) {
+      if (!docToStartAfter) return;
+      setLoadingMore(true);
+    } else {
+      setPageLoading(true); setPageError(null); setClusters([]); setLastVisible(null); setSelections({});
+    }
+
+    try {
+      const constraints = [where('status', '==', statusFilter), orderBy('updatedAt', 'desc')];
+      const snapshot = await getDocs(query(
+        collection(db, 'accountClusters'),
+        ...constraints,
+        ...(loadMoreOperation && docToStartAfter ? [startAfter(docToStartAfter)] : []),
+        limit(ITEMS_PER_PAGE),
+      ));
+      const fetched = snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as AccountCluster));
+      await fetchMemberDetails([...new Set(fetched.flatMap(cluster => cluster.userIds))]);
+
+      setClusters(prev => loadMoreOperation ? [...prev, ...fetched] : fetched);
+      setLastVisible(snapshot.docs[snapshot.docs.length - 1] || null);
+      setHasMore(snapshot.docs.length === ITEMS_PER_PAGE);
+    } catch (err) {
+      console.error(`${ADMIN_ACCOUNT_CLUSTERS_LOG_PREFIX} Error fetching clusters:`, err);
+      const errorMsg = err instanceof Error ? err.message : "Failed to fetch linked accounts";
+      setPageError(errorMsg);
+      toast({ variant: "destructive", title: "Fetch Error", description: errorMsg });
+      setHasMore(false);
+    } finally {
+      setPageLoading(false); setLoadingMore(false);
+    }
+  }, [statusFilter, fetchMemberDetails, toast]);
+
+  React.useEffect(() => {
+    fetchClusters(false, null);
+  }, [fetchClusters]);
+
+  const handleLoadMore = () => {
+    if (!loadingMore && hasMore && lastVisible) {
+      fetchClusters(true, lastVisible);
+    }
+  };
+
+  const updateSelection = (clusterId: string, update: (selection: ClusterSelection) => ClusterSelection) => {
+    setSelections(prev => ({ ...prev, [clusterId]: update(prev[clusterId] || emptySelection()) }));
+  };
+
+  const handleResolve = async (cluster: AccountCluster, resolution: 'actioned' | 'dismissed') => {
+    const selection = selections[cluster.id] || emptySelection();
+    setResolvingId(cluster.id);
+    try {
+      const result = await adminResolveAccountCluster({
+        clusterId: cluster.id,
+        resolution,
+        voidReferralUserIds: resolution === 'actioned' ? selection.voidReferralUserIds : [],
+        disableUserIds: resolution === 'actioned' ? selection.disableUserIds : [],
+        notes: selection.notes.trim() || null,
+      });
+      const skippedNote = result.skipped.length > 0 ? ` ${result.skipped.length} bonus(es) skipped: ${result.skipped.map(skip => skip.reason).join(' ')}` : '';
+      toast({
+        title: resolution === 'actioned' ? "Actions Applied" : "Cluster Dismissed",
+        description: resolution === 'actioned'
+          ? `Voided ${result.voided.length} referral bonus(es), disabled ${result.disabled.length} account(s).${skippedNote}`
+          : "The linked accounts were marked as legitimate.",
+      });
+      // The cluster no longer matches the current filter.
+      setClusters(prev => prev.filter(existing => existing.id !== cluster.id));
+    } catch (err) {
+      toast({ variant: "destructive", title: "Action Failed", description: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <AdminGuard>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <UsersRound className="w-7 h-7" /> Duplicate Accounts
+          </h1>
+          <div className="w-full sm:w-48">
+            <label htmlFor="statusFilter" className="sr-only">Filter by status</label>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as Exclude<AccountClusterStatus, 'merged'>)}>
+              <SelectTrigger id="statusFilter" className="h-10"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STATUS_LABELS) as Exclude<AccountClusterStatus, 'merged'>[]).map(status => (
+                  <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Accounts linked by a shared device, payout details, email address (ignoring Gmail dots and plus-aliases) or a burst of sign-ups from one IP.
+          Clusters reopen when new accounts or links are found.
+        </p>
+
+        {pageError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" /> <AlertTitle>Error</AlertTitle> <AlertDescription>{pageError}</AlertDescription>
+          </Alert>
+        )}
+
+        {pageLoading ? (
+          <ClustersSkeleton />
+        ) : clusters.length === 0 && !pageError ? (
+          <p className="text-center text-muted-foreground py-8">No {STATUS_LABELS[statusFilter].toLowerCase()} clusters.</p>
+        ) : (
+          clusters.map(cluster => {
+            const selection = selections[cluster.id] || emptySelection();
+            const isResolving = resolvingId === cluster.id;
+            const hasActions = selection.voidReferralUserIds.length > 0 || selection.disableUserIds.length > 0;
+            const updatedAt = safeToDate(cluster.updatedAt);
+            const reviewedAt = safeToDate(cluster.reviewedAt);
+            return (
+              <Card key={cluster.id}>
+                <CardHeader>
+                  <CardTitle className="text-lg flex flex-wrap items-center gap-2">
+                    {cluster.userIds.length} linked accounts
+                    {cluster.hasReferralLink && <Badge variant="destructive">Referral within cluster</Badge>}
+                  </CardTitle>
+                  <CardDescription className="flex flex-wrap items-center gap-2">
+                    {cluster.signals.map(signal => (
+                      <Badge key={signal} variant="outline">{SIGNAL_LABELS[signal] || signal}</Badge>
+                    ))}
+                    <span>Updated {updatedAt ? format(updatedAt, 'PPp') : 'N/A'}</span>
+                    {reviewedAt && <span>· Last reviewed {format(reviewedAt, 'PP')}{cluster.reviewNotes ? `: ${cluster.reviewNotes}` : ''}</span>}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <Table className="min-w-[900px]">
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Account</TableHead>
+                          <TableHead>Joined</TableHead>
+                          <TableHead>Linked By</TableHead>
+                          <TableHead>Referred By</TableHead>
+                          <TableHead>Referral Bonus</TableHead>
+                          <TableHead className="text-center">Void Bonus</TableHead>
+                          <TableHead className="text-center">Disable</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {cluster.userIds.map(userId => {
+                          const member = members[userId];
+                          const bonus = bonuses[userId];
+                          const joinedAt = safeToDate(member?.createdAt);
+                          const memberSignals = [...new Set(cluster.links
+                            .filter(link => link.userIds.includes(userId))
+                            .map(link => link.signal))];
+                          const referrer = member?.referredBy ? members[member.referredBy] : null;
+                          const referredWithinCluster = !!member?.referredBy && cluster.userIds.includes(member.referredBy);
+                          return (
+                            <TableRow key={userId}>
+                              <TableCell>
+                                <div className="font-medium truncate max-w-[200px]" title={member?.displayName || userId}>{member?.displayName || userId}</div>
+                                <div className="text-xs text-muted-foreground truncate max-w-[200px]">{member?.email || 'N/A'}</div>
+                                {member?.isDisabled && <Badge variant="secondary" className="mt-1 text-[10px]">Disabled</Badge>}
+                              </TableCell>
+                              <TableCell className="whitespace-nowrap text-xs">{joinedAt ? format(joinedAt, 'PPp') : 'N/A'}</TableCell>
+                              <TableCell className="text-xs">{memberSignals.map(signal => SIGNAL_LABELS[signal]).join(', ')}</TableCell>
+                              <TableCell className="text-xs">
+                                {member?.referredBy ? (
+                                  <span className={referredWithinCluster ? 'text-destructive font-medium' : undefined}>
+                                    {referrer?.displayName || member.referredBy}
+                                  </span>
+                                ) : '-'}
+                              </TableCell>
+                              <TableCell className="text-xs">
+                                {bonus ? `${formatCurrency(bonus.amount)} (${bonus.status})` : '-'}
+                              </TableCell>
+                              <TableCell className="text-center">
+                                <Checkbox
+                                  aria-label={`Void the referral bonus for ${member?.displayName || userId}`}
+                                  checked={selection.voidReferralUserIds.includes(userId)}
+                                  onCheckedChange={(checked) => updateSelection(cluster.id, current => ({
+                                    ...current,
+                                    voidReferralUserIds: toggle(current.voidReferralUserIds, userId, checked === true),
+                                  }))}
+                                  disabled={isResolving || !bonus || !(bonus.status === 'pending' || (bonus.status === 'confirmed' && !bonus.payoutId))}
+                                />
+                              </TableCell>
+                              <TableCell className="text-center">
+                                <Checkbox
+                                  aria-label={`Disable ${member?.displayName || userId}`}
+                                  checked={selection.disableUserIds.includes(userId)}
+                                  onCheckedChange={(checked) => updateSelection(cluster.id, current => ({
+                                    ...current,
+                                    disableUserIds: toggle(current.disableUserIds, userId, checked === true),
+                                  }))}
+                                  disabled={isResolving || !member || member.isDisabled || member.role === 'admin'}
+                                />
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  <Textarea
+                    className="mt-4"
+                    placeholder="Review notes (optional)"
+                    value={selection.notes}
+                    onChange={(event) => updateSelection(cluster.id, current => ({ ...current, notes: event.target.value }))}
+                    disabled={isResolving}
+                    rows={2}
+                  />
+                </CardContent>
+                <CardFooter className="flex flex-col sm:flex-row justify-end gap-2">
+                  <Button variant="outline" onClick={() => handleResolve(cluster, 'dismissed')} disabled={isResolving || hasActions}>
+                    Dismiss
+                  </Button>
+                  <Button variant="destructive" onClick={() => handleResolve(cluster, 'actioned')} disabled={isResolving || !hasActions}>
+                    {isResolving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Apply Actions
+                  </Button>
+                </CardFooter>
+              </Card>
+            );
+          })
+        )}
+
+        {hasMore && !pageLoading && clusters.length > 0 && (
+          <div className="mt-6 text-center">
+            <Button onClick={handleLoadMore} disabled={loadingMore}>
+              {loadingMore ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Load More
+            </Button>
+          </div>
+        )}
+      </div>
+    </AdminGuard>
+  );
+}
@@ -0,0 +1,500 @@
+// src/app/admin/campaigns/page.tsx
+"use client";
+
+import * as React from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import {
+  collection,
+  query,
+  orderBy,
+  where,
+  getDocs,
+  doc,
+  updateDoc,
+  deleteDoc,
+  addDoc,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db, firebaseInitializationError } from '@/lib/firebase/config';
+import type { Campaign, CampaignEligibility, CampaignFormValues } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Loader2, Edit, Trash2, PlusCircle, Zap } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import AdminGuard from '@/components/guards/admin-guard';
+import { safeToDate } from '@/lib/utils';
+import { CAMPAIGN_ELIGIBILITY_LABELS, formatBoost, isCampaignLive, isCampaignUpcoming } from '@/lib/campaigns';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+
+const CAMPAIGNS_LOG_PREFIX = "AdminCampaignsPage:";
+// Select items cannot have an empty value, so "whole store" gets a sentinel.
+const WHOLE_STORE = '__store__';
+
+const campaignSchema = z.object({
+  name: z.string().min(3, "Name must be at least 3 characters").max(80, "Name too long"),
+  description: z.string().max(200, "Description too long").optional().nullable(),
+  storeId: z.string().min(1, "Store is required"),
+  productId: z.string().optional().nullable(),
+  multiplier: z.number({ invalid_type_error: "Multiplier is required" }).gt(1, "Multiplier must be more than 1").max(10, "Multiplier cannot exceed 10"),
+  maxBonusAmount: z.number().min(0, "Cap must be non-negative").optional().nullable(),
+  startsAt: z.date({ required_error: "Start is required", invalid_type_error: "Start is required" }),
+  endsAt: z.date({ required_error: "End is required", invalid_type_error: "End is required" }),
+  eligibility: z.enum(['all', 'new', 'specific'] as [CampaignEligibility, ...CampaignEligibility[]]),
+  eligibleUserIds: z.string(),
+  isActive: z.boolean().default(true),
+}).refine(data => data.endsAt > data.startsAt, {
+  message: "End must be after the start.",
+  path: ['endsAt'],
+}).refine(data => data.eligibility !== 'specific' || parseUserIds(data.eligibleUserIds).length > 0, {
+  message: "Add at least one user ID.",
+  path: ['eligibleUserIds'],
+});
+
+const emptyForm = (): CampaignFormValues => ({
+  name: '', description: '', storeId: '', productId: null, multiplier: 2, maxBonusAmount: null,
+  startsAt: new Date(), endsAt: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
+  eligibility: 'all', eligibleUserIds: '', isActive: true,
+});
+
+function parseUserIds(value: string): string[] {
+  return Array.from(new Set(value.split(/[\s,]+/).map(id => id.trim()).filter(Boolean)));
+}
+
+function toDateTimeLocal(date: Date | null | undefined): string {
+  return date ? format(date, "yyyy-MM-dd'T'HH:mm") : '';
+}
+
+function campaignState(campaign: Campaign): { label: string; variant: 'default' | 'secondary' | 'outline' } {
+  if (isCampaignLive(campaign)) return { label: 'Live', variant: 'default' };
+  if (isCampaignUpcoming(campaign)) return { label: 'Scheduled', variant: 'secondary' };
+  return { label: campaign.isActive ? 'Ended' : 'Inactive', variant: 'outline' };
+}
+
+function CampaignsPageSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+        <Skeleton className="h-9 w-2/3 sm:w-1/3" />
+        <Skeleton className="h-10 w-full sm:w-40" />
+      </div>
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-7 w-1/4 mb-1" />
+          <Skeleton className="h-4 w-1/2" />
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {Array.from({ length: 5 }).map((_, index) => <Skeleton key={index} className="h-10 w-full" />)}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function AdminCampaignsPage() {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [stores, setStores] = useState<{ id: string; name: string }[]>([]);
+  const [products, setProducts] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingCampaignId, setDeletingCampaignId] = useState<string | null>(null);
+
+  const form = useForm<CampaignFormValues>({
+    resolver: zodResolver(campaignSchema),
+    defaultValues: emptyForm(),
+  });
+  const selectedStoreId = form.watch('storeId');
+  const eligibility = form.watch('eligibility');
+
+  const fetchCampaigns = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    if (firebaseInitializationError || !db) {
+      setError(firebaseInitializationError || "Database connection not available.");
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [campaignSnap, storeSnap] = await Promise.all([
+        getDocs(query(collection(db, 'campaigns'), orderBy('startsAt', 'desc'))),
+        getDocs(query(collection(db, 'stores'), orderBy('name'))),
+      ]);
+      setCampaigns(campaignSnap.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Campaign)));
+      setStores(storeSnap.docs.map(docSnap => ({ id: docSnap.id, name: docSnap.data().name || 'Unnamed Store' })));
+    } catch (err) {
+      console.error(`${CAMPAIGNS_LOG_PREFIX} Error fetching campaigns:`, err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch campaigns";
+      setError(errorMessage);
+      toast({ variant: "destructive", title: "Fetch Error", description: errorMessage });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  // Products of the chosen store, for product campaigns.
+  useEffect(() => {
+    let isMounted = true;
+    if (!db || !selectedStoreId) {
+      setProducts([]);
+      return;
+    }
+    getDocs(query(collection(db, 'products'), where('storeId', '==', selectedStoreId)))
+      .then(snapshot => {
+        if (isMounted) setProducts(snapshot.docs.map(docSnap => ({ id: docSnap.id, name: docSnap.data().name || docSnap.id })));
+      })
+      .catch(err => console.error(`${CAMPAIGNS_LOG_PREFIX} Error fetching products:`, err));
+    return () => { isMounted = false; };
+  }, [selectedStoreId]);
+
+  const storeName = (storeId: string) => stores.find(store => store.id === storeId)?.name || storeId;
+
+  const openAddDialog = () => {
+    setEditingCampaign(null);
+    form.reset(emptyForm());
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (campaign: Campaign) => {
+    setEditingCampaign(campaign);
+    form.reset({
+      name: campaign.name,
+      description: campaign.description || '',
+      storeId: campaign.storeId,
+      productId: campaign.productId || null,
+      multiplier: campaign.multiplier,
+      maxBonusAmount: campaign.maxBonusAmount ?? null,
+      startsAt: safeToDate(campaign.startsAt) || new Date(),
+      endsAt: safeToDate(campaign.endsAt) || new Date(),
+      eligibility: campaign.eligibility,
+      eligibleUserIds: (campaign.eligibleUserIds || []).join('\n'),
+      isActive: campaign.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = async (data: CampaignFormValues) => {
+    if (!db) {
+      setError("Database not available.");
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+
+    const submissionData = {
+      name: data.name.trim(),
+      description: data.description?.trim() || null,
+      storeId: data.storeId,
+      productId: data.productId || null,
+      multiplier: data.multiplier,
+      maxBonusAmount: data.maxBonusAmount ?? null,
+      startsAt: Timestamp.fromDate(data.startsAt),
+      endsAt: Timestamp.fromDate(data.endsAt),
+      eligibility: data.eligibility,
+      eligibleUserIds: data.eligibility === 'specific' ? parseUserIds(data.eligibleUserIds) : [],
+      isActive: data.isActive,
+    };
+
+    try {
+      if (editingCampaign) {
+        await updateDoc(doc(db, 'campaigns', editingCampaign.id), { ...submissionData, updatedAt: serverTimestamp() });
+        toast({ title: "Campaign Updated", description: `${submissionData.name} saved.` });
+      } else {
+        await addDoc(collection(db, 'campaigns'), { ...submissionData, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+        toast({ title: "Campaign Added", description: `${submissionData.name} has been scheduled.` });
+      }
+      setIsDialogOpen(false);
+      form.reset(emptyForm());
+      fetchCampaigns();
+    } catch (err) {
+      console.error(`${CAMPAIGNS_LOG_PREFIX} Error saving campaign:`, err);
+      const errorMsg = err instanceof Error ? err.message : "Could not save the campaign.";
+      setError(errorMsg);
+      toast({ variant: "destructive", title: "Save Failed", description: errorMsg });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteCampaign = async (campaignId: string) => {
+    if (!campaignId || !db) return;
+    setDeletingCampaignId(campaignId);
+    try {
+      await deleteDoc(doc(db, 'campaigns', campaignId));
+      toast({ title: "Campaign Deleted" });
+      fetchCampaigns();
+    } catch (err) {
+      console.error(`${CAMPAIGNS_LOG_PREFIX} Error deleting campaign:`, err);
+      const errorMsg = err instanceof Error ? err.message : "Could not delete the campaign.";
+      toast({ variant: "destructive", title: "Deletion Failed", description: errorMsg });
+    } finally {
+      setDeletingCampaignId(null);
+    }
+  };
+
+  if (loading && campaigns.length === 0 && !error) {
+    return <AdminGuard><CampaignsPageSkeleton /></AdminGuard>;
+  }
+
+  return (
+    <AdminGuard>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+          <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2"><Zap className="w-6 h-6 sm:w-7 sm:h-7" /> Cashback Campaigns</h1>
+          <Button onClick={openAddDialog} className="w-full sm:w-auto">
+            <PlusCircle className="mr-2 h-4 w-4" /> Add New Campaign
+          </Button>
+        </div>
+
+        {error && !loading && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Campaign List</CardTitle>
+            <CardDescription>
+              Scheduled cashback boosts. A purchase is boosted when its click falls inside the campaign window and the user is eligible; the strongest matching campaign applies.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {campaigns.length === 0 && !error && !loading ? (
+              <p className="text-center text-muted-foreground py-8">No campaigns yet. Add one to boost a store or product.</p>
+            ) : (
+              <div className="overflow-x-auto w-full">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="min-w-[180px]">Campaign</TableHead>
+                      <TableHead className="min-w-[140px]">Store / Product</TableHead>
+                      <TableHead>Boost</TableHead>
+                      <TableHead className="min-w-[200px]">Window</TableHead>
+                      <TableHead>Users</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {campaigns.map(campaign => {
+                      const startsAt = safeToDate(campaign.startsAt);
+                      const endsAt = safeToDate(campaign.endsAt);
+                      const state = campaignState(campaign);
+                      return (
+                        <TableRow key={campaign.id}>
+                          <TableCell className="font-medium">{campaign.name}</TableCell>
+                          <TableCell>
+                            {storeName(campaign.storeId)}
+                            {campaign.productId && <p className="text-xs text-muted-foreground font-mono">Product {campaign.productId}</p>}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {formatBoost(campaign)}
+                            {campaign.maxBonusAmount != null && <p className="text-xs text-muted-foreground">Max +₹{campaign.maxBonusAmount}</p>}
+                          </TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">
+                            {startsAt ? format(startsAt, 'dd MMM yyyy, HH:mm') : 'N/A'} – {endsAt ? format(endsAt, 'dd MMM yyyy, HH:mm') : 'N/A'}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {CAMPAIGN_ELIGIBILITY_LABELS[campaign.eligibility]}
+                            {campaign.eligibility === 'specific' && ` (${campaign.eligibleUserIds?.length || 0})`}
+                          </TableCell>
+                          <TableCell><Badge variant={state.variant}>{state.label}</Badge></TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end gap-2">
+                              <Button variant="outline" size="icon" onClick={() => openEditDialog(campaign)} aria-label="Edit Campaign">
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="destructive" size="icon" disabled={deletingCampaignId === campaign.id} aria-label="Delete Campaign">
+                                    {deletingCampaignId === campaign.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      This will permanently delete the campaign "{campaign.name}". Transactions already boosted keep their cashback; to stop a live campaign early, edit it and mark it inactive instead.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={() => handleDeleteCampaign(campaign.id)}>
+                                      Delete
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingCampaign ? 'Edit Campaign' : 'Add New Campaign'}</DialogTitle>
+              <DialogDescription>
+                {editingCampaign ? `Update the schedule or boost for "${editingCampaign.name}".` : 'Schedule a temporary cashback boost for a store or product.'}
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+              <div className="space-y-1">
+                <Label htmlFor="nameDialog">Name*</Label>
+                <Input id="nameDialog" {...form.register('name')} placeholder="e.g., Weekend Double Cashback" disabled={isSaving} />
+                {form.formState.errors.name && <p className="text-sm text-destructive">{form.formState.errors.name.message}</p>}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="descriptionDialog">Description</Label>
+                <Textarea id="descriptionDialog" rows={2} {...form.register('description')} disabled={isSaving} />
+                {form.formState.errors.description && <p className="text-sm text-destructive">{form.formState.errors.description.message}</p>}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="storeIdDialog">Store*</Label>
+                  <Controller name="storeId" control={form.control} render={({ field }) => (
+                    <Select value={field.value} onValueChange={value => { field.onChange(value); form.setValue('productId', null); }} disabled={isSaving}>
+                      <SelectTrigger id="storeIdDialog"><SelectValue placeholder="Select a store..." /></SelectTrigger>
+                      <SelectContent>
+                        {stores.map(store => <SelectItem key={store.id} value={store.id}>{store.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  )} />
+                  {form.formState.errors.storeId && <p className="text-sm text-destructive">{form.formState.errors.storeId.message}</p>}
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="productIdDialog">Applies To</Label>
+                  <Controller name="productId" control={form.control} render={({ field }) => (
+                    <Select value={field.value || WHOLE_STORE} onValueChange={value => field.onChange(value === WHOLE_STORE ? null : value)} disabled={isSaving || !selectedStoreId}>
+                      <SelectTrigger id="productIdDialog"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={WHOLE_STORE}>Whole store</SelectItem>
+                        {products.map(product => <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  )} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="multiplierDialog">Multiplier*</Label>
+                  <Input id="multiplierDialog" type="number" step="0.1" {...form.register('multiplier', { valueAsNumber: true })} disabled={isSaving} />
+                  {form.formState.errors.multiplier && <p className="text-sm text-destructive">{form.formState.errors.multiplier.message}</p>}
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="maxBonusAmountDialog">Max Extra Cashback (₹)</Label>
+                  <Input id="maxBonusAmountDialog" type="number" step="0.01" placeholder="No cap" {...form.register('maxBonusAmount', { setValueAs: v => v === null || v === '' ? null : parseFloat(v) })} disabled={isSaving} />
+                  {form.formState.errors.maxBonusAmount && <p className="text-sm text-destructive">{form.formState.errors.maxBonusAmount.message}</p>}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="startsAtDialog">Starts*</Label>
+                  <Controller name="startsAt" control={form.control} render={({ field }) => (
+                    <Input id="startsAtDialog" type="datetime-local" value={toDateTimeLocal(field.value)}
+                      onChange={e => field.onChange(e.target.value ? new Date(e.target.value) : null)} disabled={isSaving} />
+                  )} />
+                  {form.formState.errors.startsAt && <p className="text-sm text-destructive">{form.formState.errors.startsAt.message}</p>}
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="endsAtDialog">Ends*</Label>
+                  <Controller name="endsAt" control={form.control} render={({ field }) => (
+                    <Input id="endsAtDialog" type="datetime-local" value={toDateTimeLocal(field.value)}
+                      onChange={e => field.onChange(e.target.value ? new Date(e.target.value) : null)} disabled={isSaving} />
+                  )} />
+                  {form.formState.errors.endsAt && <p className="text-sm text-destructive">{form.formState.errors.endsAt.message}</p>}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="eligibilityDialog">Eligible Users</Label>
+                <Controller name="eligibility" control={form.control} render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange} disabled={isSaving}>
+                    <SelectTrigger id="eligibilityDialog"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CAMPAIGN_ELIGIBILITY_LABELS) as CampaignEligibility[]).map(value => (
+                        <SelectItem key={value} value={value}>{CAMPAIGN_ELIGIBILITY_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )} />
+                {eligibility === 'new' && <p className="text-xs text-muted-foreground">Users with no earlier order at this store.</p>}
+              </div>
+              {eligibility === 'specific' && (
+                <div className="space-y-1">
+                  <Label htmlFor="eligibleUserIdsDialog">User IDs*</Label>
+                  <Textarea id="eligibleUserIdsDialog" rows={3} {...form.register('eligibleUserIds')} placeholder="One user ID per line, or comma separated" className="font-mono text-xs" disabled={isSaving} />
+                  {form.formState.errors.eligibleUserIds && <p className="text-sm text-destructive">{form.formState.errors.eligibleUserIds.message}</p>}
+                </div>
+              )}
+              <div className="flex items-center space-x-2">
+                <Controller name="isActive" control={form.control} render={({ field }) => ( <Checkbox id="isActiveDialog" checked={field.value} onCheckedChange={field.onChange} disabled={isSaving} /> )}/>
+                <Label htmlFor="isActiveDialog" className="font-normal">Active</Label>
+              </div>
+              <DialogFooter className="flex-col sm:flex-row sm:justify-end gap-2 mt-2">
+                <DialogClose asChild>
+                  <Button type="button" variant="outline" disabled={isSaving} className="w-full sm:w-auto">Cancel</Button>
+                </DialogClose>
+                <Button type="submit" disabled={isSaving} className="w-full sm:w-auto">
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                  {editingCampaign ? 'Save Changes' : 'Add Campaign'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminGuard>
+  );
+}
@@ -0,0 +1,390 @@
+// src/app/admin/conversions/page.tsx
+"use client";
+
+import * as React from 'react';
+import {
+  collection,
+  query,
+  orderBy,
+  startAfter,
+  limit,
+  getDocs,
+  getDoc,
+  doc,
+  where,
+  Timestamp,
+  type QueryConstraint,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db, firebaseInitializationError } from '@/lib/firebase/config';
+import type { Click, Conversion, Store } from '@/lib/types';
+import { adminMatchConversion } from '@/lib/actions/conversions';
+import { DEFAULT_MATCH_WINDOW_DAYS, rankClickCandidates, type ClickCandidate } from '@/lib/conversion-matching';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Link2, Loader2, Search, UserCheck } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import AdminGuard from '@/components/guards/admin-guard';
+import { format } from 'date-fns';
+import { formatCurrency, safeToDate } from '@/lib/utils';
+
+const ITEMS_PER_PAGE = 20;
+const CANDIDATE_LIMIT = 100;
+const ADMIN_CONVERSIONS_LOG_PREFIX = "ADMIN_UNMATCHED_CONVERSIONS_PAGE:";
+const ANY_STORE = 'any';
+
+type ConversionWithId = Conversion & { id: string };
+
+export default function AdminUnmatchedConversionsPage() {
+  const [conversions, setConversions] = React.useState<ConversionWithId[]>([]);
+  const [pageLoading, setPageLoading] = React.useState(true);
+  const [pageError, setPageError] = React.useState<string | null>(null);
+  const [lastVisible, setLastVisible] = React.useState<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const [hasMore, setHasMore] = React.useState(true);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const [stores, setStores] = React.useState<Pick<Store, 'id' | 'name'>[]>([]);
+  const { toast } = useToast();
+
+  // Match dialog state
+  const [selected, setSelected] = React.useState<ConversionWithId | null>(null);
+  const [storeFilter, setStoreFilter] = React.useState<string>(ANY_STORE);
+  const [userInput, setUserInput] = React.useState('');
+  const [windowDays, setWindowDays] = React.useState(DEFAULT_MATCH_WINDOW_DAYS);
+  const [candidates, setCandidates] = React.useState<ClickCandidate[]>([]);
+  const [loadingCandidates, setLoadingCandidates] = React.useState(false);
+  const [matchNote, setMatchNote] = React.useState('');
+  const [matchingKey, setMatchingKey] = React.useState<string | null>(null);
+
+  const fetchConversions = React.useCallback(async (
+    loadMoreOperation = false,
+    docToStartAfter: QueryDocumentSnapshot<DocumentData> | null = null
+  ) => {
+    if (!db || firebaseInitializationError) {
+      setPageError(firebaseInitializationError || "Database not available.");
+      setPageLoading(false); setHasMore(false);
+      return;
+    }
+    if (loadMoreOperation) {
+      if (!docToStartAfter) return;
+      setLoadingMore(true);
+    } else {
+      setPageLoading(true); setPageError(null);
+    }
+
+    try {
+      const constraints: QueryConstraint[] = [
+        where('status', '==', 'unmatched_click'),
+        orderBy('timestamp', 'desc'),
+      ];
+      if (loadMoreOperation && docToStartAfter) constraints.push(startAfter(docToStartAfter));
+      constraints.push(limit(ITEMS_PER_PAGE));
+
+      const snapshot = await getDocs(query(collection(db, 'conversions'), ...constraints));
+      const fetched = snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as ConversionWithId));
+      setConversions(prev => loadMoreOperation ? [...prev, ...fetched] : fetched);
+      setLastVisible(snapshot.docs[snapshot.docs.length - 1] || null);
+      setHasMore(snapshot.docs.length === ITEMS_PER_PAGE);
+    } catch (err) {
+      console.error(`${ADMIN_CONVERSIONS_LOG_PREFIX} Error fetching unmatched conversions:`, err);
+      const errorMsg = err instanceof Error ? err.message : "Failed to fetch conversions";
+      setPageError(errorMsg);
+      toast({ variant: "destructive", title: "Fetch Error", description: errorMsg });
+      setHasMore(false);
+    } finally {
+      setPageLoading(false); setLoadingMore(false);
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    fetchConversions(false, null);
+  }, [fetchConversions]);
+
+  React.useEffect(() => {
+    if (!db || firebaseInitializationError) return;
+    getDocs(query(collection(db, 'stores'), orderBy('name', 'asc')))
+      .then(snapshot => setStores(snapshot.docs.map(docSnap => ({ id: docSnap.id, name: docSnap.data().name || docSnap.id }))))
+      .catch(err => console.error(`${ADMIN_CONVERSIONS_LOG_PREFIX} Error fetching stores:`, err));
+  }, []);
+
+  // Accepts a UID or an email address.
+  const resolveUserId = async (input: string): Promise<string | null> => {
+    const trimmed = input.trim();
+    if (!trimmed || !db) return null;
+    if (!trimmed.includes('@')) return trimmed;
+    const snapshot = await getDocs(query(collection(db, 'users'), where('email', '==', trimmed), limit(1)));
+    return snapshot.empty ? null : snapshot.docs[0].id;
+  };
+
+  const findCandidates = async () => {
+    if (!selected || !db) return;
+    const conversionTime = safeToDate(selected.timestamp);
+    if (!conversionTime) {
+      toast({ variant: "destructive", title: "No timestamp", description: "This conversion has no timestamp to search around." });
+      return;
+    }
+    setLoadingCandidates(true);
+    try {
+      const userId = await resolveUserId(userInput);
+      if (userInput.trim() && !userId) {
+        toast({ variant: "destructive", title: "User not found", description: `No user with email ${userInput.trim()}.` });
+        setCandidates([]);
+        return;
+      }
+      const storeId = storeFilter === ANY_STORE ? null : storeFilter;
+
+      // Clicks from the window before the sale, plus an hour after for clock skew.
+      const constraints: QueryConstraint[] = [];
+      if (storeId) constraints.push(where('storeId', '==', storeId));
+      if (userId) constraints.push(where('userId', '==', userId));
+      constraints.push(
+        where('timestamp', '>=', Timestamp.fromMillis(conversionTime.getTime() - windowDays * 24 * 60 * 60 * 1000)),
+        where('timestamp', '<=', Timestamp.fromMillis(conversionTime.getTime() + 60 * 60 * 1000)),
+        orderBy('timestamp', 'desc'),
+        limit(CANDIDATE_LIMIT),
+      );
+      const snapshot = await getDocs(query(collection(db, 'clicks'), ...constraints));
+      const clicks = snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Click));
+
+      const productIds = Array.from(new Set(clicks.map(click => click.productId).filter((id): id is string => !!id)));
+      const productSnaps = await Promise.all(productIds.map(id => getDoc(doc(db!, 'products', id))));
+      const productPrices = Object.fromEntries(productSnaps.map(snap => [snap.id, snap.exists() ? snap.data().price ?? null : null]));
+
+      setCandidates(rankClickCandidates(clicks, {
+        conversionTime,
+        saleAmount: selected.saleAmount,
+        storeId,
+        userId,
+        windowDays,
+      }, productPrices));
+    } catch (err) {
+      console.error(`${ADMIN_CONVERSIONS_LOG_PREFIX} Error fetching candidate clicks:`, err);
+      toast({ variant: "destructive", title: "Search Failed", description: err instanceof Error ? err.message : "Could not load candidate clicks." });
+    } finally {
+      setLoadingCandidates(false);
+    }
+  };
+
+  const openMatchDialog = (conversion: ConversionWithId) => {
+    setSelected(conversion);
+    setStoreFilter(ANY_STORE);
+    setUserInput('');
+    setWindowDays(DEFAULT_MATCH_WINDOW_DAYS);
+    setCandidates([]);
+    setMatchNote('');
+  };
+
+  const handleMatch = async (target: { clickDocId: string; userId?: string | null } | { userId: string; storeId: string }) => {
+    if (!selected) return;
+    const key = 'clickDocId' in target ? target.clickDocId : 'user';
+    setMatchingKey(key);
+    try {
+      const result = await adminMatchConversion({ conversionId: selected.id, ...target, note: matchNote || null });
+      if (result.status === 'error') {
+        toast({ variant: "destructive", title: "Matched, but not processed", description: result.error || "Transaction creation failed; the conversion is flagged for retry." });
+      } else {
+        toast({ title: "Conversion Matched", description: `Transaction ${result.transactionId} created for order ${selected.orderId}.` });
+      }
+      setConversions(prev => prev.filter(c => c.id !== selected.id));
+      setSelected(null);
+    } catch (err) {
+      toast({ variant: "destructive", title: "Match Failed", description: err instanceof Error ? err.message : "Could not match conversion." });
+    } finally {
+      setMatchingKey(null);
+    }
+  };
+
+  const handleMatchToUser = async () => {
+    const userId = await resolveUserId(userInput);
+    if (!userId || storeFilter === ANY_STORE) {
+      toast({ variant: "destructive", title: "User and store required", description: "Enter an existing user and pick a store to credit the order directly." });
+      return;
+    }
+    await handleMatch({ userId, storeId: storeFilter });
+  };
+
+  return (
+    <AdminGuard>
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Link2 className="w-7 h-7" /> Unmatched Conversions
+        </h1>
+
+        {pageError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" /> <AlertTitle>Error</AlertTitle> <AlertDescription>{pageError}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Awaiting Reconciliation</CardTitle>
+            <CardDescription>Postbacks whose sub_id did not match any click. Match them to a click or user to create the cashback transaction.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {pageLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 6 }).map((_, index) => <Skeleton key={index} className="h-10 w-full" />)}
+              </div>
+            ) : conversions.length === 0 && !pageError ? (
+              <p className="text-center text-muted-foreground py-8">No unmatched conversions. Everything is reconciled.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table className="min-w-[900px]">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Received</TableHead>
+                      <TableHead>Order ID</TableHead>
+                      <TableHead>Reported sub_id</TableHead>
+                      <TableHead>Network</TableHead>
+                      <TableHead className="text-right">Sale</TableHead>
+                      <TableHead>Advertiser Status</TableHead>
+                      <TableHead className="text-right">Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {conversions.map(conversion => {
+                      const receivedAt = safeToDate(conversion.timestamp);
+                      return (
+                        <TableRow key={conversion.id}>
+                          <TableCell className="whitespace-nowrap">{receivedAt ? format(receivedAt, 'PPp') : 'N/A'}</TableCell>
+                          <TableCell className="font-mono text-xs">{conversion.orderId}</TableCell>
+                          <TableCell className="font-mono text-xs truncate max-w-[160px]" title={conversion.clickId}>{conversion.clickId}</TableCell>
+                          <TableCell className="text-xs">{conversion.network || '-'}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(conversion.saleAmount)}</TableCell>
+                          <TableCell>{conversion.advertiserStatus ? <Badge variant="outline" className="text-[10px]">{conversion.advertiserStatus}</Badge> : '-'}</TableCell>
+                          <TableCell className="text-right">
+                            <Button size="sm" variant="outline" onClick={() => openMatchDialog(conversion)}>Match</Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {hasMore && !pageLoading && conversions.length > 0 && (
+              <div className="mt-6 text-center">
+                <Button onClick={() => lastVisible && fetchConversions(true, lastVisible)} disabled={loadingMore}>
+                  {loadingMore ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                  Load More
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!selected} onOpenChange={(open) => { if (!open && !matchingKey) setSelected(null); }}>
+          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Match Order {selected?.orderId}</DialogTitle>
+              <DialogDescription>
+                {selected && <>Sale of {formatCurrency(selected.saleAmount)} reported with sub_id <span className="font-mono">{selected.clickId}</span>. Narrow the search, then attach the conversion to a click or credit a user directly.</>}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="matchStore">Store</Label>
+                <Select value={storeFilter} onValueChange={setStoreFilter}>
+                  <SelectTrigger id="matchStore"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_STORE}>Any store</SelectItem>
+                    {stores.map(store => <SelectItem key={store.id} value={store.id}>{store.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="matchUser">User ID or email</Label>
+                <Input id="matchUser" value={userInput} onChange={(e) => setUserInput(e.target.value)} placeholder="Optional" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="matchWindow">Window (days before sale)</Label>
+                <Input id="matchWindow" type="number" min={1} max={90} value={windowDays} onChange={(e) => setWindowDays(Math.min(90, Math.max(1, Number(e.target.value) || 1)))} />
+              </div>
+              <Button onClick={findCandidates} disabled={loadingCandidates}>
+                {loadingCandidates ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+                Find Clicks
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="matchNote">Note (saved with the match)</Label>
+              <Input id="matchNote" value={matchNote} onChange={(e) => setMatchNote(e.target.value)} placeholder="e.g., Network support ticket #123" />
+            </div>
+
+            {candidates.length > 0 ? (
+              <div className="overflow-x-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Score</TableHead>
+                      <TableHead>Clicked</TableHead>
+                      <TableHead>Store / Item</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Why</TableHead>
+                      <TableHead className="text-right">Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {candidates.map(({ click, score, reasons }) => {
+                      const clickedAt = safeToDate(click.timestamp);
+                      const isGuest = !click.userId;
+                      return (
+                        <TableRow key={click.id}>
+                          <TableCell><Badge variant={score >= 60 ? 'default' : 'secondary'}>{score}</Badge></TableCell>
+                          <TableCell className="whitespace-nowrap text-xs">{clickedAt ? format(clickedAt, 'PPp') : 'N/A'}</TableCell>
+                          <TableCell className="text-xs">
+                            <div className="font-medium">{click.storeName || click.storeId}</div>
+                            <div className="text-muted-foreground truncate max-w-[180px]">{click.productName || (click.couponId ? `Coupon ${click.couponId}` : 'Store visit')}</div>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs truncate max-w-[120px]" title={click.userId || undefined}>{click.userId || <span className="italic">Guest</span>}</TableCell>
+                          <TableCell className="text-xs">{reasons.join(', ') || '-'}</TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              size="sm"
+                              disabled={!!matchingKey || (isGuest && !userInput.trim())}
+                              title={isGuest && !userInput.trim() ? 'Guest click: enter the user to credit first' : undefined}
+                              onClick={async () => handleMatch({ clickDocId: click.id, userId: isGuest ? await resolveUserId(userInput) : null })}
+                            >
+                              {matchingKey === click.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Attach'}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              !loadingCandidates && <p className="text-sm text-muted-foreground text-center py-4">No candidate clicks loaded yet.</p>
+            )}
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 border-t pt-4">
+              <p className="text-sm text-muted-foreground">No matching click? Credit the user and store selected above directly; the store&apos;s current rate is used.</p>
+              <Button variant="secondary" onClick={handleMatchToUser} disabled={!!matchingKey}>
+                {matchingKey === 'user' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserCheck className="mr-2 h-4 w-4" />}
+                Attach to User
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminGuard>
+  );
+}
@@ -30,6 +30,7 @@ import {
 import { db, firebaseInitializationError } from '@/lib/firebase/config';
 import type { Coupon, Store, CouponFormValues as AppCouponFormValues } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
+import { adminRebuildCouponListings } from '@/lib/actions/coupon-listings';
 import { Button, buttonVariants } from '@/components/ui/button';
 import {
   Table,
@@ -48,7 +49,7 @@ import { Label } from '@/components/ui/label';
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { AlertCircle, Loader2, Search, Edit, Trash2, PlusCircle, ExternalLink, CalendarIcon, Star, BadgePercent, MoreHorizontal } from 'lucide-react';
+import { AlertCircle, Loader2, Search, Edit, Trash2, PlusCircle, ExternalLink, CalendarIcon, Star, BadgePercent, MoreHorizontal, RefreshCw } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
@@ -148,6 +149,7 @@ function AdminCouponsPageContent() {
 
   const [updatingFieldId, setUpdatingFieldId] = React.useState<string | null>(null);
   const [loadingStoresForDialog, setLoadingStoresForDialog] = React.useState(false);
+  const [isRebuildingListings, setIsRebuildingListings] = React.useState(false);
   const [storeListForDialog, setStoreListForDialog] = React.useState<{ id: string; name: string }[]>([]);
 
   const form = useForm<AppCouponFormValues>({ 
@@ -335,6 +337,20 @@ function AdminCouponsPageContent() {
     setIsEditDialogOpen(true);
   };
   
+  // Coupons saved before the listing fields existed don't show on /coupons
+  // until their listing fields are written.
+  const handleRebuildListings = async () => {
+    setIsRebuildingListings(true);
+    try {
+      const result = await adminRebuildCouponListings();
+      toast({ title: "Listings Rebuilt", description: `Updated ${result.updated} of ${result.scanned} coupons.` });
+    } catch (err) {
+      toast({ variant: "destructive", title: "Rebuild Failed", description: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsRebuildingListings(false);
+    }
+  };
+
   const handleOpenDeleteDialog = (coupon: CouponWithStoreName) => {
     setCouponToDelete(coupon);
     setIsDeleteDialogOpen(true);
@@ -435,9 +451,15 @@ function AdminCouponsPageContent() {
       <div className="space-y-6">
         <div className="flex justify-between items-center">
             <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2"><BadgePercent className="w-6 h-6 sm:w-7 sm:h-7" /> Manage Coupons & Offers</h1>
-            <Button onClick={openAddDialog}>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleRebuildListings} disabled={isRebuildingListings} title="Recompute the filter and sort fields used by the public coupon listing">
+                {isRebuildingListings ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                Rebuild Listings
+              </Button>
+              <Button onClick={openAddDialog}>
     Add New Coupon/Offer
-            </Button>
+              </Button>
+            </div>
         </div>
 
         {pageError && !pageLoading && (
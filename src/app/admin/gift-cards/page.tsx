@@ -0,0 +1,341 @@
+// src/app/admin/gift-cards/page.tsx
+"use client";
+
+import * as React from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { collection, query, orderBy, getDocs, doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { db, firebaseInitializationError } from '@/lib/firebase/config';
+import type { GiftCardBrand, GiftCardStock } from '@/lib/types';
+import { adminAddGiftCardVouchers } from '@/lib/actions/gift-cards';
+import { DEFAULT_LOW_STOCK_THRESHOLD, GIFT_CARD_BRANDS, GIFT_CARD_BRAND_IDS, isLowStock } from '@/lib/gift-cards';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Gift, Loader2, PlusCircle, Save } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import AdminGuard from '@/components/guards/admin-guard';
+import { formatCurrency, safeToDate } from '@/lib/utils';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+
+const GIFT_CARDS_LOG_PREFIX = "AdminGiftCardsPage:";
+// Must not exceed MAX_CODES_PER_CALL in functions/src/gift-cards.ts.
+const CODES_PER_CALL = 200;
+
+const addVouchersSchema = z.object({
+  brand: z.enum(GIFT_CARD_BRAND_IDS as [GiftCardBrand, ...GiftCardBrand[]]),
+  denomination: z.number({ invalid_type_error: "Denomination is required" }).int("Use a whole amount").positive("Denomination must be positive"),
+  codes: z.string().refine(value => parseCodes(value).length > 0, "Add at least one code."),
+  expiresOn: z.string().optional(),
+}).refine(data => !data.expiresOn || new Date(`${data.expiresOn}T23:59:59`) > new Date(), {
+  message: "Expiry must be in the future.",
+  path: ['expiresOn'],
+});
+
+type AddVouchersFormValues = z.infer<typeof addVouchersSchema>;
+
+const emptyForm = (): AddVouchersFormValues => ({ brand: 'amazon', denomination: 500, codes: '', expiresOn: '' });
+
+// One code per line; duplicates in the paste are dropped.
+function parseCodes(value: string): string[] {
+  return Array.from(new Set(value.split(/\r?\n/).map(code => code.trim()).filter(Boolean)));
+}
+
+function GiftCardsPageSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+        <Skeleton className="h-9 w-2/3 sm:w-1/3" />
+        <Skeleton className="h-10 w-full sm:w-40" />
+      </div>
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-7 w-1/4 mb-1" />
+          <Skeleton className="h-4 w-1/2" />
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {Array.from({ length: 5 }).map((_, index) => <Skeleton key={index} className="h-10 w-full" />)}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function AdminGiftCardsPage() {
+  const [stock, setStock] = useState<GiftCardStock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const [thresholdEdits, setThresholdEdits] = useState<Record<string, string>>({});
+  const [savingThresholdId, setSavingThresholdId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const form = useForm<AddVouchersFormValues>({
+    resolver: zodResolver(addVouchersSchema),
+    defaultValues: emptyForm(),
+  });
+  const codeCount = parseCodes(form.watch('codes') || '').length;
+
+  const fetchStock = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    if (firebaseInitializationError || !db) {
+      setError(firebaseInitializationError || "Database connection not available.");
+      setLoading(false);
+      return;
+    }
+
+    try {
+      // One document per brand and denomination, so the whole collection is small.
+      const stockSnap = await getDocs(query(collection(db, 'giftCardStock'), orderBy('brand')));
+      setStock(stockSnap.docs
+        .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as GiftCardStock))
+        .sort((a, b) => a.brand.localeCompare(b.brand) || a.denomination - b.denomination));
+      setThresholdEdits({});
+    } catch (err) {
+      console.error(`${GIFT_CARDS_LOG_PREFIX} Error fetching stock:`, err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch gift card stock";
+      setError(errorMessage);
+      toast({ variant: "destructive", title: "Fetch Error", description: errorMessage });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchStock();
+  }, [fetchStock]);
+
+  const handleSaveThreshold = async (item: GiftCardStock) => {
+    if (!db) return;
+    const threshold = Number(thresholdEdits[item.id]);
+    if (!Number.isInteger(threshold) || threshold < 0) {
+      toast({ variant: "destructive", title: "Invalid Threshold", description: "Use a whole number of 0 or more." });
+      return;
+    }
+    setSavingThresholdId(item.id);
+    try {
+      await updateDoc(doc(db, 'giftCardStock', item.id), { lowStockThreshold: threshold, updatedAt: serverTimestamp() });
+      toast({ title: "Threshold Saved", description: `${GIFT_CARD_BRANDS[item.brand]} ${formatCurrency(item.denomination)}: alert at ${threshold} left.` });
+      fetchStock();
+    } catch (err) {
+      console.error(`${GIFT_CARDS_LOG_PREFIX} Error saving threshold:`, err);
+      toast({ variant: "destructive", title: "Save Failed", description: err instanceof Error ? err.message : "Could not save the threshold." });
+    } finally {
+      setSavingThresholdId(null);
+    }
+  };
+
+  const onSubmit = async (data: AddVouchersFormValues) => {
+    setIsAdding(true);
+    const codes = parseCodes(data.codes);
+    const expiresAtMillis = data.expiresOn ? new Date(`${data.expiresOn}T23:59:59`).getTime() : null;
+    let added = 0;
+    try {
+      for (let i = 0; i < codes.length; i += CODES_PER_CALL) {
+        const result = await adminAddGiftCardVouchers({
+          brand: data.brand,
+          denomination: data.denomination,
+          codes: codes.slice(i, i + CODES_PER_CALL),
+          expiresAtMillis,
+        });
+        added += result.added;
+      }
+      toast({ title: "Vouchers Added", description: `${added} ${GIFT_CARD_BRANDS[data.brand]} ${formatCurrency(data.denomination)} vouchers added.` });
+      setIsDialogOpen(false);
+      form.reset(emptyForm());
+    } catch (err) {
+      console.error(`${GIFT_CARDS_LOG_PREFIX} Error adding vouchers:`, err);
+      const errorMsg = err instanceof Error ? err.message : "Could not add the vouchers.";
+      toast({
+        variant: "destructive",
+        title: "Add Failed",
+        description: added > 0 ? `${added} vouchers were added before the error: ${errorMsg}` : errorMsg,
+      });
+    } finally {
+      setIsAdding(false);
+      fetchStock();
+    }
+  };
+
+  if (loading && stock.length === 0 && !error) {
+    return <AdminGuard><GiftCardsPageSkeleton /></AdminGuard>;
+  }
+
+  const lowStockCount = stock.filter(isLowStock).length;
+
+  return (
+    <AdminGuard>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+          <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2"><Gift className="w-6 h-6 sm:w-7 sm:h-7" /> Gift Card Vouchers</h1>
+          <Button onClick={() => { form.reset(emptyForm()); setIsDialogOpen(true); }} className="w-full sm:w-auto">
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Vouchers
+          </Button>
+        </div>
+
+        {error && !loading && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {lowStockCount > 0 && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Low Stock</AlertTitle>
+            <AlertDescription>
+              {lowStockCount} denomination{lowStockCount === 1 ? ' is' : 's are'} at or below the alert threshold. Gift card payouts wait in processing until stock can cover them.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Stock</CardTitle>
+            <CardDescription>
+              Approved gift card payouts are filled automatically from these vouchers, oldest first. Any amount the denominations cannot cover is returned to the user&apos;s balance.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {stock.length === 0 && !error && !loading ? (
+              <p className="text-center text-muted-foreground py-8">No vouchers yet. Add codes to start issuing gift card payouts.</p>
+            ) : (
+              <div className="overflow-x-auto w-full">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Brand</TableHead>
+                      <TableHead>Denomination</TableHead>
+                      <TableHead className="text-right">Available</TableHead>
+                      <TableHead className="text-right">Issued</TableHead>
+                      <TableHead className="min-w-[180px]">Alert Threshold</TableHead>
+                      <TableHead>Last Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stock.map(item => {
+                      const updatedAt = safeToDate(item.updatedAt);
+                      const thresholdValue = thresholdEdits[item.id] ?? String(item.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD);
+                      const thresholdChanged = thresholdEdits[item.id] !== undefined && thresholdEdits[item.id] !== String(item.lowStockThreshold);
+                      return (
+                        <TableRow key={item.id}>
+                          <TableCell className="font-medium">{GIFT_CARD_BRANDS[item.brand] || item.brand}</TableCell>
+                          <TableCell>{formatCurrency(item.denomination)}</TableCell>
+                          <TableCell className="text-right">
+                            {isLowStock(item) ? <Badge variant="destructive">{item.available}</Badge> : item.available}
+                          </TableCell>
+                          <TableCell className="text-right">{item.allocated}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                type="number"
+                                min={0}
+                                step={1}
+                                className="h-8 w-20"
+                                value={thresholdValue}
+                                onChange={e => setThresholdEdits(prev => ({ ...prev, [item.id]: e.target.value }))}
+                                disabled={savingThresholdId === item.id}
+                                aria-label="Low stock threshold"
+                              />
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => handleSaveThreshold(item)}
+                                disabled={!thresholdChanged || savingThresholdId === item.id}
+                                aria-label="Save Threshold"
+                              >
+                                {savingThresholdId === item.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                              </Button>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">{updatedAt ? format(updatedAt, 'dd MMM yyyy, HH:mm') : 'N/A'}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Add Vouchers</DialogTitle>
+              <DialogDescription>
+                Paste codes bought from the brand. Codes are encrypted when saved and only shown to the user they are issued to.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="brandDialog">Brand*</Label>
+                  <Controller name="brand" control={form.control} render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange} disabled={isAdding}>
+                      <SelectTrigger id="brandDialog"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {GIFT_CARD_BRAND_IDS.map(brand => <SelectItem key={brand} value={brand}>{GIFT_CARD_BRANDS[brand]}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  )} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="denominationDialog">Denomination (₹)*</Label>
+                  <Input id="denominationDialog" type="number" step="1" {...form.register('denomination', { valueAsNumber: true })} disabled={isAdding} />
+                  {form.formState.errors.denomination && <p className="text-sm text-destructive">{form.formState.errors.denomination.message}</p>}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="codesDialog">Codes*</Label>
+                <Textarea id="codesDialog" rows={8} {...form.register('codes')} placeholder="One code per line" className="font-mono text-xs" disabled={isAdding} />
+                <p className="text-xs text-muted-foreground">{codeCount} unique code{codeCount === 1 ? '' : 's'}.</p>
+                {form.formState.errors.codes && <p className="text-sm text-destructive">{form.formState.errors.codes.message}</p>}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="expiresOnDialog">Expires On</Label>
+                <Input id="expiresOnDialog" type="date" {...form.register('expiresOn')} disabled={isAdding} />
+                <p className="text-xs text-muted-foreground">Expired vouchers are never issued.</p>
+                {form.formState.errors.expiresOn && <p className="text-sm text-destructive">{form.formState.errors.expiresOn.message}</p>}
+              </div>
+              <DialogFooter className="flex-col sm:flex-row sm:justify-end gap-2 mt-2">
+                <DialogClose asChild>
+                  <Button type="button" variant="outline" disabled={isAdding} className="w-full sm:w-auto">Cancel</Button>
+                </DialogClose>
+                <Button type="submit" disabled={isAdding} className="w-full sm:w-auto">
+                  {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                  Add Vouchers
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminGuard>
+  );
+}
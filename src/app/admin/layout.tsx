@@ -30,7 +30,13 @@ import {
   BarChart3,
   Package,
   MousePointerClick,
-  FileText // For Tracking Overview
+  FileText, // For Tracking Overview
+  ShieldAlert,
+  Link2,
+  Zap,
+  Gift,
+  UsersRound,
+  Share2,
 } from 'lucide-react';
 // Button is used by SidebarToggleButton internally, and SidebarMenuButton is a specific component
 import { Separator } from '@/components/ui/separator';
@@ -46,9 +52,15 @@ const adminNavItems = [
   { href: '/admin/coupons', label: 'Manage Coupons', icon: BadgePercent },
   { href: '/admin/categories', label: 'Manage Categories', icon: Building2 },
   { href: '/admin/banners', label: 'Manage Banners', icon: TicketPercent },
+  { href: '/admin/campaigns', label: 'Cashback Campaigns', icon: Zap },
   { href: '/admin/transactions', label: 'Transactions', icon: ClipboardList },
   { href: '/admin/clicks', label: 'Tracking Overview', icon: FileText },
+  { href: '/admin/conversions', label: 'Unmatched Conversions', icon: Link2 },
+  { href: '/admin/postback-rejections', label: 'Rejected Postbacks', icon: ShieldAlert },
+  { href: '/admin/account-clusters', label: 'Duplicate Accounts', icon: UsersRound },
+  { href: '/admin/referrals', label: 'Referral Programme', icon: Share2 },
   { href: '/admin/payouts', label: 'Payout Requests', icon: CreditCard },
+  { href: '/admin/gift-cards', label: 'Gift Card Vouchers', icon: Gift },
   { href: '/admin/reports', label: 'Reports', icon: BarChart3 },
 ];
 
@@ -6,16 +6,18 @@ import * as React from 'react';
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { collection, query, getCountFromServer, where, Timestamp } from 'firebase/firestore';
+import { collection, query, getCountFromServer, getDocs, where, Timestamp } from 'firebase/firestore';
 import { db, firebaseInitializationError } from '@/lib/firebase/config';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { formatCurrency } from '@/lib/utils';
+import { GIFT_CARD_BRANDS, isLowStock } from '@/lib/gift-cards';
+import type { GiftCardStock } from '@/lib/types';
 import {
   Users, Store as StoreIcon, BadgePercent, Building2, TicketPercent, ClipboardList,
-  MousePointerClick, CreditCard, BarChart3, Package, AlertCircle, PlusCircle, Search, Send
+  MousePointerClick, CreditCard, BarChart3, Package, AlertCircle, PlusCircle, Search, Send, Gift
 } from 'lucide-react';
 import AdminGuard from '@/components/guards/admin-guard';
 
@@ -92,6 +94,7 @@ export default function AdminOverviewPage() {
   const [stats, setStats] = useState<Record<string, number | string>>({});
   const [loadingStats, setLoadingStats] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [lowGiftCardStock, setLowGiftCardStock] = useState<GiftCardStock[]>([]);
 
   const fetchCollectionCount = useCallback(async (collectionName: string, queryConstraints: any[] = []) => {
     if (!db || firebaseInitializationError) {
@@ -124,7 +127,7 @@ export default function AdminOverviewPage() {
         console.log("Admin Overview: Fetching stats...");
         const [
           userCount, activeStoreCount, activeProductCount, activeCouponCount, activeCategoryCount, activeBannerCount,
-          transactionCount, clickCount, pendingPayoutCount,
+          transactionCount, clickCount, pendingPayoutCount, giftCardStockSnap,
         ] = await Promise.all([
           fetchCollectionCount('users'),
           fetchCollectionCount('stores', [where('isActive', '==', true)]),
@@ -135,6 +138,7 @@ export default function AdminOverviewPage() {
           fetchCollectionCount('transactions'),
           fetchCollectionCount('clicks'),
           fetchCollectionCount('payoutRequests', [where('status', '==', 'pending')]),
+          getDocs(collection(db, 'giftCardStock')),
         ]);
 
         if (isMounted) {
@@ -142,6 +146,9 @@ export default function AdminOverviewPage() {
             userCount, activeStoreCount, activeProductCount, activeCouponCount, activeCategoryCount, activeBannerCount,
             transactionCount, clickCount, pendingPayoutCount,
           });
+          setLowGiftCardStock(giftCardStockSnap.docs
+            .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as GiftCardStock))
+            .filter(isLowStock));
           console.log("Admin Overview: Stats fetched:", { userCount, activeStoreCount });
         }
       } catch (err) {
@@ -182,6 +189,17 @@ export default function AdminOverviewPage() {
           </Alert>
         )}
 
+        {lowGiftCardStock.length > 0 && (
+          <Alert>
+            <Gift className="h-4 w-4" />
+            <AlertTitle>Gift Card Stock Running Low</AlertTitle>
+            <AlertDescription>
+              {lowGiftCardStock.map(item => `${GIFT_CARD_BRANDS[item.brand] || item.brand} ${formatCurrency(item.denomination)}: ${item.available} left`).join(' · ')}.{' '}
+              <Link href="/admin/gift-cards" className="underline">Add vouchers</Link>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
           <StatCard title="Total Users" value={stats.userCount ?? '...'} icon={Users} link="/admin/users" linkText="View all users" isLoading={loadingStats && stats.userCount === undefined} />
           <StatCard title="Active Stores" value={stats.activeStoreCount ?? '...'} icon={StoreIcon} link="/admin/stores" linkText="Manage stores" isLoading={loadingStats && stats.activeStoreCount === undefined} />
@@ -10,29 +10,24 @@ import {
   startAfter,
   limit,
   getDocs,
-  doc,
-  updateDoc,
-  serverTimestamp,
   where,
   type QueryConstraint,
   type DocumentData,
   type QueryDocumentSnapshot,
   Timestamp,
   type FieldValue,
-  runTransaction,
-  writeBatch,
   type CollectionReference,
   type Query as FirestoreQueryType,
-  getDoc,
-  increment,
-  type WithFieldValue,
   type Firestore,
-  type Transaction as FirestoreTransactionType,
   type QuerySnapshot, 
-  documentId 
+  documentId,
+  doc,
+  getDoc,
+  setDoc,
+  serverTimestamp,
 } from 'firebase/firestore';
 import { db, firebaseInitializationError, auth as firebaseAuthService } from '@/lib/firebase/config';
-import type { PayoutRequest, PayoutStatus, UserProfile, Transaction, CashbackStatus, PayoutMethod, Store } from '@/lib/types';
+import type { PayoutRequest, PayoutStatus, UserProfile, Transaction, CashbackStatus, PayoutMethod, Store, PayoutRiskAssessment } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import {
@@ -50,10 +45,15 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { AlertCircle, Loader2, Search, CheckCircle, XCircle, Hourglass, Send, Info, IndianRupee, ListFilter, User as UserIconLucide } from 'lucide-react';
+import { AlertCircle, Loader2, Search, CheckCircle, XCircle, Hourglass, Send, Info, IndianRupee, ListFilter, User as UserIconLucide, Save, RefreshCw, ShieldAlert } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { formatCurrency, safeToDate } from '@/lib/utils';
+import { adminAssessPayoutRisk, adminCreatePayoutBatch, adminUpdatePayoutStatus } from '@/lib/actions/ledger';
+import { BATCH_PAID_METHODS, MANUALLY_PAID_METHODS, PAYOUT_METHODS, PAYOUT_METHOD_INFO, fetchMinPayoutAmounts, payoutDisbursement } from '@/lib/payout-methods';
+import { PAYOUT_RISK_DECISION_INFO, PAYOUT_RISK_SIGNAL_LABELS, fetchRiskThresholds } from '@/lib/payout-risk';
+import PayoutBatchPanel from '@/components/payout-batch-panel';
+import { Checkbox } from '@/components/ui/checkbox';
 import AdminGuard from '@/components/guards/admin-guard';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from '@/components/ui/dialog';
 import { useDebounce } from '@/hooks/use-debounce';
@@ -105,7 +105,7 @@ function PayoutHistoryTableSkeleton() {
           <Table>
             <TableHeader>
               <TableRow>
-                {Array.from({ length: 9 }).map((_, index) => (
+                {Array.from({ length: 11 }).map((_, index) => (
                   <TableHead key={index} className="min-w-[120px]"><Skeleton className="h-5 w-full" /></TableHead>
                 ))}
               </TableRow>
@@ -113,7 +113,7 @@ function PayoutHistoryTableSkeleton() {
             <TableBody>
               {Array.from({ length: 8 }).map((_, rowIndex) => (
                 <TableRow key={rowIndex}>
-                  {Array.from({ length: 9 }).map((_, colIndex) => (
+                  {Array.from({ length: 11 }).map((_, colIndex) => (
                     <TableCell key={colIndex}><Skeleton className="h-5 w-full" /></TableCell>
                   ))}
                 </TableRow>
@@ -150,6 +150,16 @@ function AdminPayoutsPageContent() {
 
   const [userCache, setUserCache] = React.useState<Record<string, Pick<UserProfile, 'displayName' | 'email'>>>({});
 
+  const [minAmountInputs, setMinAmountInputs] = React.useState<Record<PayoutMethod, string> | null>(null);
+  const [isSavingMinimums, setIsSavingMinimums] = React.useState(false);
+  const [selectedPayoutIds, setSelectedPayoutIds] = React.useState<Set<string>>(new Set());
+
+  const [riskByPayoutId, setRiskByPayoutId] = React.useState<Record<string, PayoutRiskAssessment>>({});
+  const [riskThresholdInputs, setRiskThresholdInputs] = React.useState<{ hold: string; autoApprove: string } | null>(null);
+  const [isSavingRiskThresholds, setIsSavingRiskThresholds] = React.useState(false);
+  const [overrideRiskHold, setOverrideRiskHold] = React.useState(false);
+  const [isRescoring, setIsRescoring] = React.useState(false);
+
   const fetchUserDataForPayouts = React.useCallback(async (payoutRequests: PayoutRequest[]): Promise<PayoutRequestWithUserDetails[]> => {
     if (!db || firebaseInitializationError) {
       setPageError(prev => (prev ? prev + "; " : "") + (firebaseInitializationError || "DB error in fetchUserData."));
@@ -192,6 +202,23 @@ function AdminPayoutsPageContent() {
     }));
   }, [userCache]);
 
+  // Risk scores live in an admin-only collection keyed by payout ID.
+  const fetchRiskAssessments = React.useCallback(async (payoutIds: string[]) => {
+    if (!db || payoutIds.length === 0) return;
+    const assessments: Record<string, PayoutRiskAssessment> = {};
+    try {
+      for (let i = 0; i < payoutIds.length; i += 30) {
+        const riskSnaps = await getDocs(query(collection(db, 'payoutRiskAssessments'), where(documentId(), 'in', payoutIds.slice(i, i + 30))));
+        riskSnaps.forEach(docSnap => {
+          assessments[docSnap.id] = { ...(docSnap.data() as Omit<PayoutRiskAssessment, 'id'>), id: docSnap.id };
+        });
+      }
+      setRiskByPayoutId(prev => ({ ...prev, ...assessments }));
+    } catch (riskFetchError) {
+      console.error(`${ADMIN_PAYOUTS_LOG_PREFIX} Error fetching payout risk scores:`, riskFetchError);
+    }
+  }, []);
+
   const fetchPayouts = React.useCallback(async (
     loadMoreOperation = false,
     docToStartAfter: QueryDocumentSnapshot<DocumentData> | null = null
@@ -244,6 +271,7 @@ function AdminPayoutsPageContent() {
       });
       
       const payoutsWithUserData = await fetchUserDataForPayouts(rawPayoutsData);
+      await fetchRiskAssessments(rawPayoutsData.map(payout => payout.id));
 
       setPayouts(prev => loadMoreOperation ? [...prev, ...payoutsWithUserData] : payoutsWithUserData);
       setLastVisible(querySnapshot.docs[querySnapshot.docs.length - 1] || null);
@@ -259,7 +287,7 @@ function AdminPayoutsPageContent() {
       if (!loadMoreOperation) setPageLoading(false); else setLoadingMore(false);
       setIsSearching(false);
     }
-  }, [filterStatus, debouncedSearchTerm, toast, fetchUserDataForPayouts]);
+  }, [filterStatus, debouncedSearchTerm, toast, fetchUserDataForPayouts, fetchRiskAssessments]);
 
   React.useEffect(() => {
     let isMounted = true;
@@ -277,6 +305,101 @@ function AdminPayoutsPageContent() {
     return () => { isMounted = false; };
   }, [adminUser, adminAuthLoading, filterStatus, debouncedSearchTerm, fetchPayouts]);
 
+  React.useEffect(() => {
+    if (!adminUser) return;
+    fetchMinPayoutAmounts()
+      .then((amounts) => setMinAmountInputs(
+        Object.fromEntries(PAYOUT_METHODS.map((method) => [method, String(amounts[method])])) as Record<PayoutMethod, string>
+      ))
+      .catch((err) => console.error(`${ADMIN_PAYOUTS_LOG_PREFIX} Error fetching payout minimums:`, err));
+    fetchRiskThresholds()
+      .then((thresholds) => setRiskThresholdInputs({
+        hold: String(thresholds.holdScore),
+        autoApprove: thresholds.autoApproveScore === null ? '' : String(thresholds.autoApproveScore),
+      }))
+      .catch((err) => console.error(`${ADMIN_PAYOUTS_LOG_PREFIX} Error fetching risk thresholds:`, err));
+  }, [adminUser]);
+
+  const handleSaveMinimums = async () => {
+    if (!db || !adminUser || !minAmountInputs) return;
+    const minPayoutAmounts: Partial<Record<PayoutMethod, number>> = {};
+    for (const method of PAYOUT_METHODS) {
+      const amount = Number(minAmountInputs[method]);
+      if (!minAmountInputs[method].trim() || !Number.isFinite(amount) || amount < 0) {
+        toast({ variant: "destructive", title: "Invalid Minimum", description: `Enter a valid minimum for ${PAYOUT_METHOD_INFO[method].label}.` });
+        return;
+      }
+      minPayoutAmounts[method] = amount;
+    }
+    setIsSavingMinimums(true);
+    try {
+      await setDoc(doc(db, 'settings', 'payouts'), { minPayoutAmounts, updatedBy: adminUser.uid, updatedAt: serverTimestamp() }, { merge: true });
+      toast({ title: "Minimums Saved", description: "New payout requests use the updated minimum amounts." });
+    } catch (err) {
+      console.error(`${ADMIN_PAYOUTS_LOG_PREFIX} Error saving payout minimums:`, err);
+      toast({ variant: "destructive", title: "Save Failed", description: err instanceof Error ? err.message : "Could not save minimums." });
+    } finally {
+      setIsSavingMinimums(false);
+    }
+  };
+
+  const handleSaveRiskThresholds = async () => {
+    if (!db || !adminUser || !riskThresholdInputs) return;
+    const riskHoldScore = Number(riskThresholdInputs.hold);
+    // A blank auto-approve score turns auto-approval off.
+    const riskAutoApproveScore = riskThresholdInputs.autoApprove.trim() ? Number(riskThresholdInputs.autoApprove) : null;
+    if (!riskThresholdInputs.hold.trim() || !Number.isInteger(riskHoldScore) || riskHoldScore < 1 || riskHoldScore > 100) {
+      toast({ variant: "destructive", title: "Invalid Hold Score", description: "Enter a whole number from 1 to 100." });
+      return;
+    }
+    if (riskAutoApproveScore !== null && (!Number.isInteger(riskAutoApproveScore) || riskAutoApproveScore < 0 || riskAutoApproveScore >= riskHoldScore)) {
+      toast({ variant: "destructive", title: "Invalid Auto-Approve Score", description: "Enter a whole number below the hold score, or leave it blank to turn auto-approval off." });
+      return;
+    }
+    setIsSavingRiskThresholds(true);
+    try {
+      await setDoc(doc(db, 'settings', 'payouts'), { riskHoldScore, riskAutoApproveScore, updatedBy: adminUser.uid, updatedAt: serverTimestamp() }, { merge: true });
+      toast({ title: "Risk Thresholds Saved", description: "New payout requests are scored against the updated thresholds." });
+    } catch (err) {
+      console.error(`${ADMIN_PAYOUTS_LOG_PREFIX} Error saving risk thresholds:`, err);
+      toast({ variant: "destructive", title: "Save Failed", description: err instanceof Error ? err.message : "Could not save risk thresholds." });
+    } finally {
+      setIsSavingRiskThresholds(false);
+    }
+  };
+
+  const handleRescore = async (payoutId: string) => {
+    if (!db) return;
+    setIsRescoring(true);
+    try {
+      const { score, decision } = await adminAssessPayoutRisk(payoutId);
+      const riskSnap = await getDoc(doc(db, 'payoutRiskAssessments', payoutId));
+      if (riskSnap.exists()) {
+        setRiskByPayoutId(prev => ({ ...prev, [payoutId]: { ...(riskSnap.data() as Omit<PayoutRiskAssessment, 'id'>), id: payoutId } }));
+      }
+      toast({ title: "Payout Re-scored", description: `Risk score ${score} (${PAYOUT_RISK_DECISION_INFO[decision].label}).` });
+    } catch (err) {
+      console.error(`${ADMIN_PAYOUTS_LOG_PREFIX} Error re-scoring payout:`, err);
+      toast({ variant: "destructive", title: "Re-score Failed", description: err instanceof Error ? err.message : "Could not score this payout." });
+    } finally {
+      setIsRescoring(false);
+    }
+  };
+
+  // Only approved payouts of batch-paid methods can go into a batch file.
+  const isBatchSelectable = (payout: PayoutRequest) =>
+    payout.status === 'approved' && BATCH_PAID_METHODS.includes(payout.paymentMethod);
+  const selectablePayouts = payouts.filter(isBatchSelectable);
+  const selectedPayouts = selectablePayouts.filter(payout => selectedPayoutIds.has(payout.id));
+
+  const toggleSelected = (payoutId: string, checked: boolean) => {
+    setSelectedPayoutIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(payoutId); else next.delete(payoutId);
+      return next;
+    });
+  };
+
   const handleSearch = (e: React.FormEvent) => e.preventDefault();
 
   const handleLoadMore = () => {
@@ -285,11 +408,16 @@ function AdminPayoutsPageContent() {
     }
   };
 
+  const selectedRisk = selectedPayout ? riskByPayoutId[selectedPayout.id] : undefined;
+  // Approving a pending payout the risk engine held, or has not scored, needs an explicit override.
+  const selectedRiskHold = selectedPayout?.status === 'pending' && updateStatus === 'approved' && (!selectedRisk || selectedRisk.decision === 'hold');
+
   const openUpdateDialog = (payout: PayoutRequestWithUserDetails) => {
     setSelectedPayout(payout);
     setUpdateStatus(payout.status);
     setAdminNotes(payout.adminNotes || '');
     setFailureReason(payout.failureReason || '');
+    setOverrideRiskHold(false);
     setIsDialogOpen(true);
   };
 
@@ -298,14 +426,6 @@ function AdminPayoutsPageContent() {
       toast({ variant: "destructive", title: "Error", description: "No payout selected." });
       return;
     }
-    if (!db || firebaseInitializationError) {
-        toast({ variant: "destructive", title: "Database Error", description: firebaseInitializationError || "Database not available." });
-        setIsUpdating(false);
-        return;
-    }
-    const firestoreDb = db as Firestore;
-
-
     if ((updateStatus === 'rejected' || updateStatus === 'failed') && !failureReason.trim()) {
       toast({ variant: "destructive", title: "Input Required", description: "Reason is required for rejection or failure." });
       return;
@@ -315,122 +435,18 @@ function AdminPayoutsPageContent() {
     setPageError(null);
     console.log(`${ADMIN_PAYOUTS_LOG_PREFIX} Starting update for payout ID: ${selectedPayout.id}, New Status: ${updateStatus}`);
 
-    const payoutRef = doc(firestoreDb, 'payoutRequests', selectedPayout.id);
-    const userRef = doc(firestoreDb, 'users', selectedPayout.userId);
-    const originalStatus = selectedPayout.status;
     const newPayoutStatus = updateStatus;
-    const payoutAmount = selectedPayout.amount;
 
     try {
-      await runTransaction(firestoreDb, async (firestoreTransaction: FirestoreTransactionType) => {
-        console.log(`${ADMIN_PAYOUTS_LOG_PREFIX} Inside Firestore transaction for payout ${selectedPayout.id}.`);
-        const payoutDocSnap = await firestoreTransaction.get(payoutRef);
-        const userDocSnap = await firestoreTransaction.get(userRef);
-
-        if (!payoutDocSnap.exists()) throw new Error("Payout request document not found.");
-        if (!userDocSnap.exists()) throw new Error(`User profile ${selectedPayout.userId} not found.`);
-
-        const currentPayoutData = payoutDocSnap.data() as PayoutRequest;
-
-        const payoutUpdateData: WithFieldValue<Partial<PayoutRequest>> = {
-            status: newPayoutStatus,
-            adminNotes: adminNotes.trim() || null,
-            processedAt: serverTimestamp(),
-            failureReason: (newPayoutStatus === 'failed' || newPayoutStatus === 'rejected') ? failureReason.trim() || null : null,
-            updatedAt: serverTimestamp(),
-        };
-
-        let userProfileUpdates: WithFieldValue<Partial<UserProfile>> = { updatedAt: serverTimestamp() };
-        let transactionIdsToFinalize: string[] = currentPayoutData.transactionIds || [];
-
-        if (newPayoutStatus === 'paid' && originalStatus !== 'paid') {
-            console.log(`${ADMIN_PAYOUTS_LOG_PREFIX} Processing 'paid' status for payout ${selectedPayout.id}.`);
-            if (!transactionIdsToFinalize || transactionIdsToFinalize.length === 0) {
-                console.log(`${ADMIN_PAYOUTS_LOG_PREFIX} No pre-linked Tx IDs. Fetching 'confirmed' transactions for user ${selectedPayout.userId} to cover amount ${payoutAmount}.`);
-                
-                const transactionsQuery = query(
-                  collection(firestoreDb, 'transactions'),
-                  where('userId', '==', selectedPayout.userId),
-                  where('status', '==', 'confirmed' as CashbackStatus),
-                  where('payoutId', '==', null),
-                  orderBy('transactionDate', 'asc')
-                ) as FirestoreQueryType<Transaction>;
-                
-                // ✅ Run query OUTSIDE transaction
-                const confirmedUnpaidSnap = await getDocs(transactionsQuery);
-                
-                console.log(`${ADMIN_PAYOUTS_LOG_PREFIX} Found ${confirmedUnpaidSnap.size} confirmed, unpaid transactions.`);
-
-                let sumOfSelectedTxs = 0;
-                const collectedTxIds: string[] = [];
-                for (const txDocSnap of confirmedUnpaidSnap.docs) {
-                    const txData = txDocSnap.data();
-                    const txCashbackAmount = txData.finalCashbackAmount ?? txData.initialCashbackAmount ?? 0;
-                    if (txCashbackAmount > 0 && (sumOfSelectedTxs + txCashbackAmount) <= payoutAmount) {
-                        sumOfSelectedTxs += txCashbackAmount;
-                        collectedTxIds.push(txDocSnap.id);
-                    }
-                    if (sumOfSelectedTxs >= payoutAmount) break;
-                }
-                sumOfSelectedTxs = parseFloat(sumOfSelectedTxs.toFixed(2));
-                if (Math.abs(sumOfSelectedTxs - payoutAmount) > 0.01 && collectedTxIds.length === 0 && payoutAmount > 0) {
-                    throw new Error(`Could not gather enough confirmed transactions (found ${formatCurrency(sumOfSelectedTxs)}) to match payout amount of ${formatCurrency(payoutAmount)}.`);
-                }
-                payoutUpdateData.transactionIds = collectedTxIds; 
-                transactionIdsToFinalize = collectedTxIds;
-            }
-        } else if ((newPayoutStatus === 'rejected' || newPayoutStatus === 'failed')) {
-            if (originalStatus === 'pending' || originalStatus === 'approved' || originalStatus === 'processing' || originalStatus === 'awaiting_payout') {
-                 console.log(`${ADMIN_PAYOUTS_LOG_PREFIX} Payout ${selectedPayout.id} is ${newPayoutStatus}. Refunding amount ${currentPayoutData.amount} to user ${userDocSnap.id}.`);
-                 userProfileUpdates.cashbackBalance = increment(currentPayoutData.amount);
-            }
-            payoutUpdateData.transactionIds = []; 
-            transactionIdsToFinalize = [];
-        }
-
-        firestoreTransaction.update(payoutRef, payoutUpdateData);
-        if (Object.keys(userProfileUpdates).length > 1 || userProfileUpdates.updatedAt) { 
-             firestoreTransaction.update(userRef, userProfileUpdates);
-        }
+      // Transaction status changes and the balance adjustment are applied server-side in one transaction.
+      const { transactionIds: transactionIdsToFinalize } = await adminUpdatePayoutStatus({
+        payoutId: selectedPayout.id,
+        status: newPayoutStatus,
+        adminNotes: adminNotes.trim() || null,
+        failureReason: failureReason.trim() || null,
+        overrideRiskHold: selectedRiskHold ? overrideRiskHold : undefined,
       });
 
-      let transactionIdsToFinalize: string[] = [];
-      const postTransactionBatch = writeBatch(firestoreDb);
-      let batchHasUpdates = false;
-
-      if (newPayoutStatus === 'paid' && transactionIdsToFinalize.length > 0) {
-        console.log(`${ADMIN_PAYOUTS_LOG_PREFIX} Batch updating ${transactionIdsToFinalize.length} transactions to 'paid' status.`);
-        for (const txId of transactionIdsToFinalize) {
-          const txRef = doc(firestoreDb, 'transactions', txId);
-          postTransactionBatch.update(txRef, {
-            status: 'paid' as CashbackStatus,
-            payoutId: selectedPayout.id, 
-            paidDate: serverTimestamp(),
-            updatedAt: serverTimestamp()
-          });
-          batchHasUpdates = true;
-        }
-      } else if ((newPayoutStatus === 'rejected' || newPayoutStatus === 'failed') &&
-                 (originalStatus === 'awaiting_payout' || originalStatus === 'approved' || originalStatus === 'processing' || originalStatus === 'paid') &&
-                 (selectedPayout.transactionIds && selectedPayout.transactionIds.length > 0)) {
-         console.log(`${ADMIN_PAYOUTS_LOG_PREFIX} Batch reverting ${selectedPayout.transactionIds.length} transactions to 'confirmed' status.`);
-         for (const txId of selectedPayout.transactionIds) {
-            const txRef = doc(firestoreDb, 'transactions', txId);
-            postTransactionBatch.update(txRef, {
-                status: 'confirmed' as CashbackStatus,
-                payoutId: null,
-                paidDate: null, 
-                updatedAt: serverTimestamp()
-            });
-            batchHasUpdates = true;
-         }
-      }
-
-      if (batchHasUpdates) {
-        await postTransactionBatch.commit();
-        console.log(`${ADMIN_PAYOUTS_LOG_PREFIX} Post-transaction batch update of transactions complete.`);
-      }
-
       setPayouts(prev =>
           prev.map(p =>
           p.id === selectedPayout!.id
@@ -476,6 +492,86 @@ function AdminPayoutsPageContent() {
         </Alert>
       )}
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Payout Minimums</CardTitle>
+          <CardDescription>Minimum amount a user can request, per payout method.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            {PAYOUT_METHODS.map((method) => (
+              <div key={method}>
+                <Label htmlFor={`min-payout-${method}`} className="text-sm">{PAYOUT_METHOD_INFO[method].label} Minimum (₹)</Label>
+                <Input
+                  id={`min-payout-${method}`}
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={minAmountInputs?.[method] ?? ''}
+                  onChange={(e) => setMinAmountInputs((prev) => prev && { ...prev, [method]: e.target.value })}
+                  disabled={!minAmountInputs || isSavingMinimums}
+                />
+              </div>
+            ))}
+          </div>
+          <Button onClick={handleSaveMinimums} disabled={!minAmountInputs || isSavingMinimums}>
+            {isSavingMinimums ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Minimums
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><ShieldAlert className="w-5 h-5 text-primary" /> Risk Thresholds</CardTitle>
+          <CardDescription>
+            Each payout request is scored from 0 to 100 on account age, click-to-order time, referral chains, payout details shared with other users and conversion rate.
+            Payouts at or above the hold score need an override to approve; payouts at or below the auto-approve score are approved without review.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="risk-hold-score" className="text-sm">Hold Score</Label>
+              <Input
+                id="risk-hold-score"
+                type="number"
+                min="1"
+                max="100"
+                step="1"
+                value={riskThresholdInputs?.hold ?? ''}
+                onChange={(e) => setRiskThresholdInputs((prev) => prev && { ...prev, hold: e.target.value })}
+                disabled={!riskThresholdInputs || isSavingRiskThresholds}
+              />
+            </div>
+            <div>
+              <Label htmlFor="risk-auto-approve-score" className="text-sm">Auto-Approve Score</Label>
+              <Input
+                id="risk-auto-approve-score"
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                placeholder="Off"
+                value={riskThresholdInputs?.autoApprove ?? ''}
+                onChange={(e) => setRiskThresholdInputs((prev) => prev && { ...prev, autoApprove: e.target.value })}
+                disabled={!riskThresholdInputs || isSavingRiskThresholds}
+              />
+            </div>
+          </div>
+          <Button onClick={handleSaveRiskThresholds} disabled={!riskThresholdInputs || isSavingRiskThresholds}>
+            {isSavingRiskThresholds ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Thresholds
+          </Button>
+        </CardContent>
+      </Card>
+
+      <PayoutBatchPanel
+        selectedPayouts={selectedPayouts}
+        onClearSelection={() => setSelectedPayoutIds(new Set())}
+        onPayoutsChanged={() => fetchPayouts(false, null)}
+      />
+
        <Card>
         <CardHeader>
           <CardTitle>Filter & Search Payouts</CardTitle>
@@ -520,6 +616,11 @@ function AdminPayoutsPageContent() {
         <CardHeader>
           <CardTitle>Payout Requests List</CardTitle>
           <CardDescription>Review and process user payout requests.</CardDescription>
+          <ul className="text-xs text-muted-foreground list-disc pl-4 pt-1">
+            {PAYOUT_METHODS.map(method => (
+              <li key={method}><span className="font-medium">{PAYOUT_METHOD_INFO[method].label}:</span> {payoutDisbursement(method)}.</li>
+            ))}
+          </ul>
         </CardHeader>
         <CardContent>
            {pageLoading && payouts.length === 0 && !pageError ? (
@@ -530,11 +631,20 @@ function AdminPayoutsPageContent() {
              </p>
            ) : (
              <div className="overflow-x-auto w-full">
-                <Table className="min-w-[1200px]">
+                <Table className="min-w-[1300px]">
                 <TableHeader>
                     <TableRow>
+                    <TableHead className="w-[40px]">
+                      <Checkbox
+                        aria-label="Select all approved bank transfer and UPI payouts"
+                        checked={selectablePayouts.length > 0 && selectedPayouts.length === selectablePayouts.length}
+                        onCheckedChange={(checked) => setSelectedPayoutIds(checked === true ? new Set(selectablePayouts.map(payout => payout.id)) : new Set())}
+                        disabled={selectablePayouts.length === 0}
+                      />
+                    </TableHead>
                     <TableHead className="min-w-[180px]">User</TableHead>
                     <TableHead className="min-w-[100px] text-right">Amount</TableHead>
+                    <TableHead className="min-w-[110px]">Risk</TableHead>
                     <TableHead className="min-w-[120px]">Method</TableHead>
                     <TableHead className="min-w-[180px]">Details</TableHead>
                     <TableHead className="min-w-[180px]">Requested At</TableHead>
@@ -548,8 +658,18 @@ function AdminPayoutsPageContent() {
                     {payouts.map((payout) => {
                         const requestedAtDate = payout.requestedAt instanceof Timestamp ? payout.requestedAt.toDate() : null;
                         const processedAtDate = payout.processedAt instanceof Timestamp ? payout.processedAt.toDate() : null;
+                        const risk = riskByPayoutId[payout.id];
                         return (
                             <TableRow key={payout.id}>
+                                <TableCell>
+                                  {isBatchSelectable(payout) && (
+                                    <Checkbox
+                                      aria-label={`Select payout ${payout.id}`}
+                                      checked={selectedPayoutIds.has(payout.id)}
+                                      onCheckedChange={(checked) => toggleSelected(payout.id, checked === true)}
+                                    />
+                                  )}
+                                </TableCell>
                                 <TableCell>
                                   <TooltipProvider>
                                     <Tooltip>
@@ -567,7 +687,28 @@ function AdminPayoutsPageContent() {
                                   <div className="text-xs text-muted-foreground truncate max-w-[150px]" title={payout.userEmail || undefined}>{payout.userEmail || 'N/A'}</div>
                                 </TableCell>
                                 <TableCell className="font-semibold text-right">{formatCurrency(payout.amount)}</TableCell>
-                                <TableCell className="capitalize">{payout.paymentMethod.replace('_', ' ')}</TableCell>
+                                <TableCell>
+                                  {risk ? (
+                                    <TooltipProvider>
+                                      <Tooltip>
+                                        <TooltipTrigger asChild>
+                                          <Badge variant={PAYOUT_RISK_DECISION_INFO[risk.decision].variant} className="whitespace-nowrap cursor-default">
+                                            {risk.score} · {PAYOUT_RISK_DECISION_INFO[risk.decision].label}
+                                          </Badge>
+                                        </TooltipTrigger>
+                                        <TooltipContent>
+                                          {risk.reasons.length === 0 ? <p>No risk signals.</p> : risk.reasons.map((reason, index) => (
+                                            <p key={index} className="max-w-xs">+{reason.points} {PAYOUT_RISK_SIGNAL_LABELS[reason.signal]}: {reason.detail}</p>
+                                          ))}
+                                          {risk.overriddenBy && <p className="mt-1">Hold overridden by {risk.overriddenBy}.</p>}
+                                        </TooltipContent>
+                                      </Tooltip>
+                                    </TooltipProvider>
+                                  ) : (
+                                    <span className="text-xs text-muted-foreground">Not scored</span>
+                                  )}
+                                </TableCell>
+                                <TableCell>{PAYOUT_METHOD_INFO[payout.paymentMethod]?.label ?? payout.paymentMethod}</TableCell>
                                 <TableCell className="text-xs">
                                    <TooltipProvider>
                                     <Tooltip>
@@ -584,6 +725,24 @@ function AdminPayoutsPageContent() {
                                     {getStatusIcon(payout.status)}
                                     {payout.status.replace('_',' ')}
                                 </Badge>
+                                {payout.providerReference && (
+                                    <p className="text-[10px] text-muted-foreground font-mono mt-1 truncate max-w-[140px]" title={`${payout.providerId}: ${payout.providerReference}`}>
+                                        {payout.providerReference}
+                                    </p>
+                                )}
+                                {payout.batchId && (
+                                    <p className="text-[10px] text-muted-foreground font-mono mt-1 truncate max-w-[140px]" title={`Payout batch ${payout.batchId}`}>
+                                        Batch {payout.batchId}
+                                    </p>
+                                )}
+                                {payout.utr && (
+                                    <p className="text-[10px] text-muted-foreground font-mono mt-1 truncate max-w-[140px]" title={`UTR ${payout.utr}`}>
+                                        UTR {payout.utr}
+                                    </p>
+                                )}
+                                {payout.status === 'processing' && payout.providerError && (
+                                    <p className="text-[10px] text-destructive mt-1 truncate max-w-[140px]" title={payout.providerError}>Retrying: {payout.providerError}</p>
+                                )}
                                 </TableCell>
                                 <TableCell className="whitespace-nowrap">
                                     {processedAtDate ? format(processedAtDate, 'PPp') : '-'}
@@ -631,6 +790,70 @@ function AdminPayoutsPageContent() {
              </DialogDescription>
            </DialogHeader>
            <div className="grid gap-4 py-4">
+             {selectedPayout && (
+               <div className="rounded-md border p-3 space-y-1">
+                 <div className="flex items-center justify-between gap-2">
+                   <p className="text-sm font-medium flex items-center gap-2">
+                     <ShieldAlert className="h-4 w-4" /> Risk
+                     {selectedRisk ? (
+                       <Badge variant={PAYOUT_RISK_DECISION_INFO[selectedRisk.decision].variant}>
+                         {selectedRisk.score} · {PAYOUT_RISK_DECISION_INFO[selectedRisk.decision].label}
+                       </Badge>
+                     ) : <span className="text-xs text-muted-foreground font-normal">Not scored</span>}
+                   </p>
+                   {selectedPayout.status === 'pending' && (
+                     <Button size="sm" variant="ghost" onClick={() => handleRescore(selectedPayout.id)} disabled={isRescoring || isUpdating}>
+                       {isRescoring ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <RefreshCw className="mr-1 h-3 w-3" />}
+                       {selectedRisk ? 'Re-score' : 'Score'}
+                     </Button>
+                   )}
+                 </div>
+                 {selectedRisk?.reasons.map((reason, index) => (
+                   <p key={index} className="text-xs text-muted-foreground">
+                     <span className="font-medium text-foreground">+{reason.points} {PAYOUT_RISK_SIGNAL_LABELS[reason.signal]}:</span> {reason.detail}
+                   </p>
+                 ))}
+                 {selectedRisk && selectedRisk.relatedUserIds.length > 0 && (
+                   <p className="text-xs text-muted-foreground">Related accounts: <span className="font-mono">{selectedRisk.relatedUserIds.join(', ')}</span></p>
+                 )}
+                 {selectedRisk?.overriddenBy && (
+                   <p className="text-xs text-muted-foreground">Hold overridden by <span className="font-mono">{selectedRisk.overriddenBy}</span>.</p>
+                 )}
+               </div>
+             )}
+             {selectedRiskHold && (
+               <div className="flex items-start space-x-2">
+                 <Checkbox id="override-risk-hold" checked={overrideRiskHold} onCheckedChange={(checked) => setOverrideRiskHold(checked === true)} disabled={isUpdating} />
+                 <Label htmlFor="override-risk-hold" className="text-xs font-normal leading-snug">
+                   {selectedRisk
+                     ? 'This payout is on risk hold. I have reviewed the signals above and want to approve it anyway.'
+                     : 'This payout has not been risk scored. I want to approve it without scoring it first.'}
+                 </Label>
+               </div>
+             )}
+             {selectedPayout?.providerId && (
+               <p className="text-xs text-muted-foreground">
+                 Dispatched to the {selectedPayout.providerId} payout provider
+                 {selectedPayout.providerReference ? <> (reference <span className="font-mono">{selectedPayout.providerReference}</span>)</> : ' (awaiting its reference)'}.
+                 It will be marked paid or failed automatically.
+               </p>
+             )}
+             {selectedPayout?.batchId && (
+               <p className="text-xs text-muted-foreground">
+                 Exported in payout batch <span className="font-mono">{selectedPayout.batchId}</span>
+                 {selectedPayout.utr ? <> (UTR <span className="font-mono">{selectedPayout.utr}</span>)</> : null}.
+                 Importing the bank&apos;s response file marks it paid or failed; set the status here only for transfers missing from that file.
+               </p>
+             )}
+             {!selectedPayout?.providerId && updateStatus === 'approved' && selectedPayout?.status !== 'approved' && (
+               <p className="text-xs text-muted-foreground">
+                 {selectedPayout && BATCH_PAID_METHODS.includes(selectedPayout.paymentMethod)
+                   ? 'Approved bank transfer and UPI payouts are paid from a batch file (see Payout Batches above).'
+                   : selectedPayout && MANUALLY_PAID_METHODS.includes(selectedPayout.paymentMethod)
+                   ? 'Approved PayPal payouts are sent by hand: pay the user from the PayPal account, then set the status to Processing or Paid.'
+                   : 'Approving sends the payout to its payout provider, which moves it to processing and then paid or failed.'}
+               </p>
+             )}
              <div>
                 <Label htmlFor="payout-status-dialog" className="text-sm font-medium mb-1 block">Status</Label>
                 <Select value={updateStatus} onValueChange={(value) => setUpdateStatus(value as PayoutStatus)} disabled={isUpdating}>
@@ -639,8 +862,8 @@ function AdminPayoutsPageContent() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="approved">Approved (Ready for Bank Txn)</SelectItem>
-                    <SelectItem value="processing">Processing Payment (Bank Txn Initiated)</SelectItem>
+                    <SelectItem value="approved">Approved (Send to Payout Provider)</SelectItem>
+                    <SelectItem value="processing">Processing Payment (Paid Outside the App)</SelectItem>
                     <SelectItem value="paid">Paid (Payment Confirmed & Transactions Updated)</SelectItem>
                     <SelectItem value="rejected">Rejected (Refund Balance to User)</SelectItem>
                     <SelectItem value="failed">Failed (Investigate, May Refund Balance)</SelectItem>
@@ -680,7 +903,7 @@ function AdminPayoutsPageContent() {
                  Cancel
                </Button>
              </DialogClose>
-             <Button type="button" onClick={handleUpdatePayout} disabled={isUpdating || ((updateStatus === 'rejected' || updateStatus === 'failed') && !failureReason.trim())} className="w-full sm:w-auto">
+             <Button type="button" onClick={handleUpdatePayout} disabled={isUpdating || ((updateStatus === 'rejected' || updateStatus === 'failed') && !failureReason.trim()) || (selectedRiskHold && !overrideRiskHold)} className="w-full sm:w-auto">
                {isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
                Save Changes
              </Button>
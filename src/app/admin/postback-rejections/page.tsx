@@ -0,0 +1,209 @@
+// src/app/admin/postback-rejections/page.tsx
+"use client";
+
+import * as React from 'react';
+import {
+  collection,
+  query,
+  orderBy,
+  startAfter,
+  limit,
+  getDocs,
+  where,
+  type QueryConstraint,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db, firebaseInitializationError } from '@/lib/firebase/config';
+import type { PostbackRejection, PostbackRejectionReason } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Loader2, ShieldAlert } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import AdminGuard from '@/components/guards/admin-guard';
+import { format } from 'date-fns';
+import { safeToDate } from '@/lib/utils';
+
+const ITEMS_PER_PAGE = 20;
+const ADMIN_REJECTIONS_LOG_PREFIX = "ADMIN_POSTBACK_REJECTIONS_PAGE:";
+
+const REASON_LABELS: Record<PostbackRejectionReason, string> = {
+  unknown_network: 'Unknown network',
+  ip_not_allowed: 'IP not allowed',
+  missing_signature: 'Missing signature',
+  invalid_signature: 'Invalid signature',
+  stale_timestamp: 'Stale timestamp',
+  missing_nonce: 'Missing nonce',
+  replayed_nonce: 'Replayed nonce',
+  verification_error: 'Error on our side',
+};
+
+function RejectionsTableSkeleton() {
+  return (
+    <div className="space-y-2">
+      {Array.from({ length: 8 }).map((_, index) => (
+        <Skeleton key={index} className="h-10 w-full" />
+      ))}
+    </div>
+  );
+}
+
+export default function AdminPostbackRejectionsPage() {
+  const [rejections, setRejections] = React.useState<PostbackRejection[]>([]);
+  const [pageLoading, setPageLoading] = React.useState(true);
+  const [pageError, setPageError] = React.useState<string | null>(null);
+  const [lastVisible, setLastVisible] = React.useState<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const [hasMore, setHasMore] = React.useState(true);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const [reasonFilter, setReasonFilter] = React.useState<PostbackRejectionReason | 'all'>('all');
+  const { toast } = useToast();
+
+  const fetchRejections = React.useCallback(async (
+    loadMoreOperation = false,
+    docToStartAfter: QueryDocumentSnapshot<DocumentData> | null = null
+  ) => {
+    if (!db || firebaseInitializationError) {
+      setPageError(firebaseInitializationError || "Database not available.");
+      setPageLoading(false); setHasMore(false);
+      return;
+    }
+    if (loadMoreOperation) {
+      if (!docToStartAfter) return;
+      setLoadingMore(true);
+    } else {
+      setPageLoading(true); setPageError(null); setRejections([]); setLastVisible(null);
+    }
+
+    try {
+      const constraints: QueryConstraint[] = [];
+      if (reasonFilter !== 'all') constraints.push(where('reason', '==', reasonFilter));
+      constraints.push(orderBy('receivedAt', 'desc'));
+      if (loadMoreOperation && docToStartAfter) constraints.push(startAfter(docToStartAfter));
+      constraints.push(limit(ITEMS_PER_PAGE));
+
+      const snapshot = await getDocs(query(collection(db, 'postbackRejections'), ...constraints));
+      const fetched = snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as PostbackRejection));
+
+      setRejections(prev => loadMoreOperation ? [...prev, ...fetched] : fetched);
+      setLastVisible(snapshot.docs[snapshot.docs.length - 1] || null);
+      setHasMore(snapshot.docs.length === ITEMS_PER_PAGE);
+    } catch (err) {
+      console.error(`${ADMIN_REJECTIONS_LOG_PREFIX} Error fetching rejections:`, err);
+      const errorMsg = err instanceof Error ? err.message : "Failed to fetch rejected postbacks";
+      setPageError(errorMsg);
+      toast({ variant: "destructive", title: "Fetch Error", description: errorMsg });
+      setHasMore(false);
+    } finally {
+      setPageLoading(false); setLoadingMore(false);
+    }
+  }, [reasonFilter, toast]);
+
+  React.useEffect(() => {
+    fetchRejections(false, null);
+  }, [fetchRejections]);
+
+  const handleLoadMore = () => {
+    if (!loadingMore && hasMore && lastVisible) {
+      fetchRejections(true, lastVisible);
+    }
+  };
+
+  return (
+    <AdminGuard>
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <ShieldAlert className="w-7 h-7" /> Rejected Postbacks
+        </h1>
+
+        {pageError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" /> <AlertTitle>Error</AlertTitle> <AlertDescription>{pageError}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+            <div>
+              <CardTitle>Spoof Attempts & Misconfigured Networks</CardTitle>
+              <CardDescription>Postbacks that failed the network, IP, signature or replay checks. None of these created a conversion.</CardDescription>
+            </div>
+            <div className="w-full sm:w-56">
+              <label htmlFor="reasonFilter" className="sr-only">Filter by reason</label>
+              <Select value={reasonFilter} onValueChange={(value) => setReasonFilter(value as PostbackRejectionReason | 'all')}>
+                <SelectTrigger id="reasonFilter" className="h-10"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All reasons</SelectItem>
+                  {(Object.keys(REASON_LABELS) as PostbackRejectionReason[]).map(reason => (
+                    <SelectItem key={reason} value={reason}>{REASON_LABELS[reason]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {pageLoading ? (
+              <RejectionsTableSkeleton />
+            ) : rejections.length === 0 && !pageError ? (
+              <p className="text-center text-muted-foreground py-8">No rejected postbacks recorded.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table className="min-w-[900px]">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="min-w-[160px]">Received</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Network</TableHead>
+                      <TableHead>Caller IP</TableHead>
+                      <TableHead className="min-w-[300px]">Parameters</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rejections.map(rejection => {
+                      const receivedAt = safeToDate(rejection.receivedAt);
+                      const params = { ...(rejection.body || {}), ...(rejection.query || {}) };
+                      return (
+                        <TableRow key={rejection.id}>
+                          <TableCell className="whitespace-nowrap">{receivedAt ? format(receivedAt, 'PPp') : 'N/A'}</TableCell>
+                          <TableCell>
+                            <Badge variant={rejection.reason === 'unknown_network' || rejection.reason === 'missing_signature' ? 'outline' : 'destructive'} className="text-[10px]">
+                              {REASON_LABELS[rejection.reason] || rejection.reason}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{rejection.network || '-'}</TableCell>
+                          <TableCell className="font-mono text-xs" title={rejection.userAgent || undefined}>{rejection.ip || '-'}</TableCell>
+                          <TableCell>
+                            <pre className="text-[10px] whitespace-pre-wrap break-all max-w-[400px]">{JSON.stringify(params)}</pre>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {hasMore && !pageLoading && rejections.length > 0 && (
+              <div className="mt-6 text-center">
+                <Button onClick={handleLoadMore} disabled={loadingMore}>
+                  {loadingMore ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                  Load More
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminGuard>
+  );
+}
@@ -0,0 +1,213 @@
+// src/app/admin/referrals/page.tsx
+"use client";
+
+import * as React from 'react';
+import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { db, firebaseInitializationError } from '@/lib/firebase/config';
+import type { ReferralSettings } from '@/lib/types';
+import { fetchReferralRules } from '@/lib/referral-program';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Gift, Loader2, Save, TrendingUp } from 'lucide-react';
+import AdminGuard from '@/components/guards/admin-guard';
+
+const ADMIN_REFERRALS_LOG_PREFIX = "ADMIN_REFERRALS_PAGE:";
+
+interface ReferralRuleInputs {
+  signupBonusAmount: string;
+  bonusMinOrderAmount: string;
+  bonusExpiryDays: string;
+  revenueShareEnabled: boolean;
+  tier1Percent: string;
+  tier2Percent: string;
+  revenueShareDays: string; // Blank for lifetime
+}
+
+export default function AdminReferralsPage() {
+  const { user: adminUser } = useAuth();
+  const { toast } = useToast();
+  const [inputs, setInputs] = React.useState<ReferralRuleInputs | null>(null);
+  const [pageError, setPageError] = React.useState<string | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!adminUser) return;
+    if (firebaseInitializationError) {
+      setPageError(firebaseInitializationError);
+      return;
+    }
+    fetchReferralRules()
+      .then((rules) => setInputs({
+        signupBonusAmount: String(rules.signupBonusAmount),
+        bonusMinOrderAmount: String(rules.bonusMinOrderAmount),
+        bonusExpiryDays: String(rules.bonusExpiryDays),
+        revenueShareEnabled: rules.revenueShareEnabled,
+        tier1Percent: String(rules.tier1Percent),
+        tier2Percent: String(rules.tier2Percent),
+        revenueShareDays: rules.revenueShareDays === null ? '' : String(rules.revenueShareDays),
+      }))
+      .catch((err) => {
+        console.error(`${ADMIN_REFERRALS_LOG_PREFIX} Error fetching referral rules:`, err);
+        setPageError(err instanceof Error ? err.message : "Could not load the referral programme rules.");
+      });
+  }, [adminUser]);
+
+  const updateInput = <K extends keyof ReferralRuleInputs>(key: K, value: ReferralRuleInputs[K]) => {
+    setInputs((prev) => prev && { ...prev, [key]: value });
+  };
+
+  const handleSave = async () => {
+    if (!db || !adminUser || !inputs) return;
+    const signupBonusAmount = Number(inputs.signupBonusAmount);
+    const bonusMinOrderAmount = Number(inputs.bonusMinOrderAmount);
+    const bonusExpiryDays = Number(inputs.bonusExpiryDays);
+    const tier1Percent = Number(inputs.tier1Percent);
+    const tier2Percent = Number(inputs.tier2Percent);
+    // A blank period means referees earn their referrer a share for life.
+    const revenueShareDays = inputs.revenueShareDays.trim() ? Number(inputs.revenueShareDays) : null;
+
+    if (!inputs.signupBonusAmount.trim() || !Number.isFinite(signupBonusAmount) || signupBonusAmount < 0) {
+      toast({ variant: "destructive", title: "Invalid Bonus", description: "Enter a sign-up bonus of 0 or more. 0 turns the bonus off." });
+      return;
+    }
+    if (!inputs.bonusMinOrderAmount.trim() || !Number.isFinite(bonusMinOrderAmount) || bonusMinOrderAmount < 0) {
+      toast({ variant: "destructive", title: "Invalid Minimum Order", description: "Enter a minimum order amount of 0 or more." });
+      return;
+    }
+    if (!Number.isInteger(bonusExpiryDays) || bonusExpiryDays < 1) {
+      toast({ variant: "destructive", title: "Invalid Expiry", description: "Enter the bonus expiry as a whole number of days." });
+      return;
+    }
+    if (!inputs.tier1Percent.trim() || !Number.isFinite(tier1Percent) || tier1Percent < 0 || tier1Percent > 100
+      || !inputs.tier2Percent.trim() || !Number.isFinite(tier2Percent) || tier2Percent < 0 || tier2Percent > 100) {
+      toast({ variant: "destructive", title: "Invalid Percentage", description: "Revenue share percentages must be from 0 to 100." });
+      return;
+    }
+    if (revenueShareDays !== null && (!Number.isInteger(revenueShareDays) || revenueShareDays < 1)) {
+      toast({ variant: "destructive", title: "Invalid Period", description: "Enter the revenue-share period as a whole number of days, or leave it blank for lifetime." });
+      return;
+    }
+
+    const settings: ReferralSettings = {
+      signupBonusAmount,
+      bonusMinOrderAmount,
+      bonusExpiryDays,
+      revenueShareEnabled: inputs.revenueShareEnabled,
+      tier1Percent,
+      tier2Percent,
+      revenueShareDays,
+      updatedBy: adminUser.uid,
+      updatedAt: serverTimestamp(),
+    };
+    setIsSaving(true);
+    try {
+      await setDoc(doc(db, 'settings', 'referrals'), settings, { merge: true });
+      toast({ title: "Referral Rules Saved", description: "New sign-ups and newly confirmed purchases use the updated rules." });
+    } catch (err) {
+      console.error(`${ADMIN_REFERRALS_LOG_PREFIX} Error saving referral rules:`, err);
+      toast({ variant: "destructive", title: "Save Failed", description: err instanceof Error ? err.message : "Could not save referral rules." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AdminGuard>
+      <div className="space-y-6 max-w-3xl">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Gift className="w-7 h-7" /> Referral Programme
+        </h1>
+
+        {pageError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" /> <AlertTitle>Error</AlertTitle> <AlertDescription>{pageError}</AlertDescription>
+          </Alert>
+        )}
+
+        {!inputs && !pageError ? (
+          <Skeleton className="h-96 w-full" />
+        ) : inputs && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><Gift className="w-5 h-5 text-primary" /> Sign-up Bonus</CardTitle>
+                <CardDescription>
+                  Held as pending for the referrer until the referee&apos;s first confirmed purchase of at least the minimum order amount.
+                  Changes apply to new sign-ups; existing bonuses keep their terms.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="signup-bonus-amount" className="text-sm">Bonus Amount (₹)</Label>
+                    <Input id="signup-bonus-amount" type="number" min="0" step="1" value={inputs.signupBonusAmount}
+                      onChange={(e) => updateInput('signupBonusAmount', e.target.value)} disabled={isSaving} />
+                  </div>
+                  <div>
+                    <Label htmlFor="bonus-min-order" className="text-sm">Minimum Order (₹)</Label>
+                    <Input id="bonus-min-order" type="number" min="0" step="1" value={inputs.bonusMinOrderAmount}
+                      onChange={(e) => updateInput('bonusMinOrderAmount', e.target.value)} disabled={isSaving} />
+                  </div>
+                  <div>
+                    <Label htmlFor="bonus-expiry-days" className="text-sm">Expires After (days)</Label>
+                    <Input id="bonus-expiry-days" type="number" min="1" step="1" value={inputs.bonusExpiryDays}
+                      onChange={(e) => updateInput('bonusExpiryDays', e.target.value)} disabled={isSaving} />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><TrendingUp className="w-5 h-5 text-primary" /> Revenue Share</CardTitle>
+                <CardDescription>
+                  Referrers earn a percentage of the cashback their referees earn on each confirmed purchase, credited straight to their balance
+                  and taken back if the purchase is later rejected. A second tier pays referrers for the people their referees refer.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <Switch id="revenue-share-enabled" checked={inputs.revenueShareEnabled}
+                    onCheckedChange={(checked) => updateInput('revenueShareEnabled', checked)} disabled={isSaving} />
+                  <Label htmlFor="revenue-share-enabled">Revenue share enabled</Label>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="tier1-percent" className="text-sm">Referee Share (%)</Label>
+                    <Input id="tier1-percent" type="number" min="0" max="100" step="0.5" value={inputs.tier1Percent}
+                      onChange={(e) => updateInput('tier1Percent', e.target.value)} disabled={isSaving || !inputs.revenueShareEnabled} />
+                  </div>
+                  <div>
+                    <Label htmlFor="tier2-percent" className="text-sm">Second Tier (%)</Label>
+                    <Input id="tier2-percent" type="number" min="0" max="100" step="0.5" placeholder="0 = off" value={inputs.tier2Percent}
+                      onChange={(e) => updateInput('tier2Percent', e.target.value)} disabled={isSaving || !inputs.revenueShareEnabled} />
+                  </div>
+                  <div>
+                    <Label htmlFor="revenue-share-days" className="text-sm">Period (days)</Label>
+                    <Input id="revenue-share-days" type="number" min="1" step="1" placeholder="Lifetime" value={inputs.revenueShareDays}
+                      onChange={(e) => updateInput('revenueShareDays', e.target.value)} disabled={isSaving || !inputs.revenueShareEnabled} />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The period counts from the referee&apos;s sign-up; leave it blank to share for the referee&apos;s lifetime.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save Rules
+            </Button>
+          </>
+        )}
+      </div>
+    </AdminGuard>
+  );
+}
@@ -5,12 +5,14 @@
 import * as React from 'react';
 import { useState, useEffect } from 'react'; // Added useState here
 import { useRouter } from 'next/navigation';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm, Controller, FormProvider } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { collection, addDoc, serverTimestamp, query, orderBy, getDocs, where, getDoc, limit } from 'firebase/firestore';
+import { collection, doc, serverTimestamp, query, orderBy, getDocs, where } from 'firebase/firestore';
 import { db, firebaseInitializationError } from '@/lib/firebase/config';
-import type { StoreFormValues, Category, CashbackType } from '@/lib/types';
+import type { StoreFormValues, Category, CashbackType, AffiliateNetworkId } from '@/lib/types';
+import { STORE_SLUG_MAX_LENGTH, STORE_SLUG_PATTERN, StoreSlugTakenError, findAvailableStoreSlug, isStoreSlugAvailable, saveStoreWithSlug, slugifyStoreName } from '@/lib/store-slugs';
+import { AFFILIATE_NETWORK_IDS, AFFILIATE_NETWORKS, getAffiliateNetwork, validateStoreAffiliateLinks } from '@/lib/affiliate-networks';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -24,16 +26,21 @@ import { Skeleton } from '@/components/ui/skeleton';
 import AdminGuard from '@/components/guards/admin-guard';
 import { MultiSelect } from '@/components/ui/multi-select';
 import Image from 'next/image';
+import { useAuth } from '@/hooks/use-auth';
+import CashbackRateTiersField, { cashbackRateTierSchema, rateTiersFromFormValues } from '@/components/cashback-rate-tiers-field';
 
 const storeSchema = z.object({
   name: z.string().min(2, 'Store name must be at least 2 characters').max(100, 'Store name too long'),
-  slug: z.string().min(2, 'Slug must be at least 2 characters').max(50, 'Slug too long').regex(/^[a-z0-9-]+$/, 'Slug can only contain lowercase letters, numbers, and hyphens').optional().nullable(),
+  slug: z.string().min(2, 'Slug must be at least 2 characters').max(STORE_SLUG_MAX_LENGTH, 'Slug too long').regex(STORE_SLUG_PATTERN, 'Slug can only contain lowercase letters, numbers, and hyphens').optional().nullable().or(z.literal('')),
   logoUrl: z.string().url('Invalid URL format').optional().or(z.literal('')).nullable(),
   heroImageUrl: z.string().url('Invalid URL format').optional().or(z.literal('')).nullable(),
   affiliateLink: z.string().url('Invalid URL format'),
+  affiliateNetwork: z.enum(AFFILIATE_NETWORK_IDS as [AffiliateNetworkId, ...AffiliateNetworkId[]]).optional().nullable(),
+  deepLinkTemplate: z.string().max(2083, 'Template too long').optional().nullable(),
   cashbackRate: z.string().min(1, 'Cashback rate display is required').max(50, 'Rate display too long'),
   cashbackRateValue: z.number().min(0, 'Cashback value must be non-negative'),
   cashbackType: z.enum(['percentage', 'fixed'] as [CashbackType, ...CashbackType[]]), // Ensures at least one value
+  cashbackRates: z.array(cashbackRateTierSchema).optional(),
   description: z.string().min(10, 'Description must be at least 10 characters').max(500, 'Description too long'),
   detailedDescription: z.string().max(2000, "Detailed description too long").optional().nullable(),
   categories: z.array(z.string()).min(1, 'At least one category is required'),
@@ -50,6 +57,10 @@ const storeSchema = z.object({
   isActive: z.boolean().default(true),
   isTodaysDeal: z.boolean().default(false),
   dataAiHint: z.string().max(50, 'AI Hint too long').optional().nullable(),
+}).superRefine((data, ctx) => {
+  for (const issue of validateStoreAffiliateLinks(data)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [issue.field], message: issue.message });
+  }
 });
 
 function AddStorePageSkeleton() {
@@ -78,6 +89,7 @@ function AddStorePageSkeleton() {
 export default function AddStorePage() {
   const router = useRouter();
   const { toast } = useToast();
+  const { user: adminUser } = useAuth();
   const [isSaving, setIsSaving] = useState(false);
   const [categoriesList, setCategoriesList] = useState<{ value: string; label: string }[]>([]);
   const [loadingCategories, setLoadingCategories] = useState(true);
@@ -85,8 +97,8 @@ export default function AddStorePage() {
   const form = useForm<StoreFormValues>({
     resolver: zodResolver(storeSchema),
     defaultValues: {
-      name: '', slug: '', logoUrl: '', heroImageUrl: '', affiliateLink: '',
-      cashbackRate: '', cashbackRateValue: 0, cashbackType: 'percentage',
+      name: '', slug: '', logoUrl: '', heroImageUrl: '', affiliateLink: '', affiliateNetwork: 'generic', deepLinkTemplate: '',
+      cashbackRate: '', cashbackRateValue: 0, cashbackType: 'percentage', cashbackRates: [],
       description: '', detailedDescription: '', categories: [], rating: null, ratingCount: null,
       cashbackTrackingTime: null, cashbackConfirmationTime: null, cashbackOnAppOrders: false,
       detailedCashbackRatesLink: null, topOffersText: null, offerDetailsLink: null,
@@ -123,14 +135,12 @@ export default function AddStorePage() {
     return () => { isMounted = false; };
   }, [toast]);
 
-  const generateSlugFromName = (name: string) => {
-    return name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
-  };
+  const selectedNetwork = getAffiliateNetwork(form.watch('affiliateNetwork'));
 
   useEffect(() => {
       const subscription = form.watch((value, { name }) => {
         if (name === "name") {
-          const newSlug = generateSlugFromName(value.name || "");
+          const newSlug = slugifyStoreName(value.name || "");
           if (form.getValues("slug") !== newSlug) {
             form.setValue("slug", newSlug, { shouldValidate: true });
           }
@@ -146,25 +156,35 @@ export default function AddStorePage() {
     }
     setIsSaving(true);
 
-    const slugToSave = data.slug || generateSlugFromName(data.name);
-
-    // Check if slug already exists
-    if (slugToSave) {
-        const storeRefBySlug = query(collection(db, 'stores'), where('slug', '==', slugToSave), limit(1));
-        const slugSnapshot = await getDocs(storeRefBySlug);
-        if (!slugSnapshot.empty) {
-            form.setError('slug', { type: 'manual', message: 'This slug is already in use. Please choose a unique one or leave it blank to auto-generate.' });
-            setIsSaving(false);
-            return;
-        }
+    // A slug generated from the name gets a numbered suffix if it's taken; a custom one must be free.
+    const generatedSlug = slugifyStoreName(data.name);
+    const isCustomSlug = !!data.slug && data.slug !== generatedSlug;
+    let slugToSave: string;
+    try {
+      if (isCustomSlug) {
+        if (!(await isStoreSlugAvailable(db, data.slug!))) throw new StoreSlugTakenError(data.slug!);
+        slugToSave = data.slug!;
+      } else {
+        slugToSave = await findAvailableStoreSlug(db, generatedSlug || 'store');
+      }
+    } catch (err) {
+      if (err instanceof StoreSlugTakenError) {
+        form.setError('slug', { type: 'manual', message: 'This slug is already in use. Please choose a unique one or leave it blank to auto-generate.' });
+      } else {
+        toast({ variant: "destructive", title: "Save Failed", description: err instanceof Error ? err.message : "Could not check the slug." });
+      }
+      setIsSaving(false);
+      return;
     }
 
 
     const submissionData = {
       ...data,
-      slug: slugToSave || null, // Ensure slug is null if not provided or generated empty
       logoUrl: data.logoUrl || null,
       heroImageUrl: data.heroImageUrl || null,
+      affiliateNetwork: data.affiliateNetwork || 'generic',
+      deepLinkTemplate: getAffiliateNetwork(data.affiliateNetwork).linkStyle === 'redirect' ? data.deepLinkTemplate || null : null,
+      cashbackRates: rateTiersFromFormValues(data.cashbackRates),
       detailedDescription: data.detailedDescription || null,
       rating: data.rating ?? null,
       ratingCount: data.ratingCount ?? null,
@@ -176,16 +196,20 @@ export default function AddStorePage() {
       offerDetailsLink: data.offerDetailsLink || null,
       terms: data.terms || null,
       dataAiHint: data.dataAiHint || null,
+      updatedBy: adminUser?.uid || null,
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
     };
 
     try {
-      await addDoc(collection(db, 'stores'), submissionData);
-      toast({ title: "Store Added", description: `${data.name} has been successfully created.` });
+      await saveStoreWithSlug(db, doc(collection(db, 'stores')), submissionData, slugToSave);
+      toast({ title: "Store Added", description: `${data.name} has been successfully created at /stores/${slugToSave}.` });
       router.push('/admin/stores');
     } catch (err) {
       console.error("Error adding store:", err);
+      if (err instanceof StoreSlugTakenError) {
+        form.setError('slug', { type: 'manual', message: 'This slug was just taken by another store. Please choose another.' });
+      }
       toast({ variant: "destructive", title: "Save Failed", description: err instanceof Error ? err.message : "Could not add store." });
     } finally {
       setIsSaving(false);
@@ -213,6 +237,7 @@ export default function AddStorePage() {
             <CardDescription>Fill in the information for the new store.</CardDescription>
           </CardHeader>
           <CardContent>
+            <FormProvider {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
               {/* Column 1 */}
               <div className="space-y-4">
@@ -224,6 +249,7 @@ export default function AddStorePage() {
                 <div className="space-y-1">
                   <Label htmlFor="slug">Slug (auto-generated or custom)</Label>
                   <Input id="slug" {...form.register('slug')} placeholder="e.g., my-awesome-store" disabled={isSaving} />
+                  <p className="text-xs text-muted-foreground">The store page will be at /stores/{form.watch('slug') || 'your-slug'}.</p>
                   {form.formState.errors.slug && <p className="text-sm text-destructive">{form.formState.errors.slug.message}</p>}
                 </div>
                 <div className="space-y-1">
@@ -243,11 +269,30 @@ export default function AddStorePage() {
                   <Input id="dataAiHint" {...form.register('dataAiHint')} placeholder="e.g., fashion brand" disabled={isSaving} />
                    {form.formState.errors.dataAiHint && <p className="text-sm text-destructive">{form.formState.errors.dataAiHint.message}</p>}
                 </div>
+                <div className="space-y-1">
+                  <Label htmlFor="affiliateNetwork">Affiliate Network*</Label>
+                  <Controller name="affiliateNetwork" control={form.control} render={({ field }) => (
+                    <Select value={field.value || 'generic'} onValueChange={field.onChange} disabled={isSaving}>
+                      <SelectTrigger id="affiliateNetwork"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {AFFILIATE_NETWORK_IDS.map(id => <SelectItem key={id} value={id}>{AFFILIATE_NETWORKS[id].name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  )} />
+                  <p className="text-xs text-muted-foreground">{selectedNetwork.helpText}</p>
+                </div>
                 <div className="space-y-1">
                   <Label htmlFor="affiliateLink">Affiliate Link* (use {"{CLICK_ID}"} for click ID)</Label>
-                  <Input id="affiliateLink" {...form.register('affiliateLink')} placeholder="https://...&subid={CLICK_ID}" disabled={isSaving} />
+                  <Input id="affiliateLink" {...form.register('affiliateLink')} placeholder={`https://...&${selectedNetwork.subIdParams[0]}={CLICK_ID}`} disabled={isSaving} />
                   {form.formState.errors.affiliateLink && <p className="text-sm text-destructive">{form.formState.errors.affiliateLink.message}</p>}
                 </div>
+                {selectedNetwork.linkStyle === 'redirect' && (
+                  <div className="space-y-1">
+                    <Label htmlFor="deepLinkTemplate">Deep-Link Template (use {"{URL}"} and {"{CLICK_ID}"})</Label>
+                    <Input id="deepLinkTemplate" {...form.register('deepLinkTemplate')} placeholder={selectedNetwork.deepLinkExample || ''} disabled={isSaving} />
+                    {form.formState.errors.deepLinkTemplate && <p className="text-sm text-destructive">{form.formState.errors.deepLinkTemplate.message}</p>}
+                  </div>
+                )}
                 <div className="space-y-1">
                   <Label htmlFor="cashbackRate">Cashback Rate Display*</Label>
                   <Input id="cashbackRate" {...form.register('cashbackRate')} placeholder="e.g., Up to 5% or Flat ₹100" disabled={isSaving} />
@@ -270,6 +315,7 @@ export default function AddStorePage() {
                          {form.formState.errors.cashbackType && <p className="text-sm text-destructive">{form.formState.errors.cashbackType.message}</p>}
                     </div>
                 </div>
+                <CashbackRateTiersField disabled={isSaving} />
                 <div className="space-y-1">
                   <Label htmlFor="description">Short Description* (for cards)</Label>
                   <Textarea id="description" {...form.register('description')} rows={2} disabled={isSaving} />
@@ -320,7 +366,7 @@ export default function AddStorePage() {
                     <Label htmlFor="cashbackOnAppOrders" className="font-normal">Cashback on App Orders?</Label>
                 </div>
                 <div className="space-y-1">
-                  <Label htmlFor="detailedCashbackRatesLink">Detailed Cashback Rates Link</Label>
+                  <Label htmlFor="detailedCashbackRatesLink">Detailed Cashback Rates Link (used only without rate tiers)</Label>
                   <Input id="detailedCashbackRatesLink" type="url" {...form.register('detailedCashbackRatesLink')} placeholder="https://..." disabled={isSaving} />
                    {form.formState.errors.detailedCashbackRatesLink && <p className="text-sm text-destructive">{form.formState.errors.detailedCashbackRatesLink.message}</p>}
                 </div>
@@ -364,6 +410,7 @@ export default function AddStorePage() {
                 </Button>
               </div>
             </form>
+            </FormProvider>
           </CardContent>
         </Card>
       </div>
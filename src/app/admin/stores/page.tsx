@@ -5,7 +5,7 @@ import * as React from 'react';
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm, Controller, FormProvider } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import {
@@ -17,7 +17,6 @@ import {
   getDocs,
   doc,
   updateDoc,
-  deleteDoc,
   serverTimestamp,
   where,
   QueryConstraint,
@@ -26,7 +25,9 @@ import {
   addDoc
 } from 'firebase/firestore';
 import { db, firebaseInitializationError } from '@/lib/firebase/config';
-import type { Store, CashbackType, Category, StoreFormValues as StoreFormType } from '@/lib/types';
+import type { Store, CashbackType, Category, AffiliateNetworkId } from '@/lib/types';
+import { STORE_SLUG_MAX_LENGTH, STORE_SLUG_PATTERN, StoreSlugTakenError, deleteStoreAndSlugs, findAvailableStoreSlug, isStoreSlugAvailable, saveStoreWithSlug, slugifyStoreName } from '@/lib/store-slugs';
+import { AFFILIATE_NETWORK_IDS, AFFILIATE_NETWORKS, getAffiliateNetwork, validateStoreAffiliateLinks } from '@/lib/affiliate-networks';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import {
@@ -69,6 +70,8 @@ import {
 } from "@/components/ui/alert-dialog";
 import AdminGuard from '@/components/guards/admin-guard';
 import Image from 'next/image';
+import { useAuth } from '@/hooks/use-auth';
+import CashbackRateTiersField, { cashbackRateTierSchema, rateTiersFromFormValues, rateTiersToFormValues } from '@/components/cashback-rate-tiers-field';
 import { Switch } from '@/components/ui/switch';
 import {
   DropdownMenu,
@@ -90,13 +93,16 @@ const STORES_PER_PAGE = 15;
 // Zod schema for store form validation
 const storeSchema = z.object({
   name: z.string().min(2, 'Store name must be at least 2 characters').max(100, 'Store name too long'),
-  slug: z.string().min(2, 'Slug must be at least 2 characters').max(50, 'Slug too long').regex(/^[a-z0-9-]+$/, 'Slug can only contain lowercase letters, numbers, and hyphens').optional().nullable(),
+  slug: z.string().min(2, 'Slug must be at least 2 characters').max(STORE_SLUG_MAX_LENGTH, 'Slug too long').regex(STORE_SLUG_PATTERN, 'Slug can only contain lowercase letters, numbers, and hyphens').optional().nullable().or(z.literal('')),
   logoUrl: z.string().url('Invalid URL format').optional().or(z.literal('')).nullable(),
   heroImageUrl: z.string().url('Invalid URL format').optional().or(z.literal('')).nullable(),
   affiliateLink: z.string().url('Invalid URL format'),
+  affiliateNetwork: z.enum(AFFILIATE_NETWORK_IDS as [AffiliateNetworkId, ...AffiliateNetworkId[]]).optional().nullable(),
+  deepLinkTemplate: z.string().max(2083, 'Template too long').optional().nullable(),
   cashbackRate: z.string().min(1, 'Cashback rate display is required').max(50, 'Rate display too long'),
   cashbackRateValue: z.number().min(0, 'Cashback value must be non-negative'),
   cashbackType: z.enum(['percentage', 'fixed']),
+  cashbackRates: z.array(cashbackRateTierSchema).optional(),
   description: z.string().min(10, 'Description must be at least 10 characters').max(500, 'Description too long'),
   detailedDescription: z.string().max(2000, "Detailed description too long").optional().nullable(),
   categories: z.array(z.string()).min(1, 'At least one category is required'),
@@ -113,6 +119,10 @@ const storeSchema = z.object({
   isActive: z.boolean().default(true),
   isTodaysDeal: z.boolean().default(false), // Added for "Today's Deal"
   dataAiHint: z.string().max(50, 'AI Hint too long').optional().nullable(),
+}).superRefine((data, ctx) => {
+  for (const issue of validateStoreAffiliateLinks(data)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [issue.field], message: issue.message });
+  }
 });
 
 
@@ -126,6 +136,7 @@ function AdminStoresPageContent() {
   const [hasMore, setHasMore] = React.useState(true);
   const [loadingMore, setLoadingMore] = React.useState(false);
   const { toast } = useToast();
+  const { user: adminUser } = useAuth();
   const router = useRouter();
 
   const [searchTermInput, setSearchTermInput] = React.useState('');
@@ -147,9 +158,12 @@ function AdminStoresPageContent() {
       logoUrl: '',
       heroImageUrl: '',
       affiliateLink: '',
+      affiliateNetwork: 'generic',
+      deepLinkTemplate: '',
       cashbackRate: '',
       cashbackRateValue: 0,
       cashbackType: 'percentage',
+      cashbackRates: [],
       description: '',
       detailedDescription: '',
       categories: [],
@@ -266,9 +280,12 @@ function AdminStoresPageContent() {
             logoUrl: data.logoUrl || null,
             heroImageUrl: data.heroImageUrl || null,
             affiliateLink: data.affiliateLink || '',
+            affiliateNetwork: data.affiliateNetwork || 'generic',
+            deepLinkTemplate: data.deepLinkTemplate || null,
             cashbackRate: data.cashbackRate || '',
             cashbackRateValue: typeof data.cashbackRateValue === 'number' ? data.cashbackRateValue : 0,
             cashbackType: data.cashbackType || 'percentage',
+            cashbackRates: Array.isArray(data.cashbackRates) ? data.cashbackRates : [],
             description: data.description || '',
             detailedDescription: data.detailedDescription || null,
             categories: Array.isArray(data.categories) ? data.categories : [],
@@ -333,6 +350,8 @@ function AdminStoresPageContent() {
     }
   };
 
+  const selectedNetwork = getAffiliateNetwork(form.watch('affiliateNetwork'));
+
   const openAddDialog = () => {
     router.push('/admin/stores/new');
   };
@@ -345,9 +364,12 @@ function AdminStoresPageContent() {
       logoUrl: store.logoUrl || '',
       heroImageUrl: store.heroImageUrl || '',
       affiliateLink: store.affiliateLink,
+      affiliateNetwork: store.affiliateNetwork || 'generic',
+      deepLinkTemplate: store.deepLinkTemplate || '',
       cashbackRate: store.cashbackRate,
       cashbackRateValue: store.cashbackRateValue,
       cashbackType: store.cashbackType,
+      cashbackRates: rateTiersToFormValues(store.cashbackRates),
       description: store.description,
       detailedDescription: store.detailedDescription || '',
       categories: store.categories || [],
@@ -378,30 +400,39 @@ function AdminStoresPageContent() {
     setIsSaving(true);
     setError(null);
 
-    const submissionData: Partial<StoreFormType> = Object.fromEntries(
+    const submissionData: Partial<Store> = Object.fromEntries(
       Object.entries(data).map(([key, value]) => {
-        if (['logoUrl', 'heroImageUrl', 'detailedDescription', 'rating', 'ratingCount', 'cashbackTrackingTime', 'cashbackConfirmationTime', 'cashbackOnAppOrders', 'detailedCashbackRatesLink', 'topOffersText', 'offerDetailsLink', 'terms', 'dataAiHint', 'slug'].includes(key)) {
+        if (['logoUrl', 'heroImageUrl', 'detailedDescription', 'rating', 'ratingCount', 'cashbackTrackingTime', 'cashbackConfirmationTime', 'cashbackOnAppOrders', 'detailedCashbackRatesLink', 'topOffersText', 'offerDetailsLink', 'terms', 'dataAiHint', 'slug', 'deepLinkTemplate'].includes(key)) {
           return [key, value === '' || value === undefined ? null : value];
         }
         return [key, value];
       })
     );
-    submissionData.slug = data.slug || data.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+    submissionData.affiliateNetwork = data.affiliateNetwork || 'generic';
+    if (getAffiliateNetwork(data.affiliateNetwork).linkStyle !== 'redirect') submissionData.deepLinkTemplate = null;
     submissionData.isFeatured = !!data.isFeatured;
     submissionData.isActive = !!data.isActive;
     submissionData.isTodaysDeal = !!data.isTodaysDeal;
     submissionData.cashbackOnAppOrders = data.cashbackOnAppOrders === null ? null : !!data.cashbackOnAppOrders;
+    submissionData.cashbackRates = rateTiersFromFormValues(data.cashbackRates);
 
 
     try {
       if (editingStore) {
+        // A changed slug must be free; the old one keeps redirecting to this store.
+        const previousSlug = editingStore.slug || null;
+        const slugToSave = data.slug || await findAvailableStoreSlug(db, slugifyStoreName(data.name) || 'store', editingStore.id);
+        if (slugToSave !== previousSlug && !(await isStoreSlugAvailable(db, slugToSave, editingStore.id))) {
+          throw new StoreSlugTakenError(slugToSave);
+        }
         const storeDocRef = doc(db, 'stores', editingStore.id);
-        await updateDoc(storeDocRef, {
+        await saveStoreWithSlug(db, storeDocRef, {
           ...submissionData,
+          updatedBy: adminUser?.uid || null,
           updatedAt: serverTimestamp(),
-        });
+        }, slugToSave, previousSlug);
         if (isMounted) {
-            setStores(prev => prev.map(s => s.id === editingStore.id ? { ...s, ...submissionData, updatedAt: Timestamp.now() } as Store : s));
+            setStores(prev => prev.map(s => s.id === editingStore.id ? { ...s, ...submissionData, slug: slugToSave, updatedAt: Timestamp.now() } as Store : s));
             toast({ title: "Store Updated", description: `${data.name} details saved.` });
         }
       } else {
@@ -414,6 +445,9 @@ function AdminStoresPageContent() {
     } catch (err) {
       console.error("Error saving store:", err);
       const errorMsg = err instanceof Error ? err.message : "Could not save store details.";
+      if (err instanceof StoreSlugTakenError) {
+        form.setError('slug', { type: 'manual', message: 'This slug is already in use by another store.' });
+      }
       if (isMounted) {
         setError(errorMsg);
         toast({ variant: "destructive", title: "Save Failed", description: errorMsg });
@@ -428,8 +462,7 @@ function AdminStoresPageContent() {
      if (!deletingStoreId || !db) return;
      let isMounted = true;
      try {
-       const storeDocRef = doc(db, 'stores', deletingStoreId);
-       await deleteDoc(storeDocRef);
+       await deleteStoreAndSlugs(db, deletingStoreId);
        if(isMounted) {
         setStores(prev => prev.filter(s => s.id !== deletingStoreId));
         toast({ title: "Store Deleted", description: "The store has been removed." });
@@ -650,6 +683,7 @@ function AdminStoresPageContent() {
                {editingStore ? `Update details for ${editingStore.name}.` : 'Enter the details for the new store.'}
              </DialogDescription>
            </DialogHeader>
+           <FormProvider {...form}>
            <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4 py-4">
 
              <div className="space-y-4">
@@ -660,8 +694,8 @@ function AdminStoresPageContent() {
                 </div>
                  <div className="space-y-1">
                   <Label htmlFor="slugDialog">Slug</Label>
-                  <Input id="slugDialog" {...form.register('slug')} placeholder="auto-generated or custom" disabled={isSaving || !!editingStore} />
-                   {editingStore && <p className="text-xs text-muted-foreground">Slug cannot be changed after creation.</p>}
+                  <Input id="slugDialog" {...form.register('slug')} placeholder="auto-generated or custom" disabled={isSaving} />
+                   {editingStore?.slug && <p className="text-xs text-muted-foreground">Links to /stores/{editingStore.slug} will keep working if you change it.</p>}
                   {form.formState.errors.slug && <p className="text-sm text-destructive">{form.formState.errors.slug.message}</p>}
                 </div>
                 <div className="space-y-1">
@@ -676,11 +710,30 @@ function AdminStoresPageContent() {
                   {form.watch('heroImageUrl') && <Image src={form.watch('heroImageUrl')!} alt="Hero Preview" width={160} height={80} className="object-cover border rounded-sm aspect-[2/1] mt-1" />}
                   {form.formState.errors.heroImageUrl && <p className="text-sm text-destructive">{form.formState.errors.heroImageUrl.message}</p>}
                 </div>
+                <div className="space-y-1">
+                  <Label htmlFor="affiliateNetworkDialog">Affiliate Network*</Label>
+                  <Controller name="affiliateNetwork" control={form.control} render={({ field }) => (
+                    <Select value={field.value || 'generic'} onValueChange={field.onChange} disabled={isSaving}>
+                      <SelectTrigger id="affiliateNetworkDialog"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {AFFILIATE_NETWORK_IDS.map(id => <SelectItem key={id} value={id}>{AFFILIATE_NETWORKS[id].name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  )} />
+                  <p className="text-xs text-muted-foreground">{selectedNetwork.helpText}</p>
+                </div>
                 <div className="space-y-1">
                   <Label htmlFor="affiliateLinkDialog">Affiliate Link*</Label>
-                  <Input id="affiliateLinkDialog" {...form.register('affiliateLink')} placeholder="https://..." disabled={isSaving} />
+                  <Input id="affiliateLinkDialog" {...form.register('affiliateLink')} placeholder={`https://...&${selectedNetwork.subIdParams[0]}={CLICK_ID}`} disabled={isSaving} />
                   {form.formState.errors.affiliateLink && <p className="text-sm text-destructive">{form.formState.errors.affiliateLink.message}</p>}
                 </div>
+                {selectedNetwork.linkStyle === 'redirect' && (
+                  <div className="space-y-1">
+                    <Label htmlFor="deepLinkTemplateDialog">Deep-Link Template</Label>
+                    <Input id="deepLinkTemplateDialog" {...form.register('deepLinkTemplate')} placeholder={selectedNetwork.deepLinkExample || ''} disabled={isSaving} />
+                    {form.formState.errors.deepLinkTemplate && <p className="text-sm text-destructive">{form.formState.errors.deepLinkTemplate.message}</p>}
+                  </div>
+                )}
                 <div className="space-y-1">
                   <Label htmlFor="cashbackRateDialog">Rate Display*</Label>
                   <Input id="cashbackRateDialog" {...form.register('cashbackRate')} placeholder="e.g., Up to 5% or Flat ₹100" disabled={isSaving} />
@@ -703,6 +756,7 @@ function AdminStoresPageContent() {
                     </div>
                 </div>
                  {form.formState.errors.cashbackType && <p className="text-sm text-destructive">{form.formState.errors.cashbackType.message}</p>}
+                <CashbackRateTiersField disabled={isSaving} idPrefix="tierDialog" />
                 <div className="space-y-1">
                   <Label htmlFor="descriptionDialog">Short Description*</Label>
                   <Textarea id="descriptionDialog" {...form.register('description')} rows={3} disabled={isSaving} />
@@ -798,6 +852,7 @@ function AdminStoresPageContent() {
                </Button>
              </DialogFooter>
            </form>
+           </FormProvider>
          </DialogContent>
        </Dialog>
     </div>
@@ -0,0 +1,443 @@
+// src/app/admin/transactions/import/page.tsx
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { collection, doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { db, firebaseInitializationError } from '@/lib/firebase/config';
+import type { AffiliateNetworkId } from '@/lib/types';
+import { AFFILIATE_NETWORKS, AFFILIATE_NETWORK_IDS } from '@/lib/affiliate-networks';
+import {
+  IMPORT_FIELDS,
+  buildImportReportCsv,
+  guessColumnMapping,
+  mapReportRows,
+  readReportFile,
+  type ColumnMapping,
+  type ImportField,
+  type MappedRow,
+  type ParsedReport,
+} from '@/lib/report-import';
+import { adminImportTransactions, type ImportRowAction, type ImportRowResult } from '@/lib/actions/report-import';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, ArrowLeft, Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import AdminGuard from '@/components/guards/admin-guard';
+import { formatCurrency } from '@/lib/utils';
+
+// Must not exceed MAX_IMPORT_ROWS_PER_CALL in functions/src/report-import.ts.
+const ROWS_PER_CALL = 100;
+const PREVIEW_ROWS_SHOWN = 200;
+const NOT_MAPPED = '__none__';
+const ADMIN_IMPORT_LOG_PREFIX = "ADMIN_TRANSACTION_IMPORT_PAGE:";
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+const ACTION_LABELS: Record<ImportRowAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  status_change: 'Status change',
+  unchanged: 'Unchanged',
+  rejected: 'Rejected',
+};
+
+const APPLIED_ACTIONS: ImportRowAction[] = ['create', 'update', 'status_change'];
+
+function actionBadgeVariant(action: ImportRowAction): "default" | "secondary" | "destructive" | "outline" {
+  switch (action) {
+    case 'create': return 'default';
+    case 'status_change': return 'secondary';
+    case 'rejected': return 'destructive';
+    default: return 'outline';
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+function localRejection(row: MappedRow): ImportRowResult {
+  return {
+    rowNumber: row.input.rowNumber,
+    action: 'rejected',
+    reason: row.errors.join(' '),
+    transactionId: null,
+    fromStatus: null,
+    toStatus: null,
+    changes: [],
+  };
+}
+
+export default function AdminTransactionImportPage() {
+  const { user: adminUser } = useAuth();
+  const { toast } = useToast();
+  const [step, setStep] = React.useState<WizardStep>('upload');
+  const [network, setNetwork] = React.useState<AffiliateNetworkId>('cuelinks');
+  const [file, setFile] = React.useState<File | null>(null);
+  const [report, setReport] = React.useState<ParsedReport | null>(null);
+  const [mapping, setMapping] = React.useState<ColumnMapping>({});
+  const [saveMapping, setSaveMapping] = React.useState(true);
+  const [mappedRows, setMappedRows] = React.useState<MappedRow[]>([]);
+  const [previewResults, setPreviewResults] = React.useState<Map<number, ImportRowResult>>(new Map());
+  const [commitResults, setCommitResults] = React.useState<Map<number, ImportRowResult>>(new Map());
+  const [importId, setImportId] = React.useState<string | null>(null);
+  const [isWorking, setIsWorking] = React.useState(false);
+  const [progress, setProgress] = React.useState(0);
+  const [pageError, setPageError] = React.useState<string | null>(null);
+
+  const resetWizard = () => {
+    setStep('upload'); setFile(null); setReport(null); setMapping({});
+    setMappedRows([]); setPreviewResults(new Map()); setCommitResults(new Map());
+    setImportId(null); setProgress(0); setPageError(null);
+  };
+
+  const handleReadFile = async () => {
+    if (!file) return;
+    if (!db || firebaseInitializationError) {
+      setPageError(firebaseInitializationError || "Database not available.");
+      return;
+    }
+    setIsWorking(true); setPageError(null);
+    try {
+      const parsed = await readReportFile(file);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        throw new Error('The report has no data rows.');
+      }
+      const savedSnap = await getDoc(doc(db, 'importMappings', network));
+      const saved = savedSnap.exists() ? (savedSnap.data().columns as ColumnMapping) : null;
+      setReport(parsed);
+      setMapping(guessColumnMapping(parsed.headers, saved));
+      setStep('map');
+    } catch (err) {
+      console.error(`${ADMIN_IMPORT_LOG_PREFIX} Error reading report:`, err);
+      setPageError(err instanceof Error ? err.message : 'Could not read the report.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Sends rows to the callable in chunks, reporting progress as it goes.
+  const runInChunks = async (rows: MappedRow[], commit: boolean, id: string) => {
+    const results = new Map<number, ImportRowResult>();
+    const chunks = chunk(rows, ROWS_PER_CALL);
+    setProgress(0);
+    for (let index = 0; index < chunks.length; index++) {
+      const response = await adminImportTransactions({
+        importId: id,
+        network,
+        fileName: file?.name || null,
+        rows: chunks[index].map(row => row.input),
+        commit,
+      });
+      response.results.forEach(result => results.set(result.rowNumber, result));
+      setProgress(Math.round(((index + 1) / chunks.length) * 100));
+    }
+    return results;
+  };
+
+  const handlePreview = async () => {
+    if (!report || !db) return;
+    if (!mapping.clickId && !mapping.orderId) {
+      setPageError('Map at least the Click ID or Order ID column.');
+      return;
+    }
+    setIsWorking(true); setPageError(null);
+    try {
+      if (saveMapping) {
+        await setDoc(doc(db, 'importMappings', network), {
+          columns: mapping,
+          updatedAt: serverTimestamp(),
+          updatedBy: adminUser?.uid || null,
+        });
+      }
+      const rows = mapReportRows(report, mapping);
+      const id = importId || doc(collection(db, 'transactionImports')).id;
+      const results = await runInChunks(rows.filter(row => row.errors.length === 0), false, id);
+      rows.filter(row => row.errors.length > 0).forEach(row => results.set(row.input.rowNumber, localRejection(row)));
+      setImportId(id);
+      setMappedRows(rows);
+      setPreviewResults(results);
+      setStep('preview');
+    } catch (err) {
+      console.error(`${ADMIN_IMPORT_LOG_PREFIX} Error previewing import:`, err);
+      const errorMsg = err instanceof Error ? err.message : 'Could not preview the import.';
+      setPageError(errorMsg);
+      toast({ variant: "destructive", title: "Preview Failed", description: errorMsg });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!importId) return;
+    const rowsToApply = mappedRows.filter(row => {
+      const preview = previewResults.get(row.input.rowNumber);
+      return preview && APPLIED_ACTIONS.includes(preview.action);
+    });
+    setIsWorking(true); setPageError(null);
+    try {
+      const applied = await runInChunks(rowsToApply, true, importId);
+      // Rows that were not sent keep their preview outcome in the report.
+      const results = new Map(previewResults);
+      applied.forEach((result, rowNumber) => results.set(rowNumber, result));
+      setCommitResults(results);
+      setStep('done');
+      const failed = Array.from(applied.values()).filter(result => result.action === 'rejected').length;
+      toast({
+        title: "Import Complete",
+        description: `${applied.size - failed} rows applied${failed > 0 ? `, ${failed} failed` : ''}.`,
+      });
+    } catch (err) {
+      console.error(`${ADMIN_IMPORT_LOG_PREFIX} Error committing import:`, err);
+      const errorMsg = err instanceof Error ? err.message : 'The import stopped part way through.';
+      setPageError(`${errorMsg} Re-run the preview before trying again; rows already applied will show as unchanged.`);
+      toast({ variant: "destructive", title: "Import Failed", description: errorMsg });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDownloadReport = (includeAll: boolean) => {
+    const results = step === 'done' ? commitResults : previewResults;
+    const csv = buildImportReportCsv(mappedRows, results, includeAll);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `import-report-${importId || network}${includeAll ? '-all' : '-rejected'}.csv`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const activeResults = step === 'done' ? commitResults : previewResults;
+  const counts = React.useMemo(() => {
+    const tally: Record<ImportRowAction, number> = { create: 0, update: 0, status_change: 0, unchanged: 0, rejected: 0 };
+    activeResults.forEach(result => { tally[result.action] += 1; });
+    return tally;
+  }, [activeResults]);
+  const pendingChanges = counts.create + counts.update + counts.status_change;
+
+  return (
+    <AdminGuard>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <FileSpreadsheet className="w-7 h-7" /> Import Network Report
+          </h1>
+          <Button variant="outline" asChild>
+            <Link href="/admin/transactions"><ArrowLeft className="mr-2 h-4 w-4" /> Back to Transactions</Link>
+          </Button>
+        </div>
+
+        {pageError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" /> <AlertTitle>Error</AlertTitle> <AlertDescription>{pageError}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === 'upload' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>1. Upload Report</CardTitle>
+              <CardDescription>A CSV or XLSX sales report exported from the network. The first row must be the column headers.</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="network">Network</Label>
+                <Select value={network} onValueChange={(value) => setNetwork(value as AffiliateNetworkId)}>
+                  <SelectTrigger id="network" className="h-10"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {AFFILIATE_NETWORK_IDS.map(id => (
+                      <SelectItem key={id} value={id}>{AFFILIATE_NETWORKS[id].name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="reportFile">Report File</Label>
+                <Input
+                  id="reportFile"
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                />
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button onClick={handleReadFile} disabled={!file || isWorking}>
+                {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Read Report
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+
+        {step === 'map' && report && (
+          <Card>
+            <CardHeader>
+              <CardTitle>2. Map Columns</CardTitle>
+              <CardDescription>
+                {report.rows.length} rows in {file?.name}. Rows are matched to transactions by click ID, then order ID; new transactions need a click ID.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                {IMPORT_FIELDS.map(({ field, label, hint }) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={`map-${field}`}>{label}</Label>
+                    <Select
+                      value={mapping[field] || NOT_MAPPED}
+                      onValueChange={(value) => setMapping(prev => ({ ...prev, [field]: value === NOT_MAPPED ? undefined : value }))}
+                    >
+                      <SelectTrigger id={`map-${field}`} className="h-10"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not in report</SelectItem>
+                        {report.headers.filter(Boolean).map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">{hint}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {IMPORT_FIELDS.filter(({ field }) => mapping[field]).map(({ field, label }) => (
+                        <TableHead key={field}>{label}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.slice(0, 3).map((row, index) => (
+                      <TableRow key={index}>
+                        {IMPORT_FIELDS.filter(({ field }) => mapping[field]).map(({ field }) => {
+                          const cell = row[report.headers.indexOf(mapping[field as ImportField] as string)];
+                          return <TableCell key={field} className="text-xs">{cell instanceof Date ? cell.toLocaleString() : String(cell ?? '')}</TableCell>;
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox id="saveMapping" checked={saveMapping} onCheckedChange={(checked) => setSaveMapping(checked === true)} />
+                <Label htmlFor="saveMapping" className="font-normal">Save this mapping for {AFFILIATE_NETWORKS[network].name}</Label>
+              </div>
+            </CardContent>
+            <CardFooter className="flex justify-between">
+              <Button variant="outline" onClick={resetWizard} disabled={isWorking}>Start Over</Button>
+              <Button onClick={handlePreview} disabled={isWorking}>
+                {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Preview Import
+              </Button>
+            </CardFooter>
+            {isWorking && <div className="px-6 pb-6"><Progress value={progress} /></div>}
+          </Card>
+        )}
+
+        {(step === 'preview' || step === 'done') && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{step === 'preview' ? '3. Review Changes' : '4. Import Complete'}</CardTitle>
+              <CardDescription>
+                {step === 'preview'
+                  ? 'Nothing has been written yet. Status changes follow the same rules as postbacks: only pending transactions can move.'
+                  : `Import ${importId} applied. Download the report for rows that were rejected.`}
+              </CardDescription>
+              <div className="flex flex-wrap gap-2 pt-2">
+                {(Object.keys(ACTION_LABELS) as ImportRowAction[]).map(action => (
+                  <Badge key={action} variant={actionBadgeVariant(action)}>{ACTION_LABELS[action]}: {counts[action]}</Badge>
+                ))}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isWorking && <Progress value={progress} />}
+              <div className="overflow-x-auto max-h-[500px]">
+                <Table className="min-w-[900px]">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Click / Order</TableHead>
+                      <TableHead className="text-right">Sale</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead className="min-w-[300px]">Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {mappedRows.slice(0, PREVIEW_ROWS_SHOWN).map(({ input }) => {
+                      const result = activeResults.get(input.rowNumber);
+                      return (
+                        <TableRow key={input.rowNumber}>
+                          <TableCell>{input.rowNumber}</TableCell>
+                          <TableCell className="font-mono text-xs">
+                            <div>{input.clickId || '-'}</div>
+                            <div className="text-muted-foreground">{input.orderId || '-'}</div>
+                          </TableCell>
+                          <TableCell className="text-right">{input.saleAmount != null ? formatCurrency(input.saleAmount) : '-'}</TableCell>
+                          <TableCell>
+                            {result && <Badge variant={actionBadgeVariant(result.action)} className="text-[10px]">{ACTION_LABELS[result.action]}</Badge>}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {result?.reason}
+                            {result && result.action !== 'rejected' && [
+                              ...result.changes,
+                              ...(result.toStatus && result.toStatus !== result.fromStatus ? [`Status ${result.fromStatus ?? 'new'} -> ${result.toStatus}`] : []),
+                            ].join('; ')}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+              {mappedRows.length > PREVIEW_ROWS_SHOWN && (
+                <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROWS_SHOWN} of {mappedRows.length} rows. The downloaded report covers every row.</p>
+              )}
+            </CardContent>
+            <CardFooter className="flex flex-wrap justify-between gap-2">
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={resetWizard} disabled={isWorking}>{step === 'done' ? 'Import Another' : 'Start Over'}</Button>
+                {step === 'preview' && <Button variant="outline" onClick={() => setStep('map')} disabled={isWorking}>Change Mapping</Button>}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => handleDownloadReport(false)} disabled={isWorking}>
+                  <Download className="mr-2 h-4 w-4" /> Rejected Rows
+                </Button>
+                <Button variant="outline" onClick={() => handleDownloadReport(true)} disabled={isWorking}>
+                  <Download className="mr-2 h-4 w-4" /> Full Report
+                </Button>
+                {step === 'preview' && (
+                  <Button onClick={handleCommit} disabled={isWorking || pendingChanges === 0}>
+                    {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Apply {pendingChanges} Changes
+                  </Button>
+                )}
+              </div>
+            </CardFooter>
+          </Card>
+        )}
+      </div>
+    </AdminGuard>
+  );
+}
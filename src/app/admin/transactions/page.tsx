@@ -2,6 +2,7 @@
 "use client";
 
 import * as React from 'react';
+import Link from 'next/link';
 import { useForm, Controller } from 'react-hook-form'; // Ensure useForm is imported
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -12,19 +13,13 @@ import {
   startAfter,
   limit,
   getDocs,
-  doc,
-  updateDoc,
-  addDoc,
-  serverTimestamp,
   where,
   QueryConstraint,
   DocumentData,
   QueryDocumentSnapshot,
   Timestamp,
-  runTransaction,
+  doc,
   getDoc,
-  increment,
-  writeBatch
 } from 'firebase/firestore';
 import { db, firebaseInitializationError, auth as firebaseAuthService } from '@/lib/firebase/config';
 import type { Transaction, CashbackStatus, UserProfile, Store, TransactionFormValues as AppTransactionFormValues } from '@/lib/types';
@@ -44,7 +39,7 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { AlertCircle, Loader2, Search, Edit, PlusCircle, CheckCircle, XCircle, Info, ListFilter, Calendar as CalendarIconLucide, IndianRupee, ThumbsUp, ThumbsDown, Eye, Briefcase, Link as LinkIcon } from 'lucide-react';
+import { AlertCircle, Loader2, Search, Edit, PlusCircle, CheckCircle, XCircle, Info, ListFilter, Calendar as CalendarIconLucide, IndianRupee, ThumbsUp, ThumbsDown, Eye, Briefcase, Link as LinkIcon, Upload } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
@@ -65,6 +60,8 @@ import { cn } from "@/lib/utils";
 import { useDebounce } from '@/hooks/use-debounce';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useAuth } from '@/hooks/use-auth';
+import { adminCreateTransaction, adminApproveTransaction, adminRejectTransaction } from '@/lib/actions/ledger';
+import { activeRateTiers, calculateCashback, describeTierConditions, formatTierRate } from '@/lib/cashback-rates';
 
 const TRANSACTIONS_PER_PAGE = 15;
 const ADMIN_TX_LOG_PREFIX = "ADMIN_TXN_PAGE:";
@@ -192,6 +189,10 @@ export default function AdminTransactionsPage() {
   const [currentEditAdminNotes, setCurrentEditAdminNotes] = React.useState<string>('');
   const [currentEditNotesToUser, setCurrentEditNotesToUser] = React.useState<string>('');
 
+  // Rate card of the store entered in the Add dialog, for the cashback calculator.
+  const [rateStore, setRateStore] = React.useState<Store | null>(null);
+  const [selectedRateTierId, setSelectedRateTierId] = React.useState<string>('base');
+
   const userCache = React.useRef<Record<string, Pick<UserProfile, 'displayName' | 'email'>>>({});
   const storeCache = React.useRef<Record<string, Pick<Store, 'name'>>>({});
   const isMountedRef = React.useRef(true);
@@ -366,6 +367,38 @@ export default function AdminTransactionsPage() {
   
 
 
+  const addFormStoreId = addForm.watch('storeId');
+  const debouncedAddFormStoreId = useDebounce(addFormStoreId, 500);
+
+  React.useEffect(() => {
+    setSelectedRateTierId('base');
+    if (!db || !debouncedAddFormStoreId?.trim()) {
+      setRateStore(null);
+      return;
+    }
+    let isMounted = true;
+    getDoc(doc(db, 'stores', debouncedAddFormStoreId.trim()))
+      .then(storeSnap => {
+        if (!isMounted) return;
+        setRateStore(storeSnap.exists() ? ({ id: storeSnap.id, ...storeSnap.data() } as Store) : null);
+        if (storeSnap.exists() && !addForm.getValues('storeName')) addForm.setValue('storeName', storeSnap.data().name || '');
+      })
+      .catch(err => {
+        console.error(`${ADMIN_TX_LOG_PREFIX} Error loading store rates:`, err);
+        if (isMounted) setRateStore(null);
+      });
+    return () => { isMounted = false; };
+  }, [debouncedAddFormStoreId, addForm]);
+
+  const handleCalculateCashback = () => {
+    if (!rateStore) return;
+    const saleAmount = addForm.getValues('saleAmount') || 0;
+    const tier = activeRateTiers(rateStore).find(t => t.id === selectedRateTierId);
+    const rate = tier || { value: rateStore.cashbackRateValue, type: rateStore.cashbackType, maxCashback: null };
+    addForm.setValue('initialCashbackAmount', calculateCashback(saleAmount, rate.value, rate.type, rate.maxCashback), { shouldValidate: true });
+    addForm.setValue('cashbackRateApplied', tier ? `${tier.name} (${formatTierRate(tier)})` : rateStore.cashbackRate);
+  };
+
   const handleSearchSubmit = (e: React.FormEvent) => e.preventDefault();
   const handleLoadMore = () => { if (!loadingMore && hasMore && lastVisible) fetchTransactions(true, lastVisible); };
 
@@ -395,43 +428,15 @@ export default function AdminTransactionsPage() {
     setIsSaving(true); setPageError(null);
     
     try {
-        await runTransaction(db, async (firestoreTransaction) => {
-            const userDocRef = doc(db!, 'users', data.userId);
-            const userSnap = await firestoreTransaction.get(userDocRef);
-            if (!userSnap.exists()) throw new Error(`User with ID ${data.userId} not found.`);
-
-            let storeNameFromDb = data.storeName;
-            if (!storeNameFromDb && data.storeId) {
-                const storeDocRef = doc(db!, 'stores', data.storeId);
-                const storeSnap = await firestoreTransaction.get(storeDocRef);
-                storeNameFromDb = storeSnap.exists() ? storeSnap.data()?.name : 'Unknown Store';
-            }
-            
-            const newTransactionRef = doc(collection(db!, 'transactions'));
-            const transactionDataToSave: Omit<Transaction, 'id'> = {
-                userId: data.userId, storeId: data.storeId, storeName: storeNameFromDb || 'Unknown Store',
-                orderId: data.orderId || null, clickId: data.clickId || null, conversionId: data.conversionId || null,
-                productDetails: data.productDetails || null, transactionDate: Timestamp.fromDate(data.transactionDate),
-                saleAmount: data.saleAmount, initialCashbackAmount: data.initialCashbackAmount,
-                cashbackRateApplied: data.cashbackRateApplied || null,
-                finalSaleAmount: data.saleAmount, finalCashbackAmount: data.initialCashbackAmount,
-                currency: 'INR', status: data.status, confirmationDate: (data.status === 'confirmed') ? serverTimestamp() as Timestamp : null,
-                paidDate: null, payoutId: null, reportedDate: serverTimestamp() as Timestamp,
-                rejectionReason: (data.status === 'rejected' || data.status === 'cancelled') ? data.rejectionReason || null : null,
-                adminNotes: data.adminNotes || null, notesToUser: data.notesToUser || null,
-                createdAt: serverTimestamp() as Timestamp, updatedAt: serverTimestamp() as Timestamp,
-            };
-            firestoreTransaction.set(newTransactionRef, transactionDataToSave);
-
-            const userProfileUpdates: Record<string, any> = { updatedAt: serverTimestamp() };
-            if (data.status === 'pending') {
-                userProfileUpdates.pendingCashback = increment(data.initialCashbackAmount);
-            } else if (data.status === 'confirmed') {
-                userProfileUpdates.pendingCashback = increment(0); // No change if directly confirmed, assumes it wasn't pending first
-                userProfileUpdates.cashbackBalance = increment(data.initialCashbackAmount);
-                userProfileUpdates.lifetimeCashback = increment(data.initialCashbackAmount);
-            }
-            if (Object.keys(userProfileUpdates).length > 1) firestoreTransaction.update(userDocRef, userProfileUpdates);
+        await adminCreateTransaction({
+            userId: data.userId, storeId: data.storeId, storeName: data.storeName || null,
+            orderId: data.orderId || null, clickId: data.clickId || null, conversionId: data.conversionId || null,
+            productDetails: data.productDetails || null, transactionDateMillis: data.transactionDate.getTime(),
+            saleAmount: data.saleAmount, initialCashbackAmount: data.initialCashbackAmount,
+            cashbackRateApplied: data.cashbackRateApplied || null,
+            status: data.status as 'pending' | 'confirmed' | 'rejected' | 'cancelled',
+            adminNotes: data.adminNotes || null, notesToUser: data.notesToUser || null,
+            rejectionReason: data.rejectionReason || null,
         });
         toast({ title: "Transaction Logged", description: `New transaction for user ${data.userId} has been logged.` });
         fetchTransactions(false); setIsAddDialogOpen(false); addForm.reset();
@@ -447,34 +452,16 @@ export default function AdminTransactionsPage() {
     if (!editingTransaction || !editingTransaction.id || !db) return;
     setIsSaving(true); setPageError(null);
 
-    const transactionRef = doc(db, 'transactions', editingTransaction.id);
-    const userRef = doc(db, 'users', editingTransaction.userId);
-    
     const finalCashbackToCredit = currentEditFinalCashbackAmount ?? editingTransaction.initialCashbackAmount;
     const finalSaleToRecord = currentEditFinalSaleAmount ?? editingTransaction.saleAmount;
 
     try {
-      await runTransaction(db, async (firestoreTransaction) => {
-        const userSnap = await firestoreTransaction.get(userRef);
-        if (!userSnap.exists()) throw new Error("User profile not found.");
-        
-        firestoreTransaction.update(transactionRef, {
-          status: 'confirmed' as CashbackStatus,
-          confirmationDate: serverTimestamp(),
-          adminNotes: currentEditAdminNotes.trim() || null,
-          notesToUser: currentEditNotesToUser.trim() || null,
-          finalSaleAmount: finalSaleToRecord,
-          finalCashbackAmount: finalCashbackToCredit,
-          rejectionReason: null, // Clear rejection reason on approval
-          updatedAt: serverTimestamp(),
-        });
-
-        firestoreTransaction.update(userRef, {
-          pendingCashback: increment(-(editingTransaction.initialCashbackAmount || 0)), // Debit original pending amount
-          cashbackBalance: increment(finalCashbackToCredit),
-          lifetimeCashback: increment(finalCashbackToCredit),
-          updatedAt: serverTimestamp(),
-        });
+      await adminApproveTransaction({
+        transactionId: editingTransaction.id,
+        finalSaleAmount: finalSaleToRecord,
+        finalCashbackAmount: finalCashbackToCredit,
+        adminNotes: currentEditAdminNotes.trim() || null,
+        notesToUser: currentEditNotesToUser.trim() || null,
       });
       toast({ title: "Transaction Approved", description: `Cashback credited to user ${editingTransaction.userId}.` });
       fetchTransactions(false); setIsEditDialogOpen(false);
@@ -493,29 +480,12 @@ export default function AdminTransactionsPage() {
     }
     setIsSaving(true); setPageError(null);
 
-    const transactionRef = doc(db, 'transactions', editingTransaction.id);
-    const userRef = doc(db, 'users', editingTransaction.userId);
-
     try {
-      await runTransaction(db, async (firestoreTransaction) => {
-        const userSnap = await firestoreTransaction.get(userRef);
-        if (!userSnap.exists()) throw new Error("User profile not found.");
-
-        firestoreTransaction.update(transactionRef, {
-          status: 'rejected' as CashbackStatus,
-          rejectionReason: currentEditRejectionReason.trim(),
-          adminNotes: currentEditAdminNotes.trim() || null,
-          notesToUser: currentEditNotesToUser.trim() || null,
-          confirmationDate: null, // Clear confirmation date
-          updatedAt: serverTimestamp(),
-        });
-        // Only adjust pending if it was originally pending
-        if (editingTransaction.status === 'pending') {
-            firestoreTransaction.update(userRef, {
-                pendingCashback: increment(-(editingTransaction.initialCashbackAmount || 0)),
-                updatedAt: serverTimestamp(),
-            });
-        }
+      await adminRejectTransaction({
+        transactionId: editingTransaction.id,
+        rejectionReason: currentEditRejectionReason.trim(),
+        adminNotes: currentEditAdminNotes.trim() || null,
+        notesToUser: currentEditNotesToUser.trim() || null,
       });
       toast({ title: "Transaction Rejected", description: `Transaction for user ${editingTransaction.userId} marked as rejected.` });
       fetchTransactions(false); setIsEditDialogOpen(false);
@@ -555,7 +525,12 @@ export default function AdminTransactionsPage() {
       <div className="space-y-6">
         <div className="flex justify-between items-center">
           <h1 className="text-3xl font-bold">Manage Transactions</h1>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/admin/transactions/import"><Upload className="mr-2 h-4 w-4" /> Import Report</Link>
+            </Button>
             <Button onClick={openAddDialog}><PlusCircle className="mr-2 h-4 w-4" /> Add New Transaction</Button>
+          </div>
         </div>
 
         {pageError && (
@@ -793,6 +768,24 @@ export default function AdminTransactionsPage() {
                 <Input id="saleAmountForm" type="number" step="0.01" {...addForm.register('saleAmount', { valueAsNumber: true })} disabled={isSaving}/>
                 {addForm.formState.errors.saleAmount && <p className="text-sm text-destructive">{addForm.formState.errors.saleAmount.message}</p>}
               </div>
+              {rateStore && (
+                <div className="space-y-1 rounded-md border p-3 bg-muted/30">
+                  <Label htmlFor="rateTierForm">Cashback Calculator ({rateStore.name})</Label>
+                  <div className="flex gap-2">
+                    <Select value={selectedRateTierId} onValueChange={setSelectedRateTierId} disabled={isSaving}>
+                      <SelectTrigger id="rateTierForm" className="flex-1"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="base">Base rate ({formatTierRate({ value: rateStore.cashbackRateValue, type: rateStore.cashbackType })})</SelectItem>
+                        {activeRateTiers(rateStore).map(tier => (
+                          <SelectItem key={tier.id} value={tier.id}>{tier.name} ({formatTierRate(tier)}) · {describeTierConditions(tier)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button type="button" variant="outline" onClick={handleCalculateCashback} disabled={isSaving}>Calculate</Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">Fills the cashback amount and rate applied from the sale amount and the chosen rate card tier.</p>
+                </div>
+              )}
                <div className="space-y-1">
                 <Label htmlFor="initialCashbackAmountForm">Initial Cashback Amount*</Label>
                 <Input id="initialCashbackAmountForm" type="number" step="0.01" {...addForm.register('initialCashbackAmount', { valueAsNumber: true })} disabled={isSaving}/>
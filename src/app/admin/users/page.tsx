@@ -22,6 +22,7 @@ import {
 } from 'firebase/firestore';
 import { db, firebaseInitializationError, auth as firebaseAuthService } from '@/lib/firebase/config';
 import type { UserProfile } from '@/lib/types';
+import { adminReconcileUserBalance } from '@/lib/actions/ledger';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from "@/hooks/use-toast";
 import { Button } from '@/components/ui/button';
@@ -39,7 +40,7 @@ import { format } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { AlertCircle, Loader2, Search, Edit2, Ban, CheckCircle, ShieldCheck, User as UserIcon } from 'lucide-react';
+import { AlertCircle, Loader2, Search, Edit2, Ban, CheckCircle, ShieldCheck, User as UserIcon, Scale } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
@@ -287,6 +288,42 @@ export default function AdminUsersPage() {
     }
   };
 
+  const handleReconcileBalance = async (userToCheck: UserProfile) => {
+    setUpdatingUserId(userToCheck.uid);
+    try {
+      const check = await adminReconcileUserBalance(userToCheck.uid);
+      if (check.inSync) {
+        toast({ title: "Balances In Sync", description: `${userToCheck.displayName || userToCheck.email}'s balances match ${check.entryCount} ledger entries.` });
+        return;
+      }
+      const driftSummary = `pending ${formatCurrency(check.drift.pendingCashback)}, available ${formatCurrency(check.drift.cashbackBalance)}, lifetime ${formatCurrency(check.drift.lifetimeCashback)}`;
+      // Without an opening balance, the difference is what the user had before the ledger.
+      const prompt = check.hasOpeningBalance
+        ? `Profile balances differ from the ledger (${driftSummary}). Reset the profile to the ledger totals?`
+        : `No opening balance is recorded for this user. Record the difference from the ledger (${driftSummary}) as the balance they had before the ledger?`;
+      if (!window.confirm(prompt)) {
+        return;
+      }
+      const result = await adminReconcileUserBalance(userToCheck.uid, true);
+      const updatedUser = await fetchUserProfile(userToCheck.uid);
+      if (updatedUser) {
+        setUsers(prev => prev.map(u => u.uid === userToCheck.uid ? updatedUser : u));
+      }
+      toast({
+        title: "Balances Reconciled",
+        description: result.openingBalance
+          ? `Recorded ${userToCheck.displayName || userToCheck.email}'s opening balance in the ledger.`
+          : `${userToCheck.displayName || userToCheck.email}'s balances now match the ledger.`,
+      });
+    } catch (err) {
+      console.error("Error reconciling user balance:", err);
+      const errorMsg = err instanceof Error ? err.message : "Could not reconcile balances.";
+      toast({ variant: "destructive", title: "Reconciliation Failed", description: errorMsg });
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
   if (loading && users.length === 0 && !error) {
     return <AdminGuard><UsersTableSkeleton /></AdminGuard>;
   }
@@ -381,6 +418,9 @@ export default function AdminUsersPage() {
                              <Button variant="ghost" size="sm" onClick={() => openEditDialog(userItem)} disabled={isSaving}>
                                <Edit2 className="mr-1 h-4 w-4" /> Edit Role
                              </Button>
+                             <Button variant="ghost" size="sm" onClick={() => handleReconcileBalance(userItem)} disabled={updatingUserId === userItem.uid}>
+                               <Scale className="mr-1 h-4 w-4" /> Reconcile
+                             </Button>
                            </TableCell>
                          </TableRow>
                        );
@@ -0,0 +1,36 @@
+// src/app/api/revalidate/route.ts
+// On-demand revalidation of the cached catalogue pages:
+// POST /api/revalidate with { "collection": "stores" } and
+// "Authorization: Bearer <REVALIDATE_SECRET>". Called by the Cloud Functions
+// in functions/src/catalog-revalidation.ts whenever an admin edits the catalogue.
+import { timingSafeEqual } from 'crypto';
+import { revalidateTag } from 'next/cache';
+import { NextRequest, NextResponse } from 'next/server';
+import { CATALOG_COLLECTIONS, catalogTag, type CatalogCollection } from '@/lib/catalog-data';
+
+export const dynamic = 'force-dynamic';
+
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const provided = Buffer.from(request.headers.get('authorization') ?? '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.REVALIDATE_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Revalidation is not configured." }, { status: 503 });
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: "Invalid token." }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null) as { collection?: unknown } | null;
+  const collectionName = body?.collection as CatalogCollection;
+  if (!CATALOG_COLLECTIONS.includes(collectionName)) {
+    return NextResponse.json({ error: "Unknown collection." }, { status: 400 });
+  }
+
+  revalidateTag(catalogTag(collectionName));
+  return NextResponse.json({ revalidated: collectionName });
+}
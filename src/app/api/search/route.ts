@@ -0,0 +1,40 @@
+// src/app/api/search/route.ts
+// Catalogue search: /api/search?q={query}&types=store,coupon&limit=12
+// Answers from the in-memory index in src/lib/search/catalog.ts.
+import { NextRequest, NextResponse } from 'next/server';
+import { searchCatalog } from '@/lib/search/catalog';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  MAX_SEARCH_QUERY_LENGTH,
+  SEARCH_RESULT_TYPES,
+  emptySearchResults,
+  type SearchResultType,
+} from '@/lib/search/api';
+
+export const dynamic = 'force-dynamic';
+
+const SEARCH_ROUTE_LOG_PREFIX = "SEARCH_ROUTE:";
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const query = (params.get('q') || '').trim().slice(0, MAX_SEARCH_QUERY_LENGTH);
+  const requestedTypes = params.get('types')?.split(',').filter((type): type is SearchResultType =>
+    SEARCH_RESULT_TYPES.includes(type as SearchResultType));
+  const types = requestedTypes?.length ? requestedTypes : SEARCH_RESULT_TYPES;
+  const requestedLimit = Number(params.get('limit'));
+  const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+    ? Math.min(requestedLimit, MAX_SEARCH_LIMIT)
+    : DEFAULT_SEARCH_LIMIT;
+
+  if (!query) {
+    return NextResponse.json(emptySearchResults(query));
+  }
+  try {
+    const results = await searchCatalog(query, { types, limit });
+    return NextResponse.json(results, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error(`${SEARCH_ROUTE_LOG_PREFIX} Search for "${query}" failed:`, error);
+    return NextResponse.json({ error: "Search is temporarily unavailable." }, { status: 503 });
+  }
+}
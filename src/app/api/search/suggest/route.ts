@@ -0,0 +1,35 @@
+// src/app/api/search/suggest/route.ts
+// Header typeahead: /api/search/suggest?q={partial query}
+// Answers from the in-memory catalogue index, so it stays well under 100 ms
+// once the index is loaded.
+import { NextRequest, NextResponse } from 'next/server';
+import { suggestCatalog } from '@/lib/search/catalog';
+import { MAX_SEARCH_QUERY_LENGTH, emptySuggestions } from '@/lib/search/api';
+
+export const dynamic = 'force-dynamic';
+
+const SUGGEST_ROUTE_LOG_PREFIX = "SUGGEST_ROUTE:";
+const SLOW_SUGGESTION_MS = 100;
+
+export async function GET(request: NextRequest) {
+  const query = (request.nextUrl.searchParams.get('q') || '').trim().slice(0, MAX_SEARCH_QUERY_LENGTH);
+  if (!query) {
+    return NextResponse.json(emptySuggestions(query));
+  }
+  try {
+    const suggestions = await suggestCatalog(query);
+    if (suggestions.tookMs > SLOW_SUGGESTION_MS) {
+      console.warn(`${SUGGEST_ROUTE_LOG_PREFIX} Suggestions for "${query}" took ${suggestions.tookMs} ms.`);
+    }
+    return NextResponse.json(suggestions, {
+      headers: {
+        // Short shared caching absorbs repeated keystrokes across users.
+        'Cache-Control': 'public, max-age=0, s-maxage=30, stale-while-revalidate=60',
+        'Server-Timing': `search;dur=${suggestions.tookMs}`,
+      },
+    });
+  } catch (error) {
+    console.error(`${SUGGEST_ROUTE_LOG_PREFIX} Suggestions for "${query}" failed:`, error);
+    return NextResponse.json({ error: "Suggestions are temporarily unavailable." }, { status: 503 });
+  }
+}
@@ -0,0 +1,21 @@
+// src/app/api/store-path/route.ts
+// Store path lookup for src/middleware.ts: /api/store-path?segment={slug or id}
+// Middleware runs on the edge and can't use the Admin SDK, so it asks here.
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveStorePath } from '@/lib/catalog-data';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const segment = request.nextUrl.searchParams.get('segment') ?? '';
+  try {
+    const resolved = await resolveStorePath(segment);
+    if (!resolved) {
+      return NextResponse.json({ error: "Store not found." }, { status: 404 });
+    }
+    return NextResponse.json(resolved);
+  } catch (error) {
+    console.error(`STORE_PATH_ROUTE: Resolving "${segment}" failed:`, error);
+    return NextResponse.json({ error: "Store lookup is temporarily unavailable." }, { status: 503 });
+  }
+}
@@ -0,0 +1,97 @@
+// src/app/category/[slug]/category-client-content.tsx
+"use client";
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import type { Category, Store, Coupon, Product } from '@/lib/types';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import StoreCard from '@/components/store-card';
+import CouponCard from '@/components/coupon-card';
+import ProductCard from '@/components/product-card';
+import { ArrowLeft, List, ShoppingBag, Tag } from 'lucide-react';
+
+interface CategoryClientContentProps {
+  category: Category;
+  stores: Store[];
+  products: (Product & { store?: Store })[];
+  coupons: (Coupon & { store?: Store })[];
+}
+
+export default function CategoryClientContent({ category, stores, products, coupons }: CategoryClientContentProps) {
+  const router = useRouter();
+
+  return (
+    <div className="space-y-10">
+      {category && (
+          <section className="text-center">
+            <h1 className="text-3xl md:text-4xl lg:text-5xl font-bold mb-2 flex items-center justify-center gap-3">
+            {category.imageUrl ? (
+                <Image src={category.imageUrl} alt={category.name} width={48} height={48} className="rounded-md object-contain" />
+            ) : (
+                <List className="w-10 h-10 text-primary" />
+            )}
+            {category.name}
+            </h1>
+            {category.description && (
+            <p className="text-lg text-muted-foreground max-w-2xl mx-auto">{category.description}</p>
+            )}
+        </section>
+      )}
+
+      {/* Stores in this Category */}
+      <section>
+        <h2 className="text-2xl font-semibold mb-6 flex items-center gap-2">
+          <ShoppingBag className="w-6 h-6 text-primary" /> Stores in {category?.name || 'this category'}
+        </h2>
+        {stores.length > 0 ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 md:gap-6">
+            {stores.map((store) => (
+              <StoreCard key={store.id} store={store} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-center py-8 bg-muted/30 rounded-lg border">No stores found in this category yet.</p>
+        )}
+      </section>
+
+      {/* Products in this Category */}
+      <section>
+        <h2 className="text-2xl font-semibold mb-6 flex items-center gap-2">
+          <ShoppingBag className="w-6 h-6 text-primary" /> Products in {category?.name || 'this category'}
+        </h2>
+        {products.length > 0 ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 md:gap-6">
+            {products.map((product) => (
+              <ProductCard key={product.id} product={product} storeContext={product.store} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-center py-8 bg-muted/30 rounded-lg border">No products found for this category at the moment.</p>
+        )}
+      </section>
+
+      {/* Coupons for this Category/Stores */}
+      <section>
+        <h2 className="text-2xl font-semibold mb-6 flex items-center gap-2">
+          <Tag className="w-6 h-6 text-primary" /> Coupons & Deals in {category?.name || 'this category'}
+        </h2>
+        {coupons.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+            {coupons.map((coupon) => (
+              <CouponCard key={coupon.id} coupon={coupon} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-center py-8 bg-muted/30 rounded-lg border">No coupons found for this category at the moment.</p>
+        )}
+      </section>
+
+      <div className="text-center mt-12">
+        <Button variant="outline" onClick={() => router.push('/categories')}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> View All Categories
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { Skeleton } from '@/components/ui/skeleton';
+
+export default function CategoryPageLoading() {
+  return (
+    <div className="space-y-10">
+      <section className="text-center space-y-3">
+        <Skeleton className="h-12 w-12 mx-auto rounded-md" />
+        <Skeleton className="h-10 w-1/2 mx-auto" /> {/* Title */}
+        <Skeleton className="h-5 w-3/4 mx-auto" /> {/* Description */}
+      </section>
+
+      <section>
+        <Skeleton className="h-8 w-1/3 mb-6" /> {/* Section Title */}
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 md:gap-6">
+          {Array.from({ length: 6 }).map((_, index) => (
+            <Skeleton key={`store-skel-${index}`} className="h-48 rounded-lg" />
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <Skeleton className="h-8 w-1/3 mb-6" /> {/* Products Section Title */}
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 md:gap-6">
+          {Array.from({ length: 6 }).map((_, index) => (
+            <Skeleton key={`product-skel-${index}`} className="h-64 rounded-lg" />
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <Skeleton className="h-8 w-1/3 mb-6" /> {/* Coupons Section Title */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={`coupon-skel-${index}`} className="h-40 rounded-lg" />
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
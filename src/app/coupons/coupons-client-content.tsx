@@ -0,0 +1,355 @@
+
+"use client";
+
+import * as React from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import {
+  collection,
+  query,
+  limit,
+  getDocs,
+  startAfter,
+  DocumentData,
+  Timestamp,
+  DocumentSnapshot,
+  doc,
+  getDoc
+} from 'firebase/firestore';
+import { db, firebaseInitializationError } from '@/lib/firebase/config';
+import type { Category, Coupon, Store } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import CouponCard from '@/components/coupon-card';
+import ListingFacet from '@/components/listing-facet';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, Loader2, Tag, Search, SlidersHorizontal, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { safeToDate } from '@/lib/utils';
+import {
+  COUPON_SORT_OPTIONS,
+  OFFER_TYPE_OPTIONS,
+  couponFiltersToParams,
+  couponListingQuery,
+  fetchCouponFacetCounts,
+  fetchFacetCategories,
+  parseCouponFilters,
+  toQueryConstraints,
+  type CouponFacetCounts,
+  type CouponFilters,
+  type CouponSort,
+} from '@/lib/listing-filters';
+
+const COUPONS_PER_PAGE = 12;
+
+interface CouponWithStoreData extends Coupon {
+  store?: Store;
+}
+
+interface CouponsClientContentProps {
+  // The first page is rendered on the server; more pages load here.
+  initialFiltersQuery: string;
+  initialCoupons: CouponWithStoreData[];
+  initialHasMore: boolean;
+  loadError?: string | null;
+}
+
+export default function CouponsClientContent({ initialFiltersQuery, initialCoupons, initialHasMore, loadError = null }: CouponsClientContentProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const filtersKey = couponFiltersToParams(parseCouponFilters(searchParams)).toString();
+  const filters = React.useMemo(() => parseCouponFilters(new URLSearchParams(filtersKey)), [filtersKey]);
+
+  const [coupons, setCoupons] = React.useState<CouponWithStoreData[]>(initialCoupons);
+  const [shownFiltersQuery, setShownFiltersQuery] = React.useState(initialFiltersQuery);
+  const [isNavigating, startNavigation] = React.useTransition();
+  const [error, setError] = React.useState<string | null>(loadError);
+  const [lastVisible, setLastVisible] = React.useState<DocumentSnapshot<DocumentData> | null>(null);
+  const [hasMore, setHasMore] = React.useState(initialHasMore);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const [categories, setCategories] = React.useState<Pick<Category, 'id' | 'name' | 'slug'>[] | null>(null);
+  const [facetCounts, setFacetCounts] = React.useState<CouponFacetCounts | null>(null);
+  const [searchTermInput, setSearchTermInput] = React.useState('');
+  const requestIdRef = React.useRef(0);
+  const { toast } = useToast();
+
+  // Changing a filter navigates, and the server renders the new first page.
+  if (shownFiltersQuery !== initialFiltersQuery) {
+    requestIdRef.current++;
+    setShownFiltersQuery(initialFiltersQuery);
+    setCoupons(initialCoupons);
+    setHasMore(initialHasMore);
+    setLastVisible(null);
+    setError(loadError);
+  }
+  const loading = isNavigating;
+
+  const fetchMoreCoupons = React.useCallback(async (
+    currentFilters: CouponFilters,
+    lastCouponId: string,
+    docToStartAfter: DocumentSnapshot<DocumentData> | null
+  ) => {
+    if (firebaseInitializationError || !db) {
+      setError(firebaseInitializationError || "Database connection not available.");
+      setHasMore(false);
+      return;
+    }
+
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+
+    try {
+      // Server-rendered coupons have no snapshot to page from, so read the last one.
+      const cursor = docToStartAfter ?? await getDoc(doc(db, 'coupons', lastCouponId));
+      const constraints = toQueryConstraints(couponListingQuery(currentFilters));
+      constraints.push(startAfter(cursor));
+      constraints.push(limit(COUPONS_PER_PAGE));
+
+      const q = query(collection(db, 'coupons'), ...constraints);
+      const querySnapshot = await getDocs(q);
+
+      const rawCoupons: Coupon[] = querySnapshot.docs.map(docSnap => {
+        const data = docSnap.data();
+        return {
+          id: docSnap.id,
+          storeId: data.storeId,
+          code: data.code,
+          description: data.description,
+          link: data.link,
+          title: data.title,
+          cashback: data.cashback,
+          isFeatured: data.isFeatured,
+          isActive: data.isActive,
+          expiryDate: data.expiryDate ?? null,
+          createdAt: data.createdAt ?? null,
+          updatedAt: data.updatedAt ?? null,
+        };
+      });
+
+      const storeCache = new Map<string, Store>();
+      const enrichedCoupons: CouponWithStoreData[] = [];
+
+      for (const coupon of rawCoupons) {
+        let storeData: Store | undefined = undefined;
+        if (coupon.storeId) {
+          if (storeCache.has(coupon.storeId)) {
+            storeData = storeCache.get(coupon.storeId);
+          } else if (db) {
+            try {
+              const storeDocRef = doc(db, 'stores', coupon.storeId);
+              const storeDocSnap = await getDoc(storeDocRef);
+              if (storeDocSnap.exists()) {
+                const rawStore = storeDocSnap.data();
+                storeData = {
+                  id: storeDocSnap.id, ...rawStore,
+                  createdAt: safeToDate(rawStore.createdAt as Timestamp | undefined),
+                  updatedAt: safeToDate(rawStore.updatedAt as Timestamp | undefined),
+                } as unknown as Store;
+                storeCache.set(coupon.storeId, storeData);
+              }
+            } catch (storeFetchError) {
+              console.error(`Failed to fetch store ${coupon.storeId} for coupon ${coupon.id}:`, storeFetchError);
+            }
+          }
+        }
+        enrichedCoupons.push({ ...coupon, store: storeData });
+      }
+
+      if (requestId !== requestIdRef.current) return; // Filters changed while loading
+      setCoupons(prev => [...prev, ...enrichedCoupons]);
+      const newLastVisible = querySnapshot.docs[querySnapshot.docs.length - 1] || null;
+      setLastVisible(newLastVisible);
+      setHasMore(querySnapshot.docs.length === COUPONS_PER_PAGE);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error("Error fetching coupons:", err);
+      const errorMsg = err instanceof Error ? err.message : "Failed to fetch coupons";
+      setError(errorMsg);
+      toast({ variant: "destructive", title: "Fetch Error", description: errorMsg });
+      setHasMore(false);
+    } finally {
+      if (requestId === requestIdRef.current) setLoadingMore(false);
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    fetchFacetCategories()
+      .then(setCategories)
+      .catch(err => {
+        console.warn("Could not load categories for filters:", err);
+        setCategories([]);
+      });
+  }, []);
+
+  React.useEffect(() => {
+    if (!categories) return;
+    let cancelled = false;
+    setFacetCounts(null);
+    fetchCouponFacetCounts(filters, categories.map(category => category.slug))
+      .then(counts => { if (!cancelled) setFacetCounts(counts); })
+      .catch(err => console.warn("Could not count coupon filters:", err));
+    return () => { cancelled = true; };
+  }, [filters, categories]);
+
+  const updateFilters = (changes: Partial<CouponFilters>) => {
+    const params = couponFiltersToParams({ ...filters, ...changes }).toString();
+    startNavigation(() => router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false }));
+  };
+
+  const handleSearchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = searchTermInput.trim();
+    if (trimmed) router.push(`/search?q=${encodeURIComponent(trimmed)}`);
+  };
+
+  const handleLoadMore = () => {
+    const lastCoupon = coupons[coupons.length - 1];
+    if (!loadingMore && hasMore && lastCoupon) {
+      fetchMoreCoupons(filters, lastCoupon.id, lastVisible);
+    }
+  };
+
+  const hasActiveFilters = !!(filters.category || filters.offerType || filters.showExpired);
+  const expiringSort = filters.sort === 'expiring';
+
+  return (
+    <div className="space-y-8">
+      <section className="text-center">
+        <h1 className="text-3xl md:text-4xl lg:text-5xl font-bold mb-2 flex items-center justify-center gap-3">
+          <Tag className="w-10 h-10 text-primary" /> All Coupons & Deals
+        </h1>
+        <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+          Find the latest coupons and offers from your favorite online stores. Save big on every purchase!
+        </p>
+      </section>
+
+      <div className="grid gap-6 md:grid-cols-[220px_1fr] items-start">
+        <Card className="shadow-sm border">
+          <CardHeader className="pb-2 pt-4 flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-lg flex items-center gap-2"><SlidersHorizontal className="w-4 h-4" /> Filters</CardTitle>
+            {hasActiveFilters && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => updateFilters({ category: null, offerType: null, showExpired: false })}>
+                <X className="mr-1 h-3 w-3" /> Clear
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-5 pb-4">
+            <ListingFacet
+              title="Store Category"
+              value={filters.category}
+              onChange={category => updateFilters({ category })}
+              options={[
+                { value: null, label: 'All Categories', count: facetCounts?.allCategories },
+                ...(categories || []).map(category => ({ value: category.slug, label: category.name, count: facetCounts?.categories[category.slug] })),
+              ]}
+            />
+            <ListingFacet
+              title="Offer Type"
+              value={filters.offerType}
+              onChange={offerType => updateFilters({ offerType })}
+              options={[
+                { value: null, label: 'Codes & Deals', count: facetCounts?.allOfferTypes },
+                ...OFFER_TYPE_OPTIONS.map(option => ({ ...option, count: facetCounts?.offerTypes[option.value] })),
+              ]}
+            />
+            <div className="space-y-1">
+              <div className="flex items-center justify-between gap-2 px-2">
+                <Label htmlFor="show-expired" className="text-sm font-semibold">
+                  Show Expired
+                  {facetCounts && !expiringSort && <span className="ml-2 text-xs font-normal text-muted-foreground tabular-nums">{facetCounts.expired}</span>}
+                </Label>
+                <Switch
+                  id="show-expired"
+                  checked={filters.showExpired && !expiringSort}
+                  onCheckedChange={showExpired => updateFilters({ showExpired })}
+                  disabled={expiringSort}
+                />
+              </div>
+              {expiringSort && <p className="px-2 text-xs text-muted-foreground">Expired coupons are hidden when sorting by expiry.</p>}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+            <div className="text-sm text-muted-foreground">
+              {facetCounts ? `${facetCounts.total} ${facetCounts.total === 1 ? 'offer' : 'offers'}` : <Skeleton className="h-4 w-20" />}
+            </div>
+            <div className="flex gap-2">
+              <form onSubmit={handleSearchSubmit} className="flex gap-2">
+                <Input
+                  type="search"
+                  placeholder="Search coupons..."
+                  value={searchTermInput}
+                  onChange={(e) => setSearchTermInput(e.target.value)}
+                  className="h-9 w-40 sm:w-48"
+                  aria-label="Search coupons"
+                />
+                <Button type="submit" size="sm" variant="outline" className="h-9" aria-label="Search">
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+              <Select value={filters.sort} onValueChange={(value) => updateFilters({ sort: value as CouponSort })}>
+                <SelectTrigger className="h-9 w-48" aria-label="Sort coupons">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUPON_SORT_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {error && !loading && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Error Loading Coupons</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {loading && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+              {Array.from({ length: 6 }).map((_, index) => (
+                <Skeleton key={`coupon-skel-filter-${index}`} className="h-40 rounded-lg" />
+              ))}
+            </div>
+          )}
+
+          {!loading && coupons.length === 0 && !error && (
+            <div className="text-center py-16 text-muted-foreground bg-muted/30 rounded-lg border">
+              <p className="text-xl mb-4">
+                {hasActiveFilters ? "No coupons match these filters." : "No coupons available at the moment."}
+              </p>
+              {hasActiveFilters && <p>Try removing a filter or browse all coupons.</p>}
+            </div>
+          )}
+
+          {!loading && coupons.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+              {coupons.map((coupon) => (
+                <CouponCard key={coupon.id} coupon={coupon} />
+              ))}
+            </div>
+          )}
+
+          {hasMore && !loading && coupons.length > 0 && (
+            <div className="mt-10 text-center">
+              <Button onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Load More Coupons
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
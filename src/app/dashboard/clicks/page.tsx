@@ -55,7 +55,7 @@ function ClickHistoryTableSkeleton() {
             <Table>
             <TableHeader>
                 <TableRow>
-                {Array.from({ length: 5 }).map((_, index) => (
+                {Array.from({ length: 6 }).map((_, index) => (
                     <TableHead key={index} className="min-w-[120px]"><Skeleton className="h-5 w-full" /></TableHead>
                 ))}
                 </TableRow>
@@ -63,7 +63,7 @@ function ClickHistoryTableSkeleton() {
             <TableBody>
                 {Array.from({ length: 10 }).map((_, rowIndex) => (
                 <TableRow key={rowIndex}>
-                    {Array.from({ length: 5 }).map((_, colIndex) => (
+                    {Array.from({ length: 6 }).map((_, colIndex) => (
                     <TableCell key={colIndex}><Skeleton className="h-5 w-full" /></TableCell>
                     ))}
                 </TableRow>
@@ -140,6 +140,8 @@ export default function ClickHistoryPage() {
           clickedCashbackDisplay: data.clickedCashbackDisplay ?? null,
           clickedCashbackRateValue: data.clickedCashbackRateValue ?? null,
           clickedCashbackType: data.clickedCashbackType ?? null,
+          clickedRateVersionId: data.clickedRateVersionId ?? null,
+          clickedRateVersion: data.clickedRateVersion ?? null,
           conversionId: data.conversionId ?? null,
           hasConversion: data.hasConversion ?? false,
         } satisfies Click;
@@ -198,6 +200,8 @@ export default function ClickHistoryPage() {
           clickedCashbackDisplay: data.clickedCashbackDisplay ?? null,
           clickedCashbackRateValue: data.clickedCashbackRateValue ?? null,
           clickedCashbackType: data.clickedCashbackType ?? null,
+          clickedRateVersionId: data.clickedRateVersionId ?? null,
+          clickedRateVersion: data.clickedRateVersion ?? null,
           conversionId: data.conversionId ?? null,
           hasConversion: data.hasConversion ?? false,
         } satisfies Click;
@@ -294,6 +298,7 @@ export default function ClickHistoryPage() {
                         <TableHead className="min-w-[150px]">Store</TableHead>
                         <TableHead className="min-w-[200px]">Item Clicked</TableHead>
                         <TableHead className="min-w-[180px]">Clicked At</TableHead>
+                        <TableHead className="min-w-[120px]">Rate at Click</TableHead>
                         <TableHead className="min-w-[200px]">Link Clicked</TableHead>
                         <TableHead className="text-right min-w-[120px]">Click ID</TableHead>
                     </TableRow>
@@ -314,6 +319,10 @@ export default function ClickHistoryPage() {
                           <TableCell className="whitespace-nowrap">
                             {clickTimestamp ? format(clickTimestamp, 'PPp') : 'N/A'}
                           </TableCell>
+                          <TableCell className="whitespace-nowrap" title={click.clickedRateVersion ? `Store rate version ${click.clickedRateVersion}` : undefined}>
+                            {click.clickedCashbackDisplay || 'N/A'}
+                            {click.clickedRateVersion ? <span className="ml-1 text-xs text-muted-foreground">(v{click.clickedRateVersion})</span> : null}
+                          </TableCell>
                           <TableCell className="text-xs">
                                <TooltipProvider>
                                  <Tooltip>
@@ -19,6 +19,10 @@ import {
 } from 'firebase/firestore';
 import { db, firebaseInitializationError } from '@/lib/firebase/config';
 import type { PayoutRequest, PayoutStatus, PayoutMethod } from '@/lib/types';
+import { PAYOUT_METHOD_INFO } from '@/lib/payout-methods';
+import { revealPayoutGiftCards, type RevealedGiftCard } from '@/lib/actions/gift-cards';
+import { GIFT_CARD_BRANDS } from '@/lib/gift-cards';
+import { useToast } from '@/hooks/use-toast';
 import {
   Table,
   TableBody,
@@ -34,11 +38,13 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { formatCurrency, safeToDate } from '@/lib/utils';
 import { format } from 'date-fns';
-import { AlertCircle, History, Loader2, Info, ReceiptText, CheckCircle, XCircle, Hourglass } from 'lucide-react';
+import { AlertCircle, History, Loader2, Info, ReceiptText, CheckCircle, XCircle, Hourglass, Gift } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import ProtectedRoute from '@/components/guards/protected-route';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
 const PAYOUTS_PER_PAGE = 15;
+const PAYOUT_HISTORY_LOG_PREFIX = "PayoutHistoryPage:";
 
 const getStatusVariant = (status: PayoutStatus): "default" | "secondary" | "destructive" | "outline" => {
   switch (status) {
@@ -107,6 +113,9 @@ export default function PayoutHistoryPage() {
   const [hasMore, setHasMore] = React.useState(true);
   const [loadingMore, setLoadingMore] = React.useState(false);
   const isMountedRef = React.useRef(true);
+  const { toast } = useToast();
+  const [revealingPayoutId, setRevealingPayoutId] = React.useState<string | null>(null);
+  const [revealedCards, setRevealedCards] = React.useState<{ payout: PayoutRequest; cards: RevealedGiftCard[] } | null>(null);
 
   const fetchInitialPayouts = React.useCallback(async () => {
     if (!user || !isMountedRef.current) {
@@ -225,9 +234,26 @@ export default function PayoutHistoryPage() {
     return () => { isMountedRef.current = false; };
   }, [user, authLoading, router, fetchInitialPayouts]);
 
+  const handleShowGiftCards = async (payout: PayoutRequest) => {
+    setRevealingPayoutId(payout.id);
+    try {
+      const { cards } = await revealPayoutGiftCards(payout.id);
+      setRevealedCards({ payout, cards });
+    } catch (err) {
+      console.error(`${PAYOUT_HISTORY_LOG_PREFIX} Error revealing gift cards:`, err);
+      toast({ variant: "destructive", title: "Could Not Load Codes", description: err instanceof Error ? err.message : "Please try again." });
+    } finally {
+      setRevealingPayoutId(null);
+    }
+  };
+
   const maskPaymentDetail = (method: PayoutMethod, detail: string): string => {
     if (!detail) return 'N/A';
-    if (method === 'bank_transfer') {
+    if (method === 'upi') {
+      const [handle, psp] = detail.trim().split('@');
+      if (handle && psp) return `UPI: ${handle.substring(0, Math.min(2, handle.length))}****@${psp}`;
+      return 'UPI: ****';
+    } else if (method === 'bank_transfer') {
         if (detail.toLowerCase().includes('@') && detail.toLowerCase().includes('upi')) return `UPI: ****${detail.slice(-4)}`;
         const parts = detail.split(/[\s,-]+/); 
         const lastMeaningfulPart = parts.reverse().find(part => part.length >= 4 && !isNaN(Number(part.slice(-4))));
@@ -327,7 +353,7 @@ export default function PayoutHistoryPage() {
                                {payout.status.replace('_', ' ')}
                              </Badge>
                            </TableCell>
-                           <TableCell className="capitalize">{payout.paymentMethod.replace('_', ' ')}</TableCell>
+                           <TableCell>{PAYOUT_METHOD_INFO[payout.paymentMethod]?.label ?? payout.paymentMethod}</TableCell>
                            <TableCell className="text-xs truncate max-w-[180px]">
                               <TooltipProvider>
                                <Tooltip>
@@ -341,6 +367,12 @@ export default function PayoutHistoryPage() {
                                  </TooltipContent>
                                </Tooltip>
                               </TooltipProvider>
+                              {payout.status === 'paid' && !!payout.giftCards?.length && (
+                                <Button variant="link" size="sm" className="h-auto p-0 block text-xs" onClick={() => handleShowGiftCards(payout)} disabled={revealingPayoutId === payout.id}>
+                                  {revealingPayoutId === payout.id ? <Loader2 className="mr-1 h-3 w-3 animate-spin inline" /> : <Gift className="mr-1 h-3 w-3 inline" />}
+                                  Show gift card codes
+                                </Button>
+                              )}
                            </TableCell>
                            <TableCell className="whitespace-nowrap">
                              {processedDate ? format(processedDate, 'PPp') : '-'}
@@ -380,6 +412,27 @@ export default function PayoutHistoryPage() {
             {loadingMore && <div className="text-center py-4"><Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" /></div>}
           </CardContent>
         </Card>
+
+        <Dialog open={!!revealedCards} onOpenChange={(open) => { if (!open) setRevealedCards(null); }}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Your Gift Cards</DialogTitle>
+              <DialogDescription>
+                Keep these codes private; anyone with a code can redeem it.
+                {!!revealedCards?.payout.giftCardRemainder && ` ${formatCurrency(revealedCards.payout.giftCardRemainder)} that no card value could cover was returned to your cashback balance.`}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3">
+              {revealedCards?.cards.map(card => (
+                <div key={card.voucherId} className="rounded-md border p-3">
+                  <p className="text-sm font-medium">{GIFT_CARD_BRANDS[card.brand] || card.brand} · {formatCurrency(card.denomination)}</p>
+                  <p className="font-mono text-base break-all select-all">{card.code}</p>
+                  {card.expiresAtMillis && <p className="text-xs text-muted-foreground">Valid until {format(new Date(card.expiresAtMillis), 'PP')}</p>}
+                </div>
+              ))}
+            </div>
+          </DialogContent>
+        </Dialog>
       </div>
     </ProtectedRoute>
   );
@@ -8,21 +8,16 @@ import { useRouter } from 'next/navigation';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import {
-  collection,
-  query,
-  where,
-  orderBy,
-  getDocs,
-  doc,
-  runTransaction,
-  serverTimestamp,
-  Timestamp,
-  increment,
-  FieldValue
-} from 'firebase/firestore';
 import { db, firebaseInitializationError } from '@/lib/firebase/config';
-import type { UserProfile, PayoutDetails, PayoutMethod, Transaction, CashbackStatus, PayoutRequest, PayoutStatus as AppPayoutStatus } from '@/lib/types';
+import type { PayoutMethod } from '@/lib/types';
+import { requestPayout } from '@/lib/actions/ledger';
+import {
+  DEFAULT_MIN_PAYOUT_AMOUNTS,
+  PAYOUT_METHODS,
+  PAYOUT_METHOD_INFO,
+  fetchMinPayoutAmounts,
+  payoutDetailError,
+} from '@/lib/payout-methods';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -36,16 +31,14 @@ import { AlertCircle, IndianRupee, Send, Loader2, Info, ListChecks, ShieldCheck
 import ProtectedRoute from '@/components/guards/protected-route';
 import { Skeleton } from '@/components/ui/skeleton';
 
-const MIN_PAYOUT_AMOUNT = 250; // Define your minimum payout amount
 const PAYOUT_PAGE_LOG_PREFIX = "PAYOUT_PAGE:";
 
 const payoutFormSchema = z.object({
   requestedAmount: z.number({
     required_error: "Amount is required.",
     invalid_type_error: "Amount must be a number.",
-  }).positive({ message: "Amount must be positive." })
-    .min(MIN_PAYOUT_AMOUNT, { message: `Minimum payout amount is ${formatCurrency(MIN_PAYOUT_AMOUNT)}.` }),
-  payoutMethod: z.enum(['bank_transfer', 'paypal', 'gift_card'] as [PayoutMethod, ...PayoutMethod[]], {
+  }).positive({ message: "Amount must be positive." }),
+  payoutMethod: z.enum(PAYOUT_METHODS as [PayoutMethod, ...PayoutMethod[]], {
     required_error: "Please select a payout method.",
   }),
   payoutDetail: z.string().min(5, { message: "Payout details must be at least 5 characters." })
@@ -86,17 +79,28 @@ export default function PayoutPage() {
   const [pageError, setPageError] = React.useState<string | null>(null);
   const [pageLoading, setLoadingPage] = React.useState(true);
   const [canRequest, setCanRequest] = React.useState(false);
+  const [minPayoutAmounts, setMinPayoutAmounts] = React.useState<Record<PayoutMethod, number>>(DEFAULT_MIN_PAYOUT_AMOUNTS);
 
-  
+  const lowestMinPayout = Math.min(...PAYOUT_METHODS.map((method) => minPayoutAmounts[method]));
 
-  // Dynamic schema based on availableBalance
-  const payoutSchemaWithBalanceValidation = payoutFormSchema.refine(
-    (data) => data.requestedAmount <= availableBalance,
-    {
-      message: "Requested amount cannot exceed your available balance.",
-      path: ["requestedAmount"],
+  // Dynamic schema based on availableBalance and the selected method's minimum and detail format
+  const payoutSchemaWithBalanceValidation = payoutFormSchema.superRefine((data, ctx) => {
+    if (data.requestedAmount > availableBalance) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Requested amount cannot exceed your available balance.", path: ["requestedAmount"] });
     }
-  );
+    const minAmount = minPayoutAmounts[data.payoutMethod];
+    if (data.requestedAmount < minAmount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Minimum ${PAYOUT_METHOD_INFO[data.payoutMethod].label} payout is ${formatCurrency(minAmount)}.`,
+        path: ["requestedAmount"],
+      });
+    }
+    const detailError = payoutDetailError(data.payoutMethod, data.payoutDetail);
+    if (detailError) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: detailError, path: ["payoutDetail"] });
+    }
+  });
 
   const {
     register,
@@ -105,18 +109,21 @@ export default function PayoutPage() {
     reset,
     watch,
     setValue,
+    trigger,
     formState: { errors, isValid: isFormValid, isDirty },
   } = useForm<PayoutFormValues>({
     resolver: zodResolver(payoutSchemaWithBalanceValidation),
     mode: "onChange", // Validate on change for better UX
     defaultValues: {
-      requestedAmount: MIN_PAYOUT_AMOUNT,
+      requestedAmount: lowestMinPayout,
       payoutMethod: undefined,
       payoutDetail: '',
     },
   });
 
   const requestedPayoutAmountFormValue = watch("requestedAmount");
+  const selectedPayoutMethod = watch("payoutMethod");
+  const selectedMethodInfo = selectedPayoutMethod ? PAYOUT_METHOD_INFO[selectedPayoutMethod] : null;
 
   const refreshUserProfileAndSetState = React.useCallback(async () => {
     if (!user) {
@@ -126,21 +133,24 @@ export default function PayoutPage() {
     setLoadingPage(true);
     setPageError(null);
     try {
-      const profile = await fetchUserProfile(user.uid);
+      const [profile, minAmounts] = await Promise.all([
+        fetchUserProfile(user.uid),
+        fetchMinPayoutAmounts().catch((e) => {
+          console.warn(`${PAYOUT_PAGE_LOG_PREFIX} Could not load payout minimums, using defaults:`, e);
+          return DEFAULT_MIN_PAYOUT_AMOUNTS;
+        }),
+      ]);
+      setMinPayoutAmounts(minAmounts);
       if (profile) {
         const balance = parseFloat((profile.cashbackBalance || 0).toFixed(2));
         setAvailableBalance(balance);
-        const canActuallyRequest = balance >= MIN_PAYOUT_AMOUNT;
+        const method: PayoutMethod = profile.payoutDetails?.method || 'upi';
+        const canActuallyRequest = balance >= Math.min(...PAYOUT_METHODS.map((m) => minAmounts[m]));
         setCanRequest(canActuallyRequest);
-        
-        setValue('requestedAmount', Math.max(MIN_PAYOUT_AMOUNT, Math.min(balance, MIN_PAYOUT_AMOUNT)), { shouldValidate: true });
-        if (profile.payoutDetails) {
-          setValue('payoutMethod', profile.payoutDetails.method);
-          setValue('payoutDetail', profile.payoutDetails.detail);
-        } else {
-          setValue('payoutMethod', 'bank_transfer');
-          setValue('payoutDetail', '');
-        }
+
+        setValue('payoutMethod', method);
+        setValue('payoutDetail', profile.payoutDetails?.detail || '');
+        setValue('requestedAmount', minAmounts[method], { shouldValidate: true });
       } else {
         setPageError("Could not load your profile data for payout.");
         setCanRequest(false);
@@ -180,115 +190,15 @@ export default function PayoutPage() {
     setPageError(null);
     const finalRequestedAmount = parseFloat(data.requestedAmount.toFixed(2));
 
-    const payoutDetails: PayoutDetails = {
-      method: data.payoutMethod,
-      detail: data.payoutDetail,
-    };
-
     try {
-      console.log(`${PAYOUT_PAGE_LOG_PREFIX} Fetching confirmed, unpaid transactions for user ${user.uid}...`);
-      const transactionsCollection = collection(db, 'transactions');
-      const confirmedUnpaidQuery = query(
-          transactionsCollection,
-          where('userId', '==', user.uid),
-          where('status', '==', 'confirmed' as CashbackStatus),
-          where('payoutId', '==', null),
-          orderBy('transactionDate', 'asc') // Process older transactions first
-      );
-      const confirmedTransactionsSnap = await getDocs(confirmedUnpaidQuery);
-      console.log(`${PAYOUT_PAGE_LOG_PREFIX} Found ${confirmedTransactionsSnap.size} 'confirmed' and unpaid transactions.`);
-
-      let sumOfSelectedTransactions = 0;
-      const transactionIdsToIncludeInPayout: string[] = [];
-      const selectedTransactionDetails: {id: string, amount: number}[] = [];
-
-      for (const docSnap of confirmedTransactionsSnap.docs) {
-          const txData = docSnap.data() as Transaction;
-          const cashbackToConsider = txData.finalCashbackAmount ?? txData.initialCashbackAmount ?? 0;
-
-          if (cashbackToConsider > 0 && (sumOfSelectedTransactions + cashbackToConsider) <= finalRequestedAmount) {
-              sumOfSelectedTransactions += cashbackToConsider;
-              transactionIdsToIncludeInPayout.push(docSnap.id);
-              selectedTransactionDetails.push({ id: docSnap.id, amount: cashbackToConsider });
-              console.log(`${PAYOUT_PAGE_LOG_PREFIX} Including Tx ID: ${docSnap.id}, Amount: ₹${cashbackToConsider.toFixed(2)}. Current sum: ₹${sumOfSelectedTransactions.toFixed(2)}`);
-          }
-          // Stop if we have enough or just slightly more (though loop condition prevents > finalRequestedAmount)
-          if (sumOfSelectedTransactions >= finalRequestedAmount) break;
-      }
-      sumOfSelectedTransactions = parseFloat(sumOfSelectedTransactions.toFixed(2));
-      console.log(`${PAYOUT_PAGE_LOG_PREFIX} Final sum of selected transactions: ₹${sumOfSelectedTransactions.toFixed(2)} for requested amount ₹${finalRequestedAmount.toFixed(2)}`);
-      console.log(`${PAYOUT_PAGE_LOG_PREFIX} Selected transaction details:`, selectedTransactionDetails);
-
-      const actualPayoutAmount = sumOfSelectedTransactions;
-
-      if (actualPayoutAmount < MIN_PAYOUT_AMOUNT) {
-          const specificError = selectedTransactionDetails.length === 0
-            ? `No confirmed transactions found to fulfill any payout request.`
-            : `Could not gather enough confirmed transaction value (found ${formatCurrency(actualPayoutAmount)}) to meet the minimum payout of ${formatCurrency(MIN_PAYOUT_AMOUNT)}. You requested ${formatCurrency(finalRequestedAmount)}.`;
-          console.error(`${PAYOUT_PAGE_LOG_PREFIX} ${specificError}`);
-          throw new Error(specificError);
-      }
-      if (actualPayoutAmount <= 0 && finalRequestedAmount > 0) {
-          const zeroError = `Could not find any confirmed transactions with a positive cashback amount to fulfill your request of ${formatCurrency(finalRequestedAmount)}.`;
-          console.error(`${PAYOUT_PAGE_LOG_PREFIX} ${zeroError}`);
-          throw new Error(zeroError);
-      }
-
-      console.log(`${PAYOUT_PAGE_LOG_PREFIX} Proceeding with Firestore transaction for actual payout amount: ₹${actualPayoutAmount.toFixed(2)}`);
-      await runTransaction(db, async (transaction) => {
-        const userDocRef = doc(db!, 'users', user.uid);
-        const userDocSnap = await transaction.get(userDocRef);
-        console.log(`${PAYOUT_PAGE_LOG_PREFIX} User document snapshot fetched inside transaction.`);
-
-        if (!userDocSnap.exists()) {
-          console.error(`${PAYOUT_PAGE_LOG_PREFIX} User profile ${user.uid} not found inside transaction.`);
-          throw new Error("User profile not found. Cannot process payout.");
-        }
-        const currentUserData = userDocSnap.data() as UserProfile;
-        const currentFreshBalance = parseFloat((currentUserData.cashbackBalance || 0).toFixed(2));
-        console.log(`${PAYOUT_PAGE_LOG_PREFIX} Fresh balance inside transaction: ₹${currentFreshBalance.toFixed(2)}`);
-
-        if (actualPayoutAmount > currentFreshBalance) {
-          console.error(`${PAYOUT_PAGE_LOG_PREFIX} Mismatch inside transaction: Actual Payout (₹${actualPayoutAmount.toFixed(2)}) vs Fresh Balance (₹${currentFreshBalance.toFixed(2)})`);
-          throw new Error(`Your available balance (now ₹${currentFreshBalance.toFixed(2)}) is less than the amount being processed for payout (₹${actualPayoutAmount.toFixed(2)}). Please refresh and try again.`);
-        }
-        
-        const payoutRequestRef = doc(collection(db!, 'payoutRequests'));
-        const payoutRequestData: Omit<PayoutRequest, 'id'> = {
-          userId: user.uid,
-          amount: actualPayoutAmount,
-          requestedAmount: finalRequestedAmount,
-          status: 'pending' as AppPayoutStatus,
-          requestedAt: serverTimestamp() as Timestamp,
-          processedAt: null,
-          paymentMethod: payoutDetails.method,
-          paymentDetails: payoutDetails,
-          transactionIds: transactionIdsToIncludeInPayout,
-          adminNotes: null,
-          failureReason: null,
-          updatedAt: serverTimestamp() as Timestamp,
-        };
-        transaction.set(payoutRequestRef, payoutRequestData);
-        console.log(`${PAYOUT_PAGE_LOG_PREFIX} Payout request document prepared: ${payoutRequestRef.id}`);
-
-        for (const txId of transactionIdsToIncludeInPayout) {
-          const txRef = doc(db!, 'transactions', txId);
-          transaction.update(txRef, {
-            status: 'awaiting_payout' as CashbackStatus,
-            payoutId: payoutRequestRef.id,
-            updatedAt: serverTimestamp()
-          });
-        }
-        console.log(`${PAYOUT_PAGE_LOG_PREFIX} ${transactionIdsToIncludeInPayout.length} transactions marked as 'awaiting_payout'.`);
-
-        transaction.update(userDocRef, {
-          cashbackBalance: increment(-actualPayoutAmount),
-          lastPayoutRequestAt: serverTimestamp(),
-          updatedAt: serverTimestamp(),
-          payoutDetails: payoutDetails,
-        });
-        console.log(`${PAYOUT_PAGE_LOG_PREFIX} User profile update prepared. Balance debited by ₹${actualPayoutAmount.toFixed(2)}.`);
+      console.log(`${PAYOUT_PAGE_LOG_PREFIX} Submitting payout request for user ${user.uid}...`);
+      // Transaction selection, balance checks and the balance debit all run server-side.
+      const { amount: actualPayoutAmount } = await requestPayout({
+        requestedAmount: finalRequestedAmount,
+        payoutMethod: data.payoutMethod,
+        payoutDetail: data.payoutDetail,
       });
+      console.log(`${PAYOUT_PAGE_LOG_PREFIX} Payout request created for ₹${actualPayoutAmount.toFixed(2)}.`);
 
       toast({
         title: "Payout Request Submitted",
@@ -296,7 +206,7 @@ export default function PayoutPage() {
       });
       
       reset({
-          requestedAmount: MIN_PAYOUT_AMOUNT, 
+          requestedAmount: minPayoutAmounts[data.payoutMethod],
           payoutDetail: data.payoutDetail, 
           payoutMethod: data.payoutMethod 
       }); 
@@ -338,7 +248,10 @@ export default function PayoutPage() {
                 <CardTitle className="flex items-center gap-2 text-lg sm:text-xl"><ListChecks className="w-5 h-5 sm:w-6 sm:h-6 text-primary"/> Payout Rules & Information</CardTitle>
             </CardHeader>
             <CardContent className="text-sm text-muted-foreground space-y-2">
-                <p><strong>Minimum Payout:</strong> You need at least {formatCurrency(MIN_PAYOUT_AMOUNT)} in confirmed cashback to request a payout.</p>
+                <p>
+                  <strong>Minimum Payout:</strong> Depends on the payout method:{' '}
+                  {PAYOUT_METHODS.map((method) => `${PAYOUT_METHOD_INFO[method].label} ${formatCurrency(minPayoutAmounts[method])}`).join(', ')}.
+                </p>
                 <p><strong>Available Balance:</strong> Payouts are made from your 'Available Cashback Balance'.</p>
                 <p><strong>Processing Time:</strong> Requests are typically processed within 3-7 business days after admin approval.</p>
                 <p><strong>Correct Details:</strong> Ensure your payout details are accurate to avoid delays. Your selected details will be saved for future requests.</p>
@@ -359,7 +272,7 @@ export default function PayoutPage() {
             <Info className="h-4 w-4" />
             <AlertTitle>Minimum Payout Not Met</AlertTitle>
             <AlertDescription>
-              You need at least {formatCurrency(MIN_PAYOUT_AMOUNT)} in available cashback to request a payout. Your current available balance is {formatCurrency(availableBalance)}. Keep shopping to earn more!
+              You need at least {formatCurrency(lowestMinPayout)} in available cashback to request a payout. Your current available balance is {formatCurrency(availableBalance)}. Keep shopping to earn more!
             </AlertDescription>
           </Alert>
         )}
@@ -369,7 +282,7 @@ export default function PayoutPage() {
             <CardHeader>
               <CardTitle className="text-lg sm:text-xl">Enter Payout Details</CardTitle>
               <CardDescription>
-                Enter the amount you wish to withdraw (between {formatCurrency(MIN_PAYOUT_AMOUNT)} and {formatCurrency(availableBalance)}).
+                Enter the amount you wish to withdraw (between {formatCurrency(selectedPayoutMethod ? minPayoutAmounts[selectedPayoutMethod] : lowestMinPayout)} and {formatCurrency(availableBalance)}).
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -386,7 +299,7 @@ export default function PayoutPage() {
                         setValue('requestedAmount', val === '' ? 0 : parseFloat(val), {shouldValidate: true});
                       }
                     })}
-                    placeholder={`Min ${formatCurrency(MIN_PAYOUT_AMOUNT)}`}
+                    placeholder={`Min ${formatCurrency(selectedPayoutMethod ? minPayoutAmounts[selectedPayoutMethod] : lowestMinPayout)}`}
                     disabled={isSubmitting}
                     className={errors.requestedAmount ? "border-destructive" : ""}
                   />
@@ -400,12 +313,16 @@ export default function PayoutPage() {
                     control={control}
                     render={({ field }) => (
                       <RadioGroup
-                        onValueChange={field.onChange}
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          // Amount and detail checks depend on the method.
+                          trigger(['requestedAmount', 'payoutDetail']);
+                        }}
                         value={field.value}
-                        className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-4"
+                        className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-4"
                         aria-label="Payout Method"
                       >
-                        {(['bank_transfer', 'paypal', 'gift_card'] as PayoutMethod[]).map((method) => (
+                        {PAYOUT_METHODS.map((method) => (
                           <Label
                             key={method}
                             htmlFor={`payout-method-${method}`} // Changed ID for uniqueness
@@ -414,12 +331,9 @@ export default function PayoutPage() {
                             }`}
                           >
                             <RadioGroupItem value={method} id={`payout-method-${method}`} className="sr-only" />
-                            <span className="font-semibold capitalize mb-1 text-sm">{method.replace('_', ' ')}</span>
-                            <span className="text-xs text-muted-foreground text-center">
-                              {method === 'bank_transfer' && 'Bank/UPI'}
-                              {method === 'paypal' && 'PayPal Email'}
-                              {method === 'gift_card' && 'e.g., Amazon'}
-                            </span>
+                            <span className="font-semibold mb-1 text-sm">{PAYOUT_METHOD_INFO[method].label}</span>
+                            <span className="text-xs text-muted-foreground text-center">{PAYOUT_METHOD_INFO[method].hint}</span>
+                            <span className="text-[10px] text-muted-foreground text-center mt-1">Min {formatCurrency(minPayoutAmounts[method])}</span>
                           </Label>
                         ))}
                       </RadioGroup>
@@ -430,21 +344,13 @@ export default function PayoutPage() {
 
                 <div>
                   <Label htmlFor="payoutDetail">
-                    {watch('payoutMethod') === 'bank_transfer' && 'Bank Account No, IFSC, Name / UPI ID*'}
-                    {watch('payoutMethod') === 'paypal' && 'PayPal Email Address*'}
-                    {watch('payoutMethod') === 'gift_card' && 'Preferred Gift Card & Email to send*'}
-                    {!watch('payoutMethod') && 'Payment Details*'}
+                    {selectedMethodInfo ? selectedMethodInfo.detailLabel : 'Payment Details*'}
                   </Label>
                   <Textarea
                     id="payoutDetail"
                     {...register('payoutDetail')}
-                    placeholder={
-                      watch('payoutMethod') === 'bank_transfer' ? 'e.g., Account No, IFSC, Name or yourname@upi' :
-                      watch('payoutMethod') === 'paypal' ? 'your.paypal.email@example.com' :
-                      watch('payoutMethod') === 'gift_card' ? 'e.g., Amazon Gift Card to myemail@example.com' :
-                      'Enter relevant details here...'
-                    }
-                    rows={3}
+                    placeholder={selectedMethodInfo ? selectedMethodInfo.placeholder : 'Enter relevant details here...'}
+                    rows={selectedPayoutMethod === 'upi' ? 1 : 3}
                     disabled={isSubmitting}
                     className={errors.payoutDetail ? "border-destructive" : ""}
                   />
@@ -11,12 +11,26 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
 import { formatCurrency } from '@/lib/utils';
-import { AlertCircle, Gift, Users, IndianRupee, Share2, Copy } from 'lucide-react';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { getMyReferrals, type MyReferralsResult, type RefereeStatus } from '@/lib/actions/referrals';
+import type { ReferralBonus } from '@/lib/types';
+import { format } from 'date-fns';
+import { AlertCircle, Gift, Users, IndianRupee, Share2, Copy, Hourglass, TrendingUp } from 'lucide-react';
 import ProtectedRoute from '@/components/guards/protected-route';
 import Link from 'next/link';
 
+const REFEREE_STATUS_INFO: Record<RefereeStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  joined: { label: 'Joined', variant: 'outline' },
+  qualified: { label: 'Qualified', variant: 'default' },
+  expired: { label: 'Bonus Expired', variant: 'secondary' },
+  inactive: { label: 'Inactive', variant: 'destructive' },
+};
+
 function ReferralsPageSkeleton() {
     return (
         <div className="space-y-8 max-w-3xl mx-auto">
@@ -36,7 +50,8 @@ function ReferralsPageSkeleton() {
                             <Skeleton className="h-10 w-10" />
                         </div>
                     </div>
-                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-4 border-t">
+                     <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 pt-4 border-t">
+                        <Skeleton className="h-16 w-full" />
                         <Skeleton className="h-16 w-full" />
                         <Skeleton className="h-16 w-full" />
                      </div>
@@ -66,6 +81,9 @@ export default function ReferralsPage() {
   const { toast } = useToast();
   const [referralLink, setReferralLink] = React.useState('');
   const [loadingPage, setLoadingPage] = React.useState(true); // Local loading state for this page content
+  const [pendingBonus, setPendingBonus] = React.useState(0);
+  const [myReferrals, setMyReferrals] = React.useState<MyReferralsResult | null>(null);
+  const [loadingReferees, setLoadingReferees] = React.useState(true);
 
   React.useEffect(() => {
     let isMounted = true;
@@ -89,6 +107,34 @@ export default function ReferralsPage() {
     return () => { isMounted = false; };
   }, [user, userProfile, authLoading, router]);
 
+  // Bonuses waiting for the referred friend's first qualifying purchase.
+  React.useEffect(() => {
+    if (!db || !user) return;
+    let isMounted = true;
+    getDocs(query(collection(db, 'referralBonuses'), where('referrerId', '==', user.uid)))
+      .then(snapshot => {
+        const pending = snapshot.docs
+          .map(docSnap => docSnap.data() as Omit<ReferralBonus, 'id'>)
+          .filter(bonus => bonus.status === 'pending')
+          .reduce((total, bonus) => total + bonus.amount, 0);
+        if (isMounted) setPendingBonus(pending);
+      })
+      .catch(err => console.error('REFERRALS_PAGE: Failed to fetch referral bonuses:', err));
+    return () => { isMounted = false; };
+  }, [user]);
+
+  // Referees with masked names, and what was earned through each of them.
+  React.useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+    setLoadingReferees(true);
+    getMyReferrals()
+      .then(result => { if (isMounted) setMyReferrals(result); })
+      .catch(err => console.error('REFERRALS_PAGE: Failed to fetch referees:', err))
+      .finally(() => { if (isMounted) setLoadingReferees(false); });
+    return () => { isMounted = false; };
+  }, [user]);
+
   const handleCopyLink = async () => {
     if (!referralLink) return;
     try {
@@ -145,9 +191,15 @@ export default function ReferralsPage() {
      );
    }
 
+  const programmeRules = myReferrals?.rules;
+  const shareEarned = (myReferrals?.referees || []).reduce((total, referee) => total + referee.shareEarned + referee.secondTierEarned, 0);
   const referralStats = [
     { title: "Friends Referred", value: userProfile.referralCount || 0, icon: Users },
     { title: "Bonus Earned", value: formatCurrency(userProfile.referralBonusEarned || 0), icon: IndianRupee },
+    { title: "Pending Bonus", value: formatCurrency(pendingBonus), icon: Hourglass },
+    ...(programmeRules?.revenueShareEnabled || shareEarned > 0
+      ? [{ title: "Revenue Share", value: formatCurrency(shareEarned), icon: TrendingUp }]
+      : []),
   ];
 
   return (
@@ -197,7 +249,7 @@ export default function ReferralsPage() {
                 </div>
             </div>
 
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-4 border-t">
+            <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 pt-4 border-t ${referralStats.length > 3 ? 'lg:grid-cols-4' : 'lg:grid-cols-3'}`}>
                 {referralStats.map((stat) => (
                 <div key={stat.title} className="flex items-center gap-3 p-3 bg-muted/50 rounded-md border">
                     <stat.icon className="w-6 h-6 text-primary" />
@@ -216,6 +268,72 @@ export default function ReferralsPage() {
             </CardFooter>
         </Card>
 
+        <Card>
+            <CardHeader>
+            <CardTitle>Your Referrals</CardTitle>
+            <CardDescription>Friends who signed up with your link. Names and emails are partly hidden for their privacy.</CardDescription>
+            </CardHeader>
+            <CardContent>
+            {loadingReferees ? (
+                <div className="space-y-2">
+                <Skeleton className="h-8 w-full" />
+                <Skeleton className="h-8 w-full" />
+                </div>
+            ) : !myReferrals || myReferrals.referees.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No referrals yet. Share your link to get started.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                <Table>
+                    <TableHeader>
+                    <TableRow>
+                        <TableHead>Friend</TableHead>
+                        <TableHead>Joined</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Bonus</TableHead>
+                        <TableHead className="text-right">Revenue Share</TableHead>
+                        {(programmeRules?.tier2Percent ?? 0) > 0 && <TableHead className="text-right">Their Referrals</TableHead>}
+                    </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                    {myReferrals.referees.map((referee, index) => {
+                        const statusInfo = REFEREE_STATUS_INFO[referee.status];
+                        return (
+                        <TableRow key={`${referee.maskedName}-${referee.joinedAtMillis ?? index}-${index}`}>
+                            <TableCell>
+                            <p className="font-medium">{referee.maskedName}</p>
+                            {referee.maskedEmail && <p className="text-xs text-muted-foreground">{referee.maskedEmail}</p>}
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">{referee.joinedAtMillis ? format(new Date(referee.joinedAtMillis), 'PP') : 'N/A'}</TableCell>
+                            <TableCell><Badge variant={statusInfo.variant} className="whitespace-nowrap">{statusInfo.label}</Badge></TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                            {referee.bonusStatus ? (
+                                <>
+                                {formatCurrency(referee.bonusAmount)}
+                                <span className="block text-xs text-muted-foreground capitalize">{referee.bonusStatus}</span>
+                                </>
+                            ) : '-'}
+                            </TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                            {formatCurrency(referee.shareEarned)}
+                            {programmeRules?.revenueShareEnabled && referee.revenueShareEndsAtMillis && (
+                                <span className="block text-xs text-muted-foreground">
+                                {referee.revenueShareEndsAtMillis > Date.now() ? 'Until' : 'Ended'} {format(new Date(referee.revenueShareEndsAtMillis), 'PP')}
+                                </span>
+                            )}
+                            </TableCell>
+                            {(programmeRules?.tier2Percent ?? 0) > 0 && (
+                            <TableCell className="text-right whitespace-nowrap">{formatCurrency(referee.secondTierEarned)}</TableCell>
+                            )}
+                        </TableRow>
+                        );
+                    })}
+                    </TableBody>
+                </Table>
+                </div>
+            )}
+            </CardContent>
+        </Card>
+
         <Card>
             <CardHeader>
             <CardTitle>How Referrals Work</CardTitle>
@@ -224,7 +342,20 @@ export default function ReferralsPage() {
             <p>1. Share your unique referral link above.</p>
             <p>2. Your friend signs up using your link.</p>
             <p>3. They make their first eligible purchase via MagicSaver.</p>
-            <p>4. Once their cashback is confirmed, you both receive a bonus!</p>
+            <p>4. Your bonus shows as pending until their first qualifying purchase is confirmed, then moves to your cashback balance.</p>
+            <p>5. Pending bonuses expire if no qualifying purchase is confirmed in time.</p>
+            {programmeRules?.revenueShareEnabled && (
+                <>
+                <p>
+                    6. You also earn {programmeRules.tier1Percent}% of the cashback your friends earn on every confirmed purchase
+                    {programmeRules.revenueShareDays ? ` for ${programmeRules.revenueShareDays} days after they sign up` : ' for as long as they shop with us'}.
+                    It goes straight to your cashback balance.
+                </p>
+                {programmeRules.tier2Percent > 0 && (
+                    <p>7. When your friends refer others, you earn {programmeRules.tier2Percent}% of the cashback those people earn too.</p>
+                )}
+                </>
+            )}
             </CardContent>
         </Card>
         </div>
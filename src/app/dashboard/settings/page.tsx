@@ -35,6 +35,7 @@ import { AlertCircle, Eye, EyeOff, Loader2, User, Lock, Mail, CreditCard, Settin
 import ProtectedRoute from '@/components/guards/protected-route';
 import { Skeleton } from '@/components/ui/skeleton';
 import type { PayoutDetails, PayoutMethod, UserProfile as AppUserProfileType } from '@/lib/types';
+import { PAYOUT_METHODS, PAYOUT_METHOD_INFO, payoutDetailError } from '@/lib/payout-methods';
 import {
   Dialog,
   DialogContent,
@@ -54,8 +55,13 @@ const profileSchema = z.object({
 type ProfileFormValues = z.infer<typeof profileSchema>;
 
 const payoutDetailsSchema = z.object({
-  method: z.enum(['bank_transfer', 'paypal', 'gift_card'] as [PayoutMethod, ...PayoutMethod[]], { required_error: "Please select a payout method." }),
+  method: z.enum(PAYOUT_METHODS as [PayoutMethod, ...PayoutMethod[]], { required_error: "Please select a payout method." }),
   detail: z.string().min(5, "Payout details must be at least 5 characters.").max(200, "Details too long."),
+}).superRefine((data, ctx) => {
+  const detailError = payoutDetailError(data.method, data.detail);
+  if (detailError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: detailError, path: ['detail'] });
+  }
 });
 type PayoutDetailsFormValues = z.infer<typeof payoutDetailsSchema>;
 
@@ -380,10 +386,10 @@ export default function SettingsPage() {
                   <RadioGroup
                     onValueChange={field.onChange}
                     value={field.value}
-                    className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-4"
+                    className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-4"
                     aria-label="Payout Method"
                   >
-                    {(['bank_transfer', 'paypal', 'gift_card'] as PayoutMethod[]).map((method) => (
+                    {PAYOUT_METHODS.map((method) => (
                       <Label
                         key={method}
                         htmlFor={`payout-settings-${method}`}
@@ -392,12 +398,8 @@ export default function SettingsPage() {
                         }`}
                       >
                         <RadioGroupItem value={method} id={`payout-settings-${method}`} className="sr-only" />
-                        <span className="font-semibold capitalize text-sm mb-1">{method.replace('_', ' ')}</span>
-                         <span className="text-xs text-muted-foreground text-center">
-                            {method === 'bank_transfer' && 'Bank/UPI'}
-                            {method === 'paypal' && 'PayPal Email'}
-                            {method === 'gift_card' && 'e.g., Amazon'}
-                         </span>
+                        <span className="font-semibold text-sm mb-1">{PAYOUT_METHOD_INFO[method].label}</span>
+                        <span className="text-xs text-muted-foreground text-center">{PAYOUT_METHOD_INFO[method].hint}</span>
                       </Label>
                     ))}
                   </RadioGroup>
@@ -406,15 +408,12 @@ export default function SettingsPage() {
               {payoutForm.formState.errors.method && <p className="text-sm text-destructive">{payoutForm.formState.errors.method.message}</p>}
               <div>
                 <Label htmlFor="payoutDetailSettings">
-                  {payoutForm.watch('method') === 'bank_transfer' && 'Bank Account / UPI ID*'}
-                  {payoutForm.watch('method') === 'paypal' && 'PayPal Email Address*'}
-                  {payoutForm.watch('method') === 'gift_card' && 'Preferred Gift Card (e.g., Amazon)*'}
-                  {!payoutForm.watch('method') && 'Payment Details*'}
+                  {payoutForm.watch('method') ? PAYOUT_METHOD_INFO[payoutForm.watch('method')].detailLabel : 'Payment Details*'}
                 </Label>
                 <Textarea
                   id="payoutDetailSettings"
                   {...payoutForm.register('detail')}
-                  placeholder="Enter your payout details..."
+                  placeholder={payoutForm.watch('method') ? PAYOUT_METHOD_INFO[payoutForm.watch('method')].placeholder : 'Enter your payout details...'}
                   rows={2}
                   disabled={payoutLoading}
                   className={payoutForm.formState.errors.detail ? "border-destructive" : ""}
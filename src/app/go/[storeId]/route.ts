@@ -0,0 +1,134 @@
+// src/app/go/[storeId]/route.ts
+// Outbound click redirect: /go/{storeId}?product={productId}&coupon={couponId}
+// Records the Click server-side, builds the outbound URL for the store's
+// affiliate network and redirects, so clicks are logged even if popups are blocked.
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { adminAuth, adminDb, adminInitializationError } from '@/lib/firebase/admin';
+import { SESSION_COOKIE_NAME } from '@/lib/firebase/session';
+import { buildAffiliateUrl } from '@/lib/affiliate-networks';
+import { activeRateTiers, headlineRate } from '@/lib/cashback-rates';
+import { isValidHttpUrl, storePath } from '@/lib/utils';
+import type { Click, Coupon, Product, Store } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const GO_ROUTE_LOG_PREFIX = "GO_ROUTE:";
+
+async function getSessionUserId(request: NextRequest): Promise<string | null> {
+  const idToken = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!idToken || !adminAuth) return null;
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken);
+    return decoded.uid;
+  } catch (error) {
+    // Expired or tampered cookie: record the click as a guest click.
+    console.warn(`${GO_ROUTE_LOG_PREFIX} Ignoring invalid session cookie:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// The proxy in front of the app appends the address it saw to X-Forwarded-For,
+// so the last entry is the one the caller cannot forge (as getCallerIp in
+// functions/src/postback-auth.ts).
+function hashIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  const ip = forwardedFor?.split(',').map(hop => hop.trim()).filter(Boolean).pop() || request.headers.get('x-real-ip');
+  if (!ip) return null;
+  const salt = process.env.CLICK_IP_HASH_SALT || '';
+  return createHash('sha256').update(`${salt}:${ip}`).digest('hex');
+}
+
+function noStoreRedirect(url: string | URL) {
+  const response = NextResponse.redirect(url, 302);
+  response.headers.set('Cache-Control', 'no-store');
+  return response;
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ storeId: string }> }) {
+  const { storeId } = await params;
+  const productId = request.nextUrl.searchParams.get('product');
+  const couponId = request.nextUrl.searchParams.get('coupon');
+  // The store page redirects an ID to the store's current slug.
+  const storePageUrl = new URL(storePath({ id: storeId }), request.url);
+
+  if (!adminDb || adminInitializationError) {
+    console.error(`${GO_ROUTE_LOG_PREFIX} ${adminInitializationError || "Admin SDK not available."}`);
+    return noStoreRedirect(storePageUrl);
+  }
+
+  try {
+    const [storeSnap, productSnap, couponSnap] = await Promise.all([
+      adminDb.collection('stores').doc(storeId).get(),
+      productId ? adminDb.collection('products').doc(productId).get() : Promise.resolve(null),
+      couponId ? adminDb.collection('coupons').doc(couponId).get() : Promise.resolve(null),
+    ]);
+
+    if (!storeSnap.exists || storeSnap.data()?.isActive === false) {
+      console.warn(`${GO_ROUTE_LOG_PREFIX} Store ${storeId} not found or inactive.`);
+      return noStoreRedirect(new URL('/stores', request.url));
+    }
+    const store = storeSnap.data() as Omit<Store, 'id'>;
+
+    // Products and coupons must belong to the store in the path.
+    const product = productSnap?.exists && productSnap.data()?.storeId === storeId
+      ? productSnap.data() as Omit<Product, 'id'>
+      : null;
+    const coupon = couponSnap?.exists && couponSnap.data()?.storeId === storeId
+      ? couponSnap.data() as Omit<Coupon, 'id'>
+      : null;
+
+    const originalLink = [product?.affiliateLink, coupon?.link, store.affiliateLink]
+      .find((link): link is string => isValidHttpUrl(link));
+    if (!originalLink) {
+      console.warn(`${GO_ROUTE_LOG_PREFIX} No valid outbound link for store ${storeId} (product: ${productId}, coupon: ${couponId}).`);
+      return noStoreRedirect(new URL(storePath({ id: storeId, slug: store.slug }), request.url));
+    }
+
+    const clickId = uuidv4();
+    const affiliateLink = buildAffiliateUrl(originalLink, store, clickId);
+    const userId = await getSessionUserId(request);
+
+    // Snapshot the rate shown at click time; processConversion prefers it over the current store rate.
+    // Stores with rate tiers are not locked to one value (the tier depends on what is bought);
+    // the rate version locks the whole rate card instead.
+    const hasRateTiers = activeRateTiers(store).length > 0;
+    const clickData: Omit<Click, 'id'> = {
+      clickId,
+      userId,
+      storeId,
+      storeName: store.name || null,
+      couponId: coupon ? couponId : null,
+      productId: product ? productId : null,
+      productName: product?.name || null,
+      affiliateLink,
+      originalLink,
+      timestamp: FieldValue.serverTimestamp(),
+      userAgent: request.headers.get('user-agent'),
+      ipHash: hashIp(request),
+      referrer: request.headers.get('referer'),
+      clickedCashbackDisplay: product?.productSpecificCashbackDisplay || headlineRate(store) || store.cashbackRate || null,
+      clickedCashbackRateValue: product?.productSpecificCashbackRateValue ?? (hasRateTiers ? null : store.cashbackRateValue ?? null),
+      clickedCashbackType: product?.productSpecificCashbackType ?? (hasRateTiers ? null : store.cashbackType ?? null),
+      clickedRateVersionId: store.rateVersionId || null,
+      clickedRateVersion: store.rateVersion ?? null,
+      hasConversion: false,
+      conversionId: null,
+    };
+
+    try {
+      await adminDb.collection('clicks').doc(clickId).set(clickData);
+      console.log(`${GO_ROUTE_LOG_PREFIX} Click ${clickId} recorded for store ${storeId}, user ${userId || 'guest'}.`);
+    } catch (error) {
+      // Still send the user on their way; the conversion will surface as unmatched.
+      console.error(`${GO_ROUTE_LOG_PREFIX} Failed to record click ${clickId}:`, error);
+    }
+
+    return noStoreRedirect(affiliateLink);
+  } catch (error) {
+    console.error(`${GO_ROUTE_LOG_PREFIX} Error handling outbound click for store ${storeId}:`, error);
+    return noStoreRedirect(storePageUrl);
+  }
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import type { HomePageData } from '@/lib/catalog-data';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import Autoplay from "embla-carousel-autoplay";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import StoreCard from '@/components/store-card';
+import CouponCard from '@/components/coupon-card';
+import ProductCard from '@/components/product-card';
+import { useRouter } from 'next/navigation';
+import { ArrowRight, List, Search, AlertCircle, Sparkles, Percent, ShoppingBag } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+
+interface HomeClientContentProps extends HomePageData {
+  loadError?: string | null;
+}
+
+export default function HomeClientContent({ banners, categories, featuredStores, topCoupons, todaysPicks, loadError }: HomeClientContentProps) {
+  const router = useRouter();
+  const [searchTerm, setSearchTerm] = React.useState('');
+
+  const handleSearchSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!searchTerm.trim()) return;
+    router.push(`/search?q=${encodeURIComponent(searchTerm.trim())}`);
+    setSearchTerm('');
+  };
+
+  return (
+    <div className="space-y-12 md:space-y-16 lg:space-y-20">
+      {/* Banners Carousel */}
+      <section className="relative -mx-4 sm:-mx-6 md:-mx-0">
+        {banners.length > 0 ? (
+          <Carousel
+            plugins={[Autoplay({ delay: 5000, stopOnInteraction: true })]}
+            className="w-full rounded-lg overflow-hidden shadow-lg border"
+            opts={{ loop: true }}
+          >
+            <CarouselContent>
+              {banners.map((banner, index) => (
+                <CarouselItem key={banner.id || index}>
+                  <Link href={banner.link || '#'} className="block relative aspect-[16/7] md:aspect-[16/6] lg:aspect-[16/5] w-full">
+                    <Image
+                      src={banner.imageUrl || 'https://placehold.co/1200x400.png'}
+                      alt={banner.altText || banner.title || 'Promotional Banner'}
+                      fill
+                      className="object-cover"
+                      priority={index === 0}
+                      data-ai-hint={banner.dataAiHint || "promotion offer sale"}
+                      onError={(e) => ((e.target as HTMLImageElement).src = 'https://placehold.co/1200x400.png?text=Banner+Error')}
+                    />
+                    {(banner.title || banner.subtitle) && (
+                       <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-black/30 to-transparent flex flex-col justify-end p-4 md:p-8">
+                        {banner.title && <h2 className="text-xl md:text-3xl lg:text-4xl font-bold text-white drop-shadow-md mb-1">{banner.title}</h2>}
+                        {banner.subtitle && <p className="text-sm md:text-lg text-gray-200 drop-shadow-sm">{banner.subtitle}</p>}
+                       </div>
+                    )}
+                  </Link>
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            {banners.length > 1 && (
+                <>
+                    <CarouselPrevious className="absolute left-2 sm:left-4 top-1/2 -translate-y-1/2 bg-background/70 hover:bg-background text-foreground" />
+                    <CarouselNext className="absolute right-2 sm:right-4 top-1/2 -translate-y-1/2  bg-background/70 hover:bg-background text-foreground" />
+                </>
+            )}
+          </Carousel>
+        ) : loadError ? null : (
+          <div className="text-center py-10 text-muted-foreground bg-muted/30 rounded-lg">No promotional banners available.</div>
+        )}
+      </section>
+
+      {/* Search Bar Section */}
+      <section className="py-6 md:py-8">
+          <Card className="max-w-2xl mx-auto shadow-md border-2 border-primary/50 p-1 bg-gradient-to-r from-primary/5 via-background to-secondary/5 rounded-xl">
+              <CardHeader className="pb-3 pt-4 text-center">
+                  <CardTitle className="text-xl sm:text-2xl font-semibold">Find the Best Deals & Cashback</CardTitle>
+              </CardHeader>
+              <CardContent className="p-3 sm:p-4">
+                  <form onSubmit={handleSearchSubmit} className="flex gap-2 items-center">
+                      <Search className="ml-2 h-5 w-5 text-muted-foreground hidden sm:block" />
+                      <Input
+                         type="search"
+                         name="search"
+                         placeholder="Search for stores, brands or products..."
+                         className="flex-grow h-11 text-base rounded-md shadow-inner"
+                         value={searchTerm}
+                         onChange={(e) => setSearchTerm(e.target.value)}
+                      />
+                      <Button type="submit" size="lg" className="h-11 text-base rounded-md">Search</Button>
+                  </form>
+              </CardContent>
+          </Card>
+      </section>
+
+      {/* Today's Picks (Products) */}
+      <section>
+        <div className="flex justify-between items-center mb-4 md:mb-6">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Sparkles className="w-6 h-6 text-amber-500" /> Today's Picks
+          </h2>
+        </div>
+        {todaysPicks.length > 0 ? (
+           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3 md:gap-4">
+            {todaysPicks.map(product => (
+              <ProductCard key={product.id} product={product} storeContext={product.store} />
+            ))}
+          </div>
+        ) : loadError ? null : (
+          <div className="text-center py-6 text-muted-foreground text-sm bg-muted/30 rounded-lg border p-4">No special product picks for today. Check back soon!</div>
+        )}
+      </section>
+
+      {/* Featured Stores */}
+      <section>
+        <div className="flex justify-between items-center mb-4 md:mb-6">
+          <h2 className="text-2xl font-bold flex items-center gap-2"><ShoppingBag className="w-6 h-6 text-primary" /> Featured Stores</h2>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/stores" className="flex items-center gap-1">View All <ArrowRight className="w-4 h-4" /></Link>
+          </Button>
+        </div>
+        {featuredStores.length > 0 ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3 md:gap-4">
+            {featuredStores.map(store => <StoreCard key={store.id} store={store} />)}
+          </div>
+        ) : loadError ? null : (
+          <div className="text-center py-6 text-muted-foreground text-sm bg-muted/30 rounded-lg border p-4">No featured stores available right now.</div>
+        )}
+      </section>
+
+      {/* Top Coupons & Offers */}
+      <section>
+        <div className="flex justify-between items-center mb-4 md:mb-6">
+          <h2 className="text-2xl font-bold flex items-center gap-2"><Percent className="w-6 h-6 text-destructive" /> Top Coupons & Offers</h2>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/coupons" className="flex items-center gap-1">View All <ArrowRight className="w-4 h-4" /></Link>
+          </Button>
+        </div>
+        {topCoupons.length > 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+            {topCoupons.map(coupon => <CouponCard key={coupon.id} coupon={coupon} />)}
+          </div>
+        ) : loadError ? null : (
+          <div className="text-center py-6 text-muted-foreground text-sm bg-muted/30 rounded-lg border p-4">No top coupons featured at the moment.</div>
+        )}
+      </section>
+
+      {/* Popular Categories */}
+      <section>
+        <div className="flex justify-between items-center mb-4 md:mb-6">
+          <h2 className="text-2xl font-bold flex items-center gap-2"><List className="w-6 h-6 text-secondary" /> Popular Categories</h2>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/categories" className="flex items-center gap-1">View All <ArrowRight className="w-4 h-4" /></Link>
+          </Button>
+        </div>
+        {categories.length > 0 ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3 md:gap-4">
+            {categories.map(category => (
+              <Link key={category.id} href={`/category/${category.slug}`} className="block group">
+                <Card className="flex flex-col items-center text-center p-3 hover:shadow-lg transition-shadow duration-200 h-full bg-card hover:bg-muted/50">
+                  <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-2 overflow-hidden border group-hover:border-primary transition-colors">
+                    {category.imageUrl ? (
+                      <Image 
+                        src={category.imageUrl} 
+                        alt={category.name} 
+                        width={64} 
+                        height={64} 
+                        className="object-contain p-1" 
+                        data-ai-hint={category.dataAiHint || "category icon"}
+                        onError={(e) => ((e.target as HTMLImageElement).src = 'https://placehold.co/64x64.png?text=Icon')}
+                      />
+                    ) : (
+                      <List className="w-8 h-8 text-muted-foreground" />
+                    )}
+                  </div>
+                  <p className="text-sm font-medium group-hover:text-primary transition-colors">{category.name}</p>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        ) : loadError ? null : (
+           <div className="text-center py-6 text-muted-foreground text-sm bg-muted/30 rounded-lg border p-4">No categories available right now.</div>
+        )}
+      </section>
+
+      {loadError && (
+         <Alert variant="destructive" className="mt-12">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Content Loading Issue</AlertTitle>
+            <AlertDescription>
+                {loadError} Some content may be missing.
+            </AlertDescription>
+         </Alert>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import type { Metadata } from 'next';
 import { Inter as FontSans } from 'next/font/google';
 import './globals.css';
 import { cn } from "@/lib/utils";
+import { SITE_DESCRIPTION, SITE_NAME, SITE_URL } from '@/lib/seo';
 import { AuthProvider } from '@/hooks/use-auth';
 import Header from '@/components/layout/header';
 import Footer from '@/components/layout/footer';
@@ -16,8 +17,13 @@ const fontSans = FontSans({
 });
 
 export const metadata: Metadata = {
-  title: 'MagicSaver - Cashback & Coupons',
-  description: 'Get cashback and find the best coupons for your online shopping with MagicSaver.',
+  metadataBase: new URL(SITE_URL),
+  title: {
+    default: `${SITE_NAME} - Cashback & Coupons`,
+    template: `%s | ${SITE_NAME}`,
+  },
+  description: SITE_DESCRIPTION,
+  openGraph: { type: 'website', siteName: SITE_NAME },
 };
 
 export default function RootLayout({
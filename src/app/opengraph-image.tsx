@@ -0,0 +1,19 @@
+import { ImageResponse } from 'next/og';
+import { SITE_DESCRIPTION, SITE_NAME } from '@/lib/seo';
+
+// Default share image for pages without one of their own.
+export const alt = `${SITE_NAME} - Cashback & Coupons`;
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+export default function OpengraphImage() {
+  return new ImageResponse(
+    (
+      <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', justifyContent: 'center', padding: 80, background: 'hsl(221, 83%, 53%)', color: 'white' }}>
+        <div style={{ fontSize: 96, fontWeight: 700 }}>{SITE_NAME}</div>
+        <div style={{ fontSize: 40, marginTop: 24, opacity: 0.9 }}>{SITE_DESCRIPTION}</div>
+      </div>
+    ),
+    size,
+  );
+}
@@ -2,35 +2,19 @@
 
 import * as React from 'react';
 import { useSearchParams } from 'next/navigation';
-import {
-  collection,
-  query,
-  where,
-  orderBy,
-  limit,
-  getDocs,
-  getDoc,
-  doc,
-  QueryConstraint,
-  Timestamp
-} from 'firebase/firestore';
-import { db, firebaseInitializationError } from '@/lib/firebase/config';
-import type { Store, Coupon } from '@/lib/types';
+import Link from 'next/link';
+import { fetchCatalogSearch, emptySearchResults, type CatalogSearchResults } from '@/lib/search/api';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import StoreCard from '@/components/store-card';
 import CouponCard from '@/components/coupon-card';
-import { AlertCircle, Search as SearchIconLucide, ShoppingBag, Tag } from 'lucide-react';
-import { safeToDate } from '@/lib/utils';
+import ProductCard from '@/components/product-card';
+import { AlertCircle, LayoutGrid, Package, Search as SearchIconLucide, ShoppingBag, Tag } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 export const dynamic = 'force-dynamic';
 const SEARCH_LIMIT = 12;
 
-interface CouponWithStore extends Coupon {
-  store?: Store;
-}
-
 function SearchPageSkeleton() {
   return (
     <div className="space-y-8">
@@ -63,8 +47,7 @@ export default function SearchPage() {
   const { toast } = useToast();
 
   const [searchTerm, setSearchTerm] = React.useState(queryParam || '');
-  const [stores, setStores] = React.useState<Store[]>([]);
-  const [coupons, setCoupons] = React.useState<CouponWithStore[]>([]);
+  const [results, setResults] = React.useState<CatalogSearchResults>(emptySearchResults(''));
   const [loading, setLoading] = React.useState(true);
   const [pageError, setPageError] = React.useState<string | null>(null);
   const [executedSearch, setExecutedSearch] = React.useState(queryParam || '');
@@ -77,127 +60,30 @@ export default function SearchPage() {
   }, [searchParams]);
 
   React.useEffect(() => {
-    let isMounted = true;
-    const performSearch = async (term: string) => {
-      if (!isMounted) return;
-      if (!term.trim()) { // Check if term is empty or just whitespace
-        if (isMounted) {
-          setStores([]);
-          setCoupons([]);
-          setLoading(false);
-          setExecutedSearch(''); // Clear executed search if term is empty
-          setPageError(null); // Clear any previous errors
-        }
-        return;
-      }
-
-      setLoading(true);
+    const controller = new AbortController();
+    const term = searchTerm.trim();
+    if (!term) {
+      setResults(emptySearchResults(''));
+      setLoading(false);
+      setExecutedSearch('');
       setPageError(null);
-      setStores([]);
-      setCoupons([]);
-      // setExecutedSearch(term); // Moved to the effect above that listens to searchParams
-
-      if (firebaseInitializationError) {
-          if(isMounted) setPageError(`Database initialization failed: ${firebaseInitializationError}`);
-          if(isMounted) setLoading(false);
-          return;
-      }
-      if (!db) {
-        if(isMounted) setPageError("Database connection not available.");
-        if(isMounted) setLoading(false);
-        return;
-      }
-
-      const lowerTerm = term.toLowerCase();
-
-      try {
-        // Search Stores
-        const storesCollection = collection(db, 'stores');
-        // Firestore SDK doesn't directly support case-insensitive 'contains' queries.
-        // A common workaround is to query for a range and then filter client-side.
-        // Or, use a third-party search service like Algolia for better search capabilities.
-        // This query fetches stores whose names start with the search term (case-sensitive).
-        const storeNameConstraints: QueryConstraint[] = [
-          where('isActive', '==', true),
-          orderBy('name'),
-          where('name', '>=', term),
-          where('name', '<=', term + '\uf8ff'), // '\uf8ff' is a high-Unicode character
-          limit(SEARCH_LIMIT)
-        ];
-
-        const storeQuery = query(storesCollection, ...storeNameConstraints);
-        const storeSnap = await getDocs(storeQuery);
-        let fetchedStores = storeSnap.docs.map(d => ({
-          id: d.id, ...d.data(),
-          createdAt: safeToDate(d.data().createdAt as Timestamp | undefined),
-          updatedAt: safeToDate(d.data().updatedAt as Timestamp | undefined),
-        } as unknown as Store));
-
-        // Client-side filter for better "contains" behavior (case-insensitive)
-        fetchedStores = fetchedStores.filter(s => s.name.toLowerCase().includes(lowerTerm));
-        if(isMounted) setStores(fetchedStores);
-
-        // Search Coupons (by description)
-        const couponsCollection = collection(db, 'coupons');
-        const couponDescConstraints: QueryConstraint[] = [
-          where('isActive', '==', true),
-          orderBy('description'),
-          where('description', '>=', term),
-          where('description', '<=', term + '\uf8ff'),
-          limit(SEARCH_LIMIT)
-        ];
-        const couponQuery = query(couponsCollection, ...couponDescConstraints);
-        const couponSnap = await getDocs(couponQuery);
-        let fetchedCouponsRaw = couponSnap.docs.map(d => ({
-          id: d.id, ...d.data(),
-          expiryDate: safeToDate(d.data().expiryDate as Timestamp | undefined),
-          createdAt: safeToDate(d.data().createdAt as Timestamp | undefined),
-          updatedAt: safeToDate(d.data().updatedAt as Timestamp | undefined),
-        } as unknown as Coupon));
-
-        fetchedCouponsRaw = fetchedCouponsRaw.filter(c => c.description.toLowerCase().includes(lowerTerm));
-
-        const enrichedCoupons: CouponWithStore[] = [];
-        if (fetchedCouponsRaw.length > 0) {
-           const storeCache = new Map<string, Store>();
-           fetchedStores.forEach(s => storeCache.set(s.id, s)); // Pre-populate cache
-
-           const couponPromises = fetchedCouponsRaw.map(async (coupon) => {
-             if (!coupon.storeId) return coupon;
-             let storeData = storeCache.get(coupon.storeId);
-             if (!storeData && db) {
-               try {
-                 const storeDocRef = doc(db, 'stores', coupon.storeId);
-                 const storeDocSnap = await getDoc(storeDocRef);
-                 if (storeDocSnap.exists()) {
-                   const rawStoreData = storeDocSnap.data();
-                   storeData = {
-                     id: storeDocSnap.id, ...rawStoreData,
-                     createdAt: safeToDate(rawStoreData.createdAt as Timestamp | undefined),
-                     updatedAt: safeToDate(rawStoreData.updatedAt as Timestamp | undefined),
-                   } as unknown as Store;
-                   storeCache.set(coupon.storeId, storeData);
-                 }
-               } catch (storeErr) {
-                 console.error(`Error fetching store ${coupon.storeId} for coupon ${coupon.id}:`, storeErr);
-               }
-             }
-             return { ...coupon, store: storeData };
-           });
-           enrichedCoupons.push(...await Promise.all(couponPromises));
-        }
-        if(isMounted) setCoupons(enrichedCoupons);
+      return;
+    }
 
-      } catch (err) {
+    setLoading(true);
+    setPageError(null);
+    fetchCatalogSearch(term, { limit: SEARCH_LIMIT, signal: controller.signal })
+      .then(setResults)
+      .catch(err => {
+        if (controller.signal.aborted) return;
         console.error("Error performing search:", err);
-        if(isMounted) setPageError(err instanceof Error ? err.message : "Failed to perform search.");
-      } finally {
-        if(isMounted) setLoading(false);
-      }
-    };
-
-    performSearch(searchTerm);
-    return () => { isMounted = false; };
+        setResults(emptySearchResults(term));
+        setPageError(err instanceof Error ? err.message : "Failed to perform search.");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
   }, [searchTerm]); // Rerun search when searchTerm (from URL via the other useEffect) changes
 
   React.useEffect(() => {
@@ -210,7 +96,8 @@ export default function SearchPage() {
     }
   }, [pageError, toast]);
 
-  const hasResults = stores.length > 0 || coupons.length > 0;
+  const { stores, coupons, products, categories } = results;
+  const hasResults = stores.length > 0 || coupons.length > 0 || products.length > 0 || categories.length > 0;
 
   if (loading && executedSearch) {
     return <SearchPageSkeleton />;
@@ -234,16 +121,35 @@ export default function SearchPage() {
       {!loading && !hasResults && executedSearch && !pageError && (
         <div className="text-center py-16 text-muted-foreground bg-muted/30 rounded-lg border">
           <p className="text-xl mb-4">No results found for "{executedSearch}".</p>
-          <p>Try searching for a different store or offer, or check your spelling.</p>
+          <p>Try searching for a different store, product or offer.</p>
         </div>
       )}
        {!loading && !executedSearch && !pageError && (
         <div className="text-center py-16 text-muted-foreground">
-          <p className="text-lg">Please enter a term in the search bar on the homepage or navigation to find stores and coupons.</p>
+          <p className="text-lg">Please enter a term in the search bar on the homepage or navigation to find stores, products and coupons.</p>
         </div>
       )}
 
 
+      {categories.length > 0 && (
+        <section>
+          <h2 className="text-2xl font-semibold mb-4 border-b pb-2 flex items-center gap-2">
+            <LayoutGrid className="w-6 h-6 text-primary" /> Matching Categories ({categories.length})
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {categories.map((category) => (
+              <Link
+                key={category.id}
+                href={`/category/${category.slug}`}
+                className="px-4 py-2 rounded-full border bg-muted/50 text-sm font-medium hover:bg-primary hover:text-primary-foreground transition-colors"
+              >
+                {category.name}
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+
       {stores.length > 0 && (
         <section>
           <h2 className="text-2xl font-semibold mb-4 border-b pb-2 flex items-center gap-2">
@@ -269,6 +175,19 @@ export default function SearchPage() {
           </div>
         </section>
       )}
+
+      {products.length > 0 && (
+        <section>
+          <h2 className="text-2xl font-semibold mb-4 border-b pb-2 flex items-center gap-2">
+            <Package className="w-6 h-6 text-primary" /> Matching Products ({products.length})
+          </h2>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 md:gap-6">
+            {products.map((product) => (
+              <ProductCard key={product.id} product={product} storeContext={product.store} />
+            ))}
+          </div>
+        </section>
+      )}
     </div>
   );
 }
@@ -0,0 +1,25 @@
+import type { MetadataRoute } from 'next';
+import { getSitemapData } from '@/lib/catalog-data';
+import { absoluteUrl } from '@/lib/seo';
+import { storePath } from '@/lib/utils';
+
+// Refreshed on admin edits through /api/revalidate; see src/lib/catalog-data.ts.
+// Coupons have no pages of their own; they count towards their store's lastModified.
+export const revalidate = 3600;
+
+const STATIC_ROUTES = ['/', '/stores', '/coupons', '/categories', '/how-it-works', '/faq', '/about', '/contact'];
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const { stores, categories } = await getSitemapData();
+  return [
+    ...STATIC_ROUTES.map(path => ({ url: absoluteUrl(path) })),
+    ...stores.map(store => ({
+      url: absoluteUrl(storePath(store)),
+      lastModified: store.lastModified ?? undefined,
+    })),
+    ...categories.map(category => ({
+      url: absoluteUrl(`/category/${category.slug}`),
+      lastModified: category.lastModified ?? undefined,
+    })),
+  ];
+}
@@ -0,0 +1,45 @@
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent } from '@/components/ui/card';
+
+export default function StoreDetailLoading() {
+  return (
+    <div className="space-y-8 max-w-4xl mx-auto">
+      <Skeleton className="h-8 w-24 mb-6" /> {/* Back button */}
+      <Skeleton className="h-48 md:h-64 w-full rounded-lg" />
+      <section className="flex flex-col md:flex-row items-start md:items-center gap-4 md:gap-6 p-4 bg-card rounded-lg shadow-md border">
+        <Skeleton className="w-[100px] h-[50px] rounded" />
+        <div className="flex-1 space-y-2">
+          <Skeleton className="h-6 w-3/4" />
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-1/2" />
+        </div>
+      </section>
+      <Skeleton className="h-20 w-full rounded-lg" />
+      <Skeleton className="h-24 w-full rounded-lg" />
+      <section className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Skeleton className="h-28 rounded-lg" />
+        <Skeleton className="h-28 rounded-lg" />
+        <Skeleton className="h-28 rounded-lg" />
+      </section>
+       <Skeleton className="h-12 w-full rounded-lg mt-4" />
+      <section>
+        <Skeleton className="h-8 w-1/2 mb-6" />
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-40 rounded-lg" />
+          ))}
+        </div>
+      </section>
+      <section>
+        <Skeleton className="h-7 w-1/3 mb-3" />
+        <Card className="bg-muted/50 border">
+          <CardContent className="p-4 space-y-2">
+            <Skeleton className="h-3 w-full" />
+            <Skeleton className="h-3 w-full" />
+            <Skeleton className="h-3 w-3/4" />
+          </CardContent>
+        </Card>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { ImageResponse } from 'next/og';
+import { getStorePageData, resolveStorePath } from '@/lib/catalog-data';
+import { SITE_NAME, cashbackSummary } from '@/lib/seo';
+
+export const alt = 'Store cashback and coupons';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+export const revalidate = 3600;
+
+export default async function StoreOpengraphImage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const resolved = await resolveStorePath(slug);
+  const data = resolved ? await getStorePageData(resolved.storeId) : null;
+  const title = data?.store.name ?? SITE_NAME;
+  const subtitle = data ? `${cashbackSummary(data.store)} · ${data.coupons.length} coupons & deals` : 'Cashback & Coupons';
+
+  return new ImageResponse(
+    (
+      <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', justifyContent: 'center', padding: 80, background: 'hsl(221, 83%, 53%)', color: 'white' }}>
+        {data?.store.logoUrl && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={data.store.logoUrl} alt="" height={120} style={{ marginBottom: 40, padding: 16, borderRadius: 16, background: 'white', objectFit: 'contain' }} />
+        )}
+        <div style={{ fontSize: 88, fontWeight: 700 }}>{title}</div>
+        <div style={{ fontSize: 44, marginTop: 16 }}>{subtitle}</div>
+        <div style={{ fontSize: 28, marginTop: 48, opacity: 0.8 }}>{SITE_NAME}</div>
+      </div>
+    ),
+    size,
+  );
+}
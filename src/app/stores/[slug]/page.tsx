@@ -0,0 +1,48 @@
+import type { Metadata } from 'next';
+import { notFound, permanentRedirect } from 'next/navigation';
+import { getStorePageData, resolveStorePath } from '@/lib/catalog-data';
+import { cashbackSummary, pageMetadata, storeJsonLd } from '@/lib/seo';
+import { storePath } from '@/lib/utils';
+import JsonLd from '@/components/json-ld';
+import StoreClientContent from './store-client-content';
+
+// Refreshed on admin edits through /api/revalidate; see src/lib/catalog-data.ts.
+export const revalidate = 3600;
+
+interface StorePageProps {
+  params: Promise<{ slug: string }>;
+}
+
+async function loadStorePage(segment: string) {
+  const resolved = await resolveStorePath(segment);
+  return resolved ? { resolved, data: await getStorePageData(resolved.storeId) } : null;
+}
+
+export async function generateMetadata({ params }: StorePageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const page = await loadStorePage(slug);
+  if (!page?.data) return { title: 'Store Not Found', robots: { index: false } };
+  const { store, coupons } = page.data;
+  const couponCount = coupons.length > 0 ? ` ${coupons.length} active coupon${coupons.length === 1 ? '' : 's'} and deals.` : '';
+  return pageMetadata({
+    title: `${store.name} Coupons & ${cashbackSummary(store)}`,
+    description: `${store.description}${couponCount}`.trim(),
+    path: storePath(store),
+  });
+}
+
+export default async function StoreDetailPage({ params }: StorePageProps) {
+  const { slug } = await params;
+  const page = await loadStorePage(slug);
+  if (!page) notFound();
+  // Old slugs and store IDs normally get a 301 from src/middleware.ts; this covers a failed lookup there.
+  if (page.resolved.slug !== slug) permanentRedirect(storePath({ id: page.resolved.storeId, slug: page.resolved.slug }));
+  if (!page.data) notFound();
+
+  return (
+    <>
+      <JsonLd data={storeJsonLd(page.data.store, page.data.coupons)} />
+      <StoreClientContent store={page.data.store} coupons={page.data.coupons} rateHistory={page.data.rateHistory} />
+    </>
+  );
+}
@@ -0,0 +1,26 @@
+import { notFound, permanentRedirect } from 'next/navigation';
+import { resolveStorePath } from '@/lib/catalog-data';
+import { storePath } from '@/lib/utils';
+import StoreProductsClientContent from './store-products-client-content';
+
+interface StoreProductsPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function StoreProductsPage({ params, searchParams }: StoreProductsPageProps) {
+  const { slug } = await params;
+  const resolved = await resolveStorePath(slug);
+  if (!resolved) notFound();
+  if (resolved.slug !== slug) {
+    // Keep ?highlight= and the like when moving to the current slug.
+    const query = new URLSearchParams();
+    Object.entries(await searchParams).forEach(([name, value]) => {
+      (Array.isArray(value) ? value : [value]).forEach(entry => { if (entry !== undefined) query.append(name, entry); });
+    });
+    const queryString = query.toString();
+    permanentRedirect(`${storePath({ id: resolved.storeId, slug: resolved.slug })}/products${queryString ? `?${queryString}` : ''}`);
+  }
+
+  return <StoreProductsClientContent storeId={resolved.storeId} />;
+}
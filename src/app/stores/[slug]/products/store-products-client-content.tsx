@@ -2,7 +2,7 @@
 "use client";
 
 import * as React from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useRouter } from 'next/navigation';
 import { collection, query, where, orderBy, limit, getDocs, doc, getDoc, startAfter, QueryDocumentSnapshot, DocumentData, Timestamp, QueryConstraint } from 'firebase/firestore';
 import { db, firebaseInitializationError } from '@/lib/firebase/config';
 import type { Store, Product } from '@/lib/types';
@@ -18,9 +18,7 @@ import { useToast } from '@/hooks/use-toast';
 
 const PRODUCTS_PER_PAGE = 18;
 
-export default function StoreProductsPage() {
-  const params = useParams();
-  const storeId = params.id as string;
+export default function StoreProductsClientContent({ storeId }: { storeId: string }) {
   const router = useRouter();
   const { toast } = useToast();
 
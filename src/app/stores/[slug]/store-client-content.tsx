@@ -0,0 +1,296 @@
+"use client";
+
+import * as React from 'react';
+import type { Store, Coupon, StoreRateVersion } from '@/lib/types';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import CouponCard from '@/components/coupon-card';
+import { ArrowLeft, Info, BadgePercent, ScrollText, Star, Clock, CheckSquare, ChevronRight, ShoppingBag, History, Zap } from 'lucide-react';
+import { safeToDate, formatCurrency, storePath } from '@/lib/utils';
+import { activeRateTiers, describeTierConditions, formatTierRate, headlineRate } from '@/lib/cashback-rates';
+import { format } from 'date-fns';
+import { useCampaigns } from '@/hooks/use-campaigns';
+import { describeEligibility, formatBoost, isCampaignLive, isCampaignUpcoming } from '@/lib/campaigns';
+import { CampaignCountdown } from '@/components/campaign-boost-badge';
+
+function describeRateVersion(version: StoreRateVersion): string {
+  const base = formatTierRate({ value: version.cashbackRateValue, type: version.cashbackType });
+  const tiers = (version.cashbackRates || []).map(tier => `${tier.name} ${formatTierRate(tier)}`);
+  return tiers.length > 0 ? `${base} base; ${tiers.join(', ')}` : base;
+}
+
+interface StoreClientContentProps {
+  store: Store;
+  coupons: Coupon[];
+  rateHistory: StoreRateVersion[];
+}
+
+export default function StoreClientContent({ store, coupons, rateHistory }: StoreClientContentProps) {
+  const router = useRouter();
+
+  const rateTiers = React.useMemo(() => activeRateTiers(store), [store]);
+  const campaigns = useCampaigns();
+  // Live campaigns first, strongest first; upcoming ones after them.
+  const storeCampaigns = React.useMemo(() => campaigns
+    .filter(campaign => campaign.storeId === store.id && (isCampaignLive(campaign) || isCampaignUpcoming(campaign)))
+    .sort((a, b) => Number(isCampaignLive(b)) - Number(isCampaignLive(a)) || b.multiplier - a.multiplier),
+  [campaigns, store.id]);
+
+  return (
+    <div className="space-y-8 max-w-4xl mx-auto">
+       <Button variant="outline" size="sm" onClick={() => router.back()} className="mb-6 hidden md:inline-flex">
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back
+       </Button>
+
+      {store && (
+          <section className="relative rounded-lg overflow-hidden shadow-lg border">
+            <Image
+              src={store.heroImageUrl || 'https://placehold.co/1200x400.png'}
+              alt={`${store.name} Deals`}
+              width={1200}
+              height={400}
+              className="object-cover w-full h-48 md:h-64"
+              data-ai-hint={`${store.name} promotional banner`}
+              priority
+            />
+            <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent flex flex-col justify-end p-6 md:p-8">
+              <h1 className="text-3xl md:text-4xl lg:text-5xl font-bold text-white drop-shadow-lg">
+                {store.name} Cashback & Offers
+              </h1>
+            </div>
+          </section>
+      )}
+
+      {store && (
+          <section className="flex flex-col md:flex-row items-start md:items-center gap-4 md:gap-6 p-4 bg-card rounded-lg shadow-md border">
+             {store.logoUrl ? (
+               <Image
+                 src={store.logoUrl}
+                 alt={`${store.name} Logo`}
+                 width={100}
+                 height={50}
+                 className="object-contain rounded border p-1 bg-white self-center md:self-start"
+                 data-ai-hint={store.dataAiHint || `${store.name} logo`}
+               />
+             ) : (
+                <div className="w-[100px] h-[50px] bg-muted rounded border flex items-center justify-center text-muted-foreground self-center md:self-start">
+                    No Logo
+                </div>
+             )}
+            <div className="flex-1 text-center md:text-left">
+              <h2 className="text-xl font-semibold mb-1">{store.name} Coupons & Cashback</h2>
+              <p className="text-sm text-muted-foreground mb-2 line-clamp-2">{store.description}</p>
+              {store.rating && store.ratingCount ? (
+                <div className="flex items-center justify-center md:justify-start text-sm text-amber-500">
+                  <Star className="w-4 h-4 fill-current mr-1" />
+                  <span>{store.rating.toFixed(1)} of 5 | {store.ratingCount} Ratings</span>
+                </div>
+              ): (
+                <p className="text-xs text-muted-foreground italic">No rating available</p>
+              )}
+            </div>
+          </section>
+      )}
+
+      {store && storeCampaigns.length > 0 && (
+        <section className="p-4 bg-amber-50 border-2 border-amber-200 rounded-lg shadow-sm space-y-3">
+          {storeCampaigns.map(campaign => {
+            const live = isCampaignLive(campaign);
+            const countdownTo = safeToDate(live ? campaign.endsAt : campaign.startsAt);
+            const eligibility = describeEligibility(campaign);
+            return (
+              <div key={campaign.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div>
+                  <h3 className="text-lg font-bold text-amber-800 flex items-center gap-2">
+                    <Zap className="w-5 h-5" /> {formatBoost(campaign)}: {campaign.name}
+                  </h3>
+                  <p className="text-sm text-amber-700">
+                    {campaign.productId ? (
+                      <Link href={`${storePath(store)}/products?highlight=${campaign.productId}`} className="underline hover:text-amber-900">On a selected product</Link>
+                    ) : 'On all purchases'}
+                    {eligibility && ` · ${eligibility}`}
+                    {campaign.maxBonusAmount != null && ` · Extra cashback up to ${formatCurrency(campaign.maxBonusAmount)}`}
+                  </p>
+                  {campaign.description && <p className="text-xs text-amber-700/80">{campaign.description}</p>}
+                </div>
+                {countdownTo && (
+                  <div className="text-sm font-semibold text-amber-900 whitespace-nowrap">
+                    {live ? 'Ends in ' : 'Starts in '}
+                    <CampaignCountdown until={countdownTo} className="font-mono" />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-xs text-amber-700/80">The boost applies when you click through to the store while the offer is live.</p>
+        </section>
+      )}
+
+      {store && (
+          <section className="p-4 bg-green-50 border-2 border-green-200 rounded-lg shadow-sm">
+            <h3 className="text-xl md:text-2xl font-bold text-green-700 mb-1">{headlineRate(store) || store.cashbackRate} Cashback</h3>
+            <p className="text-sm text-green-600 mb-2">Typically tracked within {store.cashbackTrackingTime || 'standard time'}.</p>
+            {rateTiers.length === 0 && store.detailedCashbackRatesLink && (
+              <Link href={store.detailedCashbackRatesLink} target="_blank" rel="noopener noreferrer" className="text-sm text-green-700 hover:text-green-800 font-medium flex items-center">
+                View Detailed Cashback Rates <ChevronRight className="w-4 h-4 ml-1" />
+              </Link>
+            )}
+            {rateTiers.length > 0 && (
+              <div className="mt-3 rounded-md border border-green-200 bg-white overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-green-100/60 text-green-800">
+                    <tr>
+                      <th className="text-left font-medium px-3 py-2">Cashback Rates</th>
+                      <th className="text-right font-medium px-3 py-2">Rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rateTiers.map(tier => {
+                      const validUntil = safeToDate(tier.validUntil);
+                      return (
+                        <tr key={tier.id} className="border-t border-green-100">
+                          <td className="px-3 py-2">
+                            <p className="font-medium">{tier.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {describeTierConditions(tier)}
+                              {tier.maxCashback != null && ` · Max ${formatCurrency(tier.maxCashback)}`}
+                              {validUntil && ` · Till ${format(validUntil, 'dd MMM yyyy')}`}
+                            </p>
+                            {tier.notes && <p className="text-xs text-muted-foreground italic">{tier.notes}</p>}
+                          </td>
+                          <td className="px-3 py-2 text-right font-semibold text-green-700 whitespace-nowrap">{formatTierRate(tier)}</td>
+                        </tr>
+                      );
+                    })}
+                    <tr className="border-t border-green-100">
+                      <td className="px-3 py-2">
+                        <p className="font-medium">Other purchases</p>
+                        <p className="text-xs text-muted-foreground">When no rate above applies</p>
+                      </td>
+                      <td className="px-3 py-2 text-right font-semibold text-green-700 whitespace-nowrap">{formatTierRate({ value: store.cashbackRateValue, type: store.cashbackType })}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+      )}
+
+      {store && rateHistory.length > 0 && (
+        <section className="p-4 bg-card rounded-lg shadow-md border">
+          <h3 className="text-lg font-semibold mb-1 flex items-center gap-2"><History className="w-5 h-5" /> Cashback Rate History</h3>
+          <p className="text-xs text-muted-foreground mb-3">Your cashback is calculated at the rate in effect when you clicked through, even if it changes before the order is reported.</p>
+          <ul className="space-y-2 text-sm">
+            {rateHistory.map(version => {
+              const effectiveFrom = safeToDate(version.effectiveFrom);
+              const effectiveUntil = safeToDate(version.effectiveUntil);
+              return (
+                <li key={version.id} className="flex flex-col sm:flex-row sm:justify-between gap-1 border-b last:border-b-0 pb-2 last:pb-0">
+                  <span className="font-medium">
+                    {version.cashbackRate || formatTierRate({ value: version.cashbackRateValue, type: version.cashbackType })}
+                    <span className="text-xs text-muted-foreground font-normal ml-2">{describeRateVersion(version)}</span>
+                  </span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {effectiveFrom ? format(effectiveFrom, 'dd MMM yyyy') : 'Just now'} – {effectiveUntil ? format(effectiveUntil, 'dd MMM yyyy') : 'Current'}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      {store?.topOffersText && (
+        <section className="p-4 bg-card rounded-lg shadow-md border">
+          <h3 className="text-lg font-semibold mb-2">Top {store.name} Offers</h3>
+          <p className="text-sm text-muted-foreground mb-2">{store.topOffersText}</p>
+          {store.offerDetailsLink && (
+            <Link href={store.offerDetailsLink} target="_blank" rel="noopener noreferrer" className="text-sm text-primary hover:underline font-medium flex items-center">
+              See Offer Details <ChevronRight className="w-4 h-4 ml-1" />
+            </Link>
+          )}
+        </section>
+      )}
+
+       {store && (
+          <section className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {store.cashbackTrackingTime && (
+              <Card className="text-center">
+                <CardHeader className="pb-2 pt-4"><CardTitle className="text-sm font-medium text-muted-foreground">Cashback Tracks In</CardTitle></CardHeader>
+                <CardContent className="pb-4">
+                  <p className="text-2xl font-bold flex items-center justify-center gap-1"><Clock className="w-5 h-5"/>{store.cashbackTrackingTime.split(' ')[0]}</p>
+                  <p className="text-xs text-muted-foreground">{store.cashbackTrackingTime.split(' ').slice(1).join(' ')}</p>
+                </CardContent>
+              </Card>
+            )}
+            {store.cashbackConfirmationTime && (
+              <Card className="text-center">
+                <CardHeader className="pb-2 pt-4"><CardTitle className="text-sm font-medium text-muted-foreground">Cashback Confirms In</CardTitle></CardHeader>
+                <CardContent className="pb-4">
+                  <p className="text-2xl font-bold flex items-center justify-center gap-1"><CheckSquare className="w-5 h-5"/>{store.cashbackConfirmationTime.split(' ')[0]}</p>
+                  <p className="text-xs text-muted-foreground">{store.cashbackConfirmationTime.split(' ').slice(1).join(' ')}</p>
+                </CardContent>
+              </Card>
+            )}
+            {store.cashbackOnAppOrders !== null && store.cashbackOnAppOrders !== undefined && (
+               <Card className="text-center">
+                <CardHeader className="pb-2 pt-4"><CardTitle className="text-sm font-medium text-muted-foreground">Cashback on App Orders?</CardTitle></CardHeader>
+                <CardContent className="pb-4">
+                  <p className={`text-2xl font-bold ${store.cashbackOnAppOrders ? 'text-green-600' : 'text-red-600'}`}>
+                    {store.cashbackOnAppOrders ? 'YES' : 'NO'}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </section>
+       )}
+
+      {store && (
+          <div className="sticky bottom-0 left-0 right-0 p-4 bg-background border-t shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.1),0_-2px_4px_-2px_rgba(0,0,0,0.06)] z-10">
+            <Button size="lg" className="w-full text-lg font-semibold" asChild>
+                <Link href={`${storePath(store)}/products`}>
+                    View Products & Get Cashback <ShoppingBag className="ml-2 h-5 w-5" />
+                </Link>
+            </Button>
+             <p className="text-xs text-muted-foreground text-center mt-1">You will be redirected to the product listing for {store.name}.</p>
+          </div>
+      )}
+
+      <section>
+        <h2 className="text-2xl font-bold mb-6 flex items-center gap-2">
+            <BadgePercent className="w-6 h-6 text-primary" /> Available Coupons & Deals for {store?.name || 'this store'}
+        </h2>
+        {coupons.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+            {coupons.map((coupon) => (
+              <CouponCard key={coupon.id} coupon={coupon} />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-muted-foreground bg-muted/30 rounded-lg border">
+            <Info className="h-10 w-10 mx-auto text-muted-foreground/50 mb-3" />
+            <p>No active coupons or deals found for {store?.name || 'this store'} right now.</p>
+            <p className="mt-2 text-sm">You can still earn cashback by visiting the store and shopping for products!</p>
+          </div>
+        )}
+      </section>
+
+
+      {store?.terms && (
+        <section>
+          <h2 className="text-xl font-semibold mb-3 flex items-center gap-2">
+             <ScrollText className="w-5 h-5 text-muted-foreground" /> Important Terms &amp; Conditions
+          </h2>
+          <Card className="bg-muted/50 border">
+            <CardContent className="p-4 text-xs text-muted-foreground whitespace-pre-wrap">
+              {store.terms}
+            </CardContent>
+          </Card>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,45 @@
-
 "use client";
 
 import * as React from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import {
   collection,
   query,
-  where,
-  orderBy,
   limit,
   getDocs,
   startAfter,
   QueryDocumentSnapshot,
   DocumentData,
-  QueryConstraint,
   Timestamp
 } from 'firebase/firestore';
 import { db, firebaseInitializationError } from '@/lib/firebase/config';
-import type { Store } from '@/lib/types';
+import type { Category, Store } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import StoreCard from '@/components/store-card';
+import ListingFacet from '@/components/listing-facet';
 import { Button } from '@/components/ui/button';
-import { AlertCircle, Loader2, Search, Store as StoreIconLucide } from 'lucide-react';
+import { AlertCircle, Loader2, Search, SlidersHorizontal, Store as StoreIconLucide, X } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { useDebounce } from '@/hooks/use-debounce';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { safeToDate } from '@/lib/utils';
+import {
+  CASHBACK_TYPE_OPTIONS,
+  MIN_RATE_OPTIONS,
+  STORE_SORT_OPTIONS,
+  effectiveStoreSort,
+  fetchFacetCategories,
+  fetchStoreFacetCounts,
+  parseStoreFilters,
+  storeFiltersToParams,
+  storeListingQuery,
+  toQueryConstraints,
+  type StoreFacetCounts,
+  type StoreFilters,
+  type StoreSort,
+} from '@/lib/listing-filters';
 
 export const dynamic = 'force-dynamic';
 const STORES_PER_PAGE = 24;
@@ -40,46 +53,47 @@ function StoresPageSkeleton() {
         <h1 className="text-3xl md:text-4xl font-bold">All Stores</h1>
         <p className="text-lg text-muted-foreground max-w-2xl mx-auto">Loading stores...</p>
       </div>
-      <Card className="max-w-xl mx-auto shadow-sm border">
-        <CardHeader className="pb-4 pt-4">
-          <Skeleton className="h-6 w-1/3" />
-        </CardHeader>
-        <CardContent className="pb-4">
-          <Skeleton className="h-10 w-full" />
-        </CardContent>
-      </Card>
-      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 md:gap-6">
-        {Array.from({ length: STORES_PER_PAGE_SKELETON }).map((_, index) => (
-          <Skeleton key={`store-skel-client-${index}`} className="h-48 rounded-lg" />
-        ))}
+      <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+        <Skeleton className="hidden md:block h-96 rounded-lg" />
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
+          {Array.from({ length: STORES_PER_PAGE_SKELETON }).map((_, index) => (
+            <Skeleton key={`store-skel-client-${index}`} className="h-48 rounded-lg" />
+          ))}
+        </div>
       </div>
     </div>
   );
 }
 
 export default function StoresPage() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const filtersKey = storeFiltersToParams(parseStoreFilters(searchParams)).toString();
+  const filters = React.useMemo(() => parseStoreFilters(new URLSearchParams(filtersKey)), [filtersKey]);
+
   const [stores, setStores] = React.useState<Store[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
   const [lastVisible, setLastVisible] = React.useState<QueryDocumentSnapshot<DocumentData> | null>(null);
   const [hasMore, setHasMore] = React.useState(true);
   const [loadingMore, setLoadingMore] = React.useState(false);
-  const { toast } = useToast();
-
+  const [categories, setCategories] = React.useState<Pick<Category, 'id' | 'name' | 'slug'>[] | null>(null);
+  const [facetCounts, setFacetCounts] = React.useState<StoreFacetCounts | null>(null);
   const [searchTermInput, setSearchTermInput] = React.useState('');
-  const debouncedSearchTerm = useDebounce(searchTermInput, 500);
-  const [isSearching, setIsSearching] = React.useState(false);
+  const requestIdRef = React.useRef(0);
+  const { toast } = useToast();
 
   const fetchStores = React.useCallback(async (
     isLoadMoreOperation: boolean,
-    currentSearchTerm: string,
+    currentFilters: StoreFilters,
     docToStartAfter: QueryDocumentSnapshot<DocumentData> | null
   ) => {
+    const requestId = isLoadMoreOperation ? requestIdRef.current : ++requestIdRef.current;
     if (!isLoadMoreOperation) setLoading(true);
     else setLoadingMore(true);
-    
+
     setError(null);
-    setIsSearching(currentSearchTerm !== '');
 
     if (firebaseInitializationError) {
       setError(firebaseInitializationError);
@@ -93,27 +107,15 @@ export default function StoresPage() {
     }
 
     try {
-      const storesCollection = collection(db, 'stores');
-      const constraints: QueryConstraint[] = [
-        where('isActive', '==', true),
-      ];
-
-      if (currentSearchTerm) {
-        constraints.push(orderBy('name'));
-        constraints.push(where('name', '>=', currentSearchTerm));
-        constraints.push(where('name', '<=', currentSearchTerm + '\uf8ff'));
-      } else {
-        constraints.push(orderBy('isFeatured', 'desc'));
-        constraints.push(orderBy('name', 'asc'));
-      }
-
+      const constraints = toQueryConstraints(storeListingQuery(currentFilters));
       if (isLoadMoreOperation && docToStartAfter) {
         constraints.push(startAfter(docToStartAfter));
       }
       constraints.push(limit(STORES_PER_PAGE));
 
-      const q = query(storesCollection, ...constraints);
+      const q = query(collection(db, 'stores'), ...constraints);
       const querySnapshot = await getDocs(q);
+      if (requestId !== requestIdRef.current) return; // Filters changed while loading
 
       const storesData = querySnapshot.docs.map(docSnap => ({
         id: docSnap.id,
@@ -131,35 +133,64 @@ export default function StoresPage() {
       setLastVisible(newLastVisible);
       setHasMore(storesData.length === STORES_PER_PAGE);
     } catch (err) {
+      if (requestId !== requestIdRef.current) return;
       console.error("Error fetching stores:", err);
       const errorMsg = err instanceof Error ? err.message : "Failed to fetch stores";
       setError(errorMsg);
       toast({ variant: "destructive", title: "Fetch Error", description: errorMsg });
       setHasMore(false);
     } finally {
-      if (!isLoadMoreOperation) setLoading(false);
-      else setLoadingMore(false);
-      setIsSearching(false);
+      if (requestId === requestIdRef.current) {
+        if (!isLoadMoreOperation) setLoading(false);
+        else setLoadingMore(false);
+      }
     }
   }, [toast]);
 
+  React.useEffect(() => {
+    fetchStores(false, filters, null);
+  }, [filters, fetchStores]);
+
+  React.useEffect(() => {
+    fetchFacetCategories()
+      .then(setCategories)
+      .catch(err => {
+        console.warn("Could not load categories for filters:", err);
+        setCategories([]);
+      });
+  }, []);
 
   React.useEffect(() => {
-    fetchStores(false, debouncedSearchTerm, null);
-  }, [debouncedSearchTerm, fetchStores]);
+    if (!categories) return;
+    let cancelled = false;
+    setFacetCounts(null);
+    fetchStoreFacetCounts(filters, categories.map(category => category.slug))
+      .then(counts => { if (!cancelled) setFacetCounts(counts); })
+      .catch(err => console.warn("Could not count store filters:", err));
+    return () => { cancelled = true; };
+  }, [filters, categories]);
+
+  const updateFilters = (changes: Partial<StoreFilters>) => {
+    const params = storeFiltersToParams({ ...filters, ...changes }).toString();
+    router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false });
+  };
 
   const handleSearchSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // fetchStores is triggered by debouncedSearchTerm change in useEffect
+    const trimmed = searchTermInput.trim();
+    if (trimmed) router.push(`/search?q=${encodeURIComponent(trimmed)}`);
   };
 
   const handleLoadMore = () => {
     if (!loadingMore && hasMore && lastVisible) {
-      fetchStores(true, debouncedSearchTerm, lastVisible);
+      fetchStores(true, filters, lastVisible);
     }
   };
-  
-  if (loading && stores.length === 0 && !error) {
+
+  const hasActiveFilters = !!(filters.category || filters.cashbackType || filters.minRate);
+  const sort = effectiveStoreSort(filters);
+
+  if (loading && stores.length === 0 && !error && !facetCounts) {
     return <StoresPageSkeleton />;
   }
 
@@ -174,62 +205,125 @@ export default function StoresPage() {
         </p>
       </section>
 
-      <Card className="max-w-xl mx-auto shadow-sm border">
-        <CardHeader className="pb-4 pt-4">
-          <CardTitle className="text-lg">Search Stores</CardTitle>
-        </CardHeader>
-        <CardContent className="pb-4">
-          <form onSubmit={handleSearchSubmit} className="flex gap-2">
-            <Input
-              type="search"
-              placeholder="Search by store name..."
-              value={searchTermInput}
-              onChange={(e) => setSearchTermInput(e.target.value)}
-              disabled={isSearching || loading}
-              className="h-10 text-base"
+      <div className="grid gap-6 md:grid-cols-[220px_1fr] items-start">
+        <Card className="shadow-sm border">
+          <CardHeader className="pb-2 pt-4 flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-lg flex items-center gap-2"><SlidersHorizontal className="w-4 h-4" /> Filters</CardTitle>
+            {hasActiveFilters && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => updateFilters({ category: null, cashbackType: null, minRate: null })}>
+                <X className="mr-1 h-3 w-3" /> Clear
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-5 pb-4">
+            <ListingFacet
+              title="Category"
+              value={filters.category}
+              onChange={category => updateFilters({ category })}
+              options={[
+                { value: null, label: 'All Categories', count: facetCounts?.allCategories },
+                ...(categories || []).map(category => ({ value: category.slug, label: category.name, count: facetCounts?.categories[category.slug] })),
+              ]}
             />
-            <Button type="submit" disabled={isSearching || loading} className="h-10">
-              {isSearching || (loading && debouncedSearchTerm) ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
-              <span className="sr-only sm:not-sr-only sm:ml-2">Search</span>
-            </Button>
-          </form>
-        </CardContent>
-      </Card>
-
-      {error && !loading && (
-        <Alert variant="destructive" className="max-w-2xl mx-auto">
-          <AlertCircle className="h-4 w-4" />
-          <AlertTitle>Error Loading Stores</AlertTitle>
-          <AlertDescription>{error}</AlertDescription>
-        </Alert>
-      )}
-
-      {!loading && stores.length === 0 && !error && (
-        <div className="text-center py-16 text-muted-foreground bg-muted/30 rounded-lg border">
-          <p className="text-xl mb-4">
-            {debouncedSearchTerm ? `No stores found matching "${debouncedSearchTerm}".` : "No stores available at the moment."}
-          </p>
-          {debouncedSearchTerm && <p>Try a different search term or browse all stores.</p>}
-        </div>
-      )}
+            <ListingFacet
+              title="Cashback Type"
+              value={filters.minRate ? 'percentage' : filters.cashbackType}
+              onChange={cashbackType => updateFilters({ cashbackType })}
+              disabled={!!filters.minRate}
+              note={filters.minRate ? "A minimum rate applies to percentage cashback only." : null}
+              options={[
+                { value: null, label: 'Any Type', count: facetCounts?.allCashbackTypes },
+                ...CASHBACK_TYPE_OPTIONS.map(option => ({ ...option, count: facetCounts?.cashbackTypes[option.value] })),
+              ]}
+            />
+            <ListingFacet
+              title="Minimum Cashback"
+              value={filters.minRate}
+              onChange={minRate => updateFilters({ minRate, cashbackType: minRate ? null : filters.cashbackType })}
+              disabled={filters.cashbackType === 'fixed'}
+              options={[
+                { value: null, label: 'Any Rate', count: facetCounts?.anyRate },
+                ...MIN_RATE_OPTIONS.map(minRate => ({ value: minRate, label: `${minRate}% or more`, count: facetCounts?.minRates[minRate] })),
+              ]}
+            />
+          </CardContent>
+        </Card>
 
-      {stores.length > 0 && (
-        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 md:gap-6">
-          {stores.map((store) => (
-            <StoreCard key={store.id} store={store} />
-          ))}
-        </div>
-      )}
-
-      {hasMore && !loading && stores.length > 0 && (
-        <div className="mt-10 text-center">
-          <Button onClick={handleLoadMore} disabled={loadingMore}>
-            {loadingMore ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-            Load More Stores
-          </Button>
+        <div className="space-y-6">
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+            <div className="text-sm text-muted-foreground">
+              {facetCounts ? `${facetCounts.total} ${facetCounts.total === 1 ? 'store' : 'stores'}` : <Skeleton className="h-4 w-20" />}
+            </div>
+            <div className="flex gap-2">
+              <form onSubmit={handleSearchSubmit} className="flex gap-2">
+                <Input
+                  type="search"
+                  placeholder="Search stores..."
+                  value={searchTermInput}
+                  onChange={(e) => setSearchTermInput(e.target.value)}
+                  className="h-9 w-40 sm:w-48"
+                  aria-label="Search stores"
+                />
+                <Button type="submit" size="sm" variant="outline" className="h-9" aria-label="Search">
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+              <Select value={sort} onValueChange={(value) => updateFilters({ sort: value as StoreSort })} disabled={!!filters.minRate}>
+                <SelectTrigger className="h-9 w-44" aria-label="Sort stores">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STORE_SORT_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {error && !loading && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Error Loading Stores</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {loading && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
+              {Array.from({ length: 10 }).map((_, index) => (
+                <Skeleton key={`store-skel-filter-${index}`} className="h-48 rounded-lg" />
+              ))}
+            </div>
+          )}
+
+          {!loading && stores.length === 0 && !error && (
+            <div className="text-center py-16 text-muted-foreground bg-muted/30 rounded-lg border">
+              <p className="text-xl mb-4">
+                {hasActiveFilters ? "No stores match these filters." : "No stores available at the moment."}
+              </p>
+              {hasActiveFilters && <p>Try removing a filter or browse all stores.</p>}
+            </div>
+          )}
+
+          {!loading && stores.length > 0 && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
+              {stores.map((store) => (
+                <StoreCard key={store.id} store={store} />
+              ))}
+            </div>
+          )}
+
+          {hasMore && !loading && stores.length > 0 && (
+            <div className="mt-10 text-center">
+              <Button onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Load More Stores
+              </Button>
+            </div>
+          )}
         </div>
-      )}
-       {loadingMore && <div className="text-center py-4"><Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" /></div>}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,56 @@
+"use client";
+
+import * as React from 'react';
+import { Zap } from 'lucide-react';
+import type { Campaign } from '@/lib/types';
+import { describeEligibility, formatBoost, formatCountdown } from '@/lib/campaigns';
+import { safeToDate, cn } from '@/lib/utils';
+
+interface CampaignCountdownProps {
+  until: Date;
+  className?: string;
+}
+
+/** Ticking "Ends in 3h 12m" text. Renders nothing until mounted to avoid hydration mismatches. */
+export function CampaignCountdown({ until, className }: CampaignCountdownProps) {
+  const [now, setNow] = React.useState<Date | null>(null);
+
+  React.useEffect(() => {
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!now) return null;
+  return <span className={className}>{until > now ? formatCountdown(until, now) : 'Ended'}</span>;
+}
+
+interface CampaignBoostBadgeProps {
+  campaign: Campaign;
+  size?: 'sm' | 'default';
+  className?: string;
+}
+
+/** "2x Cashback · Ends in 1d 4h" badge for store and product cards. */
+export default function CampaignBoostBadge({ campaign, size = 'default', className }: CampaignBoostBadgeProps) {
+  const endsAt = safeToDate(campaign.endsAt);
+  const eligibility = describeEligibility(campaign);
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full bg-amber-100 text-amber-900 font-semibold',
+        size === 'sm' ? 'px-1.5 py-0.5 text-[10px]' : 'px-2 py-0.5 text-xs',
+        className
+      )}
+      title={[campaign.name, eligibility].filter(Boolean).join(' · ')}
+    >
+      <Zap className={size === 'sm' ? 'h-2.5 w-2.5' : 'h-3 w-3'} />
+      {formatBoost(campaign)}
+      {endsAt && (
+        <span className="font-normal">
+          · Ends in <CampaignCountdown until={endsAt} />
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,184 @@
+// src/components/cashback-rate-tiers-field.tsx
+"use client";
+
+import * as React from 'react';
+import { Controller, useFieldArray, useFormContext } from 'react-hook-form';
+import * as z from 'zod';
+import { Timestamp } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import type { CashbackPlatform, CashbackRateTier, CashbackRateTierFormValues, CashbackType, CashbackUserSegment } from '@/lib/types';
+import { PLATFORM_LABELS, USER_SEGMENT_LABELS } from '@/lib/cashback-rates';
+import { safeToDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PlusCircle, Trash2 } from 'lucide-react';
+
+export const cashbackRateTierSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(2, 'Tier name is required').max(60, 'Tier name too long'),
+  category: z.string().max(60, 'Category too long').optional().nullable(),
+  userSegment: z.enum(['all', 'new', 'existing'] as [CashbackUserSegment, ...CashbackUserSegment[]]),
+  platform: z.enum(['all', 'app', 'web'] as [CashbackPlatform, ...CashbackPlatform[]]),
+  value: z.number({ invalid_type_error: 'Rate is required' }).min(0, 'Rate must be non-negative'),
+  type: z.enum(['percentage', 'fixed'] as [CashbackType, ...CashbackType[]]),
+  maxCashback: z.number().min(0, 'Cap must be non-negative').optional().nullable(),
+  validFrom: z.date().optional().nullable(),
+  validUntil: z.date().optional().nullable(),
+  notes: z.string().max(200, 'Notes too long').optional().nullable(),
+}).refine(tier => tier.type !== 'percentage' || tier.value <= 100, {
+  message: 'A percentage rate cannot exceed 100.',
+  path: ['value'],
+}).refine(tier => !tier.validFrom || !tier.validUntil || tier.validFrom <= tier.validUntil, {
+  message: 'Valid until must be after valid from.',
+  path: ['validUntil'],
+});
+
+export function rateTiersToFormValues(tiers: CashbackRateTier[] | null | undefined): CashbackRateTierFormValues[] {
+  return (tiers || []).map(tier => ({
+    ...tier,
+    category: tier.category ?? null,
+    maxCashback: tier.maxCashback ?? null,
+    notes: tier.notes ?? null,
+    validFrom: safeToDate(tier.validFrom),
+    validUntil: safeToDate(tier.validUntil),
+  }));
+}
+
+export function rateTiersFromFormValues(tiers: CashbackRateTierFormValues[] | null | undefined): CashbackRateTier[] {
+  return (tiers || []).map(tier => ({
+    id: tier.id,
+    name: tier.name.trim(),
+    category: tier.category?.trim() || null,
+    userSegment: tier.userSegment,
+    platform: tier.platform,
+    value: tier.value,
+    type: tier.type,
+    maxCashback: tier.maxCashback ?? null,
+    validFrom: tier.validFrom ? Timestamp.fromDate(tier.validFrom) : null,
+    validUntil: tier.validUntil ? Timestamp.fromDate(tier.validUntil) : null,
+    notes: tier.notes?.trim() || null,
+  }));
+}
+
+function newTier(): CashbackRateTierFormValues {
+  return {
+    id: uuidv4(), name: '', category: null, userSegment: 'all', platform: 'all',
+    value: 0, type: 'percentage', maxCashback: null, validFrom: null, validUntil: null, notes: null,
+  };
+}
+
+interface CashbackRateTiersFieldProps {
+  disabled?: boolean;
+  idPrefix?: string;
+}
+
+/**
+ * Rate card editor for the store forms. Must be rendered inside a
+ * FormProvider whose values include `cashbackRates`.
+ */
+export default function CashbackRateTiersField({ disabled, idPrefix = 'tier' }: CashbackRateTiersFieldProps) {
+  const { control, register, formState: { errors } } = useFormContext<{ cashbackRates: CashbackRateTierFormValues[] }>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'cashbackRates', keyName: 'fieldKey' });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Rate Card Tiers</Label>
+          <p className="text-xs text-muted-foreground">The most specific active tier matching a purchase applies; otherwise the base rate above.</p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={() => append(newTier())} disabled={disabled}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Tier
+        </Button>
+      </div>
+      {fields.map((field, index) => {
+        const tierErrors = errors.cashbackRates?.[index];
+        const id = (name: string) => `${idPrefix}-${index}-${name}`;
+        return (
+          <div key={field.fieldKey} className="grid grid-cols-2 gap-2 rounded-md border p-3">
+            <div className="space-y-1 col-span-2 sm:col-span-1">
+              <Label htmlFor={id('name')} className="text-xs">Name*</Label>
+              <Input id={id('name')} {...register(`cashbackRates.${index}.name`)} placeholder="e.g., Mobiles" disabled={disabled} />
+              {tierErrors?.name && <p className="text-xs text-destructive">{tierErrors.name.message}</p>}
+            </div>
+            <div className="space-y-1 col-span-2 sm:col-span-1">
+              <Label htmlFor={id('category')} className="text-xs">Product Category (blank = any)</Label>
+              <Input id={id('category')} {...register(`cashbackRates.${index}.category`)} placeholder="As sent by the network" disabled={disabled} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={id('userSegment')} className="text-xs">Users</Label>
+              <Controller name={`cashbackRates.${index}.userSegment`} control={control} render={({ field: segmentField }) => (
+                <Select value={segmentField.value} onValueChange={segmentField.onChange} disabled={disabled}>
+                  <SelectTrigger id={id('userSegment')}><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(USER_SEGMENT_LABELS) as CashbackUserSegment[]).map(segment => (
+                      <SelectItem key={segment} value={segment}>{USER_SEGMENT_LABELS[segment]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={id('platform')} className="text-xs">Platform</Label>
+              <Controller name={`cashbackRates.${index}.platform`} control={control} render={({ field: platformField }) => (
+                <Select value={platformField.value} onValueChange={platformField.onChange} disabled={disabled}>
+                  <SelectTrigger id={id('platform')}><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PLATFORM_LABELS) as CashbackPlatform[]).map(platform => (
+                      <SelectItem key={platform} value={platform}>{PLATFORM_LABELS[platform]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={id('value')} className="text-xs">Rate*</Label>
+              <div className="flex gap-1">
+                <Input id={id('value')} type="number" step="0.01" {...register(`cashbackRates.${index}.value`, { valueAsNumber: true })} disabled={disabled} />
+                <Controller name={`cashbackRates.${index}.type`} control={control} render={({ field: typeField }) => (
+                  <Select value={typeField.value} onValueChange={typeField.onChange} disabled={disabled}>
+                    <SelectTrigger className="w-20"><SelectValue /></SelectTrigger>
+                    <SelectContent><SelectItem value="percentage">%</SelectItem><SelectItem value="fixed">₹</SelectItem></SelectContent>
+                  </Select>
+                )} />
+              </div>
+              {tierErrors?.value && <p className="text-xs text-destructive">{tierErrors.value.message}</p>}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={id('maxCashback')} className="text-xs">Cap per Order (₹)</Label>
+              <Input id={id('maxCashback')} type="number" step="0.01" {...register(`cashbackRates.${index}.maxCashback`, { setValueAs: v => v === null || v === '' ? null : parseFloat(v) })} placeholder="No cap" disabled={disabled} />
+              {tierErrors?.maxCashback && <p className="text-xs text-destructive">{tierErrors.maxCashback.message}</p>}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={id('validFrom')} className="text-xs">Valid From</Label>
+              <Controller name={`cashbackRates.${index}.validFrom`} control={control} render={({ field: dateField }) => (
+                <Input id={id('validFrom')} type="date" value={dateField.value ? format(dateField.value, 'yyyy-MM-dd') : ''}
+                  onChange={e => dateField.onChange(e.target.value ? new Date(`${e.target.value}T00:00:00`) : null)} disabled={disabled} />
+              )} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={id('validUntil')} className="text-xs">Valid Until</Label>
+              <Controller name={`cashbackRates.${index}.validUntil`} control={control} render={({ field: dateField }) => (
+                <Input id={id('validUntil')} type="date" value={dateField.value ? format(dateField.value, 'yyyy-MM-dd') : ''}
+                  onChange={e => dateField.onChange(e.target.value ? new Date(`${e.target.value}T23:59:59.999`) : null)} disabled={disabled} />
+              )} />
+              {tierErrors?.validUntil && <p className="text-xs text-destructive">{tierErrors.validUntil.message}</p>}
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor={id('notes')} className="text-xs">Notes (shown on the rate card)</Label>
+              <div className="flex gap-2">
+                <Input id={id('notes')} {...register(`cashbackRates.${index}.notes`)} placeholder="e.g., Excludes refurbished phones" disabled={disabled} />
+                <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} disabled={disabled} aria-label="Remove tier">
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -19,9 +19,7 @@ import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
 import { useRouter } from 'next/navigation';
-import { trackClickClientSide, TrackClickClientSideData } from '@/lib/actions/tracking';
-import { v4 as uuidv4 } from 'uuid';
-import { safeToDate } from '@/lib/utils';
+import { safeToDate, buildGoUrl, storePath } from '@/lib/utils';
 import * as React from 'react';
 import { usePathname } from 'next/navigation';
 
@@ -29,23 +27,6 @@ interface CouponCardProps {
   coupon: Coupon & { store?: Store };
 }
 
-const appendClickIdToUrl = (url: string, clickId: string): string => {
-  if (!url || typeof url !== 'string' || (!url.startsWith('http://') && !url.startsWith('https://'))) {
-    console.warn("Attempted to append click ID to an invalid or non-HTTP(S) URL:", url);
-    return url; // Or a default fallback URL
-  }
-  try {
-    const urlObj = new URL(url);
-    urlObj.searchParams.set('click_id', clickId); // Using 'click_id'
-    urlObj.searchParams.set('subid', clickId);
-    urlObj.searchParams.set('aff_sub', clickId);
-    return urlObj.toString();
-  } catch (e) {
-    console.warn("Error appending click ID to URL, returning original:", url, e);
-    return url;
-  }
-};
-
 export default function CouponCard({ coupon }: CouponCardProps) {
   const { toast } = useToast();
   const { user, loading: authLoading } = useAuth();
@@ -62,61 +43,28 @@ export default function CouponCard({ coupon }: CouponCardProps) {
       return;
     }
 
-    const clickId = uuidv4();
     const originalLink = coupon.link || coupon.store?.affiliateLink || '#';
 
-    if (originalLink === '#') {
+    if (originalLink === '#' || !coupon.storeId) {
         toast({ title: "Link Error", description: "No valid link for this offer.", variant: "destructive"});
-        console.warn("CouponCard: No valid target URL for coupon:", coupon.id);
+        console.warn("CouponCard: No valid target URL or store for coupon:", coupon.id);
         setIsProcessingClick(false);
         return;
     }
-    const finalAffiliateLinkWithClickId = appendClickIdToUrl(originalLink, clickId);
-    console.log("CouponCard: Generated Click ID:", clickId, "Final URL:", finalAffiliateLinkWithClickId);
+    // The /go route records the click and substitutes the click ID server-side.
+    const goUrl = buildGoUrl(coupon.storeId, { couponId: coupon.id });
+    console.log("CouponCard: Outbound URL:", goUrl);
 
 
     if (!user) {
         console.log("CouponCard: User not logged in. Storing redirect and navigating to login.");
-        sessionStorage.setItem('loginRedirectUrl', finalAffiliateLinkWithClickId);
+        sessionStorage.setItem('loginRedirectUrl', goUrl);
         sessionStorage.setItem('loginRedirectSource', pathname);
         router.push(`/login?message=Login to use this ${isCode ? 'code' : 'deal'} & track cashback.`);
         setIsProcessingClick(false);
         return;
     }
 
-    if (user && coupon.storeId) {
-      const clickData: TrackClickClientSideData = {
-        userId: user.uid,
-        storeId: coupon.storeId,
-        storeName: coupon.store?.name || "Unknown Store",
-        couponId: coupon.id,
-        clickId: clickId, // The UUID
-        affiliateLink: finalAffiliateLinkWithClickId,
-        originalLink: originalLink,
-        productId: null,
-        productName: null,
-        // Coupons typically don't have product-specific cashback, so these are null
-        clickedCashbackDisplay: null,
-        clickedCashbackRateValue: null,
-        clickedCashbackType: null,
-      };
-      console.log("CouponCard: Preparing to track click (client-side):", clickData);
-      try {
-        const trackResult = await trackClickClientSide(clickData);
-        if(trackResult.success){
-            console.log(`CouponCard: Tracked click (client-side) for ${isCode ? 'code' : 'deal'} coupon ${coupon.id}`);
-        } else {
-            console.error("CouponCard: Failed to track coupon click (client-side util error):", trackResult.error);
-            toast({title: "Tracking Issue", description: `Could not fully track click. Proceeding to store.`, variant: "destructive", duration: 7000});
-        }
-      } catch (trackError) {
-        console.error(`CouponCard: Error tracking ${isCode ? 'code' : 'deal'} click (client-side):`, trackError);
-        toast({title: "Tracking Error", description: "An unexpected error during click tracking. Proceeding to store.", variant: "destructive", duration: 7000});
-      }
-    } else if (!coupon.storeId) {
-        console.warn("CouponCard: storeId missing for coupon:", coupon.id, "Cannot track click properly.");
-    }
-
     if (isCode && coupon.code) {
       try {
         await navigator.clipboard.writeText(coupon.code);
@@ -124,18 +72,18 @@ export default function CouponCard({ coupon }: CouponCardProps) {
           title: 'Code Copied!',
           description: `Coupon code "${coupon.code}" copied. Redirecting...`,
         });
-        console.log("CouponCard: Code copied, redirecting to:", finalAffiliateLinkWithClickId);
+        console.log("CouponCard: Code copied, redirecting to:", goUrl);
         setTimeout(() => {
-          window.open(finalAffiliateLinkWithClickId, '_blank', 'noopener,noreferrer');
+          window.open(goUrl, '_blank', 'noopener,noreferrer');
         }, 500);
       } catch (err) {
         console.error('CouponCard: Failed to copy code:', err);
         toast({ variant: 'destructive', title: 'Copy Failed', description: 'Could not copy code. Redirecting anyway...' });
-        window.open(finalAffiliateLinkWithClickId, '_blank', 'noopener,noreferrer');
+        window.open(goUrl, '_blank', 'noopener,noreferrer');
       }
     } else {
-      console.log("CouponCard: Get Deal clicked or no code, redirecting to:", finalAffiliateLinkWithClickId);
-      window.open(finalAffiliateLinkWithClickId, '_blank', 'noopener,noreferrer');
+      console.log("CouponCard: Get Deal clicked or no code, redirecting to:", goUrl);
+      window.open(goUrl, '_blank', 'noopener,noreferrer');
     }
     setIsProcessingClick(false);
   };
@@ -145,7 +93,7 @@ export default function CouponCard({ coupon }: CouponCardProps) {
        return;
      }
      if (coupon.storeId) {
-       router.push(`/stores/${coupon.storeId}`);
+       router.push(storePath(coupon.store ?? { id: coupon.storeId }));
      } else {
         toast({title: "Navigation Error", description: "Store details are not available for this coupon."})
      }
@@ -0,0 +1,10 @@
+// Renders schema.org structured data (see src/lib/seo.ts) for search engines.
+// "<" is escaped so store-supplied text can't close the script tag.
+export default function JsonLd({ data }: { data: Record<string, unknown> | Record<string, unknown>[] }) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+    />
+  );
+}
@@ -26,7 +26,7 @@ import {
 import { VisuallyHidden } from '@/components/ui/visually-hidden';
 import {
     LogIn, LogOut, User, IndianRupee, ShoppingBag, LayoutDashboard, Settings, Menu,
-    Tag, ShieldCheck, Gift, History, Send, X, List, HelpCircle, BookOpen, Search as SearchIcon, MousePointerClick, ReceiptText
+    Tag, ShieldCheck, Gift, History, Send, X, List, HelpCircle, BookOpen, MousePointerClick, ReceiptText
 } from 'lucide-react';
 // Removed: import { SidebarMenuButton } from '@/components/ui/sidebar-alt';
 import { useAuth } from '@/hooks/use-auth';
@@ -34,7 +34,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { usePathname, useRouter } from 'next/navigation';
 import { cn } from '@/lib/utils';
 import { Separator } from "@/components/ui/separator";
-import { Input } from '@/components/ui/input';
+import SearchAutocomplete from '@/components/layout/search-autocomplete';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useHasMounted } from '@/hooks/use-has-mounted';
 import { useToast } from '@/hooks/use-toast';
@@ -42,7 +42,6 @@ import { useToast } from '@/hooks/use-toast';
 export default function Header() {
   const { user, userProfile, loading: authLoading, signOut } = useAuth();
   const pathname = usePathname();
-  const [searchTerm, setSearchTerm] = React.useState('');
   const [isSheetOpen, setIsSheetOpen] = React.useState(false);
   const router = useRouter();
   const isMobile = useIsMobile();
@@ -93,14 +92,6 @@ export default function Header() {
     return pathname.startsWith(href);
   };
 
-  const handleSearchSubmit = (event: React.FormEvent) => {
-    event.preventDefault();
-    if (!searchTerm.trim()) return;
-    setIsSheetOpen(false);
-    router.push(`/search?q=${encodeURIComponent(searchTerm.trim())}`);
-    setSearchTerm('');
-  };
-
   const handleSheetLinkClick = () => {
       setIsSheetOpen(false);
   }
@@ -260,17 +251,7 @@ export default function Header() {
         
         <div className="flex items-center space-x-1 md:space-x-2">
           {!isMobile && (
-            <form onSubmit={handleSearchSubmit} className="w-full max-w-[150px] sm:max-w-xs relative hidden lg:block">
-                <SearchIcon className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                type="search"
-                name="search"
-                placeholder="Search stores..."
-                className="pl-8 w-full h-9 text-sm rounded-md"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                />
-            </form>
+            <SearchAutocomplete className="w-56 xl:w-72 hidden lg:flex" />
           )}
 
           {!isMobile && (
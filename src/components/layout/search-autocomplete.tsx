@@ -0,0 +1,228 @@
+"use client";
+
+import * as React from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { Command as CommandPrimitive } from 'cmdk';
+import { Command, CommandGroup, CommandItem, CommandList, CommandSeparator } from '@/components/ui/command';
+import { Clock, IndianRupee, LayoutGrid, Percent, Search as SearchIcon, Tag } from 'lucide-react';
+import { useDebounce } from '@/hooks/use-debounce';
+import { cn, storePath } from '@/lib/utils';
+import { emptySuggestions, fetchCatalogSuggestions, type CatalogSuggestions } from '@/lib/search/api';
+
+const RECENT_SEARCHES_KEY = 'recentSearches';
+const MAX_RECENT_SEARCHES = 5;
+const SUGGEST_DEBOUNCE_MS = 150;
+const MIN_SUGGEST_LENGTH = 2;
+const MAX_CACHED_SUGGESTIONS = 50;
+
+function readRecentSearches(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((term): term is string => typeof term === 'string').slice(0, MAX_RECENT_SEARCHES) : [];
+  } catch {
+    return []; // Storage blocked or corrupt
+  }
+}
+
+function writeRecentSearches(terms: string[]) {
+  try {
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(terms));
+  } catch {
+    // Storage blocked, e.g. some private browsing modes
+  }
+}
+
+interface SearchAutocompleteProps {
+  className?: string;
+  placeholder?: string;
+  onNavigate?: () => void; // e.g. to close the mobile menu
+}
+
+/**
+ * Header search box with a typeahead of matching stores, coupons and
+ * categories, plus recent searches while it is empty. The first item runs a
+ * full search, so Enter searches unless a suggestion is highlighted.
+ */
+export default function SearchAutocomplete({ className, placeholder = "Search stores, coupons...", onNavigate }: SearchAutocompleteProps) {
+  const router = useRouter();
+  const [term, setTerm] = React.useState('');
+  const [open, setOpen] = React.useState(false);
+  const [suggestions, setSuggestions] = React.useState<CatalogSuggestions>(emptySuggestions(''));
+  const [recentSearches, setRecentSearches] = React.useState<string[]>([]);
+  const cacheRef = React.useRef(new Map<string, CatalogSuggestions>());
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  const debouncedTerm = useDebounce(term.trim(), SUGGEST_DEBOUNCE_MS);
+
+  React.useEffect(() => {
+    setRecentSearches(readRecentSearches());
+  }, []);
+
+  React.useEffect(() => {
+    if (debouncedTerm.length < MIN_SUGGEST_LENGTH) {
+      setSuggestions(emptySuggestions(debouncedTerm));
+      return;
+    }
+    const cacheKey = debouncedTerm.toLowerCase();
+    const cached = cacheRef.current.get(cacheKey);
+    if (cached) {
+      setSuggestions(cached);
+      return;
+    }
+    const controller = new AbortController();
+    fetchCatalogSuggestions(debouncedTerm, controller.signal)
+      .then(result => {
+        if (cacheRef.current.size >= MAX_CACHED_SUGGESTIONS) cacheRef.current.clear();
+        cacheRef.current.set(cacheKey, result);
+        setSuggestions(result);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.warn("SearchAutocomplete: Suggestions failed:", err);
+      });
+    return () => controller.abort();
+  }, [debouncedTerm]);
+
+  const rememberSearch = (searchTerm: string) => {
+    const updated = [searchTerm, ...recentSearches.filter(recent => recent.toLowerCase() !== searchTerm.toLowerCase())].slice(0, MAX_RECENT_SEARCHES);
+    setRecentSearches(updated);
+    writeRecentSearches(updated);
+  };
+
+  const navigate = (href: string) => {
+    setOpen(false);
+    setTerm('');
+    inputRef.current?.blur();
+    onNavigate?.();
+    router.push(href);
+  };
+
+  const runSearch = (searchTerm: string) => {
+    const trimmed = searchTerm.trim();
+    if (!trimmed) return;
+    rememberSearch(trimmed);
+    navigate(`/search?q=${encodeURIComponent(trimmed)}`);
+  };
+
+  const clearRecentSearches = () => {
+    setRecentSearches([]);
+    writeRecentSearches([]);
+  };
+
+  const trimmedTerm = term.trim();
+  // Only show suggestions for what is in the box now, not a stale debounce.
+  const current = suggestions.query.toLowerCase() === trimmedTerm.toLowerCase() ? suggestions : emptySuggestions(trimmedTerm);
+  const showRecent = !trimmedTerm && recentSearches.length > 0;
+  const showDropdown = open && (showRecent || !!trimmedTerm);
+
+  return (
+    <Command
+      shouldFilter={false}
+      loop
+      className={cn("relative overflow-visible bg-transparent", className)}
+      onKeyDown={(event) => {
+        if (event.key === 'Escape') {
+          setOpen(false);
+          inputRef.current?.blur();
+        }
+      }}
+    >
+      <div className="relative">
+        <SearchIcon className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <CommandPrimitive.Input
+          ref={inputRef}
+          value={term}
+          onValueChange={(value) => { setTerm(value); setOpen(true); }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          placeholder={placeholder}
+          aria-label="Search"
+          className="flex h-9 w-full rounded-md border border-input bg-background pl-8 pr-3 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        />
+      </div>
+      {showDropdown && (
+        <div
+          className="absolute right-0 top-full z-50 mt-1 w-[22rem] max-w-[calc(100vw-2rem)] rounded-md border bg-popover text-popover-foreground shadow-md"
+          // Keep focus in the input so clicking an item doesn't close the list first.
+          onMouseDown={(event) => event.preventDefault()}
+        >
+          <CommandList>
+            {showRecent ? (
+              <CommandGroup heading={
+                <span className="flex items-center justify-between">
+                  Recent searches
+                  <button type="button" onClick={clearRecentSearches} className="text-xs hover:text-foreground">Clear</button>
+                </span>
+              }>
+                {recentSearches.map(recent => (
+                  <CommandItem key={recent} value={`recent:${recent}`} onSelect={() => runSearch(recent)}>
+                    <Clock className="mr-2 h-4 w-4 text-muted-foreground" />
+                    <span className="truncate">{recent}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ) : (
+              <>
+                <CommandGroup>
+                  <CommandItem value={`search:${trimmedTerm}`} onSelect={() => runSearch(trimmedTerm)}>
+                    <SearchIcon className="mr-2 h-4 w-4 text-muted-foreground" />
+                    <span className="truncate">Search for &ldquo;{trimmedTerm}&rdquo;</span>
+                  </CommandItem>
+                </CommandGroup>
+                {current.stores.length > 0 && (
+                  <>
+                    <CommandSeparator />
+                    <CommandGroup heading="Stores">
+                      {current.stores.map(store => (
+                        <CommandItem key={store.id} value={`store:${store.id}`} onSelect={() => { rememberSearch(store.name); navigate(storePath(store)); }}>
+                          <div className="relative mr-3 h-6 w-12 shrink-0">
+                            {store.logoUrl ? (
+                              <Image src={store.logoUrl} alt={`${store.name} Logo`} fill sizes="48px" className="object-contain" />
+                            ) : (
+                              <span className="flex h-full w-full items-center justify-center rounded bg-muted text-[10px] text-muted-foreground">{store.name.slice(0, 2)}</span>
+                            )}
+                          </div>
+                          <span className="flex-1 truncate">{store.name}</span>
+                          <span className="ml-2 flex items-center gap-0.5 text-xs font-medium text-primary whitespace-nowrap">
+                            {store.cashbackType === 'fixed' ? <IndianRupee className="h-3 w-3" /> : <Percent className="h-3 w-3" />}
+                            {store.cashbackRate}
+                          </span>
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  </>
+                )}
+                {current.coupons.length > 0 && (
+                  <>
+                    <CommandSeparator />
+                    <CommandGroup heading="Coupons">
+                      {current.coupons.map(coupon => (
+                        <CommandItem key={coupon.id} value={`coupon:${coupon.id}`} onSelect={() => navigate(storePath({ id: coupon.storeId, slug: coupon.storeSlug }))}>
+                          <Tag className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+                          <span className="flex-1 truncate">{coupon.description}</span>
+                          {coupon.storeName && <span className="ml-2 text-xs text-muted-foreground whitespace-nowrap">{coupon.storeName}</span>}
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  </>
+                )}
+                {current.categories.length > 0 && (
+                  <>
+                    <CommandSeparator />
+                    <CommandGroup heading="Categories">
+                      {current.categories.map(category => (
+                        <CommandItem key={category.id} value={`category:${category.id}`} onSelect={() => navigate(`/category/${category.slug}`)}>
+                          <LayoutGrid className="mr-2 h-4 w-4 text-muted-foreground" />
+                          <span className="truncate">{category.name}</span>
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  </>
+                )}
+              </>
+            )}
+          </CommandList>
+        </div>
+      )}
+    </Command>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { cn } from '@/lib/utils';
+
+export interface ListingFacetOption<T extends string | number> {
+  value: T | null; // null for "any"
+  label: string;
+  count?: number | null; // Omitted while counts load
+}
+
+interface ListingFacetProps<T extends string | number> {
+  title: string;
+  options: ListingFacetOption<T>[];
+  value: T | null;
+  onChange: (value: T | null) => void;
+  disabled?: boolean;
+  note?: string | null;
+}
+
+/** A single-choice filter list with a result count for each option. */
+export default function ListingFacet<T extends string | number>({ title, options, value, onChange, disabled, note }: ListingFacetProps<T>) {
+  return (
+    <fieldset disabled={disabled} className="space-y-1 disabled:opacity-60">
+      <legend className="mb-1 text-sm font-semibold">{title}</legend>
+      {options.map(option => {
+        const selected = option.value === value;
+        const empty = option.count === 0 && !selected;
+        return (
+          <button
+            key={String(option.value ?? 'any')}
+            type="button"
+            onClick={() => onChange(option.value)}
+            aria-pressed={selected}
+            disabled={empty}
+            className={cn(
+              "flex w-full items-center justify-between rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:bg-transparent",
+              selected && "bg-primary/10 font-medium text-primary hover:bg-primary/15",
+            )}
+          >
+            <span className="truncate">{option.label}</span>
+            {option.count != null && <span className="ml-2 text-xs text-muted-foreground tabular-nums">{option.count}</span>}
+          </button>
+        );
+      })}
+      {note && <p className="px-2 text-xs text-muted-foreground">{note}</p>}
+    </fieldset>
+  );
+}
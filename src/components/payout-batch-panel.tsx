@@ -0,0 +1,252 @@
+"use client";
+
+import * as React from 'react';
+import { collection, getDocs, limit, orderBy, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import type { PayoutBatch, PayoutRequest } from '@/lib/types';
+import {
+  adminCreatePayoutBatch,
+  adminImportPayoutBatchResults,
+  type PayoutBatchResultRow,
+} from '@/lib/actions/ledger';
+import {
+  BATCH_FILE_LAYOUTS,
+  buildBatchFile,
+  getBatchFileLayout,
+  readBatchResponse,
+  type BatchResponseRow,
+} from '@/lib/payout-batch-files';
+import { PAYOUT_METHOD_INFO } from '@/lib/payout-methods';
+import { readReportFile } from '@/lib/report-import';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { formatCurrency, safeToDate } from '@/lib/utils';
+import { format } from 'date-fns';
+
+// Must not exceed MAX_RESULTS_PER_CALL in functions/src/payout-batches.ts.
+const RESULTS_PER_CALL = 100;
+const OPEN_BATCHES_SHOWN = 20;
+const PAYOUT_BATCH_LOG_PREFIX = "PAYOUT_BATCH_PANEL:";
+
+interface PayoutBatchPanelProps {
+  // Approved batch-paid payouts ticked in the payouts table.
+  selectedPayouts: PayoutRequest[];
+  onClearSelection: () => void;
+  // Called after payouts change status, so the table can reload.
+  onPayoutsChanged: () => void;
+}
+
+/**
+ * Exports selected approved payouts as a bank bulk-upload file, and applies
+ * the bank's response file to mark them paid (with UTR) or failed.
+ */
+export default function PayoutBatchPanel({ selectedPayouts, onClearSelection, onPayoutsChanged }: PayoutBatchPanelProps) {
+  const { toast } = useToast();
+  const [layoutId, setLayoutId] = React.useState(BATCH_FILE_LAYOUTS[0].id);
+  const [isExporting, setIsExporting] = React.useState(false);
+
+  const [openBatches, setOpenBatches] = React.useState<PayoutBatch[]>([]);
+  const [responseBatchId, setResponseBatchId] = React.useState('');
+  const [responseRows, setResponseRows] = React.useState<BatchResponseRow[] | null>(null);
+  const [responseError, setResponseError] = React.useState<string | null>(null);
+  const [isApplying, setIsApplying] = React.useState(false);
+  const [progress, setProgress] = React.useState(0);
+  const [appliedResults, setAppliedResults] = React.useState<PayoutBatchResultRow[] | null>(null);
+
+  const layout = getBatchFileLayout(layoutId) ?? BATCH_FILE_LAYOUTS[0];
+  const responseBatch = openBatches.find(batch => batch.id === responseBatchId) ?? null;
+  const mismatched = selectedPayouts.filter(payout => payout.paymentMethod !== layout.method);
+
+  const fetchOpenBatches = React.useCallback(async () => {
+    if (!db) return;
+    try {
+      const batchesSnap = await getDocs(query(
+        collection(db, 'payoutBatches'),
+        where('status', '==', 'exported'),
+        orderBy('createdAt', 'desc'),
+        limit(OPEN_BATCHES_SHOWN)
+      ));
+      setOpenBatches(batchesSnap.docs.map(docSnap => ({ ...(docSnap.data() as Omit<PayoutBatch, 'id'>), id: docSnap.id })));
+    } catch (err) {
+      console.error(`${PAYOUT_BATCH_LOG_PREFIX} Error fetching open payout batches:`, err);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    fetchOpenBatches();
+  }, [fetchOpenBatches]);
+
+  const handleExport = async () => {
+    if (selectedPayouts.length === 0 || mismatched.length > 0) return;
+    setIsExporting(true);
+    try {
+      // Exported payouts move to processing until the response file is applied.
+      const { batchId, rows } = await adminCreatePayoutBatch({
+        method: layout.method,
+        layoutId: layout.id,
+        payoutIds: selectedPayouts.map(payout => payout.id),
+      });
+      const file = buildBatchFile(layout, batchId, rows);
+      const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = file.fileName;
+      anchor.click();
+      URL.revokeObjectURL(url);
+      toast({
+        title: "Batch File Generated",
+        description: `Batch ${batchId}: ${rows.length} payouts, ${formatCurrency(rows.reduce((sum, row) => sum + row.amount, 0))}.`,
+      });
+      onClearSelection();
+      onPayoutsChanged();
+      fetchOpenBatches();
+    } catch (err) {
+      console.error(`${PAYOUT_BATCH_LOG_PREFIX} Error creating payout batch:`, err);
+      toast({ variant: "destructive", title: "Export Failed", description: err instanceof Error ? err.message : "Could not create the batch." });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleResponseFile = async (file: File | null) => {
+    setResponseRows(null);
+    setResponseError(null);
+    setAppliedResults(null);
+    if (!file || !responseBatch) return;
+    const batchLayout = getBatchFileLayout(responseBatch.layoutId);
+    if (!batchLayout) {
+      setResponseError(`Unknown file layout "${responseBatch.layoutId}" for this batch.`);
+      return;
+    }
+    try {
+      setResponseRows(readBatchResponse(await readReportFile(file), batchLayout));
+    } catch (err) {
+      setResponseError(err instanceof Error ? err.message : "Could not read the response file.");
+    }
+  };
+
+  const validResults = (responseRows ?? []).flatMap(row => (row.result ? [row.result] : []));
+  const invalidRows = (responseRows ?? []).filter(row => row.errors.length > 0);
+
+  const handleApplyResponse = async () => {
+    if (!responseBatch || validResults.length === 0) return;
+    setIsApplying(true);
+    setProgress(0);
+    try {
+      const results: PayoutBatchResultRow[] = [];
+      for (let i = 0; i < validResults.length; i += RESULTS_PER_CALL) {
+        const response = await adminImportPayoutBatchResults({
+          batchId: responseBatch.id,
+          results: validResults.slice(i, i + RESULTS_PER_CALL),
+        });
+        results.push(...response.results);
+        setProgress(Math.round((Math.min(i + RESULTS_PER_CALL, validResults.length) / validResults.length) * 100));
+      }
+      setAppliedResults(results);
+      const paid = results.filter(result => result.action === 'paid').length;
+      const failed = results.filter(result => result.action === 'failed').length;
+      toast({ title: "Response File Applied", description: `${paid} paid, ${failed} failed, ${results.length - paid - failed} skipped.` });
+      onPayoutsChanged();
+      fetchOpenBatches();
+    } catch (err) {
+      console.error(`${PAYOUT_BATCH_LOG_PREFIX} Error applying response file:`, err);
+      toast({ variant: "destructive", title: "Import Failed", description: err instanceof Error ? err.message : "Could not apply the response file." });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><FileSpreadsheet className="w-5 h-5 text-primary" /> Payout Batches</CardTitle>
+        <CardDescription>
+          Bank transfer and UPI payouts are paid by bulk upload. Tick approved payouts in the list below to generate a batch file, then import the bank&apos;s response file to mark each payout paid or failed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-3">
+          <h3 className="font-semibold text-sm">1. Generate Batch File</h3>
+          <div>
+            <Label htmlFor="batch-layout" className="text-sm">File Layout</Label>
+            <Select value={layoutId} onValueChange={setLayoutId} disabled={isExporting}>
+              <SelectTrigger id="batch-layout"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {BATCH_FILE_LAYOUTS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {selectedPayouts.length} selected ({formatCurrency(selectedPayouts.reduce((sum, payout) => sum + payout.amount, 0))}).
+            {mismatched.length > 0 && (
+              <span className="text-destructive"> {mismatched.length} selected payouts are not {PAYOUT_METHOD_INFO[layout.method].label} payouts.</span>
+            )}
+          </p>
+          <Button onClick={handleExport} disabled={isExporting || selectedPayouts.length === 0 || mismatched.length > 0}>
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Generate Batch File
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="font-semibold text-sm">2. Import Bank Response</h3>
+          <div>
+            <Label htmlFor="response-batch" className="text-sm">Batch</Label>
+            <Select
+              value={responseBatchId}
+              onValueChange={(value) => { setResponseBatchId(value); setResponseRows(null); setAppliedResults(null); setResponseError(null); }}
+              disabled={isApplying}
+            >
+              <SelectTrigger id="response-batch"><SelectValue placeholder={openBatches.length ? 'Select a batch' : 'No open batches'} /></SelectTrigger>
+              <SelectContent>
+                {openBatches.map(batch => {
+                  const createdAt = safeToDate(batch.createdAt);
+                  return (
+                    <SelectItem key={batch.id} value={batch.id}>
+                      {batch.id} · {PAYOUT_METHOD_INFO[batch.method].label} · {batch.payoutCount} payouts{createdAt ? ` · ${format(createdAt, 'PP')}` : ''}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={(e) => handleResponseFile(e.target.files?.[0] || null)}
+            disabled={!responseBatch || isApplying}
+          />
+          {responseError && <p className="text-xs text-destructive">{responseError}</p>}
+          {responseRows && (
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>{validResults.length} rows ready ({validResults.filter(r => r.outcome === 'paid').length} paid, {validResults.filter(r => r.outcome === 'failed').length} failed), {invalidRows.length} with errors.</p>
+              {invalidRows.slice(0, 5).map(row => (
+                <p key={row.rowNumber} className="text-destructive">Row {row.rowNumber}: {row.errors.join(' ')}</p>
+              ))}
+            </div>
+          )}
+          {isApplying && <Progress value={progress} />}
+          {appliedResults && appliedResults.some(result => result.action === 'skipped') && (
+            <div className="text-xs space-y-1">
+              {appliedResults.filter(result => result.action === 'skipped').slice(0, 5).map(result => (
+                <p key={result.rowNumber} className="text-muted-foreground">Row {result.rowNumber} ({result.payoutId}) skipped: {result.reason}</p>
+              ))}
+            </div>
+          )}
+          <Button onClick={handleApplyResponse} disabled={isApplying || !responseBatch || validResults.length === 0 || !!appliedResults}>
+            {isApplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Apply Response File
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,15 +7,16 @@ import Link from 'next/link';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ShoppingCart, Loader2, IndianRupee, Percent } from 'lucide-react';
-import { formatCurrency, isValidHttpUrl, appendClickIdToUrl } from '@/lib/utils';
+import { formatCurrency, isValidHttpUrl, buildGoUrl, storePath } from '@/lib/utils';
 import { useAuth } from '@/hooks/use-auth';
-import { trackClickClientSide, type TrackClickClientSideData } from '@/lib/actions/tracking';
-import { v4 as uuidv4 } from 'uuid';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import * as React from 'react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { usePathname } from 'next/navigation';
+import { liveCampaignsFor } from '@/lib/campaigns';
+import { useCampaigns } from '@/hooks/use-campaigns';
+import CampaignBoostBadge from '@/components/campaign-boost-badge';
 
 interface ProductCardProps {
   product: Product | null | undefined;
@@ -28,6 +29,7 @@ export default function ProductCard({ product, storeContext }: ProductCardProps)
   const { toast } = useToast();
   const [isProcessingClick, setIsProcessingClick] = React.useState(false);
   const pathname = usePathname();
+  const campaigns = useCampaigns();
 
   if (!product) {
     return (
@@ -88,10 +90,11 @@ export default function ProductCard({ product, storeContext }: ProductCardProps)
       priceAfterCashback = product.price - calculatedCashback;
     }
   }
+  const [campaign] = liveCampaignsFor(campaigns, { storeId: product.storeId, productId: product.id });
   // --- END: Refactored Cashback Logic ---
 
 
-  const handleShopNow = async () => {
+  const handleShopNow = () => {
     setIsProcessingClick(true);
     console.log("ProductCard: handleShopNow triggered for product:", product.id, product.name);
 
@@ -107,53 +110,19 @@ export default function ProductCard({ product, storeContext }: ProductCardProps)
       return;
     }
 
-    const clickId = uuidv4();
-    const finalAffiliateLinkWithClickId = appendClickIdToUrl(affiliateLinkToUse, clickId, storeContext?.affiliateLink);
-    console.log("ProductCard: Generated Click ID:", clickId, "Final URL:", finalAffiliateLinkWithClickId);
+    // The /go route records the click and substitutes the click ID server-side.
+    const goUrl = buildGoUrl(product.storeId, { productId: product.id });
 
     if (!user) {
       console.log("ProductCard: User not logged in. Storing redirect and navigating to login.");
-      sessionStorage.setItem('loginRedirectUrl', finalAffiliateLinkWithClickId);
+      sessionStorage.setItem('loginRedirectUrl', goUrl);
       sessionStorage.setItem('loginRedirectSource', pathname); // Store current page as source
       router.push(`/login?message=Login to track cashback & shop this product!`);
       setIsProcessingClick(false);
       return;
     }
 
-    const clickData: TrackClickClientSideData = {
-      userId: user.uid,
-      storeId: product.storeId,
-      storeName: storeContext?.name || product.storeName || "Unknown Store",
-      productId: product.id,
-      productName: product.name,
-      clickId: clickId,
-      affiliateLink: finalAffiliateLinkWithClickId,
-      originalLink: affiliateLinkToUse,
-      clickedCashbackDisplay: primaryDisplayText,
-      clickedCashbackRateValue: valueForCalc,
-      clickedCashbackType: typeForCalc,
-    };
-
-    console.log("ProductCard: Tracking click with data (client-side):", clickData);
-
-    try {
-      const trackResult = await trackClickClientSide(clickData);
-      if (trackResult.success) {
-        console.log("ProductCard: Click tracked successfully (client-side), Click ID:", trackResult.clickId);
-      } else {
-        toast({ title: "Tracking Issue", description: `Could not fully track click. Error: ${trackResult.error}. Proceeding to store.`, variant: "destructive", duration: 7000 });
-        console.error("ProductCard: Failed to track product click (client-side util error):", trackResult.error);
-      }
-    } catch (e: any) {
-      toast({ title: "Tracking Error", description: `An error during click tracking: ${e.message}. Proceeding to store.`, variant: "destructive", duration: 7000 });
-      console.error("ProductCard: Exception during trackClickClientSide:", e);
-    }
-
-    if (finalAffiliateLinkWithClickId && finalAffiliateLinkWithClickId !== '#') {
-      window.open(finalAffiliateLinkWithClickId, '_blank', 'noopener,noreferrer');
-    } else {
-      toast({ title: "Navigation Error", description: "Could not determine a valid link to open.", variant: "destructive" });
-    }
+    window.open(goUrl, '_blank', 'noopener,noreferrer');
     setIsProcessingClick(false);
   };
 
@@ -161,7 +130,7 @@ export default function ProductCard({ product, storeContext }: ProductCardProps)
   return (
     <Card className="overflow-hidden h-full flex flex-col group border shadow-sm hover:shadow-lg transition-shadow duration-300">
       <Link
-        href={`/stores/${product.storeId}/products?highlight=${product.id}`}
+        href={`${storePath(storeContext ?? { id: product.storeId })}/products?highlight=${product.id}`}
         className="block aspect-[1/1] w-full relative overflow-hidden bg-muted p-1"
       >
         <Image
@@ -179,12 +148,12 @@ export default function ProductCard({ product, storeContext }: ProductCardProps)
       <CardContent className="p-2 flex flex-col flex-grow justify-between">
         <div>
           <h3 className="text-xs font-medium leading-snug mb-0.5 h-8 line-clamp-2" title={productTitle}>
-            <Link href={`/stores/${product.storeId}/products?highlight=${product.id}`} className="hover:text-primary transition-colors">
+            <Link href={`${storePath(storeContext ?? { id: product.storeId })}/products?highlight=${product.id}`} className="hover:text-primary transition-colors">
                 {productTitle}
             </Link>
           </h3>
            {(storeContext?.name || product.storeName) && (
-             <Link href={`/stores/${product.storeId}`} className="text-[10px] text-muted-foreground hover:text-primary transition-colors mb-0.5 block truncate">
+             <Link href={storePath(storeContext ?? { id: product.storeId })} className="text-[10px] text-muted-foreground hover:text-primary transition-colors mb-0.5 block truncate">
                From: {storeContext?.name || product.storeName}
              </Link>
            )}
@@ -210,6 +179,8 @@ export default function ProductCard({ product, storeContext }: ProductCardProps)
               </p>
             )}
 
+            {campaign && <CampaignBoostBadge campaign={campaign} size="sm" />}
+
             {/* Display the final calculated price */}
             {(priceAfterCashback !== null && priceAfterCashback >= 0 && product.price && product.price > priceAfterCashback) && (
               <p className="text-[10px] font-bold text-primary">
@@ -1,3 +1,5 @@
+"use client";
+
 
 import type { Store } from '@/lib/types';
 import Link from 'next/link';
@@ -5,15 +7,21 @@ import Image from 'next/image';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { IndianRupee, Percent } from 'lucide-react';
+import { headlineRate } from '@/lib/cashback-rates';
+import { storePath } from '@/lib/utils';
+import { liveCampaignsFor } from '@/lib/campaigns';
+import { useCampaigns } from '@/hooks/use-campaigns';
+import CampaignBoostBadge from '@/components/campaign-boost-badge';
 
 interface StoreCardProps {
   store: Store;
 }
 
 export default function StoreCard({ store }: StoreCardProps) {
+  const [campaign] = liveCampaignsFor(useCampaigns(), { storeId: store.id });
   return (
     <Card className="flex flex-col items-center justify-between h-full text-center p-0 border hover:shadow-lg transition-shadow duration-300 rounded-lg overflow-hidden group">
-      <Link href={`/stores/${store.id}`} className="flex flex-col items-center justify-center p-4 flex-grow w-full">
+      <Link href={storePath(store)} className="flex flex-col items-center justify-center p-4 flex-grow w-full">
         <div className="relative w-full h-16 mb-3 flex items-center justify-center">
             {store.logoUrl ? (
             <Image
@@ -33,12 +41,13 @@ export default function StoreCard({ store }: StoreCardProps) {
         <p className="font-semibold text-base mb-1 truncate w-full" title={store.name}>{store.name}</p>
         <p className="text-sm text-primary font-medium flex items-center justify-center gap-1">
           {store.cashbackType === 'fixed' ? <IndianRupee className="w-3.5 h-3.5" /> : <Percent className="w-3.5 h-3.5" />}
-          {store.cashbackRate}
+          {headlineRate(store) || store.cashbackRate}
         </p>
+        {campaign && <CampaignBoostBadge campaign={campaign} size="sm" className="mt-1" />}
       </Link>
       <CardFooter className="p-2 w-full bg-muted/30 border-t">
         <Button variant="ghost" size="sm" className="w-full text-primary hover:bg-primary/10" asChild>
-          <Link href={`/stores/${store.id}`}>Visit Store</Link>
+          <Link href={storePath(store)}>Visit Store</Link>
         </Button>
       </CardFooter>
     </Card>
@@ -5,6 +5,7 @@
 import * as React from 'react';
 import {
     onAuthStateChanged,
+    onIdTokenChanged,
     User,
     signOut as firebaseSignOut,
     GoogleAuthProvider,
@@ -27,23 +28,20 @@ import {
     updateDoc,
     serverTimestamp,
     Timestamp,
-    collection,
-    query,
-    where,
-    limit,
-    getDocs,
     runTransaction,
-    increment,
     writeBatch,
     FirestoreError
 } from 'firebase/firestore';
 import { auth as firebaseAuthService, db, firebaseInitializationError } from '@/lib/firebase/config';
+import { writeSessionCookie } from '@/lib/firebase/session';
 import type { UserProfile, PayoutDetails, PayoutMethod, UserProfileClient } from '@/lib/types';
 import { useToast } from "@/hooks/use-toast";
 import { v4 as uuidv4 } from 'uuid';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { FirebaseError } from 'firebase/app';
 import { safeToDate } from '@/lib/utils';
+import { recordAccountSignals } from '@/lib/actions/duplicate-accounts';
+import { getBrowserFingerprint, getDeviceId } from '@/lib/device-fingerprint';
 
 
 
@@ -63,6 +61,19 @@ interface AuthContextType {
   updateUserProfileData: (uid: string, data: Partial<UserProfile>) => Promise<void>;
 }
 
+// Sends this browser's duplicate-account signals once per session per user.
+// Failures are only logged; they must never block sign-in.
+async function reportAccountSignals(uid: string) {
+  const sessionKey = `accountSignalsRecorded:${uid}`;
+  if (typeof window === 'undefined' || sessionStorage.getItem(sessionKey)) return;
+  sessionStorage.setItem(sessionKey, '1');
+  try {
+    await recordAccountSignals({ deviceId: getDeviceId(), fingerprint: await getBrowserFingerprint() });
+  } catch (err) {
+    console.warn(`${AUTH_HOOK_LOG_PREFIX} Could not record account signals for ${uid}:`, err);
+  }
+}
+
 const AuthContext = React.createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
@@ -162,34 +173,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
     }
 
-    let referrerIdToUse: string | null = null;
-    if (finalReferralCodeToUse) {
-        console.log(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [ReferralCheck] Searching for referrer with code: "${finalReferralCodeToUse}"`);
-        const usersRef = collection(db, 'users');
-        const q = query(usersRef, where('referralCode', '==', finalReferralCodeToUse), limit(1));
-        try {
-            const referrerSnap = await getDocs(q);
-            if (!referrerSnap.empty) {
-                const referrerDoc = referrerSnap.docs[0];
-                if (referrerDoc.id !== authUser.uid) {
-                    referrerIdToUse = referrerDoc.id;
-                    console.log(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [ReferralCheck] Referrer ID found: ${referrerIdToUse}`);
-                } else {
-                    console.warn(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [ReferralCheck] User ${authUser.uid} attempted self-referral with code "${finalReferralCodeToUse}".`);
-                }
-            } else {
-                console.warn(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [ReferralCheck] Referrer code "${finalReferralCodeToUse}" not found.`);
-            }
-        } catch (queryError) {
-            console.error(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [ReferralCheck] Error querying referrer:`, queryError);
-        }
-    }
+    // The code is resolved to a referrer server-side (onUserProfileWritten); rules keep other users' profiles private.
+    const referralCodeToAttach = finalReferralCodeToUse?.trim() || null;
 
     try {
         console.log(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [Transaction] Starting Firestore transaction for user: ${authUser.uid}`);
         const profileData = await runTransaction(db, async (transaction) => {
             const docSnap = await transaction.get(userDocRef);
-            let isNewUserCreation = false;
             let profileToSet: UserProfile;
 
             if (docSnap.exists()) {
@@ -202,15 +192,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                     updatedAt: serverTimestamp(),
                 };
 
-                if (existingData.referredBy === null && referrerIdToUse && referrerIdToUse !== authUser.uid) {
-                    updatePayload.referredBy = referrerIdToUse;
-                     console.log(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [Transaction] Setting referredBy for existing user ${authUser.uid} to ${referrerIdToUse}.`);
-                }
-
-                if (process.env.NEXT_PUBLIC_INITIAL_ADMIN_UID === authUser.uid && existingData.role !== 'admin') {
-                    updatePayload.role = 'admin';
-                     console.log(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [Transaction] Promoting initial admin: ${authUser.uid}.`);
-                }
+                // Referral codes are only accepted at sign-up (see firestore.rules).
                 transaction.update(userDocRef, updatePayload);
                 // Merge existing data with updates for immediate use, then convert timestamps
                 const updatedRawProfile = { ...existingData, ...updatePayload, uid: authUser.uid };
@@ -222,19 +204,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 } as unknown as UserProfile;
 
             } else {
-                isNewUserCreation = true;
                 const generatedReferralCode = uuidv4().substring(0, 8).toUpperCase();
-                console.log(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [Transaction] Creating NEW user: ${authUser.uid}. Generated Ref Code: ${generatedReferralCode}. Referred by: ${referrerIdToUse}`);
+                console.log(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [Transaction] Creating NEW user: ${authUser.uid}. Generated Ref Code: ${generatedReferralCode}. Referral code used: ${referralCodeToAttach}`);
                 profileToSet = {
                     uid: authUser.uid,
                     email: authUser.email ?? null,
                     displayName: authUser.displayName || "MagicSaver User",
                     photoURL: authUser.photoURL ?? null,
-                    role: process.env.NEXT_PUBLIC_INITIAL_ADMIN_UID === authUser.uid ? 'admin' : 'user',
+                    role: 'user', // The initial admin is promoted server-side (INITIAL_ADMIN_UID).
                     cashbackBalance: 0, pendingCashback: 0, lifetimeCashback: 0,
                     referralCode: generatedReferralCode,
                     referralCount: 0, referralBonusEarned: 0,
-                    referredBy: referrerIdToUse && referrerIdToUse !== authUser.uid ? referrerIdToUse : null,
+                    referredBy: null,
+                    referredByCode: referralCodeToAttach,
                     isDisabled: false,
                     createdAt: serverTimestamp() as Timestamp,
                     updatedAt: serverTimestamp() as Timestamp,
@@ -243,22 +225,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 transaction.set(userDocRef, profileToSet);
             }
 
-            if (isNewUserCreation && referrerIdToUse) {
-                console.log(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [Transaction] New user ${authUser.uid} was referred by ${referrerIdToUse}. Attempting to update referrer.`);
-                const referrerDocRef = doc(db!, 'users', referrerIdToUse);
-                const referrerSnap = await transaction.get(referrerDocRef); // Read referrer within the same transaction
-                if (referrerSnap.exists()) {
-                    const referralBonusAmount = parseFloat(process.env.NEXT_PUBLIC_REFERRAL_BONUS_AMOUNT || "50");
-                    transaction.update(referrerDocRef, {
-                        referralCount: increment(1),
-                        referralBonusEarned: increment(referralBonusAmount),
-                        updatedAt: serverTimestamp(),
-                    });
-                    console.log(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [Transaction] Updated referrer ${referrerIdToUse} count by 1 and bonus by ${referralBonusAmount}.`);
-                } else {
-                    console.warn(`${AUTH_HOOK_LOG_PREFIX} [Op:${operationId}] [Transaction] Referrer ${referrerIdToUse} document not found during transaction. Cannot update referral stats.`);
-                }
-            }
             return profileToSet;
         });
 
@@ -322,11 +288,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             setProfileLoading(false);
             if (profile) {
                 console.log(`${AUTH_HOOK_LOG_PREFIX} handleUserSession: Profile processing complete for ${currentAuthUser.uid}. Profile set. Name: "${profile.displayName}", Role: "${profile.role}"`);
+                void reportAccountSignals(currentAuthUser.uid);
                 if (fromRedirect) { // Only toast/redirect if this was called from getRedirectResult
                     toast({ title: 'Sign In Successful', description: `Welcome, ${profile.displayName || currentAuthUser.email}!` });
                     const redirectUrlPath = sessionStorage.getItem('loginRedirectUrl') || '/dashboard';
                     console.log(`${AUTH_HOOK_LOG_PREFIX} handleUserSession: Redirecting to "${redirectUrlPath}" after Google Sign-In.`);
-                    router.push(redirectUrlPath);
+                    if (redirectUrlPath.startsWith('/go/')) {
+                      window.location.assign(redirectUrlPath); // Outbound click route; leaves the app
+                    } else {
+                      router.push(redirectUrlPath);
+                    }
                     sessionStorage.removeItem('loginRedirectUrl');
                 }
             } else {
@@ -446,6 +417,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, [handleUserSession]); // Added handleUserSession as a dependency because it's used in onAuthStateChanged
 
+  // Keep the __session cookie in step with the ID token for server routes like /go/[storeId].
+  React.useEffect(() => {
+    if (!firebaseAuthService) return;
+    const unsubscribe = onIdTokenChanged(firebaseAuthService, async (currentAuthUser) => {
+      try {
+        writeSessionCookie(currentAuthUser ? await currentAuthUser.getIdToken() : null);
+      } catch (error) {
+        console.error(`${AUTH_HOOK_LOG_PREFIX} Failed to refresh session cookie:`, error);
+        writeSessionCookie(null);
+      }
+    });
+    return () => unsubscribe();
+  }, []);
+
   const signOut = async () => {
     console.log(`${AUTH_HOOK_LOG_PREFIX} signOut called.`);
     if (!firebaseAuthService) {
@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { collection, getDocs, query, Timestamp, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import type { Campaign } from '@/lib/types';
+import { useAuth } from '@/hooks/use-auth';
+
+const CAMPAIGNS_LOG_PREFIX = "useCampaigns:";
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Every card on a page asks for campaigns, so one fetch is shared per user.
+const cache = new Map<string, { fetchedAt: number; campaigns: Promise<Campaign[]> }>();
+
+async function fetchCampaigns(uid: string | null): Promise<Campaign[]> {
+  if (!db) return [];
+  const campaignsRef = collection(db, 'campaigns');
+  const now = Timestamp.now();
+  // Campaigns for selected users are only readable by those users, so they
+  // are fetched separately.
+  const queries = [query(campaignsRef, where('eligibility', 'in', ['all', 'new']), where('endsAt', '>', now))];
+  if (uid) {
+    queries.push(query(campaignsRef, where('eligibleUserIds', 'array-contains', uid), where('endsAt', '>', now)));
+  }
+  const snapshots = await Promise.all(queries.map(q => getDocs(q)));
+  const byId = new Map<string, Campaign>();
+  snapshots.forEach(snapshot => snapshot.docs.forEach(docSnap => {
+    byId.set(docSnap.id, { id: docSnap.id, ...docSnap.data() } as Campaign);
+  }));
+  return Array.from(byId.values()).filter(campaign => campaign.isActive);
+}
+
+/**
+ * Active and upcoming campaigns the current user can see. Use the helpers in
+ * src/lib/campaigns.ts to pick the ones that are live for a store or product.
+ */
+export function useCampaigns(): Campaign[] {
+  const { user, loading: authLoading } = useAuth();
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const uid = user?.uid || null;
+
+  useEffect(() => {
+    if (authLoading) return;
+    let cancelled = false;
+    const key = uid || 'guest';
+    let entry = cache.get(key);
+    if (!entry || Date.now() - entry.fetchedAt > CACHE_TTL_MS) {
+      entry = { fetchedAt: Date.now(), campaigns: fetchCampaigns(uid) };
+      cache.set(key, entry);
+    }
+    entry.campaigns
+      .then(result => { if (!cancelled) setCampaigns(result); })
+      .catch(err => {
+        console.error(`${CAMPAIGNS_LOG_PREFIX} Error fetching campaigns:`, err);
+        cache.delete(key);
+      });
+    return () => { cancelled = true; };
+  }, [uid, authLoading]);
+
+  return campaigns;
+}
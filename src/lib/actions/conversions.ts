@@ -0,0 +1,23 @@
+// src/lib/actions/conversions.ts
+// Client wrapper for matching unmatched conversions by hand
+// (functions/src/conversion-callables.ts).
+import { callFunction } from '@/lib/actions/functions';
+
+export interface AdminMatchConversionInput {
+  conversionId: string;
+  clickDocId?: string | null;
+  userId?: string | null;
+  storeId?: string | null;
+  note?: string | null;
+}
+
+export interface AdminMatchConversionResult {
+  conversionId: string;
+  status: 'processed' | 'skipped' | 'error';
+  transactionId: string | null;
+  error: string | null;
+}
+
+export function adminMatchConversion(input: AdminMatchConversionInput) {
+  return callFunction<AdminMatchConversionInput, AdminMatchConversionResult>('adminMatchConversion', input);
+}
@@ -0,0 +1,8 @@
+// src/lib/actions/coupon-listings.ts
+// Client wrapper for rebuilding the denormalised coupon listing fields
+// (functions/src/coupon-listings.ts).
+import { callFunction } from '@/lib/actions/functions';
+
+export function adminRebuildCouponListings() {
+  return callFunction<Record<string, never>, { scanned: number; updated: number }>('adminRebuildCouponListings', {});
+}
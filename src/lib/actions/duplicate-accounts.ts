@@ -0,0 +1,32 @@
+// src/lib/actions/duplicate-accounts.ts
+// Client wrappers for the duplicate-account callables
+// (functions/src/duplicate-accounts.ts).
+import { callFunction } from '@/lib/actions/functions';
+
+export interface RecordAccountSignalsInput {
+  deviceId: string | null;
+  fingerprint: string | null;
+}
+
+export interface AdminResolveAccountClusterInput {
+  clusterId: string;
+  resolution: 'actioned' | 'dismissed';
+  voidReferralUserIds?: string[]; // Referred members whose referrer's bonus is voided
+  disableUserIds?: string[];
+  notes?: string | null;
+}
+
+export interface AdminResolveAccountClusterResult {
+  clusterId: string;
+  voided: string[];
+  skipped: { userId: string; reason: string }[];
+  disabled: string[];
+}
+
+export function recordAccountSignals(input: RecordAccountSignalsInput) {
+  return callFunction<RecordAccountSignalsInput, { recorded: boolean }>('recordAccountSignals', input);
+}
+
+export function adminResolveAccountCluster(input: AdminResolveAccountClusterInput) {
+  return callFunction<AdminResolveAccountClusterInput, AdminResolveAccountClusterResult>('adminResolveAccountCluster', input);
+}
@@ -0,0 +1,20 @@
+// src/lib/actions/functions.ts
+// Shared caller for the callable Cloud Functions (functions/src). The
+// per-feature modules in this directory wrap it; it throws with the
+// function's error message so callers can surface it in a toast.
+import { httpsCallable } from 'firebase/functions';
+import { functions, firebaseInitializationError } from '@/lib/firebase/config';
+
+export async function callFunction<I, O>(name: string, input: I): Promise<O> {
+  if (firebaseInitializationError || !functions) {
+    throw new Error(firebaseInitializationError || "Cloud Functions are not available.");
+  }
+  try {
+    const callable = httpsCallable<I, O>(functions, name);
+    const result = await callable(input);
+    return result.data;
+  } catch (error) {
+    console.error(`[${name}] Callable failed:`, error);
+    throw new Error(error instanceof Error ? error.message : `Call to ${name} failed.`);
+  }
+}
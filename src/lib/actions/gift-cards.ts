@@ -0,0 +1,32 @@
+// src/lib/actions/gift-cards.ts
+// Client wrappers for the gift card callables (functions/src/gift-cards.ts).
+import { callFunction } from '@/lib/actions/functions';
+import type { GiftCardBrand } from '@/lib/types';
+
+export interface AdminAddGiftCardVouchersInput {
+  brand: GiftCardBrand;
+  denomination: number;
+  codes: string[];
+  expiresAtMillis?: number | null;
+}
+
+export interface RevealedGiftCard {
+  voucherId: string;
+  brand: GiftCardBrand;
+  denomination: number;
+  code: string;
+  expiresAtMillis: number | null;
+}
+
+export interface RevealPayoutGiftCardsResult {
+  payoutId: string;
+  cards: RevealedGiftCard[];
+}
+
+export function adminAddGiftCardVouchers(input: AdminAddGiftCardVouchersInput) {
+  return callFunction<AdminAddGiftCardVouchersInput, { added: number }>('adminAddGiftCardVouchers', input);
+}
+
+export function revealPayoutGiftCards(payoutId: string) {
+  return callFunction<{ payoutId: string }, RevealPayoutGiftCardsResult>('revealPayoutGiftCards', { payoutId });
+}
@@ -0,0 +1,175 @@
+// src/lib/actions/ledger.ts
+// Client wrappers for the ledger callable functions (functions/src): cashback
+// transactions, payouts and balance reconciliation. Balance changes only ever
+// happen server-side.
+import { callFunction } from '@/lib/actions/functions';
+import type { PayoutMethod, PayoutRiskDecision, PayoutStatus } from '@/lib/types';
+
+export interface AdminCreateTransactionInput {
+  userId: string;
+  storeId: string;
+  storeName?: string | null;
+  orderId?: string | null;
+  clickId?: string | null;
+  conversionId?: string | null;
+  productDetails?: string | null;
+  transactionDateMillis: number;
+  saleAmount: number;
+  initialCashbackAmount: number;
+  cashbackRateApplied?: string | null;
+  status: 'pending' | 'confirmed' | 'rejected' | 'cancelled';
+  adminNotes?: string | null;
+  notesToUser?: string | null;
+  rejectionReason?: string | null;
+}
+
+export interface AdminApproveTransactionInput {
+  transactionId: string;
+  finalSaleAmount?: number | null;
+  finalCashbackAmount?: number | null;
+  adminNotes?: string | null;
+  notesToUser?: string | null;
+}
+
+export interface AdminRejectTransactionInput {
+  transactionId: string;
+  rejectionReason: string;
+  adminNotes?: string | null;
+  notesToUser?: string | null;
+}
+
+export interface RequestPayoutInput {
+  requestedAmount: number;
+  payoutMethod: PayoutMethod;
+  payoutDetail: string;
+}
+
+export interface RequestPayoutResult {
+  payoutId: string;
+  amount: number;
+  requestedAmount: number;
+}
+
+export interface AdminUpdatePayoutStatusInput {
+  payoutId: string;
+  status: PayoutStatus;
+  adminNotes?: string | null;
+  failureReason?: string | null;
+  overrideRiskHold?: boolean; // Required to approve a payout on risk hold
+}
+
+export interface AdminUpdatePayoutStatusResult {
+  payoutId: string;
+  status: PayoutStatus;
+  transactionIds: string[];
+}
+
+export interface AdminAssessPayoutRiskResult {
+  payoutId: string;
+  score: number;
+  decision: PayoutRiskDecision;
+}
+
+export interface AdminCreatePayoutBatchInput {
+  method: PayoutMethod;
+  layoutId: string;
+  payoutIds: string[];
+}
+
+export interface BankAccountDetails {
+  accountNumber: string;
+  ifsc: string;
+  accountHolderName: string;
+}
+
+export interface PayoutBatchRow {
+  payoutId: string;
+  userId: string;
+  amount: number;
+  detail: string;
+  bankAccount: BankAccountDetails | null;
+}
+
+export interface AdminCreatePayoutBatchResult {
+  batchId: string;
+  rows: PayoutBatchRow[];
+}
+
+export interface PayoutBatchResultInput {
+  rowNumber: number;
+  payoutId: string;
+  outcome: 'paid' | 'failed';
+  utr?: string | null;
+  failureReason?: string | null;
+}
+
+export interface AdminImportPayoutBatchResultsInput {
+  batchId: string;
+  results: PayoutBatchResultInput[];
+}
+
+export interface PayoutBatchResultRow {
+  rowNumber: number;
+  payoutId: string;
+  action: 'paid' | 'failed' | 'skipped';
+  reason: string | null;
+}
+
+export interface AdminImportPayoutBatchResultsResult {
+  batchId: string;
+  results: PayoutBatchResultRow[];
+}
+
+export interface LedgerBalances {
+  pendingCashback: number;
+  cashbackBalance: number;
+  lifetimeCashback: number;
+}
+
+export interface ReconcileUserBalanceResult {
+  userId: string;
+  entryCount: number;
+  ledger: LedgerBalances;
+  profile: LedgerBalances;
+  drift: LedgerBalances;
+  inSync: boolean;
+  corrected: boolean;
+  hasOpeningBalance: boolean;
+  openingBalance: LedgerBalances | null;
+}
+
+export function adminCreateTransaction(input: AdminCreateTransactionInput) {
+  return callFunction<AdminCreateTransactionInput, { transactionId: string }>('adminCreateTransaction', input);
+}
+
+export function adminApproveTransaction(input: AdminApproveTransactionInput) {
+  return callFunction<AdminApproveTransactionInput, { transactionId: string }>('adminApproveTransaction', input);
+}
+
+export function adminRejectTransaction(input: AdminRejectTransactionInput) {
+  return callFunction<AdminRejectTransactionInput, { transactionId: string }>('adminRejectTransaction', input);
+}
+
+export function requestPayout(input: RequestPayoutInput) {
+  return callFunction<RequestPayoutInput, RequestPayoutResult>('requestPayout', input);
+}
+
+export function adminUpdatePayoutStatus(input: AdminUpdatePayoutStatusInput) {
+  return callFunction<AdminUpdatePayoutStatusInput, AdminUpdatePayoutStatusResult>('adminUpdatePayoutStatus', input);
+}
+
+export function adminAssessPayoutRisk(payoutId: string) {
+  return callFunction<{ payoutId: string }, AdminAssessPayoutRiskResult>('adminAssessPayoutRisk', { payoutId });
+}
+
+export function adminCreatePayoutBatch(input: AdminCreatePayoutBatchInput) {
+  return callFunction<AdminCreatePayoutBatchInput, AdminCreatePayoutBatchResult>('adminCreatePayoutBatch', input);
+}
+
+export function adminImportPayoutBatchResults(input: AdminImportPayoutBatchResultsInput) {
+  return callFunction<AdminImportPayoutBatchResultsInput, AdminImportPayoutBatchResultsResult>('adminImportPayoutBatchResults', input);
+}
+
+export function adminReconcileUserBalance(userId: string, apply = false) {
+  return callFunction<{ userId: string; apply: boolean }, ReconcileUserBalanceResult>('adminReconcileUserBalance', { userId, apply });
+}
@@ -0,0 +1,33 @@
+// src/lib/actions/referrals.ts
+// Client wrapper for the referral dashboard callable (functions/src/referrals.ts).
+import { callFunction } from '@/lib/actions/functions';
+import type { ReferralBonusStatus } from '@/lib/types';
+
+export type RefereeStatus = 'joined' | 'qualified' | 'expired' | 'inactive';
+
+// A referee as shown to their referrer; name and email are masked server-side.
+export interface RefereeSummary {
+  maskedName: string;
+  maskedEmail: string | null;
+  joinedAtMillis: number | null;
+  status: RefereeStatus;
+  bonusStatus: ReferralBonusStatus | null;
+  bonusAmount: number;
+  shareEarned: number; // Revenue share from the referee's own purchases
+  secondTierEarned: number; // Revenue share from people the referee referred
+  revenueShareEndsAtMillis: number | null; // null for lifetime
+}
+
+export interface MyReferralsResult {
+  referees: RefereeSummary[];
+  rules: {
+    revenueShareEnabled: boolean;
+    tier1Percent: number;
+    tier2Percent: number;
+    revenueShareDays: number | null;
+  };
+}
+
+export function getMyReferrals() {
+  return callFunction<Record<string, never>, MyReferralsResult>('getMyReferrals', {});
+}
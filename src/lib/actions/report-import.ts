@@ -0,0 +1,44 @@
+// src/lib/actions/report-import.ts
+// Client wrapper for the network report import (functions/src/report-import.ts).
+import { callFunction } from '@/lib/actions/functions';
+import type { CashbackStatus } from '@/lib/types';
+
+export interface ImportRowInput {
+  rowNumber: number;
+  clickId?: string | null;
+  orderId?: string | null;
+  saleAmount?: number | null;
+  commissionAmount?: number | null;
+  status?: string | null;
+  transactionDateMillis?: number | null;
+  currency?: string | null;
+}
+
+export type ImportRowAction = 'create' | 'update' | 'status_change' | 'unchanged' | 'rejected';
+
+export interface ImportRowResult {
+  rowNumber: number;
+  action: ImportRowAction;
+  reason: string | null;
+  transactionId: string | null;
+  fromStatus: CashbackStatus | null;
+  toStatus: CashbackStatus | null;
+  changes: string[];
+}
+
+export interface AdminImportTransactionsInput {
+  importId: string;
+  network: string;
+  fileName?: string | null;
+  rows: ImportRowInput[];
+  commit: boolean;
+}
+
+export interface AdminImportTransactionsResult {
+  importId: string;
+  results: ImportRowResult[];
+}
+
+export function adminImportTransactions(input: AdminImportTransactionsInput) {
+  return callFunction<AdminImportTransactionsInput, AdminImportTransactionsResult>('adminImportTransactions', input);
+}
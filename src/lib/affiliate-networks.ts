@@ -0,0 +1,212 @@
+// src/lib/affiliate-networks.ts
+// Affiliate network definitions and the outbound link builder used by /go/[storeId].
+// Each network declares where it expects our click ID (sub-id) and which
+// publisher parameters a tracking link must carry.
+import type { AffiliateNetworkId, Store } from '@/lib/types';
+
+export const CLICK_ID_TOKEN = '{CLICK_ID}';
+export const URL_TOKEN = '{URL}';
+
+export interface AffiliateNetwork {
+  id: AffiliateNetworkId;
+  name: string;
+  // 'merchant': links point at the merchant site with publisher params (Amazon tag, Flipkart affid).
+  // 'redirect': links go through the network's redirector, which wraps the merchant URL.
+  linkStyle: 'merchant' | 'redirect';
+  // Query params that carry our click ID, in order of preference.
+  subIdParams: string[];
+  // Publisher identifiers every tracking link for this network must include.
+  requiredParams: string[];
+  // Example deep-link template for redirect networks; {URL} is the encoded merchant URL.
+  deepLinkExample: string | null;
+  helpText: string;
+}
+
+export const AFFILIATE_NETWORKS: Record<AffiliateNetworkId, AffiliateNetwork> = {
+  amazon_associates: {
+    id: 'amazon_associates',
+    name: 'Amazon Associates',
+    linkStyle: 'merchant',
+    subIdParams: ['ascsubtag'],
+    requiredParams: ['tag'],
+    deepLinkExample: null,
+    helpText: 'Links must carry your Associates tag; the click ID is passed in ascsubtag.',
+  },
+  flipkart: {
+    id: 'flipkart',
+    name: 'Flipkart Affiliate',
+    linkStyle: 'merchant',
+    subIdParams: ['affExtParam1'],
+    requiredParams: ['affid'],
+    deepLinkExample: null,
+    helpText: 'Links must carry your affid; the click ID is passed in affExtParam1.',
+  },
+  cuelinks: {
+    id: 'cuelinks',
+    name: 'Cuelinks',
+    linkStyle: 'redirect',
+    subIdParams: ['subid'],
+    requiredParams: ['cid'],
+    deepLinkExample: `https://linksredirect.com/?cid=YOUR_CID&source=linkkit&url=${URL_TOKEN}&subid=${CLICK_ID_TOKEN}`,
+    helpText: 'Product and coupon URLs are wrapped in the linksredirect.com deep link; the click ID is passed in subid.',
+  },
+  admitad: {
+    id: 'admitad',
+    name: 'Admitad',
+    linkStyle: 'redirect',
+    subIdParams: ['subid'],
+    requiredParams: [],
+    deepLinkExample: `https://ad.admitad.com/g/YOUR_CAMPAIGN_CODE/?ulp=${URL_TOKEN}&subid=${CLICK_ID_TOKEN}`,
+    helpText: 'Product and coupon URLs are passed as ulp on your campaign link; the click ID is passed in subid.',
+  },
+  generic: {
+    id: 'generic',
+    name: 'Other / Direct',
+    linkStyle: 'merchant',
+    subIdParams: ['click_id', 'subid', 'aff_sub'],
+    requiredParams: [],
+    deepLinkExample: null,
+    helpText: 'Use {CLICK_ID} where the network expects the sub-id; otherwise click_id, subid and aff_sub are all set.',
+  },
+};
+
+export const AFFILIATE_NETWORK_IDS = Object.keys(AFFILIATE_NETWORKS) as AffiliateNetworkId[];
+
+export function getAffiliateNetwork(id: AffiliateNetworkId | null | undefined): AffiliateNetwork {
+  return (id && AFFILIATE_NETWORKS[id]) || AFFILIATE_NETWORKS.generic;
+}
+
+function fillTokens(template: string, values: Record<string, string>): string {
+  return Object.entries(values).reduce(
+    (result, [token, value]) => result.split(token).join(value),
+    template
+  );
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+type StoreLinkConfig = Pick<Store, 'affiliateLink' | 'affiliateNetwork' | 'deepLinkTemplate'>;
+
+/**
+ * Builds the outbound URL for a click.
+ *
+ * `targetUrl` is the product/coupon link, or the store's affiliate link itself.
+ * Templates with {CLICK_ID} are filled in as-is. Otherwise redirect networks
+ * wrap merchant URLs in the store's deep-link template, and merchant networks
+ * get their sub-id param set (and missing publisher params copied over from
+ * the store link when the target is on the same site).
+ */
+export function buildAffiliateUrl(targetUrl: string, store: StoreLinkConfig, clickId: string): string {
+  const network = getAffiliateNetwork(store.affiliateNetwork);
+  const encodedClickId = encodeURIComponent(clickId);
+
+  if (targetUrl.includes(CLICK_ID_TOKEN)) {
+    return fillTokens(targetUrl, { [CLICK_ID_TOKEN]: encodedClickId });
+  }
+
+  const target = parseUrl(targetUrl);
+  if (!target) return targetUrl;
+
+  if (network.linkStyle === 'redirect' && store.deepLinkTemplate) {
+    const redirectHost = parseUrl(fillTokens(store.deepLinkTemplate, { [URL_TOKEN]: '', [CLICK_ID_TOKEN]: '' }))?.hostname;
+    if (redirectHost && target.hostname !== redirectHost) {
+      return fillTokens(store.deepLinkTemplate, {
+        [URL_TOKEN]: encodeURIComponent(targetUrl),
+        [CLICK_ID_TOKEN]: encodedClickId,
+      });
+    }
+  }
+
+  const storeLink = parseUrl(fillTokens(store.affiliateLink || '', { [CLICK_ID_TOKEN]: '' }));
+  if (storeLink && storeLink.hostname === target.hostname) {
+    for (const param of network.requiredParams) {
+      const value = storeLink.searchParams.get(param);
+      if (value && !target.searchParams.has(param)) {
+        target.searchParams.set(param, value);
+      }
+    }
+  }
+  for (const param of network.subIdParams) {
+    target.searchParams.set(param, clickId);
+  }
+  return target.toString();
+}
+
+const TOKEN_PATTERN = /\{[A-Z_]+\}/g;
+
+/**
+ * Checks a link template against its network's rules. Returns human-readable
+ * problems; an empty array means the template is usable.
+ */
+export function validateAffiliateLinkTemplate(
+  template: string,
+  networkId: AffiliateNetworkId | null | undefined,
+  kind: 'affiliateLink' | 'deepLinkTemplate' = 'affiliateLink'
+): string[] {
+  const network = getAffiliateNetwork(networkId);
+  const allowedTokens = kind === 'deepLinkTemplate' ? [CLICK_ID_TOKEN, URL_TOKEN] : [CLICK_ID_TOKEN];
+  const problems: string[] = [];
+
+  const unknownTokens = (template.match(TOKEN_PATTERN) || []).filter(token => !allowedTokens.includes(token));
+  if (unknownTokens.length > 0) {
+    problems.push(`Unknown placeholder${unknownTokens.length > 1 ? 's' : ''} ${Array.from(new Set(unknownTokens)).join(', ')}. Allowed: ${allowedTokens.join(', ')}.`);
+  }
+
+  const sample = parseUrl(fillTokens(template, { [CLICK_ID_TOKEN]: 'sample-click-id', [URL_TOKEN]: encodeURIComponent('https://example.com/') }));
+  if (!sample) {
+    problems.push('Must be a valid http(s) URL.');
+    return problems;
+  }
+
+  if (kind === 'deepLinkTemplate') {
+    if (network.linkStyle !== 'redirect') {
+      problems.push(`${network.name} links point at the merchant directly and do not use a deep-link template.`);
+    }
+    if (!template.includes(URL_TOKEN)) problems.push(`Deep-link template must contain ${URL_TOKEN}.`);
+    if (!template.includes(CLICK_ID_TOKEN)) problems.push(`Deep-link template must contain ${CLICK_ID_TOKEN}.`);
+  }
+
+  // Redirect networks carry their publisher params on the deep link, not on the plain store link.
+  const checkRequiredParams = network.linkStyle === 'merchant' || kind === 'deepLinkTemplate';
+  if (checkRequiredParams) {
+    const missing = network.requiredParams.filter(param => !sample.searchParams.has(param));
+    if (missing.length > 0) {
+      problems.push(`${network.name} links must include ${missing.join(', ')}.`);
+    }
+  }
+
+  // A {CLICK_ID} in a param the network never reports back would silently break matching.
+  const clickIdParams = Array.from(sample.searchParams.entries())
+    .filter(([, value]) => value === 'sample-click-id')
+    .map(([param]) => param);
+  const misplaced = clickIdParams.filter(param => !network.subIdParams.includes(param));
+  if (network.id !== 'generic' && misplaced.length > 0) {
+    problems.push(`${network.name} reports the click ID back from ${network.subIdParams.join(' or ')}, not ${misplaced.join(', ')}.`);
+  }
+
+  return problems;
+}
+
+export interface AffiliateLinkIssue {
+  field: 'affiliateLink' | 'deepLinkTemplate';
+  message: string;
+}
+
+// Used by the admin store forms to validate both link fields against the selected network.
+export function validateStoreAffiliateLinks(store: StoreLinkConfig): AffiliateLinkIssue[] {
+  const issues: AffiliateLinkIssue[] = validateAffiliateLinkTemplate(store.affiliateLink, store.affiliateNetwork)
+    .map(message => ({ field: 'affiliateLink' as const, message }));
+  // The deep-link field is hidden for merchant networks, so a stale value there is ignored.
+  if (store.deepLinkTemplate && getAffiliateNetwork(store.affiliateNetwork).linkStyle === 'redirect') {
+    issues.push(...validateAffiliateLinkTemplate(store.deepLinkTemplate, store.affiliateNetwork, 'deepLinkTemplate')
+      .map(message => ({ field: 'deepLinkTemplate' as const, message })));
+  }
+  return issues;
+}
@@ -0,0 +1,63 @@
+// src/lib/campaigns.ts
+// Boosted-cashback campaign helpers for cards and store pages. Conversions
+// are boosted server-side by selectCampaign in functions/src/campaigns.ts,
+// which uses the same window and product rules.
+import type { Campaign } from '@/lib/types';
+import { safeToDate } from '@/lib/utils';
+
+export const CAMPAIGN_ELIGIBILITY_LABELS: Record<Campaign['eligibility'], string> = {
+  all: 'All users',
+  new: 'New users',
+  specific: 'Selected users',
+};
+
+export function isCampaignLive(campaign: Campaign, at: Date = new Date()): boolean {
+  const startsAt = safeToDate(campaign.startsAt);
+  const endsAt = safeToDate(campaign.endsAt);
+  return campaign.isActive && campaign.multiplier > 1 && !!startsAt && !!endsAt && startsAt <= at && endsAt >= at;
+}
+
+export function isCampaignUpcoming(campaign: Campaign, at: Date = new Date()): boolean {
+  const startsAt = safeToDate(campaign.startsAt);
+  return campaign.isActive && campaign.multiplier > 1 && !!startsAt && startsAt > at;
+}
+
+/**
+ * Live campaigns for a store, strongest first. Pass a product ID to include
+ * campaigns for that product; without one only store-wide campaigns count.
+ */
+export function liveCampaignsFor(
+  campaigns: Campaign[],
+  target: { storeId: string; productId?: string | null },
+  at: Date = new Date()
+): Campaign[] {
+  return campaigns
+    .filter(campaign => campaign.storeId === target.storeId
+      && (!campaign.productId || campaign.productId === target.productId)
+      && isCampaignLive(campaign, at))
+    .sort((a, b) => b.multiplier - a.multiplier);
+}
+
+/** "2x Cashback", "1.5x Cashback". */
+export function formatBoost(campaign: Pick<Campaign, 'multiplier'>): string {
+  return `${parseFloat(campaign.multiplier.toFixed(2))}x Cashback`;
+}
+
+/** "New users only" style note, or null when everyone qualifies. */
+export function describeEligibility(campaign: Pick<Campaign, 'eligibility'>): string | null {
+  if (campaign.eligibility === 'new') return 'New users only';
+  if (campaign.eligibility === 'specific') return 'Selected members only';
+  return null;
+}
+
+/** "2d 4h", "3h 12m" or "12m 05s" until the given time; "0m 00s" once past. */
+export function formatCountdown(until: Date, now: Date = new Date()): string {
+  const totalSeconds = Math.max(0, Math.floor((until.getTime() - now.getTime()) / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+}
@@ -0,0 +1,112 @@
+// src/lib/cashback-rates.ts
+// Store rate card helpers: which tier applies to a sale, and how tiers are
+// described on the store page. Conversions are credited server-side by
+// cashbackForSale in functions/src/cashback.ts, which uses the same rules.
+import type { CashbackRateTier, CashbackType, Store } from '@/lib/types';
+import { formatCurrency, safeToDate } from '@/lib/utils';
+
+export interface RateContext {
+  category?: string | null;
+  // Unknown platforms are treated as web, where our clicks come from.
+  platform?: 'app' | 'web' | null;
+  // Null when not known; tiers for new or existing users then never match.
+  isNewUser?: boolean | null;
+  at?: Date;
+}
+
+export const USER_SEGMENT_LABELS: Record<CashbackRateTier['userSegment'], string> = {
+  all: 'All users',
+  new: 'New users',
+  existing: 'Existing users',
+};
+
+export const PLATFORM_LABELS: Record<CashbackRateTier['platform'], string> = {
+  all: 'App & web',
+  app: 'App only',
+  web: 'Web only',
+};
+
+export function calculateCashback(
+  saleAmount: number,
+  rateValue: number,
+  type: CashbackType,
+  maxCashback?: number | null
+): number {
+  let amount = type === 'fixed' ? rateValue : (saleAmount * rateValue) / 100;
+  if (maxCashback != null && maxCashback >= 0) amount = Math.min(amount, maxCashback);
+  return parseFloat(Math.max(amount, 0).toFixed(2));
+}
+
+export function isTierActive(tier: CashbackRateTier, at: Date = new Date()): boolean {
+  const validFrom = safeToDate(tier.validFrom);
+  const validUntil = safeToDate(tier.validUntil);
+  return (!validFrom || validFrom <= at) && (!validUntil || validUntil >= at);
+}
+
+export function activeRateTiers(store: Pick<Store, 'cashbackRates'>, at: Date = new Date()): CashbackRateTier[] {
+  return (store.cashbackRates || []).filter(tier => isTierActive(tier, at));
+}
+
+/**
+ * Picks the tier for a sale: the most specific active tier matching the
+ * category, user segment and platform (category outranks segment, which
+ * outranks platform); ties go to the tier listed first.
+ */
+export function selectRateTier(tiers: CashbackRateTier[] | null | undefined, context: RateContext): CashbackRateTier | null {
+  const at = context.at || new Date();
+  const category = context.category?.trim().toLowerCase() || null;
+  const platform = context.platform || 'web';
+  let best: CashbackRateTier | null = null;
+  let bestScore = -1;
+
+  for (const tier of tiers || []) {
+    if (!isTierActive(tier, at)) continue;
+    let score = 0;
+    if (tier.category) {
+      if (tier.category.trim().toLowerCase() !== category) continue;
+      score += 4;
+    }
+    if (tier.userSegment !== 'all') {
+      if (context.isNewUser == null || (tier.userSegment === 'new') !== context.isNewUser) continue;
+      score += 2;
+    }
+    if (tier.platform !== 'all') {
+      if (tier.platform !== platform) continue;
+      score += 1;
+    }
+    if (score > bestScore) {
+      best = tier;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function formatTierRate(tier: Pick<CashbackRateTier, 'value' | 'type'>): string {
+  return tier.type === 'fixed' ? formatCurrency(tier.value).replace(/\.00$/, '') : `${tier.value}%`;
+}
+
+/** "Mobiles · New users · App only", omitting conditions that match everyone. */
+export function describeTierConditions(tier: CashbackRateTier): string {
+  const parts = [
+    tier.category || null,
+    tier.userSegment !== 'all' ? USER_SEGMENT_LABELS[tier.userSegment] : null,
+    tier.platform !== 'all' ? PLATFORM_LABELS[tier.platform] : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All purchases';
+}
+
+/**
+ * "Up to 7%" style headline from the base rate and active tiers, or null
+ * when the store has no tiers and its own cashbackRate text should be shown.
+ */
+export function headlineRate(store: Pick<Store, 'cashbackRates' | 'cashbackRateValue' | 'cashbackType'>): string | null {
+  const tiers = activeRateTiers(store);
+  if (tiers.length === 0) return null;
+  const rates = [{ value: store.cashbackRateValue, type: store.cashbackType }, ...tiers];
+  const percentages = rates.filter(rate => rate.type === 'percentage');
+  const best = percentages.length > 0
+    ? percentages.reduce((max, rate) => (rate.value > max.value ? rate : max))
+    : rates.reduce((max, rate) => (rate.value > max.value ? rate : max));
+  return `Up to ${formatTierRate(best)}`;
+}
@@ -0,0 +1,245 @@
+// src/lib/catalog-data.ts
+// Server-only reads of the public catalogue for the server-rendered pages,
+// the sitemap and their JSON-LD. Reads are cached and tagged by collection;
+// admin edits refresh them through /api/revalidate (called by
+// functions/src/catalog-revalidation.ts). Never import this from a
+// "use client" module.
+import { unstable_cache } from 'next/cache';
+import { Timestamp, type DocumentSnapshot, type Firestore, type Query } from 'firebase-admin/firestore';
+import { adminDb, adminInitializationError } from '@/lib/firebase/admin';
+import { couponListingQuery, parseCouponFilters } from '@/lib/listing-filters';
+import type { Banner, Category, Coupon, Product, Store, StoreRateVersion } from '@/lib/types';
+
+// Cached pages are rebuilt at least this often even without an admin edit,
+// e.g. so coupons drop off after they expire.
+export const CATALOG_REVALIDATE_SECONDS = 3600;
+
+export type CatalogCollection = 'stores' | 'coupons' | 'categories' | 'products' | 'banners';
+export const CATALOG_COLLECTIONS: CatalogCollection[] = ['stores', 'coupons', 'categories', 'products', 'banners'];
+
+export function catalogTag(collectionName: CatalogCollection): string {
+  return `catalog:${collectionName}`;
+}
+
+const HOME_SECTION_SIZE = 6;
+const HOME_FEATURED_ITEMS = 4;
+const CATEGORY_PAGE_SIZE = 12;
+const RATE_HISTORY_LIMIT = 10;
+export const COUPON_LISTING_PAGE_SIZE = 12;
+
+/** Copies Firestore data with Timestamps as ISO strings, so it can be passed to client components. */
+export function toPlain(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toPlain(entry)]));
+  }
+  return value;
+}
+
+// Dates arrive as ISO strings rather than Timestamps; read them with safeToDate.
+function plainDoc<T>(snap: DocumentSnapshot): T {
+  return { id: snap.id, ...(toPlain(snap.data()) as object) } as T;
+}
+
+function requireDb(): Firestore {
+  if (!adminDb) throw new Error(adminInitializationError || "Admin SDK not available.");
+  return adminDb;
+}
+
+function cached<A extends unknown[], R>(load: (...args: A) => Promise<R>, key: string, collections: CatalogCollection[]) {
+  return unstable_cache(load, ['catalog', key], {
+    tags: collections.map(catalogTag),
+    revalidate: CATALOG_REVALIDATE_SECONDS,
+  });
+}
+
+async function getAll<T>(query: Query): Promise<T[]> {
+  const snapshot = await query.get();
+  return snapshot.docs.map(docSnap => plainDoc<T>(docSnap));
+}
+
+/** Attaches each item's store, reading each store once. */
+async function withStores<T extends { storeId: string }>(db: Firestore, items: T[], known: Store[] = []): Promise<(T & { store?: Store })[]> {
+  const stores = new Map(known.map(store => [store.id, store]));
+  const missing = [...new Set(items.map(item => item.storeId).filter(storeId => storeId && !stores.has(storeId)))];
+  if (missing.length > 0) {
+    const snaps = await db.getAll(...missing.map(storeId => db.collection('stores').doc(storeId)));
+    snaps.filter(snap => snap.exists).forEach(snap => stores.set(snap.id, plainDoc<Store>(snap)));
+  }
+  return items.map(item => ({ ...item, store: stores.get(item.storeId) }));
+}
+
+export interface HomePageData {
+  banners: Banner[];
+  categories: Category[];
+  featuredStores: Store[];
+  topCoupons: (Coupon & { store?: Store })[];
+  todaysPicks: (Product & { store?: Store })[];
+}
+
+export const getHomePageData = cached(async (): Promise<HomePageData> => {
+  const db = requireDb();
+  const [banners, categories, featuredStores, coupons, products] = await Promise.all([
+    getAll<Banner>(db.collection('banners').where('isActive', '==', true).orderBy('order', 'asc')),
+    getAll<Category>(db.collection('categories').where('isActive', '==', true).orderBy('order', 'asc').orderBy('name', 'asc').limit(HOME_SECTION_SIZE)),
+    getAll<Store>(db.collection('stores').where('isActive', '==', true).where('isFeatured', '==', true).orderBy('name', 'asc').limit(HOME_SECTION_SIZE)),
+    getAll<Coupon>(db.collection('coupons').where('isActive', '==', true).where('isFeatured', '==', true).orderBy('createdAt', 'desc').limit(HOME_FEATURED_ITEMS)),
+    getAll<Product>(db.collection('products').where('isActive', '==', true).where('isTodaysPick', '==', true).orderBy('updatedAt', 'desc').limit(HOME_FEATURED_ITEMS)),
+  ]);
+  const [topCoupons, todaysPicks] = await Promise.all([
+    withStores(db, coupons, featuredStores),
+    withStores(db, products, featuredStores),
+  ]);
+  return { banners, categories, featuredStores, topCoupons, todaysPicks };
+}, 'home', ['banners', 'categories', 'stores', 'coupons', 'products']);
+
+// Store IDs and slugs only ever contain these characters.
+const STORE_PATH_SEGMENT = /^[A-Za-z0-9_-]{1,100}$/;
+
+export interface ResolvedStorePath {
+  storeId: string;
+  slug: string; // The store's current path segment: its slug, or its ID if it has none
+}
+
+/**
+ * The store a /stores/{segment} URL refers to: a current or old slug in
+ * storeSlugs, a slug saved before storeSlugs existed, or a store ID. Callers
+ * redirect when the segment isn't the current slug.
+ */
+export const resolveStorePath = cached(async (segment: string): Promise<ResolvedStorePath | null> => {
+  if (!STORE_PATH_SEGMENT.test(segment)) return null;
+  const db = requireDb();
+  const slugSnap = await db.collection('storeSlugs').doc(segment).get();
+  let storeSnap: DocumentSnapshot | undefined;
+  if (slugSnap.exists) {
+    storeSnap = await db.collection('stores').doc(slugSnap.get('storeId') as string).get();
+  } else {
+    const legacySnap = await db.collection('stores').where('slug', '==', segment).limit(1).get();
+    storeSnap = legacySnap.empty ? await db.collection('stores').doc(segment).get() : legacySnap.docs[0];
+  }
+  if (!storeSnap.exists) return null;
+  return { storeId: storeSnap.id, slug: (storeSnap.get('slug') as string | undefined) || storeSnap.id };
+}, 'store-path', ['stores']);
+
+export interface StorePageData {
+  store: Store;
+  coupons: (Coupon & { store?: Store })[];
+  rateHistory: StoreRateVersion[];
+}
+
+/** An active store with its active coupons and recent rate versions, or null. */
+export const getStorePageData = cached(async (storeId: string): Promise<StorePageData | null> => {
+  const db = requireDb();
+  const storeSnap = await db.collection('stores').doc(storeId).get();
+  if (!storeSnap.exists || storeSnap.data()?.isActive !== true) return null;
+  const store = plainDoc<Store>(storeSnap);
+  const [coupons, rateHistory] = await Promise.all([
+    getAll<Coupon>(db.collection('coupons')
+      .where('storeId', '==', storeId)
+      .where('isActive', '==', true)
+      .orderBy('isFeatured', 'desc')
+      .orderBy('createdAt', 'desc')),
+    getAll<StoreRateVersion>(storeSnap.ref.collection('storeRateHistory').orderBy('version', 'desc').limit(RATE_HISTORY_LIMIT))
+      .catch(error => {
+        console.warn(`Could not load rate history for store ${storeId}:`, error);
+        return [];
+      }),
+  ]);
+  return { store, coupons: coupons.map(coupon => ({ ...coupon, store })), rateHistory };
+}, 'store-page', ['stores', 'coupons']);
+
+export interface CategoryPageData {
+  category: Category;
+  stores: Store[];
+  products: (Product & { store?: Store })[];
+  coupons: (Coupon & { store?: Store })[];
+}
+
+/** An active category with its first stores, products and live coupons, or null. */
+export const getCategoryPageData = cached(async (slug: string): Promise<CategoryPageData | null> => {
+  const db = requireDb();
+  const categorySnap = await db.collection('categories').where('slug', '==', slug).where('isActive', '==', true).limit(1).get();
+  if (categorySnap.empty) return null;
+  const category = plainDoc<Category>(categorySnap.docs[0]);
+  const [stores, products, coupons] = await Promise.all([
+    getAll<Store>(db.collection('stores')
+      .where('categories', 'array-contains', category.id)
+      .where('isActive', '==', true)
+      .orderBy('isFeatured', 'desc')
+      .orderBy('name', 'asc')
+      .limit(CATEGORY_PAGE_SIZE)),
+    getAll<Product>(db.collection('products')
+      .where('category', '==', category.id)
+      .where('isActive', '==', true)
+      .orderBy('isFeatured', 'desc')
+      .limit(CATEGORY_PAGE_SIZE)),
+    getAll<Coupon>(db.collection('coupons')
+      .where('storeCategories', 'array-contains', category.slug)
+      .where('listingStatus', '==', 'live')
+      .orderBy('isFeatured', 'desc')
+      .orderBy('createdAt', 'desc')
+      .limit(CATEGORY_PAGE_SIZE)),
+  ]);
+  const [productsWithStores, couponsWithStores] = await Promise.all([
+    withStores(db, products, stores),
+    withStores(db, coupons, stores),
+  ]);
+  return { category, stores, products: productsWithStores, coupons: couponsWithStores };
+}, 'category-page', ['categories', 'stores', 'products', 'coupons']);
+
+export interface CouponListingPage {
+  coupons: (Coupon & { store?: Store })[];
+  hasMore: boolean;
+}
+
+/** The first page of /coupons for a filter query string (see couponFiltersToParams). */
+export const getCouponListingPage = cached(async (filtersQuery: string): Promise<CouponListingPage> => {
+  const db = requireDb();
+  const listingQuery = couponListingQuery(parseCouponFilters(new URLSearchParams(filtersQuery)));
+  let query: Query = db.collection('coupons');
+  listingQuery.where.forEach(([fieldPath, op, value]) => { query = query.where(fieldPath, op, value); });
+  listingQuery.orderBy.forEach(([fieldPath, direction]) => { query = query.orderBy(fieldPath, direction); });
+  const coupons = await getAll<Coupon>(query.limit(COUPON_LISTING_PAGE_SIZE));
+  return { coupons: await withStores(db, coupons), hasMore: coupons.length === COUPON_LISTING_PAGE_SIZE };
+}, 'coupon-listing', ['coupons', 'stores']);
+
+export interface SitemapData {
+  stores: { id: string; slug: string | null; lastModified: string | null }[];
+  categories: { slug: string; lastModified: string | null }[];
+}
+
+function laterOf(a: string | null, b: string | null): string | null {
+  if (!a || !b) return a || b;
+  return a > b ? a : b;
+}
+
+/**
+ * Every active store and category. Coupons are not listed: they have no URL
+ * of their own and appear on their store's page, so a store's last-modified
+ * date also covers edits to its live coupons.
+ */
+export const getSitemapData = cached(async (): Promise<SitemapData> => {
+  const db = requireDb();
+  const [storeSnap, categorySnap, couponSnap] = await Promise.all([
+    db.collection('stores').where('isActive', '==', true).select('slug', 'updatedAt').get(),
+    db.collection('categories').where('isActive', '==', true).select('slug', 'updatedAt').get(),
+    db.collection('coupons').where('listingStatus', '==', 'live').select('storeId', 'updatedAt').get(),
+  ]);
+  const isoDate = (value: unknown) => (value instanceof Timestamp ? value.toDate().toISOString() : null);
+  const couponUpdates = new Map<string, string | null>();
+  couponSnap.docs.forEach(docSnap => {
+    const storeId = docSnap.get('storeId') as string;
+    couponUpdates.set(storeId, laterOf(couponUpdates.get(storeId) ?? null, isoDate(docSnap.get('updatedAt'))));
+  });
+  return {
+    stores: storeSnap.docs.map(docSnap => ({
+      id: docSnap.id,
+      slug: (docSnap.get('slug') as string | undefined) || null,
+      lastModified: laterOf(isoDate(docSnap.get('updatedAt')), couponUpdates.get(docSnap.id) ?? null),
+    })),
+    categories: categorySnap.docs
+      .filter(docSnap => !!docSnap.get('slug'))
+      .map(docSnap => ({ slug: docSnap.get('slug') as string, lastModified: isoDate(docSnap.get('updatedAt')) })),
+  };
+}, 'sitemap', ['stores', 'categories', 'coupons']);
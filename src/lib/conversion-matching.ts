@@ -0,0 +1,90 @@
+// src/lib/conversion-matching.ts
+// Ranks candidate clicks for an unmatched conversion on the admin
+// reconciliation page. Attaching is done server-side by adminMatchConversion.
+import type { Click } from '@/lib/types';
+import { safeToDate } from '@/lib/utils';
+
+export const DEFAULT_MATCH_WINDOW_DAYS = 7;
+
+export interface MatchCriteria {
+  conversionTime: Date;
+  saleAmount: number;
+  storeId?: string | null;
+  userId?: string | null;
+  windowDays: number;
+}
+
+export interface ClickCandidate {
+  click: Click;
+  score: number;
+  reasons: string[];
+}
+
+// Weights add up to 100 for a perfect candidate.
+const STORE_WEIGHT = 40;
+const USER_WEIGHT = 25;
+const TIME_WEIGHT = 25;
+const AMOUNT_WEIGHT = 10;
+const ALREADY_CONVERTED_PENALTY = 15;
+
+/**
+ * Scores clicks by store, user, how shortly before the conversion they
+ * happened and, for product clicks, how close the product price is to the
+ * sale amount. Highest score first.
+ */
+export function rankClickCandidates(
+  clicks: Click[],
+  criteria: MatchCriteria,
+  productPrices: Record<string, number | null | undefined> = {}
+): ClickCandidate[] {
+  const windowMs = criteria.windowDays * 24 * 60 * 60 * 1000;
+
+  return clicks
+    .map((click): ClickCandidate => {
+      let score = 0;
+      const reasons: string[] = [];
+
+      if (criteria.storeId && click.storeId === criteria.storeId) {
+        score += STORE_WEIGHT;
+        reasons.push('Same store');
+      }
+      if (criteria.userId && click.userId === criteria.userId) {
+        score += USER_WEIGHT;
+        reasons.push('Same user');
+      }
+
+      const clickedAt = safeToDate(click.timestamp);
+      if (clickedAt) {
+        const leadMs = criteria.conversionTime.getTime() - clickedAt.getTime();
+        if (leadMs >= 0 && leadMs <= windowMs) {
+          score += TIME_WEIGHT * (1 - leadMs / windowMs);
+          reasons.push(`${formatLead(leadMs)} before sale`);
+        } else if (leadMs < 0) {
+          reasons.push('After sale');
+        }
+      }
+
+      const price = click.productId ? productPrices[click.productId] : null;
+      if (price && criteria.saleAmount > 0) {
+        const difference = Math.abs(price - criteria.saleAmount) / Math.max(price, criteria.saleAmount);
+        score += AMOUNT_WEIGHT * (1 - difference);
+        if (difference <= 0.1) reasons.push('Price matches sale');
+      }
+
+      if (click.hasConversion) {
+        score -= ALREADY_CONVERTED_PENALTY;
+        reasons.push('Already converted');
+      }
+
+      return { click, score: Math.round(score), reasons };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+function formatLead(leadMs: number): string {
+  const minutes = Math.round(leadMs / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
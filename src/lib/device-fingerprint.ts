@@ -0,0 +1,41 @@
+// src/lib/device-fingerprint.ts
+// Browser signals for duplicate-account detection. Both are hashed again
+// with a server-side salt before being stored (functions/src/duplicate-accounts.ts).
+import { v4 as uuidv4 } from 'uuid';
+
+const DEVICE_ID_STORAGE_KEY = 'deviceId';
+
+/** A random ID kept in local storage, so it survives sign-outs on this browser. */
+export function getDeviceId(): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!deviceId) {
+      deviceId = uuidv4();
+      localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    return null; // Storage blocked, e.g. some private browsing modes
+  }
+}
+
+/**
+ * SHA-256 of browser and screen properties. Identical devices share it, so
+ * the server only links accounts on it together with the IP address.
+ */
+export async function getBrowserFingerprint(): Promise<string | null> {
+  if (typeof window === 'undefined' || !window.crypto?.subtle) return null;
+  const components = [
+    navigator.userAgent,
+    navigator.languages?.join(',') || navigator.language,
+    navigator.platform,
+    navigator.hardwareConcurrency,
+    navigator.maxTouchPoints,
+    `${screen.width}x${screen.height}x${screen.colorDepth}`,
+    window.devicePixelRatio,
+    Intl.DateTimeFormat().resolvedOptions().timeZone,
+  ];
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(components.join('|')));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
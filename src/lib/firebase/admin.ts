@@ -0,0 +1,35 @@
+// src/lib/firebase/admin.ts
+// Firebase Admin SDK for server-only code (route handlers, server components).
+// Never import this from a "use client" module.
+import { initializeApp, getApps, getApp, cert, applicationDefault, App } from "firebase-admin/app";
+import { getAuth, Auth } from "firebase-admin/auth";
+import { getFirestore, Firestore } from "firebase-admin/firestore";
+
+let adminApp: App | null = null;
+let adminAuth: Auth | null = null;
+let adminDb: Firestore | null = null;
+let adminInitializationError: string | null = null;
+
+try {
+  if (!getApps().length) {
+    // FIREBASE_SERVICE_ACCOUNT_KEY holds the service account JSON for local development;
+    // on App Hosting / Cloud Run the default credentials are used instead.
+    const serviceAccountJson = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+    adminApp = initializeApp({
+      credential: serviceAccountJson ? cert(JSON.parse(serviceAccountJson)) : applicationDefault(),
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    });
+  } else {
+    adminApp = getApp();
+  }
+  adminAuth = getAuth(adminApp);
+  adminDb = getFirestore(adminApp);
+} catch (error: any) {
+  adminInitializationError = `Error initializing Firebase Admin SDK: ${error.message}`;
+  console.error(adminInitializationError);
+  adminApp = null;
+  adminAuth = null;
+  adminDb = null;
+}
+
+export { adminApp, adminAuth, adminDb, adminInitializationError };
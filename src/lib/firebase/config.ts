@@ -1,6 +1,7 @@
 import { initializeApp, getApps, getApp, FirebaseApp, FirebaseOptions } from "firebase/app";
 import { getAuth, Auth } from "firebase/auth";
 import { getFirestore, Firestore } from "firebase/firestore";
+import { getFunctions, Functions } from "firebase/functions";
 
 // Load environment variables using Next.js's built-in support
 const firebaseConfig: FirebaseOptions = {
@@ -27,6 +28,7 @@ function checkFirebaseConfig(config: FirebaseOptions): string[] {
 let app: FirebaseApp | null = null;
 let auth: Auth | null = null;
 let db: Firestore | null = null;
+let functions: Functions | null = null;
 let firebaseInitializationError: string | null = null;
 
 const missingEnvVars = checkFirebaseConfig(firebaseConfig);
@@ -38,6 +40,7 @@ if (missingEnvVars.length > 0) {
   app = null;
   auth = null;
   db = null;
+  functions = null;
 } else {
   try {
     // Initialize Firebase only if config is valid and no previous error occurred
@@ -50,6 +53,7 @@ if (missingEnvVars.length > 0) {
     }
     auth = getAuth(app);
     db = getFirestore(app);
+    functions = getFunctions(app);
   } catch (error: any) {
     firebaseInitializationError = `Error initializing Firebase primary app: ${error.message}`;
     console.error(firebaseInitializationError);
@@ -62,8 +66,9 @@ if (missingEnvVars.length > 0) {
     app = null;
     auth = null;
     db = null;
+    functions = null;
   }
 }
 
 // Export the potentially null services and the error state
-export { app, auth, db, firebaseInitializationError };
\ No newline at end of file
+export { app, auth, db, functions, firebaseInitializationError };
\ No newline at end of file
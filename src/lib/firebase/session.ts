@@ -0,0 +1,18 @@
+// src/lib/firebase/session.ts
+// The signed-in user's Firebase ID token is mirrored into a cookie so server
+// routes such as /go/[storeId] can tell who is clicking. Firebase Hosting only
+// forwards a cookie named `__session` to the backend.
+export const SESSION_COOKIE_NAME = '__session';
+
+// ID tokens expire after an hour; onIdTokenChanged refreshes the cookie before then.
+const SESSION_COOKIE_MAX_AGE_SECONDS = 60 * 60;
+
+export function writeSessionCookie(idToken: string | null) {
+  if (typeof document === 'undefined') return;
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  if (idToken) {
+    document.cookie = `${SESSION_COOKIE_NAME}=${idToken}; Path=/; Max-Age=${SESSION_COOKIE_MAX_AGE_SECONDS}; SameSite=Lax${secure}`;
+  } else {
+    document.cookie = `${SESSION_COOKIE_NAME}=; Path=/; Max-Age=0; SameSite=Lax${secure}`;
+  }
+}
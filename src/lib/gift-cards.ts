@@ -0,0 +1,26 @@
+// src/lib/gift-cards.ts
+// Gift card brands and stock helpers for the voucher inventory. Vouchers are
+// added and issued server-side (functions/src/gift-cards.ts).
+import type { GiftCardBrand, GiftCardStock } from '@/lib/types';
+
+// Mirrors GIFT_CARD_BRANDS in functions/src/gift-cards.ts.
+export const GIFT_CARD_BRANDS: Record<GiftCardBrand, string> = {
+  amazon: 'Amazon',
+  flipkart: 'Flipkart',
+  myntra: 'Myntra',
+};
+
+export const GIFT_CARD_BRAND_IDS = Object.keys(GIFT_CARD_BRANDS) as GiftCardBrand[];
+
+// Used for stock documents created before an admin sets a threshold.
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+/** The brand named in gift card payout details, e.g. "Amazon to me@example.com". */
+export function detectGiftCardBrand(detail: string): GiftCardBrand | null {
+  const text = detail.toLowerCase();
+  return GIFT_CARD_BRAND_IDS.find(brand => text.includes(brand)) ?? null;
+}
+
+export function isLowStock(stock: Pick<GiftCardStock, 'available' | 'lowStockThreshold'>): boolean {
+  return stock.available <= (stock.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD);
+}
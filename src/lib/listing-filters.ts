@@ -0,0 +1,248 @@
+// src/lib/listing-filters.ts
+// Facets and sort orders for the /stores and /coupons listings. Filters live
+// in the URL so filtered views can be shared and bookmarked. Each filter and
+// sort combination has a composite index in firestore.indexes.json; coupons
+// filter on listing fields kept by functions/src/coupon-listings.ts.
+import {
+  collection,
+  getCountFromServer,
+  getDocs,
+  orderBy,
+  query,
+  where,
+  type OrderByDirection,
+  type QueryConstraint,
+  type WhereFilterOp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import type { CashbackType, Category, CouponOfferType } from '@/lib/types';
+
+interface ReadableParams {
+  get(name: string): string | null;
+}
+
+export type StoreSort = 'featured' | 'name' | 'cashback';
+export type CouponSort = 'featured' | 'expiring' | 'cashback';
+
+export const STORE_SORT_OPTIONS: { value: StoreSort; label: string }[] = [
+  { value: 'featured', label: 'Featured' },
+  { value: 'cashback', label: 'Highest Cashback' },
+  { value: 'name', label: 'Name (A-Z)' },
+];
+
+export const COUPON_SORT_OPTIONS: { value: CouponSort; label: string }[] = [
+  { value: 'featured', label: 'Featured' },
+  { value: 'expiring', label: 'Expiring Soon' },
+  { value: 'cashback', label: 'Highest Store Cashback' },
+];
+
+export const CASHBACK_TYPE_OPTIONS: { value: CashbackType; label: string }[] = [
+  { value: 'percentage', label: 'Percentage' },
+  { value: 'fixed', label: 'Flat Amount' },
+];
+
+export const OFFER_TYPE_OPTIONS: { value: CouponOfferType; label: string }[] = [
+  { value: 'code', label: 'Coupon Codes' },
+  { value: 'deal', label: 'Deals' },
+];
+
+// Minimum percentage rates offered as a facet.
+export const MIN_RATE_OPTIONS = [2, 5, 10];
+
+export interface StoreFilters {
+  category: string | null; // Category slug
+  cashbackType: CashbackType | null;
+  minRate: number | null; // Percentage stores only
+  sort: StoreSort;
+}
+
+export interface CouponFilters {
+  category: string | null; // Store category slug
+  offerType: CouponOfferType | null;
+  showExpired: boolean;
+  sort: CouponSort;
+}
+
+function oneOf<T extends string>(value: string | null, options: { value: T }[]): T | null {
+  return options.find(option => option.value === value)?.value ?? null;
+}
+
+export function parseStoreFilters(params: ReadableParams): StoreFilters {
+  const minRate = Number(params.get('minRate'));
+  return {
+    category: params.get('category') || null,
+    cashbackType: oneOf(params.get('type'), CASHBACK_TYPE_OPTIONS),
+    minRate: MIN_RATE_OPTIONS.includes(minRate) ? minRate : null,
+    sort: oneOf(params.get('sort'), STORE_SORT_OPTIONS) ?? 'featured',
+  };
+}
+
+/** Query string for store filters; defaults are left out. */
+export function storeFiltersToParams(filters: StoreFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.category) params.set('category', filters.category);
+  if (filters.cashbackType) params.set('type', filters.cashbackType);
+  if (filters.minRate) params.set('minRate', String(filters.minRate));
+  if (filters.sort !== 'featured') params.set('sort', filters.sort);
+  return params;
+}
+
+export function parseCouponFilters(params: ReadableParams): CouponFilters {
+  return {
+    category: params.get('category') || null,
+    offerType: oneOf(params.get('type'), OFFER_TYPE_OPTIONS),
+    showExpired: params.get('expired') === '1',
+    sort: oneOf(params.get('sort'), COUPON_SORT_OPTIONS) ?? 'featured',
+  };
+}
+
+/** Query string for coupon filters; defaults are left out. */
+export function couponFiltersToParams(filters: CouponFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.category) params.set('category', filters.category);
+  if (filters.offerType) params.set('type', filters.offerType);
+  if (filters.showExpired) params.set('expired', '1');
+  if (filters.sort !== 'featured') params.set('sort', filters.sort);
+  return params;
+}
+
+/**
+ * The sort actually applied. A minimum rate is a range filter on the cashback
+ * rate, which Firestore requires to be the first sort field.
+ */
+export function effectiveStoreSort(filters: StoreFilters): StoreSort {
+  return filters.minRate ? 'cashback' : filters.sort;
+}
+
+/** Expired coupons would fill the top of "Expiring Soon", so that sort always hides them. */
+export function showsExpiredCoupons(filters: CouponFilters): boolean {
+  return filters.showExpired && filters.sort !== 'expiring';
+}
+
+type WhereClause = [fieldPath: string, op: WhereFilterOp, value: unknown];
+type OrderClause = [fieldPath: string, direction: OrderByDirection];
+
+/**
+ * A listing query as plain clauses, so the same filters can run through the
+ * client SDK here or the Admin SDK in server components.
+ */
+export interface ListingQuery {
+  where: WhereClause[];
+  orderBy: OrderClause[];
+}
+
+/** Active stores matching the filters. A minimum rate implies percentage cashback. */
+export function storeListingQuery(filters: StoreFilters): ListingQuery {
+  const clauses: WhereClause[] = [];
+  if (filters.category) clauses.push(['categories', 'array-contains', filters.category]);
+  clauses.push(['isActive', '==', true]);
+  if (filters.minRate) {
+    clauses.push(['cashbackType', '==', 'percentage']);
+    clauses.push(['cashbackRateValue', '>=', filters.minRate]);
+  } else if (filters.cashbackType) {
+    clauses.push(['cashbackType', '==', filters.cashbackType]);
+  }
+  switch (effectiveStoreSort(filters)) {
+    case 'cashback': return { where: clauses, orderBy: [['cashbackRateValue', 'desc'], ['name', 'asc']] };
+    case 'name': return { where: clauses, orderBy: [['name', 'asc']] };
+    default: return { where: clauses, orderBy: [['isFeatured', 'desc'], ['name', 'asc']] };
+  }
+}
+
+/** Coupons matching the filters, by their listing fields. */
+export function couponListingQuery(filters: CouponFilters): ListingQuery {
+  const clauses: WhereClause[] = [];
+  if (filters.category) clauses.push(['storeCategories', 'array-contains', filters.category]);
+  clauses.push(showsExpiredCoupons(filters) ? ['listingStatus', 'in', ['live', 'expired']] : ['listingStatus', '==', 'live']);
+  if (filters.offerType) clauses.push(['offerType', '==', filters.offerType]);
+  switch (filters.sort) {
+    case 'expiring': return { where: clauses, orderBy: [['expiresAt', 'asc']] };
+    case 'cashback': return { where: clauses, orderBy: [['storeCashbackRateValue', 'desc'], ['createdAt', 'desc']] };
+    default: return { where: clauses, orderBy: [['isFeatured', 'desc'], ['createdAt', 'desc']] };
+  }
+}
+
+export function toQueryConstraints(listingQuery: ListingQuery, { ordered = true } = {}): QueryConstraint[] {
+  return [
+    ...listingQuery.where.map(([fieldPath, op, value]) => where(fieldPath, op, value)),
+    ...(ordered ? listingQuery.orderBy.map(([fieldPath, direction]) => orderBy(fieldPath, direction)) : []),
+  ];
+}
+
+export interface StoreFacetCounts {
+  total: number; // With every filter applied
+  categories: Record<string, number>; // By slug, with the other filters applied
+  allCategories: number;
+  cashbackTypes: Partial<Record<CashbackType, number>>; // Not counted while a minimum rate is set
+  allCashbackTypes: number;
+  minRates: Record<number, number>;
+  anyRate: number;
+}
+
+export interface CouponFacetCounts {
+  total: number;
+  categories: Record<string, number>;
+  allCategories: number;
+  offerTypes: Partial<Record<CouponOfferType, number>>;
+  allOfferTypes: number;
+  expired: number; // Expired coupons the other filters would add
+}
+
+async function countWhere(collectionName: string, constraints: QueryConstraint[]): Promise<number> {
+  if (!db) throw new Error("Database not available.");
+  const snapshot = await getCountFromServer(query(collection(db, collectionName), ...constraints));
+  return snapshot.data().count;
+}
+
+/**
+ * Counts keyed by facet value. Each facet is counted with the other facets'
+ * current filters, so a count is what choosing that value would show.
+ */
+async function countFacet<K extends string | number>(
+  values: K[],
+  count: (value: K) => Promise<number>,
+): Promise<Record<K, number>> {
+  const counts = await Promise.all(values.map(count));
+  return Object.fromEntries(values.map((value, index) => [value, counts[index]])) as Record<K, number>;
+}
+
+export async function fetchStoreFacetCounts(filters: StoreFilters, categorySlugs: string[]): Promise<StoreFacetCounts> {
+  const count = (overrides: Partial<StoreFilters>) => countWhere('stores', toQueryConstraints(storeListingQuery({ ...filters, ...overrides }), { ordered: false }));
+  const [total, allCategories, categories, allCashbackTypes, cashbackTypes, anyRate, minRates] = await Promise.all([
+    count({}),
+    count({ category: null }),
+    countFacet(categorySlugs, category => count({ category })),
+    count({ cashbackType: null, minRate: null }),
+    filters.minRate ? Promise.resolve({}) : countFacet(CASHBACK_TYPE_OPTIONS.map(option => option.value), cashbackType => count({ cashbackType })),
+    count({ minRate: null }),
+    countFacet(MIN_RATE_OPTIONS, minRate => count({ minRate })),
+  ]);
+  return { total, categories, allCategories, cashbackTypes, allCashbackTypes, minRates, anyRate };
+}
+
+export async function fetchCouponFacetCounts(filters: CouponFilters, categorySlugs: string[]): Promise<CouponFacetCounts> {
+  const count = (overrides: Partial<CouponFilters>) => countWhere('coupons', toQueryConstraints(couponListingQuery({ ...filters, ...overrides }), { ordered: false }));
+  const countExpired = () => {
+    const constraints: QueryConstraint[] = [];
+    if (filters.category) constraints.push(where('storeCategories', 'array-contains', filters.category));
+    constraints.push(where('listingStatus', '==', 'expired'));
+    if (filters.offerType) constraints.push(where('offerType', '==', filters.offerType));
+    return countWhere('coupons', constraints);
+  };
+  const [total, allCategories, categories, allOfferTypes, offerTypes, expired] = await Promise.all([
+    count({}),
+    count({ category: null }),
+    countFacet(categorySlugs, category => count({ category })),
+    count({ offerType: null }),
+    countFacet(OFFER_TYPE_OPTIONS.map(option => option.value), offerType => count({ offerType })),
+    countExpired(),
+  ]);
+  return { total, categories, allCategories, offerTypes, allOfferTypes, expired };
+}
+
+/** Active categories, in their display order, for the category facet. */
+export async function fetchFacetCategories(): Promise<Pick<Category, 'id' | 'name' | 'slug'>[]> {
+  if (!db) return [];
+  const snapshot = await getDocs(query(collection(db, 'categories'), where('isActive', '==', true), orderBy('order', 'asc')));
+  return snapshot.docs.map(docSnap => ({ id: docSnap.id, name: docSnap.data().name, slug: docSnap.data().slug }));
+}
@@ -0,0 +1,219 @@
+// src/lib/payout-batch-files.ts
+// Bulk-upload file layouts for payout batches (bank NEFT/IMPS and UPI), and
+// reading the bank's response file back. Batches are created and settled
+// server-side by adminCreatePayoutBatch / adminImportPayoutBatchResults.
+import type { PayoutMethod } from '@/lib/types';
+import type { PayoutBatchResultInput, PayoutBatchRow } from '@/lib/actions/ledger';
+import { csvEscape, type ParsedReport, type ReportCell } from '@/lib/report-import';
+
+export type BatchFileField =
+  | 'batchId'
+  | 'payoutId'
+  | 'amount'
+  | 'accountNumber'
+  | 'maskedAccountNumber'
+  | 'ifsc'
+  | 'accountHolderName'
+  | 'vpa'
+  | 'remarks';
+
+export interface BatchFileColumn {
+  header: string;
+  // A row field, or the same text on every row (e.g. the payment type).
+  value: BatchFileField | { constant: string };
+  // Fixed-width layouts only: values are cut or padded to this width.
+  width?: number;
+  align?: 'left' | 'right';
+  padChar?: string;
+}
+
+export interface BatchFileLayout {
+  id: string;
+  name: string;
+  method: PayoutMethod;
+  format: 'csv' | 'fixed_width';
+  columns: BatchFileColumn[];
+  // Response file header names to try before RESPONSE_HEADER_GUESSES.
+  responseHeaders?: Partial<Record<ResponseField, string[]>>;
+}
+
+export type ResponseField = 'payoutId' | 'status' | 'utr' | 'failureReason';
+
+/**
+ * Available layouts. The built-in bank layouts write account numbers masked
+ * to the last four digits, since the files leave the app; a layout for a
+ * bank that needs full numbers can use the `accountNumber` field. Add a
+ * layout here for a bank with a different column order or format.
+ */
+export const BATCH_FILE_LAYOUTS: BatchFileLayout[] = [
+  {
+    id: 'neft_csv',
+    name: 'NEFT/IMPS bulk upload (CSV)',
+    method: 'bank_transfer',
+    format: 'csv',
+    columns: [
+      { header: 'Payment Type', value: { constant: 'NEFT' } },
+      { header: 'Beneficiary Name', value: 'accountHolderName' },
+      { header: 'Beneficiary Account No', value: 'maskedAccountNumber' },
+      { header: 'IFSC', value: 'ifsc' },
+      { header: 'Amount', value: 'amount' },
+      { header: 'Customer Reference', value: 'payoutId' },
+      { header: 'Batch ID', value: 'batchId' },
+      { header: 'Remarks', value: 'remarks' },
+    ],
+  },
+  {
+    id: 'imps_fixed',
+    name: 'IMPS bulk upload (fixed width)',
+    method: 'bank_transfer',
+    format: 'fixed_width',
+    columns: [
+      { header: 'Payment Type', value: { constant: 'IMPS' }, width: 4 },
+      { header: 'Batch ID', value: 'batchId', width: 20 },
+      { header: 'Customer Reference', value: 'payoutId', width: 20 },
+      { header: 'Beneficiary Account No', value: 'maskedAccountNumber', width: 18 },
+      { header: 'IFSC', value: 'ifsc', width: 11 },
+      { header: 'Beneficiary Name', value: 'accountHolderName', width: 35 },
+      { header: 'Amount', value: 'amount', width: 15, align: 'right', padChar: '0' },
+    ],
+  },
+  {
+    id: 'upi_csv',
+    name: 'UPI bulk transfer (CSV)',
+    method: 'upi',
+    format: 'csv',
+    columns: [
+      { header: 'Batch ID', value: 'batchId' },
+      { header: 'Payout ID', value: 'payoutId' },
+      { header: 'Beneficiary VPA', value: 'vpa' },
+      { header: 'Amount', value: 'amount' },
+      { header: 'Remarks', value: 'remarks' },
+    ],
+  },
+];
+
+export function getBatchFileLayout(layoutId: string): BatchFileLayout | undefined {
+  return BATCH_FILE_LAYOUTS.find(layout => layout.id === layoutId);
+}
+
+/** "XXXXXX7890": all but the last four digits hidden. */
+export function maskAccountNumber(accountNumber: string): string {
+  return accountNumber.length <= 4 ? accountNumber : `${'X'.repeat(accountNumber.length - 4)}${accountNumber.slice(-4)}`;
+}
+
+function fieldValue(field: BatchFileField, batchId: string, row: PayoutBatchRow): string {
+  switch (field) {
+    case 'batchId': return batchId;
+    case 'payoutId': return row.payoutId;
+    case 'amount': return row.amount.toFixed(2);
+    case 'accountNumber': return row.bankAccount?.accountNumber ?? '';
+    case 'maskedAccountNumber': return row.bankAccount ? maskAccountNumber(row.bankAccount.accountNumber) : '';
+    case 'ifsc': return row.bankAccount?.ifsc ?? '';
+    case 'accountHolderName': return row.bankAccount?.accountHolderName ?? '';
+    case 'vpa': return row.detail;
+    case 'remarks': return `Cashback payout ${row.payoutId}`;
+  }
+}
+
+function fixedWidth(value: string, column: BatchFileColumn): string {
+  const width = column.width ?? value.length;
+  const text = value.slice(0, width);
+  const pad = (column.padChar ?? ' ').repeat(width - text.length);
+  return column.align === 'right' ? pad + text : text + pad;
+}
+
+/** Writes a batch's bulk-upload file in the given layout. */
+export function buildBatchFile(
+  layout: BatchFileLayout,
+  batchId: string,
+  rows: PayoutBatchRow[]
+): { content: string; fileName: string; mimeType: string } {
+  const lines: string[] = [];
+  if (layout.format === 'csv') {
+    lines.push(layout.columns.map(column => csvEscape(column.header)).join(','));
+  }
+  for (const row of rows) {
+    const values = layout.columns.map(column =>
+      typeof column.value === 'string' ? fieldValue(column.value, batchId, row) : column.value.constant
+    );
+    lines.push(layout.format === 'csv'
+      ? values.map(csvEscape).join(',')
+      : values.map((value, index) => fixedWidth(value, layout.columns[index])).join(''));
+  }
+  return {
+    content: lines.join('\r\n') + '\r\n',
+    fileName: `${layout.id}-${batchId}.${layout.format === 'csv' ? 'csv' : 'txt'}`,
+    mimeType: layout.format === 'csv' ? 'text/csv;charset=utf-8' : 'text/plain;charset=utf-8',
+  };
+}
+
+// Header names banks commonly use in response files, lower-cased with
+// punctuation removed.
+const RESPONSE_HEADER_GUESSES: Record<ResponseField, string[]> = {
+  payoutId: ['customerreference', 'customerref', 'payoutid', 'reference', 'refno', 'paymentreference'],
+  status: ['status', 'transactionstatus', 'paymentstatus', 'txnstatus'],
+  utr: ['utr', 'utrno', 'utrnumber', 'bankreference', 'bankrefno', 'rrn'],
+  failureReason: ['reason', 'failurereason', 'rejectionreason', 'errordescription', 'statusdescription'],
+};
+
+const PAID_STATUSES = ['success', 'successful', 'paid', 'processed', 'completed', 'settled', 'credited'];
+const FAILED_STATUSES = ['failed', 'failure', 'rejected', 'returned', 'reversed', 'cancelled'];
+
+export interface BatchResponseRow {
+  rowNumber: number;
+  result: PayoutBatchResultInput | null;
+  // Problems found while reading the row; such rows are never sent.
+  errors: string[];
+}
+
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function findResponseColumn(headers: string[], field: ResponseField, layout: BatchFileLayout): number {
+  const candidates = [...(layout.responseHeaders?.[field] ?? []), ...RESPONSE_HEADER_GUESSES[field]].map(normaliseHeader);
+  for (const candidate of candidates) {
+    const index = headers.findIndex(header => normaliseHeader(header) === candidate);
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+/**
+ * Reads the bank's response file for a batch. Throws if the payout
+ * reference or status column cannot be found; rows with an unknown status or
+ * a paid row without a UTR are returned with errors.
+ */
+export function readBatchResponse(report: ParsedReport, layout: BatchFileLayout): BatchResponseRow[] {
+  const columns = Object.fromEntries(
+    (Object.keys(RESPONSE_HEADER_GUESSES) as ResponseField[]).map(field => [field, findResponseColumn(report.headers, field, layout)])
+  ) as Record<ResponseField, number>;
+  if (columns.payoutId < 0 || columns.status < 0) {
+    throw new Error('The response file needs a payout reference column (e.g. "Customer Reference") and a status column.');
+  }
+
+  const cell = (row: ReportCell[], index: number) => (index >= 0 ? String(row[index] ?? '').trim() : '');
+  const rows: BatchResponseRow[] = [];
+  report.rows.forEach((row, index) => {
+    const rowNumber = report.headerRowNumber + index + 1;
+    const payoutId = cell(row, columns.payoutId);
+    if (!payoutId && row.every(value => String(value ?? '').trim() === '')) return;
+
+    const errors: string[] = [];
+    const status = cell(row, columns.status).toLowerCase();
+    const outcome = PAID_STATUSES.includes(status) ? 'paid' : FAILED_STATUSES.includes(status) ? 'failed' : null;
+    const utr = cell(row, columns.utr) || null;
+    if (!payoutId) errors.push('Missing payout reference.');
+    if (!outcome) errors.push(`Unknown status "${cell(row, columns.status)}".`);
+    if (outcome === 'paid' && !utr) errors.push('Paid row has no UTR reference.');
+
+    rows.push({
+      rowNumber,
+      result: errors.length === 0 && outcome
+        ? { rowNumber, payoutId, outcome, utr, failureReason: outcome === 'failed' ? cell(row, columns.failureReason) || null : null }
+        : null,
+      errors,
+    });
+  });
+  return rows;
+}
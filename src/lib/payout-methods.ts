@@ -0,0 +1,105 @@
+// src/lib/payout-methods.ts
+// Payout method labels, detail validation and minimum amounts for the payout
+// and settings forms. requestPayout (functions/src/payouts.ts) applies the
+// same checks server-side.
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import type { PayoutMethod, PayoutSettings } from '@/lib/types';
+import { GIFT_CARD_BRANDS, detectGiftCardBrand } from '@/lib/gift-cards';
+
+export const PAYOUT_METHODS: PayoutMethod[] = ['upi', 'bank_transfer', 'paypal', 'gift_card'];
+
+export const PAYOUT_METHOD_INFO: Record<PayoutMethod, { label: string; hint: string; detailLabel: string; placeholder: string }> = {
+  upi: {
+    label: 'UPI',
+    hint: 'yourname@bank',
+    detailLabel: 'UPI ID (VPA)*',
+    placeholder: 'e.g., yourname@okaxis',
+  },
+  bank_transfer: {
+    label: 'Bank Transfer',
+    hint: 'NEFT/IMPS',
+    detailLabel: 'Bank Account No, IFSC, Name*',
+    placeholder: 'e.g., Account No, IFSC, Account Holder Name',
+  },
+  paypal: {
+    label: 'PayPal',
+    hint: 'PayPal Email',
+    detailLabel: 'PayPal Email Address*',
+    placeholder: 'your.paypal.email@example.com',
+  },
+  gift_card: {
+    label: 'Gift Card',
+    hint: 'e.g., Amazon',
+    detailLabel: 'Preferred Gift Card & Email to send*',
+    placeholder: 'e.g., Amazon Gift Card to myemail@example.com',
+  },
+};
+
+// Methods without a payout provider: approved payouts are exported as bank
+// bulk-upload files from the admin payouts page. Mirrors PROVIDER_FOR_METHOD
+// in functions/src/payout-providers.ts.
+export const BATCH_PAID_METHODS: PayoutMethod[] = ['bank_transfer', 'upi'];
+// Methods without a payout provider or batch file layout: an admin sends the
+// money by hand and sets the status.
+export const MANUALLY_PAID_METHODS: PayoutMethod[] = ['paypal'];
+
+/** How approved payouts of a method reach the user in production. */
+export function payoutDisbursement(method: PayoutMethod): string {
+  if (BATCH_PAID_METHODS.includes(method)) return 'Paid from an exported batch file';
+  if (MANUALLY_PAID_METHODS.includes(method)) return 'Paid by hand by an admin; no payout provider is integrated';
+  return 'Paid automatically from the gift card voucher stock';
+}
+
+// Used for any method the settings/payouts document does not override.
+export const DEFAULT_MIN_PAYOUT_AMOUNTS: Record<PayoutMethod, number> = {
+  upi: 100,
+  bank_transfer: 250,
+  paypal: 250,
+  gift_card: 250,
+};
+
+// handle@psp, as issued by UPI apps: the handle allows letters, digits, dots,
+// hyphens and underscores; the PSP part is letters and digits.
+export const VPA_PATTERN = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9]{2,64}$/;
+
+// Bank transfer details are free text ("Account No, IFSC, Name"); batch
+// files need both of these in it.
+export const IFSC_PATTERN = /\b[A-Z]{4}0[A-Z0-9]{6}\b/i;
+export const ACCOUNT_NUMBER_PATTERN = /\b\d{9,18}\b/;
+
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[^\s@]+/;
+
+export function isValidVpa(value: string): boolean {
+  return VPA_PATTERN.test(value.trim());
+}
+
+/** Why payout details cannot be used for a method, or null if they look fine. */
+export function payoutDetailError(method: PayoutMethod, detail: string): string | null {
+  const value = detail.trim();
+  if (method === 'upi' && !isValidVpa(value)) {
+    return 'Enter a valid UPI ID, e.g. yourname@okaxis.';
+  }
+  if (method === 'bank_transfer' && (!ACCOUNT_NUMBER_PATTERN.test(value) || !IFSC_PATTERN.test(value))) {
+    return 'Include your account number and IFSC code, e.g. "1234567890, HDFC0001234, Asha Rao".';
+  }
+  if (method === 'paypal' && !new RegExp(`^${EMAIL_PATTERN.source}$`).test(value)) {
+    return 'Enter the email address of your PayPal account.';
+  }
+  if (method === 'gift_card' && !EMAIL_PATTERN.test(value)) {
+    return 'Include the email address to send the gift card to.';
+  }
+  if (method === 'gift_card' && !detectGiftCardBrand(value)) {
+    return `Name the gift card you want: ${Object.values(GIFT_CARD_BRANDS).join(', ')}.`;
+  }
+  return null;
+}
+
+/** Per-method minimum payout amounts, with admin overrides from settings/payouts. */
+export async function fetchMinPayoutAmounts(): Promise<Record<PayoutMethod, number>> {
+  if (!db) return { ...DEFAULT_MIN_PAYOUT_AMOUNTS };
+  const settingsSnap = await getDoc(doc(db, 'settings', 'payouts'));
+  const overrides = settingsSnap.exists() ? (settingsSnap.data() as PayoutSettings).minPayoutAmounts || {} : {};
+  return { ...DEFAULT_MIN_PAYOUT_AMOUNTS, ...overrides };
+}
+
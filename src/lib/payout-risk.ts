@@ -0,0 +1,42 @@
+// src/lib/payout-risk.ts
+// Labels and thresholds for payout risk scores. Payouts are scored
+// server-side (functions/src/payout-risk.ts) when they are requested.
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import type { PayoutRiskDecision, PayoutRiskSignal, PayoutSettings } from '@/lib/types';
+
+// Mirror DEFAULT_RISK_HOLD_SCORE and DEFAULT_RISK_AUTO_APPROVE_SCORE in
+// functions/src/payout-risk.ts. Auto-approval is off until an admin sets a score.
+export const DEFAULT_RISK_HOLD_SCORE = 60;
+export const DEFAULT_RISK_AUTO_APPROVE_SCORE: number | null = null;
+
+export const PAYOUT_RISK_SIGNAL_LABELS: Record<PayoutRiskSignal, string> = {
+  new_account: 'New account',
+  fast_conversion: 'Instant orders',
+  referral_chain: 'Referral chain',
+  shared_payout_details: 'Shared payout details',
+  conversion_rate: 'Unusual conversion rate',
+};
+
+export const PAYOUT_RISK_DECISION_INFO: Record<PayoutRiskDecision, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  auto_approve: { label: 'Auto-approve', variant: 'secondary' },
+  review: { label: 'Review', variant: 'outline' },
+  hold: { label: 'Hold', variant: 'destructive' },
+};
+
+export interface PayoutRiskThresholds {
+  holdScore: number;
+  autoApproveScore: number | null;
+}
+
+/** Hold and auto-approve scores, with admin overrides from settings/payouts. */
+export async function fetchRiskThresholds(): Promise<PayoutRiskThresholds> {
+  const defaults = { holdScore: DEFAULT_RISK_HOLD_SCORE, autoApproveScore: DEFAULT_RISK_AUTO_APPROVE_SCORE };
+  if (!db) return defaults;
+  const settingsSnap = await getDoc(doc(db, 'settings', 'payouts'));
+  const settings = settingsSnap.exists() ? (settingsSnap.data() as PayoutSettings) : {};
+  return {
+    holdScore: typeof settings.riskHoldScore === 'number' ? settings.riskHoldScore : defaults.holdScore,
+    autoApproveScore: settings.riskAutoApproveScore === undefined ? defaults.autoApproveScore : settings.riskAutoApproveScore,
+  };
+}
@@ -0,0 +1,51 @@
+// src/lib/referral-program.ts
+// Referral programme rules. Bonuses and revenue shares are credited
+// server-side (functions/src/referral-bonuses.ts, referral-program.ts).
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import type { ReferralSettings } from '@/lib/types';
+
+// Mirror the defaults in functions/src/referral-program.ts. Revenue share is
+// off until an admin turns it on.
+export const DEFAULT_SIGNUP_BONUS_AMOUNT = 50;
+export const DEFAULT_BONUS_MIN_ORDER_AMOUNT = 500;
+export const DEFAULT_BONUS_EXPIRY_DAYS = 60;
+export const DEFAULT_TIER1_PERCENT = 10;
+export const DEFAULT_TIER2_PERCENT = 0;
+
+export interface ReferralProgramRules {
+  signupBonusAmount: number;
+  bonusMinOrderAmount: number;
+  bonusExpiryDays: number;
+  revenueShareEnabled: boolean;
+  tier1Percent: number;
+  tier2Percent: number;
+  revenueShareDays: number | null; // null for the referee's lifetime
+}
+
+export const DEFAULT_REFERRAL_RULES: ReferralProgramRules = {
+  signupBonusAmount: DEFAULT_SIGNUP_BONUS_AMOUNT,
+  bonusMinOrderAmount: DEFAULT_BONUS_MIN_ORDER_AMOUNT,
+  bonusExpiryDays: DEFAULT_BONUS_EXPIRY_DAYS,
+  revenueShareEnabled: false,
+  tier1Percent: DEFAULT_TIER1_PERCENT,
+  tier2Percent: DEFAULT_TIER2_PERCENT,
+  revenueShareDays: null,
+};
+
+/** Programme rules, with admin overrides from settings/referrals. */
+export async function fetchReferralRules(): Promise<ReferralProgramRules> {
+  if (!db) return DEFAULT_REFERRAL_RULES;
+  const settingsSnap = await getDoc(doc(db, 'settings', 'referrals'));
+  const settings = settingsSnap.exists() ? (settingsSnap.data() as ReferralSettings) : {};
+  const numberOr = (value: number | null | undefined, fallback: number) => (typeof value === 'number' ? value : fallback);
+  return {
+    signupBonusAmount: numberOr(settings.signupBonusAmount, DEFAULT_SIGNUP_BONUS_AMOUNT),
+    bonusMinOrderAmount: numberOr(settings.bonusMinOrderAmount, DEFAULT_BONUS_MIN_ORDER_AMOUNT),
+    bonusExpiryDays: numberOr(settings.bonusExpiryDays, DEFAULT_BONUS_EXPIRY_DAYS),
+    revenueShareEnabled: settings.revenueShareEnabled === true,
+    tier1Percent: numberOr(settings.tier1Percent, DEFAULT_TIER1_PERCENT),
+    tier2Percent: numberOr(settings.tier2Percent, DEFAULT_TIER2_PERCENT),
+    revenueShareDays: typeof settings.revenueShareDays === 'number' ? settings.revenueShareDays : null,
+  };
+}
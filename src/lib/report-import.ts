@@ -0,0 +1,258 @@
+// src/lib/report-import.ts
+// Parsing and column mapping for network sales reports on the admin import
+// wizard. Rows are planned and applied server-side by adminImportTransactions.
+import type { ImportRowInput, ImportRowResult } from '@/lib/actions/report-import';
+
+export type ImportField =
+  | 'clickId'
+  | 'orderId'
+  | 'saleAmount'
+  | 'commissionAmount'
+  | 'status'
+  | 'transactionDate'
+  | 'currency';
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type ReportCell = string | number | boolean | Date | null;
+
+export interface ParsedReport {
+  headers: string[];
+  // 1-based line of the header in the file, so rows can be reported by line.
+  headerRowNumber: number;
+  rows: ReportCell[][];
+}
+
+export interface MappedRow {
+  input: ImportRowInput;
+  // Problems found while reading the row; such rows are never sent.
+  errors: string[];
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; hint: string }[] = [
+  { field: 'clickId', label: 'Click ID', hint: 'The sub ID we sent with the click.' },
+  { field: 'orderId', label: 'Order ID', hint: 'The advertiser order or transaction reference.' },
+  { field: 'saleAmount', label: 'Sale Amount', hint: 'Order value the commission is based on.' },
+  { field: 'commissionAmount', label: 'Commission', hint: 'What the network pays us (optional).' },
+  { field: 'status', label: 'Status', hint: "Network status, mapped through the store's status map." },
+  { field: 'transactionDate', label: 'Transaction Date', hint: 'Used as the purchase date for new transactions.' },
+  { field: 'currency', label: 'Currency', hint: 'Defaults to INR.' },
+];
+
+// Header names networks commonly use, lower-cased with punctuation removed.
+const HEADER_GUESSES: Record<ImportField, string[]> = {
+  clickId: ['clickid', 'subid', 'subid1', 'ascsubtag', 'affextparam1', 'sub1', 'aff_sub'],
+  orderId: ['orderid', 'orderno', 'ordernumber', 'transactionid', 'advertiserorderid'],
+  saleAmount: ['saleamount', 'sale', 'ordervalue', 'orderamount', 'amount', 'revenue', 'cartvalue'],
+  commissionAmount: ['commission', 'commissionamount', 'payout', 'earnings'],
+  status: ['status', 'orderstatus', 'conversionstatus', 'state'],
+  transactionDate: ['date', 'orderdate', 'transactiondate', 'saledate', 'conversiondate', 'clickdate'],
+  currency: ['currency', 'currencycode'],
+};
+
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Guesses a mapping from the report's headers. Saved mappings take
+ * precedence when their columns are still present in the file.
+ */
+export function guessColumnMapping(headers: string[], saved?: ColumnMapping | null): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const { field } of IMPORT_FIELDS) {
+    const savedColumn = saved?.[field];
+    if (savedColumn && headers.includes(savedColumn)) {
+      mapping[field] = savedColumn;
+      continue;
+    }
+    const guess = headers.find(header => HEADER_GUESSES[field].includes(normaliseHeader(header)));
+    if (guess) mapping[field] = guess;
+  }
+  return mapping;
+}
+
+function isBlankRow(row: ReportCell[]): boolean {
+  return row.every(cell => cell === null || String(cell).trim() === '');
+}
+
+// The header is the first non-blank row; blank rows after it are kept so
+// row numbers still line up with the file.
+function splitHeader(records: ReportCell[][]): ParsedReport {
+  const headerIndex = records.findIndex(row => !isBlankRow(row));
+  if (headerIndex < 0) return { headers: [], headerRowNumber: 1, rows: [] };
+  return {
+    headers: records[headerIndex].map(header => String(header ?? '').trim()),
+    headerRowNumber: headerIndex + 1,
+    rows: records.slice(headerIndex + 1),
+  };
+}
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, newlines and
+ * doubled quotes.
+ */
+export function parseCsv(text: string): ParsedReport {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return splitHeader(records);
+}
+
+/** Reads the first sheet of an .xlsx file, or parses a CSV file. */
+export async function readReportFile(file: File): Promise<ParsedReport> {
+  if (/\.xlsx$/i.test(file.name)) {
+    const { default: readXlsxFile } = await import('read-excel-file');
+    return splitHeader((await readXlsxFile(file)) as unknown as ReportCell[][]);
+  }
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+    return parseCsv(await file.text());
+  }
+  throw new Error('Unsupported file type. Upload a .csv or .xlsx report.');
+}
+
+function cellText(cell: ReportCell | undefined): string | null {
+  if (cell === null || cell === undefined) return null;
+  if (cell instanceof Date) return cell.toISOString();
+  const text = String(cell).trim();
+  return text === '' ? null : text;
+}
+
+// NaN marks a cell that is present but unreadable.
+function parseAmount(cell: ReportCell | undefined): number | null {
+  if (typeof cell === 'number') return cell;
+  const text = cellText(cell);
+  if (text === null) return null;
+  // Strip currency symbols and thousands separators, e.g. "₹1,299.00".
+  const cleaned = text.replace(/[^0-9.-]/g, '');
+  return cleaned === '' ? NaN : Number(cleaned);
+}
+
+function parseDate(cell: ReportCell | undefined): number | null {
+  if (cell instanceof Date) return cell.getTime();
+  const text = cellText(cell);
+  if (text === null) return null;
+  // dd/mm/yyyy and dd-mm-yyyy, as Indian networks export them.
+  const dayFirst = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (dayFirst) {
+    const [, day, month, year, hours = '0', minutes = '0', seconds = '0'] = dayFirst;
+    return new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)).getTime();
+  }
+  return new Date(text).getTime();
+}
+
+/** Applies a column mapping to parsed rows, skipping blank ones. Row numbers match the file. */
+export function mapReportRows(report: ParsedReport, mapping: ColumnMapping): MappedRow[] {
+  const columnIndex = (field: ImportField) => {
+    const column = mapping[field];
+    return column ? report.headers.indexOf(column) : -1;
+  };
+  const indexes = Object.fromEntries(IMPORT_FIELDS.map(({ field }) => [field, columnIndex(field)])) as Record<ImportField, number>;
+  const cell = (row: ReportCell[], field: ImportField) => (indexes[field] >= 0 ? row[indexes[field]] : undefined);
+
+  const mapped: MappedRow[] = [];
+  report.rows.forEach((row, index) => {
+    if (isBlankRow(row)) return;
+    const errors: string[] = [];
+    const saleAmount = parseAmount(cell(row, 'saleAmount'));
+    const commissionAmount = parseAmount(cell(row, 'commissionAmount'));
+    const transactionDateMillis = parseDate(cell(row, 'transactionDate'));
+    if (Number.isNaN(saleAmount)) errors.push(`Sale amount "${cellText(cell(row, 'saleAmount'))}" is not a number.`);
+    if (Number.isNaN(commissionAmount)) errors.push(`Commission "${cellText(cell(row, 'commissionAmount'))}" is not a number.`);
+    if (Number.isNaN(transactionDateMillis)) errors.push(`Date "${cellText(cell(row, 'transactionDate'))}" could not be read.`);
+
+    const input: ImportRowInput = {
+      rowNumber: report.headerRowNumber + index + 1,
+      clickId: cellText(cell(row, 'clickId')),
+      orderId: cellText(cell(row, 'orderId')),
+      saleAmount: Number.isNaN(saleAmount) ? null : saleAmount,
+      commissionAmount: Number.isNaN(commissionAmount) ? null : commissionAmount,
+      status: cellText(cell(row, 'status')),
+      transactionDateMillis: Number.isNaN(transactionDateMillis) ? null : transactionDateMillis,
+      currency: cellText(cell(row, 'currency'))?.toUpperCase() || null,
+    };
+    if (!input.clickId && !input.orderId) errors.push('Row has neither a click ID nor an order ID.');
+    mapped.push({ input, errors });
+  });
+  return mapped;
+}
+
+export function csvEscape(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds the downloadable import report. Every rejected row is listed with
+ * its reason; pass `includeAll` to list applied rows as well.
+ */
+export function buildImportReportCsv(
+  rows: MappedRow[],
+  results: Map<number, ImportRowResult>,
+  includeAll = false
+): string {
+  const header = ['Row', 'Click ID', 'Order ID', 'Sale Amount', 'Status', 'Action', 'Transaction ID', 'Reason'];
+  const lines = [header.join(',')];
+  for (const { input, errors } of rows) {
+    const result = results.get(input.rowNumber);
+    const action = errors.length > 0 ? 'rejected' : result?.action || 'not_sent';
+    if (!includeAll && action !== 'rejected' && action !== 'not_sent') continue;
+    const reason = errors.length > 0 ? errors.join(' ') : result?.reason || (changesText(result) ?? '');
+    lines.push([
+      input.rowNumber,
+      input.clickId,
+      input.orderId,
+      input.saleAmount,
+      input.status,
+      action,
+      result?.transactionId,
+      reason,
+    ].map(csvEscape).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function changesText(result: ImportRowResult | undefined): string | null {
+  if (!result) return null;
+  const parts = [...result.changes];
+  if (result.toStatus && result.toStatus !== result.fromStatus) {
+    parts.push(`Status ${result.fromStatus ?? 'new'} -> ${result.toStatus}`);
+  }
+  return parts.length > 0 ? parts.join('; ') : null;
+}
@@ -0,0 +1,91 @@
+// src/lib/search/api.ts
+// Result types and client wrappers for the catalogue search routes
+// (src/app/api/search). Safe to import from client components.
+import type { CashbackType, Category, Coupon, Product, Store } from '@/lib/types';
+
+export type SearchResultType = 'store' | 'coupon' | 'product' | 'category';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['store', 'coupon', 'product', 'category'];
+export const DEFAULT_SEARCH_LIMIT = 12;
+export const MAX_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_QUERY_LENGTH = 100;
+
+// Documents come back as JSON, so their Timestamps are ISO strings; read
+// them with safeToDate.
+export interface CatalogSearchResults {
+  query: string;
+  stores: Store[];
+  coupons: (Coupon & { store?: Store })[];
+  products: (Product & { store?: Store })[];
+  categories: Category[];
+  tookMs: number;
+}
+
+// Matches shown per type in the header typeahead.
+export const SUGGESTION_LIMITS: Partial<Record<SearchResultType, number>> = { store: 5, coupon: 3, category: 3 };
+
+export interface StoreSuggestion {
+  id: string;
+  slug: string | null;
+  name: string;
+  logoUrl: string | null;
+  cashbackRate: string; // Headline rate, e.g. "Up to 6.5%"
+  cashbackType: CashbackType;
+}
+
+export interface CouponSuggestion {
+  id: string;
+  storeId: string;
+  storeSlug: string | null;
+  storeName: string | null;
+  description: string;
+  hasCode: boolean;
+}
+
+export interface CategorySuggestion {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface CatalogSuggestions {
+  query: string;
+  stores: StoreSuggestion[];
+  coupons: CouponSuggestion[];
+  categories: CategorySuggestion[];
+  tookMs: number;
+}
+
+export interface CatalogSearchOptions {
+  types?: SearchResultType[];
+  limit?: number; // Per result type
+  signal?: AbortSignal;
+}
+
+export function emptySearchResults(query: string): CatalogSearchResults {
+  return { query, stores: [], coupons: [], products: [], categories: [], tookMs: 0 };
+}
+
+export function emptySuggestions(query: string): CatalogSuggestions {
+  return { query, stores: [], coupons: [], categories: [], tookMs: 0 };
+}
+
+/** Searches active stores, coupons, products and categories. */
+export async function fetchCatalogSearch(query: string, options: CatalogSearchOptions = {}): Promise<CatalogSearchResults> {
+  const params = new URLSearchParams({ q: query });
+  if (options.types) params.set('types', options.types.join(','));
+  if (options.limit) params.set('limit', String(options.limit));
+  const response = await fetch(`/api/search?${params.toString()}`, { signal: options.signal });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(body?.error || `Search failed (${response.status}).`);
+  }
+  return response.json() as Promise<CatalogSearchResults>;
+}
+
+/** Typeahead matches for a partly typed query. */
+export async function fetchCatalogSuggestions(query: string, signal?: AbortSignal): Promise<CatalogSuggestions> {
+  const response = await fetch(`/api/search/suggest?${new URLSearchParams({ q: query }).toString()}`, { signal });
+  if (!response.ok) throw new Error(`Suggestions failed (${response.status}).`);
+  return response.json() as Promise<CatalogSuggestions>;
+}
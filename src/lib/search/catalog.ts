@@ -0,0 +1,279 @@
+// src/lib/search/catalog.ts
+// Server-only catalogue search. Keeps an in-memory SearchIndex of active
+// stores, coupons, products and categories, kept in sync with Firestore by
+// Admin SDK listeners so admin edits show up in results within seconds.
+// Never import this from a "use client" module.
+import type { DocumentChange, QuerySnapshot } from 'firebase-admin/firestore';
+import { adminDb, adminInitializationError } from '@/lib/firebase/admin';
+import { toPlain } from '@/lib/catalog-data';
+import { SearchIndex, type SearchDocument } from '@/lib/search/engine';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  SEARCH_RESULT_TYPES,
+  SUGGESTION_LIMITS,
+  type CatalogSearchResults,
+  type CatalogSuggestions,
+  type SearchResultType,
+} from '@/lib/search/api';
+import { headlineRate } from '@/lib/cashback-rates';
+import type { Category, Coupon, Product, Store } from '@/lib/types';
+
+const CATALOG_SEARCH_LOG_PREFIX = "CATALOG_SEARCH:";
+// Ranked hits considered before grouping by type and applying per-type limits.
+const MAX_RANKED_HITS = 500;
+
+// Each group's words match each other. Single words only.
+const CATALOG_SYNONYMS: string[][] = [
+  ['mobile', 'phone', 'smartphone', 'cellphone'],
+  ['tv', 'television'],
+  ['laptop', 'notebook'],
+  ['clothes', 'clothing', 'apparel', 'fashion'],
+  ['shoe', 'footwear', 'sneaker'],
+  ['grocery', 'groceries', 'supermarket'],
+  ['flight', 'airline', 'air'],
+  ['hotel', 'stay', 'accommodation'],
+  ['makeup', 'cosmetics', 'beauty'],
+  ['deal', 'offer', 'coupon', 'discount', 'promo', 'voucher'],
+  ['medicine', 'pharmacy', 'health'],
+  ['furniture', 'decor', 'home'],
+];
+
+const TYPE_BOOSTS: Record<SearchResultType, number> = { store: 1.3, category: 1.2, coupon: 1, product: 0.9 };
+const FEATURED_BOOST = 1.15;
+
+type CatalogDocument = Store | Coupon | Product | Category;
+
+interface CatalogState {
+  index: SearchIndex;
+  stores: Map<string, Store>;
+  coupons: Map<string, Coupon>;
+  products: Map<string, Product>;
+  categories: Map<string, Category>;
+  ready: Promise<void>;
+  unsubscribes: (() => void)[];
+}
+
+// Kept on globalThis so dev-server reloads don't stack up listeners.
+const globalForSearch = globalThis as typeof globalThis & { catalogSearchState?: CatalogState };
+
+function indexKey(type: SearchResultType, id: string): string {
+  return `${type}:${id}`;
+}
+
+function storeDocument(store: Store): SearchDocument {
+  return {
+    id: indexKey('store', store.id),
+    fields: {
+      name: store.name,
+      keywords: [store.slug?.replace(/-/g, '') || '', ...(store.categories || []).map(category => category.replace(/-/g, ' '))],
+      description: [store.description, store.topOffersText].filter(Boolean).join(' '),
+    },
+    boost: TYPE_BOOSTS.store * (store.isFeatured ? FEATURED_BOOST : 1),
+  };
+}
+
+function categoryDocument(category: Category): SearchDocument {
+  return {
+    id: indexKey('category', category.id),
+    fields: { name: category.name, keywords: category.slug.replace(/-/g, ' '), description: category.description },
+    boost: TYPE_BOOSTS.category,
+  };
+}
+
+function couponDocument(coupon: Coupon, store: Store | undefined): SearchDocument {
+  return {
+    id: indexKey('coupon', coupon.id),
+    fields: { name: coupon.description, keywords: [store?.name || '', coupon.code || ''], description: null },
+    boost: TYPE_BOOSTS.coupon * (coupon.isFeatured ? FEATURED_BOOST : 1),
+  };
+}
+
+function productDocument(product: Product, store: Store | undefined): SearchDocument {
+  return {
+    id: indexKey('product', product.id),
+    fields: {
+      name: product.name,
+      keywords: [product.brand || '', product.category || '', product.storeName || store?.name || ''],
+      description: product.description,
+    },
+    boost: TYPE_BOOSTS.product * (product.isFeatured ? FEATURED_BOOST : 1),
+  };
+}
+
+/**
+ * Applies a listener snapshot to a document map and the index. Inactive and
+ * deleted documents are dropped; `onChange` runs for every changed ID.
+ */
+function applyChanges<T extends CatalogDocument>(
+  snapshot: QuerySnapshot,
+  documents: Map<string, T>,
+  toIndex: (document: T) => SearchDocument,
+  type: SearchResultType,
+  state: CatalogState,
+  onChange?: (id: string) => void,
+) {
+  snapshot.docChanges().forEach((change: DocumentChange) => {
+    const id = change.doc.id;
+    const data = change.type === 'removed' ? null : ({ id, ...(toPlain(change.doc.data()) as object) } as T);
+    if (!data || (data as { isActive?: boolean }).isActive === false) {
+      documents.delete(id);
+      state.index.remove(indexKey(type, id));
+    } else {
+      documents.set(id, data);
+      state.index.upsert(toIndex(data));
+    }
+    onChange?.(id);
+  });
+}
+
+function startCatalogSync(): CatalogState {
+  if (!adminDb) throw new Error(adminInitializationError || "Admin SDK not available.");
+  const db = adminDb;
+  const state: CatalogState = {
+    index: new SearchIndex({ fields: { name: 4, keywords: 2, description: 1 }, primaryField: 'name', synonyms: CATALOG_SYNONYMS }),
+    stores: new Map(),
+    coupons: new Map(),
+    products: new Map(),
+    categories: new Map(),
+    ready: Promise.resolve(),
+    unsubscribes: [],
+  };
+
+  // Coupons and products are indexed under their store's name, so re-index
+  // them when the store changes.
+  const reindexStoreItems = (storeId: string) => {
+    const store = state.stores.get(storeId);
+    state.coupons.forEach(coupon => {
+      if (coupon.storeId === storeId) state.index.upsert(couponDocument(coupon, store));
+    });
+    state.products.forEach(product => {
+      if (product.storeId === storeId && !product.storeName) state.index.upsert(productDocument(product, store));
+    });
+  };
+
+  const listen = (collectionName: string, onSnapshot: (snapshot: QuerySnapshot) => void) => new Promise<void>((resolve, reject) => {
+    let loaded = false;
+    const unsubscribe = db.collection(collectionName).onSnapshot(
+      snapshot => {
+        onSnapshot(snapshot);
+        if (!loaded) {
+          loaded = true;
+          console.log(`${CATALOG_SEARCH_LOG_PREFIX} Indexed ${snapshot.size} ${collectionName}.`);
+          resolve();
+        }
+      },
+      error => {
+        console.error(`${CATALOG_SEARCH_LOG_PREFIX} Listener for ${collectionName} failed:`, error);
+        stopCatalogSync(state);
+        reject(error);
+      },
+    );
+    state.unsubscribes.push(unsubscribe);
+  });
+
+  state.ready = Promise.all([
+    listen('stores', snapshot => applyChanges(snapshot, state.stores, storeDocument, 'store', state, reindexStoreItems)),
+    listen('categories', snapshot => applyChanges(snapshot, state.categories, categoryDocument, 'category', state)),
+    listen('coupons', snapshot => applyChanges(
+      snapshot, state.coupons, coupon => couponDocument(coupon, state.stores.get(coupon.storeId)), 'coupon', state,
+    )),
+    listen('products', snapshot => applyChanges(
+      snapshot, state.products, product => productDocument(product, state.stores.get(product.storeId)), 'product', state,
+    )),
+  ]).then(() => undefined);
+  return state;
+}
+
+/** Stops the listeners and forgets the index, so the next search rebuilds it. */
+function stopCatalogSync(state: CatalogState) {
+  state.unsubscribes.forEach(unsubscribe => unsubscribe());
+  if (globalForSearch.catalogSearchState === state) globalForSearch.catalogSearchState = undefined;
+}
+
+async function getCatalogState(): Promise<CatalogState> {
+  if (!globalForSearch.catalogSearchState) globalForSearch.catalogSearchState = startCatalogSync();
+  const state = globalForSearch.catalogSearchState;
+  await state.ready;
+  return state;
+}
+
+function isExpired(coupon: Coupon, now: number): boolean {
+  const expiry = coupon.expiryDate as unknown as string | null;
+  return !!expiry && new Date(expiry).getTime() < now;
+}
+
+type CatalogMatches = Omit<CatalogSearchResults, 'query' | 'tookMs'>;
+
+/**
+ * Ranks the catalogue for a query and groups the top hits by type. The last
+ * query word matches as a prefix, so "flip" finds Flipkart; expired coupons
+ * are left out.
+ */
+function rankCatalog(state: CatalogState, query: string, limits: Partial<Record<SearchResultType, number>>): CatalogMatches {
+  const now = Date.now();
+  const matches: CatalogMatches = { stores: [], coupons: [], products: [], categories: [] };
+  const hits = state.index.search(query, {
+    prefix: true,
+    limit: MAX_RANKED_HITS,
+    filter: key => (limits[key.slice(0, key.indexOf(':')) as SearchResultType] ?? 0) > 0,
+  });
+  for (const { id: key } of hits) {
+    const separator = key.indexOf(':');
+    const type = key.slice(0, separator) as SearchResultType;
+    const id = key.slice(separator + 1);
+    const limit = limits[type] ?? 0;
+    if (type === 'store' && matches.stores.length < limit) {
+      const store = state.stores.get(id);
+      if (store) matches.stores.push(store);
+    } else if (type === 'category' && matches.categories.length < limit) {
+      const category = state.categories.get(id);
+      if (category) matches.categories.push(category);
+    } else if (type === 'coupon' && matches.coupons.length < limit) {
+      const coupon = state.coupons.get(id);
+      if (coupon && !isExpired(coupon, now)) matches.coupons.push({ ...coupon, store: state.stores.get(coupon.storeId) });
+    } else if (type === 'product' && matches.products.length < limit) {
+      const product = state.products.get(id);
+      if (product) matches.products.push({ ...product, store: state.stores.get(product.storeId) });
+    }
+  }
+  return matches;
+}
+
+/** Searches the catalogue for the search page. */
+export async function searchCatalog(
+  query: string,
+  { types = SEARCH_RESULT_TYPES, limit = DEFAULT_SEARCH_LIMIT }: { types?: SearchResultType[]; limit?: number } = {},
+): Promise<CatalogSearchResults> {
+  const startedAt = Date.now();
+  const state = await getCatalogState();
+  const matches = rankCatalog(state, query, Object.fromEntries(types.map(type => [type, limit])));
+  return { query, ...matches, tookMs: Date.now() - startedAt };
+}
+
+/** Compact matches for the header typeahead: stores, coupons and categories. */
+export async function suggestCatalog(query: string): Promise<CatalogSuggestions> {
+  const startedAt = Date.now();
+  const state = await getCatalogState();
+  const matches = rankCatalog(state, query, SUGGESTION_LIMITS);
+  return {
+    query,
+    stores: matches.stores.map(store => ({
+      id: store.id,
+      slug: store.slug || null,
+      name: store.name,
+      logoUrl: store.logoUrl,
+      cashbackRate: headlineRate(store) || store.cashbackRate,
+      cashbackType: store.cashbackType,
+    })),
+    coupons: matches.coupons.map(coupon => ({
+      id: coupon.id,
+      storeId: coupon.storeId,
+      storeSlug: coupon.store?.slug || null,
+      storeName: coupon.store?.name || null,
+      description: coupon.description,
+      hasCode: !!coupon.code,
+    })),
+    categories: matches.categories.map(category => ({ id: category.id, name: category.name, slug: category.slug })),
+    tookMs: Date.now() - startedAt,
+  };
+}
@@ -0,0 +1,273 @@
+// src/lib/search/engine.ts
+// In-process full-text search: tokenising, light stemming, synonyms, typo
+// tolerance and BM25 ranking over weighted fields. It has no Firebase
+// dependencies; src/lib/search/catalog.ts feeds it the catalogue.
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'at', 'by', 'for', 'from', 'in', 'of', 'on', 'or', 'the', 'to', 'with']);
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_EXPANSIONS = 50;
+// How much a match counts for, by how the query token matched the indexed term.
+const MATCH_WEIGHTS = { exact: 1, synonym: 0.8, prefix: 0.7, oneEdit: 0.55, twoEdits: 0.35 };
+// Multipliers for documents whose primary field is the whole query, or starts with it.
+const EXACT_PRIMARY_BONUS = 2;
+const PREFIX_PRIMARY_BONUS = 1.5;
+
+export interface SearchDocument {
+  id: string;
+  fields: Record<string, string | string[] | null | undefined>;
+  boost?: number; // Multiplies the document's score, e.g. for featured items
+}
+
+export interface SearchIndexOptions {
+  fields: Record<string, number>; // Field name to weight
+  primaryField: string; // Exact and prefix matches on this field rank first
+  synonyms?: string[][]; // Groups of single words that match each other
+}
+
+export interface SearchOptions {
+  limit?: number;
+  prefix?: boolean; // Treat the last query word as unfinished, for search-as-you-type
+  filter?: (id: string) => boolean;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+interface IndexedEntry {
+  terms: string[];
+  fieldLengths: Record<string, number>;
+  boost: number;
+  primary: string; // Primary field tokens, without stop words, joined by spaces
+}
+
+/** Lower-cases and strips accents, so "Café" and "cafe" match. */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/** Reduces plurals to their singular, so "shoes" matches "shoe". */
+function stem(token: string): string {
+  if (token.length <= 3 || /\d/.test(token)) return token;
+  if (token.endsWith('ies') && token.length > 4) return `${token.slice(0, -3)}y`;
+  if (/(sses|shes|ches|xes|zes)$/.test(token)) return token.slice(0, -2);
+  if (/(ss|us|is)$/.test(token)) return token;
+  if (token.endsWith('s')) return token.slice(0, -1);
+  return token;
+}
+
+/** Splits text into normalised, stemmed words. */
+export function tokenize(text: string): string[] {
+  return normalizeText(text).split(/[^a-z0-9]+/).filter(Boolean).map(stem);
+}
+
+/** Typos a query token tolerates: none for short words, two for long ones. */
+function allowedEdits(token: string): number {
+  if (token.length < 4 || /^\d+$/.test(token)) return 0;
+  return token.length < 8 ? 1 : 2;
+}
+
+/**
+ * Damerau-Levenshtein distance (with adjacent transpositions), giving up once
+ * it exceeds `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export class SearchIndex {
+  private readonly fieldWeights: Record<string, number>;
+  private readonly primaryField: string;
+  private readonly synonyms = new Map<string, Set<string>>();
+  // term -> document ID -> field -> term frequency
+  private readonly postings = new Map<string, Map<string, Record<string, number>>>();
+  private readonly entries = new Map<string, IndexedEntry>();
+  private readonly totalFieldLengths: Record<string, number> = {};
+  private sortedTerms: string[] | null = null;
+
+  constructor(options: SearchIndexOptions) {
+    this.fieldWeights = options.fields;
+    this.primaryField = options.primaryField;
+    for (const field of Object.keys(options.fields)) this.totalFieldLengths[field] = 0;
+    for (const group of options.synonyms || []) {
+      const words = group.flatMap(tokenize);
+      for (const word of words) {
+        const related = this.synonyms.get(word) || new Set<string>();
+        words.filter(other => other !== word).forEach(other => related.add(other));
+        this.synonyms.set(word, related);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /** Adds a document, replacing any earlier version with the same ID. */
+  upsert(document: SearchDocument): void {
+    this.remove(document.id);
+    const fieldLengths: Record<string, number> = {};
+    const termFields = new Map<string, Record<string, number>>();
+    let primary = '';
+    for (const field of Object.keys(this.fieldWeights)) {
+      const value = document.fields[field];
+      const text = Array.isArray(value) ? value.join(' ') : value || '';
+      const tokens = tokenize(text);
+      fieldLengths[field] = tokens.length;
+      this.totalFieldLengths[field] += tokens.length;
+      if (field === this.primaryField) primary = tokens.filter(token => !STOP_WORDS.has(token)).join(' ');
+      for (const token of tokens) {
+        const counts = termFields.get(token) || {};
+        counts[field] = (counts[field] || 0) + 1;
+        termFields.set(token, counts);
+      }
+    }
+    for (const [term, counts] of termFields) {
+      let docs = this.postings.get(term);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(term, docs);
+        this.sortedTerms = null;
+      }
+      docs.set(document.id, counts);
+    }
+    this.entries.set(document.id, { terms: [...termFields.keys()], fieldLengths, boost: document.boost ?? 1, primary });
+  }
+
+  remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    for (const term of entry.terms) {
+      const docs = this.postings.get(term);
+      docs?.delete(id);
+      if (docs && docs.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+    for (const [field, length] of Object.entries(entry.fieldLengths)) this.totalFieldLengths[field] -= length;
+    this.entries.delete(id);
+  }
+
+  /**
+   * Ranks documents matching the query. Documents matching every query word
+   * are returned when there are any; otherwise documents matching some of
+   * them, ranked lower the fewer they match.
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const allTokens = tokenize(query);
+    const contentTokens = allTokens.filter(token => !STOP_WORDS.has(token));
+    const tokens = contentTokens.length > 0 ? contentTokens : allTokens;
+    if (tokens.length === 0 || this.entries.size === 0) return [];
+
+    const clauses = tokens.map((token, index) => this.expandToken(token, !!options.prefix && index === tokens.length - 1));
+    const clauseScores = new Map<string, number[]>();
+    const documentCount = this.entries.size;
+
+    clauses.forEach((terms, clauseIndex) => {
+      for (const [term, matchWeight] of terms) {
+        const docs = this.postings.get(term);
+        if (!docs) continue;
+        const idf = Math.log(1 + (documentCount - docs.size + 0.5) / (docs.size + 0.5));
+        for (const [docId, counts] of docs) {
+          if (options.filter && !options.filter(docId)) continue;
+          const entry = this.entries.get(docId)!;
+          let termScore = 0;
+          for (const [field, frequency] of Object.entries(counts)) {
+            const averageLength = this.totalFieldLengths[field] / documentCount || 1;
+            const lengthNorm = 1 - BM25_B + BM25_B * (entry.fieldLengths[field] / averageLength);
+            termScore += this.fieldWeights[field] * idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+          }
+          const scores = clauseScores.get(docId) || new Array<number>(clauses.length).fill(0);
+          scores[clauseIndex] = Math.max(scores[clauseIndex], termScore * matchWeight);
+          clauseScores.set(docId, scores);
+        }
+      }
+    });
+
+    const normalizedQuery = tokens.join(' ');
+    let hits: (SearchHit & { coverage: number })[] = [];
+    for (const [docId, scores] of clauseScores) {
+      const entry = this.entries.get(docId)!;
+      const coverage = scores.filter(score => score > 0).length / clauses.length;
+      let score = scores.reduce((total, value) => total + value, 0) * coverage * coverage * entry.boost;
+      if (entry.primary === normalizedQuery) score *= EXACT_PRIMARY_BONUS;
+      else if (entry.primary.startsWith(normalizedQuery)) score *= PREFIX_PRIMARY_BONUS;
+      hits.push({ id: docId, score, coverage });
+    }
+    if (hits.some(hit => hit.coverage === 1)) hits = hits.filter(hit => hit.coverage === 1);
+
+    return hits
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, options.limit ?? hits.length)
+      .map(({ id, score }) => ({ id, score }));
+  }
+
+  /** Indexed terms a query token matches, with how much each match counts. */
+  private expandToken(token: string, isPrefix: boolean): Map<string, number> {
+    const matches = new Map<string, number>();
+    const add = (term: string, weight: number) => {
+      if (this.postings.has(term) && weight > (matches.get(term) ?? 0)) matches.set(term, weight);
+    };
+
+    add(token, MATCH_WEIGHTS.exact);
+    this.synonyms.get(token)?.forEach(synonym => add(synonym, MATCH_WEIGHTS.synonym));
+
+    if (isPrefix && token.length >= MIN_PREFIX_LENGTH) {
+      const terms = this.getSortedTerms();
+      let low = 0;
+      let high = terms.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (terms[middle] < token) low = middle + 1;
+        else high = middle;
+      }
+      for (let i = low; i < terms.length && i - low < MAX_PREFIX_EXPANSIONS && terms[i].startsWith(token); i++) {
+        add(terms[i], MATCH_WEIGHTS.prefix);
+      }
+    }
+
+    // Only words nothing is indexed under are treated as possible typos.
+    const maxEdits = this.postings.has(token) ? 0 : allowedEdits(token);
+    if (maxEdits > 0) {
+      for (const term of this.postings.keys()) {
+        if (Math.abs(term.length - token.length) > maxEdits) continue;
+        const distance = editDistance(token, term, maxEdits);
+        if (distance === 1) add(term, MATCH_WEIGHTS.oneEdit);
+        else if (distance === 2 && maxEdits === 2) add(term, MATCH_WEIGHTS.twoEdits);
+      }
+    }
+    return matches;
+  }
+
+  private getSortedTerms(): string[] {
+    if (!this.sortedTerms) this.sortedTerms = [...this.postings.keys()].sort();
+    return this.sortedTerms;
+  }
+}
@@ -19,23 +19,27 @@ const categoriesData: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>[] = [
 ];
 
 const storesData: Omit<Store, 'id' | 'createdAt' | 'updatedAt'>[] = [
-    { name: 'Amazon', slug: "amazon", logoUrl: 'https://placehold.co/120x60/FF9900/000000.png?text=Amazon', heroImageUrl: 'https://placehold.co/1200x300/FF9900/000000.png?text=Amazon+Deals', dataAiHint: 'amazon logo', affiliateLink: 'https://www.amazon.in/?tag=magicsaver-21&click_id={CLICK_ID}', cashbackRate: 'Up to 7%', cashbackRateValue: 7, cashbackType: 'percentage', description: 'Wide range of products.', categories: ['electronics', 'fashion', 'home-kitchen', 'books-media'], isFeatured: true, isActive: true, isTodaysDeal: true, terms: 'Cashback varies by category. Read T&Cs on store page.' },
-    { name: 'Flipkart', slug: "flipkart", logoUrl: 'https://placehold.co/120x60/2874F0/ffffff.png?text=Flipkart', heroImageUrl: 'https://placehold.co/1200x300/2874F0/ffffff.png?text=Flipkart+Big+Saving+Days', dataAiHint: 'flipkart logo', affiliateLink: 'https://www.flipkart.com/?affid=magicsaver&affExtParam1={CLICK_ID}', cashbackRate: 'Up to 6.5%', cashbackRateValue: 6.5, cashbackType: 'percentage', description: 'India\'s leading online store.', categories: ['electronics', 'fashion', 'home-kitchen'], isFeatured: true, isActive: true, isTodaysDeal: false, terms: 'Rates differ for new/existing users. Check offer terms.' },
-    { name: 'Myntra', slug: "myntra", logoUrl: 'https://placehold.co/120x60/E84A5F/ffffff.png?text=Myntra', heroImageUrl: 'https://placehold.co/1200x300/E84A5F/ffffff.png?text=Myntra+Fashion+Carnival', dataAiHint: 'myntra fashion', affiliateLink: 'https://www.myntra.com/?ref=magicsaver&click_id={CLICK_ID}', cashbackRate: 'Flat 8%', cashbackRateValue: 8, cashbackType: 'percentage', description: 'Top fashion destination.', categories: ['fashion', 'beauty'], isFeatured: false, isActive: true, isTodaysDeal: true },
-    { name: 'Ajio', slug: "ajio", logoUrl: 'https://placehold.co/120x60/000000/ffffff.png?text=AJIO', heroImageUrl: 'https://placehold.co/1200x300/00A2A2/ffffff.png?text=AJIO+Style+Specials', dataAiHint: 'ajio fashion', affiliateLink: 'https://www.ajio.com/?source=magicsaver&click_id={CLICK_ID}', cashbackRate: 'Up to 10%', cashbackRateValue: 10, cashbackType: 'percentage', description: 'Curated fashion and lifestyle.', categories: ['fashion'], isFeatured: true, isActive: true, isTodaysDeal: false },
+    { name: 'Amazon', slug: "amazon", logoUrl: 'https://placehold.co/120x60/FF9900/000000.png?text=Amazon', heroImageUrl: 'https://placehold.co/1200x300/FF9900/000000.png?text=Amazon+Deals', dataAiHint: 'amazon logo', affiliateLink: 'https://www.amazon.in/?tag=magicsaver-21&ascsubtag={CLICK_ID}', affiliateNetwork: 'amazon_associates', cashbackRate: 'Up to 7%', cashbackRateValue: 3, cashbackType: 'percentage', cashbackRates: [
+      { id: 'amazon-fashion', name: 'Fashion & Beauty', category: 'Fashion', userSegment: 'all', platform: 'all', value: 7, type: 'percentage', maxCashback: 500 },
+      { id: 'amazon-mobiles', name: 'Mobiles', category: 'Mobiles', userSegment: 'all', platform: 'all', value: 1.5, type: 'percentage', maxCashback: 300 },
+      { id: 'amazon-new-users', name: 'First order', category: null, userSegment: 'new', platform: 'all', value: 5, type: 'percentage', maxCashback: 250 },
+    ], description: 'Wide range of products.', categories: ['electronics', 'fashion', 'home-kitchen', 'books-media'], isFeatured: true, isActive: true, isTodaysDeal: true, terms: 'Cashback varies by category. Read T&Cs on store page.' },
+    { name: 'Flipkart', slug: "flipkart", logoUrl: 'https://placehold.co/120x60/2874F0/ffffff.png?text=Flipkart', heroImageUrl: 'https://placehold.co/1200x300/2874F0/ffffff.png?text=Flipkart+Big+Saving+Days', dataAiHint: 'flipkart logo', affiliateLink: 'https://www.flipkart.com/?affid=magicsaver&affExtParam1={CLICK_ID}', affiliateNetwork: 'flipkart', cashbackRate: 'Up to 6.5%', cashbackRateValue: 6.5, cashbackType: 'percentage', description: 'India\'s leading online store.', categories: ['electronics', 'fashion', 'home-kitchen'], isFeatured: true, isActive: true, isTodaysDeal: false, terms: 'Rates differ for new/existing users. Check offer terms.' },
+    { name: 'Myntra', slug: "myntra", logoUrl: 'https://placehold.co/120x60/E84A5F/ffffff.png?text=Myntra', heroImageUrl: 'https://placehold.co/1200x300/E84A5F/ffffff.png?text=Myntra+Fashion+Carnival', dataAiHint: 'myntra fashion', affiliateLink: 'https://www.myntra.com/?ref=magicsaver&click_id={CLICK_ID}', affiliateNetwork: 'generic', cashbackRate: 'Flat 8%', cashbackRateValue: 8, cashbackType: 'percentage', description: 'Top fashion destination.', categories: ['fashion', 'beauty'], isFeatured: false, isActive: true, isTodaysDeal: true },
+    { name: 'Ajio', slug: "ajio", logoUrl: 'https://placehold.co/120x60/000000/ffffff.png?text=AJIO', heroImageUrl: 'https://placehold.co/1200x300/00A2A2/ffffff.png?text=AJIO+Style+Specials', dataAiHint: 'ajio fashion', affiliateLink: 'https://www.ajio.com/?source=magicsaver&click_id={CLICK_ID}', affiliateNetwork: 'generic', cashbackRate: 'Up to 10%', cashbackRateValue: 10, cashbackType: 'percentage', description: 'Curated fashion and lifestyle.', categories: ['fashion'], isFeatured: true, isActive: true, isTodaysDeal: false },
 ];
 
 const productsData: Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'storeName'>[] = [
-  { storeId: 'amazon', name: 'Echo Dot (5th Gen, 2023 release)', description: 'Smart speaker with Alexa.', imageUrl: 'https://placehold.co/300x300/000000/ffffff.png?text=Echo+5', dataAiHint: 'smart speaker', affiliateLink: 'https://www.amazon.in/dp/B09B8X2SQL?tag=magicsaver-21&click_id={CLICK_ID}', price: 4499, category: 'electronics', isActive: true, isFeatured: true, isTodaysPick: true, productSpecificCashbackDisplay: "Flat ₹100 CB", productSpecificCashbackRateValue: 100, productSpecificCashbackType: "fixed" },
-  { storeId: 'flipkart', name: 'Samsung Galaxy F54 5G (256 GB)', description: 'Powerful 5G smartphone.', imageUrl: 'https://placehold.co/300x300/007bff/ffffff.png?text=Galaxy+F54', dataAiHint: 'samsung phone', affiliateLink: 'https://www.flipkart.com/samsung-galaxy-f54-5g/p/itm3f62bd8d719c7?pid=MOBGDR4BYTRG5JFA&affid=magicsaver&click_id={CLICK_ID}', price: 22999, category: 'electronics', isActive: true, isFeatured: true, isTodaysPick: true, productSpecificCashbackDisplay: "2% CB", productSpecificCashbackRateValue: 2, productSpecificCashbackType: "percentage" },
+  { storeId: 'amazon', name: 'Echo Dot (5th Gen, 2023 release)', description: 'Smart speaker with Alexa.', imageUrl: 'https://placehold.co/300x300/000000/ffffff.png?text=Echo+5', dataAiHint: 'smart speaker', affiliateLink: 'https://www.amazon.in/dp/B09B8X2SQL?tag=magicsaver-21&ascsubtag={CLICK_ID}', price: 4499, category: 'electronics', isActive: true, isFeatured: true, isTodaysPick: true, productSpecificCashbackDisplay: "Flat ₹100 CB", productSpecificCashbackRateValue: 100, productSpecificCashbackType: "fixed" },
+  { storeId: 'flipkart', name: 'Samsung Galaxy F54 5G (256 GB)', description: 'Powerful 5G smartphone.', imageUrl: 'https://placehold.co/300x300/007bff/ffffff.png?text=Galaxy+F54', dataAiHint: 'samsung phone', affiliateLink: 'https://www.flipkart.com/samsung-galaxy-f54-5g/p/itm3f62bd8d719c7?pid=MOBGDR4BYTRG5JFA&affid=magicsaver&affExtParam1={CLICK_ID}', price: 22999, category: 'electronics', isActive: true, isFeatured: true, isTodaysPick: true, productSpecificCashbackDisplay: "2% CB", productSpecificCashbackRateValue: 2, productSpecificCashbackType: "percentage" },
   { storeId: 'myntra', name: 'PUMA Men Smash Vulc Casual Shoes', description: 'Stylish Puma sneakers.', imageUrl: 'https://placehold.co/300x300/e83e8c/ffffff.png?text=Puma+Shoes', dataAiHint: 'puma sneakers', affiliateLink: 'https://www.myntra.com/casual-shoes/puma/puma-men-smash-vulc-casual-shoes/1038100/buy?ref=magicsaver&click_id={CLICK_ID}', price: 2499, category: 'fashion', isActive: true, isFeatured: true, isTodaysPick: false },
   { storeId: 'ajio', name: 'LEVIS Mens 512 Slim Taper Fit Jeans', description: 'Classic Levis jeans.', imageUrl: 'https://placehold.co/300x300/17a2b8/ffffff.png?text=Levis+Jeans', dataAiHint: 'levis jeans', affiliateLink: 'https://www.ajio.com/levis-men-jeans/p/462800000_blue?source=magicsaver&click_id={CLICK_ID}', price: 1799, category: 'fashion', isActive: true, isFeatured: true, isTodaysPick: true, productSpecificCashbackDisplay: "5% Extra CB", productSpecificCashbackRateValue: 5, productSpecificCashbackType: "percentage" },
-  { storeId: 'amazon', name: 'OnePlus Bullets Z2 Earphones', description: 'Wireless earphones.', imageUrl: 'https://placehold.co/300x300/6c757d/ffffff.png?text=OnePlus+Z2', dataAiHint: 'wireless earphones', affiliateLink: 'https://www.amazon.in/dp/B0B3MNY99S?tag=magicsaver-21&click_id={CLICK_ID}', price: 1999, category: 'electronics', isActive: true, isFeatured: false, isTodaysPick: true },
+  { storeId: 'amazon', name: 'OnePlus Bullets Z2 Earphones', description: 'Wireless earphones.', imageUrl: 'https://placehold.co/300x300/6c757d/ffffff.png?text=OnePlus+Z2', dataAiHint: 'wireless earphones', affiliateLink: 'https://www.amazon.in/dp/B0B3MNY99S?tag=magicsaver-21&ascsubtag={CLICK_ID}', price: 1999, category: 'electronics', isActive: true, isFeatured: false, isTodaysPick: true },
 ];
 
 const couponsData: Omit<Coupon, 'id' | 'createdAt' | 'updatedAt' | 'store'>[] = [
-  { storeId: 'amazon', code: 'AMZDEAL10', description: 'Extra 10% off select Amazon Fashion. Max discount ₹200.', link: 'https://www.amazon.in/fashion?tag=magicsaver-21&click_id={CLICK_ID}', expiryDate: Timestamp.fromDate(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)), isFeatured: true, isActive: true },
-  { storeId: 'flipkart', code: null, description: 'Flipkart Electronics Sale - Up to 80% Off.', link: 'https://www.flipkart.com/electronics-sale?affid=magicsaver&click_id={CLICK_ID}', expiryDate: Timestamp.fromDate(new Date(Date.now() + 5 * 24 * 60 * 60 * 1000)), isFeatured: true, isActive: true },
+  { storeId: 'amazon', code: 'AMZDEAL10', description: 'Extra 10% off select Amazon Fashion. Max discount ₹200.', link: 'https://www.amazon.in/fashion?tag=magicsaver-21&ascsubtag={CLICK_ID}', expiryDate: Timestamp.fromDate(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)), isFeatured: true, isActive: true },
+  { storeId: 'flipkart', code: null, description: 'Flipkart Electronics Sale - Up to 80% Off.', link: 'https://www.flipkart.com/electronics-sale?affid=magicsaver&affExtParam1={CLICK_ID}', expiryDate: Timestamp.fromDate(new Date(Date.now() + 5 * 24 * 60 * 60 * 1000)), isFeatured: true, isActive: true },
   { storeId: 'myntra', code: 'MYNTRA200', description: 'Flat ₹200 off on ₹1999+ for new users.', link: 'https://www.myntra.com/?ref=magicsaver&click_id={CLICK_ID}', expiryDate: null, isFeatured: false, isActive: true },
   { storeId: 'ajio', code: 'AJIOSALE', description: 'Get 50-70% off on AJIO Fashion Sale.', link: 'https://www.ajio.com/sale?source=magicsaver&click_id={CLICK_ID}', expiryDate: Timestamp.fromDate(new Date(Date.now() + 10 * 24 * 60 * 60 * 1000)), isFeatured: true, isActive: true },
 ];
@@ -47,9 +51,9 @@ const bannersData: Omit<Banner, 'id' | 'createdAt' | 'updatedAt'>[] = [
 
 // Example Clicks (will have IDs generated)
 const exampleClicksBase: Omit<Click, 'id' | 'timestamp' | 'userAgent' | 'clickedCashbackDisplay' | 'clickedCashbackRateValue' | 'clickedCashbackType'>[] = [
-  { clickId: 'click_seed_amazon_echo', userId: EXAMPLE_USER_ID_1, storeId: 'amazon', storeName: 'Amazon', affiliateLink: 'https://www.amazon.in/dp/B09B8X2SQL?tag=magicsaver-21&click_id=click_seed_amazon_echo', originalLink: 'https://www.amazon.in/dp/B09B8X2SQL', productId: productsData.find(p=>p.name.includes("Echo Dot"))?.storeId || 'echo-dot-seed-id', productName: 'Echo Dot (5th Gen, 2023 release)' },
+  { clickId: 'click_seed_amazon_echo', userId: EXAMPLE_USER_ID_1, storeId: 'amazon', storeName: 'Amazon', affiliateLink: 'https://www.amazon.in/dp/B09B8X2SQL?tag=magicsaver-21&ascsubtag=click_seed_amazon_echo', originalLink: 'https://www.amazon.in/dp/B09B8X2SQL', productId: productsData.find(p=>p.name.includes("Echo Dot"))?.storeId || 'echo-dot-seed-id', productName: 'Echo Dot (5th Gen, 2023 release)' },
   { clickId: 'click_seed_myntra_coupon', userId: EXAMPLE_USER_ID_1, storeId: 'myntra', storeName: 'Myntra', affiliateLink: 'https://www.myntra.com/?ref=magicsaver&click_id=click_seed_myntra_coupon', originalLink: 'https://www.myntra.com/', couponId: couponsData.find(c=>c.code==='MYNTRA200')?.storeId || 'myntra200-seed-id' },
-  { clickId: 'click_seed_flipkart_galaxy', userId: EXAMPLE_USER_ID_2, storeId: 'flipkart', storeName: 'Flipkart', affiliateLink: 'https://www.flipkart.com/samsung-galaxy-f54-5g/p/itm3f62bd8d719c7?pid=MOBGDR4BYTRG5JFA&affid=magicsaver&click_id=click_seed_flipkart_galaxy', originalLink: 'https://www.flipkart.com/samsung-galaxy-f54-5g/p/itm3f62bd8d719c7', productId: productsData.find(p=>p.name.includes("Samsung Galaxy"))?.storeId || 'galaxy-f54-seed-id', productName: 'Samsung Galaxy F54 5G (256 GB)' },
+  { clickId: 'click_seed_flipkart_galaxy', userId: EXAMPLE_USER_ID_2, storeId: 'flipkart', storeName: 'Flipkart', affiliateLink: 'https://www.flipkart.com/samsung-galaxy-f54-5g/p/itm3f62bd8d719c7?pid=MOBGDR4BYTRG5JFA&affid=magicsaver&affExtParam1=click_seed_flipkart_galaxy', originalLink: 'https://www.flipkart.com/samsung-galaxy-f54-5g/p/itm3f62bd8d719c7', productId: productsData.find(p=>p.name.includes("Samsung Galaxy"))?.storeId || 'galaxy-f54-seed-id', productName: 'Samsung Galaxy F54 5G (256 GB)' },
 ];
 
 // Example Conversions (will have IDs generated)
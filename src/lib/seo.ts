@@ -0,0 +1,149 @@
+// src/lib/seo.ts
+// Canonical URLs, page metadata and schema.org JSON-LD for the public
+// catalogue pages. JSON-LD is rendered with <JsonLd> (src/components/json-ld.tsx).
+import type { Metadata } from 'next';
+import { headlineRate } from '@/lib/cashback-rates';
+import { safeToDate, storePath } from '@/lib/utils';
+import type { Coupon, Product, Store } from '@/lib/types';
+
+export const SITE_NAME = 'MagicSaver';
+export const SITE_DESCRIPTION = 'Get cashback and find the best coupons for your online shopping with MagicSaver.';
+// Public origin for canonical URLs and the sitemap, e.g. https://www.example.com
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:9002').replace(/\/+$/, '');
+
+export function absoluteUrl(path: string): string {
+  return new URL(path, `${SITE_URL}/`).toString();
+}
+
+interface PageMetadataOptions {
+  title: string;
+  description: string;
+  path: string; // Canonical path, e.g. /stores/amazon
+  image?: string | null; // Leave out to use the route's opengraph-image
+}
+
+export function pageMetadata({ title, description, path, image }: PageMetadataOptions): Metadata {
+  return {
+    title,
+    description,
+    alternates: { canonical: path },
+    openGraph: {
+      type: 'website',
+      siteName: SITE_NAME,
+      title,
+      description,
+      url: path,
+      ...(image ? { images: [{ url: image, alt: title }] } : {}),
+    },
+    twitter: { card: 'summary_large_image', title, description, ...(image ? { images: [image] } : {}) },
+  };
+}
+
+/** A store's headline rate for titles, e.g. "Up to 6.5% Cashback". */
+export function cashbackSummary(store: Store): string {
+  const rate = headlineRate(store) || store.cashbackRate;
+  return rate ? `${rate} Cashback` : 'Cashback';
+}
+
+type JsonLdObject = Record<string, unknown>;
+
+export function siteJsonLd(): JsonLdObject[] {
+  return [
+    {
+      '@context': 'https://schema.org',
+      '@type': 'Organization',
+      name: SITE_NAME,
+      url: absoluteUrl('/'),
+      logo: absoluteUrl('/opengraph-image'),
+      description: SITE_DESCRIPTION,
+    },
+    {
+      '@context': 'https://schema.org',
+      '@type': 'WebSite',
+      name: SITE_NAME,
+      url: absoluteUrl('/'),
+      potentialAction: {
+        '@type': 'SearchAction',
+        target: `${absoluteUrl('/search')}?q={search_term_string}`,
+        'query-input': 'required name=search_term_string',
+      },
+    },
+  ];
+}
+
+function sellerJsonLd(store: Store): JsonLdObject {
+  return { '@type': 'Organization', name: store.name, url: absoluteUrl(storePath(store)) };
+}
+
+/** A coupon or deal as an Offer from its store. */
+export function couponOfferJsonLd(coupon: Coupon, store: Store | undefined): JsonLdObject {
+  const validFrom = safeToDate(coupon.createdAt);
+  const validThrough = safeToDate(coupon.expiryDate);
+  return {
+    '@type': 'Offer',
+    name: coupon.description,
+    url: absoluteUrl(storePath(store ?? { id: coupon.storeId })),
+    category: coupon.code ? 'Coupon code' : 'Deal',
+    ...(validFrom ? { validFrom: validFrom.toISOString() } : {}),
+    ...(validThrough ? { validThrough: validThrough.toISOString() } : {}),
+    ...(store ? { seller: sellerJsonLd(store) } : {}),
+  };
+}
+
+/** A store as an Organization, with its coupons as the offers it makes. */
+export function storeJsonLd(store: Store, coupons: Coupon[]): JsonLdObject {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Organization',
+    name: store.name,
+    url: absoluteUrl(storePath(store)),
+    ...(store.logoUrl ? { logo: store.logoUrl } : {}),
+    description: store.description,
+    ...(store.rating && store.ratingCount ? {
+      aggregateRating: { '@type': 'AggregateRating', ratingValue: store.rating, ratingCount: store.ratingCount, bestRating: 5 },
+    } : {}),
+    makesOffer: coupons.map(coupon => couponOfferJsonLd(coupon, store)),
+  };
+}
+
+export function productJsonLd(product: Product, store: Store | undefined): JsonLdObject {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: product.name,
+    ...(product.imageUrl ? { image: product.imageUrl } : {}),
+    ...(product.description ? { description: product.description } : {}),
+    ...(product.brand ? { brand: { '@type': 'Brand', name: product.brand } } : {}),
+    // Search engines ignore offers without a price.
+    ...(product.price != null ? {
+      offers: {
+        '@type': 'Offer',
+        price: product.price,
+        priceCurrency: 'INR',
+        url: absoluteUrl(`${storePath(store ?? { id: product.storeId })}/products`),
+        availability: 'https://schema.org/InStock',
+        ...(store ? { seller: sellerJsonLd(store) } : {}),
+      },
+    } : {}),
+  };
+}
+
+/** An ordered list of page URLs, e.g. the stores in a category. */
+export function itemListJsonLd(name: string, items: { name: string; path: string }[]): JsonLdObject {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'ItemList',
+    name,
+    itemListElement: items.map((item, index) => ({ '@type': 'ListItem', position: index + 1, name: item.name, url: absoluteUrl(item.path) })),
+  };
+}
+
+/** Coupons as an OfferCatalog, for listing pages. */
+export function offerCatalogJsonLd(name: string, coupons: (Coupon & { store?: Store })[]): JsonLdObject {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'OfferCatalog',
+    name,
+    itemListElement: coupons.map(coupon => couponOfferJsonLd(coupon, coupon.store)),
+  };
+}
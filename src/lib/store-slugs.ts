@@ -0,0 +1,108 @@
+// src/lib/store-slugs.ts
+// Store pages are served at /stores/{slug}. storeSlugs/{slug} holds every slug
+// a store has had, keyed by slug so no two stores can claim the same one, and
+// lets /stores/[slug] redirect old slugs and store IDs to the current slug.
+// Slugs stay with their store when it's renamed; they're released only when
+// the store is deleted.
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  writeBatch,
+  type DocumentReference,
+  type Firestore,
+} from 'firebase/firestore';
+
+export const STORE_SLUG_MAX_LENGTH = 50;
+export const STORE_SLUG_PATTERN = /^[a-z0-9-]+$/;
+const MAX_SLUG_SUFFIX = 50;
+
+export class StoreSlugTakenError extends Error {
+  constructor(public readonly slug: string) {
+    super(`The slug "${slug}" is already used by another store.`);
+    this.name = 'StoreSlugTakenError';
+  }
+}
+
+/** A URL slug for a store name, e.g. "Marks & Spencer" -> "marks-spencer". */
+export function slugifyStoreName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, STORE_SLUG_MAX_LENGTH)
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Whether a slug is free for a store: unclaimed, or already the store's own.
+ * Stores saved before storeSlugs existed only have the slug field, so that is
+ * checked too.
+ */
+export async function isStoreSlugAvailable(db: Firestore, slug: string, storeId?: string): Promise<boolean> {
+  const [slugSnap, legacySnap] = await Promise.all([
+    getDoc(doc(db, 'storeSlugs', slug)),
+    getDocs(query(collection(db, 'stores'), where('slug', '==', slug), limit(1))),
+  ]);
+  if (slugSnap.exists() && slugSnap.data().storeId !== storeId) return false;
+  return legacySnap.docs.every(storeSnap => storeSnap.id === storeId);
+}
+
+/** The slug, or the first free "slug-2", "slug-3"... for an auto-generated one. */
+export async function findAvailableStoreSlug(db: Firestore, baseSlug: string, storeId?: string): Promise<string> {
+  for (let suffix = 1; suffix <= MAX_SLUG_SUFFIX; suffix++) {
+    const ending = suffix === 1 ? '' : `-${suffix}`;
+    const candidate = `${baseSlug.slice(0, STORE_SLUG_MAX_LENGTH - ending.length).replace(/-+$/, '')}${ending}`;
+    if (await isStoreSlugAvailable(db, candidate, storeId)) return candidate;
+  }
+  throw new StoreSlugTakenError(baseSlug);
+}
+
+/**
+ * Writes a store and claims its slug in one transaction, failing with
+ * StoreSlugTakenError if another store holds it. When the slug changes, the
+ * previous one is kept pointing at the store so its old links redirect.
+ */
+export async function saveStoreWithSlug(
+  db: Firestore,
+  storeRef: DocumentReference,
+  data: Record<string, unknown>,
+  slug: string,
+  previousSlug: string | null = null,
+): Promise<void> {
+  await runTransaction(db, async (transaction) => {
+    const slugRef = doc(db, 'storeSlugs', slug);
+    const slugSnap = await transaction.get(slugRef);
+    if (slugSnap.exists() && slugSnap.data().storeId !== storeRef.id) {
+      throw new StoreSlugTakenError(slug);
+    }
+    if (previousSlug) {
+      // Stores saved before storeSlugs existed have no entry for their old slug yet.
+      const previousRef = doc(db, 'storeSlugs', previousSlug);
+      const previousSnap = await transaction.get(previousRef);
+      if (!previousSnap.exists()) {
+        transaction.set(previousRef, { storeId: storeRef.id, createdAt: serverTimestamp() });
+      }
+    }
+    if (!slugSnap.exists()) {
+      transaction.set(slugRef, { storeId: storeRef.id, createdAt: serverTimestamp() });
+    }
+    transaction.set(storeRef, { ...data, slug }, { merge: true });
+  });
+}
+
+/** Deletes a store and releases all of its slugs. */
+export async function deleteStoreAndSlugs(db: Firestore, storeId: string): Promise<void> {
+  const slugSnap = await getDocs(query(collection(db, 'storeSlugs'), where('storeId', '==', storeId)));
+  const batch = writeBatch(db);
+  slugSnap.docs.forEach(slugDoc => batch.delete(slugDoc.ref));
+  batch.delete(doc(db, 'stores', storeId));
+  await batch.commit();
+}
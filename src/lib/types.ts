@@ -19,6 +19,7 @@ export interface UserProfile {
   referralCount: number;
   referralBonusEarned: number;
   referredBy: string | null; // UID of the user who referred this user
+  referredByCode?: string | null; // Code entered at sign-up; resolved to referredBy server-side
   isDisabled: boolean;
   createdAt: Timestamp | FieldValue;
   updatedAt: Timestamp | FieldValue;
@@ -26,6 +27,94 @@ export interface UserProfile {
   payoutDetails?: PayoutDetails | null;
 }
 
+export type ReferralBonusStatus = 'pending' | 'confirmed' | 'paid' | 'expired' | 'voided' | 'reversed';
+
+// The bonus a referrer earns for one referred sign-up, held as pending
+// cashback until the referee's first qualifying purchase is confirmed.
+// Document ID is the referee's UID.
+export interface ReferralBonus {
+  id: string;
+  referrerId: string;
+  refereeId: string;
+  amount: number;
+  status: ReferralBonusStatus;
+  minOrderAmount: number; // Sale amount the referee's purchase must reach
+  expiresAt: Timestamp; // Pending bonuses expire after this
+  qualifyingTransactionId?: string | null;
+  confirmedAt?: Timestamp | FieldValue | null;
+  payoutId?: string | null; // Set while a payout includes the bonus
+  paidAt?: Timestamp | FieldValue | null;
+  expiredAt?: Timestamp | FieldValue | null;
+  voidedBy?: string | null; // Admin who voided it from the duplicate-account queue
+  voidedAt?: Timestamp | FieldValue | null;
+  reversedAt?: Timestamp | FieldValue | null; // Its qualifying purchase was rejected or cancelled after expiresAt
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+}
+
+export type ReferralEarningStatus = 'confirmed' | 'paid' | 'reversed';
+
+// A referrer's revenue share of one confirmed transaction by a referee
+// (tier 1) or a referee's referee (tier 2). Document ID is `{transactionId}_t{tier}`.
+export interface ReferralEarning {
+  id: string;
+  referrerId: string;
+  tier: 1 | 2;
+  viaUserId: string; // The referrer's direct referee the earning came through
+  purchaserId: string;
+  transactionId: string;
+  cashbackAmount: number;
+  percent: number;
+  amount: number;
+  status: ReferralEarningStatus;
+  payoutId: string | null; // Set while a payout includes the earning
+  paidAt?: Timestamp | FieldValue | null;
+  reversedAt?: Timestamp | FieldValue | null;
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+}
+
+// Stored at settings/referrals; unset fields use the defaults in src/lib/referral-program.ts.
+export interface ReferralSettings {
+  signupBonusAmount?: number | null;
+  bonusMinOrderAmount?: number | null;
+  bonusExpiryDays?: number | null;
+  revenueShareEnabled?: boolean;
+  tier1Percent?: number | null;
+  tier2Percent?: number | null; // 0 turns the second tier off
+  revenueShareDays?: number | null; // How long after sign-up a referee's purchases earn a share; null for life
+  updatedBy?: string | null;
+  updatedAt?: Timestamp | FieldValue | null;
+}
+
+export type AccountLinkSignal = 'device' | 'email' | 'payout_detail' | 'signup_ip';
+
+// Two accounts sharing a device, normalised email, payout detail, or
+// signing up from the same IP around the same time.
+export interface AccountLink {
+  userIds: [string, string];
+  signal: AccountLinkSignal;
+}
+
+export type AccountClusterStatus = 'open' | 'actioned' | 'dismissed' | 'merged';
+
+// Accounts linked by shared signals, built by the functions from
+// accountSignals and reviewed on /admin/account-clusters.
+export interface AccountCluster {
+  id: string;
+  userIds: string[];
+  links: AccountLink[];
+  signals: AccountLinkSignal[];
+  hasReferralLink: boolean; // A member was referred by another member
+  status: AccountClusterStatus;
+  mergedInto?: string | null; // Set when status is 'merged'
+  reviewedBy?: string | null;
+  reviewedAt?: Timestamp | FieldValue | null;
+  reviewNotes?: string | null;
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+}
+
 export interface PayoutDetails {
   method: PayoutMethod;
   detail: string;
@@ -46,6 +135,9 @@ export interface Transaction {
   reportedDate?: Timestamp | FieldValue | null; 
   saleAmount: number;
   cashbackRateApplied?: string | null; 
+  cashbackRateVersionId?: string | null; // Store rate version the cashback was calculated from
+  campaignId?: string | null; // Boost campaign applied to the cashback, if any
+  campaignBonusAmount?: number | null; // Extra cashback from that campaign, included in the amounts below
   initialCashbackAmount: number; 
   finalSaleAmount?: number | null; 
   finalCashbackAmount?: number | null; 
@@ -61,6 +153,37 @@ export interface Transaction {
   updatedAt: Timestamp | FieldValue;
 }
 
+// Stored under transactions/{transactionId}/auditLog
+export interface TransactionAuditEntry {
+  id?: string;
+  fromStatus: CashbackStatus;
+  toStatus: CashbackStatus;
+  source: 'postback' | 'admin' | 'import';
+  advertiserStatus?: string | null;
+  conversionId?: string | null;
+  actorId: string | null;
+  createdAt: Timestamp | FieldValue;
+}
+
+export type LedgerEntryType = 'credit_pending' | 'confirm' | 'reject' | 'reserve_payout' | 'release_payout' | 'settle_payout' | 'return_payout_remainder' | 'referral_pending' | 'referral_confirm' | 'referral_reverse' | 'referral_share' | 'referral_share_reverse' | 'opening_balance';
+
+// Written only by Cloud Functions; balances on UserProfile are the sums of these deltas.
+export interface LedgerEntry {
+  id?: string;
+  userId: string;
+  type: LedgerEntryType;
+  transactionId: string | null;
+  payoutId: string | null;
+  referralBonusId?: string | null;
+  referralEarningId?: string | null;
+  pendingDelta: number;
+  balanceDelta: number;
+  lifetimeDelta: number;
+  description: string;
+  actorId: string | null;
+  createdAt: Timestamp | FieldValue;
+}
+
 export interface Click {
   id: string; 
   clickId: string; 
@@ -74,9 +197,13 @@ export interface Click {
   originalLink?: string | null; 
   timestamp: Timestamp | FieldValue;
   userAgent?: string | null;
+  ipHash?: string | null; // Salted SHA-256 of the visitor IP, recorded by /go/[storeId]
+  referrer?: string | null;
   clickedCashbackDisplay?: string | null;
   clickedCashbackRateValue?: number | null;
   clickedCashbackType?: CashbackType | null;
+  clickedRateVersionId?: string | null; // storeRateHistory version in effect at click time
+  clickedRateVersion?: number | null;
   conversionId?: string | null; 
   hasConversion?: boolean;
 }
@@ -93,14 +220,67 @@ export interface Conversion {
   currency?: string; 
   commissionAmount?: number | null; 
   status: 'received' | 'processed' | 'error' | 'unmatched_click';
+  advertiserStatus?: string | null;
   timestamp: Timestamp | FieldValue;
+  network?: string | null; // Network that sent the (signed) postback
+  productCategory?: string | null; // Postback `category`, used to pick a rate tier
+  platform?: 'app' | 'web' | null; // Postback `platform`, used to pick a rate tier
   postbackData?: Record<string, any>; 
   processingError?: string | null;
+  transactionId?: string | null; // Transaction created from this conversion by the postback processor
+  processedAt?: Timestamp | FieldValue | null;
+  manualMatch?: ConversionManualMatch | null; // Set when an admin matched an unmatched conversion
+}
+
+export interface ConversionManualMatch {
+  type: 'click' | 'user';
+  matchedBy: string; // Admin UID
+  matchedAt: Timestamp | FieldValue;
+  reportedClickId: string; // sub_id from the original postback
+  note?: string | null;
 }
 
+export type PostbackRejectionReason = 'unknown_network' | 'ip_not_allowed' | 'missing_signature' | 'invalid_signature' | 'stale_timestamp' | 'missing_nonce' | 'replayed_nonce' | 'verification_error';
+
+// Postbacks that failed signature/IP/replay checks, written by handlePostback
+export interface PostbackRejection {
+  id: string;
+  network: string | null;
+  reason: PostbackRejectionReason;
+  ip: string | null;
+  userAgent: string | null;
+  method: string;
+  query: Record<string, any>;
+  body: Record<string, any> | null;
+  receivedAt: Timestamp | FieldValue;
+}
 
 export type CashbackType = 'percentage' | 'fixed';
-export type PayoutMethod = 'paypal' | 'bank_transfer' | 'gift_card';
+export type CashbackUserSegment = 'all' | 'new' | 'existing';
+export type CashbackPlatform = 'all' | 'app' | 'web';
+
+// A named rate on a store's rate card, e.g. "Mobiles - new users (app)".
+// The most specific active tier matching a sale wins; otherwise the store's
+// base cashbackRateValue/cashbackType applies.
+export interface CashbackRateTier {
+  id: string;
+  name: string;
+  category?: string | null; // Merchant product category; null matches any
+  userSegment: CashbackUserSegment; // 'new' = no earlier transaction at this store
+  platform: CashbackPlatform;
+  value: number;
+  type: CashbackType;
+  maxCashback?: number | null; // Cap per order, in INR
+  validFrom?: Timestamp | null;
+  validUntil?: Timestamp | null;
+  notes?: string | null;
+}
+// Lower-cased advertiser status from a postback -> CashbackStatus it moves the transaction to
+export type AdvertiserStatusMap = Record<string, CashbackStatus>;
+// Affiliate network a store's links belong to; see src/lib/affiliate-networks.ts
+export type AffiliateNetworkId = 'amazon_associates' | 'flipkart' | 'cuelinks' | 'admitad' | 'generic';
+export type PayoutMethod = 'paypal' | 'bank_transfer' | 'gift_card' | 'upi';
+export type PayoutProviderId = 'mock' | 'voucher';
 export type PayoutStatus = 'pending' | 'approved' | 'processing' | 'paid' | 'rejected' | 'failed' | 'awaiting_payout';
 
 export interface Store {
@@ -110,9 +290,12 @@ export interface Store {
   logoUrl: string | null;
   heroImageUrl?: string | null;
   affiliateLink: string;
+  affiliateNetwork?: AffiliateNetworkId | null; // Defaults to 'generic'
+  deepLinkTemplate?: string | null; // Redirect networks: wraps product/coupon URLs, e.g. https://linksredirect.com/?cid=..&url={URL}&subid={CLICK_ID}
   cashbackRate: string; 
   cashbackRateValue: number; 
   cashbackType: CashbackType; 
+  cashbackRates?: CashbackRateTier[] | null; // Rate card tiers; the base rate above is the fallback
   description: string;
   detailedDescription?: string | null;
   categories: string[]; 
@@ -121,7 +304,7 @@ export interface Store {
   cashbackTrackingTime?: string | null; 
   cashbackConfirmationTime?: string | null; 
   cashbackOnAppOrders?: boolean | null;
-  detailedCashbackRatesLink?: string | null;
+  detailedCashbackRatesLink?: string | null; // Legacy external rate card, shown only when there are no cashbackRates
   topOffersText?: string | null; 
   offerDetailsLink?: string | null;
   terms?: string | null;
@@ -129,10 +312,53 @@ export interface Store {
   isActive: boolean;
   isTodaysDeal?: boolean;
   dataAiHint?: string | null;
+  advertiserStatusMap?: AdvertiserStatusMap | null; // Overrides the default advertiser status table for postbacks
+  rateVersion?: number | null; // Current storeRateHistory version, maintained by onStoreRatesWritten
+  rateVersionId?: string | null;
+  updatedBy?: string | null; // Admin UID of the last edit, copied onto rate history
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+}
+
+// Stored under stores/{storeId}/storeRateHistory/{versionId}, one per rate change.
+export interface StoreRateVersion {
+  id: string;
+  storeId: string;
+  version: number;
+  cashbackRate: string;
+  cashbackRateValue: number;
+  cashbackType: CashbackType;
+  cashbackRates: CashbackRateTier[];
+  effectiveFrom: Timestamp | FieldValue;
+  effectiveUntil: Timestamp | FieldValue | null; // null for the version in effect
+  changedBy: string | null;
+}
+
+// 'new' means users who have not ordered from the store before, as for rate tiers.
+export type CampaignEligibility = 'all' | 'new' | 'specific';
+
+// A scheduled cashback boost, e.g. "2x cashback this weekend". Applied to
+// conversions whose click falls between startsAt and endsAt.
+export interface Campaign {
+  id: string;
+  name: string;
+  description?: string | null;
+  storeId: string;
+  productId?: string | null; // null boosts every purchase at the store
+  multiplier: number; // 2 for "2x cashback"
+  maxBonusAmount?: number | null; // Cap on the extra cashback per order
+  startsAt: Timestamp;
+  endsAt: Timestamp;
+  eligibility: CampaignEligibility;
+  eligibleUserIds: string[]; // Used when eligibility is 'specific'
+  isActive: boolean;
   createdAt: Timestamp | FieldValue;
   updatedAt: Timestamp | FieldValue;
 }
 
+export type CouponOfferType = 'code' | 'deal';
+export type CouponListingStatus = 'live' | 'expired' | 'inactive';
+
 export interface Coupon {
   id: string;
   storeId: string;
@@ -143,6 +369,12 @@ export interface Coupon {
   expiryDate: Timestamp | null; 
   isFeatured: boolean;
   isActive: boolean;
+  // Listing fields, maintained by a Cloud Function (functions/src/coupon-listings.ts)
+  offerType?: CouponOfferType;
+  listingStatus?: CouponListingStatus;
+  expiresAt?: Timestamp; // expiryDate, or a far-future date when there is none
+  storeCategories?: string[];
+  storeCashbackRateValue?: number;
   createdAt: Timestamp | FieldValue;
   updatedAt: Timestamp | FieldValue;
 }
@@ -209,16 +441,139 @@ export interface PayoutRequest {
   paymentMethod: PayoutMethod;
   paymentDetails: PayoutDetails;
   transactionIds: string[]; 
+  referralBonusIds?: string[]; // Confirmed referral bonuses paid out with the transactions
+  referralEarningIds?: string[]; // Confirmed revenue-share earnings paid out with the transactions
   adminNotes?: string | null;
   failureReason?: string | null;
+  providerId?: PayoutProviderId | null; // Payout provider the payout was dispatched to
+  providerReference?: string | null; // The provider's ID for the disbursement
+  providerError?: string | null; // Last error from the provider, while retrying
+  dispatchedAt?: Timestamp | FieldValue | null;
+  batchId?: string | null; // Payout batch the payout was exported in, for batch-paid methods
+  utr?: string | null; // Bank's UTR reference for a batch payout, from the bank's response file
+  giftCards?: PayoutGiftCard[]; // Vouchers issued for a gift card payout; codes are revealed via revealPayoutGiftCards
+  giftCardRemainder?: number | null; // Part of the amount no voucher could cover, returned to the balance
   updatedAt?: Timestamp | FieldValue | null; 
 }
 
+// Stored at settings/payouts; admin-editable payout configuration.
+export interface PayoutSettings {
+  minPayoutAmounts?: Partial<Record<PayoutMethod, number>>; // Overrides DEFAULT_MIN_PAYOUT_AMOUNTS
+  riskHoldScore?: number | null; // Payouts scoring at or above this are held; overrides DEFAULT_RISK_HOLD_SCORE
+  riskAutoApproveScore?: number | null; // Payouts scoring at or below this are approved automatically; null turns it off
+  updatedBy?: string | null;
+  updatedAt?: Timestamp | FieldValue | null;
+}
+
+export type PayoutRiskSignal =
+  | 'new_account'
+  | 'fast_conversion'
+  | 'referral_chain'
+  | 'shared_payout_details'
+  | 'conversion_rate';
+
+export type PayoutRiskDecision = 'auto_approve' | 'review' | 'hold';
+
+export interface PayoutRiskReason {
+  signal: PayoutRiskSignal;
+  points: number; // Added to the score
+  detail: string;
+}
+
+// Risk score for a payout request, written by the functions when it is
+// requested (or re-assessed by an admin). Admin-only, so users never see
+// why a payout was held. Document ID is the payout ID.
+export interface PayoutRiskAssessment {
+  id: string;
+  payoutId: string;
+  userId: string;
+  score: number; // 0-100
+  decision: PayoutRiskDecision;
+  reasons: PayoutRiskReason[];
+  holdScore: number; // Thresholds in effect when assessed
+  autoApproveScore: number | null;
+  relatedUserIds: string[]; // Users sharing payout details or in the referral chain
+  overriddenBy?: string | null; // Admin who approved the payout despite a hold
+  overriddenAt?: Timestamp | FieldValue | null;
+  assessedAt: Timestamp | FieldValue;
+}
+
+export interface PayoutGiftCard {
+  voucherId: string;
+  brand: GiftCardBrand;
+  denomination: number;
+}
+
+export type GiftCardBrand = 'amazon' | 'flipkart' | 'myntra';
+export type GiftCardVoucherStatus = 'available' | 'allocated' | 'void';
+
+// One gift card in the voucher inventory. Codes are encrypted by the
+// functions that add them and are never readable from the client.
+export interface GiftCardVoucher {
+  id: string;
+  brand: GiftCardBrand;
+  denomination: number;
+  encryptedCode: string;
+  codeLast4: string; // For telling vouchers apart in the admin list
+  status: GiftCardVoucherStatus;
+  expiresAt?: Timestamp | null;
+  payoutId: string | null;
+  userId: string | null;
+  addedBy: string;
+  createdAt: Timestamp | FieldValue;
+  allocatedAt?: Timestamp | FieldValue | null;
+  revealedAt?: Timestamp | FieldValue | null; // First time the user revealed the code
+}
+
+// Per brand and denomination voucher counts (giftCardStock/{brand}_{denomination}),
+// kept by the functions that add and allocate vouchers.
+export interface GiftCardStock {
+  id: string;
+  brand: GiftCardBrand;
+  denomination: number;
+  available: number;
+  allocated: number;
+  lowStockThreshold: number; // Admin-editable; the dashboard warns at or below it
+  updatedAt?: Timestamp | FieldValue | null;
+}
+
+// A file of payouts exported for an admin to pay outside the app (a bank
+// NEFT/IMPS or UPI bulk upload). Its payouts stay `processing` until the
+// bank's response file is imported or an admin settles them by hand.
+export type PayoutBatchStatus = 'exported' | 'completed';
+
+export interface PayoutBatch {
+  id: string;
+  method: PayoutMethod;
+  layoutId: string; // Bank file layout the batch was exported with (src/lib/payout-batch-files.ts)
+  status: PayoutBatchStatus;
+  payoutIds: string[];
+  payoutCount: number;
+  totalAmount: number;
+  paidCount: number;
+  failedCount: number;
+  createdBy: string;
+  createdAt: Timestamp | FieldValue;
+  responseImportedAt?: Timestamp | FieldValue | null;
+  updatedAt?: Timestamp | FieldValue | null;
+}
+
 // Form values - these will often use JS Date for date pickers
-export interface StoreFormValues extends Omit<Store, 'id' | 'createdAt' | 'updatedAt'> {}
-export interface CouponFormValues extends Omit<Coupon, 'id' | 'createdAt' | 'updatedAt' | 'store' | 'expiryDate'> {
+export interface CashbackRateTierFormValues extends Omit<CashbackRateTier, 'validFrom' | 'validUntil'> {
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+}
+export interface StoreFormValues extends Omit<Store, 'id' | 'createdAt' | 'updatedAt' | 'cashbackRates' | 'rateVersion' | 'rateVersionId' | 'updatedBy'> {
+  cashbackRates?: CashbackRateTierFormValues[];
+}
+export interface CouponFormValues extends Omit<Coupon, 'id' | 'createdAt' | 'updatedAt' | 'store' | 'expiryDate' | 'offerType' | 'listingStatus' | 'expiresAt' | 'storeCategories' | 'storeCashbackRateValue'> {
   expiryDate?: Date | null; 
 }
+export interface CampaignFormValues extends Omit<Campaign, 'id' | 'createdAt' | 'updatedAt' | 'startsAt' | 'endsAt' | 'eligibleUserIds'> {
+  startsAt: Date;
+  endsAt: Date;
+  eligibleUserIds: string; // Comma or newline separated UIDs
+}
 export interface BannerFormValues extends Omit<Banner, 'id' | 'createdAt' | 'updatedAt'> {}
 export interface CategoryFormValues extends Omit<Category, 'id' | 'createdAt' | 'updatedAt'> {}
 export interface ProductFormValues extends Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'storeName'> {}
@@ -67,30 +67,17 @@ export function isValidHttpUrl(string: string | undefined | null): boolean {
   return url.protocol === "http:" || url.protocol === "https:";
 };
 
-export const appendClickIdToUrl = (url: string, clickId: string, storeAffiliateLink?: string | null): string => {
-  if (!url || !isValidHttpUrl(url)) {
-    console.warn("ProductCard/CouponCard: Attempted to append click ID to an invalid URL:", url);
-    const fallbackUrl = (storeAffiliateLink && isValidHttpUrl(storeAffiliateLink)) ? storeAffiliateLink : '#';
-    if (fallbackUrl === '#') return '#';
-    try {
-      const fallbackUrlObj = new URL(fallbackUrl);
-      fallbackUrlObj.searchParams.set('click_id', clickId);
-      fallbackUrlObj.searchParams.set('subid', clickId);
-      fallbackUrlObj.searchParams.set('aff_sub', clickId);
-      return fallbackUrlObj.toString();
-    } catch (e) {
-        console.error("Error appending click ID to fallback URL:", fallbackUrl, e);
-        return '#';
-    }
-  }
-  try {
-    const urlObj = new URL(url);
-    urlObj.searchParams.set('click_id', clickId);
-    urlObj.searchParams.set('subid', clickId);
-    urlObj.searchParams.set('aff_sub', clickId);
-    return urlObj.toString();
-  } catch (e) {
-    console.warn("Error appending click ID to URL, returning original:", url, e);
-    return url;
-  }
+// Store pages live at the store's slug; stores without one fall back to their ID.
+// Old slugs and IDs redirect to the current slug (see src/lib/store-slugs.ts).
+export const storePath = (store: { id: string; slug?: string | null }): string => {
+  return `/stores/${encodeURIComponent(store.slug || store.id)}`;
+};
+
+// Outbound links go through the /go route, which records the click server-side.
+export const buildGoUrl = (storeId: string, options: { productId?: string | null; couponId?: string | null } = {}): string => {
+  const params = new URLSearchParams();
+  if (options.productId) params.set('product', options.productId);
+  if (options.couponId) params.set('coupon', options.couponId);
+  const query = params.toString();
+  return `/go/${encodeURIComponent(storeId)}${query ? `?${query}` : ''}`;
 };
@@ -0,0 +1,37 @@
+// src/middleware.ts
+// Old store slugs and store-ID links move to the current slug with a 301.
+// The store pages still redirect (308) if this lookup is unavailable.
+import { NextRequest, NextResponse } from 'next/server';
+import type { ResolvedStorePath } from '@/lib/catalog-data';
+import { storePath } from '@/lib/utils';
+
+export const config = {
+  matcher: ['/stores/:slug', '/stores/:slug/products'],
+};
+
+export async function middleware(request: NextRequest) {
+  const [, , encodedSegment, subpage] = request.nextUrl.pathname.split('/');
+  let segment: string;
+  try {
+    segment = decodeURIComponent(encodedSegment);
+  } catch {
+    return NextResponse.next();
+  }
+  const lookupUrl = new URL('/api/store-path', request.url);
+  lookupUrl.searchParams.set('segment', segment);
+
+  let resolved: ResolvedStorePath;
+  try {
+    const response = await fetch(lookupUrl);
+    if (!response.ok) return NextResponse.next();
+    resolved = await response.json() as ResolvedStorePath;
+  } catch (error) {
+    console.warn(`MIDDLEWARE: Store path lookup for "${segment}" failed:`, error);
+    return NextResponse.next();
+  }
+  if (resolved.slug === segment) return NextResponse.next();
+
+  const target = new URL(`${storePath({ id: resolved.storeId, slug: resolved.slug })}${subpage ? `/${subpage}` : ''}`, request.url);
+  target.search = request.nextUrl.search;
+  return NextResponse.redirect(target, 301);
+}
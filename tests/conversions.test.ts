@@ -0,0 +1,128 @@
+// tests/conversions.test.ts
+// Retrying conversion processing (functions/src/conversions.ts). Run against
+// the Firestore emulator with `npm run test:rules`.
+import './functions-env';
+import assert from 'assert';
+import { admin, db } from '../functions/src/admin';
+import { processConversion, transactionIdForConversion } from '../functions/src/conversions';
+
+const { Timestamp } = admin.firestore;
+const USER_UID = 'shopper001';
+
+let conversionCount = 0;
+
+// A conversion matched to a click at a 5% store, for a 2000 sale.
+async function matchedConversion(): Promise<string> {
+  conversionCount += 1;
+  const conversionId = `conv_retry_${conversionCount}`;
+  const clickId = `${conversionId}_click`;
+  await db.collection('stores').doc('retrystore').set({
+    name: 'Retry Store',
+    affiliateLink: 'https://example.com',
+    cashbackRate: '5% Cashback',
+    cashbackRateValue: 5,
+    cashbackType: 'percentage',
+    isActive: true,
+  });
+  await db.collection('clicks').doc(clickId).set({
+    clickId,
+    userId: USER_UID,
+    storeId: 'retrystore',
+    affiliateLink: 'https://example.com',
+    timestamp: Timestamp.now(),
+  });
+  await db.collection('conversions').doc(conversionId).set({
+    clickId,
+    originalClickFirebaseId: clickId,
+    userId: USER_UID,
+    storeId: 'retrystore',
+    orderId: `ORDER-${conversionCount}`,
+    saleAmount: 2000,
+    status: 'received',
+    timestamp: Timestamp.now(),
+  });
+  return conversionId;
+}
+
+async function createUser() {
+  await db.collection('users').doc(USER_UID).set({
+    uid: USER_UID,
+    role: 'user',
+    cashbackBalance: 0,
+    pendingCashback: 0,
+    lifetimeCashback: 0,
+    isDisabled: false,
+  });
+}
+
+async function pendingCashback(): Promise<number> {
+  return (await db.collection('users').doc(USER_UID).get()).get('pendingCashback');
+}
+
+after(async () => {
+  await Promise.all(admin.apps.map(app => app?.delete()));
+});
+
+describe('processConversion', () => {
+  beforeEach(async () => {
+    await createUser();
+  });
+
+  it('credits a conversion once however often it is processed', async () => {
+    const conversionId = await matchedConversion();
+    const transactionId = transactionIdForConversion(conversionId);
+
+    assert.deepStrictEqual(await processConversion(conversionId), { status: 'processed', transactionId });
+    assert.deepStrictEqual(await processConversion(conversionId), { status: 'skipped', transactionId });
+
+    const transaction = (await db.collection('transactions').doc(transactionId).get()).data()!;
+    assert.strictEqual(transaction.initialCashbackAmount, 100);
+    assert.strictEqual(transaction.status, 'pending');
+    assert.ok((await db.collection('ledgerEntries').doc(`credit_pending_${transactionId}`).get()).exists);
+    assert.strictEqual(await pendingCashback(), 100);
+  });
+
+  it('credits a conversion once when processed concurrently', async () => {
+    const conversionId = await matchedConversion();
+
+    const results = await Promise.all([processConversion(conversionId), processConversion(conversionId)]);
+    assert.ok(results.every(result => result.status !== 'error'), JSON.stringify(results));
+    assert.strictEqual(await pendingCashback(), 100);
+  });
+
+  it('flags a failed conversion and processes it when retried', async () => {
+    const conversionId = await matchedConversion();
+    await db.collection('users').doc(USER_UID).delete();
+
+    const failed = await processConversion(conversionId);
+    assert.strictEqual(failed.status, 'error');
+    const flagged = (await db.collection('conversions').doc(conversionId).get()).data()!;
+    assert.strictEqual(flagged.status, 'error');
+    assert.match(flagged.processingError, /not found/);
+
+    await createUser();
+    assert.strictEqual((await processConversion(conversionId)).status, 'processed');
+    const processed = (await db.collection('conversions').doc(conversionId).get()).data()!;
+    assert.strictEqual(processed.status, 'processed');
+    assert.strictEqual(processed.processingError, null);
+    assert.strictEqual(await pendingCashback(), 100);
+  });
+
+  it('only repairs the conversion when an earlier run already created the transaction', async () => {
+    const conversionId = await matchedConversion();
+    const transactionId = transactionIdForConversion(conversionId);
+    await db.collection('transactions').doc(transactionId).set({
+      userId: USER_UID,
+      storeId: 'retrystore',
+      conversionId,
+      initialCashbackAmount: 100,
+      status: 'pending',
+    });
+
+    assert.deepStrictEqual(await processConversion(conversionId), { status: 'processed', transactionId });
+    const conversion = (await db.collection('conversions').doc(conversionId).get()).data()!;
+    assert.strictEqual(conversion.status, 'processed');
+    assert.strictEqual(conversion.transactionId, transactionId);
+    assert.strictEqual(await pendingCashback(), 0);
+  });
+});
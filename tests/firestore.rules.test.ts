@@ -0,0 +1,423 @@
+// tests/firestore.rules.test.ts
+// Security rules tests. Run against the Firestore emulator with `npm run test:rules`.
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  setLogLevel,
+  updateDoc,
+  where,
+  type Firestore,
+} from 'firebase/firestore';
+
+const PROJECT_ID = 'demo-magicsaver';
+const ADMIN_UID = 'admin001';
+const DISABLED_ADMIN_UID = 'admin002';
+const USER_UID = 'user001';
+const OTHER_UID = 'user002';
+
+let testEnv: RulesTestEnvironment;
+
+function profile(uid: string, overrides: Record<string, unknown> = {}) {
+  return {
+    uid,
+    email: `${uid}@example.com`,
+    displayName: uid,
+    photoURL: null,
+    role: 'user',
+    cashbackBalance: 0,
+    pendingCashback: 0,
+    lifetimeCashback: 0,
+    referralCode: uid.toUpperCase(),
+    referralCount: 0,
+    referralBonusEarned: 0,
+    referredBy: null,
+    isDisabled: false,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+    lastPayoutRequestAt: null,
+    payoutDetails: null,
+    ...overrides,
+  };
+}
+
+function click(clickId: string, userId: string | null, overrides: Record<string, unknown> = {}) {
+  return {
+    clickId,
+    userId,
+    storeId: 'amazon',
+    storeName: 'Amazon',
+    couponId: null,
+    productId: null,
+    productName: null,
+    affiliateLink: `https://example.com/?click_id=${clickId}`,
+    originalLink: null,
+    userAgent: null,
+    timestamp: serverTimestamp(),
+    clickedCashbackDisplay: null,
+    clickedCashbackRateValue: null,
+    clickedCashbackType: null,
+    hasConversion: false,
+    conversionId: null,
+    ...overrides,
+  };
+}
+
+function asUser(uid: string): Firestore {
+  return testEnv.authenticatedContext(uid).firestore() as unknown as Firestore;
+}
+
+function asGuest(): Firestore {
+  return testEnv.unauthenticatedContext().firestore() as unknown as Firestore;
+}
+
+before(async () => {
+  setLogLevel('error');
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      rules: readFileSync(resolve(__dirname, '..', 'firestore.rules'), 'utf8'),
+    },
+  });
+});
+
+after(async () => {
+  await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore() as unknown as Firestore;
+    await setDoc(doc(db, 'users', ADMIN_UID), profile(ADMIN_UID, { role: 'admin' }));
+    await setDoc(doc(db, 'users', DISABLED_ADMIN_UID), profile(DISABLED_ADMIN_UID, { role: 'admin', isDisabled: true }));
+    await setDoc(doc(db, 'users', USER_UID), profile(USER_UID, { cashbackBalance: 300, lifetimeCashback: 300 }));
+    await setDoc(doc(db, 'users', OTHER_UID), profile(OTHER_UID));
+    await setDoc(doc(db, 'clicks', 'click001'), click('click001', USER_UID));
+    await setDoc(doc(db, 'clicks', 'click002'), click('click002', OTHER_UID));
+    await setDoc(doc(db, 'conversions', 'conv001'), { clickId: 'click001', orderId: 'ORD1', status: 'received' });
+    await setDoc(doc(db, 'transactions', 'txn001'), { userId: USER_UID, status: 'confirmed', initialCashbackAmount: 300 });
+    await setDoc(doc(db, 'transactions', 'txn002'), { userId: OTHER_UID, status: 'pending', initialCashbackAmount: 20 });
+    await setDoc(doc(db, 'transactions', 'txn001', 'auditLog', 'entry001'), { fromStatus: 'pending', toStatus: 'confirmed', source: 'admin' });
+    await setDoc(doc(db, 'payoutRequests', 'payout001'), { userId: USER_UID, amount: 300, status: 'pending' });
+    await setDoc(doc(db, 'payoutBatches', 'batch001'), { method: 'upi', payoutIds: ['payout001'], payoutCount: 1, totalAmount: 300 });
+    await setDoc(doc(db, 'payoutRiskAssessments', 'payout001'), { payoutId: 'payout001', userId: USER_UID, score: 65, decision: 'hold', reasons: [] });
+    await setDoc(doc(db, 'giftCardVouchers', 'voucher001'), { brand: 'amazon', denomination: 500, encryptedCode: 'x.y.z', status: 'available' });
+    await setDoc(doc(db, 'giftCardStock', 'amazon_500'), { brand: 'amazon', denomination: 500, available: 1, allocated: 0, lowStockThreshold: 5 });
+    await setDoc(doc(db, 'accountSignals', USER_UID), { userId: USER_UID, normalizedEmail: 'user@gmail.com', deviceKeys: ['abc'], payoutDetailKeys: [] });
+    await setDoc(doc(db, 'accountClusters', 'cluster001'), { userIds: [USER_UID, OTHER_UID], links: [], signals: ['device'], hasReferralLink: true, status: 'open' });
+    await setDoc(doc(db, 'referralBonuses', OTHER_UID), { referrerId: USER_UID, refereeId: OTHER_UID, amount: 50, status: 'pending' });
+    await setDoc(doc(db, 'referralEarnings', 'txn002_t1'), { referrerId: USER_UID, tier: 1, purchaserId: OTHER_UID, transactionId: 'txn002', amount: 10, status: 'confirmed', payoutId: null });
+    await setDoc(doc(db, 'ledgerEntries', 'confirm_txn001'), { userId: USER_UID, type: 'confirm', balanceDelta: 300 });
+    await setDoc(doc(db, 'postbackRejections', 'rejection001'), { network: 'cuelinks', reason: 'invalid_signature', ip: '203.0.113.7' });
+    await setDoc(doc(db, 'stores', 'amazon'), { name: 'Amazon', isActive: true });
+    await setDoc(doc(db, 'campaigns', 'weekend2x'), { storeId: 'amazon', eligibility: 'all', eligibleUserIds: [], multiplier: 2, isActive: true });
+    await setDoc(doc(db, 'campaigns', 'vip3x'), { storeId: 'amazon', eligibility: 'specific', eligibleUserIds: [USER_UID], multiplier: 3, isActive: true });
+  });
+});
+
+describe('users', () => {
+  it('lets a user read their own profile but not anyone else\'s', async () => {
+    const db = asUser(USER_UID);
+    await assertSucceeds(getDoc(doc(db, 'users', USER_UID)));
+    await assertFails(getDoc(doc(db, 'users', OTHER_UID)));
+    await assertFails(getDocs(collection(db, 'users')));
+  });
+
+  it('does not let guests read profiles', async () => {
+    await assertFails(getDoc(doc(asGuest(), 'users', USER_UID)));
+  });
+
+  it('lets admins read and list any profile', async () => {
+    const db = asUser(ADMIN_UID);
+    await assertSucceeds(getDoc(doc(db, 'users', OTHER_UID)));
+    await assertSucceeds(getDocs(collection(db, 'users')));
+  });
+
+  it('only allows creating your own profile with zero balances and the user role', async () => {
+    const db = asUser('newUser');
+    await assertFails(setDoc(doc(db, 'users', 'newUser'), profile('newUser', { role: 'admin' })));
+    await assertFails(setDoc(doc(db, 'users', 'newUser'), profile('newUser', { cashbackBalance: 1000 })));
+    await assertFails(setDoc(doc(db, 'users', 'newUser'), profile('newUser', { referredBy: OTHER_UID })));
+    await assertFails(setDoc(doc(db, 'users', 'someoneElse'), profile('someoneElse')));
+    await assertSucceeds(setDoc(doc(db, 'users', 'newUser'), profile('newUser', { referredByCode: 'USER001' })));
+  });
+
+  it('lets a user edit their display details', async () => {
+    const db = asUser(USER_UID);
+    await assertSucceeds(updateDoc(doc(db, 'users', USER_UID), { displayName: 'New Name', updatedAt: serverTimestamp() }));
+  });
+
+  it('does not let a user change their role, balances, status or referral stats', async () => {
+    const ref = doc(asUser(USER_UID), 'users', USER_UID);
+    await assertFails(updateDoc(ref, { role: 'admin' }));
+    await assertFails(updateDoc(ref, { cashbackBalance: 100000 }));
+    await assertFails(updateDoc(ref, { pendingCashback: 5 }));
+    await assertFails(updateDoc(ref, { lifetimeCashback: 100000 }));
+    await assertFails(updateDoc(ref, { isDisabled: false, role: 'user', referralCount: 10 }));
+    await assertFails(updateDoc(ref, { referredBy: OTHER_UID }));
+  });
+
+  it('does not let a user edit someone else\'s profile', async () => {
+    await assertFails(updateDoc(doc(asUser(USER_UID), 'users', OTHER_UID), { displayName: 'Hacked' }));
+  });
+
+  it('only allows a referral code when the profile is created', async () => {
+    const ref = doc(asUser(OTHER_UID), 'users', OTHER_UID);
+    await assertFails(updateDoc(ref, { referredByCode: 'USER001' }));
+  });
+
+  it('lets admins change roles and disable accounts but not balances', async () => {
+    const ref = doc(asUser(ADMIN_UID), 'users', OTHER_UID);
+    await assertSucceeds(updateDoc(ref, { role: 'admin', isDisabled: true }));
+    await assertFails(updateDoc(ref, { cashbackBalance: 500 }));
+  });
+
+  it('treats disabled admins as regular users', async () => {
+    await assertFails(updateDoc(doc(asUser(DISABLED_ADMIN_UID), 'users', OTHER_UID), { isDisabled: true }));
+  });
+
+  it('never allows deleting a profile from the client', async () => {
+    await assertFails(deleteDoc(doc(asUser(USER_UID), 'users', USER_UID)));
+    await assertFails(deleteDoc(doc(asUser(ADMIN_UID), 'users', OTHER_UID)));
+  });
+});
+
+describe('clicks', () => {
+  it('cannot be created from the client, even for yourself', async () => {
+    await assertFails(setDoc(doc(asUser(USER_UID), 'clicks', 'click100'), click('click100', USER_UID)));
+    await assertFails(setDoc(doc(asGuest(), 'clicks', 'click101'), click('click101', null)));
+    await assertFails(setDoc(doc(asUser(ADMIN_UID), 'clicks', 'click102'), click('click102', ADMIN_UID)));
+  });
+
+  it('lets a user read and list only their own clicks', async () => {
+    const db = asUser(USER_UID);
+    await assertSucceeds(getDoc(doc(db, 'clicks', 'click001')));
+    await assertFails(getDoc(doc(db, 'clicks', 'click002')));
+    await assertSucceeds(getDocs(query(collection(db, 'clicks'), where('userId', '==', USER_UID))));
+    await assertFails(getDocs(collection(db, 'clicks')));
+  });
+
+  it('does not let a user modify an existing click', async () => {
+    await assertFails(updateDoc(doc(asUser(USER_UID), 'clicks', 'click001'), { hasConversion: true }));
+  });
+
+  it('lets admins read and update clicks', async () => {
+    const db = asUser(ADMIN_UID);
+    await assertSucceeds(getDocs(collection(db, 'clicks')));
+    await assertSucceeds(updateDoc(doc(db, 'clicks', 'click001'), { hasConversion: true }));
+  });
+});
+
+describe('conversions', () => {
+  it('is admin-only', async () => {
+    await assertFails(getDoc(doc(asUser(USER_UID), 'conversions', 'conv001')));
+    await assertFails(setDoc(doc(asUser(USER_UID), 'conversions', 'conv002'), { clickId: 'click001' }));
+    await assertSucceeds(getDoc(doc(asUser(ADMIN_UID), 'conversions', 'conv001')));
+  });
+});
+
+describe('transactions', () => {
+  it('lets a user read only their own transactions', async () => {
+    const db = asUser(USER_UID);
+    await assertSucceeds(getDoc(doc(db, 'transactions', 'txn001')));
+    await assertFails(getDoc(doc(db, 'transactions', 'txn002')));
+    await assertSucceeds(getDocs(query(collection(db, 'transactions'), where('userId', '==', USER_UID))));
+    await assertFails(getDocs(collection(db, 'transactions')));
+  });
+
+  it('cannot be written from the client, even by admins', async () => {
+    await assertFails(setDoc(doc(asUser(USER_UID), 'transactions', 'txn100'), { userId: USER_UID, status: 'confirmed', initialCashbackAmount: 1000 }));
+    await assertFails(updateDoc(doc(asUser(USER_UID), 'transactions', 'txn001'), { status: 'confirmed' }));
+    await assertFails(updateDoc(doc(asUser(ADMIN_UID), 'transactions', 'txn002'), { status: 'confirmed' }));
+  });
+
+  it('keeps the audit log admin-readable and read-only', async () => {
+    await assertFails(getDocs(collection(asUser(USER_UID), 'transactions', 'txn001', 'auditLog')));
+    await assertSucceeds(getDocs(collection(asUser(ADMIN_UID), 'transactions', 'txn001', 'auditLog')));
+    await assertFails(setDoc(doc(asUser(ADMIN_UID), 'transactions', 'txn001', 'auditLog', 'entry002'), { source: 'admin' }));
+  });
+});
+
+describe('payoutRequests', () => {
+  it('lets a user read their own payout requests', async () => {
+    await assertSucceeds(getDoc(doc(asUser(USER_UID), 'payoutRequests', 'payout001')));
+    await assertFails(getDoc(doc(asUser(OTHER_UID), 'payoutRequests', 'payout001')));
+  });
+
+  it('cannot be created or updated from the client', async () => {
+    await assertFails(setDoc(doc(asUser(USER_UID), 'payoutRequests', 'payout002'), { userId: USER_UID, amount: 300, status: 'pending' }));
+    await assertFails(updateDoc(doc(asUser(ADMIN_UID), 'payoutRequests', 'payout001'), { status: 'paid' }));
+  });
+});
+
+describe('payoutBatches', () => {
+  it('is admin-readable and never client-writable', async () => {
+    await assertSucceeds(getDoc(doc(asUser(ADMIN_UID), 'payoutBatches', 'batch001')));
+    await assertFails(getDoc(doc(asUser(USER_UID), 'payoutBatches', 'batch001')));
+    await assertFails(setDoc(doc(asUser(ADMIN_UID), 'payoutBatches', 'batch002'), { method: 'upi', payoutIds: [] }));
+  });
+});
+
+describe('payoutRiskAssessments', () => {
+  it('is admin-readable, hidden from the payout owner and never client-writable', async () => {
+    await assertSucceeds(getDoc(doc(asUser(ADMIN_UID), 'payoutRiskAssessments', 'payout001')));
+    await assertFails(getDoc(doc(asUser(USER_UID), 'payoutRiskAssessments', 'payout001')));
+    await assertFails(updateDoc(doc(asUser(ADMIN_UID), 'payoutRiskAssessments', 'payout001'), { decision: 'review' }));
+  });
+});
+
+describe('gift card inventory', () => {
+  it('keeps vouchers admin-readable and function-written', async () => {
+    await assertSucceeds(getDoc(doc(asUser(ADMIN_UID), 'giftCardVouchers', 'voucher001')));
+    await assertFails(getDoc(doc(asUser(USER_UID), 'giftCardVouchers', 'voucher001')));
+    await assertFails(updateDoc(doc(asUser(ADMIN_UID), 'giftCardVouchers', 'voucher001'), { status: 'allocated' }));
+  });
+
+  it('lets admins change only the low-stock threshold', async () => {
+    await assertSucceeds(updateDoc(doc(asUser(ADMIN_UID), 'giftCardStock', 'amazon_500'), { lowStockThreshold: 10 }));
+    await assertFails(updateDoc(doc(asUser(ADMIN_UID), 'giftCardStock', 'amazon_500'), { available: 100 }));
+    await assertFails(updateDoc(doc(asUser(USER_UID), 'giftCardStock', 'amazon_500'), { lowStockThreshold: 0 }));
+    await assertFails(getDoc(doc(asUser(USER_UID), 'giftCardStock', 'amazon_500')));
+  });
+});
+
+describe('duplicate-account detection', () => {
+  it('keeps account signals and clusters admin-only and function-written', async () => {
+    await assertSucceeds(getDoc(doc(asUser(ADMIN_UID), 'accountSignals', USER_UID)));
+    await assertFails(getDoc(doc(asUser(USER_UID), 'accountSignals', USER_UID)));
+    await assertSucceeds(getDoc(doc(asUser(ADMIN_UID), 'accountClusters', 'cluster001')));
+    await assertFails(getDoc(doc(asUser(USER_UID), 'accountClusters', 'cluster001')));
+    await assertFails(updateDoc(doc(asUser(ADMIN_UID), 'accountClusters', 'cluster001'), { status: 'dismissed' }));
+  });
+
+  it('lets referrers read their own referral bonuses but not change them', async () => {
+    await assertSucceeds(getDoc(doc(asUser(USER_UID), 'referralBonuses', OTHER_UID)));
+    await assertSucceeds(getDocs(query(collection(asUser(USER_UID), 'referralBonuses'), where('referrerId', '==', USER_UID))));
+    await assertFails(getDocs(collection(asUser(USER_UID), 'referralBonuses')));
+    await assertFails(getDoc(doc(asUser(OTHER_UID), 'referralBonuses', OTHER_UID)));
+    await assertFails(updateDoc(doc(asUser(USER_UID), 'referralBonuses', OTHER_UID), { amount: 500 }));
+    await assertFails(updateDoc(doc(asUser(ADMIN_UID), 'referralBonuses', OTHER_UID), { status: 'voided' }));
+  });
+
+  it('lets referrers read their own revenue-share earnings but not change them', async () => {
+    await assertSucceeds(getDoc(doc(asUser(USER_UID), 'referralEarnings', 'txn002_t1')));
+    await assertSucceeds(getDocs(query(collection(asUser(USER_UID), 'referralEarnings'), where('referrerId', '==', USER_UID))));
+    await assertFails(getDoc(doc(asUser(OTHER_UID), 'referralEarnings', 'txn002_t1')));
+    await assertFails(updateDoc(doc(asUser(USER_UID), 'referralEarnings', 'txn002_t1'), { amount: 100 }));
+    await assertSucceeds(getDoc(doc(asUser(ADMIN_UID), 'referralEarnings', 'txn002_t1')));
+  });
+});
+
+describe('settings', () => {
+  it('is public to read and written only by admins', async () => {
+    await assertSucceeds(getDoc(doc(asGuest(), 'settings', 'payouts')));
+    await assertFails(setDoc(doc(asUser(USER_UID), 'settings', 'payouts'), { minPayoutAmounts: { upi: 1 } }));
+    await assertSucceeds(setDoc(doc(asUser(ADMIN_UID), 'settings', 'payouts'), { minPayoutAmounts: { upi: 150 } }));
+  });
+});
+
+describe('ledgerEntries', () => {
+  it('lets a user read their own entries and never write them', async () => {
+    await assertSucceeds(getDoc(doc(asUser(USER_UID), 'ledgerEntries', 'confirm_txn001')));
+    await assertFails(getDoc(doc(asUser(OTHER_UID), 'ledgerEntries', 'confirm_txn001')));
+    await assertFails(setDoc(doc(asUser(USER_UID), 'ledgerEntries', 'confirm_txn100'), { userId: USER_UID, balanceDelta: 1000 }));
+    await assertFails(deleteDoc(doc(asUser(ADMIN_UID), 'ledgerEntries', 'confirm_txn001')));
+  });
+});
+
+describe('postbackRejections', () => {
+  it('is admin-readable and never client-writable', async () => {
+    await assertSucceeds(getDoc(doc(asUser(ADMIN_UID), 'postbackRejections', 'rejection001')));
+    await assertFails(getDoc(doc(asUser(USER_UID), 'postbackRejections', 'rejection001')));
+    await assertFails(deleteDoc(doc(asUser(ADMIN_UID), 'postbackRejections', 'rejection001')));
+    await assertFails(getDoc(doc(asUser(ADMIN_UID), 'postbackNonces', 'anything')));
+  });
+});
+
+describe('report imports', () => {
+  it('lets admins manage saved column mappings', async () => {
+    const mapping = { columns: { clickId: 'Sub ID', orderId: 'Order ID' } };
+    await assertSucceeds(setDoc(doc(asUser(ADMIN_UID), 'importMappings', 'cuelinks'), mapping));
+    await assertSucceeds(getDoc(doc(asUser(ADMIN_UID), 'importMappings', 'cuelinks')));
+    await assertFails(getDoc(doc(asUser(USER_UID), 'importMappings', 'cuelinks')));
+    await assertFails(setDoc(doc(asUser(USER_UID), 'importMappings', 'cuelinks'), mapping));
+  });
+
+  it('keeps import tallies admin-readable and function-written', async () => {
+    await assertSucceeds(getDoc(doc(asUser(ADMIN_UID), 'transactionImports', 'import001')));
+    await assertFails(getDoc(doc(asUser(USER_UID), 'transactionImports', 'import001')));
+    await assertFails(setDoc(doc(asUser(ADMIN_UID), 'transactionImports', 'import001'), { counts: {} }));
+  });
+});
+
+describe('catalogue collections', () => {
+  for (const collectionName of ['stores', 'coupons', 'products', 'banners', 'categories']) {
+    it(`${collectionName}: public read, admin write`, async () => {
+      await assertSucceeds(getDocs(collection(asGuest(), collectionName)));
+      await assertFails(setDoc(doc(asUser(USER_UID), collectionName, 'item001'), { name: 'User item' }));
+      await assertFails(setDoc(doc(asUser(DISABLED_ADMIN_UID), collectionName, 'item001'), { name: 'Disabled admin item' }));
+      await assertSucceeds(setDoc(doc(asUser(ADMIN_UID), collectionName, 'item001'), { name: 'Admin item' }));
+    });
+  }
+});
+
+describe('storeRateHistory', () => {
+  it('is public to read and written only by functions', async () => {
+    await assertSucceeds(getDocs(collection(asGuest(), 'stores', 'amazon', 'storeRateHistory')));
+    await assertFails(setDoc(doc(asUser(ADMIN_UID), 'stores', 'amazon', 'storeRateHistory', 'v1'), { version: 1 }));
+    await assertFails(setDoc(doc(asUser(USER_UID), 'stores', 'amazon', 'storeRateHistory', 'v1'), { version: 1 }));
+  });
+});
+
+describe('storeSlugs', () => {
+  it('is public to read and written only by admins', async () => {
+    await assertSucceeds(getDoc(doc(asGuest(), 'storeSlugs', 'amazon')));
+    await assertFails(setDoc(doc(asUser(USER_UID), 'storeSlugs', 'amazon'), { storeId: 'other' }));
+    await assertFails(setDoc(doc(asUser(DISABLED_ADMIN_UID), 'storeSlugs', 'amazon'), { storeId: 'other' }));
+    await assertSucceeds(setDoc(doc(asUser(ADMIN_UID), 'storeSlugs', 'amazon'), { storeId: 'amazon' }));
+  });
+});
+
+describe('campaigns', () => {
+  it('are public to read unless limited to selected users', async () => {
+    await assertSucceeds(getDoc(doc(asGuest(), 'campaigns', 'weekend2x')));
+    await assertSucceeds(getDocs(query(collection(asGuest(), 'campaigns'), where('eligibility', 'in', ['all', 'new']))));
+    await assertFails(getDoc(doc(asGuest(), 'campaigns', 'vip3x')));
+    await assertFails(getDoc(doc(asUser(OTHER_UID), 'campaigns', 'vip3x')));
+    await assertFails(getDocs(collection(asUser(USER_UID), 'campaigns')));
+  });
+
+  it('let selected users read the campaigns they are in', async () => {
+    const db = asUser(USER_UID);
+    await assertSucceeds(getDoc(doc(db, 'campaigns', 'vip3x')));
+    await assertSucceeds(getDocs(query(collection(db, 'campaigns'), where('eligibleUserIds', 'array-contains', USER_UID))));
+  });
+
+  it('are written only by admins', async () => {
+    await assertFails(setDoc(doc(asUser(USER_UID), 'campaigns', 'mine'), { storeId: 'amazon', eligibility: 'all', multiplier: 10 }));
+    await assertFails(updateDoc(doc(asUser(USER_UID), 'campaigns', 'vip3x'), { multiplier: 10 }));
+    await assertSucceeds(getDocs(collection(asUser(ADMIN_UID), 'campaigns')));
+    await assertSucceeds(updateDoc(doc(asUser(ADMIN_UID), 'campaigns', 'weekend2x'), { isActive: false }));
+  });
+});
+
+describe('unlisted collections', () => {
+  it('are denied by default', async () => {
+    await assertFails(getDoc(doc(asUser(ADMIN_UID), 'secrets', 'anything')));
+    await assertFails(setDoc(doc(asUser(ADMIN_UID), 'secrets', 'anything'), { value: 1 }));
+  });
+});
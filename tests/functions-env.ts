@@ -0,0 +1,10 @@
+// tests/functions-env.ts
+// Environment for tests that load Cloud Functions from functions/src. Import
+// it before them: the Admin SDK and the payout provider table read it when
+// they load.
+process.env.GCLOUD_PROJECT ||= 'demo-magicsaver';
+// Routes PayPal payouts to the mock provider, as under the emulator.
+process.env.FUNCTIONS_EMULATOR = 'true';
+process.env.MOCK_PAYOUT_WEBHOOK_TOKEN = 'test-webhook-token';
+
+export const MOCK_WEBHOOK_TOKEN = process.env.MOCK_PAYOUT_WEBHOOK_TOKEN;
@@ -0,0 +1,192 @@
+// tests/payout-dispatch.test.ts
+// Payout dispatch through the mock provider (functions/src/payout-dispatch.ts).
+// Run against the Firestore emulator with `npm run test:rules`.
+import { MOCK_WEBHOOK_TOKEN } from './functions-env';
+import assert from 'assert';
+import { admin, db } from '../functions/src/admin';
+import { onPayoutApproved, payoutProviderWebhook, pollProcessingPayouts } from '../functions/src/payout-dispatch';
+
+const USER_UID = 'payee001';
+const AMOUNT = 250;
+
+let payoutCount = 0;
+
+// An approved PayPal payout reserving one confirmed transaction, with the
+// amount already taken from the user's balance as requestPayout does.
+async function approvedPayout(detail: string): Promise<string> {
+  payoutCount += 1;
+  const payoutId = `payout_dispatch_${payoutCount}`;
+  const transactionId = `${payoutId}_txn`;
+  await db.collection('users').doc(USER_UID).set({
+    uid: USER_UID,
+    cashbackBalance: 0,
+    pendingCashback: 0,
+    lifetimeCashback: AMOUNT,
+  });
+  await db.collection('transactions').doc(transactionId).set({
+    userId: USER_UID,
+    status: 'confirmed',
+    payoutId,
+    initialCashbackAmount: AMOUNT,
+  });
+  await db.collection('payoutRequests').doc(payoutId).set({
+    userId: USER_UID,
+    amount: AMOUNT,
+    status: 'approved',
+    paymentMethod: 'paypal',
+    paymentDetails: { method: 'paypal', detail },
+    transactionIds: [transactionId],
+    requestedAt: new Date(),
+  });
+  return payoutId;
+}
+
+async function payout(payoutId: string) {
+  return (await db.collection('payoutRequests').doc(payoutId).get()).data()!;
+}
+
+async function dispatch(payoutId: string) {
+  const after = await db.collection('payoutRequests').doc(payoutId).get();
+  await onPayoutApproved.run({ data: { after }, params: { payoutId } } as unknown as Parameters<typeof onPayoutApproved.run>[0]);
+}
+
+async function poll() {
+  await pollProcessingPayouts.run({} as Parameters<typeof pollProcessingPayouts.run>[0]);
+}
+
+interface WebhookResponse {
+  statusCode: number;
+  body: string;
+}
+
+async function callWebhook(token: string, body: Record<string, unknown>): Promise<WebhookResponse> {
+  const headers: Record<string, string> = { 'x-mock-token': token };
+  const request = {
+    method: 'POST',
+    query: { provider: 'mock' },
+    headers,
+    body,
+    get: (name: string) => headers[name.toLowerCase()],
+    header: (name: string) => headers[name.toLowerCase()],
+  };
+  const response = { statusCode: 200, body: '' } as WebhookResponse & {
+    status(code: number): typeof response;
+    send(text: string): typeof response;
+  };
+  response.status = (code) => {
+    response.statusCode = code;
+    return response;
+  };
+  response.send = (text) => {
+    response.body = text;
+    return response;
+  };
+  await payoutProviderWebhook(request as unknown as Parameters<typeof payoutProviderWebhook>[0],
+    response as unknown as Parameters<typeof payoutProviderWebhook>[1]);
+  return response;
+}
+
+// Lets mocha exit; shared with the other files that load functions/src.
+after(async () => {
+  await Promise.all(admin.apps.map(app => app?.delete()));
+});
+
+describe('payout dispatch', () => {
+  it('hands an approved payout to the mock provider and settles it when polled', async () => {
+    const payoutId = await approvedPayout('payee@example.com');
+
+    await dispatch(payoutId);
+    const dispatched = await payout(payoutId);
+    assert.strictEqual(dispatched.status, 'processing');
+    assert.strictEqual(dispatched.providerId, 'mock');
+    assert.strictEqual(dispatched.providerReference, `mock_${payoutId}`);
+
+    await poll();
+    assert.strictEqual((await payout(payoutId)).status, 'paid');
+    const transaction = (await db.collection('transactions').doc(`${payoutId}_txn`).get()).data()!;
+    assert.strictEqual(transaction.status, 'paid');
+    assert.ok((await db.collection('ledgerEntries').doc(`settle_payout_${payoutId}`).get()).exists);
+  });
+
+  it('fails a payout the provider declines and returns the amount to the balance', async () => {
+    const payoutId = await approvedPayout('fail@example.com');
+
+    await dispatch(payoutId);
+    await poll();
+    const failed = await payout(payoutId);
+    assert.strictEqual(failed.status, 'failed');
+    assert.strictEqual(failed.failureReason, 'Declined by the mock payout provider.');
+    const transaction = (await db.collection('transactions').doc(`${payoutId}_txn`).get()).data()!;
+    assert.strictEqual(transaction.status, 'confirmed');
+    assert.strictEqual(transaction.payoutId, null);
+    assert.ok((await db.collection('ledgerEntries').doc(`release_payout_${payoutId}`).get()).exists);
+    assert.strictEqual((await db.collection('users').doc(USER_UID).get()).get('cashbackBalance'), AMOUNT);
+  });
+
+  it('fails a payout whose details the provider cannot pay to without dispatching it', async () => {
+    const payoutId = await approvedPayout('not an email');
+
+    await dispatch(payoutId);
+    const failed = await payout(payoutId);
+    assert.strictEqual(failed.status, 'failed');
+    assert.strictEqual(failed.providerReference, undefined);
+    assert.match(failed.failureReason, /PayPal/);
+  });
+
+  it('does not dispatch a payout twice when the approval event repeats', async () => {
+    const payoutId = await approvedPayout('payee@example.com');
+
+    const approved = await db.collection('payoutRequests').doc(payoutId).get();
+    await dispatch(payoutId);
+    await onPayoutApproved.run({ data: { after: approved }, params: { payoutId } } as unknown as Parameters<typeof onPayoutApproved.run>[0]);
+    const dispatched = await payout(payoutId);
+    assert.strictEqual(dispatched.status, 'processing');
+    assert.strictEqual(dispatched.providerReference, `mock_${payoutId}`);
+  });
+});
+
+describe('payout provider webhook', () => {
+  it('records the status the provider reports', async () => {
+    const payoutId = await approvedPayout('payee@example.com');
+    await dispatch(payoutId);
+
+    const response = await callWebhook(MOCK_WEBHOOK_TOKEN!, { reference: `mock_${payoutId}`, status: 'paid' });
+    assert.strictEqual(response.statusCode, 200);
+    assert.strictEqual((await payout(payoutId)).status, 'paid');
+
+    // A repeated callback for a settled payout is acknowledged and ignored.
+    const repeated = await callWebhook(MOCK_WEBHOOK_TOKEN!, { reference: `mock_${payoutId}`, status: 'failed' });
+    assert.strictEqual(repeated.statusCode, 200);
+    assert.strictEqual((await payout(payoutId)).status, 'paid');
+  });
+
+  it('records a failure reported by the provider', async () => {
+    const payoutId = await approvedPayout('payee@example.com');
+    await dispatch(payoutId);
+
+    const response = await callWebhook(MOCK_WEBHOOK_TOKEN!, {
+      reference: `mock_${payoutId}`,
+      status: 'failed',
+      failureReason: 'Account closed.',
+    });
+    assert.strictEqual(response.statusCode, 200);
+    const failed = await payout(payoutId);
+    assert.strictEqual(failed.status, 'failed');
+    assert.strictEqual(failed.failureReason, 'Account closed.');
+  });
+
+  it('rejects callbacks without the shared token', async () => {
+    const payoutId = await approvedPayout('payee@example.com');
+    await dispatch(payoutId);
+
+    const response = await callWebhook('wrong-token-value!', { reference: `mock_${payoutId}`, status: 'paid' });
+    assert.strictEqual(response.statusCode, 401);
+    assert.strictEqual((await payout(payoutId)).status, 'processing');
+  });
+
+  it('acknowledges callbacks for references it never issued', async () => {
+    const response = await callWebhook(MOCK_WEBHOOK_TOKEN!, { reference: 'mock_unknown', status: 'paid' });
+    assert.strictEqual(response.statusCode, 200);
+    assert.strictEqual(response.body, 'Unknown reference.');
+  });
+});
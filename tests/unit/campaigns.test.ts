@@ -0,0 +1,82 @@
+// tests/unit/campaigns.test.ts
+// Boost campaigns (functions/src/campaigns.ts). Run with `npm run test:unit`.
+import assert from 'assert';
+import { admin } from '../../functions/src/admin';
+import { applyCampaignBoost, needsNewUserCheck, selectCampaign, type CampaignWithId } from '../../functions/src/campaigns';
+
+const { Timestamp } = admin.firestore;
+const AT = new Date('2026-03-10T12:00:00Z');
+
+function campaign(id: string, overrides: Partial<CampaignWithId> = {}): CampaignWithId {
+  return {
+    id,
+    name: id,
+    storeId: 'amazon',
+    productId: null,
+    multiplier: 2,
+    maxBonusAmount: null,
+    startsAt: Timestamp.fromDate(new Date('2026-03-01T00:00:00Z')),
+    endsAt: Timestamp.fromDate(new Date('2026-03-31T00:00:00Z')),
+    eligibility: 'all',
+    eligibleUserIds: [],
+    isActive: true,
+    createdAt: Timestamp.fromDate(AT),
+    updatedAt: Timestamp.fromDate(AT),
+    ...overrides,
+  };
+}
+
+const context = { userId: 'user001', productId: 'phone001', at: AT, isNewUser: false };
+
+describe('selectCampaign', () => {
+  it('picks the highest multiplier among the campaigns that apply', () => {
+    const selected = selectCampaign([
+      campaign('double'),
+      campaign('triple', { multiplier: 3 }),
+      campaign('ended', { multiplier: 5, endsAt: Timestamp.fromDate(new Date('2026-03-05T00:00:00Z')) }),
+      campaign('paused', { multiplier: 5, isActive: false }),
+    ], context);
+    assert.strictEqual(selected?.id, 'triple');
+  });
+
+  it('only boosts the campaign\'s product when it has one', () => {
+    assert.strictEqual(selectCampaign([campaign('laptops', { productId: 'laptop001' })], context), null);
+    assert.strictEqual(selectCampaign([campaign('phones', { productId: 'phone001' })], context)?.id, 'phones');
+  });
+
+  it('checks who the campaign is for', () => {
+    const campaigns = [
+      campaign('new', { eligibility: 'new', multiplier: 4 }),
+      campaign('vip', { eligibility: 'specific', eligibleUserIds: ['user002'], multiplier: 3 }),
+    ];
+    assert.strictEqual(selectCampaign(campaigns, context), null);
+    assert.strictEqual(selectCampaign(campaigns, { ...context, userId: 'user002' })?.id, 'vip');
+    assert.strictEqual(selectCampaign(campaigns, { ...context, isNewUser: true })?.id, 'new');
+    // Unknown order history never counts as new.
+    assert.strictEqual(selectCampaign(campaigns, { ...context, isNewUser: null }), null);
+  });
+
+  it('ignores multipliers that would not add anything', () => {
+    assert.strictEqual(selectCampaign([campaign('flat', { multiplier: 1 })], context), null);
+  });
+});
+
+describe('needsNewUserCheck', () => {
+  it('is only true when a campaign is limited to new users', () => {
+    assert.strictEqual(needsNewUserCheck([campaign('all'), campaign('vip', { eligibility: 'specific' })]), false);
+    assert.strictEqual(needsNewUserCheck([campaign('all'), campaign('new', { eligibility: 'new' })]), true);
+  });
+});
+
+describe('applyCampaignBoost', () => {
+  it('multiplies the cashback and reports the bonus', () => {
+    const boosted = applyCampaignBoost({ amount: 40.5, rateApplied: '5%' }, campaign('Weekend', { multiplier: 2.5 }));
+    assert.deepStrictEqual(boosted, { amount: 101.25, rateApplied: '5% + Weekend (2.5x)', bonus: 60.75 });
+  });
+
+  it('caps the bonus at maxBonusAmount', () => {
+    const boosted = applyCampaignBoost({ amount: 300, rateApplied: '5%' }, campaign('Weekend', { multiplier: 3, maxBonusAmount: 100 }));
+    assert.strictEqual(boosted.bonus, 100);
+    assert.strictEqual(boosted.amount, 400);
+  });
+});
@@ -0,0 +1,102 @@
+// tests/unit/cashback.test.ts
+// Cashback for a sale (functions/src/cashback.ts). Run with `npm run test:unit`.
+import assert from 'assert';
+import { admin } from '../../functions/src/admin';
+import { calculateCashback, cashbackForSale } from '../../functions/src/cashback';
+import type { CashbackRateTier, Click } from '../../functions/src/types';
+
+const { Timestamp } = admin.firestore;
+const AT = new Date('2026-03-10T12:00:00Z');
+
+const store = {
+  cashbackRate: 'Up to 5%',
+  cashbackRateValue: 5,
+  cashbackType: 'percentage' as const,
+  cashbackRates: null as CashbackRateTier[] | null,
+};
+
+function tier(overrides: Partial<CashbackRateTier>): CashbackRateTier {
+  return {
+    id: 'tier',
+    name: 'Tier',
+    category: null,
+    userSegment: 'all',
+    platform: 'all',
+    value: 5,
+    type: 'percentage',
+    ...overrides,
+  };
+}
+
+function click(overrides: Partial<Click> = {}): Click {
+  return {
+    clickId: 'click001',
+    userId: 'user001',
+    storeId: 'amazon',
+    affiliateLink: 'https://example.com',
+    timestamp: Timestamp.fromDate(AT),
+    ...overrides,
+  };
+}
+
+describe('calculateCashback', () => {
+  it('takes a percentage of the sale, rounded to two decimals', () => {
+    assert.strictEqual(calculateCashback(999.99, 7.5, 'percentage'), 75);
+    assert.strictEqual(calculateCashback(333.33, 3, 'percentage'), 10);
+  });
+
+  it('pays a fixed rate whatever the sale amount', () => {
+    assert.strictEqual(calculateCashback(10, 150, 'fixed'), 150);
+  });
+
+  it('caps the amount at maxCashback and never goes negative', () => {
+    assert.strictEqual(calculateCashback(10000, 10, 'percentage', 250), 250);
+    assert.strictEqual(calculateCashback(-100, 10, 'percentage'), 0);
+  });
+});
+
+describe('cashbackForSale', () => {
+  it('honours the rate snapshot taken at click time', () => {
+    const cashback = cashbackForSale(1000, click({
+      clickedCashbackRateValue: 8,
+      clickedCashbackType: 'percentage',
+      clickedCashbackDisplay: '8% Cashback',
+    }), { ...store, cashbackRates: [tier({ value: 12 })] });
+    assert.deepStrictEqual(cashback, { amount: 80, rateApplied: '8% Cashback' });
+  });
+
+  it('uses the most specific matching rate tier when the click has no snapshot', () => {
+    const cashback = cashbackForSale(2000, click(), {
+      ...store,
+      cashbackRates: [
+        tier({ id: 'app', name: 'App', platform: 'app', value: 9 }),
+        tier({ id: 'electronics', name: 'Electronics', category: 'Electronics', value: 2 }),
+        tier({ id: 'new', name: 'New users', userSegment: 'new', value: 150, type: 'fixed' }),
+      ],
+    }, { category: 'electronics', platform: 'app', isNewUser: true, at: AT });
+    assert.deepStrictEqual(cashback, { amount: 40, rateApplied: 'Electronics (2%)' });
+  });
+
+  it('skips tiers outside their validity window or for an unknown user segment', () => {
+    const cashback = cashbackForSale(1000, null, {
+      ...store,
+      cashbackRates: [
+        tier({ name: 'Expired', value: 20, validUntil: Timestamp.fromDate(new Date('2026-03-01T00:00:00Z')) }),
+        tier({ name: 'Existing users', userSegment: 'existing', value: 15 }),
+      ],
+    }, { isNewUser: null, at: AT });
+    assert.deepStrictEqual(cashback, { amount: 50, rateApplied: 'Up to 5%' });
+  });
+
+  it('applies a tier\'s cap', () => {
+    const cashback = cashbackForSale(10000, null, {
+      ...store,
+      cashbackRates: [tier({ name: 'Sale', value: 10, maxCashback: 300 })],
+    }, { at: AT });
+    assert.deepStrictEqual(cashback, { amount: 300, rateApplied: 'Sale (10%)' });
+  });
+
+  it('returns null when there is neither a snapshot nor a store', () => {
+    assert.strictEqual(cashbackForSale(1000, click(), null), null);
+  });
+});
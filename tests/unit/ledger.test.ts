@@ -0,0 +1,133 @@
+// tests/unit/ledger.test.ts
+// Ledger entry builders (functions/src/ledger.ts). Run with `npm run test:unit`.
+import assert from 'assert';
+import { admin } from '../../functions/src/admin';
+import {
+  confirm,
+  confirmReferral,
+  creditPending,
+  ledgerEntryId,
+  reject,
+  releasePayout,
+  reservePayout,
+  reverseReferral,
+  settlePayout,
+} from '../../functions/src/ledger';
+import { recordingTransaction, type RecordedWrite } from './recording-transaction';
+
+const { FieldValue } = admin.firestore;
+const USER_UID = 'user001';
+
+function entryWrite(writes: RecordedWrite[], entryId: string) {
+  const write = writes.find(candidate => candidate.path === `ledgerEntries/${entryId}`);
+  assert.ok(write, `No ledger entry ${entryId} was written.`);
+  assert.strictEqual(write.op, 'create');
+  return write.data;
+}
+
+// Checks the balance increments applied to the user's profile.
+function assertProfileIncrements(writes: RecordedWrite[], expected: Record<string, number>) {
+  const update = writes.find(candidate => candidate.path === `users/${USER_UID}`);
+  assert.ok(update, 'The user\'s profile was not updated.');
+  assert.strictEqual(update.op, 'update');
+  const balanceFields = ['pendingCashback', 'cashbackBalance', 'lifetimeCashback'];
+  assert.deepStrictEqual(balanceFields.filter(field => field in update.data), balanceFields.filter(field => field in expected));
+  for (const [field, amount] of Object.entries(expected)) {
+    const increment = FieldValue.increment(amount);
+    assert.ok(increment.isEqual(update.data[field] as typeof increment), `${field} is not incremented by ${amount}.`);
+  }
+}
+
+describe('ledger', () => {
+  it('derives entry IDs from the operation and its reference', () => {
+    assert.strictEqual(ledgerEntryId('confirm', 'txn001'), 'confirm_txn001');
+  });
+
+  it('credits new cashback to the pending balance', () => {
+    const { transaction, writes } = recordingTransaction();
+    const entryId = creditPending(transaction, { userId: USER_UID, transactionId: 'txn001', amount: 100 });
+
+    assert.strictEqual(entryId, 'credit_pending_txn001');
+    const entry = entryWrite(writes, entryId);
+    assert.strictEqual(entry.pendingDelta, 100);
+    assert.strictEqual(entry.balanceDelta, 0);
+    assert.strictEqual(entry.transactionId, 'txn001');
+    assertProfileIncrements(writes, { pendingCashback: 100 });
+  });
+
+  it('moves confirmed cashback from pending to the available and lifetime balances', () => {
+    const { transaction, writes } = recordingTransaction();
+    confirm(transaction, { userId: USER_UID, transactionId: 'txn001', pendingAmount: 100, confirmedAmount: 250 });
+
+    const entry = entryWrite(writes, 'confirm_txn001');
+    assert.deepStrictEqual([entry.pendingDelta, entry.balanceDelta, entry.lifetimeDelta], [-100, 250, 250]);
+    assertProfileIncrements(writes, { pendingCashback: -100, cashbackBalance: 250, lifetimeCashback: 250 });
+  });
+
+  it('claws back confirmed cashback when a transaction is rejected', () => {
+    const { transaction, writes } = recordingTransaction();
+    reject(transaction, { userId: USER_UID, transactionId: 'txn001', pendingAmount: 0, confirmedAmount: 250 });
+
+    assertProfileIncrements(writes, { cashbackBalance: -250, lifetimeCashback: -250 });
+  });
+
+  it('rounds amounts to two decimals', () => {
+    const { transaction, writes } = recordingTransaction();
+    creditPending(transaction, { userId: USER_UID, transactionId: 'txn001', amount: 0.1 + 0.2 });
+
+    assert.strictEqual(entryWrite(writes, 'credit_pending_txn001').pendingDelta, 0.3);
+    assertProfileIncrements(writes, { pendingCashback: 0.3 });
+  });
+
+  it('reserves, releases and settles payouts against the available balance', () => {
+    const reserved = recordingTransaction();
+    reservePayout(reserved.transaction, { userId: USER_UID, payoutId: 'payout001', amount: 500 });
+    assertProfileIncrements(reserved.writes, { cashbackBalance: -500 });
+
+    const released = recordingTransaction();
+    releasePayout(released.transaction, { userId: USER_UID, payoutId: 'payout001', amount: 500 });
+    assertProfileIncrements(released.writes, { cashbackBalance: 500 });
+
+    // Settling only closes the reservation.
+    const settled = recordingTransaction();
+    settlePayout(settled.transaction, { userId: USER_UID, payoutId: 'payout001', amount: 500 });
+    assert.strictEqual(entryWrite(settled.writes, 'settle_payout_payout001').description, 'Payout of 500 paid.');
+    assertProfileIncrements(settled.writes, {});
+  });
+
+  it('keys referral confirmations and reversals by bonus and qualifying transaction', () => {
+    const { transaction, writes } = recordingTransaction();
+    const input = { userId: USER_UID, referralBonusId: 'referee001', transactionId: 'txn009', amount: 50 };
+    assert.strictEqual(confirmReferral(transaction, input), 'referral_confirm_referee001_txn009');
+    assert.strictEqual(reverseReferral(transaction, { ...input, wasConfirmed: true }), 'referral_reverse_referee001_txn009');
+    assert.strictEqual(entryWrite(writes, 'referral_confirm_referee001_txn009').referralBonusId, 'referee001');
+  });
+
+  it('returns a reversed referral bonus to pending when asked', () => {
+    const { transaction, writes } = recordingTransaction();
+    reverseReferral(transaction, {
+      userId: USER_UID,
+      referralBonusId: 'referee001',
+      transactionId: 'txn009',
+      amount: 50,
+      wasConfirmed: true,
+      returnToPending: true,
+    });
+
+    assertProfileIncrements(writes, { pendingCashback: 50, cashbackBalance: -50, lifetimeCashback: -50 });
+  });
+
+  it('takes an unconfirmed referral bonus back from pending', () => {
+    const { transaction, writes } = recordingTransaction();
+    reverseReferral(transaction, { userId: USER_UID, referralBonusId: 'referee001', amount: 50, wasConfirmed: false });
+
+    assert.strictEqual(entryWrite(writes, 'referral_reverse_referee001').pendingDelta, -50);
+    assertProfileIncrements(writes, { pendingCashback: -50 });
+  });
+
+  it('refuses entries without a reference', () => {
+    const { transaction, writes } = recordingTransaction();
+    assert.throws(() => creditPending(transaction, { userId: USER_UID, transactionId: '', amount: 100 }), /needs a transaction/);
+    assert.strictEqual(writes.length, 0);
+  });
+});
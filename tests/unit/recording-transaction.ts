@@ -0,0 +1,20 @@
+// tests/unit/recording-transaction.ts
+// A stand-in for a Firestore transaction that records the writes made in it,
+// for unit tests of code that only writes through the transaction.
+import type { DocumentReference, Transaction } from 'firebase-admin/firestore';
+
+export interface RecordedWrite {
+  op: 'create' | 'update';
+  path: string;
+  data: Record<string, unknown>;
+}
+
+export function recordingTransaction(): { transaction: Transaction; writes: RecordedWrite[] } {
+  const writes: RecordedWrite[] = [];
+  const record = (op: RecordedWrite['op']) => (ref: DocumentReference, data: Record<string, unknown>) => {
+    writes.push({ op, path: ref.path, data });
+    return transaction;
+  };
+  const transaction = { create: record('create'), update: record('update') } as unknown as Transaction;
+  return { transaction, writes };
+}